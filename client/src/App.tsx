@@ -33,6 +33,8 @@ import WhatsAppTemplateTest from "./pages/whatsapp-template-test";
 import WhatsAppWebhooks from "./pages/whatsapp-webhooks";
 import ProtectedRoute from "./components/ProtectedRoute";
 import ToolsPage from "./pages/tools_page";
+import RollTrace from "./pages/roll-trace";
+import ProductionSchedule from "./pages/production-schedule";
 
 function AppRoutes() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -78,6 +80,18 @@ function AppRoutes() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/production-schedule">
+        <ProtectedRoute path="/production-schedule">
+          <ProductionSchedule />
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/trace/:ref?">
+        <ProtectedRoute path="/trace">
+          <RollTrace />
+        </ProtectedRoute>
+      </Route>
+
       <Route path="/quality">
         <ProtectedRoute path="/quality">
           <Quality />
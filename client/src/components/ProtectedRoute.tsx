@@ -1,7 +1,9 @@
 import { useAuth } from "../hooks/use-auth";
 import { canAccessRoute } from "../utils/roleUtils";
 import { Redirect } from "wouter";
-import { LogOut } from "lucide-react";
+import { KeyRound, LogOut, ShieldCheck } from "lucide-react";
+import ChangePasswordForm from "./settings/ChangePasswordForm";
+import TwoFactorPanel from "./settings/TwoFactorPanel";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -25,6 +27,70 @@ export default function ProtectedRoute({ children, path }: ProtectedRouteProps)
     return <Redirect to="/login" />;
   }
 
+  // Admin required a password change at next login - block every page until done
+  if (user.must_change_password) {
+    const handleLogout = async () => {
+      await logout();
+      window.location.href = '/login';
+    };
+
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50">
+        <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+          <div className="flex items-center gap-2 text-xl font-bold mb-2">
+            <KeyRound className="h-5 w-5 text-blue-600" />
+            تغيير كلمة المرور مطلوب
+          </div>
+          <p className="text-sm text-gray-600 mb-6">
+            يجب تعيين كلمة مرور جديدة قبل متابعة استخدام النظام
+          </p>
+
+          <ChangePasswordForm onSuccess={() => window.location.reload()} />
+
+          <button
+            onClick={handleLogout}
+            className="mt-6 w-full px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <LogOut className="h-4 w-4" />
+            تسجيل الخروج
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // The user's role requires 2FA - enroll an authenticator before continuing
+  if (user.two_factor_setup_required) {
+    const handleLogout = async () => {
+      await logout();
+      window.location.href = '/login';
+    };
+
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50">
+        <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+          <div className="flex items-center gap-2 text-xl font-bold mb-2">
+            <ShieldCheck className="h-5 w-5 text-blue-600" />
+            تفعيل التحقق بخطوتين مطلوب
+          </div>
+          <p className="text-sm text-gray-600 mb-6">
+            دورك في النظام يتطلب التحقق بخطوتين. فعّله للمتابعة
+          </p>
+
+          <TwoFactorPanel onEnabled={() => window.location.reload()} />
+
+          <button
+            onClick={handleLogout}
+            className="mt-6 w-full px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <LogOut className="h-4 w-4" />
+            تسجيل الخروج
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Check if user has permission to access this route
   if (!canAccessRoute(user, path)) {
     const handleLogout = async () => {
@@ -14,12 +14,176 @@ import {
 } from "./ui/table";
 import { Badge } from "./ui/badge";
 import { Checkbox } from "./ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
 import { useToast } from "../hooks/use-toast";
 import { apiRequest } from "../lib/queryClient";
 import { type Role } from "../../../shared/schema";
-import { PERMISSIONS, PERMISSION_CATEGORIES, type Permission } from "../../../shared/permissions";
+import {
+  PERMISSIONS,
+  PERMISSION_ACTIONS,
+  PERMISSION_CATEGORIES,
+  PERMISSION_RESOURCES,
+  DATA_SCOPE_LEVELS,
+  expandPermissions,
+  permissionKeyFor,
+  type PermissionAction,
+} from "../../../shared/permissions";
 import { Plus, Edit, Trash2, Shield, Check, X } from "lucide-react";
 
+const MATRIX_ACTIONS = Object.keys(PERMISSION_ACTIONS) as PermissionAction[];
+
+// الصلاحيات المرتبطة بمورد تظهر في المصفوفة، والباقي يظهر كقائمة منفصلة
+const MATRIX_PERMISSION_IDS = new Set<string>(
+  PERMISSION_RESOURCES.flatMap((resource) =>
+    resource.actions.map((action) => permissionKeyFor(action, resource.id)),
+  ),
+);
+const OTHER_PERMISSIONS = PERMISSIONS.filter(
+  (permission) => !MATRIX_PERMISSION_IDS.has(permission.id),
+);
+
+interface PermissionMatrixProps {
+  idPrefix: string;
+  permissions: string[];
+  onChange: (permissions: string[]) => void;
+}
+
+/**
+ * مصفوفة الصلاحيات: صف لكل مورد وعمود لكل إجراء (عرض/إضافة/تعديل/حذف/اعتماد/تصدير)
+ */
+function PermissionMatrix({
+  idPrefix,
+  permissions,
+  onChange,
+}: PermissionMatrixProps) {
+  const toggle = (keys: string[], checked: boolean) => {
+    const remaining = permissions.filter((p) => !keys.includes(p));
+    onChange(checked ? [...remaining, ...keys] : remaining);
+  };
+
+  const allGranted = (keys: string[]) =>
+    keys.length > 0 && keys.every((key) => permissions.includes(key));
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>المورد</TableHead>
+              {MATRIX_ACTIONS.map((action) => {
+                const columnKeys = PERMISSION_RESOURCES.filter((resource) =>
+                  resource.actions.includes(action),
+                ).map((resource) => permissionKeyFor(action, resource.id));
+                return (
+                  <TableHead key={action} className="text-center">
+                    <div className="flex flex-col items-center gap-1">
+                      {PERMISSION_ACTIONS[action].name_ar}
+                      <Checkbox
+                        id={`${idPrefix}-column-${action}`}
+                        checked={allGranted(columnKeys)}
+                        onCheckedChange={(checked) =>
+                          toggle(columnKeys, checked === true)
+                        }
+                      />
+                    </div>
+                  </TableHead>
+                );
+              })}
+              <TableHead className="text-center">الكل</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {PERMISSION_RESOURCES.map((resource) => {
+              const rowKeys = resource.actions.map((action) =>
+                permissionKeyFor(action, resource.id),
+              );
+              return (
+                <TableRow key={resource.id}>
+                  <TableCell className="font-medium">
+                    {resource.name_ar}
+                  </TableCell>
+                  {MATRIX_ACTIONS.map((action) => {
+                    const key = permissionKeyFor(action, resource.id);
+                    return (
+                      <TableCell key={action} className="text-center">
+                        {resource.actions.includes(action) ? (
+                          <Checkbox
+                            id={`${idPrefix}-${key}`}
+                            checked={permissions.includes(key)}
+                            onCheckedChange={(checked) =>
+                              toggle([key], checked === true)
+                            }
+                            data-testid={`checkbox-${idPrefix}-${key}`}
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-center">
+                    <Checkbox
+                      id={`${idPrefix}-row-${resource.id}`}
+                      checked={allGranted(rowKeys)}
+                      onCheckedChange={(checked) =>
+                        toggle(rowKeys, checked === true)
+                      }
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {PERMISSION_CATEGORIES.map((category) => {
+        const categoryPermissions = OTHER_PERMISSIONS.filter(
+          (p) => p.category === category,
+        );
+        if (categoryPermissions.length === 0) return null;
+
+        return (
+          <div key={category} className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">
+              {category}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 pl-4">
+              {categoryPermissions.map((permission) => (
+                <div
+                  key={permission.id}
+                  className="flex items-center space-x-2 space-x-reverse"
+                >
+                  <Checkbox
+                    id={`${idPrefix}-${permission.id}`}
+                    checked={permissions.includes(permission.id)}
+                    onCheckedChange={(checked) =>
+                      toggle([permission.id], checked === true)
+                    }
+                  />
+                  <label
+                    htmlFor={`${idPrefix}-${permission.id}`}
+                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                  >
+                    {permission.name_ar}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function RoleManagementTab() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -28,13 +192,12 @@ export default function RoleManagementTab() {
     name: "",
     name_ar: "",
     permissions: [] as string[],
+    require_two_factor: false,
+    data_scope: "all",
   });
 
   const [editingRole, setEditingRole] = useState<any | null>(null);
 
-  // Use permissions from centralized registry
-  const availablePermissions = PERMISSIONS;
-
   // Fetch roles
   const { data: roles = [], isLoading } = useQuery<any[]>({
     queryKey: ["/api/roles"],
@@ -50,7 +213,13 @@ export default function RoleManagementTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
-      setNewRole({ name: "", name_ar: "", permissions: [] });
+      setNewRole({
+        name: "",
+        name_ar: "",
+        permissions: [],
+        require_two_factor: false,
+        data_scope: "all",
+      });
       toast({
         title: "تم إنشاء الدور بنجاح",
         description: "تم إضافة الدور الجديد إلى النظام",
@@ -135,28 +304,6 @@ export default function RoleManagementTab() {
     }
   };
 
-  const handlePermissionChange = (
-    permissionId: string,
-    checked: boolean,
-    isEditing = false,
-  ) => {
-    if (isEditing && editingRole) {
-      setEditingRole({
-        ...editingRole,
-        permissions: checked
-          ? [...editingRole.permissions, permissionId]
-          : editingRole.permissions.filter((p: string) => p !== permissionId),
-      });
-    } else {
-      setNewRole({
-        ...newRole,
-        permissions: checked
-          ? [...newRole.permissions, permissionId]
-          : newRole.permissions.filter((p) => p !== permissionId),
-      });
-    }
-  };
-
   if (isLoading) {
     return <div className="text-center py-8">جاري تحميل الأدوار...</div>;
   }
@@ -197,41 +344,54 @@ export default function RoleManagementTab() {
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>نطاق البيانات</Label>
+            <Select
+              value={newRole.data_scope}
+              onValueChange={(value) =>
+                setNewRole({ ...newRole, data_scope: value })
+              }
+            >
+              <SelectTrigger className="max-w-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATA_SCOPE_LEVELS.map((level) => (
+                  <SelectItem key={level.id} value={level.id}>
+                    {level.name_ar}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              القسم: يرى بيانات الموارد البشرية والحضور لموظفي قسمه وعملاء
+              مندوبي قسمه. الخاصة: يرى سجلاته فقط والعملاء المسندين إليه
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2 space-x-reverse">
+            <Checkbox
+              id="new-require-two-factor"
+              checked={newRole.require_two_factor}
+              onCheckedChange={(checked) =>
+                setNewRole({ ...newRole, require_two_factor: checked === true })
+              }
+            />
+            <label
+              htmlFor="new-require-two-factor"
+              className="text-sm font-medium leading-none"
+            >
+              التحقق بخطوتين إلزامي لمستخدمي هذا الدور
+            </label>
+          </div>
+
           <div className="space-y-4">
             <Label>الصلاحيات</Label>
-            {/* Group permissions by category */}
-            {PERMISSION_CATEGORIES.map((category) => {
-              const categoryPermissions = availablePermissions.filter(p => p.category === category);
-              if (categoryPermissions.length === 0) return null;
-              
-              return (
-                <div key={category} className="space-y-2">
-                  <h4 className="text-sm font-medium text-muted-foreground">{category}</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 pl-4">
-                    {categoryPermissions.map((permission) => (
-                      <div
-                        key={permission.id}
-                        className="flex items-center space-x-2 space-x-reverse"
-                      >
-                        <Checkbox
-                          id={`new-${permission.id}`}
-                          checked={newRole.permissions.includes(permission.id)}
-                          onCheckedChange={(checked) =>
-                            handlePermissionChange(permission.id, checked as boolean)
-                          }
-                        />
-                        <label
-                          htmlFor={`new-${permission.id}`}
-                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                        >
-                          {permission.name_ar}
-                        </label>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              );
-            })}
+            <PermissionMatrix
+              idPrefix="new"
+              permissions={newRole.permissions}
+              onChange={(permissions) => setNewRole({ ...newRole, permissions })}
+            />
           </div>
 
           <div className="flex justify-end">
@@ -272,6 +432,8 @@ export default function RoleManagementTab() {
                 <TableHead>اسم الدور</TableHead>
                 <TableHead>الاسم بالعربية</TableHead>
                 <TableHead>عدد الصلاحيات</TableHead>
+                <TableHead>نطاق البيانات</TableHead>
+                <TableHead>التحقق بخطوتين</TableHead>
                 <TableHead>الإجراءات</TableHead>
               </TableRow>
             </TableHeader>
@@ -313,52 +475,14 @@ export default function RoleManagementTab() {
                   </TableCell>
                   <TableCell>
                     {editingRole?.id === role.id ? (
-                      <div className="space-y-2 max-w-[300px]">
-                        <div className="text-xs font-medium text-muted-foreground mb-2">
-                          الصلاحيات المتاحة:
-                        </div>
-                        <div className="grid grid-cols-1 gap-2 max-h-32 overflow-y-auto">
-                          {PERMISSIONS
-                            .slice(0, 6)
-                            .map((permission) => (
-                              <div
-                                key={permission.id}
-                                className="flex items-center space-x-2 space-x-reverse text-xs"
-                              >
-                                <Checkbox
-                                  id={`table-edit-${permission.id}`}
-                                  checked={editingRole.permissions?.includes(
-                                    permission.id,
-                                  )}
-                                  onCheckedChange={(checked) =>
-                                    handlePermissionChange(
-                                      permission.id,
-                                      checked as boolean,
-                                      true,
-                                    )
-                                  }
-                                  className="w-3 h-3"
-                                />
-                                <label
-                                  htmlFor={`table-edit-${permission.id}`}
-                                  className="text-xs leading-none cursor-pointer"
-                                >
-                                  {permission.name_ar}
-                                </label>
-                              </div>
-                            ))}
-                          {availablePermissions.length > 6 && (
-                            <div className="text-xs text-muted-foreground">
-                              و {availablePermissions.length - 6} صلاحيات
-                              أخرى...
-                            </div>
-                          )}
-                        </div>
-                      </div>
+                      <Badge variant="secondary">
+                        {editingRole.permissions?.length || 0} صلاحية
+                      </Badge>
                     ) : (
                       <div className="flex items-center gap-2">
                         <Badge variant="secondary">
-                          {role.permissions?.length || 0} صلاحية
+                          {expandPermissions(role.permissions || []).length}{" "}
+                          صلاحية
                         </Badge>
                         {role.permissions?.length > 0 && (
                           <Button
@@ -369,10 +493,10 @@ export default function RoleManagementTab() {
                                 title: `صلاحيات الدور: ${role.name_ar}`,
                                 description: (
                                   <div className="space-y-1">
-                                    {role.permissions
+                                    {expandPermissions(role.permissions)
                                       .slice(0, 5)
                                       .map((permId: string) => {
-                                        const perm = availablePermissions.find(
+                                        const perm = PERMISSIONS.find(
                                           (p) => p.id === permId,
                                         );
                                         return perm ? (
@@ -381,9 +505,9 @@ export default function RoleManagementTab() {
                                           </div>
                                         ) : null;
                                       })}
-                                    {role.permissions.length > 5 && (
+                                    {expandPermissions(role.permissions).length > 5 && (
                                       <div className="text-xs text-muted-foreground">
-                                        و {role.permissions.length - 5} صلاحيات
+                                        و {expandPermissions(role.permissions).length - 5} صلاحيات
                                         أخرى...
                                       </div>
                                     )}
@@ -399,6 +523,59 @@ export default function RoleManagementTab() {
                       </div>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {editingRole?.id === role.id ? (
+                      <Select
+                        value={editingRole.data_scope || "all"}
+                        onValueChange={(value) =>
+                          setEditingRole({ ...editingRole, data_scope: value })
+                        }
+                      >
+                        <SelectTrigger className="max-w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DATA_SCOPE_LEVELS.map((level) => (
+                            <SelectItem key={level.id} value={level.id}>
+                              {level.name_ar}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">
+                        {DATA_SCOPE_LEVELS.find(
+                          (level) => level.id === (role.data_scope || "all"),
+                        )?.name_ar}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {editingRole?.id === role.id ? (
+                      <div className="flex items-center space-x-2 space-x-reverse">
+                        <Checkbox
+                          id={`table-edit-2fa-${role.id}`}
+                          checked={editingRole.require_two_factor === true}
+                          onCheckedChange={(checked) =>
+                            setEditingRole({
+                              ...editingRole,
+                              require_two_factor: checked === true,
+                            })
+                          }
+                        />
+                        <label
+                          htmlFor={`table-edit-2fa-${role.id}`}
+                          className="text-xs leading-none cursor-pointer"
+                        >
+                          إلزامي
+                        </label>
+                      </div>
+                    ) : role.require_two_factor ? (
+                      <Badge>إلزامي</Badge>
+                    ) : (
+                      <Badge variant="outline">اختياري</Badge>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
                       {editingRole?.id === role.id ? (
@@ -426,7 +603,14 @@ export default function RoleManagementTab() {
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => setEditingRole({ ...role })}
+                            onClick={() =>
+                              setEditingRole({
+                                ...role,
+                                permissions: expandPermissions(
+                                  role.permissions || [],
+                                ),
+                              })
+                            }
                             className="flex items-center gap-1"
                           >
                             <Edit className="w-3 h-3" />
@@ -468,40 +652,17 @@ export default function RoleManagementTab() {
               تفاصيل صلاحيات الدور: {editingRole.name_ar}
             </CardTitle>
             <p className="text-sm text-muted-foreground">
-              يمكنك تعديل الصلاحيات الأساسية في الجدول أعلاه، أو استخدام هذا
-              القسم لإدارة جميع الصلاحيات
+              حدد الإجراءات المسموحة لكل مورد، ثم احفظ من جدول الأدوار أعلاه
             </p>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {availablePermissions.map((permission) => (
-                <div
-                  key={permission.id}
-                  className="flex items-center space-x-2 space-x-reverse"
-                >
-                  <Checkbox
-                    id={`edit-${permission.id}`}
-                    checked={editingRole.permissions?.includes(permission.id)}
-                    onCheckedChange={(checked) =>
-                      handlePermissionChange(
-                        permission.id,
-                        checked as boolean,
-                        true,
-                      )
-                    }
-                  />
-                  <label
-                    htmlFor={`edit-${permission.id}`}
-                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                  >
-                    {permission.name}
-                  </label>
-                  <Badge variant="outline" className="text-xs">
-                    {permission.category}
-                  </Badge>
-                </div>
-              ))}
-            </div>
+            <PermissionMatrix
+              idPrefix="edit"
+              permissions={editingRole.permissions || []}
+              onChange={(permissions) =>
+                setEditingRole({ ...editingRole, permissions })
+              }
+            />
 
             <div className="mt-6 flex items-center justify-between">
               <div className="text-sm text-muted-foreground">
@@ -514,7 +675,7 @@ export default function RoleManagementTab() {
                   onClick={() =>
                     setEditingRole({
                       ...editingRole,
-                      permissions: availablePermissions.map((p) => p.id),
+                      permissions: PERMISSIONS.map((p) => p.id),
                     })
                   }
                 >
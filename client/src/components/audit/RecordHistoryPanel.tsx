@@ -0,0 +1,128 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "../ui/badge";
+import { History } from "lucide-react";
+import { useAuth } from "../../hooks/use-auth";
+import { userHasPermission } from "../../utils/roleUtils";
+
+interface AuditEntry {
+  id: number;
+  user_id: number | null;
+  user_name: string | null;
+  table_name: string;
+  record_id: string;
+  action: "create" | "update" | "delete";
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  created_at: string;
+}
+
+interface RecordHistoryPanelProps {
+  tableName: string;
+  recordId: string | number | null | undefined;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "إنشاء",
+  update: "تعديل",
+  delete: "حذف",
+};
+
+const ACTION_VARIANTS: Record<string, "default" | "secondary" | "destructive"> =
+  {
+    create: "default",
+    update: "secondary",
+    delete: "destructive",
+  };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+};
+
+/**
+ * سجل تعديلات سجل واحد (من أنشأه ومن عدّله ومتى وما الذي تغير)
+ * يظهر فقط لمن يملك صلاحية عرض سجل التدقيق
+ */
+export default function RecordHistoryPanel({
+  tableName,
+  recordId,
+}: RecordHistoryPanelProps) {
+  const { user } = useAuth();
+  const canView = userHasPermission(user, "view_audit_log");
+  const hasRecord = recordId !== null && recordId !== undefined;
+
+  const { data, isLoading } = useQuery<{
+    entries: AuditEntry[];
+    total: number;
+  }>({
+    queryKey: [
+      "/api/audit",
+      { table_name: tableName, record_id: String(recordId), limit: 50 },
+    ],
+    enabled: canView && hasRecord,
+  });
+
+  if (!canView || !hasRecord) return null;
+
+  const entries = data?.entries || [];
+
+  return (
+    <div className="border-t pt-4" data-testid={`history-${tableName}-${recordId}`}>
+      <h3 className="text-sm font-semibold flex items-center gap-2 mb-3">
+        <History className="w-4 h-4" />
+        سجل التعديلات
+        {data && data.total > entries.length && (
+          <span className="text-xs text-gray-500 font-normal">
+            (آخر {entries.length} من {data.total})
+          </span>
+        )}
+      </h3>
+
+      {isLoading ? (
+        <div className="text-center py-4 text-sm text-gray-500">
+          جاري التحميل...
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-4 text-sm text-gray-500">
+          لا توجد تعديلات مسجلة
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {entries.map((entry) => (
+            <div key={entry.id} className="border rounded-md p-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={ACTION_VARIANTS[entry.action] || "secondary"}>
+                    {ACTION_LABELS[entry.action] || entry.action}
+                  </Badge>
+                  <span className="font-medium">
+                    {entry.user_name || "النظام"}
+                  </span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  {new Date(entry.created_at).toLocaleString("ar")}
+                </span>
+              </div>
+              {entry.changes && Object.keys(entry.changes).length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <li key={field} className="flex flex-wrap gap-1">
+                      <span className="font-mono text-gray-600">{field}:</span>
+                      <span className="text-red-600 line-through">
+                        {formatValue(change.from)}
+                      </span>
+                      <span>←</span>
+                      <span className="text-green-700">
+                        {formatValue(change.to)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -35,11 +35,24 @@ import {
   TableRow,
 } from "../ui/table";
 import { Textarea } from "../ui/textarea";
-import { Clock, Edit, UserCheck, Coffee, LogOut, UserX } from "lucide-react";
+import {
+  Clock,
+  Edit,
+  UserCheck,
+  Coffee,
+  LogOut,
+  UserX,
+  MapPin,
+  Check,
+  X,
+} from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "../../hooks/use-toast";
+import { useAuth } from "../../hooks/use-auth";
+import { apiRequest } from "../../lib/queryClient";
+import { userHasPermission } from "../../utils/roleUtils";
 import { format } from "date-fns";
 
 const attendanceSchema = z.object({
@@ -60,18 +73,59 @@ interface AttendanceRecord {
   user_id: number;
   status: string;
   notes?: string;
+  check_in_time?: string | null;
+  check_out_time?: string | null;
+  location_distance_m?: number | null;
+  location_status?: "inside" | "outside" | "unavailable" | null;
+  location_review_status?: "pending" | "approved" | "rejected" | null;
   created_at?: string;
   updated_at?: string;
   date?: string;
 }
 
+// نتيجة التحقق من النطاق الجغرافي لسجل حضور / انصراف
+const getLocationBadge = (record: AttendanceRecord) => {
+  if (!record.location_status) return null;
+  const distance =
+    record.location_distance_m !== null &&
+    record.location_distance_m !== undefined
+      ? ` · ${record.location_distance_m} م`
+      : "";
+  if (record.location_status === "inside") {
+    return (
+      <Badge variant="outline" className="text-green-700 border-green-300">
+        داخل النطاق{distance}
+      </Badge>
+    );
+  }
+  const label =
+    record.location_status === "unavailable" ? "بدون موقع" : "خارج النطاق";
+  const review =
+    record.location_review_status === "approved"
+      ? { text: "معتمد", className: "bg-green-100 text-green-800" }
+      : record.location_review_status === "rejected"
+        ? { text: "مرفوض", className: "bg-red-100 text-red-800" }
+        : { text: "بانتظار المراجعة", className: "bg-orange-100 text-orange-800" };
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs ${review.className}`}
+    >
+      <MapPin className="h-3 w-3" />
+      {label}
+      {distance} - {review.text}
+    </span>
+  );
+};
+
 export default function AttendanceManagement() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAttendance, setEditingAttendance] = useState<
     AttendanceRecord | null
   >(null);
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
+  const canReviewLocation = userHasPermission(currentUser, "approve_hr");
 
   const form = useForm<z.infer<typeof attendanceSchema>>({
     resolver: zodResolver(attendanceSchema),
@@ -166,6 +220,41 @@ export default function AttendanceManagement() {
     },
   });
 
+  const locationReviewMutation = useMutation({
+    mutationFn: async ({
+      id,
+      decision,
+    }: {
+      id: number;
+      decision: "approved" | "rejected";
+    }) => {
+      const response = await apiRequest(
+        `/api/attendance/${id}/location-review`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ decision }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: (_data, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+      toast({
+        title:
+          decision === "approved"
+            ? "تم اعتماد التسجيل"
+            : "تم رفض التسجيل خارج النطاق",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في مراجعة الموقع",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: z.infer<typeof attendanceSchema>) => {
     attendanceMutation.mutate(data);
   };
@@ -240,6 +329,15 @@ export default function AttendanceManagement() {
     });
   }, [attendanceData]);
 
+  // تسجيلات خارج نطاق الموقع بانتظار قرار المشرف (لجميع الأيام)
+  const pendingLocationReviews = useMemo(
+    () =>
+      ((attendanceData || []) as AttendanceRecord[]).filter(
+        (record) => record.location_review_status === "pending",
+      ),
+    [attendanceData],
+  );
+
   // Create attendance summary for all users with proper typing
   interface AttendanceSummaryItem {
     id: number;
@@ -473,6 +571,81 @@ export default function AttendanceManagement() {
         </Card>
       </div>
 
+      {pendingLocationReviews.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-orange-600" />
+              تسجيلات خارج نطاق الموقع بانتظار المراجعة (
+              {pendingLocationReviews.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {pendingLocationReviews.map((record) => {
+              const employee = (users as User[]).find(
+                (u) => u.id === record.user_id,
+              );
+              const time = record.check_in_time || record.check_out_time;
+              return (
+                <div
+                  key={record.id}
+                  className="flex flex-wrap items-center justify-between gap-3 border rounded-md p-3 text-sm"
+                  data-testid={`location-review-${record.id}`}
+                >
+                  <div className="space-y-1">
+                    <div className="font-medium">
+                      {employee?.display_name_ar ||
+                        employee?.username ||
+                        `الموظف ${record.user_id}`}{" "}
+                      · {record.check_in_time ? "حضور" : "انصراف"}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {record.date}
+                      {time && ` - ${format(new Date(time), "HH:mm")}`}
+                    </div>
+                    {getLocationBadge(record)}
+                  </div>
+                  {canReviewLocation && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-green-700"
+                        onClick={() =>
+                          locationReviewMutation.mutate({
+                            id: record.id,
+                            decision: "approved",
+                          })
+                        }
+                        disabled={locationReviewMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 ml-1" />
+                        اعتماد
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600"
+                        onClick={() =>
+                          locationReviewMutation.mutate({
+                            id: record.id,
+                            decision: "rejected",
+                          })
+                        }
+                        disabled={locationReviewMutation.isPending}
+                      >
+                        <X className="h-4 w-4 ml-1" />
+                        رفض
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Attendance Table */}
       <Card>
         <CardHeader>
@@ -485,6 +658,7 @@ export default function AttendanceManagement() {
                 <TableHead className="text-center">الموظف</TableHead>
                 <TableHead className="text-center">اسم المستخدم</TableHead>
                 <TableHead className="text-center">حالة الحضور</TableHead>
+                <TableHead className="text-center">الموقع</TableHead>
                 <TableHead className="text-center">الملاحظات</TableHead>
                 <TableHead className="text-center">آخر تحديث</TableHead>
                 <TableHead className="text-center">الإجراءات</TableHead>
@@ -493,13 +667,13 @@ export default function AttendanceManagement() {
             <TableBody>
               {attendanceLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8">
+                  <TableCell colSpan={7} className="text-center py-8">
                     جاري تحميل البيانات...
                   </TableCell>
                 </TableRow>
               ) : attendanceSummary.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8">
+                  <TableCell colSpan={7} className="text-center py-8">
                     لا توجد بيانات حضور
                   </TableCell>
                 </TableRow>
@@ -515,6 +689,19 @@ export default function AttendanceManagement() {
                     <TableCell className="text-center">
                       {getStatusBadge(user.attendance.status)}
                     </TableCell>
+                    <TableCell className="text-center">
+                      <div className="flex flex-col items-center gap-1">
+                        {todayAttendance
+                          .filter(
+                            (record: AttendanceRecord) =>
+                              record.user_id === user.id &&
+                              record.location_status,
+                          )
+                          .map((record: AttendanceRecord) => (
+                            <div key={record.id}>{getLocationBadge(record)}</div>
+                          ))}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-center">
                       {user.attendance.notes || "-"}
                     </TableCell>
@@ -1,9 +1,19 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
-import { GraduationCap, Target, Calendar, Users, Clock } from "lucide-react";
+import {
+  GraduationCap,
+  Target,
+  Calendar,
+  Users,
+  Clock,
+  CalendarClock,
+  Wallet,
+} from "lucide-react";
 import SimpleFieldTraining from "./SimpleFieldTraining.tsx";
 import PerformanceReviews from "./PerformanceReviews.tsx";
 import LeaveManagement from "./LeaveManagement.tsx";
 import AttendanceManagement from "./AttendanceManagement.tsx";
+import ShiftManagement from "./ShiftManagement.tsx";
+import PayrollManagement from "./PayrollManagement.tsx";
 
 export default function HRTabs() {
   return (
@@ -18,7 +28,7 @@ export default function HRTabs() {
       </div>
 
       <Tabs defaultValue="attendance" className="w-full">
-        <TabsList className="grid w-full grid-cols-4 bg-gray-100 dark:bg-gray-800">
+        <TabsList className="grid w-full grid-cols-6 bg-gray-100 dark:bg-gray-800">
           <TabsTrigger
             value="attendance"
             className="flex items-center gap-2 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700"
@@ -26,6 +36,20 @@ export default function HRTabs() {
             <Clock className="w-4 h-4" />
             إدارة الحضور
           </TabsTrigger>
+          <TabsTrigger
+            value="shifts"
+            className="flex items-center gap-2 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700"
+          >
+            <CalendarClock className="w-4 h-4" />
+            الورديات والدوام
+          </TabsTrigger>
+          <TabsTrigger
+            value="payroll"
+            className="flex items-center gap-2 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700"
+          >
+            <Wallet className="w-4 h-4" />
+            الرواتب
+          </TabsTrigger>
           <TabsTrigger
             value="training"
             className="flex items-center gap-2 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700"
@@ -53,6 +77,14 @@ export default function HRTabs() {
           <AttendanceManagement />
         </TabsContent>
 
+        <TabsContent value="shifts" className="space-y-4">
+          <ShiftManagement />
+        </TabsContent>
+
+        <TabsContent value="payroll" className="space-y-4">
+          <PayrollManagement />
+        </TabsContent>
+
         <TabsContent value="training" className="space-y-4">
           <SimpleFieldTraining />
         </TabsContent>
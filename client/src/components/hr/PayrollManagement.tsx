@@ -0,0 +1,529 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { useAuth } from "../../hooks/use-auth";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { userHasPermission } from "../../utils/roleUtils";
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Lock,
+  LockOpen,
+  Wallet,
+} from "lucide-react";
+
+interface PayrollLine {
+  user_id: number;
+  user_name: string;
+  section_name: string | null;
+  scheduled_days: number;
+  worked_days: number;
+  absent_days: number;
+  incomplete_days: number;
+  paid_leave_days: number;
+  unpaid_leave_days: number;
+  late_days: number;
+  late_minutes: number;
+  early_leave_minutes: number;
+  worked_minutes: number;
+  overtime_minutes: number;
+  violation_count: number;
+  deduction_count: number;
+  deduction_notes: string | null;
+}
+
+interface PayrollPeriod {
+  id: number;
+  month: string;
+  status: "closed" | "reopened";
+  employee_count: number;
+  notes: string | null;
+  closed_at: string;
+  reopened_at: string | null;
+}
+
+interface MonthlyPayroll {
+  month: string;
+  from: string;
+  to: string;
+  status: "open" | "closed" | "reopened";
+  period: PayrollPeriod | null;
+  lines: PayrollLine[];
+}
+
+interface PayrollColumnOption {
+  key: string;
+  label: string;
+}
+
+const STATUS_LABELS: Record<
+  MonthlyPayroll["status"],
+  { label: string; variant: "default" | "secondary" | "outline" }
+> = {
+  open: { label: "مفتوحة", variant: "outline" },
+  closed: { label: "مقفلة", variant: "default" },
+  reopened: { label: "أُعيد فتحها", variant: "secondary" },
+};
+
+const formatHours = (minutes: number) => (minutes / 60).toFixed(1);
+
+// الشهر السابق هو الافتراضي لأن الإقفال يتم بعد انتهاء الشهر
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+/**
+ * فترات الرواتب: ملخص الشهر لكل موظف، إقفال الفترة لمنع تعديل الحضور،
+ * وتصدير ملف الرواتب CSV / Excel بترتيب الأعمدة المحفوظ
+ */
+export default function PayrollManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(previousMonth);
+  const [notes, setNotes] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+
+  const canApprove = userHasPermission(user, "approve_hr");
+  const canExport = userHasPermission(user, "export_hr");
+  const canEditColumns = userHasPermission(user, "update_hr");
+  const validMonth = /^\d{4}-\d{2}$/.test(month);
+
+  const { data: payroll, isLoading } = useQuery<MonthlyPayroll>({
+    queryKey: ["/api/hr/payroll-periods", month],
+    enabled: validMonth,
+  });
+
+  const { data: periods = [] } = useQuery<PayrollPeriod[]>({
+    queryKey: ["/api/hr/payroll-periods"],
+  });
+
+  const { data: columnSettings } = useQuery<{
+    available: PayrollColumnOption[];
+    selected: string[];
+  }>({
+    queryKey: ["/api/hr/payroll-export-columns"],
+  });
+
+  useEffect(() => {
+    if (columnSettings) setColumns(columnSettings.selected);
+  }, [columnSettings]);
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const invalidatePayroll = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/hr/payroll-periods"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        `/api/hr/payroll-periods/${month}/close`,
+        {
+          method: "POST",
+          body: JSON.stringify({ notes: notes || null }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setNotes("");
+      invalidatePayroll();
+      toast({ title: data.message });
+    },
+    onError: showError("خطأ في إقفال فترة الرواتب"),
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        `/api/hr/payroll-periods/${month}/reopen`,
+        { method: "POST" },
+      );
+      return response.json();
+    },
+    onSuccess: (data) => {
+      invalidatePayroll();
+      toast({ title: data.message });
+    },
+    onError: showError("خطأ في إعادة فتح فترة الرواتب"),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: "csv" | "xlsx") => {
+      const response = await apiRequest(
+        `/api/hr/payroll-periods/${month}/export?format=${format}`,
+      );
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `payroll-${month}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: showError("خطأ في تصدير ملف الرواتب"),
+  });
+
+  const saveColumnsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/hr/payroll-export-columns", {
+        method: "PUT",
+        body: JSON.stringify({ columns }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/hr/payroll-export-columns"],
+      });
+      toast({ title: data.message });
+    },
+    onError: showError("خطأ في حفظ أعمدة ملف الرواتب"),
+  });
+
+  const toggleColumn = (key: string, checked: boolean) =>
+    setColumns(
+      checked ? [...columns, key] : columns.filter((column) => column !== key),
+    );
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    setColumns(next);
+  };
+
+  // الأعمدة المختارة بترتيبها ثم بقية الأعمدة المتاحة
+  const columnOptions = columnSettings
+    ? [
+        ...columns
+          .map((key) => columnSettings.available.find((c) => c.key === key))
+          .filter((c): c is PayrollColumnOption => !!c),
+        ...columnSettings.available.filter((c) => !columns.includes(c.key)),
+      ]
+    : [];
+
+  const totals = (payroll?.lines ?? []).reduce(
+    (sum, line) => ({
+      absent_days: sum.absent_days + line.absent_days,
+      unpaid_leave_days: sum.unpaid_leave_days + line.unpaid_leave_days,
+      late_minutes: sum.late_minutes + line.late_minutes,
+      overtime_minutes: sum.overtime_minutes + line.overtime_minutes,
+      deduction_count: sum.deduction_count + line.deduction_count,
+    }),
+    {
+      absent_days: 0,
+      unpaid_leave_days: 0,
+      late_minutes: 0,
+      overtime_minutes: 0,
+      deduction_count: 0,
+    },
+  );
+
+  const status = payroll ? STATUS_LABELS[payroll.status] : null;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="w-5 h-5" />
+              ملخص الرواتب الشهري
+              {status && <Badge variant={status.variant}>{status.label}</Badge>}
+            </CardTitle>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">الشهر</Label>
+                <Input
+                  className="h-8 w-40"
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                />
+              </div>
+              {canExport && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportMutation.mutate("csv")}
+                    disabled={exportMutation.isPending || !payroll}
+                    data-testid="button-export-payroll-csv"
+                  >
+                    <Download className="w-4 h-4 ml-2" />
+                    CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportMutation.mutate("xlsx")}
+                    disabled={exportMutation.isPending || !payroll}
+                    data-testid="button-export-payroll-xlsx"
+                  >
+                    <Download className="w-4 h-4 ml-2" />
+                    Excel
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {payroll?.status === "closed" && payroll.period && (
+            <p className="text-xs text-muted-foreground">
+              أُقفلت الفترة في{" "}
+              {new Date(payroll.period.closed_at).toLocaleString("ar")} - لا
+              يمكن تعديل حضور هذا الشهر حتى إعادة فتحها
+              {payroll.period.notes && <> · {payroll.period.notes}</>}
+            </p>
+          )}
+
+          {canApprove && payroll && (
+            <div className="flex flex-wrap items-end gap-2 border rounded-md p-3">
+              {payroll.status === "closed" ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => reopenMutation.mutate()}
+                  disabled={reopenMutation.isPending}
+                  data-testid="button-reopen-payroll"
+                >
+                  <LockOpen className="w-4 h-4 ml-2" />
+                  إعادة فتح الفترة
+                </Button>
+              ) : (
+                <>
+                  <div className="space-y-1 flex-1 min-w-48">
+                    <Label className="text-xs">ملاحظات الإقفال</Label>
+                    <Input
+                      className="h-8"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => closeMutation.mutate()}
+                    disabled={closeMutation.isPending}
+                    data-testid="button-close-payroll"
+                  >
+                    <Lock className="w-4 h-4 ml-2" />
+                    إقفال الفترة
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-6 text-sm text-gray-500">
+              جاري التحميل...
+            </div>
+          ) : !payroll || payroll.lines.length === 0 ? (
+            <div className="text-center py-6 text-sm text-gray-500">
+              لا توجد بيانات رواتب لهذا الشهر
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+                {[
+                  { label: "أيام الغياب", value: totals.absent_days },
+                  {
+                    label: "إجازة بدون راتب (يوم)",
+                    value: totals.unpaid_leave_days,
+                  },
+                  {
+                    label: "ساعات التأخير",
+                    value: formatHours(totals.late_minutes),
+                  },
+                  {
+                    label: "ساعات العمل الإضافي",
+                    value: formatHours(totals.overtime_minutes),
+                  },
+                  { label: "الخصومات", value: totals.deduction_count },
+                ].map((item) => (
+                  <div key={item.label} className="border rounded-md p-3">
+                    <div className="text-xl font-bold">{item.value}</div>
+                    <div className="text-xs text-gray-500">{item.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">الموظف</TableHead>
+                    <TableHead className="text-right">القسم</TableHead>
+                    <TableHead className="text-right">عمل / مجدول</TableHead>
+                    <TableHead className="text-right">غياب</TableHead>
+                    <TableHead className="text-right">إجازة مدفوعة</TableHead>
+                    <TableHead className="text-right">بدون راتب</TableHead>
+                    <TableHead className="text-right">تأخير (د)</TableHead>
+                    <TableHead className="text-right">إضافي (س)</TableHead>
+                    <TableHead className="text-right">الخصومات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payroll.lines.map((line) => (
+                    <TableRow key={line.user_id}>
+                      <TableCell className="font-medium">
+                        {line.user_name}
+                      </TableCell>
+                      <TableCell>{line.section_name || "—"}</TableCell>
+                      <TableCell>
+                        {line.worked_days} / {line.scheduled_days}
+                      </TableCell>
+                      <TableCell>{line.absent_days}</TableCell>
+                      <TableCell>{line.paid_leave_days}</TableCell>
+                      <TableCell>{line.unpaid_leave_days}</TableCell>
+                      <TableCell>{line.late_minutes}</TableCell>
+                      <TableCell>{formatHours(line.overtime_minutes)}</TableCell>
+                      <TableCell title={line.deduction_notes ?? undefined}>
+                        {line.deduction_count > 0 ? (
+                          <Badge variant="destructive">
+                            {line.deduction_count}
+                          </Badge>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {canEditColumns && columnSettings && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">أعمدة ملف الرواتب</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              الأعمدة المختارة تظهر في ملف التصدير بهذا الترتيب
+            </p>
+            <div className="space-y-1">
+              {columnOptions.map((column) => {
+                const index = columns.indexOf(column.key);
+                return (
+                  <div
+                    key={column.key}
+                    className="flex items-center justify-between border rounded-md px-3 py-1.5"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`payroll-column-${column.key}`}
+                        checked={index >= 0}
+                        onCheckedChange={(checked) =>
+                          toggleColumn(column.key, checked === true)
+                        }
+                      />
+                      <label
+                        htmlFor={`payroll-column-${column.key}`}
+                        className="text-sm cursor-pointer"
+                      >
+                        {column.label}
+                      </label>
+                    </div>
+                    {index >= 0 && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveColumn(index, -1)}
+                          disabled={index === 0}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveColumn(index, 1)}
+                          disabled={index === columns.length - 1}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => saveColumnsMutation.mutate()}
+                disabled={saveColumnsMutation.isPending || columns.length === 0}
+              >
+                حفظ الأعمدة
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {periods.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">سجل فترات الرواتب</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {periods.map((period) => (
+              <div
+                key={period.id}
+                className="flex items-center justify-between gap-3 border rounded-md p-3 text-sm cursor-pointer"
+                onClick={() => setMonth(period.month)}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  {period.month}
+                  <Badge variant={STATUS_LABELS[period.status].variant}>
+                    {STATUS_LABELS[period.status].label}
+                  </Badge>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {period.employee_count} موظف · أُقفلت{" "}
+                  {new Date(period.closed_at).toLocaleDateString("ar")}
+                  {period.reopened_at && (
+                    <>
+                      {" "}
+                      · أُعيد فتحها{" "}
+                      {new Date(period.reopened_at).toLocaleDateString("ar")}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,848 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
+import { useAuth } from "../../hooks/use-auth";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { userHasPermission } from "../../utils/roleUtils";
+import { CalendarClock, Download, Moon, Plus, Trash2 } from "lucide-react";
+
+interface ShiftTemplate {
+  id: number;
+  name: string;
+  name_ar: string | null;
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+  late_grace_minutes: number;
+  early_leave_grace_minutes: number;
+  overtime_min_minutes: number;
+  color: string | null;
+  is_active: boolean;
+}
+
+interface UserShift {
+  id: number;
+  user_id: number;
+  user_name: string | null;
+  shift_template_id: number;
+  shift_name: string;
+  effective_from: string;
+  effective_to: string | null;
+  days_of_week: number[];
+  notes: string | null;
+}
+
+type DayStatus =
+  | "present"
+  | "incomplete"
+  | "absent"
+  | "on_leave"
+  | "rest_day_work"
+  | "off";
+
+interface TimesheetTotals {
+  scheduled_days: number;
+  present_days: number;
+  absent_days: number;
+  leave_days: number;
+  incomplete_days: number;
+  late_days: number;
+  late_minutes: number;
+  early_leave_days: number;
+  early_leave_minutes: number;
+  scheduled_minutes: number;
+  worked_minutes: number;
+  overtime_minutes: number;
+}
+
+interface TimesheetDay {
+  date: string;
+  status: DayStatus;
+  shift_name: string | null;
+  check_in: string | null;
+  check_out: string | null;
+  worked_minutes: number;
+  late_minutes: number;
+  early_leave_minutes: number;
+  overtime_minutes: number;
+}
+
+interface MonthlyTimesheet {
+  month: string;
+  employees: Array<{
+    user_id: number;
+    user_name: string;
+    section_name: string | null;
+    days: TimesheetDay[];
+    totals: TimesheetTotals;
+  }>;
+  sections: Array<{
+    section_id: number | null;
+    section_name: string | null;
+    employee_count: number;
+    totals: TimesheetTotals;
+  }>;
+  totals: TimesheetTotals;
+}
+
+const WEEK_DAYS = [
+  { value: 0, label: "الأحد" },
+  { value: 1, label: "الإثنين" },
+  { value: 2, label: "الثلاثاء" },
+  { value: 3, label: "الأربعاء" },
+  { value: 4, label: "الخميس" },
+  { value: 5, label: "الجمعة" },
+  { value: 6, label: "السبت" },
+];
+
+const DAY_STATUS: Record<DayStatus, { label: string; className: string }> = {
+  present: { label: "حاضر", className: "bg-green-100 text-green-800" },
+  incomplete: { label: "بدون انصراف", className: "bg-yellow-100 text-yellow-800" },
+  absent: { label: "غائب", className: "bg-red-100 text-red-800" },
+  on_leave: { label: "إجازة", className: "bg-blue-100 text-blue-800" },
+  rest_day_work: { label: "يوم راحة", className: "bg-purple-100 text-purple-800" },
+  off: { label: "راحة", className: "bg-gray-100 text-gray-600" },
+};
+
+const emptyTemplateForm = {
+  name: "",
+  name_ar: "",
+  start_time: "07:00",
+  end_time: "15:00",
+  break_minutes: "60",
+  late_grace_minutes: "10",
+  early_leave_grace_minutes: "10",
+  overtime_min_minutes: "30",
+};
+
+const emptyRosterForm = {
+  user_id: "",
+  shift_template_id: "",
+  effective_from: new Date().toISOString().split("T")[0],
+  effective_to: "",
+  days_of_week: [0, 1, 2, 3, 4],
+};
+
+const isNightShift = (template: ShiftTemplate) =>
+  template.end_time <= template.start_time;
+
+const formatHours = (minutes: number) => (minutes / 60).toFixed(1);
+
+const formatTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleTimeString("ar", {
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "—";
+
+/**
+ * الورديات: قوالب أوقات الدوام، جدولة الموظفين على الورديات،
+ * وكشف الدوام الشهري (التأخير والخروج المبكر والعمل الإضافي)
+ */
+export default function ShiftManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [templateForm, setTemplateForm] = useState(emptyTemplateForm);
+  const [rosterForm, setRosterForm] = useState(emptyRosterForm);
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [sectionFilter, setSectionFilter] = useState("all");
+  const [expandedUserId, setExpandedUserId] = useState<number | null>(null);
+
+  const canCreate = userHasPermission(user, "create_hr");
+  const canDelete = userHasPermission(user, "delete_hr");
+  const canExport = userHasPermission(user, "export_hr");
+
+  const { data: templates = [] } = useQuery<ShiftTemplate[]>({
+    queryKey: ["/api/hr/shift-templates"],
+  });
+
+  const { data: roster = [] } = useQuery<UserShift[]>({
+    queryKey: ["/api/hr/user-shifts"],
+  });
+
+  const { data: users = [] } = useQuery<
+    Array<{ id: number; username: string; display_name_ar?: string | null }>
+  >({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: sections = [] } = useQuery<
+    Array<{ id: string; name: string; name_ar?: string | null }>
+  >({
+    queryKey: ["/api/sections"],
+  });
+
+  const timesheetParams: Record<string, string> = { month };
+  if (sectionFilter !== "all") timesheetParams.section_id = sectionFilter;
+
+  const { data: timesheet, isLoading: timesheetLoading } =
+    useQuery<MonthlyTimesheet>({
+      queryKey: ["/api/hr/timesheet", timesheetParams],
+      enabled: /^\d{4}-\d{2}$/.test(month),
+    });
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const createTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/hr/shift-templates", {
+        method: "POST",
+        body: JSON.stringify({
+          ...templateForm,
+          name_ar: templateForm.name_ar || null,
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setTemplateForm(emptyTemplateForm);
+      queryClient.invalidateQueries({ queryKey: ["/api/hr/shift-templates"] });
+      toast({ title: "تم إنشاء الوردية" });
+    },
+    onError: showError("خطأ في إنشاء الوردية"),
+  });
+
+  const toggleTemplateMutation = useMutation({
+    mutationFn: async (template: ShiftTemplate) => {
+      const response = await apiRequest(
+        `/api/hr/shift-templates/${template.id}`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ is_active: !template.is_active }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/hr/shift-templates"] });
+    },
+    onError: showError("خطأ في تحديث الوردية"),
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/hr/shift-templates/${id}`, {
+        method: "DELETE",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/hr/shift-templates"] });
+      toast({ title: "تم حذف الوردية" });
+    },
+    onError: showError("خطأ في حذف الوردية"),
+  });
+
+  const createRosterMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/hr/user-shifts", {
+        method: "POST",
+        body: JSON.stringify({
+          ...rosterForm,
+          effective_to: rosterForm.effective_to || null,
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRosterForm(emptyRosterForm);
+      queryClient.invalidateQueries({ queryKey: ["/api/hr/user-shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/hr/timesheet"] });
+      toast({ title: "تمت جدولة الوردية" });
+    },
+    onError: showError("خطأ في جدولة الوردية"),
+  });
+
+  const deleteRosterMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/hr/user-shifts/${id}`, {
+        method: "DELETE",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/hr/user-shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/hr/timesheet"] });
+      toast({ title: "تم حذف الجدولة" });
+    },
+    onError: showError("خطأ في حذف الجدولة"),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const query = new URLSearchParams(timesheetParams).toString();
+      const response = await apiRequest(`/api/hr/timesheet/export?${query}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `timesheet-${month}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: showError("خطأ في تصدير كشف الدوام"),
+  });
+
+  const toggleRosterDay = (day: number, checked: boolean) =>
+    setRosterForm({
+      ...rosterForm,
+      days_of_week: checked
+        ? [...rosterForm.days_of_week, day].sort()
+        : rosterForm.days_of_week.filter((d) => d !== day),
+    });
+
+  const templateField = (
+    key: keyof typeof emptyTemplateForm,
+    label: string,
+    type = "number",
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        className="h-8"
+        type={type}
+        value={templateForm[key]}
+        onChange={(e) =>
+          setTemplateForm({ ...templateForm, [key]: e.target.value })
+        }
+      />
+    </div>
+  );
+
+  return (
+    <Tabs defaultValue="timesheet" className="w-full">
+      <TabsList className="grid w-full grid-cols-3">
+        <TabsTrigger value="timesheet">كشف الدوام الشهري</TabsTrigger>
+        <TabsTrigger value="roster">جدولة الموظفين</TabsTrigger>
+        <TabsTrigger value="templates">الورديات</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="timesheet" className="space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-end justify-between gap-3">
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5" />
+                كشف الدوام الشهري
+              </CardTitle>
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">الشهر</Label>
+                  <Input
+                    className="h-8 w-40"
+                    type="month"
+                    value={month}
+                    onChange={(e) => setMonth(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">القسم</Label>
+                  <Select value={sectionFilter} onValueChange={setSectionFilter}>
+                    <SelectTrigger className="h-8 w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">جميع الأقسام</SelectItem>
+                      {sections
+                        .filter((section) => /^SEC\d+$/.test(section.id))
+                        .map((section) => (
+                          <SelectItem
+                            key={section.id}
+                            value={String(parseInt(section.id.slice(3)))}
+                          >
+                            {section.name_ar || section.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {canExport && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportMutation.mutate()}
+                    disabled={exportMutation.isPending || !timesheet}
+                    data-testid="button-export-timesheet"
+                  >
+                    <Download className="w-4 h-4 ml-2" />
+                    تصدير Excel
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {timesheetLoading ? (
+              <div className="text-center py-6 text-sm text-gray-500">
+                جاري التحميل...
+              </div>
+            ) : !timesheet || timesheet.employees.length === 0 ? (
+              <div className="text-center py-6 text-sm text-gray-500">
+                لا توجد بيانات دوام لهذا الشهر
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+                  {[
+                    { label: "أيام الغياب", value: timesheet.totals.absent_days },
+                    { label: "مرات التأخير", value: timesheet.totals.late_days },
+                    {
+                      label: "ساعات التأخير",
+                      value: formatHours(timesheet.totals.late_minutes),
+                    },
+                    {
+                      label: "ساعات الخروج المبكر",
+                      value: formatHours(timesheet.totals.early_leave_minutes),
+                    },
+                    {
+                      label: "ساعات العمل الإضافي",
+                      value: formatHours(timesheet.totals.overtime_minutes),
+                    },
+                  ].map((item) => (
+                    <div key={item.label} className="border rounded-md p-3">
+                      <div className="text-xl font-bold">{item.value}</div>
+                      <div className="text-xs text-gray-500">{item.label}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">الموظف</TableHead>
+                      <TableHead className="text-right">القسم</TableHead>
+                      <TableHead className="text-right">حضور / مجدول</TableHead>
+                      <TableHead className="text-right">غياب</TableHead>
+                      <TableHead className="text-right">إجازة</TableHead>
+                      <TableHead className="text-right">تأخير (د)</TableHead>
+                      <TableHead className="text-right">خروج مبكر (د)</TableHead>
+                      <TableHead className="text-right">ساعات العمل</TableHead>
+                      <TableHead className="text-right">إضافي (س)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {timesheet.employees.map((employee) => (
+                      <Fragment key={employee.user_id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() =>
+                            setExpandedUserId(
+                              expandedUserId === employee.user_id
+                                ? null
+                                : employee.user_id,
+                            )
+                          }
+                        >
+                          <TableCell className="font-medium">
+                            {employee.user_name}
+                          </TableCell>
+                          <TableCell>{employee.section_name || "—"}</TableCell>
+                          <TableCell>
+                            {employee.totals.present_days} /{" "}
+                            {employee.totals.scheduled_days}
+                          </TableCell>
+                          <TableCell>{employee.totals.absent_days}</TableCell>
+                          <TableCell>{employee.totals.leave_days}</TableCell>
+                          <TableCell>{employee.totals.late_minutes}</TableCell>
+                          <TableCell>
+                            {employee.totals.early_leave_minutes}
+                          </TableCell>
+                          <TableCell>
+                            {formatHours(employee.totals.worked_minutes)}
+                          </TableCell>
+                          <TableCell>
+                            {formatHours(employee.totals.overtime_minutes)}
+                          </TableCell>
+                        </TableRow>
+                        {expandedUserId === employee.user_id && (
+                          <TableRow>
+                            <TableCell colSpan={9} className="bg-gray-50">
+                              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                                {employee.days
+                                  .filter((day) => day.status !== "off")
+                                  .map((day) => (
+                                    <div
+                                      key={day.date}
+                                      className="border rounded-md p-2 text-xs bg-white space-y-1"
+                                    >
+                                      <div className="flex items-center justify-between">
+                                        <span className="font-medium">
+                                          {day.date}
+                                        </span>
+                                        <span
+                                          className={`px-2 py-0.5 rounded ${DAY_STATUS[day.status].className}`}
+                                        >
+                                          {DAY_STATUS[day.status].label}
+                                        </span>
+                                      </div>
+                                      <div className="text-gray-500">
+                                        {day.shift_name || "بدون وردية"} ·{" "}
+                                        {formatTime(day.check_in)} -{" "}
+                                        {formatTime(day.check_out)}
+                                      </div>
+                                      {(day.late_minutes > 0 ||
+                                        day.early_leave_minutes > 0 ||
+                                        day.overtime_minutes > 0) && (
+                                        <div className="text-gray-500">
+                                          {day.late_minutes > 0 &&
+                                            `تأخير ${day.late_minutes} د · `}
+                                          {day.early_leave_minutes > 0 &&
+                                            `خروج مبكر ${day.early_leave_minutes} د · `}
+                                          {day.overtime_minutes > 0 &&
+                                            `إضافي ${formatHours(day.overtime_minutes)} س`}
+                                        </div>
+                                      )}
+                                    </div>
+                                  ))}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">إجمالي الأقسام</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                    {timesheet.sections.map((section) => (
+                      <div
+                        key={String(section.section_id)}
+                        className="border rounded-md p-3 text-sm space-y-1"
+                      >
+                        <div className="flex items-center justify-between font-medium">
+                          {section.section_name || "بدون قسم"}
+                          <Badge variant="secondary">
+                            {section.employee_count} موظف
+                          </Badge>
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          غياب {section.totals.absent_days} يوم · تأخير{" "}
+                          {section.totals.late_days} مرة · إضافي{" "}
+                          {formatHours(section.totals.overtime_minutes)} س
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="roster" className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>جدولة الموظفين على الورديات</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {canCreate && (
+              <div className="space-y-3 border rounded-md p-3">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">الموظف</Label>
+                    <Select
+                      value={rosterForm.user_id}
+                      onValueChange={(value) =>
+                        setRosterForm({ ...rosterForm, user_id: value })
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="اختر الموظف" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {users.map((u) => (
+                          <SelectItem key={u.id} value={String(u.id)}>
+                            {u.display_name_ar || u.username}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">الوردية</Label>
+                    <Select
+                      value={rosterForm.shift_template_id}
+                      onValueChange={(value) =>
+                        setRosterForm({ ...rosterForm, shift_template_id: value })
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="اختر الوردية" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates
+                          .filter((t) => t.is_active)
+                          .map((t) => (
+                            <SelectItem key={t.id} value={String(t.id)}>
+                              {t.name_ar || t.name} ({t.start_time} -{" "}
+                              {t.end_time})
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">من تاريخ</Label>
+                    <Input
+                      className="h-8"
+                      type="date"
+                      value={rosterForm.effective_from}
+                      onChange={(e) =>
+                        setRosterForm({
+                          ...rosterForm,
+                          effective_from: e.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">إلى تاريخ (اختياري)</Label>
+                    <Input
+                      className="h-8"
+                      type="date"
+                      value={rosterForm.effective_to}
+                      onChange={(e) =>
+                        setRosterForm({
+                          ...rosterForm,
+                          effective_to: e.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                  <Label className="text-xs">أيام العمل</Label>
+                  {WEEK_DAYS.map((day) => (
+                    <div
+                      key={day.value}
+                      className="flex items-center space-x-2 space-x-reverse"
+                    >
+                      <Checkbox
+                        id={`roster-day-${day.value}`}
+                        checked={rosterForm.days_of_week.includes(day.value)}
+                        onCheckedChange={(checked) =>
+                          toggleRosterDay(day.value, checked === true)
+                        }
+                      />
+                      <label
+                        htmlFor={`roster-day-${day.value}`}
+                        className="text-xs cursor-pointer"
+                      >
+                        {day.label}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={() => createRosterMutation.mutate()}
+                    disabled={
+                      createRosterMutation.isPending ||
+                      !rosterForm.user_id ||
+                      !rosterForm.shift_template_id ||
+                      rosterForm.days_of_week.length === 0
+                    }
+                  >
+                    <Plus className="w-4 h-4 ml-2" />
+                    جدولة
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {roster.length === 0 ? (
+              <div className="text-center py-4 text-sm text-gray-500">
+                لا توجد جدولة ورديات
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">الموظف</TableHead>
+                    <TableHead className="text-right">الوردية</TableHead>
+                    <TableHead className="text-right">الفترة</TableHead>
+                    <TableHead className="text-right">أيام العمل</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{entry.user_name}</TableCell>
+                      <TableCell>{entry.shift_name}</TableCell>
+                      <TableCell>
+                        {entry.effective_from} ← {entry.effective_to || "مستمرة"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {WEEK_DAYS.filter((d) =>
+                          entry.days_of_week.includes(d.value),
+                        )
+                          .map((d) => d.label)
+                          .join("، ")}
+                      </TableCell>
+                      <TableCell>
+                        {canDelete && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => deleteRosterMutation.mutate(entry.id)}
+                            disabled={deleteRosterMutation.isPending}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="templates" className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>قوالب الورديات</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {canCreate && (
+              <div className="space-y-3 border rounded-md p-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {templateField("name", "الاسم", "text")}
+                  {templateField("name_ar", "الاسم العربي", "text")}
+                  {templateField("start_time", "بداية الدوام", "time")}
+                  {templateField("end_time", "نهاية الدوام", "time")}
+                  {templateField("break_minutes", "الاستراحة (دقيقة)")}
+                  {templateField("late_grace_minutes", "سماحية التأخير (دقيقة)")}
+                  {templateField(
+                    "early_leave_grace_minutes",
+                    "سماحية الخروج المبكر (دقيقة)",
+                  )}
+                  {templateField(
+                    "overtime_min_minutes",
+                    "أقل عمل إضافي يُحتسب (دقيقة)",
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  إذا كان وقت النهاية قبل وقت البداية تُعامل الوردية كوردية
+                  ليلية تنتهي في اليوم التالي، ويُسجل انصرافها على يوم بدايتها
+                </p>
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={() => createTemplateMutation.mutate()}
+                    disabled={
+                      createTemplateMutation.isPending ||
+                      !templateForm.name.trim()
+                    }
+                  >
+                    <Plus className="w-4 h-4 ml-2" />
+                    إضافة وردية
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {templates.length === 0 ? (
+              <div className="text-center py-4 text-sm text-gray-500">
+                لا توجد ورديات معرفة
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {templates.map((template) => (
+                  <div
+                    key={template.id}
+                    className="border rounded-md p-3 text-sm space-y-2"
+                    data-testid={`shift-template-${template.id}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2 font-medium">
+                        {template.name_ar || template.name}
+                        {isNightShift(template) && (
+                          <Moon className="w-4 h-4 text-indigo-500" />
+                        )}
+                      </div>
+                      <Badge
+                        variant={template.is_active ? "default" : "secondary"}
+                      >
+                        {template.is_active ? "فعالة" : "موقوفة"}
+                      </Badge>
+                    </div>
+                    <div dir="ltr" className="text-right font-mono">
+                      {template.start_time} - {template.end_time}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      استراحة {template.break_minutes} د · سماحية التأخير{" "}
+                      {template.late_grace_minutes} د · سماحية الخروج{" "}
+                      {template.early_leave_grace_minutes} د · الإضافي من{" "}
+                      {template.overtime_min_minutes} د
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      {userHasPermission(user, "update_hr") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleTemplateMutation.mutate(template)}
+                          disabled={toggleTemplateMutation.isPending}
+                        >
+                          {template.is_active ? "إيقاف" : "تفعيل"}
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() =>
+                            deleteTemplateMutation.mutate(template.id)
+                          }
+                          disabled={deleteTemplateMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+    </Tabs>
+  );
+}
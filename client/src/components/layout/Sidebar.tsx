@@ -13,6 +13,8 @@ import {
   LayoutDashboard,
   Monitor,
   Activity,
+  QrCode,
+  CalendarRange,
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "../../hooks/use-auth";
@@ -54,6 +56,20 @@ const modules = [
     path: "/production-monitoring",
     active: false,
   },
+  {
+    name: "جدولة الإنتاج",
+    name_ar: "جدولة الإنتاج",
+    icon: CalendarRange,
+    path: "/production-schedule",
+    active: false,
+  },
+  {
+    name: "تتبع الرولات",
+    name_ar: "تتبع الرولات",
+    icon: QrCode,
+    path: "/trace",
+    active: false,
+  },
   {
     name: "الجودة",
     name_ar: "الجودة",
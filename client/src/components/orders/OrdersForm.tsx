@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import {
@@ -27,7 +28,7 @@ import {
 import { Input } from "../ui/input";
 import { Textarea } from "../ui/textarea";
 import { Button } from "../ui/button";
-import { Search, Plus, Trash2 } from "lucide-react";
+import { Search, Plus, Trash2, CalendarCheck, AlertTriangle } from "lucide-react";
 
 // Master batch colors mapping
 const masterBatchColors = [
@@ -83,6 +84,14 @@ type ProdOrderInForm = {
   customer_product_id: number | null;
   quantity_kg: number | null;
   overrun_percentage: number;
+  mixing_recipe_id: number | null;
+};
+
+type DeliveryPromise = {
+  earliest_delivery_date: string | null;
+  earliest_delivery_days: number | null;
+  lines: { customer_product_id: number; unscheduled: { stage: string; reason: string }[] }[];
+  unavailable_machines: { id: string; name_ar: string | null; reason: string }[];
 };
 
 const genUid = () => (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `po-${Date.now()}-${Math.random().toString(16).slice(2)}`);
@@ -101,6 +110,14 @@ export default function OrdersForm({
   const [productionOrdersInForm, setProductionOrdersInForm] = useState<ProdOrderInForm[]>([]);
   const [quantityPreviews, setQuantityPreviews] = useState<Record<string, any>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deliveryPromise, setDeliveryPromise] = useState<DeliveryPromise | null>(null);
+  const [isPromiseLoading, setIsPromiseLoading] = useState(false);
+
+  // وصفات الخلط - تحدد المواد الخام التي تُصرف من المخزون عند إنتاج الرولات
+  const { data: mixingRecipes = [] } = useQuery<any[]>({
+    queryKey: ["/api/mixing-recipes"],
+    enabled: isOpen,
+  });
 
   const orderForm = useForm({
     resolver: zodResolver(orderFormSchema),
@@ -137,6 +154,7 @@ export default function OrdersForm({
               customer_product_id: po.customer_product_id ?? null,
               quantity_kg: po.quantity_kg != null ? parseFloat(po.quantity_kg) : null,
               overrun_percentage: po.overrun_percentage != null ? parseFloat(po.overrun_percentage) : 5,
+              mixing_recipe_id: po.mixing_recipe_id ?? null,
             }));
 
             setProductionOrdersInForm(formattedOrders);
@@ -171,6 +189,57 @@ export default function OrdersForm({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen, editingOrder]);
 
+  // أقرب تاريخ تسليم ممكن حسب حمل خطة الإنتاج - يُعاد حسابه عند تغيير البنود
+  const promiseItems = productionOrdersInForm
+    .filter((po) => po.customer_product_id && po.quantity_kg && po.quantity_kg > 0)
+    .map((po) => ({ customer_product_id: po.customer_product_id, quantity_kg: po.quantity_kg }));
+  const promiseItemsKey = JSON.stringify(promiseItems);
+
+  useEffect(() => {
+    if (!isOpen || promiseItems.length === 0) {
+      setDeliveryPromise(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsPromiseLoading(true);
+      try {
+        const response = await fetch("/api/orders/delivery-promise", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: promiseItems,
+            exclude_order_id: editingOrder?.id,
+          }),
+        });
+        if (!cancelled) setDeliveryPromise(response.ok ? await response.json() : null);
+      } catch (error) {
+        console.error("Error calculating delivery promise:", error);
+        if (!cancelled) setDeliveryPromise(null);
+      } finally {
+        if (!cancelled) setIsPromiseLoading(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, promiseItemsKey, editingOrder?.id]);
+
+  const typedDeliveryDays = Number(orderForm.watch("delivery_days")) || 0;
+  const isTypedDateUnachievable =
+    deliveryPromise?.earliest_delivery_days != null &&
+    typedDeliveryDays > 0 &&
+    typedDeliveryDays < deliveryPromise.earliest_delivery_days;
+  const unschedulableReasons = Array.from(
+    new Set(
+      (deliveryPromise?.lines || []).flatMap((line) => line.unscheduled.map((item) => item.reason))
+    )
+  );
+
   // Function to preview quantity calculations
   const previewQuantityCalculation = async (customerProductId: number, baseQuantityKg: number) => {
     if (!customerProductId || !baseQuantityKg || baseQuantityKg <= 0) return null;
@@ -221,6 +290,7 @@ export default function OrdersForm({
         customer_product_id: null,
         quantity_kg: null,
         overrun_percentage: 5.0,
+        mixing_recipe_id: null,
       },
     ]);
   };
@@ -283,6 +353,16 @@ export default function OrdersForm({
     selectedCustomerId ? String(product.customer_id) === selectedCustomerId : true
   );
 
+  // الوصفات المفعلة فقط، والمطابقة للون الماستر باتش للمنتج تظهر أولاً
+  const getRecipeOptions = (prodOrder: ProdOrderInForm) => {
+    const product = customerProducts.find((p: any) => p.id === prodOrder.customer_product_id);
+    const matchesColor = (recipe: any) =>
+      !!product?.master_batch_id && recipe.master_batch_id === product.master_batch_id;
+    return mixingRecipes
+      .filter((recipe: any) => recipe.is_active || recipe.id === prodOrder.mixing_recipe_id)
+      .sort((a: any, b: any) => Number(matchesColor(b)) - Number(matchesColor(a)));
+  };
+
   const handleSubmit = async (data: any) => {
     // منع الإرسال المتعدد
     if (isSubmitting) return;
@@ -320,6 +400,7 @@ export default function OrdersForm({
     orderForm.reset();
     setProductionOrdersInForm([]);
     setQuantityPreviews({});
+    setDeliveryPromise(null);
     setSelectedCustomerId("");
     setCustomerSearchTerm("");
     setIsSubmitting(false);
@@ -404,6 +485,50 @@ export default function OrdersForm({
                       />
                     </FormControl>
                     <FormMessage />
+                    {isPromiseLoading ? (
+                      <p className="text-xs text-gray-500">جاري حساب أقرب تاريخ تسليم...</p>
+                    ) : deliveryPromise?.earliest_delivery_days != null ? (
+                      <div className="text-xs space-y-1" data-testid="text-delivery-promise">
+                        <div className="flex items-center gap-1 text-gray-600">
+                          <CalendarCheck className="h-3 w-3" />
+                          أقرب تسليم ممكن: {deliveryPromise.earliest_delivery_days} يوم (
+                          {deliveryPromise.earliest_delivery_date})
+                          <Button
+                            type="button"
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs"
+                            onClick={() =>
+                              orderForm.setValue("delivery_days", deliveryPromise.earliest_delivery_days!, {
+                                shouldValidate: true,
+                              })
+                            }
+                          >
+                            استخدام
+                          </Button>
+                        </div>
+                        {deliveryPromise.unavailable_machines.length > 0 && (
+                          <div className="text-gray-500">
+                            مكائن غير متاحة:{" "}
+                            {deliveryPromise.unavailable_machines
+                              .map((machine) => `${machine.name_ar || machine.id} (${machine.reason})`)
+                              .join("، ")}
+                          </div>
+                        )}
+                        {isTypedDateUnachievable && (
+                          <div className="flex items-center gap-1 text-red-600" data-testid="warning-delivery-unachievable">
+                            <AlertTriangle className="h-3 w-3" />
+                            لا يمكن التسليم خلال {typedDeliveryDays} يوم حسب حمل الإنتاج الحالي
+                          </div>
+                        )}
+                      </div>
+                    ) : unschedulableReasons.length > 0 ? (
+                      <div className="text-xs text-amber-600 space-y-1">
+                        {unschedulableReasons.map((reason) => (
+                          <div key={reason}>{reason}</div>
+                        ))}
+                      </div>
+                    ) : null}
                   </FormItem>
                 )}
               />
@@ -607,6 +732,33 @@ export default function OrdersForm({
                         )}
                       </div>
                     </div>
+
+                    <div className="mt-3">
+                      <label className="text-sm font-medium text-gray-700">وصفة الخلط</label>
+                      <Select
+                        onValueChange={(value) =>
+                          updateProductionOrder(index, "mixing_recipe_id", value === "none" ? null : parseInt(value, 10))
+                        }
+                        value={prodOrder.mixing_recipe_id?.toString() || "none"}
+                      >
+                        <SelectTrigger className="w-full" data-testid={`select-mixing-recipe-${index}`}>
+                          <SelectValue placeholder="اختر وصفة الخلط" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">بدون وصفة (لا يتم صرف مواد خام)</SelectItem>
+                          {getRecipeOptions(prodOrder).map((recipe: any) => (
+                            <SelectItem key={recipe.id} value={String(recipe.id)}>
+                              {recipe.name_ar || recipe.name}
+                              {recipe.machine_type ? ` (${recipe.machine_type})` : ""}
+                              {recipe.current ? ` - إصدار ${recipe.current.version}` : ""}
+                              {recipe.master_batch_id
+                                ? ` - ${getMasterBatchArabicName(recipe.master_batch_id)}`
+                                : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -5,6 +5,7 @@ import {
   DialogTitle,
 } from "../ui/dialog";
 import { format } from "date-fns";
+import RecordHistoryPanel from "../audit/RecordHistoryPanel";
 
 interface ViewOrderDialogProps {
   isOpen: boolean;
@@ -178,6 +179,8 @@ export default function ViewOrderDialog({
               </div>
             )}
           </div>
+
+          <RecordHistoryPanel tableName="orders" recordId={order.id} />
         </div>
       </DialogContent>
     </Dialog>
@@ -40,6 +40,7 @@ import {
   Clock,
   Package,
   Printer,
+  Flag,
 } from "lucide-react";
 import { formatWeight } from "../../lib/formatNumber";
 import { Progress } from "../ui/progress";
@@ -80,6 +81,8 @@ export default function GroupedCuttingQueue({
   >({});
   const [selectedRoll, setSelectedRoll] = useState<any>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [finishingRoll, setFinishingRoll] = useState<any>(null);
+  const [finishReasonId, setFinishReasonId] = useState("");
 
   // Fetch machines and sections
   const { data: machines = [] } = useQuery<any[]>({
@@ -92,6 +95,11 @@ export default function GroupedCuttingQueue({
     staleTime: 10 * 60 * 1000,
   });
 
+  const { data: wasteReasons = [] } = useQuery<any[]>({
+    queryKey: ["/api/waste-reasons", { stage: "cutting", active: "true" }],
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Find cutting section
   const cuttingSection = sections.find(
     s => s.name_ar?.includes("تقطيع") || s.name?.toLowerCase().includes("cutting")
@@ -134,15 +142,9 @@ export default function GroupedCuttingQueue({
     onSuccess: () => {
       toast({
         title: "تم بنجاح",
-        description: "تم تسجيل التقطيع وحساب الهدر",
+        description: "تم تسجيل القطع وتحديث الوزن المتبقي في الرول",
       });
-      queryClient.invalidateQueries({
-        queryKey: ["/api/production/grouped-cutting-queue"],
-      });
-      queryClient.invalidateQueries({
-        queryKey: ["/api/production/cutting-queue"],
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/rolls"] });
+      invalidateCuttingQueries();
       setDialogOpen(false);
       setSelectedRoll(null);
       form.reset();
@@ -156,6 +158,59 @@ export default function GroupedCuttingQueue({
     },
   });
 
+  const finishRollMutation = useMutation({
+    mutationFn: async ({
+      rollId,
+      reasonId,
+    }: {
+      rollId: number;
+      reasonId: number;
+    }) => {
+      const response = await fetch(`/api/rolls/${rollId}/finish`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason_id: reasonId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "فشل في إنهاء الرول");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "تم بنجاح",
+        description: "تم إنهاء الرول وتسجيل الوزن المتبقي كهدر",
+      });
+      invalidateCuttingQueries();
+      setFinishingRoll(null);
+      setFinishReasonId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function invalidateCuttingQueries() {
+    queryClient.invalidateQueries({
+      queryKey: ["/api/production/grouped-cutting-queue"],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["/api/production/cutting-queue"],
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/rolls"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/production-orders"] });
+  }
+
+  const getRemainingWeight = (roll: any) =>
+    safeParseFloat(roll.remaining_kg ?? roll.weight_kg, 0);
+
   const handleCutSubmit = (data: CutFormData) => {
     if (!selectedRoll) return;
 
@@ -169,7 +224,10 @@ export default function GroupedCuttingQueue({
 
   const openCutDialog = (roll: any) => {
     setSelectedRoll(roll);
-    form.setValue("cut_weight_kg", safeParseFloat(roll.weight_kg, 0));
+    form.setValue("cut_weight_kg", getRemainingWeight(roll));
+    if (roll.cutting_machine_id) {
+      form.setValue("cutting_machine_id", roll.cutting_machine_id);
+    }
     setDialogOpen(true);
   };
 
@@ -187,8 +245,24 @@ export default function GroupedCuttingQueue({
     }));
   };
 
-  const calculateWaste = (rollWeight: number, cutWeight: number) => {
-    return rollWeight - cutWeight;
+  const calculateRemainingAfterCut = (remaining: number, cutWeight: number) => {
+    return remaining - cutWeight;
+  };
+
+  // نسبة التقطيع حسب الوزن - الرولات المقطوعة جزئياً تُحتسب بما قُص منها
+  const calculateRollsProgress = (rolls: any[]) => {
+    let totalWeight = 0;
+    let processedWeight = 0;
+
+    rolls.forEach((roll: any) => {
+      const weight = safeParseFloat(roll.weight_kg, 0);
+      totalWeight += weight;
+      processedWeight += weight - getRemainingWeight(roll);
+    });
+
+    return totalWeight > 0
+      ? Math.round((processedWeight / totalWeight) * 100)
+      : 0;
   };
 
   // Helper function to calculate completion percentage for cutting stage
@@ -196,28 +270,15 @@ export default function GroupedCuttingQueue({
     if (!order.production_orders || order.production_orders.length === 0)
       return 0;
 
-    let totalRolls = 0;
-    let cutRolls = 0;
-
-    order.production_orders.forEach((po: any) => {
-      if (po.rolls && po.rolls.length > 0) {
-        totalRolls += po.rolls.length;
-        // In cutting queue, all rolls are ready for cutting but not yet cut
-        // cutRolls += po.rolls.filter((roll: any) => roll.cut_weight_total_kg > 0).length;
-      }
-    });
-
-    return totalRolls > 0 ? Math.round((cutRolls / totalRolls) * 100) : 0;
+    return calculateRollsProgress(
+      order.production_orders.flatMap((po: any) => po.rolls || []),
+    );
   };
 
   const calculateProductionOrderProgress = (productionOrder: any) => {
     if (!productionOrder.rolls || productionOrder.rolls.length === 0) return 0;
 
-    const totalRolls = productionOrder.rolls.length;
-    // const cutRolls = productionOrder.rolls.filter((roll: any) => roll.cut_weight_total_kg > 0).length;
-    const cutRolls = 0; // All rolls in cutting queue are pending cutting
-
-    return Math.round((cutRolls / totalRolls) * 100);
+    return calculateRollsProgress(productionOrder.rolls);
   };
 
   if (items.length === 0) {
@@ -402,29 +463,56 @@ export default function GroupedCuttingQueue({
                                             <p className="font-medium text-sm">
                                               {roll.roll_number}
                                             </p>
+                                            {roll.qa_status === "hold" && (
+                                              <Badge variant="destructive" className="text-xs">
+                                                موقوف - الجودة
+                                              </Badge>
+                                            )}
                                             <p className="text-xs text-muted-foreground">
                                               الوزن: {formatWeight(safeParseFloat(roll.weight_kg, 0))}
                                             </p>
-                                            {roll.cut_weight_total_kg > 0 && (
+                                            {safeParseFloat(roll.cut_weight_total_kg, 0) > 0 && (
                                               <div className="text-xs space-y-1 mt-1">
+                                                <Badge variant="secondary" className="text-xs">
+                                                  مقطوع جزئياً
+                                                </Badge>
                                                 <p className="text-green-600">
                                                   الوزن الصافي: {formatWeight(safeParseFloat(roll.cut_weight_total_kg, 0))}
                                                 </p>
-                                                <p className="text-red-600">
-                                                  الهدر: {formatWeight(safeParseFloat(roll.waste_kg, 0))}
+                                                <p className="text-blue-600">
+                                                  المتبقي: {formatWeight(getRemainingWeight(roll))}
                                                 </p>
                                               </div>
                                             )}
                                           </div>
-                                          <Button
-                                            onClick={() => openCutDialog(roll)}
-                                            disabled={cutMutation.isPending}
-                                            size="sm"
-                                            variant="default"
-                                            data-testid={`button-cut-${roll.id}`}
-                                          >
-                                            <Scissors className="h-3 w-3" />
-                                          </Button>
+                                          <div className="flex gap-1">
+                                            <Button
+                                              onClick={() => openCutDialog(roll)}
+                                              disabled={
+                                                cutMutation.isPending ||
+                                                roll.qa_status === "hold"
+                                              }
+                                              size="sm"
+                                              variant="default"
+                                              title="تسجيل قطع"
+                                              data-testid={`button-cut-${roll.id}`}
+                                            >
+                                              <Scissors className="h-3 w-3" />
+                                            </Button>
+                                            <Button
+                                              onClick={() => setFinishingRoll(roll)}
+                                              disabled={
+                                                finishRollMutation.isPending ||
+                                                roll.qa_status === "hold"
+                                              }
+                                              size="sm"
+                                              variant="outline"
+                                              title="إنهاء الرول"
+                                              data-testid={`button-finish-roll-${roll.id}`}
+                                            >
+                                              <Flag className="h-3 w-3" />
+                                            </Button>
+                                          </div>
                                         </div>
                                         <Button
                                           variant="outline"
@@ -487,6 +575,10 @@ export default function GroupedCuttingQueue({
                   الوزن الأصلي:{" "}
                   {formatNumberAr(safeParseFloat(selectedRoll.weight_kg, 0), 2)} كجم
                 </p>
+                <p className="text-sm text-gray-500">
+                  الوزن المتبقي للقص:{" "}
+                  {formatNumberAr(getRemainingWeight(selectedRoll), 2)} كجم
+                </p>
               </div>
 
               <Form {...form}>
@@ -574,24 +666,27 @@ export default function GroupedCuttingQueue({
                   {form.watch("cut_weight_kg") > 0 && selectedRoll && (
                     <div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200">
                       <p className="text-sm">
-                        <span className="font-medium">الهدر المحسوب: </span>
+                        <span className="font-medium">المتبقي بعد القص: </span>
                         <span
                           className={
-                            calculateWaste(
-                              safeParseFloat(selectedRoll.weight_kg, 0),
+                            calculateRemainingAfterCut(
+                              getRemainingWeight(selectedRoll),
                               form.watch("cut_weight_kg"),
-                            ) > 0
+                            ) < 0
                               ? "text-red-600"
                               : "text-green-600"
                           }
                         >
-                          {formatNumberAr(calculateWaste(
-                            safeParseFloat(selectedRoll.weight_kg, 0),
+                          {formatNumberAr(calculateRemainingAfterCut(
+                            getRemainingWeight(selectedRoll),
                             form.watch("cut_weight_kg"),
                           ), 2)}{" "}
                           كجم
                         </span>
                       </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        يبقى الرول في قائمة التقطيع حتى يُقص بالكامل أو يتم إنهاؤه
+                      </p>
                     </div>
                   )}
 
@@ -620,6 +715,97 @@ export default function GroupedCuttingQueue({
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Dialog for finishing a roll */}
+      <Dialog
+        open={!!finishingRoll}
+        onOpenChange={(open) => {
+          if (!open) {
+            setFinishingRoll(null);
+            setFinishReasonId("");
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>إنهاء الرول</DialogTitle>
+            <DialogDescription>
+              سيتم إغلاق الرول وتسجيل الوزن المتبقي كهدر
+            </DialogDescription>
+          </DialogHeader>
+
+          {finishingRoll && (
+            <div className="space-y-4">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="font-medium">{finishingRoll.roll_number}</p>
+                <p className="text-sm text-gray-500">
+                  الوزن الصافي المقطوع:{" "}
+                  {formatNumberAr(
+                    safeParseFloat(finishingRoll.cut_weight_total_kg, 0),
+                    2,
+                  )}{" "}
+                  كجم
+                </p>
+                <p className="text-sm text-red-600">
+                  الهدر المسجل:{" "}
+                  {formatNumberAr(getRemainingWeight(finishingRoll), 2)} كجم
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">سبب الهدر *</label>
+                <Select
+                  value={finishReasonId}
+                  onValueChange={setFinishReasonId}
+                >
+                  <SelectTrigger data-testid="select-finish-reason">
+                    <SelectValue placeholder="اختر سبب الهدر" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {wasteReasons.map((reason) => (
+                      <SelectItem key={reason.id} value={String(reason.id)}>
+                        {reason.name_ar}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {wasteReasons.length === 0 && (
+                  <p className="text-xs text-amber-600">
+                    لا توجد أسباب هدر معرفة لمرحلة التقطيع - أضفها من صفحة
+                    التعريفات
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-2 space-x-reverse">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setFinishingRoll(null)}
+                >
+                  إلغاء
+                </Button>
+                <Button
+                  disabled={
+                    !finishReasonId || finishRollMutation.isPending
+                  }
+                  onClick={() =>
+                    finishRollMutation.mutate({
+                      rollId: finishingRoll.id,
+                      reasonId: parseInt(finishReasonId),
+                    })
+                  }
+                  data-testid="button-confirm-finish-roll"
+                >
+                  {finishRollMutation.isPending
+                    ? "جاري الإنهاء..."
+                    : "تأكيد الإنهاء"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -42,6 +42,7 @@ interface GroupedRoll {
   machine_id: string;
   qr_code_text?: string;
   qr_png_base64?: string;
+  qa_status?: string;
 }
 
 interface ProductionOrderGroup {
@@ -183,6 +184,7 @@ export default function GroupedPrintingQueue({
       machine_id: item.machine_id,
       qr_code_text: item.qr_code_text,
       qr_png_base64: item.qr_png_base64,
+      qa_status: item.qa_status,
     };
 
     productionOrderGroup.rolls.push(roll);
@@ -434,6 +436,11 @@ export default function GroupedPrintingQueue({
                                               <p className="font-medium text-sm">
                                                 {roll.roll_number}
                                               </p>
+                                              {roll.qa_status === "hold" && (
+                                                <Badge variant="destructive" className="text-xs">
+                                                  موقوف - الجودة
+                                                </Badge>
+                                              )}
                                               <p className="text-xs text-muted-foreground">
                                                 الوزن: {formatWeight(roll.weight_kg)}
                                               </p>
@@ -449,7 +456,10 @@ export default function GroupedPrintingQueue({
                                                 if (processingId !== null) return;
                                                 handleOpenPrintDialog(roll);
                                               }}
-                                              disabled={processingId !== null}
+                                              disabled={
+                                                processingId !== null ||
+                                                roll.qa_status === "hold"
+                                              }
                                               data-testid={`button-print-roll-${roll.id}`}
                                             >
                                               {processingId === roll.id ? (
@@ -0,0 +1,744 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { Badge } from "../ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { AlertTriangle, Beaker, Edit, History, Plus, Trash2 } from "lucide-react";
+
+interface MasterBatchColor {
+  id: string;
+  name_ar: string;
+  color: string;
+}
+
+interface MixingRecipesManagerProps {
+  masterBatchColors: MasterBatchColor[];
+}
+
+interface MaterialForm {
+  item_id: string;
+  percentage: string;
+}
+
+interface LayerForm {
+  layer: "A" | "B";
+  ratio: string;
+  materials: MaterialForm[];
+}
+
+interface RecipeForm {
+  id?: number;
+  name: string;
+  name_ar: string;
+  machine_type: "A" | "ABA";
+  master_batch_id: string;
+  notes: string;
+  layers: LayerForm[];
+}
+
+const LAYER_LABELS: Record<string, string> = {
+  A: "الطبقة A",
+  B: "الطبقة B (الوسطى)",
+};
+
+const newMaterial = (): MaterialForm => ({ item_id: "", percentage: "" });
+
+// نسبة الطبقة A في ABA تشمل الطبقتين الخارجيتين معاً (مثلاً 1:2:1 = 50% / 50%)
+const layersFor = (machineType: "A" | "ABA"): LayerForm[] =>
+  machineType === "ABA"
+    ? [
+        { layer: "A", ratio: "50", materials: [newMaterial()] },
+        { layer: "B", ratio: "50", materials: [newMaterial()] },
+      ]
+    : [{ layer: "A", ratio: "100", materials: [newMaterial()] }];
+
+const emptyRecipe = (): RecipeForm => ({
+  name: "",
+  name_ar: "",
+  machine_type: "A",
+  master_batch_id: "none",
+  notes: "",
+  layers: layersFor("A"),
+});
+
+const sumOf = (values: string[]) =>
+  values.reduce((total, value) => total + (parseFloat(value) || 0), 0);
+
+const isHundred = (total: number) => Math.abs(total - 100) < 0.01;
+
+const formatCost = (value: number | null | undefined) =>
+  value === null || value === undefined ? "-" : value.toFixed(4);
+
+export default function MixingRecipesManager({
+  masterBatchColors,
+}: MixingRecipesManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<RecipeForm | null>(null);
+  const [historyRecipe, setHistoryRecipe] = useState<any>(null);
+
+  const { data: recipes = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/mixing-recipes"],
+  });
+
+  const { data: items = [] } = useQuery<any[]>({
+    queryKey: ["/api/items"],
+    enabled: !!form,
+  });
+
+  const { data: customerProducts = [] } = useQuery<any[]>({
+    queryKey: ["/api/customer-products"],
+    enabled: !!form,
+  });
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery<any[]>({
+    queryKey: ["/api/mixing-recipes", historyRecipe?.id, "versions"],
+    enabled: !!historyRecipe,
+  });
+
+  // ألوان الماستر باتش المستخدمة فعلياً في منتجات العملاء
+  const usedMasterBatchIds = Array.from(
+    new Set(
+      customerProducts
+        .map((product) => product.master_batch_id)
+        .filter((id): id is string => !!id),
+    ),
+  );
+
+  const getColor = (masterBatchId: string | null | undefined) =>
+    masterBatchColors.find((color) => color.id === masterBatchId);
+
+  const getItemName = (itemId: string) => {
+    const item = items.find((it) => it.id === itemId);
+    return item?.name_ar || item?.name || itemId;
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (recipe: RecipeForm) => {
+      const { id, ...payload } = recipe;
+      const response = await apiRequest(
+        id ? `/api/mixing-recipes/${id}` : "/api/mixing-recipes",
+        {
+          method: id ? "PUT" : "POST",
+          body: JSON.stringify({
+            ...payload,
+            name_ar: payload.name_ar.trim() || null,
+            master_batch_id:
+              payload.master_batch_id === "none" ? null : payload.master_batch_id,
+            notes: payload.notes.trim() || null,
+            layers: payload.layers.map((layer) => ({
+              layer: layer.layer,
+              ratio: parseFloat(layer.ratio),
+              materials: layer.materials.map((material) => ({
+                item_id: material.item_id,
+                percentage: parseFloat(material.percentage),
+              })),
+            })),
+          }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: (_data, recipe) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mixing-recipes"] });
+      setForm(null);
+      toast({
+        title: "تم الحفظ",
+        description: recipe.id
+          ? "تم إنشاء إصدار جديد من وصفة الخلط"
+          : "تم إضافة وصفة الخلط",
+      });
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: number; is_active: boolean }) => {
+      const response = await apiRequest(`/api/mixing-recipes/${id}/status`, {
+        method: "PATCH",
+        body: JSON.stringify({ is_active }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mixing-recipes"] });
+    },
+    onError,
+  });
+
+  const editRecipe = (recipe: any) => {
+    const machineType: "A" | "ABA" =
+      recipe.current?.machine_type === "ABA" || recipe.machine_type === "ABA"
+        ? "ABA"
+        : "A";
+    // الوصفات القديمة بدون إصدار تُحمّل كطبقة واحدة من material_items
+    const layers: LayerForm[] = recipe.current
+      ? recipe.current.layers.map((layer: any) => ({
+          layer: layer.layer,
+          ratio: String(layer.ratio),
+          materials: layer.materials.map((material: any) => ({
+            item_id: material.item_id,
+            percentage: String(material.percentage),
+          })),
+        }))
+      : machineType === "A" && recipe.material_items?.length
+        ? [
+            {
+              layer: "A",
+              ratio: "100",
+              materials: recipe.material_items.map((material: any) => ({
+                item_id: String(material.item_id),
+                percentage: String(material.percentage),
+              })),
+            },
+          ]
+        : layersFor(machineType);
+
+    setForm({
+      id: recipe.id,
+      name: recipe.name,
+      name_ar: recipe.name_ar || "",
+      machine_type: machineType,
+      master_batch_id: recipe.master_batch_id || "none",
+      notes: "",
+      layers,
+    });
+  };
+
+  const updateLayer = (index: number, changes: Partial<LayerForm>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      layers: form.layers.map((layer, i) =>
+        i === index ? { ...layer, ...changes } : layer,
+      ),
+    });
+  };
+
+  const updateMaterial = (
+    layerIndex: number,
+    materialIndex: number,
+    changes: Partial<MaterialForm>,
+  ) => {
+    if (!form) return;
+    const layer = form.layers[layerIndex];
+    updateLayer(layerIndex, {
+      materials: layer.materials.map((material, i) =>
+        i === materialIndex ? { ...material, ...changes } : material,
+      ),
+    });
+  };
+
+  const ratioTotal = form ? sumOf(form.layers.map((layer) => layer.ratio)) : 0;
+  const isFormValid =
+    !!form &&
+    !!form.name.trim() &&
+    isHundred(ratioTotal) &&
+    form.layers.every(
+      (layer) =>
+        layer.materials.length > 0 &&
+        layer.materials.every(
+          (material) => material.item_id && parseFloat(material.percentage) > 0,
+        ) &&
+        isHundred(sumOf(layer.materials.map((material) => material.percentage))),
+    );
+
+  const renderColor = (masterBatchId: string | null | undefined) => {
+    if (!masterBatchId) return null;
+    const color = getColor(masterBatchId);
+    return (
+      <Badge variant="outline" className="gap-1 font-normal">
+        <span
+          className="inline-block w-3 h-3 rounded-full border"
+          style={{ backgroundColor: color?.color || "#E2DCC8" }}
+        />
+        {color?.name_ar || masterBatchId}
+      </Badge>
+    );
+  };
+
+  const renderCost = (cost: any) => {
+    if (!cost) return <span className="text-muted-foreground">-</span>;
+    return (
+      <div className="space-y-0.5">
+        <div className="font-medium">{formatCost(cost.cost_per_kg)}</div>
+        <div className="text-xs text-muted-foreground">
+          مع الفاقد: {formatCost(cost.cost_per_kg_with_scrap)}
+        </div>
+        {cost.missing_cost_items.length > 0 && (
+          <div className="text-xs text-amber-600 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            بدون تكلفة: {cost.missing_cost_items.join("، ")}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Beaker className="w-5 h-5" />
+            وصفات الخلط
+          </CardTitle>
+          <Button onClick={() => setForm(emptyRecipe())}>
+            <Plus className="w-4 h-4 mr-2" />
+            وصفة جديدة
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          تعديل الوصفة ينشئ إصداراً جديداً، وأوامر الإنتاج السابقة تحتفظ بالإصدار
+          الذي أنشئت عليه. التكلفة لكل كيلو محسوبة من تكلفة المخزون الحالية.
+        </p>
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            جاري التحميل...
+          </div>
+        ) : recipes.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            لا توجد وصفات خلط معرفة
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الوصفة
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الماكينة
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الماستر باتش
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الطبقات
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    تكلفة الكيلو
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    مفعلة
+                  </th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {recipes.map((recipe) => (
+                  <tr key={recipe.id}>
+                    <td className="px-4 py-2 text-center text-sm">
+                      <div className="font-medium">
+                        {recipe.name_ar || recipe.name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {recipe.current
+                          ? `الإصدار ${recipe.current.version}`
+                          : "بدون إصدار"}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Badge variant="outline">
+                        {recipe.machine_type || "-"}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      {renderColor(recipe.master_batch_id) || "-"}
+                    </td>
+                    <td className="px-4 py-2 text-center text-xs">
+                      {recipe.current?.layers.map((layer: any) => (
+                        <div key={layer.layer}>
+                          {layer.layer} ({layer.ratio}%):{" "}
+                          {layer.materials
+                            .map(
+                              (material: any) =>
+                                `${recipe.current.cost.materials.find(
+                                  (line: any) => line.item_id === material.item_id,
+                                )?.item_name || material.item_id} ${material.percentage}%`,
+                            )
+                            .join("، ")}
+                        </div>
+                      )) || "-"}
+                    </td>
+                    <td className="px-4 py-2 text-center text-sm">
+                      {renderCost(recipe.current?.cost)}
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Switch
+                        checked={recipe.is_active}
+                        onCheckedChange={(is_active) =>
+                          statusMutation.mutate({ id: recipe.id, is_active })
+                        }
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-center whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => editRecipe(recipe)}
+                        title="إصدار جديد"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryRecipe(recipe)}
+                        title="سجل الإصدارات"
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!form}
+        onOpenChange={(open) => {
+          if (!open) setForm(null);
+        }}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {form?.id ? "إصدار جديد لوصفة الخلط" : "وصفة خلط جديدة"}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>اسم الوصفة *</Label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>الاسم العربي</Label>
+                  <Input
+                    value={form.name_ar}
+                    onChange={(e) =>
+                      setForm({ ...form, name_ar: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>نوع الماكينة *</Label>
+                  <Select
+                    value={form.machine_type}
+                    onValueChange={(value) => {
+                      const machine_type = value as "A" | "ABA";
+                      setForm({
+                        ...form,
+                        machine_type,
+                        layers: layersFor(machine_type),
+                      });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="A">A - طبقة واحدة</SelectItem>
+                      <SelectItem value="ABA">ABA - ثلاث طبقات</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>لون الماستر باتش</Label>
+                  <Select
+                    value={form.master_batch_id}
+                    onValueChange={(master_batch_id) =>
+                      setForm({ ...form, master_batch_id })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">بدون لون محدد</SelectItem>
+                      {usedMasterBatchIds.map((id) => (
+                        <SelectItem key={id} value={id}>
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="inline-block w-3 h-3 rounded-full border"
+                              style={{
+                                backgroundColor: getColor(id)?.color || "#E2DCC8",
+                              }}
+                            />
+                            {getColor(id)?.name_ar || id}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {form.machine_type === "ABA" && (
+                <div
+                  className={`text-sm ${isHundred(ratioTotal) ? "text-muted-foreground" : "text-red-600"}`}
+                >
+                  مجموع نسب الطبقات: {ratioTotal.toFixed(2)}% - نسبة الطبقة A تشمل
+                  الطبقتين الخارجيتين
+                </div>
+              )}
+
+              {form.layers.map((layer, layerIndex) => {
+                const materialsTotal = sumOf(
+                  layer.materials.map((material) => material.percentage),
+                );
+                return (
+                  <div
+                    key={layer.layer}
+                    className="border rounded-md p-3 space-y-2"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {LAYER_LABELS[layer.layer]}
+                        </span>
+                        {form.machine_type === "ABA" && (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              className="w-24 h-8"
+                              value={layer.ratio}
+                              onChange={(e) =>
+                                updateLayer(layerIndex, { ratio: e.target.value })
+                              }
+                            />
+                            <span className="text-sm text-muted-foreground">
+                              % من الفيلم
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant={isHundred(materialsTotal) ? "secondary" : "destructive"}
+                        >
+                          المجموع {materialsTotal.toFixed(2)}%
+                        </Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            updateLayer(layerIndex, {
+                              materials: [...layer.materials, newMaterial()],
+                            })
+                          }
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          إضافة مادة
+                        </Button>
+                      </div>
+                    </div>
+                    {layer.materials.map((material, materialIndex) => (
+                      <div
+                        key={materialIndex}
+                        className="grid grid-cols-12 gap-2 items-center"
+                      >
+                        <Select
+                          value={material.item_id}
+                          onValueChange={(item_id) =>
+                            updateMaterial(layerIndex, materialIndex, { item_id })
+                          }
+                        >
+                          <SelectTrigger className="col-span-8 h-8">
+                            <SelectValue placeholder="اختر المادة الخام">
+                              {material.item_id
+                                ? getItemName(material.item_id)
+                                : undefined}
+                            </SelectValue>
+                          </SelectTrigger>
+                          <SelectContent>
+                            {items.map((item) => (
+                              <SelectItem key={item.id} value={String(item.id)}>
+                                {item.name_ar || item.name} ({item.id})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          className="col-span-3 h-8"
+                          placeholder="النسبة %"
+                          value={material.percentage}
+                          onChange={(e) =>
+                            updateMaterial(layerIndex, materialIndex, {
+                              percentage: e.target.value,
+                            })
+                          }
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="col-span-1"
+                          disabled={layer.materials.length === 1}
+                          onClick={() =>
+                            updateLayer(layerIndex, {
+                              materials: layer.materials.filter(
+                                (_, i) => i !== materialIndex,
+                              ),
+                            })
+                          }
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+
+              <div className="space-y-1">
+                <Label>{form.id ? "سبب التعديل" : "ملاحظات"}</Label>
+                <Input
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  إلغاء
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate(form)}
+                  disabled={saveMutation.isPending || !isFormValid}
+                >
+                  {saveMutation.isPending
+                    ? "جاري الحفظ..."
+                    : form.id
+                      ? "حفظ كإصدار جديد"
+                      : "حفظ الوصفة"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!historyRecipe}
+        onOpenChange={(open) => {
+          if (!open) setHistoryRecipe(null);
+        }}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              سجل إصدارات {historyRecipe?.name_ar || historyRecipe?.name}
+            </DialogTitle>
+          </DialogHeader>
+          {versionsLoading ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              جاري التحميل...
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              لا توجد إصدارات محفوظة لهذه الوصفة
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {versions.map((version) => (
+                <div key={version.id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        الإصدار {version.version}
+                      </span>
+                      {version.version === historyRecipe?.current_version && (
+                        <Badge>الحالي</Badge>
+                      )}
+                      <Badge variant="outline">{version.machine_type}</Badge>
+                      {renderColor(version.master_batch_id)}
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(version.created_at).toLocaleDateString("ar")}
+                      </span>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      أوامر الإنتاج: {version.production_order_count ?? 0}
+                    </span>
+                  </div>
+                  {version.notes && (
+                    <div className="text-xs text-muted-foreground">
+                      {version.notes}
+                    </div>
+                  )}
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-muted-foreground">
+                        <th className="text-right py-1">المادة</th>
+                        <th className="text-center py-1">النسبة من الفيلم</th>
+                        <th className="text-center py-1">تكلفة الوحدة</th>
+                        <th className="text-center py-1">التكلفة لكل كيلو</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {version.cost.materials.map((line: any) => (
+                        <tr key={line.item_id} className="border-t">
+                          <td className="py-1">{line.item_name || line.item_id}</td>
+                          <td className="text-center py-1">{line.percentage}%</td>
+                          <td className="text-center py-1">
+                            {formatCost(line.unit_cost)}
+                          </td>
+                          <td className="text-center py-1">
+                            {formatCost(line.cost_per_kg)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="flex justify-end text-sm">
+                    {renderCost(version.cost)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
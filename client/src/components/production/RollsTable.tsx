@@ -10,10 +10,12 @@ import {
   AlertCircle,
   Tag,
   QrCode,
+  Route as RouteIcon,
 } from "lucide-react";
 import { useToast } from "../../hooks/use-toast";
 import { useAuth } from "../../hooks/use-auth";
 import { apiRequest } from "../../lib/queryClient";
+import { Link } from "wouter";
 import type { Roll } from "../../../../shared/schema";
 
 interface RollsTableProps {
@@ -536,6 +538,19 @@ export default function RollsTable({ stage }: RollsTableProps) {
                         QR
                       </Button>
 
+                      {/* زر تتبع الرول */}
+                      <Link href={`/trace/${roll.id}`}>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex items-center gap-1"
+                          data-testid={`button-trace-${roll.id}`}
+                        >
+                          <RouteIcon className="w-3 h-3" />
+                          تتبع
+                        </Button>
+                      </Link>
+
                       {/* زر نقل المرحلة */}
                       {(roll.stage || "") !== "done" ? (
                         <Button
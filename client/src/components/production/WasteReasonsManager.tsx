@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Switch } from "../ui/switch";
+import { Badge } from "../ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import type { WasteReason } from "../../../../shared/schema";
+
+const STAGE_LABELS: Record<string, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+};
+
+const emptyReason = {
+  code: "",
+  name_ar: "",
+  name: "",
+  stage: "cutting",
+  sort_order: 0,
+};
+
+export default function WasteReasonsManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newReason, setNewReason] = useState(emptyReason);
+  const [stageFilter, setStageFilter] = useState("all");
+
+  const { data: reasons = [], isLoading } = useQuery<WasteReason[]>({
+    queryKey: ["/api/waste-reasons"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof emptyReason) => {
+      const response = await apiRequest("/api/waste-reasons", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waste-reasons"] });
+      setNewReason({ ...emptyReason, stage: newReason.stage });
+      toast({ title: "تم الحفظ", description: "تم إضافة سبب الهدر" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      updates,
+    }: {
+      id: number;
+      updates: Partial<WasteReason>;
+    }) => {
+      const response = await apiRequest(`/api/waste-reasons/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waste-reasons"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/waste-reasons/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waste-reasons"] });
+      toast({ title: "تم الحذف", description: "تم حذف سبب الهدر" });
+    },
+    onError,
+  });
+
+  const handleDelete = (reason: WasteReason) => {
+    if (
+      confirm(
+        `هل تريد حذف سبب الهدر "${reason.name_ar}"؟ يُفضل إلغاء تفعيله إذا كان مستخدماً في سجلات سابقة.`,
+      )
+    ) {
+      deleteMutation.mutate(reason.id);
+    }
+  };
+
+  const visibleReasons = reasons.filter(
+    (reason) => stageFilter === "all" || reason.stage === stageFilter,
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Trash2 className="w-5 h-5" />
+            أسباب الهدر
+          </CardTitle>
+          <Select value={stageFilter} onValueChange={setStageFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">جميع المراحل</SelectItem>
+              {Object.entries(STAGE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-2 items-center">
+          <Input
+            placeholder="الرمز"
+            value={newReason.code}
+            onChange={(e) =>
+              setNewReason({ ...newReason, code: e.target.value })
+            }
+            data-testid="input-waste-reason-code"
+          />
+          <Input
+            placeholder="الاسم العربي"
+            value={newReason.name_ar}
+            onChange={(e) =>
+              setNewReason({ ...newReason, name_ar: e.target.value })
+            }
+          />
+          <Input
+            placeholder="الاسم الإنجليزي"
+            value={newReason.name}
+            onChange={(e) =>
+              setNewReason({ ...newReason, name: e.target.value })
+            }
+          />
+          <Select
+            value={newReason.stage}
+            onValueChange={(stage) => setNewReason({ ...newReason, stage })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STAGE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="الترتيب"
+            value={newReason.sort_order}
+            onChange={(e) =>
+              setNewReason({
+                ...newReason,
+                sort_order: parseInt(e.target.value) || 0,
+              })
+            }
+          />
+          <Button
+            onClick={() => createMutation.mutate(newReason)}
+            disabled={
+              createMutation.isPending ||
+              !newReason.code.trim() ||
+              !newReason.name_ar.trim() ||
+              !newReason.name.trim()
+            }
+            data-testid="button-add-waste-reason"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            إضافة
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            جاري التحميل...
+          </div>
+        ) : visibleReasons.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            لا توجد أسباب هدر معرفة
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الرمز
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الاسم العربي
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الاسم الإنجليزي
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    المرحلة
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    مفعل
+                  </th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleReasons.map((reason) => (
+                  <tr key={reason.id}>
+                    <td className="px-4 py-2 text-center text-sm font-mono">
+                      {reason.code}
+                    </td>
+                    <td className="px-4 py-2 text-center text-sm">
+                      {reason.name_ar}
+                    </td>
+                    <td className="px-4 py-2 text-center text-sm">
+                      {reason.name}
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Badge variant="outline">
+                        {STAGE_LABELS[reason.stage] || reason.stage}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Switch
+                        checked={reason.is_active}
+                        onCheckedChange={(is_active) =>
+                          updateMutation.mutate({
+                            id: reason.id,
+                            updates: { is_active },
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(reason)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Switch } from "../ui/switch";
+import { Badge } from "../ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { Bug, Plus, Trash2 } from "lucide-react";
+import type { QualityDefectType } from "../../../../shared/schema";
+
+const SEVERITY_LABELS: Record<
+  string,
+  { label: string; variant: "default" | "secondary" | "destructive" }
+> = {
+  minor: { label: "بسيط", variant: "secondary" },
+  major: { label: "رئيسي", variant: "default" },
+  critical: { label: "حرج", variant: "destructive" },
+};
+
+const emptyDefectType = {
+  code: "",
+  name_ar: "",
+  name: "",
+  severity: "major",
+};
+
+export default function DefectTypesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newDefectType, setNewDefectType] = useState(emptyDefectType);
+
+  const { data: defectTypes = [], isLoading } = useQuery<QualityDefectType[]>({
+    queryKey: ["/api/quality/defect-types"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof emptyDefectType) => {
+      const response = await apiRequest("/api/quality/defect-types", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quality/defect-types"] });
+      setNewDefectType(emptyDefectType);
+      toast({ title: "تم الحفظ", description: "تم إضافة نوع العيب" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      updates,
+    }: {
+      id: number;
+      updates: Partial<QualityDefectType>;
+    }) => {
+      const response = await apiRequest(`/api/quality/defect-types/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quality/defect-types"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/quality/defect-types/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quality/defect-types"] });
+      toast({ title: "تم الحذف", description: "تم حذف نوع العيب" });
+    },
+    onError,
+  });
+
+  const handleDelete = (defectType: QualityDefectType) => {
+    if (
+      confirm(
+        `هل تريد حذف نوع العيب "${defectType.name_ar}"؟ يُفضل إلغاء تفعيله إذا كان مستخدماً في فحوصات سابقة.`,
+      )
+    ) {
+      deleteMutation.mutate(defectType.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bug className="w-5 h-5" />
+          أنواع العيوب
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-center">
+          <Input
+            placeholder="الرمز"
+            value={newDefectType.code}
+            onChange={(e) =>
+              setNewDefectType({ ...newDefectType, code: e.target.value })
+            }
+            data-testid="input-defect-type-code"
+          />
+          <Input
+            placeholder="الاسم العربي"
+            value={newDefectType.name_ar}
+            onChange={(e) =>
+              setNewDefectType({ ...newDefectType, name_ar: e.target.value })
+            }
+          />
+          <Input
+            placeholder="الاسم الإنجليزي"
+            value={newDefectType.name}
+            onChange={(e) =>
+              setNewDefectType({ ...newDefectType, name: e.target.value })
+            }
+          />
+          <Select
+            value={newDefectType.severity}
+            onValueChange={(severity) =>
+              setNewDefectType({ ...newDefectType, severity })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SEVERITY_LABELS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createMutation.mutate(newDefectType)}
+            disabled={
+              createMutation.isPending ||
+              !newDefectType.code.trim() ||
+              !newDefectType.name_ar.trim() ||
+              !newDefectType.name.trim()
+            }
+            data-testid="button-add-defect-type"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            إضافة
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            جاري التحميل...
+          </div>
+        ) : defectTypes.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            لا توجد أنواع عيوب معرفة
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الرمز
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الاسم العربي
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الاسم الإنجليزي
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    الخطورة
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">
+                    مفعل
+                  </th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {defectTypes.map((defectType) => (
+                  <tr key={defectType.id}>
+                    <td className="px-4 py-2 text-center text-sm font-mono">
+                      {defectType.code}
+                    </td>
+                    <td className="px-4 py-2 text-center text-sm">
+                      {defectType.name_ar}
+                    </td>
+                    <td className="px-4 py-2 text-center text-sm">
+                      {defectType.name}
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Badge
+                        variant={
+                          SEVERITY_LABELS[defectType.severity]?.variant ||
+                          "outline"
+                        }
+                      >
+                        {SEVERITY_LABELS[defectType.severity]?.label ||
+                          defectType.severity}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Switch
+                        checked={defectType.is_active}
+                        onCheckedChange={(is_active) =>
+                          updateMutation.mutate({
+                            id: defectType.id,
+                            updates: { is_active },
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(defectType)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { formatNumber } from "../../lib/formatNumber";
+import { ShieldAlert } from "lucide-react";
+
+interface HeldRoll {
+  id: number;
+  roll_number: string;
+  stage: string;
+  qa_status: string;
+  weight_kg: string;
+  remaining_kg: string;
+  production_order_number: string | null;
+  order_number: string | null;
+  customer_name_ar: string | null;
+  check_id: number | null;
+  check_result: string | null;
+  check_notes: string | null;
+  checked_at: string | null;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+  done: "مكتمل",
+};
+
+const DISPOSITIONS = [
+  { value: "release", label: "إفراج - متابعة الإنتاج" },
+  { value: "rework", label: "إعادة تشغيل - يتطلب فحصاً ناجحاً قبل الاستلام" },
+  { value: "scrap", label: "إتلاف - تسجيل الوزن المتبقي كهدر" },
+];
+
+export default function HeldRollsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedRoll, setSelectedRoll] = useState<HeldRoll | null>(null);
+  const [disposition, setDisposition] = useState("");
+  const [wasteReasonId, setWasteReasonId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: heldRolls = [], isLoading } = useQuery<HeldRoll[]>({
+    queryKey: ["/api/quality/held-rolls"],
+  });
+
+  const wasteStage =
+    selectedRoll?.stage === "done" ? "cutting" : selectedRoll?.stage;
+  const { data: wasteReasons = [] } = useQuery<any[]>({
+    queryKey: ["/api/waste-reasons", { stage: wasteStage, active: "true" }],
+    enabled: disposition === "scrap" && !!wasteStage,
+  });
+
+  const closeDialog = () => {
+    setSelectedRoll(null);
+    setDisposition("");
+    setWasteReasonId("");
+    setNotes("");
+  };
+
+  const dispositionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        `/api/quality-checks/${selectedRoll?.check_id}/disposition`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            disposition,
+            notes: notes.trim() || null,
+            waste_reason_id:
+              disposition === "scrap" ? parseInt(wasteReasonId) : null,
+          }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quality/held-rolls"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quality-checks"] });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/production/printing-queue"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/production/grouped-cutting-queue"],
+      });
+      toast({ title: "تم الحفظ", description: "تم تسجيل قرار الجودة" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-red-500" />
+          الرولات الموقوفة
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            جاري التحميل...
+          </div>
+        ) : heldRolls.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            لا توجد رولات موقوفة
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                    رقم الرول
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                    الطلب / العميل
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                    المرحلة
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                    المتبقي (كجم)
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                    الحالة
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                    ملاحظات الفحص
+                  </th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {heldRolls.map((roll) => (
+                  <tr key={roll.id}>
+                    <td className="px-4 py-2 text-sm font-medium">
+                      {roll.roll_number}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">
+                      {roll.order_number} - {roll.customer_name_ar}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      {STAGE_LABELS[roll.stage] || roll.stage}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      {formatNumber(parseFloat(roll.remaining_kg) || 0)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <Badge
+                        variant={
+                          roll.qa_status === "hold" ? "destructive" : "secondary"
+                        }
+                      >
+                        {roll.qa_status === "hold"
+                          ? "موقوف"
+                          : "إعادة تشغيل - بانتظار فحص"}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500 max-w-xs truncate">
+                      {roll.check_notes || "-"}
+                    </td>
+                    <td className="px-4 py-2">
+                      {roll.qa_status === "hold" && roll.check_id && (
+                        <Button
+                          size="sm"
+                          onClick={() => setSelectedRoll(roll)}
+                          data-testid={`button-dispose-roll-${roll.id}`}
+                        >
+                          قرار الجودة
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!selectedRoll}
+        onOpenChange={(open) => {
+          if (!open) closeDialog();
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>قرار الجودة - {selectedRoll?.roll_number}</DialogTitle>
+            <DialogDescription>
+              الوزن المتبقي:{" "}
+              {formatNumber(parseFloat(selectedRoll?.remaining_kg || "0") || 0)}{" "}
+              كجم
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>القرار *</Label>
+              <Select value={disposition} onValueChange={setDisposition}>
+                <SelectTrigger data-testid="select-disposition">
+                  <SelectValue placeholder="اختر القرار" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISPOSITIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {disposition === "scrap" && (
+              <div className="space-y-1">
+                <Label>سبب الهدر *</Label>
+                <Select value={wasteReasonId} onValueChange={setWasteReasonId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="اختر سبب الهدر" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {wasteReasons.map((reason) => (
+                      <SelectItem key={reason.id} value={String(reason.id)}>
+                        {reason.name_ar}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {wasteReasons.length === 0 && (
+                  <p className="text-xs text-amber-600">
+                    لا توجد أسباب هدر معرفة لهذه المرحلة - أضفها من صفحة
+                    التعريفات
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label>ملاحظات</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={closeDialog}>
+                إلغاء
+              </Button>
+              <Button
+                onClick={() => dispositionMutation.mutate()}
+                disabled={
+                  !disposition ||
+                  (disposition === "scrap" && !wasteReasonId) ||
+                  dispositionMutation.isPending
+                }
+                variant={disposition === "scrap" ? "destructive" : "default"}
+              >
+                {dispositionMutation.isPending ? "جاري الحفظ..." : "تأكيد القرار"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,484 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { Checkbox } from "../ui/checkbox";
+import { Badge } from "../ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { ClipboardList, Edit, Plus, Trash2 } from "lucide-react";
+
+interface PlanItemForm {
+  characteristic: string;
+  name_ar: string;
+  unit: string;
+  nominal_value: string;
+  tolerance_minus: string;
+  tolerance_plus: string;
+  is_required: boolean;
+}
+
+interface PlanForm {
+  id?: number;
+  customer_product_id: string;
+  stage: string;
+  name: string;
+  is_active: boolean;
+  notes: string;
+  items: PlanItemForm[];
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+};
+
+// القياسات التي تؤخذ قيمتها الاسمية من بيانات منتج العميل عند تركها فارغة
+const CHARACTERISTICS: Record<
+  string,
+  { label: string; unit: string; fromProduct: boolean }
+> = {
+  thickness: { label: "السماكة", unit: "ميكرون", fromProduct: true },
+  width: { label: "العرض", unit: "سم", fromProduct: true },
+  cutting_length: { label: "طول القص", unit: "سم", fromProduct: true },
+  unit_weight: { label: "وزن الوحدة", unit: "كجم", fromProduct: true },
+  print_registration: { label: "انحراف الطباعة", unit: "مم", fromProduct: false },
+  seal_strength: { label: "قوة اللحام", unit: "نيوتن", fromProduct: false },
+  other: { label: "قياس آخر", unit: "", fromProduct: false },
+};
+
+const newItem = (characteristic: string): PlanItemForm => ({
+  characteristic,
+  name_ar: CHARACTERISTICS[characteristic]?.label || "",
+  unit: CHARACTERISTICS[characteristic]?.unit || "",
+  nominal_value: "",
+  tolerance_minus: "",
+  tolerance_plus: "",
+  is_required: true,
+});
+
+const emptyPlan = (): PlanForm => ({
+  customer_product_id: "",
+  stage: "film",
+  name: "",
+  is_active: true,
+  notes: "",
+  items: [newItem("thickness"), newItem("width")],
+});
+
+const toFormValue = (value: string | null) => value ?? "";
+
+export default function InspectionPlansManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<PlanForm | null>(null);
+
+  const { data: plans = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/quality/inspection-plans"],
+  });
+
+  const { data: customerProducts = [] } = useQuery<any[]>({
+    queryKey: ["/api/customer-products"],
+    enabled: !!form,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (plan: PlanForm) => {
+      const { id, ...payload } = plan;
+      const response = await apiRequest(
+        id
+          ? `/api/quality/inspection-plans/${id}`
+          : "/api/quality/inspection-plans",
+        {
+          method: id ? "PUT" : "POST",
+          body: JSON.stringify({
+            ...payload,
+            notes: payload.notes.trim() || null,
+            items: payload.items.map((item, index) => ({
+              ...item,
+              unit: item.unit.trim() || null,
+              sort_order: index,
+            })),
+          }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/quality/inspection-plans"],
+      });
+      setForm(null);
+      toast({ title: "تم الحفظ", description: "تم حفظ خطة الفحص" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/quality/inspection-plans/${id}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/quality/inspection-plans"],
+      });
+      toast({ title: "تم الحذف", description: "تم حذف خطة الفحص" });
+    },
+    onError,
+  });
+
+  const editPlan = (plan: any) => {
+    setForm({
+      id: plan.id,
+      customer_product_id: String(plan.customer_product_id),
+      stage: plan.stage,
+      name: plan.name,
+      is_active: plan.is_active,
+      notes: plan.notes || "",
+      items: plan.items.map((item: any) => ({
+        characteristic: item.characteristic,
+        name_ar: item.name_ar,
+        unit: item.unit || "",
+        nominal_value: toFormValue(item.nominal_value),
+        tolerance_minus: toFormValue(item.tolerance_minus),
+        tolerance_plus: toFormValue(item.tolerance_plus),
+        is_required: item.is_required,
+      })),
+    });
+  };
+
+  const updateItem = (index: number, changes: Partial<PlanItemForm>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      items: form.items.map((item, i) =>
+        i === index ? { ...item, ...changes } : item,
+      ),
+    });
+  };
+
+  const formatTolerance = (item: any) => {
+    const nominal =
+      item.nominal_value ??
+      (CHARACTERISTICS[item.characteristic]?.fromProduct ? "المنتج" : "-");
+    return `${nominal} (-${item.tolerance_minus ?? "∞"} / +${item.tolerance_plus ?? "∞"})`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5" />
+            خطط الفحص
+          </CardTitle>
+          <Button onClick={() => setForm(emptyPlan())}>
+            <Plus className="w-4 h-4 mr-2" />
+            خطة جديدة
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            جاري التحميل...
+          </div>
+        ) : plans.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            لا توجد خطط فحص - الفحوصات بدون خطة تسجل العيوب فقط
+          </div>
+        ) : (
+          plans.map((plan) => (
+            <div key={plan.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{plan.name}</span>
+                  <Badge variant="outline">
+                    {STAGE_LABELS[plan.stage] || plan.stage}
+                  </Badge>
+                  {!plan.is_active && <Badge variant="secondary">غير مفعلة</Badge>}
+                  <span className="text-sm text-muted-foreground">
+                    {plan.customer_product_label}
+                  </span>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => editPlan(plan)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`هل تريد حذف خطة الفحص "${plan.name}"؟`)) {
+                        deleteMutation.mutate(plan.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {plan.items.map((item: any) => (
+                  <Badge key={item.id} variant="secondary" className="font-normal">
+                    {item.name_ar}: {formatTolerance(item)} {item.unit || ""}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!form}
+        onOpenChange={(open) => {
+          if (!open) setForm(null);
+        }}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {form?.id ? "تعديل خطة الفحص" : "خطة فحص جديدة"}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2 space-y-1">
+                  <Label>منتج العميل *</Label>
+                  <Select
+                    value={form.customer_product_id}
+                    onValueChange={(customer_product_id) =>
+                      setForm({ ...form, customer_product_id })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="اختر منتج العميل" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customerProducts.map((product) => (
+                        <SelectItem key={product.id} value={String(product.id)}>
+                          {product.customer_name_ar || product.customer_name} -{" "}
+                          {product.size_caption || product.id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>المرحلة *</Label>
+                  <Select
+                    value={form.stage}
+                    onValueChange={(stage) => setForm({ ...form, stage })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STAGE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2 space-y-1">
+                  <Label>اسم الخطة *</Label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pt-6">
+                  <Switch
+                    checked={form.is_active}
+                    onCheckedChange={(is_active) =>
+                      setForm({ ...form, is_active })
+                    }
+                  />
+                  <Label>مفعلة</Label>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>بنود القياس</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        items: [...form.items, newItem("other")],
+                      })
+                    }
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    إضافة بند
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  اترك القيمة الاسمية فارغة لاستخدام قيمة منتج العميل (السماكة،
+                  العرض، طول القص، وزن الوحدة). التفاوت الفارغ يعني بدون حد.
+                </p>
+                <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground px-1">
+                  <span className="col-span-2">النوع</span>
+                  <span className="col-span-3">الاسم</span>
+                  <span className="col-span-1">الوحدة</span>
+                  <span className="col-span-2">القيمة الاسمية</span>
+                  <span className="col-span-1">- تفاوت</span>
+                  <span className="col-span-1">+ تفاوت</span>
+                  <span className="col-span-1">إلزامي</span>
+                </div>
+                {form.items.map((item, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <Select
+                      value={item.characteristic}
+                      onValueChange={(characteristic) =>
+                        updateItem(index, {
+                          characteristic,
+                          name_ar: CHARACTERISTICS[characteristic].label,
+                          unit: CHARACTERISTICS[characteristic].unit,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="col-span-2 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CHARACTERISTICS).map(([value, { label }]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="col-span-3 h-8"
+                      value={item.name_ar}
+                      onChange={(e) => updateItem(index, { name_ar: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-1 h-8"
+                      value={item.unit}
+                      onChange={(e) => updateItem(index, { unit: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.001"
+                      className="col-span-2 h-8"
+                      placeholder={
+                        CHARACTERISTICS[item.characteristic]?.fromProduct
+                          ? "من المنتج"
+                          : ""
+                      }
+                      value={item.nominal_value}
+                      onChange={(e) =>
+                        updateItem(index, { nominal_value: e.target.value })
+                      }
+                    />
+                    <Input
+                      type="number"
+                      step="0.001"
+                      className="col-span-1 h-8"
+                      value={item.tolerance_minus}
+                      onChange={(e) =>
+                        updateItem(index, { tolerance_minus: e.target.value })
+                      }
+                    />
+                    <Input
+                      type="number"
+                      step="0.001"
+                      className="col-span-1 h-8"
+                      value={item.tolerance_plus}
+                      onChange={(e) =>
+                        updateItem(index, { tolerance_plus: e.target.value })
+                      }
+                    />
+                    <div className="col-span-1 flex justify-center">
+                      <Checkbox
+                        checked={item.is_required}
+                        onCheckedChange={(checked) =>
+                          updateItem(index, { is_required: checked === true })
+                        }
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="col-span-1"
+                      onClick={() =>
+                        setForm({
+                          ...form,
+                          items: form.items.filter((_, i) => i !== index),
+                        })
+                      }
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <Label>ملاحظات</Label>
+                <Input
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  إلغاء
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate(form)}
+                  disabled={
+                    saveMutation.isPending ||
+                    !form.customer_product_id ||
+                    !form.name.trim() ||
+                    form.items.length === 0
+                  }
+                >
+                  {saveMutation.isPending ? "جاري الحفظ..." : "حفظ الخطة"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
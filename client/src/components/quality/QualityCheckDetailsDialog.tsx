@@ -0,0 +1,153 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Badge } from "../ui/badge";
+
+interface QualityCheckDetailsDialogProps {
+  checkId: number | null;
+  onClose: () => void;
+}
+
+const SEVERITY_LABELS: Record<string, string> = {
+  minor: "بسيط",
+  major: "رئيسي",
+  critical: "حرج",
+};
+
+const DISPOSITION_LABELS: Record<string, string> = {
+  release: "إفراج",
+  rework: "إعادة تشغيل",
+  scrap: "إتلاف",
+};
+
+export default function QualityCheckDetailsDialog({
+  checkId,
+  onClose,
+}: QualityCheckDetailsDialogProps) {
+  const { data: check, isLoading } = useQuery<any>({
+    queryKey: [`/api/quality-checks/${checkId}`],
+    enabled: checkId !== null,
+  });
+
+  return (
+    <Dialog
+      open={checkId !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>تفاصيل الفحص - {check?.roll_number || ""}</DialogTitle>
+          {check && (
+            <DialogDescription>
+              {check.checked_by_name || "-"} -{" "}
+              {new Date(check.created_at).toLocaleString("ar")}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !check ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            جاري التحميل...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {check.disposition && (
+              <div className="p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="font-medium">قرار الجودة: </span>
+                {DISPOSITION_LABELS[check.disposition] || check.disposition} -{" "}
+                {check.disposed_by_name || "-"}
+                {check.disposition_notes && (
+                  <p className="text-muted-foreground mt-1">
+                    {check.disposition_notes}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {check.measurements.length > 0 && (
+              <table className="w-full text-sm border rounded-md">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="p-2 text-right">القياس</th>
+                    <th className="p-2">المقاس</th>
+                    <th className="p-2">الحدود</th>
+                    <th className="p-2">النتيجة</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {check.measurements.map((measurement: any) => (
+                    <tr key={measurement.id} className="border-t">
+                      <td className="p-2">{measurement.name_ar}</td>
+                      <td className="p-2 text-center">
+                        {measurement.measured_value} {measurement.unit || ""}
+                      </td>
+                      <td className="p-2 text-center text-muted-foreground">
+                        {measurement.min_value ?? "-"} -{" "}
+                        {measurement.max_value ?? "-"}
+                      </td>
+                      <td className="p-2 text-center">
+                        <Badge
+                          variant={
+                            measurement.is_within_tolerance
+                              ? "default"
+                              : "destructive"
+                          }
+                        >
+                          {measurement.is_within_tolerance
+                            ? "ضمن التفاوت"
+                            : "خارج التفاوت"}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {check.defects.map((defect: any) => (
+              <div key={defect.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{defect.defect_name_ar}</span>
+                  <Badge
+                    variant={defect.severity === "minor" ? "secondary" : "destructive"}
+                  >
+                    {SEVERITY_LABELS[defect.severity] || defect.severity}
+                  </Badge>
+                </div>
+                {defect.notes && (
+                  <p className="text-sm text-muted-foreground">{defect.notes}</p>
+                )}
+                {defect.photos?.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {defect.photos.map((photo: string, index: number) => (
+                      <img
+                        key={index}
+                        src={photo}
+                        alt="صورة العيب"
+                        className="h-32 w-32 object-cover rounded border"
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {check.notes && (
+              <p className="text-sm">
+                <span className="font-medium">ملاحظات: </span>
+                {check.notes}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
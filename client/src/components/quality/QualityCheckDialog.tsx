@@ -0,0 +1,524 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import { Checkbox } from "../ui/checkbox";
+import { Badge } from "../ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { Camera, Plus, Search, Trash2, X } from "lucide-react";
+
+interface ResolvedPlanItem {
+  id: number;
+  name_ar: string;
+  unit: string | null;
+  is_required: boolean;
+  nominal: number | null;
+  min_value: number | null;
+  max_value: number | null;
+}
+
+interface RollInspectionPlan {
+  roll: { id: number; roll_number: string; stage: string; qa_status: string };
+  stage: string;
+  plan: { id: number; name: string } | null;
+  items: ResolvedPlanItem[];
+}
+
+interface DefectEntry {
+  defect_type_id: string;
+  notes: string;
+  photos: string[];
+}
+
+interface QualityCheckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialRoll?: string;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+};
+
+const RESULT_LABELS: Record<string, string> = {
+  pass: "مُجتاز",
+  warning: "تحذير",
+  fail: "راسب",
+};
+
+// الحد الأقصى لحجم صورة العيب (5 ميجابايت) كما في صور الكليشيهات
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+// رمز QR للرول يحتوي JSON برقم الرول، ويمكن إدخال الرقم يدوياً
+const parseRollInput = (text: string) => {
+  const value = text.trim();
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === "object" && parsed.roll_number) {
+      return String(parsed.roll_number);
+    }
+  } catch {
+    // ليس JSON - نستخدم النص كما هو
+  }
+  return value;
+};
+
+const isWithinLimits = (item: ResolvedPlanItem, value: number) =>
+  (item.min_value === null || value >= item.min_value) &&
+  (item.max_value === null || value <= item.max_value);
+
+const formatLimits = (item: ResolvedPlanItem) => {
+  if (item.min_value !== null && item.max_value !== null) {
+    return `${item.min_value} - ${item.max_value}`;
+  }
+  if (item.min_value !== null) return `≥ ${item.min_value}`;
+  if (item.max_value !== null) return `≤ ${item.max_value}`;
+  return "بدون حدود";
+};
+
+export default function QualityCheckDialog({
+  open,
+  onOpenChange,
+  initialRoll,
+}: QualityCheckDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rollInput, setRollInput] = useState("");
+  const [rollRef, setRollRef] = useState("");
+  const [stage, setStage] = useState("");
+  const [values, setValues] = useState<Record<number, string>>({});
+  const [defects, setDefects] = useState<DefectEntry[]>([]);
+  const [score, setScore] = useState("");
+  const [notes, setNotes] = useState("");
+  const [forceFail, setForceFail] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setRollInput(initialRoll || "");
+      setRollRef(initialRoll || "");
+      setStage("");
+      setValues({});
+      setDefects([]);
+      setScore("");
+      setNotes("");
+      setForceFail(false);
+    }
+  }, [open, initialRoll]);
+
+  const { data: inspection, isFetching, error } = useQuery<RollInspectionPlan>({
+    queryKey: [
+      `/api/rolls/${encodeURIComponent(rollRef)}/inspection-plan`,
+      { stage },
+    ],
+    enabled: open && !!rollRef,
+  });
+
+  const { data: defectTypes = [] } = useQuery<any[]>({
+    queryKey: ["/api/quality/defect-types", { active: "true" }],
+    enabled: open,
+  });
+
+  const createCheckMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("/api/quality-checks", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: (check) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quality-checks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quality/held-rolls"] });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/production/printing-queue"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/production/grouped-cutting-queue"],
+      });
+      toast({
+        title: `نتيجة الفحص: ${RESULT_LABELS[check.result] || check.result}`,
+        description:
+          check.result === "fail"
+            ? `تم إيقاف الرول ${check.roll_number} بانتظار قرار الجودة`
+            : "تم تسجيل فحص الجودة",
+        variant: check.result === "fail" ? "destructive" : "default",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في تسجيل الفحص",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePhotoUpload = (index: number, files: FileList | null) => {
+    Array.from(files || []).forEach((file) => {
+      if (file.size > MAX_PHOTO_SIZE) {
+        toast({
+          title: "حجم الملف كبير جداً",
+          description: "يجب أن يكون حجم الصورة أقل من 5 ميجابايت",
+          variant: "destructive",
+        });
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const result = e.target?.result as string;
+        setDefects((prev) =>
+          prev.map((defect, i) =>
+            i === index
+              ? { ...defect, photos: [...defect.photos, result].slice(0, 5) }
+              : defect,
+          ),
+        );
+      };
+      reader.readAsDataURL(file);
+    });
+  };
+
+  const updateDefect = (index: number, changes: Partial<DefectEntry>) => {
+    setDefects((prev) =>
+      prev.map((defect, i) => (i === index ? { ...defect, ...changes } : defect)),
+    );
+  };
+
+  const items = inspection?.items || [];
+  const missingRequired = items.some(
+    (item) => item.is_required && (values[item.id] ?? "").trim() === "",
+  );
+  const incompleteDefects = defects.some((defect) => !defect.defect_type_id);
+
+  const handleSubmit = () => {
+    if (!inspection) return;
+    createCheckMutation.mutate({
+      roll_id: inspection.roll.id,
+      stage: inspection.stage,
+      plan_id: inspection.plan?.id ?? null,
+      score: score ? parseInt(score) : null,
+      notes: notes.trim() || null,
+      force_fail: forceFail,
+      measurements: items
+        .filter((item) => (values[item.id] ?? "").trim() !== "")
+        .map((item) => ({
+          plan_item_id: item.id,
+          name_ar: item.name_ar,
+          unit: item.unit,
+          measured_value: parseFloat(values[item.id]),
+        })),
+      defects: defects.map((defect) => ({
+        defect_type_id: parseInt(defect.defect_type_id),
+        notes: defect.notes.trim() || null,
+        photos: defect.photos,
+      })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>فحص جودة جديد</DialogTitle>
+          <DialogDescription>
+            الفحص الراسب يوقف الرول عن الطباعة والتقطيع والاستلام حتى اتخاذ قرار
+            الجودة
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2 items-end">
+            <div className="flex-1 space-y-1">
+              <Label>رقم الرول</Label>
+              <Input
+                value={rollInput}
+                onChange={(e) => setRollInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") setRollRef(parseRollInput(rollInput));
+                }}
+                placeholder="امسح رمز QR أو أدخل رقم الرول"
+                data-testid="input-quality-roll"
+              />
+            </div>
+            <div className="w-40 space-y-1">
+              <Label>المرحلة</Label>
+              <Select
+                value={stage || inspection?.stage || ""}
+                onValueChange={setStage}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="مرحلة الرول" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STAGE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setRollRef(parseRollInput(rollInput))}
+              disabled={!rollInput.trim()}
+            >
+              <Search className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {isFetching && (
+            <p className="text-sm text-muted-foreground">جاري التحميل...</p>
+          )}
+          {error && !isFetching && (
+            <p className="text-sm text-red-600">{(error as Error).message}</p>
+          )}
+
+          {inspection && !isFetching && (
+            <>
+              <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg">
+                <span className="font-medium">{inspection.roll.roll_number}</span>
+                <Badge variant="outline">
+                  {STAGE_LABELS[inspection.stage] || inspection.stage}
+                </Badge>
+                {inspection.roll.qa_status !== "ok" && (
+                  <Badge variant="destructive">موقوف حالياً</Badge>
+                )}
+                <span className="text-sm text-muted-foreground mr-auto">
+                  {inspection.plan
+                    ? `خطة الفحص: ${inspection.plan.name}`
+                    : "لا توجد خطة فحص مفعلة لهذا المنتج والمرحلة"}
+                </span>
+              </div>
+
+              {items.length > 0 && (
+                <div className="space-y-2">
+                  <Label>القياسات</Label>
+                  <div className="border rounded-md divide-y">
+                    {items.map((item) => {
+                      const raw = values[item.id] ?? "";
+                      const value = parseFloat(raw);
+                      const checked = raw.trim() !== "" && !isNaN(value);
+                      const within = checked && isWithinLimits(item, value);
+                      return (
+                        <div
+                          key={item.id}
+                          className="grid grid-cols-12 gap-2 items-center p-2"
+                        >
+                          <div className="col-span-4 text-sm">
+                            {item.name_ar}
+                            {item.is_required && (
+                              <span className="text-red-500"> *</span>
+                            )}
+                          </div>
+                          <div className="col-span-3 text-xs text-muted-foreground">
+                            {formatLimits(item)} {item.unit || ""}
+                          </div>
+                          <Input
+                            type="number"
+                            step="0.001"
+                            className="col-span-3 h-8"
+                            value={raw}
+                            onChange={(e) =>
+                              setValues({ ...values, [item.id]: e.target.value })
+                            }
+                          />
+                          <div className="col-span-2 text-center">
+                            {checked && (
+                              <Badge variant={within ? "default" : "destructive"}>
+                                {within ? "ضمن التفاوت" : "خارج التفاوت"}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>العيوب</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setDefects([
+                        ...defects,
+                        { defect_type_id: "", notes: "", photos: [] },
+                      ])
+                    }
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    إضافة عيب
+                  </Button>
+                </div>
+                {defectTypes.length === 0 && (
+                  <p className="text-xs text-amber-600">
+                    لا توجد أنواع عيوب معرفة - أضفها من تبويب أنواع العيوب
+                  </p>
+                )}
+                {defects.map((defect, index) => (
+                  <div key={index} className="border rounded-md p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <Select
+                        value={defect.defect_type_id}
+                        onValueChange={(defect_type_id) =>
+                          updateDefect(index, { defect_type_id })
+                        }
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="نوع العيب" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {defectTypes.map((type) => (
+                            <SelectItem key={type.id} value={String(type.id)}>
+                              {type.name_ar}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setDefects(defects.filter((_, i) => i !== index))
+                        }
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                    <Input
+                      placeholder="ملاحظات العيب"
+                      value={defect.notes}
+                      onChange={(e) =>
+                        updateDefect(index, { notes: e.target.value })
+                      }
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      {defect.photos.map((photo, photoIndex) => (
+                        <div key={photoIndex} className="relative">
+                          <img
+                            src={photo}
+                            alt="صورة العيب"
+                            className="h-16 w-16 object-cover rounded border"
+                          />
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="sm"
+                            className="absolute -top-1 -right-1 h-5 w-5 p-0"
+                            onClick={() =>
+                              updateDefect(index, {
+                                photos: defect.photos.filter(
+                                  (_, i) => i !== photoIndex,
+                                ),
+                              })
+                            }
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ))}
+                      {defect.photos.length < 5 && (
+                        <label className="h-16 w-16 flex items-center justify-center border border-dashed rounded cursor-pointer text-muted-foreground hover:bg-gray-50">
+                          <Camera className="w-5 h-5" />
+                          <input
+                            type="file"
+                            accept="image/*"
+                            capture="environment"
+                            multiple
+                            className="hidden"
+                            onChange={(e) => {
+                              handlePhotoUpload(index, e.target.files);
+                              e.target.value = "";
+                            }}
+                          />
+                        </label>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label>التقييم</Label>
+                  <Select value={score} onValueChange={setScore}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="اختياري" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <SelectItem key={star} value={String(star)}>
+                          {"★".repeat(star)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2 flex items-center gap-2 pt-6">
+                  <Checkbox
+                    id="force-fail"
+                    checked={forceFail}
+                    onCheckedChange={(checked) => setForceFail(checked === true)}
+                  />
+                  <Label htmlFor="force-fail" className="text-sm">
+                    رسوب يدوي (إيقاف الرول حتى لو كانت القياسات ضمن التفاوت)
+                  </Label>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>ملاحظات</Label>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => onOpenChange(false)}>
+                  إلغاء
+                </Button>
+                <Button
+                  onClick={handleSubmit}
+                  disabled={
+                    missingRequired ||
+                    incompleteDefects ||
+                    createCheckMutation.isPending
+                  }
+                  data-testid="button-save-quality-check"
+                >
+                  {createCheckMutation.isPending ? "جاري الحفظ..." : "حفظ الفحص"}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
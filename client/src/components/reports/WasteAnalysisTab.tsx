@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "../ui/card";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { ComboChart, MetricsGrid } from "../charts";
+import { formatNumber } from "../../lib/formatNumber";
+import { AlertTriangle, HelpCircle, Percent, Trash2 } from "lucide-react";
+
+interface WasteParetoEntry {
+  key: string;
+  label: string;
+  waste_kg: number;
+  percentage: number;
+  cumulative_percentage: number;
+}
+
+interface WasteAnalysis {
+  total_waste_kg: number;
+  unclassified_waste_kg: number;
+  produced_kg: number;
+  waste_percentage: number;
+  by_stage: WasteParetoEntry[];
+  by_reason: WasteParetoEntry[];
+  by_machine: WasteParetoEntry[];
+  by_operator: WasteParetoEntry[];
+  by_customer_product: WasteParetoEntry[];
+  by_shift: WasteParetoEntry[];
+}
+
+interface WasteAnalysisTabProps {
+  from: string;
+  to: string;
+}
+
+const PARETO_DIMENSIONS: {
+  key: keyof WasteAnalysis;
+  title: string;
+}[] = [
+  { key: "by_reason", title: "الهدر حسب السبب" },
+  { key: "by_machine", title: "الهدر حسب الماكينة" },
+  { key: "by_operator", title: "الهدر حسب المشغل" },
+  { key: "by_customer_product", title: "الهدر حسب منتج العميل" },
+  { key: "by_shift", title: "الهدر حسب الوردية" },
+];
+
+// عدد الأعمدة المعروضة في كل مخطط باريتو
+const PARETO_LIMIT = 10;
+
+export default function WasteAnalysisTab({ from, to }: WasteAnalysisTabProps) {
+  const [stage, setStage] = useState("all");
+
+  const { data, isLoading } = useQuery<{ data: WasteAnalysis }>({
+    queryKey: ["/api/reports/waste-analysis", from, to, stage],
+    queryFn: () =>
+      fetch(
+        `/api/reports/waste-analysis?date_from=${from}&date_to=${to}${
+          stage !== "all" ? `&stage=${stage}` : ""
+        }`,
+      ).then((res) => res.json()),
+  });
+
+  const analysis = data?.data;
+
+  if (isLoading || !analysis) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-sm text-muted-foreground">جاري التحميل...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-4 flex items-center gap-4">
+          <Label>المرحلة</Label>
+          <Select value={stage} onValueChange={setStage}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">جميع المراحل</SelectItem>
+              <SelectItem value="film">فيلم</SelectItem>
+              <SelectItem value="printing">طباعة</SelectItem>
+              <SelectItem value="cutting">تقطيع</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <MetricsGrid
+        columns={4}
+        metrics={[
+          {
+            title: "إجمالي الهدر",
+            value: `${formatNumber(analysis.total_waste_kg)} كجم`,
+            icon: <Trash2 className="w-5 h-5" />,
+          },
+          {
+            title: "نسبة الهدر",
+            value: `${analysis.waste_percentage}%`,
+            description: `من ${formatNumber(analysis.produced_kg)} كجم منتج`,
+            icon: <Percent className="w-5 h-5" />,
+          },
+          {
+            title: "هدر غير مصنف",
+            value: `${formatNumber(analysis.unclassified_waste_kg)} كجم`,
+            description: "هدر مسجل بدون سبب",
+            icon: <HelpCircle className="w-5 h-5" />,
+          },
+          {
+            title: "أكبر سبب",
+            value: analysis.by_reason[0]?.label || "-",
+            description: analysis.by_reason[0]
+              ? `${analysis.by_reason[0].percentage}% من الهدر`
+              : undefined,
+            icon: <AlertTriangle className="w-5 h-5" />,
+          },
+        ]}
+      />
+
+      {analysis.total_waste_kg === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            لا يوجد هدر مسجل خلال الفترة المحددة
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {PARETO_DIMENSIONS.map(({ key, title }) => (
+            <ComboChart
+              key={key}
+              title={title}
+              description="مرتب تنازلياً مع النسبة التراكمية"
+              data={(analysis[key] as WasteParetoEntry[]).slice(
+                0,
+                PARETO_LIMIT,
+              )}
+              xAxisKey="label"
+              elements={[
+                {
+                  type: "bar",
+                  key: "waste_kg",
+                  name: "الهدر (كجم)",
+                  color: "#ef4444",
+                  yAxisId: "left",
+                },
+                {
+                  type: "line",
+                  key: "cumulative_percentage",
+                  name: "النسبة التراكمية",
+                  color: "#3b82f6",
+                  yAxisId: "right",
+                },
+              ]}
+              formatValue={(value) => formatNumber(value)}
+              formatRightAxis={(value) => `${value}%`}
+              height={300}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
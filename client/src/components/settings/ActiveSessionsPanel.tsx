@@ -0,0 +1,168 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+
+interface UserSession {
+  id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  login_at: string | null;
+  last_activity: string | null;
+  expires_at: string;
+  current: boolean;
+}
+
+interface ActiveSessionsPanelProps {
+  // بدون userId تُعرض جلسات المستخدم الحالي
+  userId?: number;
+}
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return "جهاز غير معروف";
+  const browser =
+    /Edg\//.test(userAgent)
+      ? "Edge"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Firefox\//.test(userAgent)
+          ? "Firefox"
+          : /Safari\//.test(userAgent)
+            ? "Safari"
+            : "متصفح";
+  const os = /Android/.test(userAgent)
+    ? "Android"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Windows/.test(userAgent)
+        ? "Windows"
+        : /Mac OS/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "";
+  return os ? `${browser} - ${os}` : browser;
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString("ar") : "—";
+
+/**
+ * الجلسات النشطة (الأجهزة المسجّل الدخول منها) مع إمكانية إنهاء جلسة أو جميعها
+ */
+export default function ActiveSessionsPanel({
+  userId,
+}: ActiveSessionsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const baseUrl = userId ? `/api/users/${userId}/sessions` : "/api/me/sessions";
+
+  const { data: sessions = [], isLoading } = useQuery<UserSession[]>({
+    queryKey: [baseUrl],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId?: string) => {
+      const response = await apiRequest(
+        sessionId ? `${baseUrl}/${sessionId}` : baseUrl,
+        { method: "DELETE" },
+      );
+      return response.json();
+    },
+    onSuccess: (_data, sessionId) => {
+      const revokedCurrent =
+        !userId && sessions.find((s) => s.id === sessionId)?.current;
+      if (revokedCurrent) {
+        window.location.href = "/login";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      toast({ title: "تم إنهاء الجلسة" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في إنهاء الجلسة",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const otherSessions = sessions.filter((s) => !s.current);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">الجلسات النشطة</h4>
+        {otherSessions.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeMutation.mutate(undefined)}
+            disabled={revokeMutation.isPending}
+            data-testid="button-revoke-all-sessions"
+          >
+            <LogOut className="w-4 h-4 ml-2" />
+            {userId ? "إنهاء جميع الجلسات" : "تسجيل الخروج من الأجهزة الأخرى"}
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-4 text-sm text-gray-500">
+          جاري التحميل...
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="text-center py-4 text-sm text-gray-500">
+          لا توجد جلسات نشطة
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((session) => {
+            const mobile = /Android|iPhone|iPad/.test(session.user_agent || "");
+            const DeviceIcon = mobile ? Smartphone : Monitor;
+            return (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-3 border rounded-md p-3 text-sm"
+                data-testid={`session-${session.id}`}
+              >
+                <div className="flex items-start gap-3">
+                  <DeviceIcon className="w-5 h-5 mt-0.5 text-gray-500" />
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 font-medium">
+                      {describeDevice(session.user_agent)}
+                      {session.current && (
+                        <Badge variant="secondary">الجلسة الحالية</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      IP: {session.ip_address || "—"} · آخر نشاط:{" "}
+                      {formatDate(session.last_activity)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      تسجيل الدخول: {formatDate(session.login_at)}
+                    </div>
+                  </div>
+                </div>
+                {!(userId && session.current) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    إنهاء
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
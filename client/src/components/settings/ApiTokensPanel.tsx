@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useAuth } from "../../hooks/use-auth";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { userHasPermission } from "../../utils/roleUtils";
+import {
+  PERMISSIONS,
+  PERMISSION_CATEGORIES,
+} from "../../../../shared/permissions";
+import { Copy, KeyRound, Plus } from "lucide-react";
+
+interface ApiToken {
+  id: number;
+  user_id: number;
+  user_name: string | null;
+  name: string;
+  token_type: "personal" | "service";
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+interface ApiTokensPanelProps {
+  // مفاتيح الخدمة: عرض مفاتيح جميع المستخدمين وإنشاء مفاتيح لحسابات الأجهزة
+  service?: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 يوماً" },
+  { value: "90", label: "90 يوماً" },
+  { value: "365", label: "سنة" },
+  { value: "never", label: "بدون انتهاء" },
+];
+
+const emptyForm = {
+  name: "",
+  user_id: "",
+  expiry: "90",
+  scopes: [] as string[],
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString("ar") : "—";
+
+const tokenStatus = (token: ApiToken) => {
+  if (token.revoked_at) {
+    return { label: "ملغى", variant: "destructive" as const, active: false };
+  }
+  if (token.expires_at && new Date(token.expires_at) <= new Date()) {
+    return { label: "منتهي", variant: "secondary" as const, active: false };
+  }
+  return { label: "نشط", variant: "default" as const, active: true };
+};
+
+/**
+ * مفاتيح الوصول البرمجي (Authorization: Bearer) للموازين وطابعات الملصقات
+ * وأنظمة ERP الخارجية - المفتاح يُعرض مرة واحدة فقط عند إنشائه
+ */
+export default function ApiTokensPanel({ service }: ApiTokensPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const baseUrl = service ? "/api/api-tokens" : "/api/me/api-tokens";
+
+  const { data: tokens = [], isLoading } = useQuery<ApiToken[]>({
+    queryKey: [baseUrl],
+  });
+
+  const { data: users = [] } = useQuery<
+    Array<{ id: number; username: string; display_name_ar?: string | null }>
+  >({
+    queryKey: ["/api/users"],
+    enabled: !!service,
+  });
+
+  // المفتاح الشخصي لا يتجاوز صلاحيات المستخدم نفسه
+  const availableScopes = service
+    ? PERMISSIONS
+    : PERMISSIONS.filter((p) => userHasPermission(user, p.id));
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const url = service
+        ? `/api/users/${form.user_id}/api-tokens`
+        : "/api/me/api-tokens";
+      const response = await apiRequest(url, {
+        method: "POST",
+        body: JSON.stringify({
+          name: form.name,
+          scopes: form.scopes,
+          expires_in_days:
+            form.expiry === "never" ? null : parseInt(form.expiry),
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      setForm(emptyForm);
+      setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في إنشاء المفتاح",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`${baseUrl}/${id}`, {
+        method: "DELETE",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      toast({ title: "تم إلغاء مفتاح الوصول" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في إلغاء المفتاح",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: string, checked: boolean) =>
+    setForm({
+      ...form,
+      scopes: checked
+        ? [...form.scopes, scope]
+        : form.scopes.filter((s) => s !== scope),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-gray-500" />
+          <h4 className="text-sm font-medium">
+            {service ? "مفاتيح الوصول للأجهزة والأنظمة" : "مفاتيح الوصول البرمجي"}
+          </h4>
+        </div>
+        {!showForm && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowForm(true)}
+            data-testid={service ? "button-new-service-token" : "button-new-api-token"}
+          >
+            <Plus className="w-4 h-4 ml-2" />
+            مفتاح جديد
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        يُرسل المفتاح في الترويسة Authorization: Bearer ويعمل بالصلاحيات المحددة
+        فقط وضمن صلاحيات دور صاحبه
+      </p>
+
+      {createdToken && (
+        <div className="space-y-2 border rounded-md p-3 bg-gray-50">
+          <p className="text-xs text-muted-foreground">
+            انسخ المفتاح الآن واحفظه في مكان آمن، لن يظهر مرة أخرى
+          </p>
+          <code dir="ltr" className="block text-xs break-all font-mono">
+            {createdToken}
+          </code>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigator.clipboard?.writeText(createdToken)}
+            >
+              <Copy className="w-4 h-4 ml-2" />
+              نسخ المفتاح
+            </Button>
+            <Button size="sm" onClick={() => setCreatedToken(null)}>
+              تم
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="space-y-3 border rounded-md p-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">اسم المفتاح</Label>
+              <Input
+                className="h-8"
+                placeholder="ميزان خط البثق 1"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            {service && (
+              <div className="space-y-1">
+                <Label className="text-xs">يعمل باسم المستخدم</Label>
+                <Select
+                  value={form.user_id}
+                  onValueChange={(value) => setForm({ ...form, user_id: value })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="اختر المستخدم" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((u) => (
+                      <SelectItem key={u.id} value={String(u.id)}>
+                        {u.display_name_ar || u.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">الصلاحية حتى</Label>
+              <Select
+                value={form.expiry}
+                onValueChange={(value) => setForm({ ...form, expiry: value })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">الصلاحيات</Label>
+            <div className="max-h-56 overflow-y-auto border rounded-md p-3 space-y-3">
+              {PERMISSION_CATEGORIES.map((category) => {
+                const categoryScopes = availableScopes.filter(
+                  (p) => p.category === category,
+                );
+                if (categoryScopes.length === 0) return null;
+
+                return (
+                  <div key={category} className="space-y-2">
+                    <h5 className="text-xs font-medium text-muted-foreground">
+                      {category}
+                    </h5>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                      {categoryScopes.map((permission) => (
+                        <div
+                          key={permission.id}
+                          className="flex items-center space-x-2 space-x-reverse"
+                        >
+                          <Checkbox
+                            id={`token-scope-${permission.id}`}
+                            checked={form.scopes.includes(permission.id)}
+                            onCheckedChange={(checked) =>
+                              toggleScope(permission.id, checked === true)
+                            }
+                          />
+                          <label
+                            htmlFor={`token-scope-${permission.id}`}
+                            className="text-xs leading-none cursor-pointer"
+                          >
+                            {permission.name_ar}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setShowForm(false);
+                setForm(emptyForm);
+              }}
+            >
+              إلغاء
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={
+                createMutation.isPending ||
+                !form.name.trim() ||
+                form.scopes.length === 0 ||
+                (service && !form.user_id)
+              }
+            >
+              إنشاء المفتاح
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-sm text-gray-500">
+          جاري التحميل...
+        </div>
+      ) : tokens.length === 0 ? (
+        <div className="text-center py-4 text-sm text-gray-500">
+          لا توجد مفاتيح وصول
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {tokens.map((token) => {
+            const status = tokenStatus(token);
+            return (
+              <div
+                key={token.id}
+                className="flex items-center justify-between gap-3 border rounded-md p-3 text-sm"
+                data-testid={`api-token-${token.id}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 font-medium">
+                    {token.name}
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                    {token.token_type === "service" && (
+                      <Badge variant="outline">خدمة</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    <code dir="ltr">{token.token_prefix}…</code>
+                    {service && <> · المستخدم: {token.user_name || "—"}</>} ·{" "}
+                    {token.scopes.length} صلاحية · ينتهي:{" "}
+                    {token.expires_at ? formatDate(token.expires_at) : "بدون انتهاء"}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    آخر استخدام: {formatDate(token.last_used_at)}
+                    {token.last_used_ip && <> · IP: {token.last_used_ip}</>}
+                  </div>
+                </div>
+                {status.active && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    إلغاء
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { Badge } from "../ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { Clock, History, RefreshCw, RotateCcw, Save } from "lucide-react";
+
+interface BackupSchedule {
+  time: string;
+  daily: { enabled: boolean; retention: number };
+  weekly: { enabled: boolean; retention: number; day: number };
+  monthly: { enabled: boolean; retention: number; day: number };
+}
+
+const WEEK_DAYS = [
+  "الأحد",
+  "الإثنين",
+  "الثلاثاء",
+  "الأربعاء",
+  "الخميس",
+  "الجمعة",
+  "السبت",
+];
+
+const TRIGGER_LABELS: Record<string, string> = {
+  manual: "يدوي",
+  daily: "يومي",
+  weekly: "أسبوعي",
+  monthly: "شهري",
+};
+
+const STATUS_LABELS: Record<
+  string,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  running: { label: "قيد التنفيذ", variant: "secondary" },
+  success: { label: "ناجحة", variant: "default" },
+  failed: { label: "فشلت", variant: "destructive" },
+  pruned: { label: "محذوفة", variant: "outline" },
+};
+
+const formatSize = (bytes?: number | null) => {
+  if (!bytes) return "-";
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDuration = (ms?: number | null) => {
+  if (!ms) return "-";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} ث`;
+};
+
+export default function BackupSchedulePanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
+
+  const { data: scheduleData } = useQuery<BackupSchedule>({
+    queryKey: ["/api/database/backup-schedule"],
+  });
+
+  const { data: history = [], isLoading: historyLoading } = useQuery<any[]>({
+    queryKey: ["/api/database/backups"],
+    refetchInterval: 60000,
+  });
+
+  useEffect(() => {
+    if (scheduleData) setSchedule(scheduleData);
+  }, [scheduleData]);
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (data: BackupSchedule) => {
+      const response = await apiRequest("/api/database/backup-schedule", {
+        method: "PUT",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/database/backup-schedule"],
+      });
+      toast({
+        title: "تم الحفظ",
+        description: "تم حفظ جدولة النسخ الاحتياطي",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في الحفظ",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreBackupMutation = useMutation({
+    mutationFn: async (backupId: string) => {
+      const response = await apiRequest("/api/database/restore", {
+        method: "POST",
+        body: JSON.stringify({ backupId }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries();
+      toast({
+        title: "تمت الاستعادة",
+        description: `تم استعادة ${data.result.recordsRestored.toLocaleString("ar-SA")} سجل`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في استعادة قاعدة البيانات",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRestore = (entry: any) => {
+    const createdAt = new Date(entry.started_at).toLocaleString("ar");
+    if (
+      confirm(
+        `سيتم استبدال جميع البيانات الحالية بالنسخة الاحتياطية بتاريخ ${createdAt}. هل أنت متأكد؟`,
+      )
+    ) {
+      restoreBackupMutation.mutate(entry.backup_id);
+    }
+  };
+
+  const updateSchedule = (
+    key: "daily" | "weekly" | "monthly",
+    changes: Partial<BackupSchedule["weekly"]>,
+  ) => {
+    setSchedule((prev) =>
+      prev ? { ...prev, [key]: { ...prev[key], ...changes } } : prev,
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {schedule && (
+        <Card className="p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Clock className="w-4 h-4 text-purple-500" />
+              <Label className="text-sm font-medium">
+                جدولة النسخ الاحتياطي التلقائي
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">وقت التنفيذ</Label>
+              <Input
+                type="time"
+                className="w-28 h-8"
+                value={schedule.time}
+                onChange={(e) =>
+                  setSchedule({ ...schedule, time: e.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {(["daily", "weekly", "monthly"] as const).map((key) => (
+              <div key={key} className="border rounded-md p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm">{TRIGGER_LABELS[key]}</Label>
+                  <Switch
+                    checked={schedule[key].enabled}
+                    onCheckedChange={(enabled) =>
+                      updateSchedule(key, { enabled })
+                    }
+                  />
+                </div>
+
+                {key === "weekly" && (
+                  <Select
+                    value={String(schedule.weekly.day)}
+                    onValueChange={(value) =>
+                      updateSchedule("weekly", { day: parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEK_DAYS.map((day, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {key === "monthly" && (
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground">
+                      يوم الشهر
+                    </Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={28}
+                      className="h-8"
+                      value={schedule.monthly.day}
+                      onChange={(e) =>
+                        updateSchedule("monthly", {
+                          day: parseInt(e.target.value) || 1,
+                        })
+                      }
+                    />
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground">
+                    الاحتفاظ بآخر
+                  </Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-8"
+                    value={schedule[key].retention}
+                    onChange={(e) =>
+                      updateSchedule(key, {
+                        retention: parseInt(e.target.value) || 1,
+                      })
+                    }
+                  />
+                  <span className="text-xs text-muted-foreground">نسخة</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              disabled={saveScheduleMutation.isPending}
+              onClick={() => saveScheduleMutation.mutate(schedule)}
+            >
+              {saveScheduleMutation.isPending ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              حفظ الجدولة
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-blue-500" />
+          <Label className="text-sm font-medium">سجل النسخ الاحتياطية</Label>
+        </div>
+
+        {historyLoading ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">
+            جاري التحميل...
+          </div>
+        ) : history.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">
+            لا توجد نسخ احتياطية بعد
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-auto border rounded-md">
+            <table className="w-full text-xs">
+              <thead className="bg-muted sticky top-0">
+                <tr>
+                  <th className="p-2 text-right">التاريخ</th>
+                  <th className="p-2">النوع</th>
+                  <th className="p-2">الحالة</th>
+                  <th className="p-2">الحجم</th>
+                  <th className="p-2">المدة</th>
+                  <th className="p-2">السجلات</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((entry: any) => {
+                  const status = STATUS_LABELS[entry.status] || {
+                    label: entry.status,
+                    variant: "outline" as const,
+                  };
+                  return (
+                    <tr key={entry.id} className="border-t">
+                      <td className="p-2">
+                        {new Date(entry.started_at).toLocaleString("ar")}
+                      </td>
+                      <td className="p-2 text-center">
+                        {TRIGGER_LABELS[entry.trigger] || entry.trigger}
+                      </td>
+                      <td className="p-2 text-center">
+                        <Badge
+                          variant={status.variant}
+                          title={entry.error_message || undefined}
+                        >
+                          {status.label}
+                        </Badge>
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatSize(entry.size_bytes)}
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatDuration(entry.duration_ms)}
+                      </td>
+                      <td className="p-2 text-center">
+                        {entry.total_records?.toLocaleString("ar-SA") ?? "-"}
+                      </td>
+                      <td className="p-2 text-center">
+                        {entry.status === "success" && entry.backup_id && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7"
+                            disabled={restoreBackupMutation.isPending}
+                            onClick={() => handleRestore(entry)}
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            استعادة
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
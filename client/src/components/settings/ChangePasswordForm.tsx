@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+
+interface SecurityPolicy {
+  password: {
+    min_length: number;
+    require_uppercase: boolean;
+    require_lowercase: boolean;
+    require_number: boolean;
+    require_symbol: boolean;
+  };
+}
+
+interface ChangePasswordFormProps {
+  onSuccess?: () => void;
+}
+
+const emptyForm = {
+  current_password: "",
+  new_password: "",
+  confirm_password: "",
+};
+
+export default function ChangePasswordForm({
+  onSuccess,
+}: ChangePasswordFormProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: policy } = useQuery<SecurityPolicy>({
+    queryKey: ["/api/security/policy"],
+  });
+
+  const rules = policy
+    ? [
+        `${policy.password.min_length} أحرف على الأقل`,
+        policy.password.require_uppercase && "حرف إنجليزي كبير",
+        policy.password.require_lowercase && "حرف إنجليزي صغير",
+        policy.password.require_number && "رقم",
+        policy.password.require_symbol && "رمز خاص",
+      ].filter(Boolean)
+    : [];
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/change-password", {
+        method: "POST",
+        body: JSON.stringify({
+          current_password: form.current_password,
+          new_password: form.new_password,
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setForm(emptyForm);
+      toast({
+        title: "تم التحديث",
+        description: "تم تغيير كلمة المرور بنجاح",
+      });
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في تغيير كلمة المرور",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mismatch =
+    form.confirm_password.length > 0 &&
+    form.new_password !== form.confirm_password;
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        changePasswordMutation.mutate();
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="currentPassword">كلمة المرور الحالية</Label>
+        <Input
+          id="currentPassword"
+          type="password"
+          autoComplete="current-password"
+          placeholder="أدخل كلمة المرور الحالية"
+          value={form.current_password}
+          onChange={(e) =>
+            setForm({ ...form, current_password: e.target.value })
+          }
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="newPassword">كلمة المرور الجديدة</Label>
+        <Input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          placeholder="أدخل كلمة المرور الجديدة"
+          value={form.new_password}
+          onChange={(e) => setForm({ ...form, new_password: e.target.value })}
+        />
+        {rules.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            يجب أن تحتوي على: {rules.join("، ")}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">تأكيد كلمة المرور</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          placeholder="أعد إدخال كلمة المرور"
+          value={form.confirm_password}
+          onChange={(e) =>
+            setForm({ ...form, confirm_password: e.target.value })
+          }
+        />
+        {mismatch && (
+          <p className="text-xs text-red-600">كلمتا المرور غير متطابقتين</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="mt-2"
+        disabled={
+          changePasswordMutation.isPending ||
+          !form.current_password ||
+          !form.new_password ||
+          form.new_password !== form.confirm_password
+        }
+        data-testid="button-change-password"
+      >
+        {changePasswordMutation.isPending
+          ? "جاري التحديث..."
+          : "تحديث كلمة المرور"}
+      </Button>
+    </form>
+  );
+}
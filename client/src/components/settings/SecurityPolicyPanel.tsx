@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { KeyRound, Lock, Save } from "lucide-react";
+
+interface SecurityPolicy {
+  password: {
+    min_length: number;
+    require_uppercase: boolean;
+    require_lowercase: boolean;
+    require_number: boolean;
+    require_symbol: boolean;
+  };
+  lockout: {
+    max_attempts_per_user: number;
+    max_attempts_per_ip: number;
+    lockout_minutes: number;
+  };
+}
+
+const PASSWORD_RULES: Array<{
+  key: Exclude<keyof SecurityPolicy["password"], "min_length">;
+  label: string;
+}> = [
+  { key: "require_uppercase", label: "حرف إنجليزي كبير (A-Z)" },
+  { key: "require_lowercase", label: "حرف إنجليزي صغير (a-z)" },
+  { key: "require_number", label: "رقم (0-9)" },
+  { key: "require_symbol", label: "رمز خاص (!@#...)" },
+];
+
+const LOCKOUT_FIELDS: Array<{
+  key: keyof SecurityPolicy["lockout"];
+  label: string;
+}> = [
+  { key: "max_attempts_per_user", label: "المحاولات الفاشلة لكل مستخدم" },
+  { key: "max_attempts_per_ip", label: "المحاولات الفاشلة لكل عنوان IP" },
+  { key: "lockout_minutes", label: "مدة الإيقاف (دقيقة)" },
+];
+
+export default function SecurityPolicyPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [policy, setPolicy] = useState<SecurityPolicy | null>(null);
+
+  const { data: policyData } = useQuery<SecurityPolicy>({
+    queryKey: ["/api/security/policy"],
+  });
+
+  useEffect(() => {
+    if (policyData) setPolicy(policyData);
+  }, [policyData]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (data: SecurityPolicy) => {
+      const response = await apiRequest("/api/security/policy", {
+        method: "PUT",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/security/policy"] });
+      toast({ title: "تم الحفظ", description: "تم حفظ سياسة الأمان" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في الحفظ",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!policy) return null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-blue-500" />
+          <Label className="text-sm font-medium">سياسة كلمات المرور</Label>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">الحد الأدنى للطول</Label>
+            <Input
+              type="number"
+              min={6}
+              max={64}
+              className="h-8"
+              value={policy.password.min_length}
+              onChange={(e) =>
+                setPolicy({
+                  ...policy,
+                  password: {
+                    ...policy.password,
+                    min_length: parseInt(e.target.value) || 0,
+                  },
+                })
+              }
+            />
+          </div>
+          {PASSWORD_RULES.map((rule) => (
+            <div
+              key={rule.key}
+              className="flex items-center justify-between border rounded-md px-3 py-2"
+            >
+              <Label className="text-sm">{rule.label}</Label>
+              <Switch
+                checked={policy.password[rule.key]}
+                onCheckedChange={(checked) =>
+                  setPolicy({
+                    ...policy,
+                    password: { ...policy.password, [rule.key]: checked },
+                  })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Lock className="w-4 h-4 text-red-500" />
+          <Label className="text-sm font-medium">
+            إيقاف تسجيل الدخول بعد المحاولات الفاشلة
+          </Label>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {LOCKOUT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label className="text-xs">{field.label}</Label>
+              <Input
+                type="number"
+                min={1}
+                className="h-8"
+                value={policy.lockout[field.key]}
+                onChange={(e) =>
+                  setPolicy({
+                    ...policy,
+                    lockout: {
+                      ...policy.lockout,
+                      [field.key]: parseInt(e.target.value) || 0,
+                    },
+                  })
+                }
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          يُرفع تحذير أمني في مركز التحذيرات عند إيقاف أي حساب أو عنوان
+        </p>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => savePolicyMutation.mutate(policy)}
+          disabled={savePolicyMutation.isPending}
+        >
+          <Save className="w-4 h-4 ml-2" />
+          {savePolicyMutation.isPending ? "جاري الحفظ..." : "حفظ سياسة الأمان"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { Copy, ShieldCheck, ShieldOff } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+interface TwoFactorPanelProps {
+  // يُستدعى بعد التفعيل وحفظ رموز الاسترداد (مثلاً لإعادة تحميل التطبيق)
+  onEnabled?: () => void;
+}
+
+/**
+ * إعداد التحقق بخطوتين: مسح رمز QR بتطبيق المصادقة ثم تأكيد أول رمز،
+ * وإدارة رموز الاسترداد وإيقاف التحقق
+ */
+export default function TwoFactorPanel({ onEnabled }: TwoFactorPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(
+    null,
+  );
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa/status"],
+  });
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/2fa/setup", { method: "POST" });
+      return response.json() as Promise<TwoFactorEnrollment>;
+    },
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setCode("");
+    },
+    onError: showError("خطأ في بدء الإعداد"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/2fa/enable", {
+        method: "POST",
+        body: JSON.stringify({ code }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(data.recovery_codes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa/status"] });
+      toast({ title: "تم تفعيل التحقق بخطوتين" });
+    },
+    onError: showError("خطأ في التفعيل"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/2fa/disable", {
+        method: "POST",
+        body: JSON.stringify({ password }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa/status"] });
+      toast({ title: "تم إيقاف التحقق بخطوتين" });
+    },
+    onError: showError("خطأ في إيقاف التحقق"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/2fa/recovery-codes", {
+        method: "POST",
+        body: JSON.stringify({ password }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setPassword("");
+      setRecoveryCodes(data.recovery_codes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa/status"] });
+    },
+    onError: showError("خطأ في إنشاء رموز الاسترداد"),
+  });
+
+  if (!status) return null;
+
+  // رموز الاسترداد تُعرض مرة واحدة فقط بعد التفعيل أو إعادة الإنشاء
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">رموز الاسترداد</h4>
+        <p className="text-xs text-muted-foreground">
+          احفظ هذه الرموز في مكان آمن. يمكن استخدام كل رمز مرة واحدة لتسجيل
+          الدخول عند فقدان تطبيق المصادقة، ولن تظهر مرة أخرى.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border rounded-md p-3">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode} dir="ltr" className="text-center">
+              {recoveryCode}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              navigator.clipboard?.writeText(recoveryCodes.join("\n"))
+            }
+          >
+            <Copy className="w-4 h-4 ml-2" />
+            نسخ الرموز
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              setRecoveryCodes(null);
+              onEnabled?.();
+            }}
+            data-testid="button-recovery-codes-saved"
+          >
+            تم حفظ الرموز
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (enrollment) {
+    return (
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">إعداد تطبيق المصادقة</h4>
+        <p className="text-xs text-muted-foreground">
+          امسح الرمز بتطبيق مصادقة (مثل Google Authenticator أو Microsoft
+          Authenticator) ثم أدخل الرمز المكون من 6 أرقام.
+        </p>
+        <div className="flex flex-col items-center gap-2">
+          <img
+            src={enrollment.qr_code}
+            alt="QR"
+            className="w-44 h-44 border rounded-md"
+          />
+          <code dir="ltr" className="text-xs break-all text-gray-600">
+            {enrollment.secret}
+          </code>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder="000000"
+            dir="ltr"
+            className="text-center tracking-widest"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            data-testid="input-2fa-setup-code"
+          />
+          <Button
+            onClick={() => enableMutation.mutate()}
+            disabled={code.length !== 6 || enableMutation.isPending}
+          >
+            تأكيد
+          </Button>
+          <Button variant="ghost" onClick={() => setEnrollment(null)}>
+            إلغاء
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {status.enabled ? (
+            <ShieldCheck className="w-4 h-4 text-green-600" />
+          ) : (
+            <ShieldOff className="w-4 h-4 text-gray-500" />
+          )}
+          <h4 className="text-sm font-medium">التحقق بخطوتين</h4>
+          <Badge variant={status.enabled ? "default" : "secondary"}>
+            {status.enabled ? "مفعّل" : "غير مفعّل"}
+          </Badge>
+          {status.required && <Badge variant="outline">إلزامي لدورك</Badge>}
+        </div>
+        {!status.enabled && (
+          <Button
+            size="sm"
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            data-testid="button-2fa-setup"
+          >
+            تفعيل
+          </Button>
+        )}
+      </div>
+
+      {status.enabled && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            رموز الاسترداد المتبقية: {status.recovery_codes_remaining}
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="twoFactorPassword" className="text-xs">
+              كلمة المرور الحالية (للتأكيد)
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              <Input
+                id="twoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                className="max-w-xs"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!password || regenerateMutation.isPending}
+              >
+                رموز استرداد جديدة
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={!password || disableMutation.isPending}
+                >
+                  إيقاف التحقق بخطوتين
+                </Button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,1606 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useAuth } from "../../hooks/use-auth";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { formatNumber } from "../../lib/formatNumber";
+import { userHasPermission } from "../../utils/roleUtils";
+import ReorderSuggestionsContent from "./ReorderSuggestionsContent";
+import {
+  Ban,
+  CheckCircle,
+  Clock,
+  Edit,
+  Eye,
+  PackageCheck,
+  Plus,
+  ShoppingCart,
+  Trash2,
+  Users,
+} from "lucide-react";
+
+interface Supplier {
+  id: number;
+  name: string;
+  name_ar: string | null;
+  contact: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  lead_time_days: number | null;
+  materials_supplied: string[] | null;
+  is_active: boolean;
+}
+
+interface ItemOption {
+  id: string;
+  name: string;
+  name_ar: string | null;
+}
+
+interface LocationOption {
+  id: string;
+  name: string;
+  name_ar: string | null;
+}
+
+interface PurchaseOrderSummary {
+  id: number;
+  po_number: string;
+  supplier_id: number;
+  supplier_name: string;
+  supplier_name_ar: string | null;
+  status: string;
+  order_date: string;
+  expected_delivery_date: string | null;
+  notes: string | null;
+  created_by_name: string | null;
+  approved_at: string | null;
+  received_at: string | null;
+  total_amount: number;
+  received_amount: number;
+  lines_count: number;
+  pending_lines_count: number;
+  is_overdue: boolean;
+}
+
+interface PurchaseOrderLine {
+  id: number;
+  item_id: string;
+  item_name: string | null;
+  item_name_ar: string | null;
+  quantity: string;
+  received_quantity: string;
+  unit: string;
+  unit_price: string;
+  notes: string | null;
+  remaining_quantity: number;
+}
+
+interface GoodsReceipt {
+  id: number;
+  receipt_number: string;
+  location_name: string | null;
+  supplier_reference: string | null;
+  received_by_name: string | null;
+  received_at: string;
+  lines: Array<{
+    id: number;
+    item_id: string;
+    item_name: string | null;
+    item_name_ar: string | null;
+    quantity: string;
+    unit_cost: string;
+  }>;
+}
+
+interface PurchaseOrderDetails extends PurchaseOrderSummary {
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+}
+
+interface SupplierLeadTimeStats {
+  supplier_id: number;
+  supplier_name: string;
+  supplier_name_ar: string | null;
+  agreed_lead_time_days: number | null;
+  completed_orders: number;
+  avg_lead_time_days: number | null;
+  min_lead_time_days: number | null;
+  max_lead_time_days: number | null;
+  on_time_rate: number | null;
+  open_orders: number;
+  overdue_orders: number;
+}
+
+const STATUS_LABELS: Record<
+  string,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  draft: { label: "مسودة", variant: "outline" },
+  approved: { label: "معتمد", variant: "secondary" },
+  partially_received: { label: "مستلم جزئياً", variant: "secondary" },
+  received: { label: "مستلم بالكامل", variant: "default" },
+  cancelled: { label: "ملغي", variant: "destructive" },
+};
+
+const UNITS = ["كيلو", "قطعة", "رول", "علبة"];
+
+const emptySupplier = {
+  name: "",
+  name_ar: "",
+  contact: "",
+  phone: "",
+  email: "",
+  address: "",
+  lead_time_days: "",
+  materials_supplied: [] as string[],
+  is_active: true,
+};
+
+interface LineForm {
+  item_id: string;
+  quantity: string;
+  unit: string;
+  unit_price: string;
+}
+
+const emptyLine: LineForm = {
+  item_id: "",
+  quantity: "",
+  unit: "كيلو",
+  unit_price: "",
+};
+
+const emptyOrder = {
+  supplier_id: "",
+  order_date: new Date().toISOString().slice(0, 10),
+  expected_delivery_date: "",
+  notes: "",
+  lines: [{ ...emptyLine }] as LineForm[],
+};
+
+const itemLabel = (line: {
+  item_id: string;
+  item_name: string | null;
+  item_name_ar: string | null;
+}) => line.item_name_ar || line.item_name || line.item_id;
+
+function StatusBadge({ status }: { status: string }) {
+  const config = STATUS_LABELS[status] || {
+    label: status,
+    variant: "outline" as const,
+  };
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+}
+
+export default function PurchasingContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canCreate = userHasPermission(user, "create_purchasing");
+  const canUpdate = userHasPermission(user, "update_purchasing");
+  const canDelete = userHasPermission(user, "delete_purchasing");
+  const canApprove = userHasPermission(user, "approve_purchasing");
+  const canReceive = userHasPermission(user, [
+    "create_purchasing",
+    "create_warehouse",
+  ]);
+
+  const [supplierDialog, setSupplierDialog] = useState<{
+    open: boolean;
+    id: number | null;
+  }>({ open: false, id: null });
+  const [supplierForm, setSupplierForm] = useState(emptySupplier);
+
+  const [orderDialog, setOrderDialog] = useState<{
+    open: boolean;
+    id: number | null;
+  }>({ open: false, id: null });
+  const [orderForm, setOrderForm] = useState(emptyOrder);
+
+  const [viewOrderId, setViewOrderId] = useState<number | null>(null);
+  const [receiveOrderId, setReceiveOrderId] = useState<number | null>(null);
+  const [receiveLocation, setReceiveLocation] = useState("");
+  const [supplierReference, setSupplierReference] = useState("");
+  const [receiveNotes, setReceiveNotes] = useState("");
+  const [receiveQuantities, setReceiveQuantities] = useState<
+    Record<number, string>
+  >({});
+  const [receiveCosts, setReceiveCosts] = useState<Record<number, string>>({});
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+  const { data: purchaseOrders = [], isLoading } = useQuery<
+    PurchaseOrderSummary[]
+  >({
+    queryKey: ["/api/purchase-orders"],
+  });
+  const { data: openOrders = [] } = useQuery<PurchaseOrderSummary[]>({
+    queryKey: ["/api/purchase-orders", { status: "open" }],
+  });
+  const { data: leadTimes = [] } = useQuery<SupplierLeadTimeStats[]>({
+    queryKey: ["/api/purchasing/lead-times"],
+  });
+  const { data: itemOptions = [] } = useQuery<ItemOption[]>({
+    queryKey: ["/api/items"],
+  });
+  const { data: locations = [] } = useQuery<LocationOption[]>({
+    queryKey: ["/api/locations"],
+    enabled: receiveOrderId !== null,
+  });
+  const { data: viewedOrder } = useQuery<PurchaseOrderDetails>({
+    queryKey: ["/api/purchase-orders", viewOrderId],
+    enabled: viewOrderId !== null,
+  });
+  const { data: receivingOrder } = useQuery<PurchaseOrderDetails>({
+    queryKey: ["/api/purchase-orders", receiveOrderId],
+    enabled: receiveOrderId !== null,
+  });
+
+  const itemName = (itemId: string) => {
+    const item = itemOptions.find((i) => i.id === itemId);
+    return item ? item.name_ar || item.name : itemId;
+  };
+
+  // مواد المورد المعتادة تظهر أولاً في قائمة الأصناف
+  const orderItemOptions = useMemo(() => {
+    const supplier = suppliers.find(
+      (s) => String(s.id) === orderForm.supplier_id,
+    );
+    const supplied = new Set(supplier?.materials_supplied || []);
+    return [...itemOptions].sort(
+      (a, b) => Number(supplied.has(b.id)) - Number(supplied.has(a.id)),
+    );
+  }, [itemOptions, suppliers, orderForm.supplier_id]);
+
+  const invalidatePurchasing = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/purchasing/lead-times"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/goods-receipts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // ===== الموردين =====
+
+  const openSupplierDialog = (supplier?: Supplier) => {
+    setSupplierForm(
+      supplier
+        ? {
+            name: supplier.name,
+            name_ar: supplier.name_ar || "",
+            contact: supplier.contact || "",
+            phone: supplier.phone || "",
+            email: supplier.email || "",
+            address: supplier.address || "",
+            lead_time_days:
+              supplier.lead_time_days === null
+                ? ""
+                : String(supplier.lead_time_days),
+            materials_supplied: supplier.materials_supplied || [],
+            is_active: supplier.is_active,
+          }
+        : emptySupplier,
+    );
+    setSupplierDialog({ open: true, id: supplier?.id ?? null });
+  };
+
+  const saveSupplierMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        supplierDialog.id
+          ? `/api/suppliers/${supplierDialog.id}`
+          : "/api/suppliers",
+        {
+          method: supplierDialog.id ? "PUT" : "POST",
+          body: JSON.stringify({
+            ...supplierForm,
+            name_ar: supplierForm.name_ar || null,
+            contact: supplierForm.contact || null,
+            phone: supplierForm.phone || null,
+            email: supplierForm.email || null,
+            address: supplierForm.address || null,
+            lead_time_days:
+              supplierForm.lead_time_days === ""
+                ? null
+                : parseInt(supplierForm.lead_time_days),
+          }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({ title: "تم الحفظ", description: "تم حفظ بيانات المورد" });
+      setSupplierDialog({ open: false, id: null });
+    },
+    onError,
+  });
+
+  const deleteSupplierMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/suppliers/${id}`, {
+        method: "DELETE",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({ title: "تم الحذف", description: "تم حذف المورد" });
+    },
+    onError,
+  });
+
+  const toggleSuppliedItem = (itemId: string, checked: boolean) => {
+    setSupplierForm({
+      ...supplierForm,
+      materials_supplied: checked
+        ? [...supplierForm.materials_supplied, itemId]
+        : supplierForm.materials_supplied.filter((id) => id !== itemId),
+    });
+  };
+
+  // ===== أوامر الشراء =====
+
+  const openOrderDialog = async (purchaseOrderId?: number) => {
+    if (!purchaseOrderId) {
+      setOrderForm({
+        ...emptyOrder,
+        order_date: new Date().toISOString().slice(0, 10),
+        lines: [{ ...emptyLine }],
+      });
+      setOrderDialog({ open: true, id: null });
+      return;
+    }
+    try {
+      const response = await apiRequest(
+        `/api/purchase-orders/${purchaseOrderId}`,
+      );
+      const details: PurchaseOrderDetails = await response.json();
+      setOrderForm({
+        supplier_id: String(details.supplier_id),
+        order_date: details.order_date,
+        expected_delivery_date: details.expected_delivery_date || "",
+        notes: details.notes || "",
+        lines: details.lines.map((line) => ({
+          item_id: line.item_id,
+          quantity: line.quantity,
+          unit: line.unit,
+          unit_price: line.unit_price,
+        })),
+      });
+      setOrderDialog({ open: true, id: purchaseOrderId });
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setOrderForm({
+      ...orderForm,
+      lines: orderForm.lines.map((line, i) =>
+        i === index ? { ...line, ...changes } : line,
+      ),
+    });
+  };
+
+  const orderTotal = orderForm.lines.reduce(
+    (total, line) =>
+      total + (parseFloat(line.quantity) || 0) * (parseFloat(line.unit_price) || 0),
+    0,
+  );
+
+  const saveOrderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        orderDialog.id
+          ? `/api/purchase-orders/${orderDialog.id}`
+          : "/api/purchase-orders",
+        {
+          method: orderDialog.id ? "PUT" : "POST",
+          body: JSON.stringify({
+            supplier_id: parseInt(orderForm.supplier_id),
+            order_date: orderForm.order_date,
+            // يُحسب من مدة توريد المورد إذا ترك فارغاً
+            expected_delivery_date: orderForm.expected_delivery_date || null,
+            notes: orderForm.notes || null,
+            lines: orderForm.lines
+              .filter((line) => line.item_id)
+              .map((line) => ({
+                item_id: line.item_id,
+                quantity: parseFloat(line.quantity),
+                unit: line.unit,
+                unit_price: parseFloat(line.unit_price) || 0,
+              })),
+          }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: (purchaseOrder: PurchaseOrderDetails) => {
+      invalidatePurchasing();
+      toast({
+        title: "تم الحفظ",
+        description: `تم حفظ أمر الشراء ${purchaseOrder.po_number}`,
+      });
+      setOrderDialog({ open: false, id: null });
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({
+      id,
+      action,
+    }: {
+      id: number;
+      action: "approve" | "cancel";
+    }) => {
+      const response = await apiRequest(`/api/purchase-orders/${id}/${action}`, {
+        method: "POST",
+      });
+      return response.json();
+    },
+    onSuccess: (_result, { action }) => {
+      invalidatePurchasing();
+      toast({
+        title: action === "approve" ? "تم الاعتماد" : "تم الإلغاء",
+        description:
+          action === "approve" ? "تم اعتماد أمر الشراء" : "تم إلغاء أمر الشراء",
+      });
+    },
+    onError,
+  });
+
+  const handleCancelOrder = (purchaseOrder: PurchaseOrderSummary) => {
+    const message =
+      purchaseOrder.status === "partially_received"
+        ? `هل تريد إلغاء الكمية المتبقية من أمر الشراء ${purchaseOrder.po_number}؟ الكميات المستلمة تبقى في المخزون.`
+        : `هل تريد إلغاء أمر الشراء ${purchaseOrder.po_number}؟`;
+    if (confirm(message)) {
+      statusMutation.mutate({ id: purchaseOrder.id, action: "cancel" });
+    }
+  };
+
+  // ===== استلام البضاعة =====
+
+  const openReceiveDialog = (purchaseOrderId: number) => {
+    setReceiveOrderId(purchaseOrderId);
+    setReceiveLocation("");
+    setSupplierReference("");
+    setReceiveNotes("");
+    setReceiveQuantities({});
+    setReceiveCosts({});
+  };
+
+  const receiptLines = (receivingOrder?.lines || [])
+    .map((line) => {
+      const quantity = parseFloat(
+        receiveQuantities[line.id] ?? String(line.remaining_quantity),
+      );
+      const unitCost = parseFloat(receiveCosts[line.id] ?? line.unit_price);
+      return {
+        purchase_order_line_id: line.id,
+        quantity,
+        unit_cost: Number.isFinite(unitCost) ? unitCost : undefined,
+      };
+    })
+    .filter((line) => Number.isFinite(line.quantity) && line.quantity > 0);
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        `/api/purchase-orders/${receiveOrderId}/receive`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            location_id: receiveLocation,
+            supplier_reference: supplierReference || null,
+            notes: receiveNotes || null,
+            lines: receiptLines,
+          }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: (receipt: GoodsReceipt) => {
+      invalidatePurchasing();
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory-movements"] });
+      toast({
+        title: "تم الاستلام",
+        description: `تم تسجيل سند الاستلام ${receipt.receipt_number} وتحديث المخزون`,
+      });
+      setReceiveOrderId(null);
+    },
+    onError,
+  });
+
+  const renderOrderActions = (purchaseOrder: PurchaseOrderSummary) => (
+    <td className="px-4 py-2 whitespace-nowrap">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setViewOrderId(purchaseOrder.id)}
+        title="عرض التفاصيل"
+      >
+        <Eye className="w-4 h-4" />
+      </Button>
+      {purchaseOrder.status === "draft" && canUpdate && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => openOrderDialog(purchaseOrder.id)}
+          title="تعديل"
+        >
+          <Edit className="w-4 h-4" />
+        </Button>
+      )}
+      {purchaseOrder.status === "draft" && canApprove && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            statusMutation.mutate({ id: purchaseOrder.id, action: "approve" })
+          }
+          disabled={statusMutation.isPending}
+          title="اعتماد"
+          data-testid={`button-approve-po-${purchaseOrder.id}`}
+        >
+          <CheckCircle className="w-4 h-4 text-green-600" />
+        </Button>
+      )}
+      {["approved", "partially_received"].includes(purchaseOrder.status) &&
+        canReceive && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openReceiveDialog(purchaseOrder.id)}
+            title="استلام بضاعة"
+            data-testid={`button-receive-po-${purchaseOrder.id}`}
+          >
+            <PackageCheck className="w-4 h-4 text-blue-600" />
+          </Button>
+        )}
+      {["draft", "approved", "partially_received"].includes(
+        purchaseOrder.status,
+      ) &&
+        canUpdate && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleCancelOrder(purchaseOrder)}
+            disabled={statusMutation.isPending}
+            title="إلغاء"
+          >
+            <Ban className="w-4 h-4 text-red-500" />
+          </Button>
+        )}
+    </td>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="orders" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="orders">أوامر الشراء</TabsTrigger>
+          <TabsTrigger value="open">
+            بانتظار الاستلام
+            {openOrders.some((o) => o.is_overdue) && (
+              <Badge variant="destructive" className="mr-2">
+                {openOrders.filter((o) => o.is_overdue).length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="reorder">إعادة الطلب</TabsTrigger>
+          <TabsTrigger value="suppliers">الموردين</TabsTrigger>
+          <TabsTrigger value="lead-times">مدة التوريد</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <ShoppingCart className="w-5 h-5" />
+                  أوامر الشراء
+                </CardTitle>
+                {canCreate && (
+                  <Button
+                    onClick={() => openOrderDialog()}
+                    data-testid="button-new-purchase-order"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    أمر شراء جديد
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  جاري التحميل...
+                </div>
+              ) : purchaseOrders.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  لا توجد أوامر شراء
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          رقم الأمر
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          المورد
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          تاريخ الطلب
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          التسليم المتوقع
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          القيمة
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          الحالة
+                        </th>
+                        <th className="px-4 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {purchaseOrders.map((purchaseOrder) => (
+                        <tr key={purchaseOrder.id}>
+                          <td className="px-4 py-2 text-sm font-medium">
+                            {purchaseOrder.po_number}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {purchaseOrder.supplier_name_ar ||
+                              purchaseOrder.supplier_name}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500">
+                            {purchaseOrder.order_date}
+                          </td>
+                          <td
+                            className={`px-4 py-2 text-sm ${purchaseOrder.is_overdue ? "text-red-600 font-medium" : "text-gray-500"}`}
+                          >
+                            {purchaseOrder.expected_delivery_date || "-"}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {formatNumber(purchaseOrder.total_amount)}
+                          </td>
+                          <td className="px-4 py-2">
+                            <StatusBadge status={purchaseOrder.status} />
+                          </td>
+                          {renderOrderActions(purchaseOrder)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="open">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-5 h-5" />
+                أوامر الشراء بانتظار الاستلام
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {openOrders.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  لا توجد أوامر شراء مفتوحة
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          رقم الأمر
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          المورد
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          التسليم المتوقع
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          البنود المتبقية
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          المستلم / القيمة
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          الحالة
+                        </th>
+                        <th className="px-4 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {openOrders.map((purchaseOrder) => (
+                        <tr
+                          key={purchaseOrder.id}
+                          className={purchaseOrder.is_overdue ? "bg-red-50" : ""}
+                        >
+                          <td className="px-4 py-2 text-sm font-medium">
+                            {purchaseOrder.po_number}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {purchaseOrder.supplier_name_ar ||
+                              purchaseOrder.supplier_name}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {purchaseOrder.expected_delivery_date || "-"}
+                            {purchaseOrder.is_overdue && (
+                              <Badge variant="destructive" className="mr-2">
+                                متأخر
+                              </Badge>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {purchaseOrder.pending_lines_count} من{" "}
+                            {purchaseOrder.lines_count}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {formatNumber(purchaseOrder.received_amount)} /{" "}
+                            {formatNumber(purchaseOrder.total_amount)}
+                          </td>
+                          <td className="px-4 py-2">
+                            <StatusBadge status={purchaseOrder.status} />
+                          </td>
+                          {renderOrderActions(purchaseOrder)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reorder">
+          <ReorderSuggestionsContent />
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="w-5 h-5" />
+                  الموردين
+                </CardTitle>
+                {canCreate && (
+                  <Button
+                    onClick={() => openSupplierDialog()}
+                    data-testid="button-new-supplier"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    مورد جديد
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {suppliers.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  لا يوجد موردين
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          المورد
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          جهة الاتصال
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          مدة التوريد (يوم)
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          المواد الموردة
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          الحالة
+                        </th>
+                        <th className="px-4 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {suppliers.map((supplier) => (
+                        <tr key={supplier.id}>
+                          <td className="px-4 py-2 text-sm font-medium">
+                            {supplier.name_ar || supplier.name}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500">
+                            {[supplier.contact, supplier.phone, supplier.email]
+                              .filter(Boolean)
+                              .join(" - ") || "-"}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {supplier.lead_time_days ?? "-"}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500">
+                            {(supplier.materials_supplied || [])
+                              .map(itemName)
+                              .join("، ") || "-"}
+                          </td>
+                          <td className="px-4 py-2">
+                            <Badge
+                              variant={supplier.is_active ? "default" : "outline"}
+                            >
+                              {supplier.is_active ? "نشط" : "موقوف"}
+                            </Badge>
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap">
+                            {canUpdate && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openSupplierDialog(supplier)}
+                                title="تعديل"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canDelete && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  if (
+                                    confirm(
+                                      `هل تريد حذف المورد ${supplier.name_ar || supplier.name}؟`,
+                                    )
+                                  ) {
+                                    deleteSupplierMutation.mutate(supplier.id);
+                                  }
+                                }}
+                                disabled={deleteSupplierMutation.isPending}
+                                title="حذف"
+                              >
+                                <Trash2 className="w-4 h-4 text-red-500" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="lead-times">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-5 h-5" />
+                إحصائيات مدة التوريد
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {leadTimes.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  لا توجد أوامر شراء لحساب مدة التوريد
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          المورد
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          المدة المتفق عليها
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          متوسط المدة الفعلية
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          أقل / أعلى
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          الأوامر المكتملة
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          الالتزام بالموعد
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                          مفتوحة / متأخرة
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {leadTimes.map((stats) => (
+                        <tr key={stats.supplier_id}>
+                          <td className="px-4 py-2 text-sm font-medium">
+                            {stats.supplier_name_ar || stats.supplier_name}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {stats.agreed_lead_time_days ?? "-"}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {stats.avg_lead_time_days === null
+                              ? "-"
+                              : `${stats.avg_lead_time_days} يوم`}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500">
+                            {stats.min_lead_time_days === null
+                              ? "-"
+                              : `${stats.min_lead_time_days} / ${stats.max_lead_time_days}`}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {stats.completed_orders}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {stats.on_time_rate === null
+                              ? "-"
+                              : `${stats.on_time_rate}%`}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {stats.open_orders} /{" "}
+                            <span
+                              className={
+                                stats.overdue_orders > 0
+                                  ? "text-red-600 font-medium"
+                                  : ""
+                              }
+                            >
+                              {stats.overdue_orders}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* محرر المورد */}
+      <Dialog
+        open={supplierDialog.open}
+        onOpenChange={(open) => {
+          if (!open) setSupplierDialog({ open: false, id: null });
+        }}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {supplierDialog.id ? "تعديل المورد" : "مورد جديد"}
+            </DialogTitle>
+            <DialogDescription>
+              بيانات المورد ومدة التوريد المتفق عليها والمواد التي يوردها
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>الاسم *</Label>
+                <Input
+                  value={supplierForm.name}
+                  onChange={(e) =>
+                    setSupplierForm({ ...supplierForm, name: e.target.value })
+                  }
+                  data-testid="input-supplier-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>الاسم بالعربية</Label>
+                <Input
+                  value={supplierForm.name_ar}
+                  onChange={(e) =>
+                    setSupplierForm({ ...supplierForm, name_ar: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>جهة الاتصال</Label>
+                <Input
+                  value={supplierForm.contact}
+                  onChange={(e) =>
+                    setSupplierForm({ ...supplierForm, contact: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>الهاتف</Label>
+                <Input
+                  value={supplierForm.phone}
+                  onChange={(e) =>
+                    setSupplierForm({ ...supplierForm, phone: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>البريد الإلكتروني</Label>
+                <Input
+                  type="email"
+                  value={supplierForm.email}
+                  onChange={(e) =>
+                    setSupplierForm({ ...supplierForm, email: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>مدة التوريد (يوم)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={supplierForm.lead_time_days}
+                  onChange={(e) =>
+                    setSupplierForm({
+                      ...supplierForm,
+                      lead_time_days: e.target.value,
+                    })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>العنوان</Label>
+              <Input
+                value={supplierForm.address}
+                onChange={(e) =>
+                  setSupplierForm({ ...supplierForm, address: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>المواد الموردة</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border rounded-md p-2">
+                {itemOptions.map((item) => (
+                  <label
+                    key={item.id}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={supplierForm.materials_supplied.includes(item.id)}
+                      onCheckedChange={(checked) =>
+                        toggleSuppliedItem(item.id, checked === true)
+                      }
+                    />
+                    {item.name_ar || item.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={supplierForm.is_active}
+                onCheckedChange={(checked) =>
+                  setSupplierForm({
+                    ...supplierForm,
+                    is_active: checked === true,
+                  })
+                }
+              />
+              مورد نشط
+            </label>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setSupplierDialog({ open: false, id: null })}
+              >
+                إلغاء
+              </Button>
+              <Button
+                onClick={() => saveSupplierMutation.mutate()}
+                disabled={
+                  saveSupplierMutation.isPending || !supplierForm.name.trim()
+                }
+                data-testid="button-save-supplier"
+              >
+                {saveSupplierMutation.isPending ? "جاري الحفظ..." : "حفظ"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* محرر أمر الشراء */}
+      <Dialog
+        open={orderDialog.open}
+        onOpenChange={(open) => {
+          if (!open) setOrderDialog({ open: false, id: null });
+        }}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {orderDialog.id ? "تعديل أمر الشراء" : "أمر شراء جديد"}
+            </DialogTitle>
+            <DialogDescription>
+              أمر الشراء يحفظ كمسودة ويحتاج إلى اعتماد قبل استلام البضاعة
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>المورد *</Label>
+                <Select
+                  value={orderForm.supplier_id}
+                  onValueChange={(value) =>
+                    setOrderForm({ ...orderForm, supplier_id: value })
+                  }
+                >
+                  <SelectTrigger data-testid="select-po-supplier">
+                    <SelectValue placeholder="اختر المورد" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers
+                      .filter(
+                        (s) =>
+                          s.is_active ||
+                          String(s.id) === orderForm.supplier_id,
+                      )
+                      .map((supplier) => (
+                        <SelectItem key={supplier.id} value={String(supplier.id)}>
+                          {supplier.name_ar || supplier.name}
+                          {supplier.lead_time_days !== null
+                            ? ` (${supplier.lead_time_days} يوم)`
+                            : ""}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>تاريخ الطلب</Label>
+                <Input
+                  type="date"
+                  value={orderForm.order_date}
+                  onChange={(e) =>
+                    setOrderForm({ ...orderForm, order_date: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>تاريخ التسليم المتوقع</Label>
+                <Input
+                  type="date"
+                  value={orderForm.expected_delivery_date}
+                  onChange={(e) =>
+                    setOrderForm({
+                      ...orderForm,
+                      expected_delivery_date: e.target.value,
+                    })
+                  }
+                />
+                <p className="text-xs text-gray-500">
+                  يُحسب من مدة توريد المورد إذا ترك فارغاً
+                </p>
+              </div>
+            </div>
+
+            <table className="w-full text-sm border rounded-md">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="p-2 text-right">الصنف</th>
+                  <th className="p-2">الكمية</th>
+                  <th className="p-2">الوحدة</th>
+                  <th className="p-2">سعر الوحدة</th>
+                  <th className="p-2">الإجمالي</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {orderForm.lines.map((line, index) => (
+                  <tr key={index} className="border-t">
+                    <td className="p-2 min-w-[200px]">
+                      <Select
+                        value={line.item_id}
+                        onValueChange={(value) =>
+                          updateLine(index, { item_id: value })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="اختر الصنف" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {orderItemOptions.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.name_ar || item.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.quantity}
+                        onChange={(e) =>
+                          updateLine(index, { quantity: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Select
+                        value={line.unit}
+                        onValueChange={(value) =>
+                          updateLine(index, { unit: value })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {UNITS.map((unit) => (
+                            <SelectItem key={unit} value={unit}>
+                              {unit}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        value={line.unit_price}
+                        onChange={(e) =>
+                          updateLine(index, { unit_price: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td className="p-2 text-center">
+                      {formatNumber(
+                        (parseFloat(line.quantity) || 0) *
+                          (parseFloat(line.unit_price) || 0),
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setOrderForm({
+                            ...orderForm,
+                            lines: orderForm.lines.filter((_, i) => i !== index),
+                          })
+                        }
+                        disabled={orderForm.lines.length === 1}
+                        title="حذف البند"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setOrderForm({
+                    ...orderForm,
+                    lines: [...orderForm.lines, { ...emptyLine }],
+                  })
+                }
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                إضافة بند
+              </Button>
+              <span className="text-sm font-medium">
+                إجمالي أمر الشراء: {formatNumber(orderTotal)}
+              </span>
+            </div>
+
+            <div className="space-y-1">
+              <Label>ملاحظات</Label>
+              <Textarea
+                value={orderForm.notes}
+                onChange={(e) =>
+                  setOrderForm({ ...orderForm, notes: e.target.value })
+                }
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setOrderDialog({ open: false, id: null })}
+              >
+                إلغاء
+              </Button>
+              <Button
+                onClick={() => saveOrderMutation.mutate()}
+                disabled={
+                  saveOrderMutation.isPending ||
+                  !orderForm.supplier_id ||
+                  !orderForm.lines.some(
+                    (line) => line.item_id && parseFloat(line.quantity) > 0,
+                  )
+                }
+                data-testid="button-save-purchase-order"
+              >
+                {saveOrderMutation.isPending ? "جاري الحفظ..." : "حفظ كمسودة"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* تفاصيل أمر الشراء وسندات الاستلام */}
+      <Dialog
+        open={viewOrderId !== null}
+        onOpenChange={(open) => {
+          if (!open) setViewOrderId(null);
+        }}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>أمر الشراء {viewedOrder?.po_number}</DialogTitle>
+            <DialogDescription>
+              {viewedOrder
+                ? `${viewedOrder.supplier_name_ar || viewedOrder.supplier_name} - التسليم المتوقع: ${viewedOrder.expected_delivery_date || "غير محدد"}`
+                : "جاري التحميل..."}
+            </DialogDescription>
+          </DialogHeader>
+          {viewedOrder && (
+            <div className="space-y-4">
+              <table className="w-full text-sm border rounded-md">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="p-2 text-right">الصنف</th>
+                    <th className="p-2">المطلوب</th>
+                    <th className="p-2">المستلم</th>
+                    <th className="p-2">المتبقي</th>
+                    <th className="p-2">سعر الوحدة</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {viewedOrder.lines.map((line) => (
+                    <tr key={line.id} className="border-t">
+                      <td className="p-2">{itemLabel(line)}</td>
+                      <td className="p-2 text-center">
+                        {formatNumber(parseFloat(line.quantity))} {line.unit}
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatNumber(parseFloat(line.received_quantity))}
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatNumber(line.remaining_quantity)}
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatNumber(parseFloat(line.unit_price))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">سندات الاستلام</h4>
+                {viewedOrder.receipts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    لم يتم استلام أي كمية بعد
+                  </p>
+                ) : (
+                  viewedOrder.receipts.map((receipt) => (
+                    <div key={receipt.id} className="border rounded-md p-2">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium">
+                          {receipt.receipt_number}
+                          {receipt.supplier_reference
+                            ? ` (${receipt.supplier_reference})`
+                            : ""}
+                        </span>
+                        <span className="text-gray-500">
+                          {receipt.location_name} -{" "}
+                          {new Date(receipt.received_at).toLocaleString("ar")}
+                          {receipt.received_by_name
+                            ? ` - ${receipt.received_by_name}`
+                            : ""}
+                        </span>
+                      </div>
+                      <ul className="text-xs text-gray-600 mt-1">
+                        {receipt.lines.map((line) => (
+                          <li key={line.id}>
+                            {itemLabel(line)}:{" "}
+                            {formatNumber(parseFloat(line.quantity))} ×{" "}
+                            {formatNumber(parseFloat(line.unit_cost))}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* استلام البضاعة */}
+      <Dialog
+        open={receiveOrderId !== null}
+        onOpenChange={(open) => {
+          if (!open) setReceiveOrderId(null);
+        }}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              استلام بضاعة - أمر الشراء {receivingOrder?.po_number}
+            </DialogTitle>
+            <DialogDescription>
+              تُضاف الكميات المستلمة إلى المخزون ويُحدّث متوسط تكلفة الصنف
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>موقع الاستلام *</Label>
+                <Select
+                  value={receiveLocation}
+                  onValueChange={setReceiveLocation}
+                >
+                  <SelectTrigger data-testid="select-receipt-location">
+                    <SelectValue placeholder="اختر الموقع" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name_ar || location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>رقم فاتورة / إشعار المورد</Label>
+                <Input
+                  value={supplierReference}
+                  onChange={(e) => setSupplierReference(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {receivingOrder && (
+              <table className="w-full text-sm border rounded-md">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="p-2 text-right">الصنف</th>
+                    <th className="p-2">المتبقي</th>
+                    <th className="p-2">الكمية المستلمة</th>
+                    <th className="p-2">تكلفة الوحدة</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {receivingOrder.lines.map((line) => (
+                    <tr key={line.id} className="border-t">
+                      <td className="p-2">{itemLabel(line)}</td>
+                      <td className="p-2 text-center">
+                        {formatNumber(line.remaining_quantity)} {line.unit}
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={line.remaining_quantity}
+                          disabled={line.remaining_quantity <= 0}
+                          value={
+                            receiveQuantities[line.id] ??
+                            String(line.remaining_quantity)
+                          }
+                          onChange={(e) =>
+                            setReceiveQuantities({
+                              ...receiveQuantities,
+                              [line.id]: e.target.value,
+                            })
+                          }
+                          data-testid={`input-receive-qty-${line.id}`}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.0001"
+                          min="0"
+                          disabled={line.remaining_quantity <= 0}
+                          value={receiveCosts[line.id] ?? line.unit_price}
+                          onChange={(e) =>
+                            setReceiveCosts({
+                              ...receiveCosts,
+                              [line.id]: e.target.value,
+                            })
+                          }
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="space-y-1">
+              <Label>ملاحظات</Label>
+              <Textarea
+                value={receiveNotes}
+                onChange={(e) => setReceiveNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setReceiveOrderId(null)}>
+                إلغاء
+              </Button>
+              <Button
+                onClick={() => receiveMutation.mutate()}
+                disabled={
+                  receiveMutation.isPending ||
+                  !receiveLocation ||
+                  receiptLines.length === 0
+                }
+                data-testid="button-confirm-receipt"
+              >
+                {receiveMutation.isPending ? "جاري الحفظ..." : "تأكيد الاستلام"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
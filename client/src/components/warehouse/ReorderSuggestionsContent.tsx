@@ -0,0 +1,493 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useAuth } from "../../hooks/use-auth";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { formatNumber } from "../../lib/formatNumber";
+import { userHasPermission } from "../../utils/roleUtils";
+import { Download, RefreshCw, ShoppingCart } from "lucide-react";
+
+interface ReorderSuggestion {
+  key: string;
+  source: "inventory" | "consumable";
+  item_id: string | null;
+  code: string | null;
+  name: string;
+  unit: string;
+  current_stock: number;
+  min_stock: number;
+  max_stock: number;
+  open_purchase_quantity: number;
+  avg_daily_consumption: number;
+  days_of_cover: number | null;
+  lead_time_days: number;
+  projected_stock: number;
+  suggested_quantity: number;
+  supplier_id: number | null;
+  supplier_name: string | null;
+  unit_price: number | null;
+  estimated_cost: number | null;
+  urgency: "critical" | "high" | "normal";
+  can_convert: boolean;
+}
+
+interface ReorderList {
+  generated_at: string;
+  lookback_days: number;
+  suggestions: ReorderSuggestion[];
+  total_estimated_cost: number;
+}
+
+interface SupplierOption {
+  id: number;
+  name: string;
+  name_ar: string | null;
+  is_active: boolean;
+}
+
+// تعديلات المراجع على الاقتراح قبل التحويل لأمر شراء
+interface LineReview {
+  selected: boolean;
+  quantity?: string;
+  supplier_id?: string;
+  unit_price?: string;
+}
+
+const URGENCY_BADGES: Record<
+  ReorderSuggestion["urgency"],
+  { label: string; variant: "destructive" | "secondary" | "outline" }
+> = {
+  critical: { label: "حرج", variant: "destructive" },
+  high: { label: "تحت الحد الأدنى", variant: "secondary" },
+  normal: { label: "نقطة إعادة الطلب", variant: "outline" },
+};
+
+const LOOKBACK_OPTIONS = [30, 60, 90, 180, 365];
+
+export default function ReorderSuggestionsContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canConvert = userHasPermission(user, "create_purchasing");
+  const canExport = userHasPermission(user, "export_purchasing");
+
+  const [lookbackDays, setLookbackDays] = useState("90");
+  const [reviews, setReviews] = useState<Record<string, LineReview>>({});
+
+  const {
+    data: reorderList,
+    isLoading,
+    isFetching,
+    refetch,
+  } = useQuery<ReorderList>({
+    queryKey: ["/api/purchasing/reorder-suggestions", { days: lookbackDays }],
+  });
+  const { data: suppliers = [] } = useQuery<SupplierOption[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const suggestions = reorderList?.suggestions || [];
+
+  const reviewed = (suggestion: ReorderSuggestion) => {
+    const review = reviews[suggestion.key];
+    return {
+      selected: review?.selected ?? false,
+      quantity: review?.quantity ?? String(suggestion.suggested_quantity),
+      supplier_id:
+        review?.supplier_id ??
+        (suggestion.supplier_id ? String(suggestion.supplier_id) : ""),
+      unit_price:
+        review?.unit_price ??
+        (suggestion.unit_price === null ? "" : String(suggestion.unit_price)),
+    };
+  };
+
+  const updateReview = (key: string, changes: Partial<LineReview>) => {
+    setReviews({
+      ...reviews,
+      [key]: {
+        ...reviews[key],
+        ...changes,
+        selected: changes.selected ?? reviews[key]?.selected ?? false,
+      },
+    });
+  };
+
+  const convertible = suggestions.filter((s) => s.can_convert);
+  const selectedLines = convertible
+    .map((suggestion) => ({ suggestion, review: reviewed(suggestion) }))
+    .filter(({ review }) => review.selected);
+  const missingSupplier = selectedLines.some(
+    ({ review }) => !review.supplier_id,
+  );
+
+  const selectedCost = selectedLines.reduce(
+    (total, { review }) =>
+      total +
+      (parseFloat(review.quantity) || 0) * (parseFloat(review.unit_price) || 0),
+    0,
+  );
+
+  const toggleAll = (checked: boolean) => {
+    const next = { ...reviews };
+    for (const suggestion of convertible) {
+      next[suggestion.key] = { ...next[suggestion.key], selected: checked };
+    }
+    setReviews(next);
+  };
+
+  const convertMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        "/api/purchasing/reorder-suggestions/convert",
+        {
+          method: "POST",
+          body: JSON.stringify({
+            lines: selectedLines.map(({ suggestion, review }) => ({
+              item_id: suggestion.item_id,
+              supplier_id: parseInt(review.supplier_id),
+              quantity: parseFloat(review.quantity),
+              unit: suggestion.unit,
+              unit_price: parseFloat(review.unit_price) || 0,
+            })),
+          }),
+        },
+      );
+      return response.json();
+    },
+    onSuccess: (purchaseOrders: Array<{ po_number: string }>) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/purchasing/reorder-suggestions"],
+      });
+      setReviews({});
+      toast({
+        title: "تم إنشاء أوامر الشراء",
+        description: `${purchaseOrders.map((po) => po.po_number).join("، ")} - بحالة مسودة بانتظار الاعتماد`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: "csv" | "xlsx") => {
+      const response = await apiRequest(
+        `/api/purchasing/reorder-suggestions/export?format=${format}&days=${lookbackDays}`,
+      );
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `reorder-list.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "خطأ في تصدير قائمة إعادة الطلب",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingCart className="w-5 h-5" />
+            اقتراحات إعادة الطلب
+          </CardTitle>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">متوسط الاستهلاك لآخر</Label>
+              <Select value={lookbackDays} onValueChange={setLookbackDays}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOOKBACK_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days} يوم
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetch()}
+              disabled={isFetching}
+              title="إعادة الحساب"
+            >
+              <RefreshCw
+                className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`}
+              />
+            </Button>
+            {canExport && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportMutation.mutate("csv")}
+                  disabled={exportMutation.isPending || suggestions.length === 0}
+                  data-testid="button-export-reorder-csv"
+                >
+                  <Download className="w-4 h-4 ml-2" />
+                  CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportMutation.mutate("xlsx")}
+                  disabled={exportMutation.isPending || suggestions.length === 0}
+                  data-testid="button-export-reorder-xlsx"
+                >
+                  <Download className="w-4 h-4 ml-2" />
+                  Excel
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          الكمية المقترحة ترفع الرصيد المتوقع عند وصول الطلبية إلى الحد الأقصى،
+          مع احتساب أوامر الشراء المفتوحة ومتوسط الاستهلاك ومدة توريد المورد
+        </p>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            جاري الحساب...
+          </div>
+        ) : suggestions.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            لا توجد أصناف تحتاج إلى إعادة طلب
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-3">
+                    {canConvert && convertible.length > 0 && (
+                      <Checkbox
+                        checked={
+                          selectedLines.length > 0 &&
+                          selectedLines.length === convertible.length
+                        }
+                        onCheckedChange={(checked) =>
+                          toggleAll(checked === true)
+                        }
+                      />
+                    )}
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    الصنف
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    الرصيد (أدنى / أقصى)
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    مشتريات مفتوحة
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    الاستهلاك اليومي
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    أيام التغطية / التوريد
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    الكمية المقترحة
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    المورد
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    سعر الوحدة
+                  </th>
+                  <th className="px-2 py-3 text-right text-xs font-medium text-gray-500">
+                    الأولوية
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {suggestions.map((suggestion) => {
+                  const review = reviewed(suggestion);
+                  const editable = canConvert && suggestion.can_convert;
+                  return (
+                    <tr key={suggestion.key}>
+                      <td className="px-2 py-2">
+                        {editable && (
+                          <Checkbox
+                            checked={review.selected}
+                            onCheckedChange={(checked) =>
+                              updateReview(suggestion.key, {
+                                selected: checked === true,
+                              })
+                            }
+                            data-testid={`checkbox-reorder-${suggestion.key}`}
+                          />
+                        )}
+                      </td>
+                      <td className="px-2 py-2">
+                        <div className="font-medium">{suggestion.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {suggestion.code || suggestion.item_id}
+                          {suggestion.source === "consumable" &&
+                            " - قطع غيار استهلاكية (تصدير فقط)"}
+                        </div>
+                      </td>
+                      <td className="px-2 py-2">
+                        {formatNumber(suggestion.current_stock)}{" "}
+                        <span className="text-xs text-gray-500">
+                          ({formatNumber(suggestion.min_stock)} /{" "}
+                          {formatNumber(suggestion.max_stock)}){" "}
+                          {suggestion.unit}
+                        </span>
+                      </td>
+                      <td className="px-2 py-2">
+                        {formatNumber(suggestion.open_purchase_quantity)}
+                      </td>
+                      <td className="px-2 py-2">
+                        {formatNumber(suggestion.avg_daily_consumption)}
+                      </td>
+                      <td className="px-2 py-2">
+                        {suggestion.days_of_cover ?? "-"} /{" "}
+                        {suggestion.lead_time_days}
+                      </td>
+                      <td className="px-2 py-2 w-28">
+                        {editable ? (
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={review.quantity}
+                            onChange={(e) =>
+                              updateReview(suggestion.key, {
+                                quantity: e.target.value,
+                              })
+                            }
+                          />
+                        ) : (
+                          formatNumber(suggestion.suggested_quantity)
+                        )}
+                      </td>
+                      <td className="px-2 py-2 min-w-[160px]">
+                        {editable ? (
+                          <Select
+                            value={review.supplier_id}
+                            onValueChange={(value) =>
+                              updateReview(suggestion.key, {
+                                supplier_id: value,
+                              })
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="اختر المورد" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {suppliers
+                                .filter((s) => s.is_active)
+                                .map((supplier) => (
+                                  <SelectItem
+                                    key={supplier.id}
+                                    value={String(supplier.id)}
+                                  >
+                                    {supplier.name_ar || supplier.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          suggestion.supplier_name || "-"
+                        )}
+                      </td>
+                      <td className="px-2 py-2 w-28">
+                        {editable ? (
+                          <Input
+                            type="number"
+                            step="0.0001"
+                            min="0"
+                            value={review.unit_price}
+                            onChange={(e) =>
+                              updateReview(suggestion.key, {
+                                unit_price: e.target.value,
+                              })
+                            }
+                          />
+                        ) : suggestion.unit_price === null ? (
+                          "-"
+                        ) : (
+                          formatNumber(suggestion.unit_price)
+                        )}
+                      </td>
+                      <td className="px-2 py-2">
+                        <Badge
+                          variant={URGENCY_BADGES[suggestion.urgency].variant}
+                        >
+                          {URGENCY_BADGES[suggestion.urgency].label}
+                        </Badge>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canConvert && suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4">
+            <span className="text-sm text-gray-600">
+              {selectedLines.length} صنف محدد - التكلفة التقديرية{" "}
+              {formatNumber(selectedCost)}
+              {missingSupplier && (
+                <span className="text-red-600 mr-2">
+                  (يجب تحديد المورد لكل صنف محدد)
+                </span>
+              )}
+            </span>
+            <Button
+              onClick={() => convertMutation.mutate()}
+              disabled={
+                convertMutation.isPending ||
+                selectedLines.length === 0 ||
+                missingSupplier
+              }
+              data-testid="button-convert-reorder"
+            >
+              {convertMutation.isPending
+                ? "جاري الإنشاء..."
+                : "إنشاء أوامر شراء للأصناف المحددة"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,592 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { formatNumber } from "../../lib/formatNumber";
+import { Ban, ClipboardList, Plus, Printer, Truck } from "lucide-react";
+import { printDeliveryNote, type DeliveryNoteData } from "./printDeliveryNote";
+
+interface ShippableLine {
+  production_order_id: number;
+  production_order_number: string;
+  order_id: number;
+  order_number: string;
+  delivery_date: string | null;
+  customer_name: string | null;
+  customer_name_ar: string | null;
+  item_name: string | null;
+  item_name_ar: string | null;
+  size_caption: string | null;
+  ordered_kg: number;
+  received_kg: number;
+  delivered_kg: number;
+  available_kg: number;
+  backorder_kg: number;
+  last_shipped_at: string | null;
+}
+
+interface ShipmentSummary {
+  id: number;
+  shipment_number: string;
+  order_id: number;
+  order_number: string;
+  customer_name: string | null;
+  customer_name_ar: string | null;
+  status: string;
+  driver_name: string;
+  vehicle_number: string;
+  shipped_at: string;
+  total_kg: number;
+  items_count: number;
+}
+
+const emptyTransport = {
+  driver_name: "",
+  driver_phone: "",
+  vehicle_number: "",
+  delivery_address: "",
+  notes: "",
+};
+
+export default function ShipmentsContent() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedOrderId, setSelectedOrderId] = useState("");
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [transport, setTransport] = useState(emptyTransport);
+
+  const { data: shipments = [], isLoading } = useQuery<ShipmentSummary[]>({
+    queryKey: ["/api/shipments"],
+  });
+
+  const { data: backorders = [] } = useQuery<ShippableLine[]>({
+    queryKey: ["/api/warehouse/backorders"],
+  });
+
+  const { data: shippableLines = [] } = useQuery<ShippableLine[]>({
+    queryKey: ["/api/warehouse/shippable-lines"],
+    enabled: isDialogOpen,
+  });
+
+  const { data: orderLines = [] } = useQuery<ShippableLine[]>({
+    queryKey: ["/api/warehouse/shippable-lines", { order_id: selectedOrderId }],
+    enabled: isDialogOpen && !!selectedOrderId,
+  });
+
+  // الطلبات التي بها كميات مستلمة جاهزة للتسليم
+  const readyOrders = useMemo(() => {
+    const byOrder = new Map<number, { line: ShippableLine; available: number }>();
+    for (const line of shippableLines) {
+      const entry = byOrder.get(line.order_id);
+      byOrder.set(line.order_id, {
+        line: entry?.line || line,
+        available: (entry?.available || 0) + line.available_kg,
+      });
+    }
+    return Array.from(byOrder.values());
+  }, [shippableLines]);
+
+  const selectOrder = (orderId: string) => {
+    setSelectedOrderId(orderId);
+    setQuantities({});
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setSelectedOrderId("");
+    setQuantities({});
+    setTransport(emptyTransport);
+  };
+
+  const shipmentItems = orderLines
+    .map((line) => ({
+      production_order_id: line.production_order_id,
+      quantity_kg: parseFloat(
+        quantities[line.production_order_id] ?? String(line.available_kg),
+      ),
+    }))
+    .filter((item) => Number.isFinite(item.quantity_kg) && item.quantity_kg > 0);
+
+  const invalidateShipments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/warehouse/backorders"] });
+    queryClient.invalidateQueries({
+      queryKey: ["/api/warehouse/shippable-lines"],
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/shipments", {
+        method: "POST",
+        body: JSON.stringify({
+          order_id: parseInt(selectedOrderId),
+          driver_name: transport.driver_name,
+          driver_phone: transport.driver_phone || null,
+          vehicle_number: transport.vehicle_number,
+          delivery_address: transport.delivery_address || null,
+          notes: transport.notes || null,
+          items: shipmentItems,
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: (result: {
+      shipment: DeliveryNoteData;
+      order_completed: boolean;
+    }) => {
+      invalidateShipments();
+      toast({
+        title: "تم إصدار إشعار التسليم",
+        description: result.order_completed
+          ? `${result.shipment.shipment_number} - تم تسليم الطلب بالكامل`
+          : `${result.shipment.shipment_number} - تسليم جزئي، المتبقي مسجل كطلبية متأخرة`,
+      });
+      closeDialog();
+      printDeliveryNote(result.shipment);
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/shipments/${id}/cancel`, {
+        method: "POST",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateShipments();
+      toast({ title: "تم الإلغاء", description: "تم إلغاء إشعار التسليم" });
+    },
+    onError,
+  });
+
+  const handlePrint = async (id: number) => {
+    try {
+      const response = await apiRequest(`/api/shipments/${id}`);
+      const note: DeliveryNoteData = await response.json();
+      if (!printDeliveryNote(note)) {
+        toast({
+          title: "تعذرت الطباعة",
+          description: "المتصفح منع فتح نافذة الطباعة",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  const handleCancel = (shipment: ShipmentSummary) => {
+    if (
+      confirm(
+        `هل تريد إلغاء إشعار التسليم ${shipment.shipment_number}؟ ستعود الكميات إلى رصيد المستودع.`,
+      )
+    ) {
+      cancelMutation.mutate(shipment.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="w-5 h-5" />
+              إشعارات التسليم
+            </CardTitle>
+            <Button
+              onClick={() => setIsDialogOpen(true)}
+              data-testid="button-new-shipment"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              إشعار تسليم جديد
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              جاري التحميل...
+            </div>
+          ) : shipments.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              لا توجد إشعارات تسليم
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      رقم الإشعار
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      الطلب / العميل
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      الكمية (كجم)
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      السائق / المركبة
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      التاريخ
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      الحالة
+                    </th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {shipments.map((shipment) => (
+                    <tr key={shipment.id}>
+                      <td className="px-4 py-2 text-sm font-medium">
+                        {shipment.shipment_number}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {shipment.order_number} -{" "}
+                        {shipment.customer_name_ar || shipment.customer_name}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {formatNumber(shipment.total_kg)}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {shipment.driver_name} - {shipment.vehicle_number}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {new Date(shipment.shipped_at).toLocaleString("ar")}
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge
+                          variant={
+                            shipment.status === "cancelled"
+                              ? "destructive"
+                              : "default"
+                          }
+                        >
+                          {shipment.status === "cancelled" ? "ملغي" : "مسلّم"}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handlePrint(shipment.id)}
+                          title="طباعة إشعار التسليم"
+                          data-testid={`button-print-shipment-${shipment.id}`}
+                        >
+                          <Printer className="w-4 h-4" />
+                        </Button>
+                        {shipment.status !== "cancelled" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCancel(shipment)}
+                            disabled={cancelMutation.isPending}
+                            title="إلغاء إشعار التسليم"
+                          >
+                            <Ban className="w-4 h-4 text-red-500" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5" />
+            الطلبيات المتأخرة (تسليم جزئي)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {backorders.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              لا توجد طلبات مسلمة جزئياً
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      الطلب / العميل
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      أمر الإنتاج
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      المطلوب
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      المسلم
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      المتبقي
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      جاهز في المستودع
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      آخر تسليم
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {backorders.map((line) => (
+                    <tr key={line.production_order_id}>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {line.order_number} -{" "}
+                        {line.customer_name_ar || line.customer_name}
+                      </td>
+                      <td className="px-4 py-2 text-sm font-medium">
+                        {line.production_order_number}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {formatNumber(line.ordered_kg)}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {formatNumber(line.delivered_kg)}
+                      </td>
+                      <td className="px-4 py-2 text-sm font-medium text-red-600">
+                        {formatNumber(line.backorder_kg)}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {formatNumber(line.available_kg)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {line.last_shipped_at
+                          ? new Date(line.last_shipped_at).toLocaleDateString(
+                              "ar",
+                            )
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={(open) => {
+          if (!open) closeDialog();
+        }}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>إشعار تسليم جديد</DialogTitle>
+            <DialogDescription>
+              تسليم الكميات المستلمة في المستودع للعميل
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>الطلب *</Label>
+              <Select value={selectedOrderId} onValueChange={selectOrder}>
+                <SelectTrigger data-testid="select-shipment-order">
+                  <SelectValue placeholder="اختر الطلب" />
+                </SelectTrigger>
+                <SelectContent>
+                  {readyOrders.map(({ line, available }) => (
+                    <SelectItem key={line.order_id} value={String(line.order_id)}>
+                      {line.order_number} -{" "}
+                      {line.customer_name_ar || line.customer_name} (جاهز{" "}
+                      {formatNumber(available)} كجم)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {readyOrders.length === 0 && (
+                <p className="text-xs text-amber-600">
+                  لا توجد كميات مستلمة في المستودع جاهزة للتسليم
+                </p>
+              )}
+            </div>
+
+            {orderLines.length > 0 && (
+              <table className="w-full text-sm border rounded-md">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="p-2 text-right">أمر الإنتاج</th>
+                    <th className="p-2">المطلوب</th>
+                    <th className="p-2">المسلم</th>
+                    <th className="p-2">الجاهز</th>
+                    <th className="p-2">كمية التسليم (كجم)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orderLines.map((line) => (
+                    <tr key={line.production_order_id} className="border-t">
+                      <td className="p-2">
+                        {line.production_order_number}
+                        <div className="text-xs text-gray-500">
+                          {line.item_name_ar || line.item_name}
+                          {line.size_caption ? ` - ${line.size_caption}` : ""}
+                        </div>
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatNumber(line.ordered_kg)}
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatNumber(line.delivered_kg)}
+                      </td>
+                      <td className="p-2 text-center">
+                        {formatNumber(line.available_kg)}
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={line.available_kg}
+                          disabled={line.available_kg <= 0}
+                          value={
+                            quantities[line.production_order_id] ??
+                            String(line.available_kg)
+                          }
+                          onChange={(e) =>
+                            setQuantities({
+                              ...quantities,
+                              [line.production_order_id]: e.target.value,
+                            })
+                          }
+                          data-testid={`input-ship-qty-${line.production_order_id}`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>اسم السائق *</Label>
+                <Input
+                  value={transport.driver_name}
+                  onChange={(e) =>
+                    setTransport({ ...transport, driver_name: e.target.value })
+                  }
+                  data-testid="input-driver-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>هاتف السائق</Label>
+                <Input
+                  value={transport.driver_phone}
+                  onChange={(e) =>
+                    setTransport({ ...transport, driver_phone: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>رقم المركبة *</Label>
+                <Input
+                  value={transport.vehicle_number}
+                  onChange={(e) =>
+                    setTransport({
+                      ...transport,
+                      vehicle_number: e.target.value,
+                    })
+                  }
+                  data-testid="input-vehicle-number"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>عنوان التسليم</Label>
+              <Input
+                value={transport.delivery_address}
+                onChange={(e) =>
+                  setTransport({
+                    ...transport,
+                    delivery_address: e.target.value,
+                  })
+                }
+                placeholder="عنوان العميل إذا ترك فارغاً"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label>ملاحظات</Label>
+              <Textarea
+                value={transport.notes}
+                onChange={(e) =>
+                  setTransport({ ...transport, notes: e.target.value })
+                }
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={closeDialog}>
+                إلغاء
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={
+                  createMutation.isPending ||
+                  !selectedOrderId ||
+                  shipmentItems.length === 0 ||
+                  !transport.driver_name.trim() ||
+                  !transport.vehicle_number.trim()
+                }
+                data-testid="button-create-shipment"
+              >
+                {createMutation.isPending
+                  ? "جاري الحفظ..."
+                  : "إصدار وطباعة إشعار التسليم"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
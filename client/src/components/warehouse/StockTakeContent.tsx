@@ -0,0 +1,845 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useAuth } from "../../hooks/use-auth";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest } from "../../lib/queryClient";
+import { formatNumber } from "../../lib/formatNumber";
+import { userHasPermission } from "../../utils/roleUtils";
+import {
+  Ban,
+  ClipboardCheck,
+  Eye,
+  Plus,
+  Printer,
+  QrCode,
+} from "lucide-react";
+import {
+  printStockTakeSheet,
+  type StockTakeSheetData,
+} from "./printStockTakeSheet";
+
+interface LocationOption {
+  id: string;
+  name: string;
+  name_ar: string | null;
+}
+
+interface StockTakeSummary {
+  id: number;
+  stock_take_number: string;
+  location_id: string;
+  location_name: string | null;
+  status: string;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  posted_by_name: string | null;
+  posted_at: string | null;
+  lines_count: number;
+  counted_lines_count: number;
+  approved_lines_count: number;
+  posted_value_impact: number;
+}
+
+interface StockTakeLine {
+  id: number;
+  item_id: string;
+  item_code: string | null;
+  item_name: string | null;
+  item_name_ar: string | null;
+  barcode: string;
+  unit: string;
+  snapshot_quantity: string;
+  unit_cost: string | null;
+  approved: boolean;
+  counts: Array<{
+    id: number;
+    counted_by: number;
+    counted_by_name: string | null;
+    quantity: number;
+    scanned: boolean;
+    counted_at: string;
+  }>;
+  counted_quantity: number | null;
+  has_conflict: boolean;
+  variance: number | null;
+  value_impact: number | null;
+}
+
+interface StockTakeDetails extends StockTakeSummary {
+  lines: StockTakeLine[];
+  total_value_impact: number;
+}
+
+const STATUS_LABELS: Record<
+  string,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  counting: { label: "قيد العد", variant: "secondary" },
+  posted: { label: "مرحّل", variant: "default" },
+  cancelled: { label: "ملغي", variant: "destructive" },
+};
+
+const itemLabel = (line: StockTakeLine) =>
+  line.item_name_ar || line.item_name || line.item_id;
+
+const fmtDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString("ar") : "-";
+
+function StatusBadge({ status }: { status: string }) {
+  const config = STATUS_LABELS[status] || {
+    label: status,
+    variant: "outline" as const,
+  };
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+}
+
+function VarianceCell({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-gray-400">-</span>;
+  return (
+    <span
+      className={
+        value < 0
+          ? "text-red-600 font-medium"
+          : value > 0
+            ? "text-green-600 font-medium"
+            : "text-gray-500"
+      }
+    >
+      {value > 0 ? "+" : ""}
+      {formatNumber(value)}
+    </span>
+  );
+}
+
+export default function StockTakeContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canCreate = userHasPermission(user, "create_inventory");
+  const canCount = userHasPermission(user, [
+    "create_inventory",
+    "create_warehouse",
+  ]);
+  // أرصدة النظام والفروقات تظهر للمراجع فقط حتى يبقى العدّ أعمى
+  const canApprove = userHasPermission(user, "approve_inventory");
+  const canCancel = userHasPermission(user, [
+    "update_inventory",
+    "approve_inventory",
+  ]);
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newLocation, setNewLocation] = useState("");
+  const [newNotes, setNewNotes] = useState("");
+
+  const [viewId, setViewId] = useState<number | null>(null);
+  const [barcode, setBarcode] = useState("");
+  const [scanQuantity, setScanQuantity] = useState("");
+  const [addToCount, setAddToCount] = useState(false);
+  const [lineCounts, setLineCounts] = useState<Record<number, string>>({});
+  const [approvals, setApprovals] = useState<
+    Record<number, { selected: boolean; quantity: string }>
+  >({});
+  const barcodeInput = useRef<HTMLInputElement>(null);
+
+  const { data: stockTakes = [], isLoading } = useQuery<StockTakeSummary[]>({
+    queryKey: ["/api/stock-takes"],
+  });
+  const { data: locations = [] } = useQuery<LocationOption[]>({
+    queryKey: ["/api/locations"],
+    enabled: createOpen,
+  });
+  const { data: stockTake } = useQuery<StockTakeDetails>({
+    queryKey: ["/api/stock-takes", viewId],
+    enabled: viewId !== null,
+  });
+
+  const isCounting = stockTake?.status === "counting";
+
+  const onError = (error: Error) => {
+    toast({
+      title: "خطأ",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateStockTakes = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/stock-takes", {
+        method: "POST",
+        body: JSON.stringify({
+          location_id: newLocation,
+          notes: newNotes || null,
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: (created: StockTakeDetails) => {
+      invalidateStockTakes();
+      toast({
+        title: "تم تجميد الأرصدة",
+        description: `تم إنشاء الجرد ${created.stock_take_number} بعدد ${created.lines.length} صنف`,
+      });
+      setCreateOpen(false);
+      openDetails(created.id);
+    },
+    onError,
+  });
+
+  const countMutation = useMutation({
+    mutationFn: async (count: {
+      line_id?: number;
+      barcode?: string;
+      quantity: number;
+      mode: "set" | "add";
+    }) => {
+      const response = await apiRequest(`/api/stock-takes/${viewId}/counts`, {
+        method: "POST",
+        body: JSON.stringify(count),
+      });
+      return response.json();
+    },
+    onSuccess: (line: StockTakeLine) => {
+      invalidateStockTakes();
+      const myCount = line.counts.find((c) => c.counted_by === user?.id);
+      toast({
+        title: "تم تسجيل العدّ",
+        description: `${itemLabel(line)}: ${formatNumber(myCount?.quantity ?? 0)} ${line.unit}`,
+      });
+      setBarcode("");
+      setScanQuantity("");
+      setLineCounts((current) => ({ ...current, [line.id]: "" }));
+      barcodeInput.current?.focus();
+    },
+    onError,
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(approvals)
+        .filter(([, approval]) => approval.selected)
+        .map(([lineId, approval]) => ({
+          line_id: Number(lineId),
+          quantity:
+            approval.quantity === "" ? undefined : parseFloat(approval.quantity),
+        }));
+      const response = await apiRequest(`/api/stock-takes/${viewId}/post`, {
+        method: "POST",
+        body: JSON.stringify({ lines }),
+      });
+      return response.json();
+    },
+    onSuccess: (posted: StockTakeDetails) => {
+      invalidateStockTakes();
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory-movements"] });
+      toast({
+        title: "تم ترحيل الجرد",
+        description: `تم ترحيل ${posted.approved_lines_count} بند - الأثر المالي ${formatNumber(posted.posted_value_impact)}`,
+      });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/stock-takes/${id}/cancel`, {
+        method: "POST",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateStockTakes();
+      toast({ title: "تم الإلغاء", description: "تم إلغاء الجرد" });
+    },
+    onError,
+  });
+
+  const openCreateDialog = () => {
+    setNewLocation("");
+    setNewNotes("");
+    setCreateOpen(true);
+  };
+
+  const openDetails = (id: number) => {
+    setViewId(id);
+    setBarcode("");
+    setScanQuantity("");
+    setAddToCount(false);
+    setLineCounts({});
+    setApprovals({});
+  };
+
+  const handlePrint = async (id: number) => {
+    try {
+      const response = await apiRequest(`/api/stock-takes/${id}/count-sheet`);
+      const sheet: StockTakeSheetData = await response.json();
+      if (!printStockTakeSheet(sheet)) {
+        toast({
+          title: "تعذرت الطباعة",
+          description: "المتصفح منع فتح نافذة الطباعة",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  const handleCancel = (summary: StockTakeSummary) => {
+    if (
+      confirm(
+        `هل تريد إلغاء الجرد ${summary.stock_take_number}؟ لن تُرحّل أي فروقات.`,
+      )
+    ) {
+      cancelMutation.mutate(summary.id);
+    }
+  };
+
+  const submitScan = () => {
+    const quantity = parseFloat(scanQuantity);
+    if (!barcode.trim() || !Number.isFinite(quantity) || quantity < 0) {
+      toast({
+        title: "بيانات ناقصة",
+        description: "امسح الباركود وأدخل الكمية المعدودة",
+        variant: "destructive",
+      });
+      return;
+    }
+    countMutation.mutate({
+      barcode: barcode.trim(),
+      quantity,
+      mode: addToCount ? "add" : "set",
+    });
+  };
+
+  const submitLineCount = (line: StockTakeLine) => {
+    const quantity = parseFloat(lineCounts[line.id] ?? "");
+    if (!Number.isFinite(quantity) || quantity < 0) return;
+    countMutation.mutate({ line_id: line.id, quantity, mode: "set" });
+  };
+
+  const updateApproval = (
+    line: StockTakeLine,
+    changes: Partial<{ selected: boolean; quantity: string }>,
+  ) => {
+    setApprovals((current) => ({
+      ...current,
+      [line.id]: {
+        selected: current[line.id]?.selected ?? false,
+        quantity:
+          current[line.id]?.quantity ??
+          (line.counted_quantity === null ? "" : String(line.counted_quantity)),
+        ...changes,
+      },
+    }));
+  };
+
+  // تحديد جميع البنود المعدودة ذات الفروقات دفعة واحدة
+  const selectAllDifferences = () => {
+    for (const line of stockTake?.lines || []) {
+      if (line.variance !== null && line.variance !== 0) {
+        updateApproval(line, { selected: true });
+      }
+    }
+  };
+
+  const selectedCount = Object.values(approvals).filter(
+    (approval) => approval.selected,
+  ).length;
+  const conflictCount = (stockTake?.lines || []).filter(
+    (line) => line.has_conflict,
+  ).length;
+  const uncountedCount = (stockTake?.lines || []).filter(
+    (line) => line.counts.length === 0 && !line.approved,
+  ).length;
+
+  const handlePost = () => {
+    if (!stockTake) return;
+    const message =
+      selectedCount === 0
+        ? `لم يتم اعتماد أي فروقات. هل تريد إغلاق الجرد ${stockTake.stock_take_number} بدون تسويات؟`
+        : `سيتم ترحيل ${selectedCount} بند كحركات تسوية للمخزون. هل تريد المتابعة؟`;
+    if (confirm(message)) {
+      postMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5" />
+              الجرد الفعلي
+            </CardTitle>
+            {canCreate && (
+              <Button
+                onClick={openCreateDialog}
+                data-testid="button-new-stock-take"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                جرد جديد
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              جاري التحميل...
+            </div>
+          ) : stockTakes.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              لا توجد عمليات جرد
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      رقم الجرد
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      الموقع
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      تاريخ التجميد
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      البنود المعدودة
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      الأثر المالي المرحّل
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                      الحالة
+                    </th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {stockTakes.map((summary) => (
+                    <tr key={summary.id}>
+                      <td className="px-4 py-2 text-sm font-medium">
+                        {summary.stock_take_number}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {summary.location_name || summary.location_id}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {fmtDateTime(summary.created_at)}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {summary.counted_lines_count} من {summary.lines_count}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {summary.status === "posted" ? (
+                          <VarianceCell value={summary.posted_value_impact} />
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <StatusBadge status={summary.status} />
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDetails(summary.id)}
+                          title={
+                            summary.status === "counting"
+                              ? "العد والمراجعة"
+                              : "عرض التفاصيل"
+                          }
+                          data-testid={`button-view-stock-take-${summary.id}`}
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        {summary.status === "counting" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handlePrint(summary.id)}
+                            title="طباعة ورقة العد"
+                          >
+                            <Printer className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {summary.status === "counting" && canCancel && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCancel(summary)}
+                            disabled={cancelMutation.isPending}
+                            title="إلغاء"
+                          >
+                            <Ban className="w-4 h-4 text-red-500" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* إنشاء جرد جديد */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>جرد جديد</DialogTitle>
+            <DialogDescription>
+              يتم تجميد أرصدة جميع أصناف الموقع لحظة الإنشاء، والحركات التي
+              تُسجل أثناء العد لا تؤثر على الفروقات
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>الموقع</Label>
+              <Select value={newLocation} onValueChange={setNewLocation}>
+                <SelectTrigger data-testid="select-stock-take-location">
+                  <SelectValue placeholder="اختر الموقع" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name_ar || location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>ملاحظات</Label>
+              <Textarea
+                value={newNotes}
+                onChange={(e) => setNewNotes(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                إلغاء
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!newLocation || createMutation.isPending}
+              >
+                {createMutation.isPending ? "جاري التجميد..." : "تجميد الأرصدة"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* العد والمراجعة */}
+      <Dialog
+        open={viewId !== null}
+        onOpenChange={(open) => !open && setViewId(null)}
+      >
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              جرد {stockTake?.stock_take_number}
+              {stockTake && <StatusBadge status={stockTake.status} />}
+            </DialogTitle>
+            <DialogDescription>
+              {stockTake?.location_name} - تجميد الأرصدة{" "}
+              {fmtDateTime(stockTake?.created_at ?? null)}
+              {stockTake?.posted_at &&
+                ` - ترحيل ${fmtDateTime(stockTake.posted_at)} بواسطة ${stockTake.posted_by_name || "-"}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!stockTake ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              جاري التحميل...
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {isCounting && canCount && (
+                <form
+                  className="flex flex-wrap items-end gap-3 rounded-md border bg-blue-50 p-3"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    submitScan();
+                  }}
+                >
+                  <div className="flex-1 min-w-[200px]">
+                    <Label className="flex items-center gap-1">
+                      <QrCode className="w-4 h-4" />
+                      الباركود
+                    </Label>
+                    <Input
+                      ref={barcodeInput}
+                      value={barcode}
+                      onChange={(e) => setBarcode(e.target.value)}
+                      placeholder="امسح أو أدخل كود الصنف"
+                      autoFocus
+                      data-testid="input-stock-take-barcode"
+                    />
+                  </div>
+                  <div className="w-32">
+                    <Label>الكمية المعدودة</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={scanQuantity}
+                      onChange={(e) => setScanQuantity(e.target.value)}
+                      data-testid="input-stock-take-quantity"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm pb-2">
+                    <Checkbox
+                      checked={addToCount}
+                      onCheckedChange={(checked) => setAddToCount(!!checked)}
+                    />
+                    إضافة لعدّي السابق
+                  </label>
+                  <Button
+                    type="submit"
+                    disabled={countMutation.isPending}
+                    data-testid="button-submit-stock-take-count"
+                  >
+                    تسجيل
+                  </Button>
+                </form>
+              )}
+
+              {canApprove && (
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <span>
+                    البنود: {stockTake.counted_lines_count} معدود من{" "}
+                    {stockTake.lines_count}
+                  </span>
+                  {isCounting && uncountedCount > 0 && (
+                    <Badge variant="outline">{uncountedCount} لم يُعد</Badge>
+                  )}
+                  {isCounting && conflictCount > 0 && (
+                    <Badge variant="destructive">
+                      {conflictCount} اختلاف بين العدّادين
+                    </Badge>
+                  )}
+                  <span>
+                    صافي الأثر المالي:{" "}
+                    <VarianceCell value={stockTake.total_value_impact} />
+                  </span>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                        الكود
+                      </th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                        الصنف
+                      </th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                        الوحدة
+                      </th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                        العدّات
+                      </th>
+                      {canApprove && (
+                        <>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                            رصيد النظام
+                          </th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                            الفعلي
+                          </th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                            الفرق
+                          </th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                            الأثر المالي
+                          </th>
+                        </>
+                      )}
+                      {isCounting && (canCount || canApprove) && (
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">
+                          {canApprove ? "اعتماد" : "عدّ يدوي"}
+                        </th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {stockTake.lines.map((line) => {
+                      const approval = approvals[line.id];
+                      return (
+                        <tr
+                          key={line.id}
+                          className={line.has_conflict ? "bg-amber-50" : ""}
+                        >
+                          <td className="px-3 py-2 text-sm font-mono">
+                            {line.barcode}
+                          </td>
+                          <td className="px-3 py-2 text-sm">
+                            {itemLabel(line)}
+                          </td>
+                          <td className="px-3 py-2 text-sm">{line.unit}</td>
+                          <td className="px-3 py-2 text-xs">
+                            {line.counts.length === 0
+                              ? "-"
+                              : line.counts.map((c) => (
+                                  <div key={c.id}>
+                                    {c.counted_by_name || c.counted_by}:{" "}
+                                    {formatNumber(c.quantity)}
+                                    {c.scanned && (
+                                      <QrCode className="inline w-3 h-3 mr-1 text-gray-400" />
+                                    )}
+                                  </div>
+                                ))}
+                          </td>
+                          {canApprove && (
+                            <>
+                              <td className="px-3 py-2 text-sm">
+                                {formatNumber(parseFloat(line.snapshot_quantity))}
+                              </td>
+                              <td className="px-3 py-2 text-sm">
+                                {line.has_conflict ? (
+                                  <Badge variant="destructive">مختلف</Badge>
+                                ) : line.counted_quantity === null ? (
+                                  "-"
+                                ) : (
+                                  formatNumber(line.counted_quantity)
+                                )}
+                                {line.approved && (
+                                  <Badge variant="default" className="mr-1">
+                                    معتمد
+                                  </Badge>
+                                )}
+                              </td>
+                              <td className="px-3 py-2 text-sm">
+                                <VarianceCell value={line.variance} />
+                              </td>
+                              <td className="px-3 py-2 text-sm">
+                                <VarianceCell value={line.value_impact} />
+                              </td>
+                            </>
+                          )}
+                          {isCounting && canApprove && (
+                            <td className="px-3 py-2 whitespace-nowrap">
+                              <div className="flex items-center gap-2">
+                                <Checkbox
+                                  checked={approval?.selected ?? false}
+                                  onCheckedChange={(checked) =>
+                                    updateApproval(line, { selected: !!checked })
+                                  }
+                                  data-testid={`checkbox-approve-line-${line.id}`}
+                                />
+                                {approval?.selected && (
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    className="w-24 h-8"
+                                    placeholder="الكمية"
+                                    value={approval.quantity}
+                                    onChange={(e) =>
+                                      updateApproval(line, {
+                                        quantity: e.target.value,
+                                      })
+                                    }
+                                  />
+                                )}
+                              </div>
+                            </td>
+                          )}
+                          {isCounting && canCount && !canApprove && (
+                            <td className="px-3 py-2 whitespace-nowrap">
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  className="w-24 h-8"
+                                  value={lineCounts[line.id] ?? ""}
+                                  onChange={(e) =>
+                                    setLineCounts({
+                                      ...lineCounts,
+                                      [line.id]: e.target.value,
+                                    })
+                                  }
+                                />
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => submitLineCount(line)}
+                                  disabled={
+                                    countMutation.isPending ||
+                                    !lineCounts[line.id]
+                                  }
+                                >
+                                  حفظ
+                                </Button>
+                              </div>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {isCounting && canApprove && (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <Button variant="outline" onClick={selectAllDifferences}>
+                    تحديد جميع الفروقات
+                  </Button>
+                  <Button
+                    onClick={handlePost}
+                    disabled={postMutation.isPending}
+                    data-testid="button-post-stock-take"
+                  >
+                    {postMutation.isPending
+                      ? "جاري الترحيل..."
+                      : `ترحيل الفروقات المعتمدة (${selectedCount})`}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+export interface DeliveryNoteData {
+  shipment_number: string;
+  status: string;
+  order_number: string;
+  shipped_at: string;
+  driver_name: string;
+  driver_phone: string | null;
+  vehicle_number: string;
+  delivery_address: string | null;
+  notes: string | null;
+  created_by_name: string | null;
+  total_kg: number;
+  customer: {
+    id: string;
+    name: string;
+    name_ar: string | null;
+    city: string | null;
+    address: string | null;
+    phone: string | null;
+    tax_number: string | null;
+  } | null;
+  items: Array<{
+    id: number;
+    production_order_number: string;
+    item_name: string | null;
+    item_name_ar: string | null;
+    size_caption: string | null;
+    quantity_kg: string;
+    ordered_kg: number;
+    notes: string | null;
+  }>;
+  balances: Array<{
+    production_order_id: number;
+    production_order_number: string;
+    ordered_kg: number;
+    delivered_kg: number;
+    backorder_kg: number;
+  }>;
+}
+
+const escapeHtml = (value?: string | null) =>
+  (value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const fmtDate = (value: string) => {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fmtKg = (value: number | string) =>
+  Number(value || 0).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+/**
+ * طباعة إشعار التسليم (عربي / إنجليزي) - يفتح نافذة طباعة يمكن حفظها PDF من المتصفح
+ */
+export function printDeliveryNote(note: DeliveryNoteData): boolean {
+  const customerName = note.customer
+    ? `${escapeHtml(note.customer.name_ar || note.customer.name)}${
+        note.customer.name_ar && note.customer.name
+          ? `<br/><span class="en">${escapeHtml(note.customer.name)}</span>`
+          : ""
+      }`
+    : "—";
+  const backorders = note.balances.filter((line) => line.backorder_kg > 0);
+
+  const html = `<!doctype html>
+<html lang="ar" dir="rtl">
+<head>
+<meta charset="utf-8" />
+<title>إشعار تسليم ${escapeHtml(note.shipment_number)} - Delivery Note</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body {
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Tahoma, Arial, "Noto Naskh Arabic", "Amiri", sans-serif;
+    color: #000; font-size: 13px; line-height: 1.5; margin: 0;
+  }
+  .en { direction: ltr; font-size: 11px; color: #333; }
+  .header { display: grid; grid-template-columns: 1fr auto 1fr; align-items: center;
+    border-bottom: 2px solid #000; padding-bottom: 8px; margin-bottom: 14px; }
+  .doc-title { text-align: center; font-size: 20px; font-weight: 800; }
+  .meta { text-align: left; font-size: 12px; }
+  .meta p { margin: 0; }
+  .cancelled { text-align: center; color: #b91c1c; font-size: 18px; font-weight: 800;
+    border: 2px solid #b91c1c; padding: 6px; margin-bottom: 12px; }
+  .grid-2 { display: grid; grid-template-columns: 1fr 1fr; gap: 10px; margin-bottom: 12px; }
+  .box { border: 1px solid #000; border-radius: 6px; padding: 10px; }
+  .subhead { font-weight: 700; border-bottom: 1px solid #000; padding-bottom: 4px; margin-bottom: 6px; }
+  .box p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 12px; }
+  th { background: #f3f3f3; border: 1px solid #000; padding: 6px; text-align: center; }
+  td { border: 1px solid #000; padding: 6px; }
+  .num { text-align: center; white-space: nowrap; }
+  tfoot td { font-weight: 800; background: #fafafa; }
+  .signs { display: grid; grid-template-columns: repeat(3, 1fr); gap: 16px; margin-top: 18px; }
+  .sign-box { border: 1px dashed #000; border-radius: 6px; padding: 8px; height: 80px; font-size: 12px; }
+  .actions { margin-top: 12px; text-align: center; }
+  @media print { .no-print { display: none !important; } }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <strong>نظام إدارة الطلبات والإنتاج</strong><br/>
+      <span class="en">Order &amp; Production Management</span>
+    </div>
+    <div class="doc-title">إشعار تسليم<br/><span class="en">DELIVERY NOTE</span></div>
+    <div class="meta">
+      <p><strong>No. / الرقم:</strong> ${escapeHtml(note.shipment_number)}</p>
+      <p><strong>Date / التاريخ:</strong> ${fmtDate(note.shipped_at)}</p>
+      <p><strong>Order / الطلب:</strong> ${escapeHtml(note.order_number)}</p>
+    </div>
+  </div>
+
+  ${note.status === "cancelled" ? `<div class="cancelled">ملغي - CANCELLED</div>` : ""}
+
+  <div class="grid-2">
+    <div class="box">
+      <div class="subhead">العميل <span class="en">/ Customer</span></div>
+      <p>${customerName}</p>
+      <p><strong>رقم العميل <span class="en">Customer No.</span>:</strong> ${escapeHtml(note.customer?.id) || "—"}</p>
+      <p><strong>الهاتف <span class="en">Phone</span>:</strong> ${escapeHtml(note.customer?.phone) || "—"}</p>
+      <p><strong>الرقم الضريبي <span class="en">VAT No.</span>:</strong> ${escapeHtml(note.customer?.tax_number) || "—"}</p>
+      <p><strong>عنوان التسليم <span class="en">Delivery Address</span>:</strong> ${
+        escapeHtml(note.delivery_address || note.customer?.address || note.customer?.city) || "—"
+      }</p>
+    </div>
+    <div class="box">
+      <div class="subhead">النقل <span class="en">/ Transport</span></div>
+      <p><strong>السائق <span class="en">Driver</span>:</strong> ${escapeHtml(note.driver_name)}</p>
+      <p><strong>هاتف السائق <span class="en">Driver Phone</span>:</strong> ${escapeHtml(note.driver_phone) || "—"}</p>
+      <p><strong>رقم المركبة <span class="en">Vehicle No.</span>:</strong> ${escapeHtml(note.vehicle_number)}</p>
+      <p><strong>أصدره <span class="en">Issued by</span>:</strong> ${escapeHtml(note.created_by_name) || "—"}</p>
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th style="width: 40px;">#</th>
+        <th>أمر الإنتاج<br/><span class="en">Production Order</span></th>
+        <th>الصنف / المقاس<br/><span class="en">Item / Size</span></th>
+        <th>الكمية المطلوبة (كجم)<br/><span class="en">Ordered (kg)</span></th>
+        <th>الكمية المسلمة (كجم)<br/><span class="en">Delivered (kg)</span></th>
+      </tr>
+    </thead>
+    <tbody>
+      ${note.items
+        .map(
+          (item, index) => `
+        <tr>
+          <td class="num">${index + 1}</td>
+          <td class="num">${escapeHtml(item.production_order_number)}</td>
+          <td>${escapeHtml(item.item_name_ar || item.item_name) || "—"}${
+            item.size_caption ? ` - ${escapeHtml(item.size_caption)}` : ""
+          }${item.item_name && item.item_name_ar ? `<br/><span class="en">${escapeHtml(item.item_name)}</span>` : ""}${
+            item.notes ? `<br/><small>${escapeHtml(item.notes)}</small>` : ""
+          }</td>
+          <td class="num">${fmtKg(item.ordered_kg)}</td>
+          <td class="num">${fmtKg(item.quantity_kg)}</td>
+        </tr>`,
+        )
+        .join("")}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td colspan="4" class="num">الإجمالي <span class="en">Total</span></td>
+        <td class="num">${fmtKg(note.total_kg)}</td>
+      </tr>
+    </tfoot>
+  </table>
+
+  ${
+    backorders.length > 0
+      ? `<div class="box" style="margin-bottom: 12px;">
+    <div class="subhead">كميات متبقية للتسليم لاحقاً <span class="en">/ Backorder</span></div>
+    ${backorders
+      .map(
+        (line) =>
+          `<p>${escapeHtml(line.production_order_number)}: ${fmtKg(line.backorder_kg)} كجم <span class="en">kg</span></p>`,
+      )
+      .join("")}
+  </div>`
+      : ""
+  }
+
+  ${note.notes ? `<p><strong>ملاحظات <span class="en">Notes</span>:</strong> ${escapeHtml(note.notes)}</p>` : ""}
+
+  <div class="signs">
+    <div class="sign-box">أمين المستودع<br/><span class="en">Storekeeper</span></div>
+    <div class="sign-box">السائق<br/><span class="en">Driver</span></div>
+    <div class="sign-box">استلام العميل (الاسم والتوقيع)<br/><span class="en">Received by (name &amp; signature)</span></div>
+  </div>
+
+  <div class="actions no-print">
+    <button onclick="window.print()">طباعة / Print</button>
+  </div>
+</body>
+</html>`;
+
+  const blob = new Blob([html], { type: "text/html;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const w = window.open(url, "_blank");
+  if (!w) {
+    URL.revokeObjectURL(url);
+    return false;
+  }
+  const onLoad = () => {
+    try {
+      w.focus();
+      w.print();
+    } catch {}
+    w.removeEventListener("load", onLoad);
+    setTimeout(() => URL.revokeObjectURL(url), 30000);
+  };
+  w.addEventListener("load", onLoad);
+  return true;
+}
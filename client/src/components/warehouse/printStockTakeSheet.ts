@@ -0,0 +1,139 @@
+export interface StockTakeSheetData {
+  stock_take_number: string;
+  status: string;
+  location_name: string | null;
+  created_at: string;
+  notes: string | null;
+  lines: Array<{
+    id: number;
+    barcode: string;
+    item_code: string | null;
+    item_name: string | null;
+    item_name_ar: string | null;
+    unit: string;
+    qr_code: string; // data URL
+  }>;
+}
+
+const escapeHtml = (value?: string | null) =>
+  (value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const fmtDate = (value: string) => {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * طباعة ورقة العد - بدون أرصدة النظام، ورمز QR لكل صنف يُمسح عند إدخال العدّ
+ */
+export function printStockTakeSheet(sheet: StockTakeSheetData): boolean {
+  const html = `<!doctype html>
+<html lang="ar" dir="rtl">
+<head>
+<meta charset="utf-8" />
+<title>ورقة جرد ${escapeHtml(sheet.stock_take_number)} - Count Sheet</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Tahoma, Arial, sans-serif; font-size: 12px; color: #111; margin: 0; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .en { color: #555; font-size: 10px; }
+  .meta { display: flex; justify-content: space-between; margin-bottom: 10px; border-bottom: 2px solid #111; padding-bottom: 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: right; vertical-align: middle; }
+  th { background: #f0f0f0; }
+  tr { page-break-inside: avoid; }
+  td.num { text-align: center; }
+  td.qr { width: 70px; text-align: center; }
+  td.qr img { width: 60px; height: 60px; }
+  td.blank { width: 110px; }
+  .signs { display: flex; gap: 16px; margin-top: 24px; }
+  .sign-box { flex: 1; border-top: 1px solid #111; padding-top: 6px; text-align: center; }
+  .actions { text-align: center; margin: 16px 0; }
+  @media print { .no-print { display: none; } }
+</style>
+</head>
+<body>
+  <div class="meta">
+    <div>
+      <h1>ورقة جرد <span class="en">/ Stock Count Sheet</span></h1>
+      <div>رقم الجرد <span class="en">No.</span>: <strong>${escapeHtml(sheet.stock_take_number)}</strong></div>
+      <div>الموقع <span class="en">Location</span>: ${escapeHtml(sheet.location_name) || "—"}</div>
+    </div>
+    <div>
+      <div>تاريخ التجميد <span class="en">Snapshot</span>: ${fmtDate(sheet.created_at)}</div>
+      <div>اسم العدّاد <span class="en">Counter</span>: ____________________</div>
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>#</th>
+        <th>الرمز<br/><span class="en">Scan</span></th>
+        <th>الكود<br/><span class="en">Code</span></th>
+        <th>الصنف<br/><span class="en">Item</span></th>
+        <th>الوحدة<br/><span class="en">Unit</span></th>
+        <th>الكمية المعدودة<br/><span class="en">Counted</span></th>
+        <th>ملاحظات<br/><span class="en">Notes</span></th>
+      </tr>
+    </thead>
+    <tbody>
+      ${sheet.lines
+        .map(
+          (line, index) => `
+      <tr>
+        <td class="num">${index + 1}</td>
+        <td class="qr"><img src="${line.qr_code}" alt="${escapeHtml(line.barcode)}" /></td>
+        <td class="num">${escapeHtml(line.barcode)}</td>
+        <td>${escapeHtml(line.item_name_ar || line.item_name) || "—"}${
+          line.item_name && line.item_name_ar
+            ? `<br/><span class="en">${escapeHtml(line.item_name)}</span>`
+            : ""
+        }</td>
+        <td class="num">${escapeHtml(line.unit)}</td>
+        <td class="blank"></td>
+        <td class="blank"></td>
+      </tr>`,
+        )
+        .join("")}
+    </tbody>
+  </table>
+
+  ${sheet.notes ? `<p><strong>ملاحظات <span class="en">Notes</span>:</strong> ${escapeHtml(sheet.notes)}</p>` : ""}
+
+  <div class="signs">
+    <div class="sign-box">العدّاد<br/><span class="en">Counted by</span></div>
+    <div class="sign-box">المراجع<br/><span class="en">Checked by</span></div>
+    <div class="sign-box">أمين المستودع<br/><span class="en">Storekeeper</span></div>
+  </div>
+
+  <div class="actions no-print">
+    <button onclick="window.print()">طباعة / Print</button>
+  </div>
+</body>
+</html>`;
+
+  const blob = new Blob([html], { type: "text/html;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const w = window.open(url, "_blank");
+  if (!w) {
+    URL.revokeObjectURL(url);
+    return false;
+  }
+  const onLoad = () => {
+    try {
+      w.focus();
+      w.print();
+    } catch {}
+    w.removeEventListener("load", onLoad);
+    setTimeout(() => URL.revokeObjectURL(url), 30000);
+  };
+  w.addEventListener("load", onLoad);
+  return true;
+}
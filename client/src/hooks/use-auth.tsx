@@ -8,9 +8,15 @@ import React, {
 } from "react";
 import type { AuthUser } from "@/types";
 
+interface LoginResult {
+  // كلمة المرور صحيحة لكن الحساب يتطلب رمز التحقق بخطوتين
+  twoFactorRequired: boolean;
+}
+
 interface AuthContextType {
   user: AuthUser | null;
-  login: (username: string, password: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<void>;
   logout: () => void;
   isLoading: boolean;
   isAuthenticated: boolean;
@@ -78,8 +84,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       const data = await response.json();
+      if (data.two_factor_required) {
+        return { twoFactorRequired: true };
+      }
       // Security improvement: Only store user data in memory, not localStorage
       setUser(data.user);
+      return { twoFactorRequired: false };
     } catch (error) {
       throw error;
     } finally {
@@ -87,6 +97,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const verifyTwoFactor = async (code: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/login/2fa", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ code }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "فشل التحقق");
+      }
+
+      const data = await response.json();
+      setUser(data.user);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const logout = async () => {
     try {
       await fetch("/api/logout", {
@@ -106,7 +140,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   return (
     <AuthContext.Provider
-      value={{ user, login, logout, isLoading, isAuthenticated: !!user }}
+      value={{
+        user,
+        login,
+        verifyTwoFactor,
+        logout,
+        isLoading,
+        isAuthenticated: !!user,
+      }}
     >
       {children}
     </AuthContext.Provider>
@@ -129,6 +170,9 @@ export function useAuth() {
         login: async () => {
           throw new Error("Auth not available - please refresh page");
         },
+        verifyTwoFactor: async () => {
+          throw new Error("Auth not available - please refresh page");
+        },
         logout: () => {
           window.location.reload();
         },
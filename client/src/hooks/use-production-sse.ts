@@ -45,6 +45,9 @@ export function useProductionSSE() {
           );
         }
 
+        // خطة الجدولة تتأثر بأي تحديث للإنتاج أو لحالة المكائن
+        queriesToInvalidate.push(["/api/production/schedule"]);
+
         // Invalidate all relevant queries
         queriesToInvalidate.forEach((queryKey) => {
           queryClient.invalidateQueries({ queryKey });
@@ -201,6 +204,7 @@ export function useProductionSSE() {
       ["/api/production/cutting-queue"],
       ["/api/production/grouped-cutting-queue"],
       ["/api/production/hierarchical-orders"],
+      ["/api/production/schedule"],
     ];
 
     productionQueries.forEach((queryKey) => {
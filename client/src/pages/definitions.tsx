@@ -13,6 +13,7 @@ import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
+import { Switch } from "../components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -58,6 +59,10 @@ import {
   EyeOff,
 } from "lucide-react";
 import { formatNumber } from "../lib/formatNumber";
+import WasteReasonsManager from "../components/production/WasteReasonsManager";
+import MixingRecipesManager from "../components/production/MixingRecipesManager";
+import RecordHistoryPanel from "../components/audit/RecordHistoryPanel";
+import ActiveSessionsPanel from "../components/settings/ActiveSessionsPanel";
 
 export default function Definitions() {
   const { toast } = useToast();
@@ -189,7 +194,9 @@ export default function Definitions() {
     password: "",
     role_id: "none",
     section_id: "none",
+    attendance_location_id: "none",
     status: "active",
+    must_change_password: false,
   });
   const [showPassword, setShowPassword] = useState(false);
 
@@ -1392,12 +1399,12 @@ export default function Definitions() {
 
   // User mutations
   const createUserMutation = useMutation({
-    mutationFn: (data: any) => {
-      return fetch("/api/users", {
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("/api/users", {
         method: "POST",
         body: JSON.stringify(data),
-        headers: { "Content-Type": "application/json" },
-      }).then((res) => res.json());
+      });
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
@@ -1407,17 +1414,42 @@ export default function Definitions() {
     },
     onError: (error: any) => {
       console.error("خطأ في إنشاء المستخدم:", error);
-      toast({ title: "خطأ في إنشاء المستخدم", variant: "destructive" });
+      toast({
+        title: "خطأ في إنشاء المستخدم",
+        description: error?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/users/${id}/2fa`, {
+        method: "DELETE",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setEditingItem({ ...editingItem, two_factor_enabled: false });
+      toast({ title: "تمت إعادة تعيين التحقق بخطوتين" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "خطأ في إعادة تعيين التحقق بخطوتين",
+        description: error?.message,
+        variant: "destructive",
+      });
     },
   });
 
   const updateUserMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: any }) => {
-      return fetch(`/api/users/${id}`, {
+    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      const response = await apiRequest(`/api/users/${id}`, {
         method: "PUT",
         body: JSON.stringify(data),
-        headers: { "Content-Type": "application/json" },
-      }).then((res) => res.json());
+      });
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
@@ -1427,7 +1459,11 @@ export default function Definitions() {
     },
     onError: (error: any) => {
       console.error("خطأ في تحديث المستخدم:", error);
-      toast({ title: "خطأ في تحديث المستخدم", variant: "destructive" });
+      toast({
+        title: "خطأ في تحديث المستخدم",
+        description: error?.message,
+        variant: "destructive",
+      });
     },
   });
 
@@ -1512,7 +1548,9 @@ export default function Definitions() {
       password: "",
       role_id: "none",
       section_id: "none",
+      attendance_location_id: "none",
       status: "active",
+      must_change_password: false,
     });
     setEditingItem(null);
   };
@@ -1571,7 +1609,7 @@ export default function Definitions() {
                 className="space-y-4 w-full"
               >
                 <TabsList
-                  className="grid grid-cols-4 lg:grid-cols-8 w-full h-auto p-1 bg-white rounded-lg border border-gray-200 shadow-sm gap-1"
+                  className="grid grid-cols-4 lg:grid-cols-10 w-full h-auto p-1 bg-white rounded-lg border border-gray-200 shadow-sm gap-1"
                   dir="rtl"
                 >
                   <TabsTrigger
@@ -1638,8 +1676,34 @@ export default function Definitions() {
                   >
                     المستخدمين
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="waste-reasons"
+                    className="data-[state=active]:bg-white data-[state=active]:text-blue-600 
+                             text-gray-600 hover:text-blue-600 px-3 py-2 text-sm font-medium
+                             transition-all duration-200 rounded-md min-w-0 flex-1"
+                  >
+                    أسباب الهدر
+                  </TabsTrigger>
+                  <TabsTrigger
+                    value="mixing-recipes"
+                    className="data-[state=active]:bg-white data-[state=active]:text-blue-600 
+                             text-gray-600 hover:text-blue-600 px-3 py-2 text-sm font-medium
+                             transition-all duration-200 rounded-md min-w-0 flex-1"
+                  >
+                    وصفات الخلط
+                  </TabsTrigger>
                 </TabsList>
 
+                {/* Waste Reasons Tab */}
+                <TabsContent value="waste-reasons" className="space-y-6">
+                  <WasteReasonsManager />
+                </TabsContent>
+
+                {/* Mixing Recipes Tab */}
+                <TabsContent value="mixing-recipes" className="space-y-6">
+                  <MixingRecipesManager masterBatchColors={masterBatchColors} />
+                </TabsContent>
+
                 {/* Customers Tab */}
                 <TabsContent value="customers" className="space-y-6">
                   <Card>
@@ -3046,7 +3110,13 @@ export default function Definitions() {
                                                     ] || "none"
                                                   );
                                                 })(),
+                                                attendance_location_id:
+                                                  user.attendance_location_id ||
+                                                  "none",
                                                 status: user.status || "active",
+                                                must_change_password:
+                                                  user.must_change_password ??
+                                                  false,
                                               });
                                               setSelectedTab("users");
                                               setShowPassword(false);
@@ -5097,6 +5167,41 @@ export default function Definitions() {
                           </SelectContent>
                         </Select>
                       </div>
+                      <div>
+                        <Label htmlFor="attendance_location_id">
+                          موقع تسجيل الحضور
+                        </Label>
+                        <Select
+                          value={userForm.attendance_location_id}
+                          onValueChange={(value) =>
+                            setUserForm({
+                              ...userForm,
+                              attendance_location_id: value,
+                            })
+                          }
+                        >
+                          <SelectTrigger className="mt-1">
+                            <SelectValue placeholder="اختر الموقع" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">
+                              بدون تحقق من الموقع
+                            </SelectItem>
+                            {Array.isArray(locations) &&
+                              locations
+                                .filter((location: any) => location.coordinates)
+                                .map((location: any) => (
+                                  <SelectItem
+                                    key={location.id}
+                                    value={location.id.toString()}
+                                  >
+                                    {location.name_ar || location.name} (
+                                    {location.tolerance_range || 100} م)
+                                  </SelectItem>
+                                ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                       <div>
                         <Label htmlFor="status">الحالة</Label>
                         <Select
@@ -5115,7 +5220,57 @@ export default function Definitions() {
                         </Select>
                       </div>
                     </div>
+                    <div className="flex items-center justify-between border rounded-md px-3 py-2">
+                      <div>
+                        <Label htmlFor="must_change_password">
+                          إلزام بتغيير كلمة المرور عند الدخول التالي
+                        </Label>
+                        <p className="text-xs text-muted-foreground">
+                          يُطلب من المستخدم تعيين كلمة مرور جديدة قبل استخدام النظام
+                        </p>
+                      </div>
+                      <Switch
+                        id="must_change_password"
+                        checked={userForm.must_change_password}
+                        onCheckedChange={(checked) =>
+                          setUserForm({
+                            ...userForm,
+                            must_change_password: checked,
+                          })
+                        }
+                        data-testid="switch-must-change-password"
+                      />
+                    </div>
                   </div>
+                  {editingItem && (
+                    <div className="border-t pt-4 space-y-3">
+                      {editingItem.two_factor_enabled && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm">
+                            التحقق بخطوتين مفعّل لهذا المستخدم
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              resetTwoFactorMutation.mutate(editingItem.id)
+                            }
+                            disabled={resetTwoFactorMutation.isPending}
+                            data-testid="button-reset-2fa"
+                          >
+                            إعادة تعيين التحقق بخطوتين
+                          </Button>
+                        </div>
+                      )}
+                      <ActiveSessionsPanel userId={editingItem.id} />
+                    </div>
+                  )}
+                  {editingItem && (
+                    <RecordHistoryPanel
+                      tableName="users"
+                      recordId={editingItem.id}
+                    />
+                  )}
                   <DialogFooter>
                     <Button
                       variant="outline"
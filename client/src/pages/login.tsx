@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useAuth } from "../hooks/use-auth";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
@@ -39,8 +40,10 @@ const loginSchema = z.object({
 type LoginFormValues = z.infer<typeof loginSchema>;
 
 export default function Login() {
-  const { login, isLoading } = useAuth();
+  const { login, verifyTwoFactor, isLoading } = useAuth();
   const { toast } = useToast();
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -52,7 +55,12 @@ export default function Login() {
 
   const onSubmit = async (values: LoginFormValues) => {
     try {
-      await login(values.username, values.password);
+      const result = await login(values.username, values.password);
+      if (result.twoFactorRequired) {
+        setTwoFactorCode("");
+        setTwoFactorStep(true);
+        return;
+      }
       toast({
         title: "مرحباً بك",
         description: "تم تسجيل الدخول بنجاح",
@@ -81,6 +89,29 @@ export default function Login() {
     }
   };
 
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await verifyTwoFactor(twoFactorCode);
+      toast({
+        title: "مرحباً بك",
+        description: "تم تسجيل الدخول بنجاح",
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "حدث خطأ غير متوقع";
+      // Session step expired or locked out - start over from the password
+      if (errorMessage.includes("انتهت مهلة") || errorMessage.includes("إيقاف")) {
+        setTwoFactorStep(false);
+      }
+      toast({
+        title: "خطأ في التحقق",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -94,59 +125,99 @@ export default function Login() {
           </p>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>اسم المستخدم</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="أدخل اسم المستخدم"
-                        className="text-right"
-                        disabled={isLoading}
-                        data-testid="input-username"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>كلمة المرور</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="password"
-                        placeholder="أدخل كلمة المرور"
-                        className="text-right"
-                        disabled={isLoading}
-                        data-testid="input-password"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+          {twoFactorStep ? (
+            <form onSubmit={onSubmitTwoFactor} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="twoFactorCode">رمز التحقق</Label>
+                <Input
+                  id="twoFactorCode"
+                  autoFocus
+                  autoComplete="one-time-code"
+                  placeholder="000000"
+                  dir="ltr"
+                  className="text-center tracking-widest"
+                  disabled={isLoading}
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  data-testid="input-2fa-code"
+                />
+                <p className="text-xs text-muted-foreground">
+                  أدخل الرمز من تطبيق المصادقة، أو أحد رموز الاسترداد
+                </p>
+              </div>
 
               <Button
                 type="submit"
                 className="w-full btn-primary"
-                disabled={isLoading}
-                data-testid="button-login"
+                disabled={isLoading || !twoFactorCode.trim()}
+                data-testid="button-verify-2fa"
               >
-                {isLoading ? "جاري تسجيل الدخول..." : "تسجيل الدخول"}
+                {isLoading ? "جاري التحقق..." : "تحقق"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setTwoFactorStep(false)}
+              >
+                رجوع
               </Button>
             </form>
-          </Form>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>اسم المستخدم</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="أدخل اسم المستخدم"
+                          className="text-right"
+                          disabled={isLoading}
+                          data-testid="input-username"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>كلمة المرور</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="أدخل كلمة المرور"
+                          className="text-right"
+                          disabled={isLoading}
+                          data-testid="input-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full btn-primary"
+                  disabled={isLoading}
+                  data-testid="button-login"
+                >
+                  {isLoading ? "جاري تسجيل الدخول..." : "تسجيل الدخول"}
+                </Button>
+              </form>
+            </Form>
+          )}
 
           <div className="mt-6 pt-6 border-t">
             <p className="text-xs text-muted-foreground text-center">
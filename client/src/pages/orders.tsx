@@ -270,6 +270,7 @@ export default function Orders() {
               customer_product_id: prodOrder.customer_product_id,
               quantity_kg: prodOrder.quantity_kg,
               overrun_percentage: prodOrder.overrun_percentage || 5.0,
+              mixing_recipe_id: prodOrder.mixing_recipe_id ?? null,
             };
 
             await fetch("/api/production-orders", {
@@ -381,6 +382,7 @@ export default function Orders() {
         customer_product_id: prodOrder.customer_product_id,
         quantity_kg: prodOrder.quantity_kg,
         overrun_percentage: prodOrder.overrun_percentage || 5.0,
+        mixing_recipe_id: prodOrder.mixing_recipe_id ?? null,
         // final_quantity_kg will be calculated server-side for security
       }));
 
@@ -0,0 +1,505 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Header from "../components/layout/Header";
+import Sidebar from "../components/layout/Sidebar";
+import MobileNav from "../components/layout/MobileNav";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "../components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import { useProductionSSE } from "../hooks/use-production-sse";
+import { formatNumber } from "../lib/formatNumber";
+import {
+  AlertTriangle,
+  CalendarClock,
+  CalendarRange,
+  Clock,
+  RefreshCw,
+} from "lucide-react";
+
+type ScheduleStage = "film" | "printing" | "cutting";
+
+interface ScheduledOperation {
+  stage: ScheduleStage;
+  machine_id: string;
+  start: string;
+  end: string;
+  quantity_kg: number;
+  hours: number;
+}
+
+interface MachineLane {
+  machine_id: string;
+  name: string;
+  name_ar: string | null;
+  type: string;
+  busy_until: string;
+  load_hours: number;
+  operations: Array<
+    ScheduledOperation & {
+      production_order_id: number;
+      production_order_number: string;
+      is_late: boolean;
+    }
+  >;
+}
+
+interface ScheduledOrder {
+  production_order_id: number;
+  production_order_number: string;
+  order_number: string;
+  customer_name: string | null;
+  customer_name_ar: string | null;
+  size_caption: string | null;
+  size_class: "small" | "medium" | "large";
+  status: string;
+  delivery_date: string | null;
+  operations: ScheduledOperation[];
+  unscheduled: Array<{ stage: ScheduleStage; quantity_kg: number; reason: string }>;
+  projected_completion: string | null;
+  is_late: boolean;
+  delay_hours: number;
+}
+
+interface ProductionSchedule {
+  generated_at: string;
+  horizon_end: string;
+  machines: MachineLane[];
+  excluded_machines: Array<{
+    id: string;
+    name: string;
+    name_ar: string | null;
+    type: string;
+    status: string;
+  }>;
+  orders: ScheduledOrder[];
+}
+
+const STAGE_LABELS: Record<ScheduleStage, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+};
+
+const STAGE_COLORS: Record<ScheduleStage, string> = {
+  film: "bg-blue-500",
+  printing: "bg-purple-500",
+  cutting: "bg-emerald-500",
+};
+
+const MACHINE_TYPE_LABELS: Record<string, string> = {
+  extruder: "فيلم",
+  printer: "طباعة",
+  cutter: "تقطيع",
+};
+
+const MACHINE_STATUS_LABELS: Record<string, string> = {
+  maintenance: "صيانة",
+  down: "متوقفة",
+};
+
+const SIZE_CLASS_LABELS: Record<string, string> = {
+  small: "صغير",
+  medium: "وسط",
+  large: "كبير",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatDateTime = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleString("ar", {
+        dateStyle: "short",
+        timeStyle: "short",
+      })
+    : "-";
+
+export default function ProductionSchedulePage() {
+  const [typeFilter, setTypeFilter] = useState("all");
+
+  // تحديث الخطة تلقائياً عند تغير الإنتاج أو حالة المكائن
+  useProductionSSE();
+
+  const {
+    data: schedule,
+    isLoading,
+    isFetching,
+    refetch,
+  } = useQuery<ProductionSchedule>({
+    queryKey: ["/api/production/schedule"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const timeline = useMemo(() => {
+    if (!schedule) return null;
+    const start = new Date(schedule.generated_at).getTime();
+    // عرض يوم واحد على الأقل لتبقى الأشرطة مقروءة
+    const end = Math.max(
+      new Date(schedule.horizon_end).getTime(),
+      start + DAY_MS,
+    );
+    const span = end - start;
+    const ticks: number[] = [];
+    const firstMidnight = new Date(start);
+    firstMidnight.setHours(24, 0, 0, 0);
+    for (let tick = firstMidnight.getTime(); tick < end; tick += DAY_MS) {
+      ticks.push(tick);
+    }
+    return { start, end, span, ticks };
+  }, [schedule]);
+
+  const visibleLanes = (schedule?.machines || []).filter(
+    (lane) => typeFilter === "all" || lane.type === typeFilter,
+  );
+
+  const lateOrders = schedule?.orders.filter((order) => order.is_late) || [];
+  const unscheduledOrders =
+    schedule?.orders.filter((order) => order.unscheduled.length > 0) || [];
+
+  const position = (value: string) =>
+    timeline
+      ? ((new Date(value).getTime() - timeline.start) / timeline.span) * 100
+      : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="flex">
+        <Sidebar />
+        <MobileNav />
+
+        <main className="flex-1 lg:mr-64 p-4 pb-20 lg:pb-4">
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                جدولة الإنتاج
+              </h1>
+              <p className="text-gray-600">
+                توزيع أوامر الإنتاج المفتوحة على المكائن النشطة حسب القدرة وفئة
+                الحجم وتاريخ التسليم
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => refetch()}
+              disabled={isFetching}
+              data-testid="button-refresh-schedule"
+            >
+              <RefreshCw
+                className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`}
+              />
+              تحديث
+            </Button>
+          </div>
+
+          {isLoading || !schedule || !timeline ? (
+            <div className="text-center py-12 text-sm text-muted-foreground">
+              جاري حساب خطة الإنتاج...
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-gray-500">أوامر مجدولة</p>
+                    <p className="text-2xl font-bold">
+                      {schedule.orders.length}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-gray-500">متأخرة عن التسليم</p>
+                    <p className="text-2xl font-bold text-red-600">
+                      {lateOrders.length}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-gray-500">تعذرت جدولتها</p>
+                    <p className="text-2xl font-bold text-amber-600">
+                      {unscheduledOrders.length}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-gray-500">نهاية الخطة</p>
+                    <p className="text-lg font-bold">
+                      {formatDateTime(schedule.horizon_end)}
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {schedule.excluded_machines.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>مكائن مستبعدة من الخطة</AlertTitle>
+                  <AlertDescription>
+                    {schedule.excluded_machines
+                      .map(
+                        (machine) =>
+                          `${machine.name_ar || machine.name} (${
+                            MACHINE_STATUS_LABELS[machine.status] ||
+                            machine.status
+                          })`,
+                      )
+                      .join("، ")}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <CalendarRange className="w-5 h-5" />
+                      مخطط جانت
+                    </CardTitle>
+                    <div className="flex items-center gap-4">
+                      <div className="hidden md:flex items-center gap-3 text-xs">
+                        {(Object.keys(STAGE_LABELS) as ScheduleStage[]).map(
+                          (stage) => (
+                            <span
+                              key={stage}
+                              className="flex items-center gap-1"
+                            >
+                              <span
+                                className={`inline-block w-3 h-3 rounded ${STAGE_COLORS[stage]}`}
+                              />
+                              {STAGE_LABELS[stage]}
+                            </span>
+                          ),
+                        )}
+                        <span className="flex items-center gap-1">
+                          <span className="inline-block w-3 h-3 rounded border-2 border-red-600" />
+                          متأخر
+                        </span>
+                      </div>
+                      <Select value={typeFilter} onValueChange={setTypeFilter}>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">جميع المكائن</SelectItem>
+                          {Object.entries(MACHINE_TYPE_LABELS).map(
+                            ([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ),
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {visibleLanes.length === 0 ? (
+                    <div className="text-center py-8 text-sm text-muted-foreground">
+                      لا توجد مكائن نشطة
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <div className="min-w-[800px] space-y-2" dir="ltr">
+                        <div className="flex text-xs text-gray-500">
+                          <div className="w-40 shrink-0" />
+                          <div className="relative flex-1 h-5">
+                            {timeline.ticks.map((tick) => (
+                              <span
+                                key={tick}
+                                className="absolute -translate-x-1/2"
+                                style={{
+                                  left: `${((tick - timeline.start) / timeline.span) * 100}%`,
+                                }}
+                              >
+                                {new Date(tick).toLocaleDateString("ar", {
+                                  day: "numeric",
+                                  month: "numeric",
+                                })}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+
+                        {visibleLanes.map((lane) => (
+                          <div
+                            key={lane.machine_id}
+                            className="flex items-center"
+                            data-testid={`gantt-lane-${lane.machine_id}`}
+                          >
+                            <div
+                              className="w-40 shrink-0 pr-2 text-sm text-right"
+                              dir="rtl"
+                            >
+                              <div className="font-medium truncate">
+                                {lane.name_ar || lane.name}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {MACHINE_TYPE_LABELS[lane.type]} -{" "}
+                                {formatNumber(lane.load_hours)} ساعة
+                              </div>
+                            </div>
+                            <div className="relative flex-1 h-10 bg-gray-100 rounded">
+                              {timeline.ticks.map((tick) => (
+                                <div
+                                  key={tick}
+                                  className="absolute top-0 bottom-0 border-l border-dashed border-gray-300"
+                                  style={{
+                                    left: `${((tick - timeline.start) / timeline.span) * 100}%`,
+                                  }}
+                                />
+                              ))}
+                              {lane.operations.map((operation) => (
+                                <div
+                                  key={`${operation.production_order_id}-${operation.stage}`}
+                                  className={`absolute top-1 bottom-1 rounded text-white text-[10px] px-1 overflow-hidden whitespace-nowrap ${
+                                    STAGE_COLORS[operation.stage]
+                                  } ${operation.is_late ? "border-2 border-red-600" : ""}`}
+                                  style={{
+                                    left: `${position(operation.start)}%`,
+                                    width: `${Math.max(
+                                      position(operation.end) -
+                                        position(operation.start),
+                                      0.3,
+                                    )}%`,
+                                  }}
+                                  title={`${operation.production_order_number} - ${
+                                    STAGE_LABELS[operation.stage]
+                                  }\n${formatNumber(operation.quantity_kg)} كجم - ${formatNumber(
+                                    operation.hours,
+                                  )} ساعة\n${formatDateTime(operation.start)} ← ${formatDateTime(
+                                    operation.end,
+                                  )}`}
+                                >
+                                  {operation.production_order_number}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <CalendarClock className="w-5 h-5" />
+                    الإنجاز المتوقع لأوامر الإنتاج
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {schedule.orders.length === 0 ? (
+                    <div className="text-center py-8 text-sm text-muted-foreground">
+                      لا توجد أوامر إنتاج مفتوحة
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                              أمر الإنتاج
+                            </th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                              الطلب / العميل
+                            </th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                              الحجم
+                            </th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                              المراحل
+                            </th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                              تاريخ التسليم
+                            </th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                              الإنجاز المتوقع
+                            </th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500">
+                              الحالة
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {schedule.orders.map((order) => (
+                            <tr key={order.production_order_id}>
+                              <td className="px-4 py-2 text-sm font-medium">
+                                {order.production_order_number}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-500">
+                                {order.order_number} -{" "}
+                                {order.customer_name_ar || order.customer_name}
+                              </td>
+                              <td className="px-4 py-2 text-sm">
+                                {order.size_caption || "-"}{" "}
+                                <Badge variant="outline">
+                                  {SIZE_CLASS_LABELS[order.size_class]}
+                                </Badge>
+                              </td>
+                              <td className="px-4 py-2 text-xs text-gray-600">
+                                {order.operations.map((operation) => (
+                                  <div key={operation.stage}>
+                                    {STAGE_LABELS[operation.stage]}:{" "}
+                                    {operation.machine_id} -{" "}
+                                    {formatNumber(operation.quantity_kg)} كجم
+                                  </div>
+                                ))}
+                                {order.unscheduled.map((item) => (
+                                  <div
+                                    key={item.stage}
+                                    className="text-amber-600"
+                                  >
+                                    {item.reason}
+                                  </div>
+                                ))}
+                              </td>
+                              <td className="px-4 py-2 text-sm">
+                                {order.delivery_date || "-"}
+                              </td>
+                              <td className="px-4 py-2 text-sm">
+                                {formatDateTime(order.projected_completion)}
+                              </td>
+                              <td className="px-4 py-2">
+                                {order.unscheduled.length > 0 ? (
+                                  <Badge variant="secondary">
+                                    تعذرت الجدولة
+                                  </Badge>
+                                ) : order.is_late ? (
+                                  <Badge variant="destructive">
+                                    <Clock className="w-3 h-3 ml-1" />
+                                    متأخر {formatNumber(order.delay_hours)} ساعة
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="default">في الموعد</Badge>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,60 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import Header from "../components/layout/Header";
 import Sidebar from "../components/layout/Sidebar";
 import MobileNav from "../components/layout/MobileNav";
 import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
 import {
   Card,
   CardContent,
   CardHeader,
   CardTitle,
 } from "../components/ui/card";
-import { CheckCircle2, XCircle, AlertTriangle, Clock } from "lucide-react";
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "../components/ui/tabs";
+import QualityCheckDialog from "../components/quality/QualityCheckDialog";
+import QualityCheckDetailsDialog from "../components/quality/QualityCheckDetailsDialog";
+import HeldRollsPanel from "../components/quality/HeldRollsPanel";
+import InspectionPlansManager from "../components/quality/InspectionPlansManager";
+import DefectTypesManager from "../components/quality/DefectTypesManager";
+import {
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  Clock,
+  Plus,
+} from "lucide-react";
 import { formatNumber, formatPercentage } from "../lib/formatNumber";
 
+const STAGE_LABELS: Record<string, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+};
+
+const DISPOSITION_LABELS: Record<string, string> = {
+  release: "إفراج",
+  rework: "إعادة تشغيل",
+  scrap: "إتلاف",
+};
+
 export default function Quality() {
+  const [checkDialogOpen, setCheckDialogOpen] = useState(false);
+  const [selectedCheckId, setSelectedCheckId] = useState<number | null>(null);
+
   const { data: qualityChecks, isLoading } = useQuery({
     queryKey: ["/api/quality-checks"],
   });
 
+  const { data: heldRolls = [] } = useQuery<any[]>({
+    queryKey: ["/api/quality/held-rolls"],
+  });
+
   const getStatusIcon = (result: string) => {
     switch (result) {
       case "pass":
@@ -52,13 +90,22 @@ export default function Quality() {
         <MobileNav />
 
         <main className="flex-1 lg:mr-64 p-4 pb-20 lg:pb-4">
-          <div className="mb-6">
-            <h1 className="text-2xl font-bold text-gray-900 mb-2">
-              إدارة الجودة
-            </h1>
-            <p className="text-gray-600">
-              مراقبة فحوصات الجودة ومعايير الإنتاج
-            </p>
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                إدارة الجودة
+              </h1>
+              <p className="text-gray-600">
+                مراقبة فحوصات الجودة ومعايير الإنتاج
+              </p>
+            </div>
+            <Button
+              onClick={() => setCheckDialogOpen(true)}
+              data-testid="button-new-quality-check"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              فحص جديد
+            </Button>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
@@ -151,98 +198,160 @@ export default function Quality() {
             </Card>
           </div>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>فحوصات الجودة الأخيرة</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {isLoading ? (
-                <div className="text-center py-8">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
-                  <p className="mt-2 text-sm text-muted-foreground">
-                    جاري التحميل...
-                  </p>
-                </div>
-              ) : (
-                <div className="overflow-x-auto">
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                          رقم الرولة
-                        </th>
-                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                          نوع الفحص
-                        </th>
-                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                          النتيجة
-                        </th>
-                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                          الملاحظات
-                        </th>
-                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                          المفتش
-                        </th>
-                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                          التاريخ
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {Array.isArray(qualityChecks) ? (
-                        qualityChecks.map((check: any) => (
-                          <tr key={check.id} className="hover:bg-gray-50">
-                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                              {check.roll_number}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {check.check_type}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex items-center gap-2">
-                                {getStatusIcon(check.result)}
-                                <Badge
-                                  variant={
-                                    check.result === "pass"
-                                      ? "default"
-                                      : check.result === "fail"
-                                        ? "destructive"
-                                        : "secondary"
-                                  }
-                                >
-                                  {getStatusText(check.result)}
-                                </Badge>
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
-                              {check.notes || "-"}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {check.inspector_name}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {new Date(check.checked_at).toLocaleDateString(
-                                "ar",
-                              )}
-                            </td>
-                          </tr>
-                        ))
-                      ) : (
+          <Tabs defaultValue="checks" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="checks">الفحوصات</TabsTrigger>
+              <TabsTrigger value="held">
+                الرولات الموقوفة
+                {heldRolls.length > 0 && (
+                  <Badge variant="destructive" className="mr-2">
+                    {heldRolls.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="plans">خطط الفحص</TabsTrigger>
+              <TabsTrigger value="defects">أنواع العيوب</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="checks">
+            <Card>
+              <CardHeader>
+                <CardTitle>فحوصات الجودة الأخيرة</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="text-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      جاري التحميل...
+                    </p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
                         <tr>
-                          <td
-                            colSpan={6}
-                            className="px-6 py-4 text-center text-gray-500"
-                          >
-                            لا توجد بيانات متاحة
-                          </td>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                            رقم الرولة
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                            المرحلة
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                            النتيجة
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                            العيوب / القياسات
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                            قرار الجودة
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                            المفتش
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                            التاريخ
+                          </th>
                         </tr>
-                      )}
-                    </tbody>
-                  </table>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {Array.isArray(qualityChecks) ? (
+                          qualityChecks.map((check: any) => (
+                            <tr
+                              key={check.id}
+                              className="hover:bg-gray-50 cursor-pointer"
+                              onClick={() => setSelectedCheckId(check.id)}
+                            >
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                {check.roll_number}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {STAGE_LABELS[check.stage] || check.stage || "-"}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="flex items-center gap-2">
+                                  {getStatusIcon(check.result)}
+                                  <Badge
+                                    variant={
+                                      check.result === "pass"
+                                        ? "default"
+                                        : check.result === "fail"
+                                          ? "destructive"
+                                          : "secondary"
+                                    }
+                                  >
+                                    {getStatusText(check.result)}
+                                  </Badge>
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
+                                {check.defects_count > 0 &&
+                                  `${formatNumber(check.defects_count)} عيب`}
+                                {check.defects_count > 0 &&
+                                  check.out_of_tolerance_count > 0 &&
+                                  " - "}
+                                {check.out_of_tolerance_count > 0 &&
+                                  `${formatNumber(check.out_of_tolerance_count)} قياس خارج التفاوت`}
+                                {!check.defects_count &&
+                                  !check.out_of_tolerance_count &&
+                                  (check.notes || "-")}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {check.disposition
+                                  ? DISPOSITION_LABELS[check.disposition]
+                                  : check.result === "fail"
+                                    ? "بانتظار القرار"
+                                    : "-"}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {check.checked_by_name || "-"}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {new Date(check.created_at).toLocaleDateString(
+                                  "ar",
+                                )}
+                              </td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td
+                              colSpan={7}
+                              className="px-6 py-4 text-center text-gray-500"
+                            >
+                              لا توجد بيانات متاحة
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            </TabsContent>
+
+            <TabsContent value="held">
+              <HeldRollsPanel />
+            </TabsContent>
+
+            <TabsContent value="plans">
+              <InspectionPlansManager />
+            </TabsContent>
+
+            <TabsContent value="defects">
+              <DefectTypesManager />
+            </TabsContent>
+          </Tabs>
+
+          <QualityCheckDialog
+            open={checkDialogOpen}
+            onOpenChange={setCheckDialogOpen}
+          />
+          <QualityCheckDetailsDialog
+            checkId={selectedCheckId}
+            onClose={() => setSelectedCheckId(null)}
+          />
         </main>
       </div>
     </div>
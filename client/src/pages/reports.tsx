@@ -52,6 +52,7 @@ import {
   Zap,
   Clock,
   Target,
+  Trash2,
 } from "lucide-react";
 import { format } from "date-fns";
 import { ar } from "date-fns/locale";
@@ -63,6 +64,7 @@ import {
   ComboChart,
   MetricsGrid,
 } from "../components/charts";
+import WasteAnalysisTab from "../components/reports/WasteAnalysisTab";
 
 export default function Reports() {
   const [dateRange, setDateRange] = useState<{ from?: Date; to?: Date }>({});
@@ -191,6 +193,11 @@ export default function Reports() {
       label: "تقارير الموارد البشرية",
       icon: <Users className="w-4 h-4" />,
     },
+    {
+      value: "waste",
+      label: "تحليل الهدر",
+      icon: <Trash2 className="w-4 h-4" />,
+    },
     {
       value: "financial",
       label: "التقارير المالية",
@@ -393,7 +400,7 @@ export default function Reports() {
 
           {/* Report Content */}
           <Tabs value={reportType} onValueChange={setReportType}>
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-6">
               {reportTypes.map((type) => (
                 <TabsTrigger
                   key={type.value}
@@ -1214,6 +1221,11 @@ export default function Reports() {
             </TabsContent>
 
             {/* Financial/Orders Reports */}
+            {/* Waste Analysis */}
+            <TabsContent value="waste">
+              <WasteAnalysisTab from={from} to={to} />
+            </TabsContent>
+
             <TabsContent value="financial">
               {isLoading ? (
                 <div
@@ -0,0 +1,584 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import Header from "../components/layout/Header";
+import Sidebar from "../components/layout/Sidebar";
+import MobileNav from "../components/layout/MobileNav";
+import RecordHistoryPanel from "../components/audit/RecordHistoryPanel";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "../components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  ArrowLeft,
+  ClipboardCheck,
+  Factory,
+  History,
+  Package,
+  QrCode,
+  Scissors,
+  Search,
+  Trash2,
+  User,
+  Warehouse,
+} from "lucide-react";
+
+const STAGE_LABELS: Record<string, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+  done: "مكتمل",
+};
+
+const EVENT_ICONS: Record<string, typeof Factory> = {
+  roll_created: Factory,
+  printed: Factory,
+  cut: Scissors,
+  cut_completed: Scissors,
+  received: Warehouse,
+  waste: Trash2,
+  quality_check: ClipboardCheck,
+  completed: Package,
+};
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString("ar") : "-";
+
+/**
+ * استخراج رقم الرول من نص رمز QR (JSON) أو من رابط التتبع أو من الرقم مباشرة
+ */
+function parseScannedCode(text: string): string {
+  const value = text.trim();
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === "object" && parsed.roll_number) {
+      return String(parsed.roll_number);
+    }
+  } catch {
+    // ليس JSON - نتابع
+  }
+  const match = value.match(/\/trace\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : value;
+}
+
+function InfoRow({ label, value }: { label: string; value?: any }) {
+  return (
+    <div className="flex justify-between gap-2 text-sm py-1">
+      <span className="text-gray-500">{label}</span>
+      <span className="font-medium text-gray-900">{value ?? "-"}</span>
+    </div>
+  );
+}
+
+function RollTraceView({ rollRef }: { rollRef: string }) {
+  const { data: trace, isLoading, error } = useQuery<any>({
+    queryKey: [`/api/rolls/${encodeURIComponent(rollRef)}/trace`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8 text-gray-500">جاري التحميل...</div>
+    );
+  }
+
+  if (error || !trace) {
+    return (
+      <div className="text-center py-8 text-red-600">
+        {(error as Error)?.message || "الرول غير موجود"}
+      </div>
+    );
+  }
+
+  const { roll, production_order, order, customer, customer_product } = trace;
+
+  return (
+    <div className="space-y-4">
+      {/* سلسلة التتبع */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <User className="w-4 h-4 text-blue-500" />
+              العميل
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <InfoRow
+              label="الاسم"
+              value={customer?.name_ar || customer?.name}
+            />
+            <InfoRow label="الكود" value={customer?.id} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Package className="w-4 h-4 text-purple-500" />
+              الطلب
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <InfoRow label="رقم الطلب" value={order?.order_number} />
+            <InfoRow label="تاريخ الطلب" value={formatDateTime(order?.created_at)} />
+            <InfoRow label="تاريخ التسليم" value={order?.delivery_date} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Factory className="w-4 h-4 text-orange-500" />
+              أمر الإنتاج
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <InfoRow
+              label="رقم الأمر"
+              value={production_order?.production_order_number}
+            />
+            <InfoRow label="المنتج" value={customer_product?.size_caption} />
+            <InfoRow label="المادة الخام" value={customer_product?.raw_material} />
+            <InfoRow
+              label="الكمية"
+              value={`${production_order?.quantity_kg ?? "-"} كغ`}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <QrCode className="w-4 h-4 text-green-500" />
+              الرول
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <InfoRow label="رقم الرول" value={roll.roll_number} />
+            <InfoRow
+              label="المرحلة"
+              value={STAGE_LABELS[roll.stage] || roll.stage}
+            />
+            <InfoRow label="الوزن" value={`${roll.weight_kg} كغ`} />
+            <InfoRow label="الهدر" value={`${roll.waste_kg} كغ`} />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* المكائن والمشغلون */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">المكائن والمشغلون</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 text-right">المرحلة</th>
+                <th className="p-2 text-right">الماكينة</th>
+                <th className="p-2 text-right">المشغل</th>
+                <th className="p-2 text-right">الوقت</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t">
+                <td className="p-2">فيلم</td>
+                <td className="p-2">{roll.film_machine_name || "-"}</td>
+                <td className="p-2">{roll.created_by_name || "-"}</td>
+                <td className="p-2">{formatDateTime(roll.created_at)}</td>
+              </tr>
+              <tr className="border-t">
+                <td className="p-2">طباعة</td>
+                <td className="p-2">{roll.printing_machine_name || "-"}</td>
+                <td className="p-2">{roll.printed_by_name || "-"}</td>
+                <td className="p-2">{formatDateTime(roll.printed_at)}</td>
+              </tr>
+              <tr className="border-t">
+                <td className="p-2">تقطيع</td>
+                <td className="p-2">{roll.cutting_machine_name || "-"}</td>
+                <td className="p-2">{roll.cut_by_name || "-"}</td>
+                <td className="p-2">{formatDateTime(roll.cut_completed_at)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* القطع واستلام المستودع */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Scissors className="w-4 h-4" />
+              القطع واستلام المستودع ({trace.cuts.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {trace.cuts.length === 0 ? (
+              <p className="text-sm text-gray-500">لا توجد قطع مسجلة</p>
+            ) : (
+              trace.cuts.map((cut: any) => (
+                <div key={cut.id} className="border rounded-md p-2 text-sm">
+                  <div className="flex justify-between">
+                    <span>
+                      {cut.cut_weight_kg} كغ
+                      {cut.pieces_count ? ` - ${cut.pieces_count} قطعة` : ""}
+                    </span>
+                    <span className="text-gray-500">
+                      {formatDateTime(cut.created_at)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    الماكينة: {cut.cutting_machine_name || "-"} - المشغل:{" "}
+                    {cut.performed_by_name || "-"}
+                  </div>
+                  {cut.receipts.map((receipt: any) => (
+                    <div
+                      key={receipt.id}
+                      className="mt-1 flex items-center gap-1 text-xs text-green-700"
+                    >
+                      <Warehouse className="w-3 h-3" />
+                      استلام {receipt.received_weight_kg} كغ بواسطة{" "}
+                      {receipt.received_by_name || "-"} في{" "}
+                      {formatDateTime(receipt.created_at)}
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* الهدر وفحوصات الجودة */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <ClipboardCheck className="w-4 h-4" />
+              الجودة والهدر
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {trace.quality_checks.length === 0 && trace.waste.length === 0 && (
+              <p className="text-sm text-gray-500">
+                لا توجد فحوصات جودة أو هدر مسجل
+              </p>
+            )}
+            {trace.quality_checks.map((check: any) => (
+              <div
+                key={`qc-${check.id}`}
+                className="flex justify-between border rounded-md p-2 text-sm"
+              >
+                <span>
+                  <Badge
+                    variant={check.result === "fail" ? "destructive" : "default"}
+                    className="ml-2"
+                  >
+                    {check.result === "pass"
+                      ? "مُجتاز"
+                      : check.result === "fail"
+                        ? "راسب"
+                        : check.result || "-"}
+                  </Badge>
+                  {check.checked_by_name || "-"}
+                  {check.notes ? ` - ${check.notes}` : ""}
+                </span>
+                <span className="text-gray-500">
+                  {formatDateTime(check.created_at)}
+                </span>
+              </div>
+            ))}
+            {trace.waste.map((entry: any) => (
+              <div
+                key={`waste-${entry.id}`}
+                className="flex justify-between border rounded-md p-2 text-sm"
+              >
+                <span>
+                  <Trash2 className="w-3 h-3 inline ml-1 text-red-500" />
+                  {entry.quantity_wasted} كغ
+                  {entry.reason ? ` - ${entry.reason}` : ""}
+                </span>
+                <span className="text-gray-500">
+                  {formatDateTime(entry.created_at)}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* الخط الزمني */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <History className="w-4 h-4" />
+            الخط الزمني
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="border-r-2 border-gray-200 pr-4 space-y-3">
+            {trace.timeline.map((event: any, index: number) => {
+              const Icon = EVENT_ICONS[event.type] || History;
+              return (
+                <li key={index} className="relative text-sm">
+                  <span className="absolute -right-[1.4rem] top-1 w-2.5 h-2.5 rounded-full bg-blue-500" />
+                  <div className="flex items-center gap-2 font-medium">
+                    <Icon className="w-4 h-4 text-gray-500" />
+                    {event.description}
+                    {event.weight_kg && (
+                      <span className="text-gray-500">
+                        ({event.weight_kg} كغ)
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDateTime(event.at)}
+                    {event.machine ? ` - ${event.machine}` : ""}
+                    {event.operator ? ` - ${event.operator}` : ""}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+          <div className="mt-4">
+            <RecordHistoryPanel tableName="rolls" recordId={roll.id} />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function AffectedRollsLookup() {
+  const [, navigate] = useLocation();
+  const [machineId, setMachineId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [params, setParams] = useState<{
+    machine_id: string;
+    from: string;
+    to: string;
+  } | null>(null);
+
+  const { data: machines = [] } = useQuery<any[]>({
+    queryKey: ["/api/machines"],
+  });
+
+  const {
+    data: affected = [],
+    isFetching,
+    error,
+  } = useQuery<any[]>({
+    queryKey: ["/api/rolls/affected", params ?? {}],
+    enabled: !!params,
+  });
+
+  const handleSearch = () => {
+    if (!machineId || !from || !to) return;
+    setParams({
+      machine_id: machineId,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-1">
+            <Label>الماكينة</Label>
+            <Select value={machineId} onValueChange={setMachineId}>
+              <SelectTrigger>
+                <SelectValue placeholder="اختر الماكينة" />
+              </SelectTrigger>
+              <SelectContent>
+                {machines.map((machine: any) => (
+                  <SelectItem key={machine.id} value={String(machine.id)}>
+                    {machine.name_ar || machine.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>من</Label>
+            <Input
+              type="datetime-local"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>إلى</Label>
+            <Input
+              type="datetime-local"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={handleSearch}
+            disabled={!machineId || !from || !to || isFetching}
+          >
+            <Search className="w-4 h-4 ml-2" />
+            بحث
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="text-center text-red-600 text-sm">
+          {(error as Error).message}
+        </div>
+      )}
+
+      {params && !isFetching && !error && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">
+              الرولات المتأثرة ({affected.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {affected.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                لا توجد رولات عملت عليها الماكينة خلال هذه الفترة
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="p-2 text-right">رقم الرول</th>
+                    <th className="p-2 text-right">أمر الإنتاج</th>
+                    <th className="p-2 text-right">العميل</th>
+                    <th className="p-2 text-right">المراحل المتأثرة</th>
+                    <th className="p-2 text-right">الوقت</th>
+                    <th className="p-2 text-right">الحالة</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {affected.map((roll: any) => (
+                    <tr key={roll.id} className="border-t">
+                      <td className="p-2 font-medium">{roll.roll_number}</td>
+                      <td className="p-2">{roll.production_order_number}</td>
+                      <td className="p-2">{roll.customer_name || "-"}</td>
+                      <td className="p-2 space-x-1 space-x-reverse">
+                        {roll.matched_stages.map((stage: string) => (
+                          <Badge key={stage} variant="outline">
+                            {STAGE_LABELS[stage]}
+                          </Badge>
+                        ))}
+                      </td>
+                      <td className="p-2">{formatDateTime(roll.stage_at)}</td>
+                      <td className="p-2">
+                        {STAGE_LABELS[roll.stage] || roll.stage}
+                      </td>
+                      <td className="p-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate(`/trace/${roll.id}`)}
+                        >
+                          تتبع
+                          <ArrowLeft className="w-3 h-3 mr-1" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default function RollTrace() {
+  const params = useParams<{ ref?: string }>();
+  const [, navigate] = useLocation();
+  const [code, setCode] = useState("");
+  const rollRef = params.ref ? decodeURIComponent(params.ref) : "";
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ref = parseScannedCode(code);
+    if (!ref) return;
+    setCode("");
+    navigate(`/trace/${encodeURIComponent(ref)}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="flex">
+        <Sidebar />
+        <MobileNav />
+
+        <main className="flex-1 lg:mr-64 p-4 pb-20 lg:pb-4">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              تتبع الرولات
+            </h1>
+            <p className="text-gray-600">
+              تتبع الرول من العميل حتى استلام المستودع والبحث عن الرولات
+              المتأثرة بماكينة
+            </p>
+          </div>
+
+          <Tabs defaultValue="trace">
+            <TabsList className="mb-4">
+              <TabsTrigger value="trace">تتبع رول</TabsTrigger>
+              <TabsTrigger value="affected">بحث عكسي بالماكينة</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="trace" className="space-y-4">
+              <form onSubmit={handleScan} className="flex gap-2">
+                <Input
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="امسح رمز QR أو أدخل رقم الرول"
+                  data-testid="input-trace-code"
+                />
+                <Button type="submit" disabled={!code.trim()}>
+                  <QrCode className="w-4 h-4 ml-2" />
+                  تتبع
+                </Button>
+              </form>
+
+              {rollRef ? (
+                <RollTraceView rollRef={rollRef} />
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  امسح رمز QR الخاص بالرول لعرض سلسلة التتبع الكاملة
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="affected">
+              <AffectedRollsLookup />
+            </TabsContent>
+          </Tabs>
+        </main>
+      </div>
+    </div>
+  );
+}
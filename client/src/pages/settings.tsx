@@ -55,9 +55,15 @@ import {
   Webhook,
 } from "lucide-react";
 import RoleManagementTab from "../components/RoleManagementTab";
-import { canAccessSettingsTab } from "../utils/roleUtils";
+import { canAccessSettingsTab, userHasPermission } from "../utils/roleUtils";
 import NotificationCenter from "../components/notifications/NotificationCenter";
 import WhatsAppWebhooksTab from "../components/settings/WhatsAppWebhooksTab";
+import BackupSchedulePanel from "../components/settings/BackupSchedulePanel";
+import ChangePasswordForm from "../components/settings/ChangePasswordForm";
+import SecurityPolicyPanel from "../components/settings/SecurityPolicyPanel";
+import ActiveSessionsPanel from "../components/settings/ActiveSessionsPanel";
+import TwoFactorPanel from "../components/settings/TwoFactorPanel";
+import ApiTokensPanel from "../components/settings/ApiTokensPanel";
 
 export default function Settings() {
   const { user } = useAuth();
@@ -133,6 +139,7 @@ export default function Settings() {
       start: "08:00",
       end: "17:00",
     },
+    attendanceGeofenceMode: "flag",
     shifts: [
       { id: 1, name: "الصباحية", start: "08:00", end: "16:00" },
       { id: 2, name: "المسائية", start: "16:00", end: "00:00" },
@@ -162,6 +169,8 @@ export default function Settings() {
           start: settingsObj.workingHoursStart || prev.workingHours.start,
           end: settingsObj.workingHoursEnd || prev.workingHours.end,
         },
+        attendanceGeofenceMode:
+          settingsObj.attendanceGeofenceMode || prev.attendanceGeofenceMode,
       }));
     }
   }, [systemSettingsData]);
@@ -223,186 +232,84 @@ export default function Settings() {
     {},
   );
   const [importOptions, setImportOptions] = useState({
-    batchSize: 1000,
-    skipFirstRow: true,
-    updateExisting: false,
-    validateData: true,
-    continueOnError: false,
+    mode: "all_or_nothing" as "all_or_nothing" | "skip_invalid",
+    preserveIds: false,
   });
+  const [importFile, setImportFile] = useState<{
+    format: string;
+    data: string;
+  } | null>(null);
+  const [importTotalRows, setImportTotalRows] = useState(0);
   const [importProgress, setImportProgress] = useState({
     processing: false,
-    current: 0,
-    total: 0,
-    percentage: 0,
     errors: [] as string[],
     warnings: [] as string[],
   });
+  const [importReport, setImportReport] = useState<any>(null);
 
-  // Import table data mutation
-  const importTableMutation = useMutation({
-    mutationFn: async ({
-      tableName,
-      file,
-    }: {
-      tableName: string;
-      file: File;
-    }) => {
-      const fileText = await file.text();
-      const format = file.name.endsWith(".json")
-        ? "json"
-        : file.name.endsWith(".xlsx")
-          ? "excel"
-          : "csv";
-
-      return await apiRequest(`/api/database/import/${tableName}`, {
-        method: "POST",
-        body: JSON.stringify({ data: fileText, format }),
-      });
-    },
-    onSuccess: (data: any) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/database/stats"] });
-      setSelectedFile(null);
-      toast({
-        title: "تم استيراد البيانات بنجاح",
-        description: `تم استيراد ${data.count || data.importedRecords} سجل من أصل ${data.totalRows || data.count} سجل`,
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "خطأ في استيراد البيانات",
-        description:
-          error instanceof Error
-            ? error.message
-            : "حدث خطأ أثناء استيراد البيانات",
-        variant: "destructive",
-      });
-    },
+  // جداول المخطط وأعمدتها لربط أعمدة الملف
+  const { data: schemaTables = [] } = useQuery<
+    { name: string; columns: string[]; required: string[] }[]
+  >({
+    queryKey: ["/api/database/tables"],
+    enabled: !!user,
   });
 
-  // Get table schema for column mapping
-  const getTableSchema = (tableName: string) => {
-    const schemas: { [key: string]: string[] } = {
-      customers: [
-        "id",
-        "name",
-        "name_ar",
-        "phone",
-        "email",
-        "address",
-        "status",
-      ],
-      categories: ["id", "name", "name_ar", "description"],
-      sections: ["id", "name", "name_ar", "description"],
-      items: ["id", "category_id", "name", "name_ar"],
-      users: ["id", "username", "display_name", "display_name_ar", "role_id"],
-      machines: ["id", "name", "name_ar", "type", "status"],
-      locations: ["id", "name", "name_ar", "type"],
-      customer_products: [
-        "id",
-        "customer_id",
-        "category_id",
-        "item_id",
-        "size_caption",
-        "width",
-        "left_facing",
-        "right_facing",
-        "thickness",
-        "printing_cylinder",
-        "cutting_length_cm",
-        "raw_material",
-        "master_batch_id",
-        "is_printed",
-        "cutting_unit",
-        "punching",
-        "unit_weight_kg",
-        "unit_quantity",
-        "package_weight_kg",
-        "cliche_front_design",
-        "cliche_back_design",
-        "notes",
-        "status",
-        "created_at",
-      ],
-      orders: ["id", "customer_id", "order_date", "status", "total_amount"],
-      production_orders: [
-        "id",
-        "order_id",
-        "customer_product_id",
-        "quantity_kg",
-        "status",
-      ],
+  const getTableSchema = (tableName: string) =>
+    schemaTables.find((table) => table.name === tableName)?.columns || [];
+
+  const isRequiredColumn = (tableName: string, column: string) =>
+    !!schemaTables
+      .find((table) => table.name === tableName)
+      ?.required.includes(column);
+
+  // CSV و JSON تُرسل كنص، و XLSX بترميز base64
+  const readImportFile = async (file: File) => {
+    if (file.name.endsWith(".xlsx")) {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      let binary = "";
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(
+          ...Array.from(bytes.subarray(i, i + 0x8000)),
+        );
+      }
+      return { format: "xlsx", data: btoa(binary) };
+    }
+    return {
+      format: file.name.endsWith(".json") ? "json" : "csv",
+      data: await file.text(),
     };
-    return schemas[tableName] || [];
   };
 
-  // Parse file data based on format
-  const parseFileData = async (file: File) => {
+  // Parse file data on the server and suggest column mapping
+  const parseFileData = async (file: File, tableName = selectedTable) => {
     try {
-      const fileText = await file.text();
-      let data: any[] = [];
-      let headers: string[] = [];
-
-      if (file.name.endsWith(".json")) {
-        const jsonData = JSON.parse(fileText);
-        if (Array.isArray(jsonData) && jsonData.length > 0) {
-          data = jsonData;
-          headers = Object.keys(jsonData[0]);
-        }
-      } else if (file.name.endsWith(".csv")) {
-        const lines = fileText.split("\n").filter((line) => line.trim());
-        if (lines.length > 0) {
-          headers = lines[0].split(",").map((h) => h.trim().replace(/"/g, ""));
-          data = lines.slice(1).map((line) => {
-            const values = line
-              .split(",")
-              .map((v) => v.trim().replace(/"/g, ""));
-            const row: any = {};
-            headers.forEach((header, index) => {
-              row[header] = values[index] || "";
-            });
-            return row;
-          });
-        }
-      } else if (file.name.endsWith(".xlsx")) {
-        // For Excel files, we'll parse them on the server side
-        headers = ["Column 1", "Column 2", "Column 3"]; // Placeholder
-        data = [
-          {
-            "Column 1": "سيتم تحليل ملف Excel على الخادم",
-            "Column 2": "",
-            "Column 3": "",
-          },
-        ];
-      }
-
-      setFileData(data); // Show all rows for import
-      setFileHeaders(headers);
-
-      // Auto-map common column names
-      const tableSchema = getTableSchema(selectedTable);
-      const autoMapping: { [key: string]: string } = {};
-      tableSchema.forEach((schemaCol) => {
-        const matchingHeader = headers.find(
-          (header) =>
-            header.toLowerCase().includes(schemaCol.toLowerCase()) ||
-            schemaCol.toLowerCase().includes(header.toLowerCase()),
-        );
-        if (matchingHeader) {
-          autoMapping[schemaCol] = matchingHeader;
-        }
-      });
-      setColumnMapping(autoMapping);
+      const payload = await readImportFile(file);
+      const response = await apiRequest(
+        `/api/database/import/${tableName}/preview`,
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+        },
+      );
+      const preview = await response.json();
 
+      setImportFile(payload);
+      setImportTotalRows(preview.totalRows);
+      setFileData(preview.sample);
+      setFileHeaders(preview.headers);
+      setColumnMapping(preview.suggestedMapping);
       setImportStep(2);
 
       toast({
         title: "تم تحليل الملف بنجاح",
-        description: `تم العثور على ${data.length} سجل و ${headers.length} عمود`,
+        description: `تم العثور على ${preview.totalRows} سجل و ${preview.headers.length} عمود`,
       });
     } catch (error) {
       toast({
         title: "خطأ في تحليل الملف",
-        description: "تأكد من صحة تنسيق الملف",
+        description:
+          error instanceof Error ? error.message : "تأكد من صحة تنسيق الملف",
         variant: "destructive",
       });
     }
@@ -465,103 +372,56 @@ export default function Settings() {
     }
   };
 
-  // Enhanced batch import mutation
-  const batchImportMutation = useMutation({
+  // Schema-driven import with per-row validation report
+  const importTableMutation = useMutation({
     mutationFn: async ({
       tableName,
-      mappedData,
-      options,
+      mapping,
+      mode,
+      preserveIds,
     }: {
       tableName: string;
-      mappedData: any[];
-      options: typeof importOptions;
+      mapping: { [key: string]: string };
+      mode: "all_or_nothing" | "skip_invalid";
+      preserveIds: boolean;
     }) => {
-      setImportProgress((prev) => ({
-        ...prev,
-        processing: true,
-        total: mappedData.length,
-      }));
-
-      const results = {
-        successful: 0,
-        failed: 0,
-        errors: [] as string[],
-        warnings: [] as string[],
-      };
-
-      // Process in batches
-      for (let i = 0; i < mappedData.length; i += options.batchSize) {
-        const batch = mappedData.slice(i, i + options.batchSize);
-
-        try {
-          const response = await apiRequest(
-            `/api/database/import/${tableName}/batch`,
-            {
-              method: "POST",
-              body: JSON.stringify({
-                data: batch,
-                options: {
-                  ...options,
-                  batchNumber: Math.floor(i / options.batchSize) + 1,
-                  totalBatches: Math.ceil(
-                    mappedData.length / options.batchSize,
-                  ),
-                },
-              }),
-            },
-          );
-
-          const responseData = await response.json();
-
-          results.successful += responseData.successful || batch.length;
-          if (responseData.errors && responseData.errors.length > 0) {
-            results.errors.push(...responseData.errors);
-          }
-          if (responseData.warnings && responseData.warnings.length > 0) {
-            results.warnings.push(...responseData.warnings);
-          }
-        } catch (error) {
-          results.failed += batch.length;
-          results.errors.push(
-            `خطأ في الدفعة ${Math.floor(i / options.batchSize) + 1}: ${error}`,
-          );
-
-          if (!options.continueOnError) {
-            throw error;
-          }
-        }
-
-        // Update progress
-        setImportProgress((prev) => ({
-          ...prev,
-          current: Math.min(i + options.batchSize, mappedData.length),
-          percentage: Math.round(
-            (Math.min(i + options.batchSize, mappedData.length) /
-              mappedData.length) *
-              100,
-          ),
-          errors: results.errors,
-          warnings: results.warnings,
-        }));
-
-        // Small delay to prevent overwhelming the server
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
+      setImportProgress((prev) => ({ ...prev, processing: true }));
+      setImportStep(3);
 
-      return results;
+      const response = await apiRequest(`/api/database/import/${tableName}`, {
+        method: "POST",
+        body: JSON.stringify({
+          ...importFile,
+          mapping,
+          mode,
+          preserve_ids: preserveIds,
+        }),
+      });
+      return response.json();
     },
-    onSuccess: (results) => {
+    onSuccess: ({ report }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/database/stats"] });
-      setImportProgress((prev) => ({ ...prev, processing: false }));
-      setImportStep(3);
+      setImportReport(report);
+      setImportProgress({
+        processing: false,
+        errors: report.errors.map(
+          (error: any) =>
+            `السطر ${error.row}${error.column ? ` - ${error.column}` : ""}: ${error.message}`,
+        ),
+        warnings: report.committed
+          ? []
+          : ["تم إلغاء الاستيراد بالكامل ولم يتم حفظ أي سجل"],
+      });
 
       toast({
-        title: "اكتمل الاستيراد",
-        description: `تم استيراد ${results.successful} سجل بنجاح، ${results.failed} فشل`,
+        title: report.committed ? "اكتمل الاستيراد" : "فشل الاستيراد",
+        description: `تم استيراد ${report.inserted} سجل بنجاح، ${report.failed} فشل`,
+        variant: report.committed ? "default" : "destructive",
       });
     },
     onError: (error) => {
       setImportProgress((prev) => ({ ...prev, processing: false }));
+      setImportStep(2);
       toast({
         title: "خطأ في الاستيراد",
         description:
@@ -575,7 +435,7 @@ export default function Settings() {
 
   // Process and start import
   const handleStartImport = () => {
-    if (!selectedFile || !selectedTable || fileData.length === 0) {
+    if (!selectedFile || !selectedTable || !importFile) {
       toast({
         title: "بيانات ناقصة",
         description: "تأكد من اختيار الملف والجدول ووجود بيانات للاستيراد",
@@ -584,52 +444,41 @@ export default function Settings() {
       return;
     }
 
-    // Map the data according to column mapping
-    const mappedData = fileData.map((row) => {
-      const mappedRow: any = {};
-      Object.entries(columnMapping).forEach(([dbColumn, fileColumn]) => {
-        if (fileColumn && row[fileColumn] !== undefined) {
-          mappedRow[dbColumn] = row[fileColumn];
-        }
-      });
-      return mappedRow;
-    });
-
-    // Filter out empty rows
-    const validData = mappedData.filter((row) =>
-      Object.values(row).some(
-        (value) => value !== "" && value !== null && value !== undefined,
+    const mapping = Object.fromEntries(
+      Object.entries(columnMapping).filter(
+        ([, fileColumn]) => fileColumn && fileColumn !== "none",
       ),
     );
 
-    if (validData.length === 0) {
+    if (Object.keys(mapping).length === 0) {
       toast({
-        title: "لا توجد بيانات صالحة",
+        title: "لا توجد أعمدة مربوطة",
         description: "تأكد من ربط الأعمدة بشكل صحيح",
         variant: "destructive",
       });
       return;
     }
 
-    batchImportMutation.mutate({
+    importTableMutation.mutate({
       tableName: selectedTable,
-      mappedData: validData,
-      options: importOptions,
+      mapping,
+      mode: importOptions.mode,
+      preserveIds: importOptions.preserveIds,
     });
   };
 
   // Reset import wizard
   const resetImport = () => {
     setSelectedFile(null);
+    setImportFile(null);
+    setImportTotalRows(0);
+    setImportReport(null);
     setFileData([]);
     setFileHeaders([]);
     setColumnMapping({});
     setImportStep(1);
     setImportProgress({
       processing: false,
-      current: 0,
-      total: 0,
-      percentage: 0,
       errors: [],
       warnings: [],
     });
@@ -640,25 +489,47 @@ export default function Settings() {
     setSelectedTable(tableName);
     if (selectedFile && importStep === 1) {
       // Re-parse file with new table context
-      parseFileData(selectedFile);
+      parseFileData(selectedFile, tableName);
     }
   };
 
   // Database operations mutations
+  const downloadBackup = async (backupId: string) => {
+    const response = await fetch(`/api/database/backup/download/${backupId}`, {
+      credentials: "include",
+    });
+    if (!response.ok) throw new Error("Download failed");
+
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${backupId}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  };
+
   const createBackupMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest("/api/database/backup", {
+      const response = await apiRequest("/api/database/backup", {
         method: "POST",
       });
+      const { backup } = await response.json();
+      await downloadBackup(backup.backup_id);
+      return backup;
     },
-    onSuccess: () => {
+    onSuccess: (backup) => {
       queryClient.invalidateQueries({ queryKey: ["/api/database/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/database/backups"] });
       toast({
         title: "تم إنشاء النسخة الاحتياطية",
-        description: "تم إنشاء النسخة الاحتياطية بنجاح",
+        description: `تم حفظ ${backup.total_records.toLocaleString("ar-SA")} سجل من ${backup.table_count} جدول`,
       });
     },
     onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/database/backups"] });
       toast({
         title: "خطأ في إنشاء النسخة الاحتياطية",
         description: "حدث خطأ أثناء إنشاء النسخة الاحتياطية",
@@ -667,6 +538,71 @@ export default function Settings() {
     },
   });
 
+  // Restore: معاينة أولاً (dry-run) ثم تأكيد الاستعادة الفعلية
+  const [restoreBackupData, setRestoreBackupData] = useState<any>(null);
+  const [restorePreview, setRestorePreview] = useState<any>(null);
+
+  const resetRestore = () => {
+    setRestoreBackupData(null);
+    setRestorePreview(null);
+  };
+
+  const restoreDatabaseMutation = useMutation({
+    mutationFn: async ({
+      backupData,
+      dryRun,
+    }: {
+      backupData: any;
+      dryRun: boolean;
+    }) => {
+      const response = await apiRequest("/api/database/restore", {
+        method: "POST",
+        body: JSON.stringify({ backupData, dryRun }),
+      });
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      if (variables.dryRun) {
+        setRestorePreview(data.result);
+        return;
+      }
+      resetRestore();
+      queryClient.invalidateQueries();
+      toast({
+        title: "تمت الاستعادة",
+        description: `تم استعادة ${data.result.recordsRestored.toLocaleString("ar-SA")} سجل في ${data.result.tablesRestored} جدول`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "خطأ في استعادة قاعدة البيانات",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRestoreFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const backupData = JSON.parse(await file.text());
+      setRestoreBackupData(backupData);
+      setRestorePreview(null);
+      restoreDatabaseMutation.mutate({ backupData, dryRun: true });
+    } catch {
+      toast({
+        title: "ملف غير صالح",
+        description: "يجب اختيار ملف نسخة احتياطية بصيغة JSON",
+        variant: "destructive",
+      });
+    }
+  };
+
   const exportTableMutation = useMutation({
     mutationFn: async ({
       tableName,
@@ -824,6 +760,7 @@ export default function Settings() {
         region: settings.region,
         workingHoursStart: settings.workingHours.start,
         workingHoursEnd: settings.workingHours.end,
+        attendanceGeofenceMode: settings.attendanceGeofenceMode,
       };
 
       return await apiRequest("/api/settings/system", {
@@ -869,7 +806,7 @@ export default function Settings() {
           </div>
 
           <Tabs defaultValue="profile" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-7">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="profile" className="flex items-center gap-2">
                 <User className="w-4 h-4" />
                 الملف الشخصي
@@ -878,6 +815,10 @@ export default function Settings() {
                 <Shield className="w-4 h-4" />
                 الأدوار والصلاحيات
               </TabsTrigger>
+              <TabsTrigger value="security" className="flex items-center gap-2">
+                <Shield className="w-4 h-4" />
+                الأمان
+              </TabsTrigger>
               <TabsTrigger value="notifications" className="flex items-center gap-2">
                 <Bell className="w-4 h-4" />
                 التنبيهات
@@ -1399,6 +1340,33 @@ export default function Settings() {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label>تسجيل الحضور خارج نطاق الموقع</Label>
+                    <Select
+                      value={systemSettings.attendanceGeofenceMode}
+                      onValueChange={(value) =>
+                        setSystemSettings((prev) => ({
+                          ...prev,
+                          attendanceGeofenceMode: value,
+                        }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="flag">
+                          قبول مع مراجعة المشرف
+                        </SelectItem>
+                        <SelectItem value="reject">رفض التسجيل</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      يُطبق على الموظفين المحدد لهم موقع تسجيل حضور في تعريف
+                      المستخدم
+                    </p>
+                  </div>
+
                   <div className="flex justify-end">
                     <Button
                       onClick={handleSaveSystemSettings}
@@ -1470,17 +1438,145 @@ export default function Settings() {
                           <p className="text-xs text-muted-foreground">
                             استعادة قاعدة البيانات من نسخة احتياطية
                           </p>
+                          <input
+                            id="restore-backup-file"
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={handleRestoreFileSelect}
+                          />
                           <Button
                             variant="outline"
                             className="w-full"
                             size="sm"
+                            disabled={restoreDatabaseMutation.isPending}
+                            onClick={() =>
+                              document
+                                .getElementById("restore-backup-file")
+                                ?.click()
+                            }
                           >
-                            <Upload className="w-4 h-4 mr-2" />
-                            تحميل واستعادة
+                            {restoreDatabaseMutation.isPending ? (
+                              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <Upload className="w-4 h-4 mr-2" />
+                            )}
+                            تحميل ومعاينة
                           </Button>
                         </div>
                       </Card>
                     </div>
+
+                    {restorePreview && (
+                      <Card className="p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm font-medium">
+                            معاينة الاستعادة - {restorePreview.backupId}
+                          </Label>
+                          <Badge
+                            variant={
+                              restorePreview.schemaMatches
+                                ? "secondary"
+                                : "destructive"
+                            }
+                          >
+                            {restorePreview.schemaMatches
+                              ? "إصدار المخطط مطابق"
+                              : "إصدار المخطط مختلف"}
+                          </Badge>
+                        </div>
+
+                        {restorePreview.warnings.length > 0 && (
+                          <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/20 p-3 text-xs text-yellow-800 dark:text-yellow-200 space-y-1">
+                            {restorePreview.warnings.map(
+                              (warning: string, index: number) => (
+                                <p key={index}>{warning}</p>
+                              ),
+                            )}
+                          </div>
+                        )}
+
+                        <div className="max-h-64 overflow-auto border rounded-md">
+                          <table className="w-full text-xs">
+                            <thead className="bg-muted sticky top-0">
+                              <tr>
+                                <th className="p-2 text-right">الجدول</th>
+                                <th className="p-2">في النسخة</th>
+                                <th className="p-2">الحالي</th>
+                                <th className="p-2">إضافة</th>
+                                <th className="p-2">تحديث</th>
+                                <th className="p-2">حذف</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {restorePreview.tables
+                                .filter(
+                                  (table: any) =>
+                                    table.toInsert +
+                                      table.toUpdate +
+                                      table.toDelete >
+                                    0,
+                                )
+                                .map((table: any) => (
+                                  <tr key={table.table} className="border-t">
+                                    <td className="p-2 font-mono">
+                                      {table.table}
+                                    </td>
+                                    <td className="p-2 text-center">
+                                      {table.backupRows}
+                                    </td>
+                                    <td className="p-2 text-center">
+                                      {table.currentRows}
+                                    </td>
+                                    <td className="p-2 text-center text-green-600">
+                                      {table.toInsert}
+                                    </td>
+                                    <td className="p-2 text-center text-blue-600">
+                                      {table.toUpdate}
+                                    </td>
+                                    <td className="p-2 text-center text-red-600">
+                                      {table.toDelete}
+                                    </td>
+                                  </tr>
+                                ))}
+                            </tbody>
+                          </table>
+                        </div>
+
+                        <p className="text-xs text-muted-foreground">
+                          ستستبدل الاستعادة جميع بيانات قاعدة البيانات الحالية
+                          ضمن معاملة واحدة، ولن يتم تطبيق أي تغيير عند حدوث خطأ
+                        </p>
+
+                        <div className="flex gap-2 justify-end">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={resetRestore}
+                          >
+                            إلغاء
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={restoreDatabaseMutation.isPending}
+                            onClick={() =>
+                              restoreDatabaseMutation.mutate({
+                                backupData: restoreBackupData,
+                                dryRun: false,
+                              })
+                            }
+                          >
+                            {restoreDatabaseMutation.isPending && (
+                              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                            )}
+                            تأكيد الاستعادة
+                          </Button>
+                        </div>
+                      </Card>
+                    )}
+
+                    <BackupSchedulePanel />
                   </div>
 
                   <Separator />
@@ -1523,36 +1619,11 @@ export default function Settings() {
                               <SelectValue placeholder="اختر جدول للتصدير أو الاستيراد" />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="customers">
-                                العملاء (Customers)
-                              </SelectItem>
-                              <SelectItem value="categories">
-                                الفئات (Categories)
-                              </SelectItem>
-                              <SelectItem value="sections">
-                                الأقسام (Sections)
-                              </SelectItem>
-                              <SelectItem value="items">
-                                الأصناف (Items)
-                              </SelectItem>
-                              <SelectItem value="customer_products">
-                                منتجات العملاء (Customer Products)
-                              </SelectItem>
-                              <SelectItem value="users">
-                                المستخدمين (Users)
-                              </SelectItem>
-                              <SelectItem value="machines">
-                                الماكينات (Machines)
-                              </SelectItem>
-                              <SelectItem value="locations">
-                                المواقع (Locations)
-                              </SelectItem>
-                              <SelectItem value="orders">
-                                الطلبات (Orders)
-                              </SelectItem>
-                              <SelectItem value="production_orders">
-                                أوامر الإنتاج (Production Orders)
-                              </SelectItem>
+                              {schemaTables.map((table) => (
+                                <SelectItem key={table.name} value={table.name}>
+                                  {table.name}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
@@ -1683,7 +1754,7 @@ export default function Settings() {
                                     صيغ مدعومة: CSV, JSON, Excel (.xlsx)
                                   </p>
                                   <p className="text-xs text-blue-600 mt-1">
-                                    يدعم حتى 5000+ سجل مع معالجة الدفعات
+                                    يتم التحقق من كل سجل وإرجاع تقرير بالأخطاء
                                   </p>
                                   <input
                                     type="file"
@@ -1728,7 +1799,7 @@ export default function Settings() {
                                 معاينة البيانات وربط الأعمدة
                               </h5>
                               <Badge variant="secondary">
-                                {fileData.length} سجل
+                                {importTotalRows} سجل
                               </Badge>
                             </div>
 
@@ -1745,7 +1816,11 @@ export default function Settings() {
                                       className="flex items-center gap-2 text-sm"
                                     >
                                       <Label className="w-24 text-right font-medium">
-                                        {dbColumn}:
+                                        {dbColumn}
+                                        {isRequiredColumn(selectedTable, dbColumn) && (
+                                          <span className="text-red-500">*</span>
+                                        )}
+                                        :
                                       </Label>
                                       <Select
                                         value={columnMapping[dbColumn] || ""}
@@ -1784,64 +1859,46 @@ export default function Settings() {
                               <Label className="text-sm font-medium">
                                 خيارات الاستيراد
                               </Label>
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-3 border rounded-lg bg-gray-50">
-                                <div className="space-y-2">
-                                  <Label className="text-xs">حجم الدفعة</Label>
-                                  <Select
-                                    value={importOptions.batchSize.toString()}
-                                    onValueChange={(value) =>
+                              <div className="p-3 border rounded-lg bg-gray-50 space-y-2">
+                                <Label className="text-xs">
+                                  التعامل مع السجلات غير الصالحة
+                                </Label>
+                                <Select
+                                  value={importOptions.mode}
+                                  onValueChange={(value) =>
+                                    setImportOptions((prev) => ({
+                                      ...prev,
+                                      mode: value as
+                                        | "all_or_nothing"
+                                        | "skip_invalid",
+                                    }))
+                                  }
+                                >
+                                  <SelectTrigger className="h-8">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="all_or_nothing">
+                                      إلغاء الاستيراد بالكامل عند وجود أي خطأ
+                                    </SelectItem>
+                                    <SelectItem value="skip_invalid">
+                                      تخطي السجلات غير الصالحة واستيراد الباقي
+                                    </SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <div className="flex items-center justify-between pt-1">
+                                  <Label className="text-xs">
+                                    الإبقاء على المعرفات الواردة في الملف
+                                  </Label>
+                                  <Switch
+                                    checked={importOptions.preserveIds}
+                                    onCheckedChange={(checked) =>
                                       setImportOptions((prev) => ({
                                         ...prev,
-                                        batchSize: parseInt(value),
+                                        preserveIds: checked,
                                       }))
                                     }
-                                  >
-                                    <SelectTrigger className="h-8">
-                                      <SelectValue />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      <SelectItem value="500">
-                                        500 سجل
-                                      </SelectItem>
-                                      <SelectItem value="1000">
-                                        1000 سجل
-                                      </SelectItem>
-                                      <SelectItem value="2000">
-                                        2000 سجل
-                                      </SelectItem>
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-
-                                <div className="space-y-2">
-                                  <div className="flex items-center gap-2">
-                                    <Switch
-                                      checked={importOptions.updateExisting}
-                                      onCheckedChange={(checked) =>
-                                        setImportOptions((prev) => ({
-                                          ...prev,
-                                          updateExisting: checked,
-                                        }))
-                                      }
-                                    />
-                                    <Label className="text-xs">
-                                      تحديث البيانات الموجودة
-                                    </Label>
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                    <Switch
-                                      checked={importOptions.continueOnError}
-                                      onCheckedChange={(checked) =>
-                                        setImportOptions((prev) => ({
-                                          ...prev,
-                                          continueOnError: checked,
-                                        }))
-                                      }
-                                    />
-                                    <Label className="text-xs">
-                                      المتابعة عند حدوث خطأ
-                                    </Label>
-                                  </div>
+                                  />
                                 </div>
                               </div>
                             </div>
@@ -1925,24 +1982,37 @@ export default function Settings() {
                             </div>
 
                             {importProgress.processing && (
-                              <div className="space-y-2">
-                                <div className="flex justify-between text-sm">
-                                  <span>التقدم</span>
-                                  <span>
-                                    {importProgress.current} /{" "}
-                                    {importProgress.total}
-                                  </span>
+                              <div className="flex items-center justify-center gap-2 text-sm text-gray-600 py-4">
+                                <RefreshCw className="w-4 h-4 animate-spin" />
+                                جاري التحقق من {importTotalRows} سجل واستيرادها...
+                              </div>
+                            )}
+
+                            {importReport && (
+                              <div className="grid grid-cols-3 gap-3 text-center">
+                                <div className="p-3 border rounded-lg">
+                                  <div className="text-lg font-bold">
+                                    {importReport.totalRows}
+                                  </div>
+                                  <div className="text-xs text-gray-500">
+                                    إجمالي السجلات
+                                  </div>
                                 </div>
-                                <div className="w-full bg-gray-200 rounded-full h-2">
-                                  <div
-                                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                                    style={{
-                                      width: `${importProgress.percentage}%`,
-                                    }}
-                                  ></div>
+                                <div className="p-3 border rounded-lg">
+                                  <div className="text-lg font-bold text-green-600">
+                                    {importReport.inserted}
+                                  </div>
+                                  <div className="text-xs text-gray-500">
+                                    تم استيرادها
+                                  </div>
                                 </div>
-                                <div className="text-center text-sm text-gray-600">
-                                  {importProgress.percentage}% مكتمل
+                                <div className="p-3 border rounded-lg">
+                                  <div className="text-lg font-bold text-red-600">
+                                    {importReport.failed}
+                                  </div>
+                                  <div className="text-xs text-gray-500">
+                                    مرفوضة
+                                  </div>
                                 </div>
                               </div>
                             )}
@@ -2128,40 +2198,38 @@ export default function Settings() {
                       <h4 className="text-sm font-medium mb-2">
                         تغيير كلمة المرور
                       </h4>
-                      <div className="space-y-2">
-                        <Label htmlFor="currentPassword">
-                          كلمة المرور الحالية
-                        </Label>
-                        <Input
-                          id="currentPassword"
-                          type="password"
-                          placeholder="أدخل كلمة المرور الحالية"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="newPassword">كلمة المرور الجديدة</Label>
-                        <Input
-                          id="newPassword"
-                          type="password"
-                          placeholder="أدخل كلمة المرور الجديدة"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="confirmPassword">
-                          تأكيد كلمة المرور
-                        </Label>
-                        <Input
-                          id="confirmPassword"
-                          type="password"
-                          placeholder="أعد إدخال كلمة المرور"
-                        />
-                      </div>
-                      <Button className="mt-2">تحديث كلمة المرور</Button>
+                      <ChangePasswordForm />
                     </div>
                   </div>
 
                   <Separator />
 
+                  <TwoFactorPanel />
+
+                  {userHasPermission(user, "update_settings") && (
+                    <>
+                      <Separator />
+                      <SecurityPolicyPanel />
+                    </>
+                  )}
+
+                  <Separator />
+
+                  <ActiveSessionsPanel />
+
+                  <Separator />
+
+                  <ApiTokensPanel />
+
+                  {userHasPermission(user, "update_users") && (
+                    <>
+                      <Separator />
+                      <ApiTokensPanel service />
+                    </>
+                  )}
+
+                  <Separator />
+
                   <div className="space-y-4">
                     <h4 className="text-sm font-medium">إعدادات الجلسة</h4>
                     <div className="flex items-center justify-between">
@@ -80,6 +80,9 @@ interface AttendanceRecord {
   lunch_end_time?: string;
   date: string;
   notes?: string;
+  location_status?: "inside" | "outside" | "unavailable" | null;
+  location_distance_m?: number | null;
+  location_review_status?: "pending" | "approved" | "rejected" | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -113,6 +116,7 @@ export default function UserDashboard() {
   const [currentLocation, setCurrentLocation] = useState<{
     lat: number;
     lng: number;
+    accuracy?: number;
   } | null>(null);
   const [locationError, setLocationError] = useState<string>("");
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -125,6 +129,7 @@ export default function UserDashboard() {
           setCurrentLocation({
             lat: position.coords.latitude,
             lng: position.coords.longitude,
+            accuracy: position.coords.accuracy,
           });
         },
         (error) => {
@@ -191,6 +196,25 @@ export default function UserDashboard() {
       return dateB - dateA;
     })[0];
 
+  // موقع حديث لحظة التسجيل - يُستخدم آخر موقع معروف إذا تعذر التحديث
+  const getAttendancePosition = () =>
+    new Promise<typeof currentLocation>((resolve) => {
+      if (!navigator.geolocation) return resolve(currentLocation);
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          const location = {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+          };
+          setCurrentLocation(location);
+          resolve(location);
+        },
+        () => resolve(currentLocation),
+        { enableHighAccuracy: true, timeout: 10000, maximumAge: 30000 },
+      );
+    });
+
   // Attendance mutation
   const attendanceMutation = useMutation({
     mutationFn: async (data: {
@@ -198,6 +222,7 @@ export default function UserDashboard() {
       notes?: string;
       action?: string;
     }) => {
+      const location = await getAttendancePosition();
       const response = await fetch("/api/attendance", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -207,6 +232,13 @@ export default function UserDashboard() {
           action: data.action,
           date: new Date().toISOString().split("T")[0],
           notes: data.notes,
+          position: location
+            ? {
+                latitude: location.lat,
+                longitude: location.lng,
+                accuracy: location.accuracy,
+              }
+            : undefined,
         }),
       });
 
@@ -215,13 +247,23 @@ export default function UserDashboard() {
         throw new Error(errorData.message || "فشل في تسجيل الحضور");
       }
 
-      return response.json();
+      return response.json() as Promise<AttendanceRecord>;
     },
-    onSuccess: () => {
+    onSuccess: (record) => {
       queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
       queryClient.invalidateQueries({
         queryKey: ["/api/attendance/daily-status", user?.id],
       });
+      if (record?.location_review_status === "pending") {
+        toast({
+          title: "تم التسجيل بانتظار مراجعة المشرف",
+          description:
+            record.location_status === "unavailable"
+              ? "تعذر تحديد موقعك أثناء التسجيل"
+              : `التسجيل تم خارج نطاق موقع العمل (${record.location_distance_m} متر)`,
+        });
+        return;
+      }
       toast({ title: "تم تسجيل الحضور بنجاح" });
     },
     onError: (error: Error) => {
@@ -61,11 +61,15 @@ import {
 } from "lucide-react";
 import Header from "../components/layout/Header";
 import Sidebar from "../components/layout/Sidebar";
+import ShipmentsContent from "../components/warehouse/ShipmentsContent";
+import PurchasingContent from "../components/warehouse/PurchasingContent";
+import StockTakeContent from "../components/warehouse/StockTakeContent";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "../hooks/use-toast";
 import { useAuth } from "../hooks/use-auth";
+import { userHasPermission } from "../utils/roleUtils";
 
 const inventoryFormSchema = z.object({
   material_group_id: z.string().min(1, "مجموعة المواد مطلوبة"),
@@ -106,6 +110,11 @@ export default function Warehouse() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const { user } = useAuth();
+  const canViewPurchasing = userHasPermission(user, "view_purchasing");
+  const canViewStockTakes = userHasPermission(user, [
+    "view_inventory",
+    "view_warehouse",
+  ]);
 
   // Fetch inventory data
   const { data: inventoryItems = [], isLoading: inventoryLoading } = useQuery({
@@ -619,6 +628,19 @@ export default function Warehouse() {
               <TabsTrigger value="received-quantities" className="shrink-0">
                 الكميات المستلمة
               </TabsTrigger>
+              <TabsTrigger value="shipments" className="shrink-0">
+                التسليمات
+              </TabsTrigger>
+              {canViewPurchasing && (
+                <TabsTrigger value="purchasing" className="shrink-0">
+                  المشتريات
+                </TabsTrigger>
+              )}
+              {canViewStockTakes && (
+                <TabsTrigger value="stock-takes" className="shrink-0">
+                  الجرد
+                </TabsTrigger>
+              )}
               {locations.map((location: any) => (
                 <TabsTrigger
                   key={location.id}
@@ -643,6 +665,25 @@ export default function Warehouse() {
               <ReceivedQuantitiesContent />
             </TabsContent>
 
+            {/* Shipments Tab */}
+            <TabsContent value="shipments" className="space-y-4">
+              <ShipmentsContent />
+            </TabsContent>
+
+            {/* Purchasing Tab */}
+            {canViewPurchasing && (
+              <TabsContent value="purchasing" className="space-y-4">
+                <PurchasingContent />
+              </TabsContent>
+            )}
+
+            {/* Stock Take Tab */}
+            {canViewStockTakes && (
+              <TabsContent value="stock-takes" className="space-y-4">
+                <StockTakeContent />
+              </TabsContent>
+            )}
+
             {/* Dynamic location-based inventory tabs */}
             {locations.map((location: any) => (
               <TabsContent
@@ -1351,7 +1392,10 @@ function ProductionHallContent() {
         body: JSON.stringify(data),
       });
 
-      if (!response.ok) throw new Error("فشل في حفظ الاستلام");
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "فشل في حفظ الاستلام");
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -1367,10 +1411,10 @@ function ProductionHallContent() {
         description: "تم تسجيل استلام المواد في المستودع",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "خطأ",
-        description: "فشل في تسجيل الاستلام",
+        description: error.message || "فشل في تسجيل الاستلام",
         variant: "destructive",
       });
     },
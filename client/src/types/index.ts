@@ -15,6 +15,9 @@ export interface User {
   permissions?: string[];
   role_name?: string;
   role_name_ar?: string;
+  must_change_password?: boolean;
+  two_factor_enabled?: boolean;
+  two_factor_setup_required?: boolean;
 }
 
 export interface AuthUser extends User {
@@ -38,18 +38,18 @@ export function hasEditPermissions(user: AuthUser | null): boolean {
   // Admin can edit everything
   if (isUserAdmin(user)) return true;
   
-  // Check for any management permission
+  // Check for any update permission
   const managementPermissions: PermissionKey[] = [
-    'manage_orders',
-    'manage_production',
-    'manage_maintenance',
-    'manage_quality',
-    'manage_inventory',
-    'manage_users',
-    'manage_hr',
-    'manage_settings',
-    'manage_definitions',
-    'manage_roles'
+    'update_orders',
+    'update_production',
+    'update_maintenance',
+    'update_quality',
+    'update_inventory',
+    'update_users',
+    'update_hr',
+    'update_settings',
+    'update_definitions',
+    'update_roles'
   ];
   
   return hasPermission(user.permissions, managementPermissions, false);
@@ -57,8 +57,23 @@ export function hasEditPermissions(user: AuthUser | null): boolean {
 
 // Check if user can delete content
 export function hasDeletePermissions(user: AuthUser | null): boolean {
-  // Same as edit permissions for now
-  return hasEditPermissions(user);
+  if (!user) return false;
+  
+  if (isUserAdmin(user)) return true;
+  
+  const deletePermissions: PermissionKey[] = [
+    'delete_orders',
+    'delete_production',
+    'delete_maintenance',
+    'delete_quality',
+    'delete_inventory',
+    'delete_users',
+    'delete_hr',
+    'delete_definitions',
+    'delete_roles'
+  ];
+  
+  return hasPermission(user.permissions, deletePermissions, false);
 }
 
 // Check if user can view a specific page/route
@@ -122,13 +137,13 @@ export function isManager(user: AuthUser | null): boolean {
   if (isUserAdmin(user)) return true;
   
   const managerPermissions: PermissionKey[] = [
-    'manage_orders',
-    'manage_production',
-    'manage_maintenance',
-    'manage_quality',
-    'manage_inventory',
-    'manage_users',
-    'manage_hr'
+    'approve_orders',
+    'approve_production',
+    'approve_maintenance',
+    'approve_quality',
+    'update_inventory',
+    'update_users',
+    'approve_hr'
   ];
   
   return hasPermission(user.permissions, managerPermissions, false);
@@ -145,19 +160,19 @@ export function canViewReports(user: AuthUser | null): boolean {
 export function canManageDefinitions(user: AuthUser | null): boolean {
   if (!user) return false;
   
-  return userHasPermission(user, 'manage_definitions');
+  return userHasPermission(user, ['create_definitions', 'update_definitions', 'delete_definitions']);
 }
 
 // Check if user can manage users
 export function canManageUsers(user: AuthUser | null): boolean {
   if (!user) return false;
   
-  return userHasPermission(user, 'manage_users');
+  return userHasPermission(user, ['create_users', 'update_users', 'delete_users']);
 }
 
 // Check if user can manage roles
 export function canManageRoles(user: AuthUser | null): boolean {
   if (!user) return false;
   
-  return userHasPermission(user, ['manage_roles', 'admin']);
+  return userHasPermission(user, ['create_roles', 'update_roles', 'delete_roles', 'admin']);
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+-- Granular Permissions Migration
+-- Expand legacy manage_* keys in roles.permissions into per-action keys
+-- (view/create/update/delete/approve/export), matching LEGACY_PERMISSION_EXPANSION
+-- in shared/permissions.ts. Safe to run more than once.
+
+WITH expansion(legacy_key, granular_key) AS (
+  VALUES
+  ('manage_orders', 'view_orders'),
+  ('manage_orders', 'create_orders'),
+  ('manage_orders', 'update_orders'),
+  ('manage_orders', 'delete_orders'),
+  ('manage_orders', 'approve_orders'),
+  ('manage_orders', 'export_orders'),
+  ('manage_production', 'view_production'),
+  ('manage_production', 'create_production'),
+  ('manage_production', 'update_production'),
+  ('manage_production', 'delete_production'),
+  ('manage_production', 'approve_production'),
+  ('manage_production', 'export_production'),
+  ('manage_maintenance', 'view_maintenance'),
+  ('manage_maintenance', 'create_maintenance'),
+  ('manage_maintenance', 'update_maintenance'),
+  ('manage_maintenance', 'delete_maintenance'),
+  ('manage_maintenance', 'approve_maintenance'),
+  ('manage_maintenance', 'export_maintenance'),
+  ('manage_quality', 'view_quality'),
+  ('manage_quality', 'create_quality'),
+  ('manage_quality', 'update_quality'),
+  ('manage_quality', 'delete_quality'),
+  ('manage_quality', 'approve_quality'),
+  ('manage_quality', 'export_quality'),
+  ('manage_inventory', 'view_inventory'),
+  ('manage_inventory', 'create_inventory'),
+  ('manage_inventory', 'update_inventory'),
+  ('manage_inventory', 'delete_inventory'),
+  ('manage_inventory', 'approve_inventory'),
+  ('manage_inventory', 'export_inventory'),
+  ('manage_warehouse', 'view_warehouse'),
+  ('manage_warehouse', 'create_warehouse'),
+  ('manage_warehouse', 'update_warehouse'),
+  ('manage_warehouse', 'delete_warehouse'),
+  ('manage_warehouse', 'export_warehouse'),
+  ('manage_hr', 'view_hr'),
+  ('manage_hr', 'create_hr'),
+  ('manage_hr', 'update_hr'),
+  ('manage_hr', 'delete_hr'),
+  ('manage_hr', 'approve_hr'),
+  ('manage_hr', 'export_hr'),
+  ('manage_users', 'view_users'),
+  ('manage_users', 'create_users'),
+  ('manage_users', 'update_users'),
+  ('manage_users', 'delete_users'),
+  ('manage_definitions', 'view_definitions'),
+  ('manage_definitions', 'create_definitions'),
+  ('manage_definitions', 'update_definitions'),
+  ('manage_definitions', 'delete_definitions'),
+  ('manage_definitions', 'export_definitions'),
+  ('manage_roles', 'view_roles'),
+  ('manage_roles', 'create_roles'),
+  ('manage_roles', 'update_roles'),
+  ('manage_roles', 'delete_roles'),
+  ('manage_settings', 'view_settings'),
+  ('manage_settings', 'update_settings'),
+  ('manage_alerts', 'view_alerts'),
+  ('manage_alerts', 'create_alerts'),
+  ('manage_alerts', 'update_alerts'),
+  ('manage_alerts', 'delete_alerts')
+)
+UPDATE roles r
+SET permissions = (
+  SELECT COALESCE(json_agg(DISTINCT COALESCE(e.granular_key, p.key)), '[]'::json)
+  FROM json_array_elements_text(r.permissions) AS p(key)
+  LEFT JOIN expansion e ON e.legacy_key = p.key
+)
+WHERE r.permissions IS NOT NULL
+  AND json_typeof(r.permissions) = 'array'
+  AND EXISTS (
+    SELECT 1
+    FROM json_array_elements_text(r.permissions) AS p(key)
+    JOIN expansion e ON e.legacy_key = p.key
+  );
+
+-- approve_inventory (stock take posting) was added to manage_inventory after the
+-- first run: grant it to roles already converted with the full inventory set
+UPDATE roles r
+SET permissions = (r.permissions::jsonb || '["approve_inventory"]'::jsonb)::json
+WHERE r.permissions IS NOT NULL
+  AND json_typeof(r.permissions) = 'array'
+  AND r.permissions::jsonb @> '["view_inventory", "create_inventory", "update_inventory", "delete_inventory", "export_inventory"]'::jsonb
+  AND NOT r.permissions::jsonb @> '["approve_inventory"]'::jsonb;
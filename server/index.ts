@@ -7,7 +7,12 @@ import { db, pool } from "./db";
 import { users } from "@shared/schema";
 import { sql } from "drizzle-orm";
 import bcrypt from "bcrypt";
-import { populateUserFromSession } from "./middleware/session-auth";
+import {
+  populateUserFromSession,
+  enforcePasswordChange,
+  enforceTwoFactorSetup,
+} from "./middleware/session-auth";
+import { attachRequestContext } from "./middleware/request-context";
 
 const app = express();
 app.use(express.json({ limit: "50mb" }));
@@ -233,6 +238,15 @@ app.use(
 // Apply session authentication middleware - populate req.user from session
 app.use(populateUserFromSession);
 
+// Expose the acting user to the storage layer (audit trail)
+app.use(attachRequestContext);
+
+// Users flagged by an admin must set a new password before anything else
+app.use(enforcePasswordChange);
+
+// Roles with a 2FA policy must enroll an authenticator before anything else
+app.use(enforceTwoFactorSetup);
+
 // Session extension middleware - extends session on any API call with enhanced reliability
 app.use((req, res, next) => {
   // For API requests, extend the session if it exists
@@ -241,6 +255,7 @@ app.use((req, res, next) => {
     if (req.session.userId) {
       // Touch the session to reset expiry with rolling sessions
       req.session.touch();
+      req.session.last_activity = new Date().toISOString();
 
       // Force save session for PostgreSQL reliability (non-blocking)
       req.session.save((err: any) => {
@@ -256,6 +271,7 @@ app.use((req, res, next) => {
         );
       }
     } else if (
+      !req.user &&
       req.path !== "/api/login" &&
       req.path !== "/api/health" &&
       !req.path.startsWith("/api/notifications/webhook/")
@@ -1,5 +1,10 @@
 import { Request, Response, NextFunction } from "express";
-import { hasPermission, type PermissionKey } from "../../shared/permissions";
+import {
+  hasPermission,
+  type DataScope,
+  type DataScopeLevel,
+  type PermissionKey,
+} from "../../shared/permissions";
 
 export interface AuthRequest extends Request {
   user?: {
@@ -11,6 +16,11 @@ export interface AuthRequest extends Request {
     department?: string | null;
     status: string;
     permissions?: string[];
+    must_change_password?: boolean;
+    two_factor_setup_required?: boolean;
+    section_id?: number | null;
+    data_scope?: DataScopeLevel;
+    api_token_id?: number;
   };
 }
 
@@ -29,8 +39,8 @@ export function requirePermission(...permissions: PermissionKey[]) {
       return res.status(401).json({ error: "Authentication required" });
     }
 
-    // Admin always has all permissions
-    if (req.user.role === 'admin') {
+    // Admin always has all permissions (API tokens are limited to their scopes)
+    if (req.user.role === 'admin' && !req.user.api_token_id) {
       return next();
     }
 
@@ -57,7 +67,12 @@ export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction
     return res.status(401).json({ error: "Authentication required" });
   }
 
-  if (req.user.role !== 'admin') {
+  // An admin's API token needs the explicit "admin" scope
+  const isAdmin = req.user.api_token_id
+    ? req.user.role === 'admin' && !!req.user.permissions?.includes('admin')
+    : req.user.role === 'admin';
+
+  if (!isAdmin) {
     return res.status(403).json({ 
       error: "Admin access required",
       message: "هذا الإجراء متاح للمسؤولين فقط"
@@ -65,4 +80,19 @@ export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction
   }
 
   next();
-}
\ No newline at end of file
+}
+
+// Record-level scope of the current user, passed down to storage queries.
+// Undefined means unrestricted (admin, or a role with the "all" scope)
+export function getDataScope(req: AuthRequest): DataScope | undefined {
+  const user = req.user;
+  if (!user || user.role === 'admin' || !user.data_scope || user.data_scope === 'all') {
+    return undefined;
+  }
+
+  return {
+    level: user.data_scope,
+    userId: user.id,
+    sectionId: user.section_id ?? null,
+  };
+}
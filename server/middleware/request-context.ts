@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Request, Response, NextFunction } from "express";
+
+/**
+ * سياق الطلب الحالي - يتيح لطبقة التخزين معرفة المستخدم المنفذ
+ * دون تمرير معرف المستخدم في كل دالة
+ */
+export interface RequestContext {
+  userId: number | null;
+  method: string;
+  path: string;
+  ip: string | null;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
+
+// يجب تسجيله بعد populateUserFromSession حتى يكون req.user متاحاً
+export function attachRequestContext(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  requestContextStorage.run(
+    {
+      userId: req.user?.id ?? null,
+      method: req.method,
+      path: req.originalUrl.split("?")[0].slice(0, 255),
+      ip: req.ip || null,
+    },
+    next,
+  );
+}
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
+import { getApiTokens } from "../services/api-tokens";
+import type { User } from "@shared/schema";
+import type { DataScopeLevel } from "@shared/permissions";
 
 // Extend the Express Request to include user data
 declare module "express-serve-static-core" {
@@ -13,14 +16,132 @@ declare module "express-serve-static-core" {
       department?: string | null;
       status: string;
       permissions?: string[];
+      must_change_password?: boolean;
+      two_factor_setup_required?: boolean;
+      section_id?: number | null;
+      data_scope?: DataScopeLevel;
+      api_token_id?: number; // عند المصادقة بمفتاح وصول بدلاً من الجلسة
     };
   }
 }
 
-// Middleware to populate req.user from session
+interface RoleAccess {
+  roleName: string;
+  permissions: string[];
+  roleRequiresTwoFactor: boolean;
+  dataScope: DataScopeLevel;
+}
+
+// Role name, permissions and policies of a user's role
+async function resolveRoleAccess(user: User): Promise<RoleAccess> {
+  let permissions: string[] = [];
+  let roleName = "user";
+  let roleRequiresTwoFactor = false;
+  let dataScope: DataScopeLevel = "all";
+  
+  if (user.role_id) {
+    // Get all roles and find the matching one
+    const roles = await storage.getRoles();
+    const userRole = roles.find(r => r.id === user.role_id);
+    
+    if (userRole) {
+      roleName = userRole.name || "user";
+      roleRequiresTwoFactor = userRole.require_two_factor ?? false;
+      dataScope = (userRole.data_scope as DataScopeLevel) || "all";
+      if (userRole.permissions) {
+        try {
+          // Check if permissions is already an array (shouldn't be, but just in case)
+          if (Array.isArray(userRole.permissions)) {
+            permissions = userRole.permissions;
+          } else if (typeof userRole.permissions === 'string') {
+            // Try to parse as JSON
+            const parsed = JSON.parse(userRole.permissions);
+            // Ensure it's an array
+            permissions = Array.isArray(parsed) ? parsed : [];
+          }
+        } catch (e) {
+          // If parsing fails, check if it's a single permission string
+          if (typeof userRole.permissions === 'string' && userRole.permissions.trim()) {
+            // Legacy single permission string (e.g., "production")
+            permissions = [userRole.permissions.trim()];
+          } else {
+            permissions = [];
+          }
+        }
+      }
+    }
+  }
+
+  return { roleName, permissions, roleRequiresTwoFactor, dataScope };
+}
+
+// Raw token from "Authorization: Bearer <token>"
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const [scheme, token] = header.split(" ");
+  return scheme?.toLowerCase() === "bearer" && token ? token.trim() : null;
+}
+
+// Populate req.user from an API token - the request gets the token scopes
+// that the owner's role still grants, never more than the role itself
+async function populateUserFromApiToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  rawToken: string,
+) {
+  try {
+    const token = await getApiTokens(storage).authenticate(
+      rawToken,
+      req.ip || null,
+    );
+    const user = token ? await storage.getUserById(token.user_id) : undefined;
+
+    if (!token || !user || user.status !== "active") {
+      return res.status(401).json({
+        code: "INVALID_API_TOKEN",
+        message: "مفتاح الوصول غير صالح أو ملغى أو منتهي الصلاحية",
+      });
+    }
+
+    const access = await resolveRoleAccess(user);
+
+    req.user = {
+      id: user.id,
+      email: user.email || "",
+      name: user.display_name || user.username || "",
+      role: access.roleName,
+      role_id: user.role_id || 0,
+      department: user.section_id ? String(user.section_id) : null,
+      status: user.status || "active",
+      permissions: getApiTokens(storage).effectiveScopes(token, {
+        role: access.roleName,
+        permissions: access.permissions,
+      }),
+      // Password and 2FA policies apply to interactive logins only
+      must_change_password: false,
+      two_factor_setup_required: false,
+      section_id: user.section_id ?? null,
+      data_scope: access.dataScope,
+      api_token_id: token.id,
+    };
+
+    next();
+  } catch (error) {
+    console.error("Error populating user from API token:", error);
+    next();
+  }
+}
+
+// Middleware to populate req.user from session (or an API bearer token)
 export async function populateUserFromSession(req: Request, res: Response, next: NextFunction) {
-  // Skip if no session or no userId in session
+  // Without a signed-in session, fall back to "Authorization: Bearer" tokens
   if (!req.session?.userId) {
+    const bearerToken = getBearerToken(req);
+    if (bearerToken) {
+      return populateUserFromApiToken(req, res, next, bearerToken);
+    }
     return next();
   }
 
@@ -38,45 +159,23 @@ export async function populateUserFromSession(req: Request, res: Response, next:
       return next();
     }
 
-    // Check if user is active
+    // Inactive users lose their sessions in updateUser; this covers any
+    // session that survived (e.g. a status changed directly in the database)
     if (user.status !== "active") {
+      if (req.session?.destroy) {
+        req.session.destroy((err) => {
+          if (err) console.error("Error destroying inactive user session:", err);
+        });
+      }
       return next();
     }
 
-    // Get role and permissions
-    let permissions: string[] = [];
-    let roleName = "user";
-    
-    if (user.role_id) {
-      // Get all roles and find the matching one
-      const roles = await storage.getRoles();
-      const userRole = roles.find(r => r.id === user.role_id);
-      
-      if (userRole) {
-        roleName = userRole.name || "user";
-        if (userRole.permissions) {
-          try {
-            // Check if permissions is already an array (shouldn't be, but just in case)
-            if (Array.isArray(userRole.permissions)) {
-              permissions = userRole.permissions;
-            } else if (typeof userRole.permissions === 'string') {
-              // Try to parse as JSON
-              const parsed = JSON.parse(userRole.permissions);
-              // Ensure it's an array
-              permissions = Array.isArray(parsed) ? parsed : [];
-            }
-          } catch (e) {
-            // If parsing fails, check if it's a single permission string
-            if (typeof userRole.permissions === 'string' && userRole.permissions.trim()) {
-              // Legacy single permission string (e.g., "production")
-              permissions = [userRole.permissions.trim()];
-            } else {
-              permissions = [];
-            }
-          }
-        }
-      }
-    }
+    const {
+      roleName,
+      permissions,
+      roleRequiresTwoFactor,
+      dataScope,
+    } = await resolveRoleAccess(user);
 
     // Populate req.user with user data  
     req.user = {
@@ -87,7 +186,12 @@ export async function populateUserFromSession(req: Request, res: Response, next:
       role_id: user.role_id || 0,
       department: user.section_id ? String(user.section_id) : null,
       status: user.status || "active",
-      permissions
+      permissions,
+      must_change_password: user.must_change_password ?? false,
+      two_factor_setup_required:
+        roleRequiresTwoFactor && !user.two_factor_enabled,
+      section_id: user.section_id ?? null,
+      data_scope: dataScope,
     };
 
     next();
@@ -96,4 +200,52 @@ export async function populateUserFromSession(req: Request, res: Response, next:
     // Continue without user data on error
     next();
   }
-}
\ No newline at end of file
+}
+
+// Paths still reachable while a password change is pending
+const PASSWORD_CHANGE_ALLOWED_PATHS = [
+  "/api/me",
+  "/api/logout",
+  "/api/change-password",
+  "/api/security/policy",
+];
+
+// Block API access until a user flagged "must change password" sets a new one
+export function enforcePasswordChange(req: Request, res: Response, next: NextFunction) {
+  if (
+    !req.user?.must_change_password ||
+    !req.path.startsWith("/api") ||
+    PASSWORD_CHANGE_ALLOWED_PATHS.includes(req.path)
+  ) {
+    return next();
+  }
+
+  return res.status(403).json({
+    code: "PASSWORD_CHANGE_REQUIRED",
+    message: "يجب تغيير كلمة المرور قبل متابعة استخدام النظام",
+  });
+}
+
+// Paths still reachable while a mandatory two-factor enrollment is pending
+const TWO_FACTOR_SETUP_ALLOWED_PATHS = [
+  ...PASSWORD_CHANGE_ALLOWED_PATHS,
+  "/api/2fa/status",
+  "/api/2fa/setup",
+  "/api/2fa/enable",
+];
+
+// Block API access until a user whose role requires 2FA has enrolled
+export function enforceTwoFactorSetup(req: Request, res: Response, next: NextFunction) {
+  if (
+    !req.user?.two_factor_setup_required ||
+    !req.path.startsWith("/api") ||
+    TWO_FACTOR_SETUP_ALLOWED_PATHS.includes(req.path)
+  ) {
+    return next();
+  }
+
+  return res.status(403).json({
+    code: "TWO_FACTOR_SETUP_REQUIRED",
+    message: "يجب تفعيل التحقق بخطوتين قبل متابعة استخدام النظام",
+  });
+}
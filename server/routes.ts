@@ -1,7 +1,13 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import bcrypt from "bcrypt";
-import { requireAuth, requirePermission, requireAdmin, type AuthRequest } from "./middleware/auth";
+import {
+  requireAuth,
+  requirePermission,
+  requireAdmin,
+  getDataScope,
+  type AuthRequest,
+} from "./middleware/auth";
 
 // Extend Express Request type to include session
 declare module "express-serve-static-core" {
@@ -16,7 +22,6 @@ declare module "express-serve-static-core" {
 import { storage } from "./storage";
 import { db } from "./db";
 import {
-  insertUserSchema,
   insertNewOrderSchema,
   insertProductionOrderSchema,
   insertRollSchema,
@@ -31,7 +36,25 @@ import {
   insertCutSchema,
   insertWarehouseReceiptSchema,
   insertProductionSettingsSchema,
+  insertMixingRecipeSchema,
   insertCustomerProductSchema,
+  insertWasteReasonSchema,
+  insertShipmentSchema,
+  insertSupplierSchema,
+  insertPurchaseOrderSchema,
+  insertGoodsReceiptSchema,
+  reorderConversionSchema,
+  insertStockTakeSchema,
+  stockTakeCountSchema,
+  stockTakePostingSchema,
+  insertQualityCheckSchema,
+  insertQualityInspectionPlanSchema,
+  insertQualityDefectTypeSchema,
+  insertShiftTemplateSchema,
+  insertUserShiftSchema,
+  qualityDispositionSchema,
+  type Roll,
+  type User,
   customers,
   customer_products,
   locations,
@@ -113,6 +136,48 @@ import {
 import { getSystemHealthMonitor } from "./services/system-health-monitor";
 import { getAlertManager } from "./services/alert-manager";
 import { getDataValidator } from "./services/data-validator";
+import { BackupError } from "./services/database-backup";
+import { PurchasingError } from "./services/purchasing";
+import { StockTakeError } from "./services/stock-take";
+import {
+  DEFAULT_LOOKBACK_DAYS,
+  reorderListToCSV,
+  reorderListToXLSX,
+} from "./services/replenishment";
+import {
+  getTableTransferService,
+  TableTransferError,
+} from "./services/table-transfer";
+import {
+  getBackupScheduler,
+  backupScheduleSchema,
+  BACKUP_SETTING_KEYS,
+} from "./services/backup-scheduler";
+import {
+  getAccountSecurity,
+  securityPolicySchema,
+  SECURITY_SETTING_KEYS,
+} from "./services/account-security";
+import { getTwoFactor } from "./services/two-factor";
+import { getApiTokens, type ApiTokenType } from "./services/api-tokens";
+import {
+  getShiftRules,
+  localDate,
+  timesheetToXLSX,
+} from "./services/shift-rules";
+import {
+  attendancePositionSchema,
+  getAttendanceGeofence,
+} from "./services/attendance-geofence";
+import {
+  getPayroll,
+  payrollToCSV,
+  payrollToXLSX,
+  PayrollError,
+  PAYROLL_COLUMNS,
+  PAYROLL_EXPORT_COLUMNS_SETTING_KEY,
+  resolvePayrollColumns,
+} from "./services/payroll";
 import QRCode from "qrcode";
 import {
   validateRequest,
@@ -128,6 +193,61 @@ let notificationManager: ReturnType<typeof getNotificationManager> | null =
   null;
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const TWO_FACTOR_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+  // Completes a login (after the password and, if enabled, the 2FA step)
+  const establishSession = async (
+    req: Request,
+    res: Response,
+    user: User,
+    ipAddress: string,
+  ) => {
+    const twoFactorSetupRequired =
+      !user.two_factor_enabled &&
+      (await getTwoFactor(storage).isRequiredForRole(user.role_id));
+
+    // Save user session with explicit save callback
+    req.session.userId = user.id;
+    // Session metadata shown in the active sessions list
+    req.session.ip_address = ipAddress;
+    req.session.user_agent = (req.get("user-agent") || "").slice(0, 300);
+    req.session.login_at = new Date().toISOString();
+    req.session.last_activity = req.session.login_at;
+
+    // Ensure session is saved before responding with additional reliability measures
+    req.session.save((err: any) => {
+      if (err) {
+        console.error("Session save error:", err);
+        return res.status(500).json({ message: "خطأ في حفظ الجلسة" });
+      }
+
+      // Force session persistence for MemoryStore reliability
+      if (req.session?.touch) {
+        req.session.touch();
+      }
+
+      // Log successful session creation in development
+      if (process.env.NODE_ENV !== "production") {
+        console.log(`✅ Session created and saved for user ${user.id}`);
+      }
+
+      // Session saved successfully - safe property access
+      res.json({
+        user: {
+          id: user.id ?? null,
+          username: user.username ?? "",
+          display_name: user.display_name ?? "",
+          display_name_ar: user.display_name_ar ?? "",
+          role_id: user.role_id ?? null,
+          section_id: user.section_id ?? null,
+          must_change_password: user.must_change_password ?? false,
+          two_factor_enabled: user.two_factor_enabled ?? false,
+          two_factor_setup_required: twoFactorSetupRequired,
+        },
+      });
+    });
+  };
+
   // Authentication routes
   app.post(
     "/api/login",
@@ -143,67 +263,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
             .json({ message: "اسم المستخدم وكلمة المرور مطلوبان" });
         }
 
-        const user = await storage.getUserByUsername(username.trim());
-        if (!user) {
+        // Brute-force protection - per username and per IP cooldown
+        const accountSecurity = getAccountSecurity(storage);
+        const ipAddress = req.ip || "unknown";
+        const lockedMessage = (minutes: number) =>
+          `تم إيقاف تسجيل الدخول مؤقتاً بسبب محاولات فاشلة متكررة، حاول مرة أخرى بعد ${minutes} دقيقة`;
+
+        const existingLockout = await accountSecurity.getLockout(
+          username.trim(),
+          ipAddress,
+        );
+        if (existingLockout) {
+          return res.status(429).json({
+            message: lockedMessage(existingLockout.retry_after_minutes),
+            retry_after_minutes: existingLockout.retry_after_minutes,
+          });
+        }
+
+        const rejectLogin = async (userId: number | null) => {
+          const lockout = await accountSecurity.recordFailure(
+            username.trim(),
+            ipAddress,
+            userId,
+          );
+          if (lockout) {
+            return res.status(429).json({
+              message: lockedMessage(lockout.retry_after_minutes),
+              retry_after_minutes: lockout.retry_after_minutes,
+            });
+          }
           return res
             .status(401)
             .json({ message: "بيانات تسجيل الدخول غير صحيحة" });
+        };
+
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user) {
+          return rejectLogin(null);
         }
 
         // Enhanced null checks for user properties
         if (!user.password) {
           console.error("User found but password is null/undefined:", user.id);
-          return res
-            .status(401)
-            .json({ message: "بيانات تسجيل الدخول غير صحيحة" });
+          return rejectLogin(user.id);
         }
 
         // Check password using bcrypt for security
         const isPasswordValid = await bcrypt.compare(password, user.password);
         if (!isPasswordValid) {
-          return res
-            .status(401)
-            .json({ message: "بيانات تسجيل الدخول غير صحيحة" });
+          return rejectLogin(user.id);
         }
 
         if (user.status !== "active") {
-          return res
-            .status(401)
-            .json({ message: "بيانات تسجيل الدخول غير صحيحة" });
+          return rejectLogin(user.id);
         }
 
-        // Save user session with explicit save callback
-        req.session.userId = user.id;
-
-        // Ensure session is saved before responding with additional reliability measures
-        req.session.save((err: any) => {
-          if (err) {
-            console.error("Session save error:", err);
-            return res.status(500).json({ message: "خطأ في حفظ الجلسة" });
-          }
-
-          // Force session persistence for MemoryStore reliability
-          if (req.session?.touch) {
-            req.session.touch();
-          }
-
-          // Log successful session creation in development
-          if (process.env.NODE_ENV !== "production") {
-            console.log(`✅ Session created and saved for user ${user.id}`);
-          }
-
-          // Session saved successfully - safe property access
-          res.json({
-            user: {
-              id: user.id ?? null,
-              username: user.username ?? "",
-              display_name: user.display_name ?? "",
-              display_name_ar: user.display_name_ar ?? "",
-              role_id: user.role_id ?? null,
-              section_id: user.section_id ?? null,
-            },
+        // Second step pending: the session only remembers who passed the
+        // password check until a valid authenticator code is supplied
+        if (user.two_factor_enabled) {
+          req.session.pending_two_factor = {
+            user_id: user.id,
+            expires_at: Date.now() + TWO_FACTOR_LOGIN_TIMEOUT_MS,
+          };
+          return req.session.save((err: any) => {
+            if (err) {
+              console.error("Session save error:", err);
+              return res.status(500).json({ message: "خطأ في حفظ الجلسة" });
+            }
+            res.json({ two_factor_required: true });
           });
-        });
+        }
+
+        await accountSecurity.recordSuccess(username.trim(), ipAddress, user.id);
+        await establishSession(req, res, user, ipAddress);
       } catch (error) {
         console.error("Login error:", error);
         res.status(500).json({ message: "خطأ في الخادم" });
@@ -211,6 +343,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Second login step - authenticator code or a one-time recovery code
+  app.post("/api/login/2fa", async (req, res) => {
+    try {
+      const { code } = z
+        .object({ code: z.string().trim().min(1, "رمز التحقق مطلوب") })
+        .parse(req.body);
+
+      const pending = req.session?.pending_two_factor;
+      if (!pending || pending.expires_at < Date.now()) {
+        delete req.session.pending_two_factor;
+        return res
+          .status(401)
+          .json({ message: "انتهت مهلة التحقق، يرجى تسجيل الدخول من جديد" });
+      }
+
+      const user = await storage.getUser(pending.user_id);
+      if (!user || user.status !== "active") {
+        delete req.session.pending_two_factor;
+        return res.status(401).json({ message: "بيانات تسجيل الدخول غير صحيحة" });
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      const accountSecurity = getAccountSecurity(storage);
+      const ipAddress = req.ip || "unknown";
+      const rejectLocked = (retryAfterMinutes: number) => {
+        delete req.session.pending_two_factor;
+        return res.status(429).json({
+          message: `تم إيقاف تسجيل الدخول مؤقتاً بسبب محاولات فاشلة متكررة، حاول مرة أخرى بعد ${retryAfterMinutes} دقيقة`,
+          retry_after_minutes: retryAfterMinutes,
+        });
+      };
+
+      const existingLockout = await accountSecurity.getLockout(
+        user.username,
+        ipAddress,
+      );
+      if (existingLockout) {
+        return rejectLocked(existingLockout.retry_after_minutes);
+      }
+
+      const method = await getTwoFactor(storage).verifyLogin(user, code);
+      if (!method) {
+        const lockout = await accountSecurity.recordFailure(
+          user.username,
+          ipAddress,
+          user.id,
+        );
+        if (lockout) {
+          return rejectLocked(lockout.retry_after_minutes);
+        }
+        return res.status(401).json({ message: "رمز التحقق غير صحيح" });
+      }
+
+      delete req.session.pending_two_factor;
+      await accountSecurity.recordSuccess(user.username, ipAddress, user.id);
+      await establishSession(req, res, user, ipAddress);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+      }
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "خطأ في الخادم" });
+    }
+  });
+
   // Get current user
   app.get("/api/me", requireAuth, async (req, res) => {
     try {
@@ -281,6 +480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let roleName = "user";
       let roleNameAr = "مستخدم";
       let permissions: string[] = [];
+      let roleRequiresTwoFactor = false;
       
       if (user.role_id) {
         const roles = await storage.getRoles();
@@ -289,6 +489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (userRole) {
           roleName = userRole.name || "user";
           roleNameAr = userRole.name_ar || "مستخدم";
+          roleRequiresTwoFactor = userRole.require_two_factor ?? false;
           
           if (userRole.permissions) {
             try {
@@ -320,6 +521,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         role_name_ar: roleNameAr,
         section_id: user.section_id || null,
         permissions: permissions,
+        must_change_password: user.must_change_password ?? false,
+        two_factor_enabled: user.two_factor_enabled ?? false,
+        two_factor_setup_required:
+          roleRequiresTwoFactor && !user.two_factor_enabled,
       };
 
       res.json({
@@ -362,5575 +567,9206 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Dashboard stats
-  app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
+  // Self-service password change (also completes a forced password change)
+  app.post("/api/change-password", requireAuth, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const { current_password, new_password } = z
+        .object({
+          current_password: z.string().min(1, "كلمة المرور الحالية مطلوبة"),
+          new_password: z.string().min(1, "كلمة المرور الجديدة مطلوبة"),
+        })
+        .parse(req.body);
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "المستخدم غير موجود" });
+      }
+
+      const isPasswordValid = await bcrypt.compare(
+        current_password,
+        user.password,
+      );
+      if (!isPasswordValid) {
+        return res
+          .status(400)
+          .json({ message: "كلمة المرور الحالية غير صحيحة" });
+      }
+
+      if (await bcrypt.compare(new_password, user.password)) {
+        return res.status(400).json({
+          message: "كلمة المرور الجديدة يجب أن تختلف عن الحالية",
+        });
+      }
+
+      const policyErrors = await getAccountSecurity(storage).validatePassword(
+        new_password,
+        user.username,
+      );
+      if (policyErrors.length > 0) {
+        return res
+          .status(400)
+          .json({ message: policyErrors[0], errors: policyErrors });
+      }
+
+      await storage.updateUser(user.id, {
+        password: new_password,
+        must_change_password: false,
+      });
+      res.json({ message: "تم تغيير كلمة المرور بنجاح" });
     } catch (error) {
-      console.error("Dashboard stats error:", error);
-      res.status(500).json({ message: "خطأ في جلب الإحصائيات" });
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+      }
+      console.error("Change password error:", error);
+      res.status(500).json({ message: "خطأ في تغيير كلمة المرور" });
     }
   });
 
-  // ==== NOTIFICATIONS API ROUTES ====
+  // Password policy and login lockout settings
+  app.get("/api/security/policy", requireAuth, async (req, res) => {
+    try {
+      res.json(await getAccountSecurity(storage).getPolicy());
+    } catch (error) {
+      console.error("Error fetching security policy:", error);
+      res.status(500).json({ message: "خطأ في جلب سياسة الأمان" });
+    }
+  });
 
-  // Send WhatsApp message (Meta API or Twilio)
-  app.post(
-    "/api/notifications/whatsapp",
+  app.put(
+    "/api/security/policy",
     requireAuth,
-    validateRequest({ body: commonSchemas.whatsappMessage }),
+    requirePermission("update_settings"),
     async (req, res) => {
       try {
-        const {
-          phone_number,
-          message,
-          title,
-          priority,
-          context_type,
-          context_id,
-          template_name,
-          variables,
-          use_template = false,
-        } = req.body;
-
-        let result;
-        try {
-          result = await notificationService.sendWhatsAppMessage(
-            phone_number,
-            message,
-            {
-              title,
-              priority,
-              context_type,
-              context_id,
-              useTemplate: use_template,
-              templateName: template_name,
-            },
-          );
-        } catch (serviceError: any) {
-          console.error("Notification service error:", serviceError);
-          return res.status(503).json({
-            message: "خدمة الإشعارات غير متوفرة مؤقتاً",
-            success: false,
-            error: "SERVICE_UNAVAILABLE",
-          });
-        }
-
-        if (!result) {
-          return res.status(500).json({
-            message: "لم يتم الحصول على رد من خدمة الإشعارات",
-            success: false,
-          });
-        }
-
-        if (result.success) {
-          res.json({
-            data: {
-              messageId: result.messageId,
-              phone_number,
-              message:
-                message.substring(0, 100) + (message.length > 100 ? "..." : ""),
-              timestamp: new Date().toISOString(),
-            },
-            message: "تم إرسال رسالة الواتس اب بنجاح",
-            success: true,
-          });
-        } else {
-          // Handle specific notification service errors
-          let statusCode = 500;
-          let errorMessage = "فشل في إرسال رسالة الواتس اب";
+        const policy = securityPolicySchema.parse(req.body);
+        const keys = SECURITY_SETTING_KEYS;
+        const values: Record<string, string> = {
+          [keys.minLength]: String(policy.password.min_length),
+          [keys.requireUppercase]: String(policy.password.require_uppercase),
+          [keys.requireLowercase]: String(policy.password.require_lowercase),
+          [keys.requireNumber]: String(policy.password.require_number),
+          [keys.requireSymbol]: String(policy.password.require_symbol),
+          [keys.maxAttemptsPerUser]: String(
+            policy.lockout.max_attempts_per_user,
+          ),
+          [keys.maxAttemptsPerIp]: String(policy.lockout.max_attempts_per_ip),
+          [keys.lockoutMinutes]: String(policy.lockout.lockout_minutes),
+        };
+        const booleanKeys: string[] = [
+          keys.requireUppercase,
+          keys.requireLowercase,
+          keys.requireNumber,
+          keys.requireSymbol,
+        ];
 
-          if (result.error?.includes("Invalid phone number")) {
-            statusCode = 400;
-            errorMessage = "رقم الهاتف غير صحيح";
-          } else if (result.error?.includes("Rate limit")) {
-            statusCode = 429;
-            errorMessage = "تم تجاوز حد عدد الرسائل المسموح";
-          } else if (result.error?.includes("Template not found")) {
-            statusCode = 404;
-            errorMessage = "قالب الرسالة غير موجود";
+        for (const [key, value] of Object.entries(values)) {
+          const existingSetting = await storage.getSystemSettingByKey(key);
+          if (existingSetting) {
+            await storage.updateSystemSetting(key, value, req.user!.id);
+          } else {
+            await storage.createSystemSetting({
+              setting_key: key,
+              setting_value: value,
+              setting_type: booleanKeys.includes(key) ? "boolean" : "number",
+              updated_by: String(req.user!.id),
+            });
           }
-
-          res.status(statusCode).json({
-            message: errorMessage,
-            error: result.error,
-            success: false,
-          });
-        }
-      } catch (error: any) {
-        console.error("Error sending WhatsApp message:", error);
-
-        // Handle different types of errors gracefully
-        if (error.name === "ValidationError") {
-          return res.status(400).json({
-            message: "بيانات الطلب غير صحيحة",
-            success: false,
-          });
-        }
-
-        if (error.message?.includes("timeout")) {
-          return res.status(504).json({
-            message: "انتهت مهلة الاتصال بخدمة الواتس اب",
-            success: false,
-          });
         }
 
-        res.status(500).json({
-          message: "خطأ غير متوقع في إرسال رسالة الواتس اب",
-          success: false,
+        res.json({
+          message: "تم حفظ سياسة الأمان",
+          policy: await getAccountSecurity(storage).getPolicy(),
         });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        console.error("Error saving security policy:", error);
+        res.status(500).json({ message: "خطأ في حفظ سياسة الأمان" });
       }
     },
   );
 
-  // Send test message
-  app.post("/api/notifications/test", async (req, res) => {
-    try {
-      const { phone_number } = req.body;
-
-      if (!phone_number) {
-        return res.status(400).json({ message: "رقم الهاتف مطلوب" });
-      }
-
-      const result = await notificationService.sendTestMessage(phone_number);
+  // Two-factor authentication (TOTP) for the current user
+  const passwordConfirmationSchema = z.object({
+    password: z.string().min(1, "كلمة المرور مطلوبة للتأكيد"),
+  });
 
-      if (result.success) {
-        res.json({
-          success: true,
-          message: result.message,
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          error: result.error,
-        });
+  app.get("/api/2fa/status", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "المستخدم غير موجود" });
       }
-    } catch (error: any) {
-      console.error("Error sending test message:", error);
-      res.status(500).json({ message: "خطأ في إرسال رسالة الاختبار" });
+      res.json({
+        enabled: user.two_factor_enabled,
+        required: await getTwoFactor(storage).isRequiredForRole(user.role_id),
+        recovery_codes_remaining: user.two_factor_recovery_codes?.length || 0,
+      });
+    } catch (error) {
+      console.error("Error fetching 2FA status:", error);
+      res.status(500).json({ message: "خطأ في جلب حالة التحقق بخطوتين" });
     }
   });
 
-  // Get notifications
-  app.get("/api/notifications", async (req, res) => {
+  app.post("/api/2fa/setup", requireAuth, async (req, res) => {
     try {
-      // Enhanced parameter validation with safe parsing
-      let userId: number | undefined;
-      if (req.query.user_id) {
-        try {
-          userId = parseIntSafe(req.query.user_id as string, "User ID", {
-            min: 1,
-          });
-        } catch {
-          userId = undefined; // Invalid user ID parameter
-        }
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "المستخدم غير موجود" });
       }
-
-      let limitParam = 50;
-      if (req.query.limit) {
-        try {
-          limitParam = parseIntSafe(req.query.limit as string, "Limit", {
-            min: 1,
-            max: 100,
-          });
-        } catch {
-          limitParam = 50; // Default to 50 for invalid limit
-        }
-      }
-
-      let offsetParam = 0;
-      if (req.query.offset) {
-        try {
-          offsetParam = parseIntSafe(req.query.offset as string, "Offset", {
-            min: 0,
-          });
-        } catch {
-          offsetParam = 0; // Default to 0 for invalid offset
-        }
+      if (user.two_factor_enabled) {
+        return res
+          .status(400)
+          .json({ message: "التحقق بخطوتين مفعّل بالفعل لهذا الحساب" });
       }
 
-      // Validate pagination parameters with enhanced null safety
-      const validLimit = Math.min(
-        Math.max(isNaN(limitParam) ? 50 : limitParam, 1),
-        100,
+      // The secret stays in the session until the first code confirms it
+      const enrollment = await getTwoFactor(storage).createEnrollment(
+        user.username,
       );
-      const validOffset = Math.max(isNaN(offsetParam) ? 0 : offsetParam, 0);
-
-      const notifications = await storage.getNotifications(
-        userId,
-        validLimit,
-        validOffset,
-      );
-      res.json(notifications);
-    } catch (error: any) {
-      console.error("Error fetching notifications:", error);
-      res.status(500).json({ message: "خطأ في جلب الإشعارات" });
+      req.session.two_factor_setup_secret = enrollment.secret;
+      res.json(enrollment);
+    } catch (error) {
+      console.error("Error starting 2FA setup:", error);
+      res.status(500).json({ message: "خطأ في بدء إعداد التحقق بخطوتين" });
     }
   });
 
-  // Webhook endpoint for Meta WhatsApp
-  app.get("/api/notifications/webhook/meta", (req, res) => {
-    // Verify webhook (Meta requirement)
-    const VERIFY_TOKEN =
-      process.env.META_WEBHOOK_VERIFY_TOKEN || "mpbf_webhook_token";
-    const mode = req.query["hub.mode"];
-    const token = req.query["hub.verify_token"];
-    const challenge = req.query["hub.challenge"];
+  app.post("/api/2fa/enable", requireAuth, async (req, res) => {
+    try {
+      const { code } = z
+        .object({ code: z.string().trim().min(1, "رمز التحقق مطلوب") })
+        .parse(req.body);
 
-    if (mode === "subscribe" && token === VERIFY_TOKEN) {
-      console.log("✅ Meta Webhook verified successfully");
-      res.status(200).send(challenge);
-    } else {
-      console.log("❌ Meta Webhook verification failed");
-      res.sendStatus(403);
-    }
-  });
+      const secret = req.session.two_factor_setup_secret;
+      if (!secret) {
+        return res
+          .status(400)
+          .json({ message: "يرجى بدء إعداد التحقق بخطوتين أولاً" });
+      }
 
-  app.post("/api/notifications/webhook/meta", async (req, res) => {
-    try {
-      console.log(
-        "📨 Meta Webhook received:",
-        JSON.stringify(req.body, null, 2),
+      const recoveryCodes = await getTwoFactor(storage).enable(
+        req.user!.id,
+        secret,
+        code,
       );
-
-      // معالجة webhook من Meta
-      if (notificationService.metaWhatsApp) {
-        await notificationService.metaWhatsApp.handleWebhook(req.body);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "رمز التحقق غير صحيح" });
       }
 
-      res.status(200).send("OK");
-    } catch (error: any) {
-      console.error("Error processing Meta webhook:", error);
-      res.status(500).json({ message: "خطأ في معالجة Meta webhook" });
+      delete req.session.two_factor_setup_secret;
+      res.json({
+        message: "تم تفعيل التحقق بخطوتين",
+        recovery_codes: recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+      }
+      console.error("Error enabling 2FA:", error);
+      res.status(500).json({ message: "خطأ في تفعيل التحقق بخطوتين" });
     }
   });
 
-  // Update notification status (Twilio webhook)
-  app.post("/api/notifications/webhook/twilio", async (req, res) => {
+  app.post("/api/2fa/disable", requireAuth, async (req, res) => {
     try {
-      const { MessageSid, MessageStatus, ErrorMessage } = req.body;
+      const { password } = passwordConfirmationSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "المستخدم غير موجود" });
+      }
+      if (!(await bcrypt.compare(password, user.password))) {
+        return res.status(400).json({ message: "كلمة المرور غير صحيحة" });
+      }
 
-      if (MessageSid) {
-        await notificationService.updateMessageStatus(MessageSid);
+      const twoFactor = getTwoFactor(storage);
+      if (await twoFactor.isRequiredForRole(user.role_id)) {
+        return res.status(400).json({
+          message: "التحقق بخطوتين إلزامي لدورك ولا يمكن إيقافه",
+        });
       }
 
-      res.status(200).send("OK");
-    } catch (error: any) {
-      console.error("Error handling Twilio webhook:", error);
-      res.status(500).send("Error");
+      await twoFactor.disable(user.id);
+      res.json({ message: "تم إيقاف التحقق بخطوتين" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+      }
+      console.error("Error disabling 2FA:", error);
+      res.status(500).json({ message: "خطأ في إيقاف التحقق بخطوتين" });
     }
   });
 
-  // ============ SSE Real-time Notification System ============
-
-  // SSE endpoint for real-time notifications
-  app.get("/api/notifications/stream", requireAuth, async (req, res) => {
+  app.post("/api/2fa/recovery-codes", requireAuth, async (req, res) => {
     try {
-      // Initialize notification manager if not already done
-      if (!notificationManager) {
-        notificationManager = getNotificationManager(storage);
-        // Set notification manager in storage for production updates
-        setNotificationManager(notificationManager);
+      const { password } = passwordConfirmationSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "المستخدم غير موجود" });
+      }
+      if (!user.two_factor_enabled) {
+        return res
+          .status(400)
+          .json({ message: "التحقق بخطوتين غير مفعّل لهذا الحساب" });
+      }
+      if (!(await bcrypt.compare(password, user.password))) {
+        return res.status(400).json({ message: "كلمة المرور غير صحيحة" });
+      }
 
-        // Apply database optimizations on first initialization
-        console.log("[System] Applying database optimizations...");
-        createPerformanceIndexes().catch((err) =>
-          console.error("[System] Database optimization failed:", err),
-        );
-        createTextSearchIndexes().catch((err) =>
-          console.error("[System] Text search optimization failed:", err),
-        );
+      const recoveryCodes = await getTwoFactor(
+        storage,
+      ).regenerateRecoveryCodes(user.id);
+      res.json({ recovery_codes: recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
       }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "خطأ في إنشاء رموز الاسترداد" });
+    }
+  });
 
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "غير مصرح به" });
+  // Admin reset for a user who lost their authenticator device
+  app.delete(
+    "/api/users/:id/2fa",
+    requireAuth,
+    requirePermission("update_users"),
+    async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+        }
+        await getTwoFactor(storage).disable(userId);
+        res.json({ message: "تمت إعادة تعيين التحقق بخطوتين للمستخدم" });
+      } catch (error) {
+        console.error("Error resetting user 2FA:", error);
+        res.status(500).json({ message: "خطأ في إعادة تعيين التحقق بخطوتين" });
       }
+    },
+  );
 
-      // Generate unique connection ID
-      const connectionId = `${userId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Active sessions of the current user
+  app.get("/api/me/sessions", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getUserSessions(req.user!.id, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "خطأ في جلب الجلسات النشطة" });
+    }
+  });
 
-      // Add SSE connection
-      notificationManager.addConnection(connectionId, userId, res);
+  // Sign out all other devices (the current session stays active)
+  app.delete("/api/me/sessions", requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.destroyUserSessions(req.user!.id, {
+        exceptSid: req.sessionID,
+      });
+      res.json({ message: "تم إنهاء الجلسات الأخرى", revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "خطأ في إنهاء الجلسات" });
+    }
+  });
 
-      console.log(
-        `[SSE] New connection established for user ${userId}, connectionId: ${connectionId}`,
+  app.delete("/api/me/sessions/:sessionId", requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(
+        req.user!.id,
+        req.sessionID,
       );
+      const target = sessions.find((s) => s.id === req.params.sessionId);
+      if (!target) {
+        return res.status(404).json({ message: "الجلسة غير موجودة" });
+      }
+
+      // Revoking the current session is a logout - destroy it through
+      // express-session so it is not saved back at the end of the request
+      if (target.current && req.session?.destroy) {
+        return req.session.destroy((err) => {
+          if (err) {
+            console.error("Session destroy error:", err);
+            return res.status(500).json({ message: "خطأ في إنهاء الجلسة" });
+          }
+          res.clearCookie("plastic-bag-session");
+          res.json({ message: "تم إنهاء الجلسة", revoked: 1 });
+        });
+      }
+
+      const revoked = await storage.destroyUserSessions(req.user!.id, {
+        ids: [target.id],
+      });
+      res.json({ message: "تم إنهاء الجلسة", revoked });
     } catch (error) {
-      console.error("Error establishing SSE connection:", error);
-      res.status(500).json({ message: "خطأ في إنشاء الاتصال" });
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "خطأ في إنهاء الجلسة" });
     }
   });
 
-  // Create system notification
-  app.post(
-    "/api/notifications/system",
+  // Admin view of another user's sessions
+  app.get(
+    "/api/users/:id/sessions",
     requireAuth,
-    validateRequest({
-      body: z.object({
-        title: z.string().min(1, "العنوان مطلوب"),
-        title_ar: z.string().optional(),
-        message: z.string().min(1, "الرسالة مطلوبة"),
-        message_ar: z.string().optional(),
-        type: z
-          .enum([
-            "system",
-            "order",
-            "production",
-            "maintenance",
-            "quality",
-            "hr",
-          ])
-          .default("system"),
-        priority: z.enum(["low", "normal", "high", "urgent"]).default("normal"),
-        recipient_type: z.enum(["user", "role", "all"]),
-        recipient_id: z.string().optional(),
-        context_type: z.string().optional(),
-        context_id: z.string().optional(),
-        sound: z.boolean().optional().default(false),
-        icon: z.string().optional(),
-      }),
-    }),
+    requirePermission("view_users"),
     async (req, res) => {
       try {
-        // Initialize notification manager if not already done
-        if (!notificationManager) {
-          notificationManager = getNotificationManager(storage);
-          // Set notification manager in storage for production updates
-          setNotificationManager(notificationManager);
-
-          // Apply database optimizations on first initialization
-          console.log("[System] Applying database optimizations...");
-          createPerformanceIndexes().catch((err) =>
-            console.error("[System] Database optimization failed:", err),
-          );
-          createTextSearchIndexes().catch((err) =>
-            console.error("[System] Text search optimization failed:", err),
-          );
-        }
-
-        const notificationData: SystemNotificationData = req.body;
-
-        // Send notification based on recipient type
-        if (
-          notificationData.recipient_type === "user" &&
-          notificationData.recipient_id
-        ) {
-          const userId = parseInt(notificationData.recipient_id);
-          if (isNaN(userId)) {
-            return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
-          }
-          await notificationManager.sendToUser(userId, notificationData);
-        } else if (
-          notificationData.recipient_type === "role" &&
-          notificationData.recipient_id
-        ) {
-          const roleId = parseInt(notificationData.recipient_id);
-          if (isNaN(roleId)) {
-            return res.status(400).json({ message: "معرف الدور غير صحيح" });
-          }
-          await notificationManager.sendToRole(roleId, notificationData);
-        } else if (notificationData.recipient_type === "all") {
-          await notificationManager.sendToAll(notificationData);
-        } else {
-          return res
-            .status(400)
-            .json({ message: "نوع المستلم أو معرف المستلم مطلوب" });
+        const userId = parseInt(req.params.id);
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
         }
-
-        res.json({
-          success: true,
-          message: "تم إرسال الإشعار بنجاح",
-          recipient_type: notificationData.recipient_type,
-          recipient_id: notificationData.recipient_id,
-        });
-      } catch (error: any) {
-        console.error("Error creating system notification:", error);
-        res.status(500).json({
-          success: false,
-          message: error.message || "فشل في إرسال الإشعار",
-        });
+        res.json(await storage.getUserSessions(userId, req.sessionID));
+      } catch (error) {
+        console.error("Error fetching user sessions:", error);
+        res.status(500).json({ message: "خطأ في جلب الجلسات النشطة" });
       }
     },
   );
 
-  // Mark notification as read
-  app.patch(
-    "/api/notifications/mark-read/:id",
+  app.delete(
+    "/api/users/:id/sessions",
     requireAuth,
+    requirePermission("update_users"),
     async (req, res) => {
       try {
-        const notificationId = parseRouteParam(req.params.id, "معرف الإشعار");
-
-        const notification =
-          await storage.markNotificationAsRead(notificationId);
-
-        res.json({
-          success: true,
-          message: "تم تعليم الإشعار كمقروء",
-          notification,
-        });
-      } catch (error: any) {
-        console.error("Error marking notification as read:", error);
-        res.status(500).json({
-          success: false,
-          message: error.message || "فشل في تعليم الإشعار كمقروء",
+        const userId = parseInt(req.params.id);
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+        }
+        const revoked = await storage.destroyUserSessions(userId, {
+          exceptSid: req.sessionID,
         });
+        res.json({ message: "تم إنهاء جميع جلسات المستخدم", revoked });
+      } catch (error) {
+        console.error("Error revoking user sessions:", error);
+        res.status(500).json({ message: "خطأ في إنهاء الجلسات" });
       }
     },
   );
 
-  // Mark all notifications as read for current user
-  app.patch(
-    "/api/notifications/mark-all-read",
+  app.delete(
+    "/api/users/:id/sessions/:sessionId",
     requireAuth,
+    requirePermission("update_users"),
     async (req, res) => {
       try {
-        const userId = req.session?.userId;
-        if (!userId) {
-          return res.status(401).json({ message: "غير مصرح به" });
+        const userId = parseInt(req.params.id);
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
         }
-
-        await storage.markAllNotificationsAsRead(userId);
-
-        res.json({
-          success: true,
-          message: "تم تعليم جميع الإشعارات كمقروءة",
-        });
-      } catch (error: any) {
-        console.error("Error marking all notifications as read:", error);
-        res.status(500).json({
-          success: false,
-          message: error.message || "فشل في تعليم الإشعارات كمقروءة",
+        const revoked = await storage.destroyUserSessions(userId, {
+          ids: [req.params.sessionId],
+          exceptSid: req.sessionID,
         });
+        if (revoked === 0) {
+          return res.status(404).json({ message: "الجلسة غير موجودة" });
+        }
+        res.json({ message: "تم إنهاء الجلسة", revoked });
+      } catch (error) {
+        console.error("Error revoking user session:", error);
+        res.status(500).json({ message: "خطأ في إنهاء الجلسة" });
       }
     },
   );
 
-  // Delete notification
-  app.delete("/api/notifications/delete/:id", requireAuth, async (req, res) => {
-    try {
-      const notificationId = parseRouteParam(req.params.id, "معرف الإشعار");
-
-      await storage.deleteNotification(notificationId);
-
-      res.json({
-        success: true,
-        message: "تم حذف الإشعار",
+  // API tokens - "Authorization: Bearer <token>" for scales, label printers
+  // and external ERP scripts. The raw token is returned once, on creation
+  const apiTokenSchema = z.object({
+    name: z.string().trim().min(1, "اسم المفتاح مطلوب").max(100),
+    scopes: z.array(z.string()).min(1, "يجب اختيار صلاحية واحدة على الأقل"),
+    expires_in_days: z.number().int().min(1).max(3650).nullable().optional(),
+  });
+
+  const createApiTokenFor = async (
+    req: Request,
+    res: Response,
+    owner: { id: number; role: string; permissions: string[] },
+    type: ApiTokenType,
+  ) => {
+    // A token cannot mint further tokens
+    if (req.user!.api_token_id) {
+      return res
+        .status(403)
+        .json({ message: "لا يمكن إنشاء مفتاح وصول باستخدام مفتاح وصول" });
+    }
+
+    const data = apiTokenSchema.parse(req.body);
+    const apiTokens = getApiTokens(storage);
+    const invalid = apiTokens.invalidScopes(data.scopes, owner);
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        message: "صلاحيات غير متاحة لصاحب المفتاح",
+        invalid_scopes: invalid,
       });
-    } catch (error: any) {
-      console.error("Error deleting notification:", error);
-      res.status(500).json({
-        success: false,
-        message: error.message || "فشل في حذف الإشعار",
+    }
+
+    // Nor can it carry scopes the issuer does not hold themselves
+    const notHeld = apiTokens.invalidScopes(data.scopes, {
+      role: req.user!.role,
+      permissions: req.user!.permissions || [],
+    });
+    if (notHeld.length > 0) {
+      return res.status(403).json({
+        message: "لا يمكن منح صلاحيات لا تملكها",
+        invalid_scopes: notHeld,
       });
     }
+
+    const created = await apiTokens.create({
+      userId: owner.id,
+      name: data.name,
+      type,
+      scopes: data.scopes,
+      expiresAt: data.expires_in_days
+        ? new Date(Date.now() + data.expires_in_days * 24 * 60 * 60 * 1000)
+        : null,
+      createdBy: req.user!.id,
+    });
+    res.status(201).json(created);
+  };
+
+  app.get("/api/me/api-tokens", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getApiTokens(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "خطأ في جلب مفاتيح الوصول" });
+    }
   });
 
-  // Get user notifications with real-time support
-  app.get("/api/notifications/user", requireAuth, async (req, res) => {
+  app.post("/api/me/api-tokens", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "غير مصرح به" });
+      await createApiTokenFor(
+        req,
+        res,
+        {
+          id: req.user!.id,
+          role: req.user!.role,
+          permissions: req.user!.permissions || [],
+        },
+        "personal",
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message });
       }
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "خطأ في إنشاء مفتاح الوصول" });
+    }
+  });
 
-      const unreadOnly = req.query.unread_only === "true";
-      const limit = parseOptionalQueryParam(req.query.limit, "الحد الأقصى", 50);
-      const offset = parseOptionalQueryParam(req.query.offset, "الإزاحة", 0);
-
-      const notifications = await storage.getUserNotifications(userId, {
-        unreadOnly,
-        limit,
-        offset,
-      });
-
-      // Count unread notifications
-      const unreadNotifications = await storage.getUserNotifications(userId, {
-        unreadOnly: true,
-        limit: 1000, // Get all unread to count
-      });
-
-      res.json({
-        success: true,
-        notifications,
-        unread_count: unreadNotifications.length,
-        total_returned: notifications.length,
-      });
-    } catch (error: any) {
-      console.error("Error fetching user notifications:", error);
-      res.status(500).json({
-        success: false,
-        message: error.message || "فشل في جلب الإشعارات",
-      });
+  app.delete("/api/me/api-tokens/:id", requireAuth, async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.id);
+      if (isNaN(tokenId)) {
+        return res.status(400).json({ message: "معرف المفتاح غير صحيح" });
+      }
+      if (!(await storage.revokeApiToken(tokenId, req.user!.id))) {
+        return res.status(404).json({ message: "المفتاح غير موجود" });
+      }
+      res.json({ message: "تم إلغاء مفتاح الوصول" });
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "خطأ في إلغاء مفتاح الوصول" });
     }
   });
 
-  // Get SSE connection statistics (admin only)
+  // Admin view of all tokens, and service tokens issued for other users
   app.get(
-    "/api/notifications/stats",
+    "/api/api-tokens",
     requireAuth,
-    requireAdmin,
+    requirePermission("view_users"),
     async (req, res) => {
       try {
-        if (!notificationManager) {
-          return res.json({
-            success: true,
-            stats: { activeConnections: 0, connectionsByUser: {} },
+        res.json(await storage.getApiTokens());
+      } catch (error) {
+        console.error("Error fetching API tokens:", error);
+        res.status(500).json({ message: "خطأ في جلب مفاتيح الوصول" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/users/:id/api-tokens",
+    requireAuth,
+    requirePermission("update_users"),
+    async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+        }
+        const user = await storage.getUserById(userId);
+        if (!user || user.status !== "active") {
+          return res.status(404).json({ message: "المستخدم غير موجود" });
+        }
+
+        const access = await getApiTokens(storage).getOwnerAccess(user);
+        if (
+          getApiTokens(storage).outranks(access, {
+            role: req.user!.role,
+            permissions: req.user!.permissions || [],
+          })
+        ) {
+          return res.status(403).json({
+            message: "لا يمكن إنشاء مفتاح وصول لمستخدم بدور أعلى من دورك",
           });
         }
+        await createApiTokenFor(
+          req,
+          res,
+          { id: user.id, ...access },
+          "service",
+        );
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error creating service API token:", error);
+        res.status(500).json({ message: "خطأ في إنشاء مفتاح الوصول" });
+      }
+    },
+  );
 
-        const stats = notificationManager.getStats();
-        res.json({ success: true, stats });
-      } catch (error: any) {
-        console.error("Error getting notification stats:", error);
-        res.status(500).json({
-          success: false,
-          message: "فشل في جلب إحصائيات الإشعارات",
-        });
+  app.delete(
+    "/api/api-tokens/:id",
+    requireAuth,
+    requirePermission("update_users"),
+    async (req, res) => {
+      try {
+        const tokenId = parseInt(req.params.id);
+        if (isNaN(tokenId)) {
+          return res.status(400).json({ message: "معرف المفتاح غير صحيح" });
+        }
+        if (!(await storage.revokeApiToken(tokenId))) {
+          return res.status(404).json({ message: "المفتاح غير موجود" });
+        }
+        res.json({ message: "تم إلغاء مفتاح الوصول" });
+      } catch (error) {
+        console.error("Error revoking API token:", error);
+        res.status(500).json({ message: "خطأ في إلغاء مفتاح الوصول" });
       }
     },
   );
 
-  // Get notification templates
-  app.get("/api/notification-templates", async (req, res) => {
-    try {
-      const templates = await storage.getNotificationTemplates();
-      res.json(templates);
-    } catch (error: any) {
-      console.error("Error fetching notification templates:", error);
-      res.status(500).json({ message: "خطأ في جلب قوالب الإشعارات" });
-    }
-  });
+  // Dashboard stats
+  app.get(
+    "/api/dashboard/stats",
+    requireAuth,
+    requirePermission("view_dashboard", "view_home"),
+    async (req, res) => {
+      try {
+        const stats = await storage.getDashboardStats();
+        res.json(stats);
+      } catch (error) {
+        console.error("Dashboard stats error:", error);
+        res.status(500).json({ message: "خطأ في جلب الإحصائيات" });
+      }
+    },
+  );
 
-  // Create notification template
-  app.post("/api/notification-templates", async (req, res) => {
-    try {
-      const template = await storage.createNotificationTemplate(req.body);
-      res.json(template);
-    } catch (error: any) {
-      console.error("Error creating notification template:", error);
-      res.status(500).json({ message: "خطأ في إنشاء قالب الإشعار" });
-    }
-  });
+  // ==== NOTIFICATIONS API ROUTES ====
 
-  // Machine Learning API routes
-  app.get(
-    "/api/ml/predictions/:machineId",
+  // Send WhatsApp message (Meta API or Twilio)
+  app.post(
+    "/api/notifications/whatsapp",
     requireAuth,
-    validateRequest({
-      params: commonSchemas.idParam.extend({
-        machineId: z.string().regex(/^\d+$/).transform(Number),
-      }),
-      query: z.object({
-        hours: z.string().regex(/^\d+$/).transform(Number).optional(),
-      }),
-    }),
+    requirePermission("manage_whatsapp"),
+    validateRequest({ body: commonSchemas.whatsappMessage }),
     async (req, res) => {
       try {
-        // Enhanced parameter validation with null safety
-        if (!req.params?.machineId) {
-          return res.status(400).json({
-            message: "معرف المكينة مطلوب",
+        const {
+          phone_number,
+          message,
+          title,
+          priority,
+          context_type,
+          context_id,
+          template_name,
+          variables,
+          use_template = false,
+        } = req.body;
+
+        let result;
+        try {
+          result = await notificationService.sendWhatsAppMessage(
+            phone_number,
+            message,
+            {
+              title,
+              priority,
+              context_type,
+              context_id,
+              useTemplate: use_template,
+              templateName: template_name,
+            },
+          );
+        } catch (serviceError: any) {
+          console.error("Notification service error:", serviceError);
+          return res.status(503).json({
+            message: "خدمة الإشعارات غير متوفرة مؤقتاً",
             success: false,
+            error: "SERVICE_UNAVAILABLE",
           });
         }
 
-        const machineId = parseInt(req.params.machineId);
-        const hoursParam = req.query?.hours;
-        let hoursAhead = 24; // default
+        if (!result) {
+          return res.status(500).json({
+            message: "لم يتم الحصول على رد من خدمة الإشعارات",
+            success: false,
+          });
+        }
 
-        if (hoursParam !== undefined) {
-          const hours =
-            typeof hoursParam === "number"
-              ? hoursParam
-              : parseInt(hoursParam as string);
-          hoursAhead = !isNaN(hours) && hours > 0 ? hours : 24;
+        if (result.success) {
+          res.json({
+            data: {
+              messageId: result.messageId,
+              phone_number,
+              message:
+                message.substring(0, 100) + (message.length > 100 ? "..." : ""),
+              timestamp: new Date().toISOString(),
+            },
+            message: "تم إرسال رسالة الواتس اب بنجاح",
+            success: true,
+          });
+        } else {
+          // Handle specific notification service errors
+          let statusCode = 500;
+          let errorMessage = "فشل في إرسال رسالة الواتس اب";
+
+          if (result.error?.includes("Invalid phone number")) {
+            statusCode = 400;
+            errorMessage = "رقم الهاتف غير صحيح";
+          } else if (result.error?.includes("Rate limit")) {
+            statusCode = 429;
+            errorMessage = "تم تجاوز حد عدد الرسائل المسموح";
+          } else if (result.error?.includes("Template not found")) {
+            statusCode = 404;
+            errorMessage = "قالب الرسالة غير موجود";
+          }
+
+          res.status(statusCode).json({
+            message: errorMessage,
+            error: result.error,
+            success: false,
+          });
         }
+      } catch (error: any) {
+        console.error("Error sending WhatsApp message:", error);
 
-        if (!machineId || isNaN(machineId) || machineId <= 0) {
+        // Handle different types of errors gracefully
+        if (error.name === "ValidationError") {
           return res.status(400).json({
-            message: "معرف المكينة غير صحيح",
+            message: "بيانات الطلب غير صحيحة",
             success: false,
           });
         }
 
-        if (hoursAhead < 1 || hoursAhead > 168) {
-          // Max 1 week
-          return res.status(400).json({
-            message: "عدد الساعات يجب أن يكون بين 1 و 168",
+        if (error.message?.includes("timeout")) {
+          return res.status(504).json({
+            message: "انتهت مهلة الاتصال بخدمة الواتس اب",
             success: false,
           });
         }
 
-        const prediction = await mlService.predictProductionPerformance(
-          machineId,
-          hoursAhead,
-        );
+        res.status(500).json({
+          message: "خطأ غير متوقع في إرسال رسالة الواتس اب",
+          success: false,
+        });
+      }
+    },
+  );
 
-        if (!prediction) {
-          return res.status(404).json({
-            message: "لم يتم العثور على تنبؤات لهذه المكينة",
-            success: false,
-          });
+  // Send test message
+  app.post(
+    "/api/notifications/test",
+    requireAuth,
+    requirePermission("manage_whatsapp"),
+    async (req, res) => {
+      try {
+        const { phone_number } = req.body;
+
+        if (!phone_number) {
+          return res.status(400).json({ message: "رقم الهاتف مطلوب" });
         }
 
-        res.json({
-          data: prediction,
-          success: true,
-        });
-      } catch (error: any) {
-        console.error("ML prediction error:", error);
+        const result = await notificationService.sendTestMessage(phone_number);
 
-        // Handle specific ML service errors
-        if (error.message?.includes("Machine not found")) {
-          return res.status(404).json({
-            message: "المكينة غير موجودة",
-            success: false,
+        if (result.success) {
+          res.json({
+            success: true,
+            message: result.message,
           });
-        }
-
-        if (error.message?.includes("Insufficient data")) {
-          return res.status(422).json({
-            message: "بيانات غير كافية لإجراء التنبؤ",
+        } else {
+          res.status(500).json({
             success: false,
+            error: result.error,
           });
         }
-
-        res.status(500).json({
-          message: "خطأ في خدمة الذكاء الاصطناعي",
-          success: false,
-        });
+      } catch (error: any) {
+        console.error("Error sending test message:", error);
+        res.status(500).json({ message: "خطأ في إرسال رسالة الاختبار" });
       }
     },
   );
 
-  app.get("/api/ml/anomalies/:machineId", async (req, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.machineId) {
-        return res.status(400).json({ message: "معرف المكينة مطلوب" });
-      }
-
-      const idStr = req.params.machineId as string;
-      if (!/^\d+$/.test(idStr)) {
-        return res.status(400).json({ message: "معرف المكينة غير صحيح" });
-      }
-      const machineId = Number(idStr);
-
-      // استخدام آخر بيانات متاحة للمكينة
-      const mockData = {
-        timestamp: new Date(),
-        machineId,
-        productionRate: 75 + Math.random() * 20,
-        qualityScore: 85 + Math.random() * 10,
-        wastePercentage: 3 + Math.random() * 4,
-        temperature: 180 + Math.random() * 20,
-        pressure: 12 + Math.random() * 3,
-        speed: 80 + Math.random() * 15,
-      };
+  // Get notifications
+  app.get(
+    "/api/notifications",
+    requireAuth,
+    requirePermission("view_notifications"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation with safe parsing
+        let userId: number | undefined;
+        if (req.query.user_id) {
+          try {
+            userId = parseIntSafe(req.query.user_id as string, "User ID", {
+              min: 1,
+            });
+          } catch {
+            userId = undefined; // Invalid user ID parameter
+          }
+        }
 
-      const anomaly = await mlService.detectAnomalies(mockData);
-      res.json(anomaly);
-    } catch (error) {
-      console.error("ML anomaly detection error:", error);
-      res.status(500).json({ message: "خطأ في اكتشاف الشذوذ" });
-    }
-  });
+        let limitParam = 50;
+        if (req.query.limit) {
+          try {
+            limitParam = parseIntSafe(req.query.limit as string, "Limit", {
+              min: 1,
+              max: 100,
+            });
+          } catch {
+            limitParam = 50; // Default to 50 for invalid limit
+          }
+        }
 
-  app.get("/api/ml/patterns", async (req, res) => {
-    try {
-      const patterns = await mlService.analyzeProductionPatterns();
-      res.json(patterns);
-    } catch (error) {
-      console.error("ML pattern analysis error:", error);
-      res.status(500).json({ message: "خطأ في تحليل الأنماط" });
-    }
-  });
+        let offsetParam = 0;
+        if (req.query.offset) {
+          try {
+            offsetParam = parseIntSafe(req.query.offset as string, "Offset", {
+              min: 0,
+            });
+          } catch {
+            offsetParam = 0; // Default to 0 for invalid offset
+          }
+        }
 
-  app.get("/api/ml/optimization/:machineId", async (req, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.machineId) {
-        return res.status(400).json({ message: "معرف المكينة مطلوب" });
-      }
+        // Validate pagination parameters with enhanced null safety
+        const validLimit = Math.min(
+          Math.max(isNaN(limitParam) ? 50 : limitParam, 1),
+          100,
+        );
+        const validOffset = Math.max(isNaN(offsetParam) ? 0 : offsetParam, 0);
 
-      const idStr = req.params.machineId as string;
-      if (!/^\d+$/.test(idStr)) {
-        return res.status(400).json({ message: "معرف المكينة غير صحيح" });
+        const notifications = await storage.getNotifications(
+          userId,
+          validLimit,
+          validOffset,
+        );
+        res.json(notifications);
+      } catch (error: any) {
+        console.error("Error fetching notifications:", error);
+        res.status(500).json({ message: "خطأ في جلب الإشعارات" });
       }
-      const machineId = Number(idStr);
+    },
+  );
 
-      const optimization =
-        await mlService.optimizeProductionParameters(machineId);
-      res.json(optimization);
-    } catch (error) {
-      console.error("ML optimization error:", error);
-      res.status(500).json({ message: "خطأ في تحليل التحسينات" });
+  // Webhook endpoint for Meta WhatsApp
+  app.get("/api/notifications/webhook/meta", (req, res) => {
+    // Verify webhook (Meta requirement)
+    const VERIFY_TOKEN =
+      process.env.META_WEBHOOK_VERIFY_TOKEN || "mpbf_webhook_token";
+    const mode = req.query["hub.mode"];
+    const token = req.query["hub.verify_token"];
+    const challenge = req.query["hub.challenge"];
+
+    if (mode === "subscribe" && token === VERIFY_TOKEN) {
+      console.log("✅ Meta Webhook verified successfully");
+      res.status(200).send(challenge);
+    } else {
+      console.log("❌ Meta Webhook verification failed");
+      res.sendStatus(403);
     }
   });
 
-  app.post("/api/ml/train/:machineId", async (req, res) => {
+  app.post("/api/notifications/webhook/meta", async (req, res) => {
     try {
-      // Enhanced parameter validation
-      if (!req.params?.machineId) {
-        return res.status(400).json({ message: "معرف المكينة مطلوب" });
-      }
-
-      const idStr = req.params.machineId as string;
-      if (!/^\d+$/.test(idStr)) {
-        return res.status(400).json({ message: "معرف المكينة غير صحيح" });
-      }
-      const machineId = Number(idStr);
+      console.log(
+        "📨 Meta Webhook received:",
+        JSON.stringify(req.body, null, 2),
+      );
 
-      // محاكاة تدريب النموذج بإضافة بيانات عشوائية
-      for (let i = 0; i < 50; i++) {
-        const data = {
-          timestamp: new Date(Date.now() - i * 3600000), // آخر 50 ساعة
-          machineId,
-          productionRate: 70 + Math.random() * 25,
-          qualityScore: 80 + Math.random() * 15,
-          wastePercentage: 2 + Math.random() * 6,
-          temperature: 175 + Math.random() * 20,
-          pressure: 10 + Math.random() * 5,
-          speed: 75 + Math.random() * 20,
-        };
-        await mlService.addProductionData(data);
+      // معالجة webhook من Meta
+      if (notificationService.metaWhatsApp) {
+        await notificationService.metaWhatsApp.handleWebhook(req.body);
       }
 
-      res.json({
-        success: true,
-        message: `تم تدريب النموذج للمكينة ${machineId} بنجاح`,
-        dataPoints: 50,
-      });
-    } catch (error) {
-      console.error("ML training error:", error);
-      res.status(500).json({ message: "خطأ في تدريب النموذج" });
+      res.status(200).send("OK");
+    } catch (error: any) {
+      console.error("Error processing Meta webhook:", error);
+      res.status(500).json({ message: "خطأ في معالجة Meta webhook" });
     }
   });
 
-  app.post("/api/ml/apply-optimization/:machineId", async (req, res) => {
+  // Update notification status (Twilio webhook)
+  app.post("/api/notifications/webhook/twilio", async (req, res) => {
     try {
-      // Enhanced parameter validation
-      if (!req.params?.machineId) {
-        return res.status(400).json({ message: "معرف المكينة مطلوب" });
-      }
+      const { MessageSid, MessageStatus, ErrorMessage } = req.body;
 
-      const idStr = req.params.machineId as string;
-      if (!/^\d+$/.test(idStr)) {
-        return res.status(400).json({ message: "معرف المكينة غير صحيح" });
+      if (MessageSid) {
+        await notificationService.updateMessageStatus(MessageSid);
       }
-      const machineId = Number(idStr);
-
-      const optimization = req.body || {};
 
-      // محاكاة تطبيق التحسينات
-      res.json({
-        success: true,
-        message: `تم تطبيق التحسينات على المكينة ${machineId}`,
-        appliedSettings: optimization,
-      });
-    } catch (error) {
-      console.error("ML optimization application error:", error);
-      res.status(500).json({ message: "خطأ في تطبيق التحسينات" });
+      res.status(200).send("OK");
+    } catch (error: any) {
+      console.error("Error handling Twilio webhook:", error);
+      res.status(500).send("Error");
     }
   });
 
-  app.post("/api/ml/production-data", async (req, res) => {
-    try {
-      // Enhanced null safety for request body
-      if (!req.body || typeof req.body !== "object") {
-        return res.status(400).json({ message: "بيانات الإنتاج مطلوبة" });
-      }
-
-      const productionData = req.body;
-      await mlService.addProductionData(productionData);
-      res.json({ success: true, message: "تم إضافة البيانات بنجاح" });
-    } catch (error) {
-      console.error("ML data addition error:", error);
-      res.status(500).json({ message: "خطأ في إضافة البيانات" });
-    }
-  });
+  // ============ SSE Real-time Notification System ============
 
-  // Orders routes
-  app.get("/api/orders", requireAuth, async (req, res) => {
+  // SSE endpoint for real-time notifications
+  app.get("/api/notifications/stream", requireAuth, async (req, res) => {
     try {
-      const orders = await storage.getAllOrders();
+      // Initialize notification manager if not already done
+      if (!notificationManager) {
+        notificationManager = getNotificationManager(storage);
+        // Set notification manager in storage for production updates
+        setNotificationManager(notificationManager);
 
-      if (!Array.isArray(orders)) {
-        return res.status(500).json({
-          message: "خطأ في تحميل الطلبات",
-          success: false,
-        });
+        // Apply database optimizations on first initialization
+        console.log("[System] Applying database optimizations...");
+        createPerformanceIndexes().catch((err) =>
+          console.error("[System] Database optimization failed:", err),
+        );
+        createTextSearchIndexes().catch((err) =>
+          console.error("[System] Text search optimization failed:", err),
+        );
       }
 
-      res.json({
-        data: orders,
-        count: orders.length,
-        success: true,
-      });
-    } catch (error: any) {
-      console.error("Orders fetch error:", error);
-
-      if (error.name === "DatabaseError") {
-        return res.status(500).json({
-          message: error.message,
-          success: false,
-        });
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "غير مصرح به" });
       }
 
-      res.status(500).json({
-        message: "خطأ في جلب الطلبات",
-        success: false,
-      });
-    }
-  });
-
-  // Generate next order number
-  app.get("/api/orders/next-number", requireAuth, async (req, res) => {
-    try {
-      // Prevent caching to ensure fresh order numbers
-      res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
-      res.setHeader("Pragma", "no-cache");
-      res.setHeader("Expires", "0");
-
-      const orders = await storage.getAllOrders();
-      const orderNumbers = orders
-        .map((order: any) => order.order_number)
-        .filter((num: string) => num && num.startsWith("ORD"))
-        .map((num: string) => {
-          const match = num.match(/^ORD(\d+)$/);
-          if (!match || !match[1]) return 0;
-          // Use parseInt directly for order numbers to handle leading zeros
-          const parsed = parseInt(match[1], 10);
-          return isNaN(parsed) || parsed < 1 ? 0 : parsed;
-        })
-        .filter((num) => num > 0); // Remove invalid entries (zeros)
+      // Generate unique connection ID
+      const connectionId = `${userId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      const nextNumber =
-        orderNumbers.length > 0 ? Math.max(...orderNumbers) + 1 : 1;
-      const orderNumber = `ORD${nextNumber.toString().padStart(3, "0")}`;
+      // Add SSE connection
+      notificationManager.addConnection(connectionId, userId, res);
 
-      res.json({ orderNumber });
+      console.log(
+        `[SSE] New connection established for user ${userId}, connectionId: ${connectionId}`,
+      );
     } catch (error) {
-      console.error("Order number generation error:", error);
-      res.status(500).json({ message: "خطأ في توليد رقم الطلب" });
+      console.error("Error establishing SSE connection:", error);
+      res.status(500).json({ message: "خطأ في إنشاء الاتصال" });
     }
   });
 
+  // Create system notification
   app.post(
-    "/api/orders",
+    "/api/notifications/system",
     requireAuth,
-    validateRequest({ body: commonSchemas.createOrder }),
+    requirePermission("create_alerts"),
+    validateRequest({
+      body: z.object({
+        title: z.string().min(1, "العنوان مطلوب"),
+        title_ar: z.string().optional(),
+        message: z.string().min(1, "الرسالة مطلوبة"),
+        message_ar: z.string().optional(),
+        type: z
+          .enum([
+            "system",
+            "order",
+            "production",
+            "maintenance",
+            "quality",
+            "hr",
+          ])
+          .default("system"),
+        priority: z.enum(["low", "normal", "high", "urgent"]).default("normal"),
+        recipient_type: z.enum(["user", "role", "all"]),
+        recipient_id: z.string().optional(),
+        context_type: z.string().optional(),
+        context_id: z.string().optional(),
+        sound: z.boolean().optional().default(false),
+        icon: z.string().optional(),
+      }),
+    }),
     async (req, res) => {
       try {
-        // Session is already validated by requireAuth middleware
-        const userId = req.session.userId;
-        if (!userId || typeof userId !== "number") {
-          return res.status(401).json({
-            message: "معرف المستخدم غير صحيح",
-            success: false,
-          });
-        }
+        // Initialize notification manager if not already done
+        if (!notificationManager) {
+          notificationManager = getNotificationManager(storage);
+          // Set notification manager in storage for production updates
+          setNotificationManager(notificationManager);
 
-        // Validate required fields are present
-        const { customer_id, order_number } = req.body;
-        if (!customer_id?.trim()) {
-          return res.status(400).json({
-            message: "معرف العميل مطلوب",
-            success: false,
-          });
+          // Apply database optimizations on first initialization
+          console.log("[System] Applying database optimizations...");
+          createPerformanceIndexes().catch((err) =>
+            console.error("[System] Database optimization failed:", err),
+          );
+          createTextSearchIndexes().catch((err) =>
+            console.error("[System] Text search optimization failed:", err),
+          );
         }
 
-        if (!order_number?.trim()) {
-          return res.status(400).json({
-            message: "رقم الطلب مطلوب",
-            success: false,
-          });
-        }
+        const notificationData: SystemNotificationData = req.body;
 
-        // Prepare order data with safe defaults
-        let deliveryDays: number | null = null;
-        if (req.body.delivery_days) {
-          try {
-            deliveryDays = parseIntSafe(
-              req.body.delivery_days,
-              "Delivery days",
-              { min: 1, max: 365 },
-            );
-          } catch (error) {
-            return res.status(400).json({
-              message: `Invalid delivery days: ${error instanceof Error ? error.message : "Invalid value"}`,
-              success: false,
-            });
+        // Send notification based on recipient type
+        if (
+          notificationData.recipient_type === "user" &&
+          notificationData.recipient_id
+        ) {
+          const userId = parseInt(notificationData.recipient_id);
+          if (isNaN(userId)) {
+            return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
           }
+          await notificationManager.sendToUser(userId, notificationData);
+        } else if (
+          notificationData.recipient_type === "role" &&
+          notificationData.recipient_id
+        ) {
+          const roleId = parseInt(notificationData.recipient_id);
+          if (isNaN(roleId)) {
+            return res.status(400).json({ message: "معرف الدور غير صحيح" });
+          }
+          await notificationManager.sendToRole(roleId, notificationData);
+        } else if (notificationData.recipient_type === "all") {
+          await notificationManager.sendToAll(notificationData);
+        } else {
+          return res
+            .status(400)
+            .json({ message: "نوع المستلم أو معرف المستلم مطلوب" });
         }
 
-        const orderData = {
-          ...req.body,
-          created_by: userId,
-          delivery_days: deliveryDays,
-          customer_id: customer_id.trim(),
-          order_number: order_number.trim(),
-          notes: req.body.notes?.trim() || null,
-        };
-
-        const validatedData = insertNewOrderSchema.parse(orderData);
-        const order = await storage.createOrder(validatedData);
-
-        if (!order) {
-          return res.status(500).json({
-            message: "فشل في إنشاء الطلب",
-            success: false,
-          });
-        }
-
-        res.status(201).json({
-          data: order,
-          message: "تم إنشاء الطلب بنجاح",
+        res.json({
           success: true,
+          message: "تم إرسال الإشعار بنجاح",
+          recipient_type: notificationData.recipient_type,
+          recipient_id: notificationData.recipient_id,
         });
       } catch (error: any) {
-        console.error("Order creation error:", error);
-
-        if (error.name === "DatabaseError") {
-          return res.status(400).json({
-            message: error.message,
-            success: false,
-          });
-        }
-
+        console.error("Error creating system notification:", error);
         res.status(500).json({
-          message: "خطأ في إنشاء الطلب",
           success: false,
+          message: error.message || "فشل في إرسال الإشعار",
         });
       }
     },
   );
 
-  app.delete(
-    "/api/orders/:id",
+  // Mark notification as read
+  app.patch(
+    "/api/notifications/mark-read/:id",
     requireAuth,
-    requireAdmin,
-    validateRequest({ params: commonSchemas.idParam }),
     async (req, res) => {
       try {
-        const orderId = parseInt(req.params.id);
-
-        if (!orderId || isNaN(orderId) || orderId <= 0) {
-          return res.status(400).json({
-            message: "معرف الطلب غير صحيح",
-            success: false,
-          });
-        }
-
-        // Check if order exists before deletion
-        const existingOrder = await storage.getOrderById(orderId);
-        if (!existingOrder) {
-          return res.status(404).json({
-            message: "الطلب غير موجود",
-            success: false,
-          });
-        }
+        const notificationId = parseRouteParam(req.params.id, "معرف الإشعار");
 
-        await storage.deleteOrder(orderId);
+        const notification =
+          await storage.markNotificationAsRead(notificationId);
 
         res.json({
-          message: "تم حذف الطلب بنجاح",
           success: true,
+          message: "تم تعليم الإشعار كمقروء",
+          notification,
         });
       } catch (error: any) {
-        console.error("Order deletion error:", error);
-
-        if (error.name === "DatabaseError") {
-          return res.status(400).json({
-            message: error.message,
-            success: false,
-          });
-        }
-
+        console.error("Error marking notification as read:", error);
         res.status(500).json({
-          message: "خطأ في حذف الطلب",
           success: false,
+          message: error.message || "فشل في تعليم الإشعار كمقروء",
         });
       }
     },
   );
 
-  // Get orders for production page
-  app.get(
-    "/api/production/orders-for-production",
+  // Mark all notifications as read for current user
+  app.patch(
+    "/api/notifications/mark-all-read",
     requireAuth,
     async (req, res) => {
       try {
-        const orders = await storage.getOrdersForProduction();
-        res.json(orders);
-      } catch (error) {
-        console.error("Error fetching orders for production:", error);
-        res.status(500).json({ message: "خطأ في جلب طلبات الإنتاج" });
-      }
-    },
-  );
+        const userId = req.user?.id;
+        if (!userId) {
+          return res.status(401).json({ message: "غير مصرح به" });
+        }
 
-  // Get hierarchical orders for production page
-  app.get(
-    "/api/production/hierarchical-orders",
-    requireAuth,
-    async (req, res) => {
-      try {
-        const orders = await storage.getHierarchicalOrdersForProduction();
-        res.json(orders);
-      } catch (error) {
-        console.error(
-          "Error fetching hierarchical orders for production:",
-          error,
-        );
-        res.status(500).json({ message: "خطأ في جلب طلبات الإنتاج الهرمية" });
+        await storage.markAllNotificationsAsRead(userId);
+
+        res.json({
+          success: true,
+          message: "تم تعليم جميع الإشعارات كمقروءة",
+        });
+      } catch (error: any) {
+        console.error("Error marking all notifications as read:", error);
+        res.status(500).json({
+          success: false,
+          message: error.message || "فشل في تعليم الإشعارات كمقروءة",
+        });
       }
     },
   );
 
-  // Production Orders routes
-  app.get("/api/production-orders", requireAuth, async (req, res) => {
+  // Delete notification
+  app.delete("/api/notifications/delete/:id", requireAuth, async (req, res) => {
     try {
-      const productionOrders = await storage.getAllProductionOrders();
-      res.json(productionOrders);
-    } catch (error) {
-      console.error("Error fetching production orders:", error);
-      res.status(500).json({ message: "خطأ في جلب أوامر الإنتاج" });
+      const notificationId = parseRouteParam(req.params.id, "معرف الإشعار");
+
+      await storage.deleteNotification(notificationId);
+
+      res.json({
+        success: true,
+        message: "تم حذف الإشعار",
+      });
+    } catch (error: any) {
+      console.error("Error deleting notification:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "فشل في حذف الإشعار",
+      });
     }
   });
 
-  app.post("/api/production-orders", requireAuth, async (req, res) => {
+  // Get user notifications with real-time support
+  app.get("/api/notifications/user", requireAuth, async (req, res) => {
     try {
-      // Extract and validate basic fields first
-      const { customer_product_id, quantity_kg, overrun_percentage } = req.body;
-
-      // Get customer product info for intelligent calculation
-      const customerProducts = await storage.getCustomerProducts();
-      const customerProduct = customerProducts.find(
-        (cp) => cp.id === parseInt(customer_product_id),
-      );
-
-      if (!customerProduct) {
-        return res.status(404).json({
-          message: "المنتج غير موجود",
-          success: false,
-        });
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "غير مصرح به" });
       }
 
-      // Calculate final quantity using server-side logic (ignore client-provided value)
-      const quantityCalculation = calculateProductionQuantities(
-        parseFloat(quantity_kg),
-        customerProduct.punching,
-      );
+      const unreadOnly = req.query.unread_only === "true";
+      const limit = parseOptionalQueryParam(req.query.limit, "الحد الأقصى", 50);
+      const offset = parseOptionalQueryParam(req.query.offset, "الإزاحة", 0);
 
-      // Prepare production order data with server-calculated final quantity
-      const productionOrderData = {
-        ...req.body,
-        // Override with server-calculated values for security
-        final_quantity_kg: quantityCalculation.finalQuantityKg,
-        overrun_percentage:
-          overrun_percentage || quantityCalculation.overrunPercentage,
-      };
+      const notifications = await storage.getUserNotifications(userId, {
+        unreadOnly,
+        limit,
+        offset,
+      });
 
-      const validatedData =
-        insertProductionOrderSchema.parse(productionOrderData);
-      const productionOrder =
-        await storage.createProductionOrder(validatedData);
-      res.status(201).json(productionOrder);
-    } catch (error) {
-      console.error("Error creating production order:", error);
-      if (error instanceof Error && "issues" in error) {
-        res.status(400).json({ message: "بيانات غير صحيحة", errors: error });
-      } else {
-        res.status(500).json({ message: "خطأ في إنشاء أمر الإنتاج" });
-      }
+      // Count unread notifications
+      const unreadNotifications = await storage.getUserNotifications(userId, {
+        unreadOnly: true,
+        limit: 1000, // Get all unread to count
+      });
+
+      res.json({
+        success: true,
+        notifications,
+        unread_count: unreadNotifications.length,
+        total_returned: notifications.length,
+      });
+    } catch (error: any) {
+      console.error("Error fetching user notifications:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "فشل في جلب الإشعارات",
+      });
     }
   });
 
-  app.post("/api/production-orders/batch", requireAuth, async (req, res) => {
-    try {
-      const { orders } = req.body;
+  // Get SSE connection statistics (admin only)
+  app.get(
+    "/api/notifications/stats",
+    requireAuth,
+    requirePermission("view_system_health"),
+    async (req, res) => {
+      try {
+        if (!notificationManager) {
+          return res.json({
+            success: true,
+            stats: { activeConnections: 0, connectionsByUser: {} },
+          });
+        }
 
-      if (!Array.isArray(orders) || orders.length === 0) {
-        return res.status(400).json({
-          message: "يجب توفير قائمة من الطلبات",
+        const stats = notificationManager.getStats();
+        res.json({ success: true, stats });
+      } catch (error: any) {
+        console.error("Error getting notification stats:", error);
+        res.status(500).json({
           success: false,
+          message: "فشل في جلب إحصائيات الإشعارات",
         });
       }
+    },
+  );
 
-      const customerProducts = await storage.getCustomerProducts();
-      const processedOrders = [];
+  // Get notification templates
+  app.get(
+    "/api/notification-templates",
+    requireAuth,
+    requirePermission("manage_whatsapp"),
+    async (req, res) => {
+      try {
+        const templates = await storage.getNotificationTemplates();
+        res.json(templates);
+      } catch (error: any) {
+        console.error("Error fetching notification templates:", error);
+        res.status(500).json({ message: "خطأ في جلب قوالب الإشعارات" });
+      }
+    },
+  );
 
-      for (const order of orders) {
-        const { customer_product_id, quantity_kg, overrun_percentage } = order;
-        const customerProduct = customerProducts.find(
-          (cp) => cp.id === parseInt(customer_product_id),
-        );
+  // Create notification template
+  app.post(
+    "/api/notification-templates",
+    requireAuth,
+    requirePermission("manage_whatsapp"),
+    async (req, res) => {
+      try {
+        const template = await storage.createNotificationTemplate(req.body);
+        res.json(template);
+      } catch (error: any) {
+        console.error("Error creating notification template:", error);
+        res.status(500).json({ message: "خطأ في إنشاء قالب الإشعار" });
+      }
+    },
+  );
 
-        if (!customerProduct) {
-          processedOrders.push({
+  // Machine Learning API routes
+  app.get(
+    "/api/ml/predictions/:machineId",
+    requireAuth,
+    requirePermission("manage_analytics"),
+    validateRequest({
+      params: commonSchemas.idParam.extend({
+        machineId: z.string().regex(/^\d+$/).transform(Number),
+      }),
+      query: z.object({
+        hours: z.string().regex(/^\d+$/).transform(Number).optional(),
+      }),
+    }),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation with null safety
+        if (!req.params?.machineId) {
+          return res.status(400).json({
+            message: "معرف المكينة مطلوب",
             success: false,
-            error: `المنتج ${customer_product_id} غير موجود`,
-            order,
           });
-          continue;
         }
 
-        const quantityCalculation = calculateProductionQuantities(
-          parseFloat(quantity_kg),
-          customerProduct.punching,
-        );
+        const machineId = parseInt(req.params.machineId);
+        const hoursParam = req.query?.hours;
+        let hoursAhead = 24; // default
 
-        const productionOrderData = {
-          ...order,
-          final_quantity_kg: quantityCalculation.finalQuantityKg,
-          overrun_percentage:
-            overrun_percentage || quantityCalculation.overrunPercentage,
-        };
+        if (hoursParam !== undefined) {
+          const hours =
+            typeof hoursParam === "number"
+              ? hoursParam
+              : parseInt(hoursParam as string);
+          hoursAhead = !isNaN(hours) && hours > 0 ? hours : 24;
+        }
 
-        try {
-          const validatedData =
-            insertProductionOrderSchema.parse(productionOrderData);
-          processedOrders.push({
-            success: true,
-            data: validatedData,
+        if (!machineId || isNaN(machineId) || machineId <= 0) {
+          return res.status(400).json({
+            message: "معرف المكينة غير صحيح",
+            success: false,
           });
-        } catch (validationError) {
-          processedOrders.push({
+        }
+
+        if (hoursAhead < 1 || hoursAhead > 168) {
+          // Max 1 week
+          return res.status(400).json({
+            message: "عدد الساعات يجب أن يكون بين 1 و 168",
             success: false,
-            error: "بيانات غير صحيحة",
-            order,
-            validationError,
           });
         }
-      }
 
-      const validOrders = processedOrders.filter((po) => po.success);
+        const prediction = await mlService.predictProductionPerformance(
+          machineId,
+          hoursAhead,
+        );
+
+        if (!prediction) {
+          return res.status(404).json({
+            message: "لم يتم العثور على تنبؤات لهذه المكينة",
+            success: false,
+          });
+        }
 
-      if (validOrders.length === 0) {
-        return res.status(400).json({
-          message: "لا توجد طلبات صالحة للإنشاء",
-          errors: processedOrders,
+        res.json({
+          data: prediction,
+          success: true,
         });
-      }
+      } catch (error: any) {
+        console.error("ML prediction error:", error);
 
-      const result = await storage.createProductionOrdersBatch(
-        validOrders.map((po) => po.data!),
-      );
+        // Handle specific ML service errors
+        if (error.message?.includes("Machine not found")) {
+          return res.status(404).json({
+            message: "المكينة غير موجودة",
+            success: false,
+          });
+        }
 
-      res.status(201).json({
-        message: `تم إنشاء ${result.successful.length} من ${orders.length} طلب`,
-        successful: result.successful,
-        failed: result.failed,
-        validationErrors: processedOrders.filter((po) => !po.success),
-      });
-    } catch (error) {
-      console.error("Error creating batch production orders:", error);
-      res.status(500).json({ message: "خطأ في إنشاء أوامر الإنتاج" });
-    }
-  });
+        if (error.message?.includes("Insufficient data")) {
+          return res.status(422).json({
+            message: "بيانات غير كافية لإجراء التنبؤ",
+            success: false,
+          });
+        }
 
-  app.put(
-    "/api/production-orders/:id",
+        res.status(500).json({
+          message: "خطأ في خدمة الذكاء الاصطناعي",
+          success: false,
+        });
+      }
+    },
+  );
+
+  app.get(
+    "/api/ml/anomalies/:machineId",
     requireAuth,
-    requireAdmin,
+    requirePermission("manage_analytics"),
     async (req, res) => {
       try {
-        const id = parseInt(req.params.id);
-        const validatedData = insertProductionOrderSchema
-          .partial()
-          .parse(req.body);
-        const productionOrder = await storage.updateProductionOrder(
-          id,
-          validatedData,
-        );
-        res.json(productionOrder);
+        // Enhanced parameter validation
+        if (!req.params?.machineId) {
+          return res.status(400).json({ message: "معرف المكينة مطلوب" });
+        }
+
+        const idStr = req.params.machineId as string;
+        if (!/^\d+$/.test(idStr)) {
+          return res.status(400).json({ message: "معرف المكينة غير صحيح" });
+        }
+        const machineId = Number(idStr);
+
+        // استخدام آخر بيانات متاحة للمكينة
+        const mockData = {
+          timestamp: new Date(),
+          machineId,
+          productionRate: 75 + Math.random() * 20,
+          qualityScore: 85 + Math.random() * 10,
+          wastePercentage: 3 + Math.random() * 4,
+          temperature: 180 + Math.random() * 20,
+          pressure: 12 + Math.random() * 3,
+          speed: 80 + Math.random() * 15,
+        };
+
+        const anomaly = await mlService.detectAnomalies(mockData);
+        res.json(anomaly);
       } catch (error) {
-        console.error("Error updating production order:", error);
-        res.status(500).json({ message: "خطأ في تحديث أمر الإنتاج" });
+        console.error("ML anomaly detection error:", error);
+        res.status(500).json({ message: "خطأ في اكتشاف الشذوذ" });
       }
     },
   );
 
-  app.delete(
-    "/api/production-orders/:id",
+  app.get(
+    "/api/ml/patterns",
     requireAuth,
-    requireAdmin,
+    requirePermission("manage_analytics"),
     async (req, res) => {
       try {
-        const id = parseInt(req.params.id);
-        await storage.deleteProductionOrder(id);
-        res.json({ message: "تم حذف أمر الإنتاج بنجاح" });
+        const patterns = await mlService.analyzeProductionPatterns();
+        res.json(patterns);
       } catch (error) {
-        console.error("Error deleting production order:", error);
-        res.status(500).json({ message: "خطأ في حذف أمر الإنتاج" });
+        console.error("ML pattern analysis error:", error);
+        res.status(500).json({ message: "خطأ في تحليل الأنماط" });
       }
     },
   );
 
-  // Preview quantity calculations for production orders
-  app.post(
-    "/api/production-orders/preview-quantities",
+  app.get(
+    "/api/ml/optimization/:machineId",
     requireAuth,
+    requirePermission("manage_analytics"),
     async (req, res) => {
       try {
-        const { customer_product_id, quantity_kg } = req.body;
+        // Enhanced parameter validation
+        if (!req.params?.machineId) {
+          return res.status(400).json({ message: "معرف المكينة مطلوب" });
+        }
 
-        // Validate inputs
-        if (!customer_product_id || !quantity_kg || quantity_kg <= 0) {
-          return res.status(400).json({
-            message: "معرف المنتج والكمية الأساسية مطلوبان",
-            success: false,
-          });
+        const idStr = req.params.machineId as string;
+        if (!/^\d+$/.test(idStr)) {
+          return res.status(400).json({ message: "معرف المكينة غير صحيح" });
         }
+        const machineId = Number(idStr);
 
-        // Get specific customer product info for intelligent calculation (optimized with cache)
-        const customerProducts = await storage.getCustomerProducts();
-        const customerProduct = customerProducts.find(
-          (cp) => cp.id === parseInt(customer_product_id),
-        );
+        const optimization =
+          await mlService.optimizeProductionParameters(machineId);
+        res.json(optimization);
+      } catch (error) {
+        console.error("ML optimization error:", error);
+        res.status(500).json({ message: "خطأ في تحليل التحسينات" });
+      }
+    },
+  );
 
-        if (!customerProduct) {
-          return res.status(404).json({
-            message: "المنتج غير موجود",
-            success: false,
-          });
+  app.post(
+    "/api/ml/train/:machineId",
+    requireAuth,
+    requirePermission("manage_analytics"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.machineId) {
+          return res.status(400).json({ message: "معرف المكينة مطلوب" });
         }
 
-        // Calculate quantities using intelligent system
-        const quantityCalculation = calculateProductionQuantities(
-          parseFloat(quantity_kg),
-          customerProduct.punching,
-        );
+        const idStr = req.params.machineId as string;
+        if (!/^\d+$/.test(idStr)) {
+          return res.status(400).json({ message: "معرف المكينة غير صحيح" });
+        }
+        const machineId = Number(idStr);
+
+        // محاكاة تدريب النموذج بإضافة بيانات عشوائية
+        for (let i = 0; i < 50; i++) {
+          const data = {
+            timestamp: new Date(Date.now() - i * 3600000), // آخر 50 ساعة
+            machineId,
+            productionRate: 70 + Math.random() * 25,
+            qualityScore: 80 + Math.random() * 15,
+            wastePercentage: 2 + Math.random() * 6,
+            temperature: 175 + Math.random() * 20,
+            pressure: 10 + Math.random() * 5,
+            speed: 75 + Math.random() * 20,
+          };
+          await mlService.addProductionData(data);
+        }
 
         res.json({
           success: true,
-          data: {
-            customer_product_id: parseInt(customer_product_id),
-            quantity_kg: parseFloat(quantity_kg),
-            overrun_percentage: quantityCalculation.overrunPercentage,
-            final_quantity_kg: quantityCalculation.finalQuantityKg,
-            overrun_reason: quantityCalculation.overrunReason,
-            product_info: {
-              punching: customerProduct.punching,
-              size_caption: customerProduct.size_caption,
-              raw_material: customerProduct.raw_material,
-              master_batch_id: customerProduct.master_batch_id,
-            },
-          },
+          message: `تم تدريب النموذج للمكينة ${machineId} بنجاح`,
+          dataPoints: 50,
         });
       } catch (error) {
-        console.error("Quantity preview error:", error);
-        res.status(500).json({
-          message: "خطأ في حساب الكمية",
-          success: false,
-        });
+        console.error("ML training error:", error);
+        res.status(500).json({ message: "خطأ في تدريب النموذج" });
       }
     },
   );
 
-  // Get all orders with enhanced search and filtering
-  app.get("/api/orders/enhanced", requireAuth, async (req, res) => {
-    try {
-      const {
-        search,
-        customer_id,
-        status,
-        date_from,
-        date_to,
-        page = 1,
-        limit = 50,
-      } = req.query;
-
-      // Build dynamic query with filters (performance optimized)
-      const orders = await storage.getOrdersEnhanced({
-        search: search as string,
-        customer_id: customer_id as string,
-        status: status as string,
-        date_from: date_from as string,
-        date_to: date_to as string,
-        page: parseInt(page as string),
-        limit: parseInt(limit as string),
-      });
+  app.post(
+    "/api/ml/apply-optimization/:machineId",
+    requireAuth,
+    requirePermission("manage_analytics"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.machineId) {
+          return res.status(400).json({ message: "معرف المكينة مطلوب" });
+        }
 
-      res.json({
-        success: true,
-        data: orders,
-      });
-    } catch (error) {
-      console.error("Enhanced orders fetch error:", error);
-      res.status(500).json({
-        message: "خطأ في جلب الطلبات",
-        success: false,
-      });
-    }
-  });
+        const idStr = req.params.machineId as string;
+        if (!/^\d+$/.test(idStr)) {
+          return res.status(400).json({ message: "معرف المكينة غير صحيح" });
+        }
+        const machineId = Number(idStr);
 
-  // Rolls routes with pagination support
-  app.get("/api/rolls", requireAuth, async (req, res) => {
-    try {
-      const { stage, limit, offset } = req.query;
-      const options = {
-        limit: limit ? parseInt(limit as string) : undefined,
-        offset: offset ? parseInt(offset as string) : undefined,
-        stage: stage as string,
-      };
+        const optimization = req.body || {};
 
-      if (stage) {
-        const rolls = await storage.getRollsByStage(stage as string, {
-          limit: options.limit,
-          offset: options.offset,
+        // محاكاة تطبيق التحسينات
+        res.json({
+          success: true,
+          message: `تم تطبيق التحسينات على المكينة ${machineId}`,
+          appliedSettings: optimization,
         });
-        res.json(rolls);
-      } else {
-        const rolls = await storage.getRolls(options);
-        res.json(rolls);
+      } catch (error) {
+        console.error("ML optimization application error:", error);
+        res.status(500).json({ message: "خطأ في تطبيق التحسينات" });
       }
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب الرولات" });
-    }
-  });
+    },
+  );
 
-  app.patch("/api/rolls/:id", requireAuth, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const { stage, weight_kg, waste_kg, cut_weight_total_kg } = req.body;
-
-      // Prepare safe updates object
-      const safeUpdates: any = {};
-
-      // Handle stage transitions securely with employee tracking
-      if (stage) {
-        safeUpdates.stage = stage;
-        const userId = req.session.userId;
-
-        if (userId) {
-          if (stage === "printing") {
-            safeUpdates.printed_by = userId;
-            safeUpdates.printed_at = new Date();
-          } else if (stage === "cutting") {
-            safeUpdates.cut_by = userId;
-            // Note: cut_completed_at is set only when moving to 'done'
-          } else if (stage === "done") {
-            safeUpdates.cut_completed_at = new Date();
-          }
+  app.post(
+    "/api/ml/production-data",
+    requireAuth,
+    requirePermission("manage_analytics"),
+    async (req, res) => {
+      try {
+        // Enhanced null safety for request body
+        if (!req.body || typeof req.body !== "object") {
+          return res.status(400).json({ message: "بيانات الإنتاج مطلوبة" });
         }
+
+        const productionData = req.body;
+        await mlService.addProductionData(productionData);
+        res.json({ success: true, message: "تم إضافة البيانات بنجاح" });
+      } catch (error) {
+        console.error("ML data addition error:", error);
+        res.status(500).json({ message: "خطأ في إضافة البيانات" });
       }
+    },
+  );
 
-      // Allow specific safe fields only (whitelist approach)
-      if (weight_kg !== undefined) safeUpdates.weight_kg = weight_kg;
-      if (waste_kg !== undefined) safeUpdates.waste_kg = waste_kg;
-      if (cut_weight_total_kg !== undefined)
-        safeUpdates.cut_weight_total_kg = cut_weight_total_kg;
+  // Orders routes
+  app.get(
+    "/api/orders",
+    requireAuth,
+    requirePermission("view_orders"),
+    async (req, res) => {
+      try {
+        const orders = await storage.getAllOrders(undefined, getDataScope(req));
 
-      const roll = await storage.updateRoll(id, safeUpdates);
-      res.json(roll);
-    } catch (error) {
-      console.error("Error updating roll:", error);
-      res.status(400).json({ message: "خطأ في تحديث الرول" });
-    }
-  });
+        if (!Array.isArray(orders)) {
+          return res.status(500).json({
+            message: "خطأ في تحميل الطلبات",
+            success: false,
+          });
+        }
 
-  // Machines routes
-  app.get("/api/machines", requireAuth, async (req, res) => {
-    try {
-      const machines = await storage.getMachines();
-      res.json(machines);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب المكائن" });
-    }
-  });
+        res.json({
+          data: orders,
+          count: orders.length,
+          success: true,
+        });
+      } catch (error: any) {
+        console.error("Orders fetch error:", error);
 
-  // Customers routes
-  app.get("/api/customers", requireAuth, async (req, res) => {
-    try {
-      const customers = await storage.getCustomers();
-      res.json(customers);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب العملاء" });
-    }
-  });
+        if (error.name === "DatabaseError") {
+          return res.status(500).json({
+            message: error.message,
+            success: false,
+          });
+        }
 
-  // Health check endpoint for deployment
-  app.get("/api/health", (req, res) => {
-    res.json({
-      status: "healthy",
-      timestamp: new Date().toISOString(),
-      environment: process.env.NODE_ENV || "development",
-    });
-  });
+        res.status(500).json({
+          message: "خطأ في جلب الطلبات",
+          success: false,
+        });
+      }
+    },
+  );
 
-  // ================ ADVANCED REPORTING API ROUTES ================
+  // Generate next order number
+  app.get(
+    "/api/orders/next-number",
+    requireAuth,
+    requirePermission("view_orders"),
+    async (req, res) => {
+      try {
+        // Prevent caching to ensure fresh order numbers
+        res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
+        res.setHeader("Pragma", "no-cache");
+        res.setHeader("Expires", "0");
+
+        const orders = await storage.getAllOrders();
+        const orderNumbers = orders
+          .map((order: any) => order.order_number)
+          .filter((num: string) => num && num.startsWith("ORD"))
+          .map((num: string) => {
+            const match = num.match(/^ORD(\d+)$/);
+            if (!match || !match[1]) return 0;
+            // Use parseInt directly for order numbers to handle leading zeros
+            const parsed = parseInt(match[1], 10);
+            return isNaN(parsed) || parsed < 1 ? 0 : parsed;
+          })
+          .filter((num) => num > 0); // Remove invalid entries (zeros)
 
-  // Order Reports
-  app.get("/api/reports/orders", requireAuth, async (req, res) => {
-    try {
-      const { date_from, date_to } = req.query;
-      const reports = await storage.getOrderReports(
-        date_from as string,
-        date_to as string,
-      );
-      res.json({
-        success: true,
-        data: reports,
-      });
-    } catch (error) {
-      console.error("Order reports error:", error);
-      res.status(500).json({
-        message: "خطأ في جلب تقارير الطلبات",
-        success: false,
-      });
-    }
-  });
+        const nextNumber =
+          orderNumbers.length > 0 ? Math.max(...orderNumbers) + 1 : 1;
+        const orderNumber = `ORD${nextNumber.toString().padStart(3, "0")}`;
 
-  // Advanced Metrics (OEE, Cycle Time, Quality)
-  app.get("/api/reports/advanced-metrics", requireAuth, async (req, res) => {
-    try {
-      const { date_from, date_to } = req.query;
-      const metrics = await storage.getAdvancedMetrics(
-        date_from as string,
-        date_to as string,
-      );
-      res.json({
-        success: true,
-        data: metrics,
-      });
-    } catch (error) {
-      console.error("Advanced metrics error:", error);
-      res.status(500).json({
-        message: "خطأ في جلب المؤشرات المتقدمة",
-        success: false,
-      });
-    }
-  });
+        res.json({ orderNumber });
+      } catch (error) {
+        console.error("Order number generation error:", error);
+        res.status(500).json({ message: "خطأ في توليد رقم الطلب" });
+      }
+    },
+  );
 
-  // HR Reports
-  app.get("/api/reports/hr", requireAuth, async (req, res) => {
-    try {
-      const { date_from, date_to } = req.query;
-      const reports = await storage.getHRReports(
-        date_from as string,
-        date_to as string,
-      );
-      res.json({
-        success: true,
-        data: reports,
-      });
-    } catch (error) {
-      console.error("HR reports error:", error);
-      res.status(500).json({
-        message: "خطأ في جلب تقارير الموارد البشرية",
-        success: false,
-      });
-    }
-  });
+  app.post(
+    "/api/orders",
+    requireAuth,
+    requirePermission("create_orders"),
+    validateRequest({ body: commonSchemas.createOrder }),
+    async (req, res) => {
+      try {
+        // Session is already validated by requireAuth middleware
+        const userId = req.user?.id;
+        if (!userId || typeof userId !== "number") {
+          return res.status(401).json({
+            message: "معرف المستخدم غير صحيح",
+            success: false,
+          });
+        }
 
-  // Maintenance Reports
-  app.get("/api/reports/maintenance", requireAuth, async (req, res) => {
-    try {
-      const { date_from, date_to } = req.query;
-      const reports = await storage.getMaintenanceReports(
-        date_from as string,
-        date_to as string,
-      );
-      res.json({
-        success: true,
-        data: reports,
-      });
-    } catch (error) {
-      console.error("Maintenance reports error:", error);
-      res.status(500).json({
-        message: "خطأ في جلب تقارير الصيانة",
-        success: false,
-      });
-    }
-  });
+        // Validate required fields are present
+        const { customer_id, order_number } = req.body;
+        if (!customer_id?.trim()) {
+          return res.status(400).json({
+            message: "معرف العميل مطلوب",
+            success: false,
+          });
+        }
 
-  // Comprehensive Dashboard Report (All KPIs)
-  app.get("/api/reports/dashboard", requireAuth, async (req, res) => {
-    try {
-      const { date_from, date_to } = req.query;
-
-      // Fetch all reports in parallel for better performance
-      const [
-        orderReports,
-        advancedMetrics,
-        hrReports,
-        maintenanceReports,
-        realTimeStats,
-        userPerformance,
-        rolePerformance,
-        machineUtilization,
-        productionEfficiency,
-        productionAlerts,
-      ] = await Promise.all([
-        storage.getOrderReports(date_from as string, date_to as string),
-        storage.getAdvancedMetrics(date_from as string, date_to as string),
-        storage.getHRReports(date_from as string, date_to as string),
-        storage.getMaintenanceReports(date_from as string, date_to as string),
-        storage.getRealTimeProductionStats(),
-        storage.getUserPerformanceStats(
-          undefined,
-          date_from as string,
-          date_to as string,
-        ),
-        storage.getRolePerformanceStats(date_from as string, date_to as string),
-        storage.getMachineUtilizationStats(
-          date_from as string,
-          date_to as string,
-        ),
-        storage.getProductionEfficiencyMetrics(
-          date_from as string,
-          date_to as string,
-        ),
-        storage.getProductionAlerts(),
-      ]);
+        if (!order_number?.trim()) {
+          return res.status(400).json({
+            message: "رقم الطلب مطلوب",
+            success: false,
+          });
+        }
 
-      res.json({
-        success: true,
-        data: {
-          orders: orderReports,
-          metrics: advancedMetrics,
-          hr: hrReports,
-          maintenance: maintenanceReports,
-          realTime: realTimeStats,
-          userPerformance,
-          rolePerformance,
-          machineUtilization,
-          productionEfficiency,
-          alerts: productionAlerts,
-        },
-        timestamp: new Date().toISOString(),
-      });
-    } catch (error) {
-      console.error("Comprehensive dashboard error:", error);
-      res.status(500).json({
-        message: "خطأ في جلب التقرير الشامل",
-        success: false,
-      });
-    }
-  });
+        // Prepare order data with safe defaults
+        let deliveryDays: number | null = null;
+        if (req.body.delivery_days) {
+          try {
+            deliveryDays = parseIntSafe(
+              req.body.delivery_days,
+              "Delivery days",
+              { min: 1, max: 365 },
+            );
+          } catch (error) {
+            return res.status(400).json({
+              message: `Invalid delivery days: ${error instanceof Error ? error.message : "Invalid value"}`,
+              success: false,
+            });
+          }
+        }
 
-  // Export Report (Placeholder for PDF/Excel export)
-  app.post("/api/reports/export", requireAuth, async (req, res) => {
-    try {
-      const { report_type, format, date_from, date_to, filters } = req.body;
+        const orderData = {
+          ...req.body,
+          created_by: userId,
+          delivery_days: deliveryDays,
+          customer_id: customer_id.trim(),
+          order_number: order_number.trim(),
+          notes: req.body.notes?.trim() || null,
+        };
 
-      // Basic validation
-      if (!report_type || !format) {
-        return res.status(400).json({
-          message: "نوع التقرير والصيغة مطلوبان",
+        const validatedData = insertNewOrderSchema.parse(orderData);
+        const order = await storage.createOrder(validatedData);
+
+        if (!order) {
+          return res.status(500).json({
+            message: "فشل في إنشاء الطلب",
+            success: false,
+          });
+        }
+
+        res.status(201).json({
+          data: order,
+          message: "تم إنشاء الطلب بنجاح",
+          success: true,
+        });
+      } catch (error: any) {
+        console.error("Order creation error:", error);
+
+        if (error.name === "DatabaseError") {
+          return res.status(400).json({
+            message: error.message,
+            success: false,
+          });
+        }
+
+        res.status(500).json({
+          message: "خطأ في إنشاء الطلب",
           success: false,
         });
       }
+    },
+  );
 
-      // Get the requested report data
-      let reportData;
-      switch (report_type) {
-        case "orders":
-          reportData = await storage.getOrderReports(date_from, date_to);
-          break;
-        case "advanced-metrics":
-          reportData = await storage.getAdvancedMetrics(date_from, date_to);
-          break;
-        case "hr":
-          reportData = await storage.getHRReports(date_from, date_to);
-          break;
-        case "maintenance":
-          reportData = await storage.getMaintenanceReports(date_from, date_to);
-          break;
-        default:
+  app.delete(
+    "/api/orders/:id",
+    requireAuth,
+    requirePermission("delete_orders"),
+    validateRequest({ params: commonSchemas.idParam }),
+    async (req, res) => {
+      try {
+        const orderId = parseInt(req.params.id);
+
+        if (!orderId || isNaN(orderId) || orderId <= 0) {
           return res.status(400).json({
-            message: "نوع التقرير غير صحيح",
+            message: "معرف الطلب غير صحيح",
             success: false,
           });
-      }
+        }
 
-      // For now, return the data as JSON
-      // TODO: Implement actual PDF/Excel generation
-      const exportData = {
-        report_type,
-        format,
-        generated_at: new Date().toISOString(),
-        date_range: { from: date_from, to: date_to },
-        filters,
-        data: reportData,
-      };
+        // Check if order exists before deletion (out-of-scope orders are reported as missing)
+        const existingOrder = await storage.getOrderById(orderId);
+        if (
+          !existingOrder ||
+          !(await storage.isOrderInScope(orderId, getDataScope(req)))
+        ) {
+          return res.status(404).json({
+            message: "الطلب غير موجود",
+            success: false,
+          });
+        }
+
+        await storage.deleteOrder(orderId, req.user?.id);
 
-      if (format === "json") {
         res.json({
+          message: "تم حذف الطلب بنجاح",
           success: true,
-          data: exportData,
         });
-      } else {
-        // For PDF/Excel, return download link or base64 data
-        res.json({
-          success: true,
-          message: `تم تجهيز التقرير بصيغة ${format}`,
-          download_url: `/api/reports/download/${report_type}-${Date.now()}.${format}`,
-          data: exportData,
+      } catch (error: any) {
+        console.error("Order deletion error:", error);
+
+        if (error.name === "DatabaseError") {
+          return res.status(400).json({
+            message: error.message,
+            success: false,
+          });
+        }
+
+        res.status(500).json({
+          message: "خطأ في حذف الطلب",
+          success: false,
         });
       }
-    } catch (error) {
-      console.error("Export report error:", error);
-      res.status(500).json({
-        message: "خطأ في تصدير التقرير",
-        success: false,
-      });
-    }
-  });
-
-  // Base API endpoint - return 404 instead of serving HTML
-  app.get("/api", (req, res) => {
-    res.status(404).json({
-      message: "API endpoint not found",
-      availableEndpoints: [
-        "/api/health",
-        "/api/me",
-        "/api/login",
-        "/api/logout",
-        "/api/orders",
-        "/api/production-orders",
-        "/api/notifications",
-      ],
-    });
-  });
+    },
+  );
 
-  // Handle HEAD requests to /api to stop constant polling - suppress logging
-  app.head("/api", (req, res) => {
-    // Don't log these spam requests - they're likely from browser extensions or dev tools
-    res.status(404).end();
-  });
-
-  // Customers routes
-  app.post("/api/customers", async (req, res) => {
-    try {
-      console.log("Received customer data:", req.body);
-      const validatedData = insertCustomerSchema.parse(req.body);
-      console.log("Validated customer data:", validatedData);
-      const customer = await storage.createCustomer(validatedData);
-      res.json(customer);
-    } catch (error) {
-      console.error("Customer creation error:", error);
-      if (error instanceof Error) {
-        console.error("Error message:", error.message);
+  // Get orders for production page
+  app.get(
+    "/api/production/orders-for-production",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const orders = await storage.getOrdersForProduction();
+        res.json(orders);
+      } catch (error) {
+        console.error("Error fetching orders for production:", error);
+        res.status(500).json({ message: "خطأ في جلب طلبات الإنتاج" });
       }
-      res.status(400).json({
-        message: "بيانات غير صحيحة",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
-
-  app.put("/api/customers/:id", async (req, res) => {
-    try {
-      const id = req.params.id;
-      const validatedData = insertCustomerSchema.parse(req.body);
-      const customer = await storage.updateCustomer(id, validatedData);
-      res.json(customer);
-    } catch (error) {
-      console.error("Customer update error:", error);
-      res.status(400).json({
-        message: "خطأ في تحديث العميل",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
-
-  // Sections routes
-  app.get("/api/sections", async (req, res) => {
-    try {
-      const sections = await storage.getSections();
-      res.json(sections);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب الأقسام" });
-    }
-  });
-
-  // Material Groups routes (Categories)
-  app.get("/api/material-groups", async (req, res) => {
-    try {
-      const categories = await storage.getCategories();
-      res.json(categories);
-    } catch (error) {
-      console.error("Error fetching material groups:", error);
-      res.status(500).json({ message: "خطأ في جلب مجموعات المواد" });
-    }
-  });
+    },
+  );
 
-  // Items routes
-  app.get("/api/items", async (req, res) => {
-    try {
-      const items = await storage.getItems();
-      res.json(items);
-    } catch (error) {
-      console.error("Error fetching items:", error);
-      res.status(500).json({ message: "خطأ في جلب الأصناف" });
-    }
-  });
+  // Get hierarchical orders for production page
+  app.get(
+    "/api/production/hierarchical-orders",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const orders = await storage.getHierarchicalOrdersForProduction();
+        res.json(orders);
+      } catch (error) {
+        console.error(
+          "Error fetching hierarchical orders for production:",
+          error,
+        );
+        res.status(500).json({ message: "خطأ في جلب طلبات الإنتاج الهرمية" });
+      }
+    },
+  );
 
-  // Customer Products routes
-  app.get("/api/customer-products", async (req, res) => {
-    try {
-      const customerProducts = await storage.getCustomerProducts();
-      res.json(customerProducts);
-    } catch (error) {
-      console.error("Customer products fetch error:", error);
-      res.status(500).json({ message: "خطأ في جلب منتجات العملاء" });
-    }
-  });
+  // Production Orders routes
+  app.get(
+    "/api/production-orders",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const productionOrders = await storage.getAllProductionOrders();
+        res.json(productionOrders);
+      } catch (error) {
+        console.error("Error fetching production orders:", error);
+        res.status(500).json({ message: "خطأ في جلب أوامر الإنتاج" });
+      }
+    },
+  );
 
-  app.post("/api/customer-products", requireAuth, async (req, res) => {
-    try {
-      // STEP 1: Zod schema validation
-      const validatedData = insertCustomerProductSchema.parse(req.body);
+  app.post(
+    "/api/production-orders",
+    requireAuth,
+    requirePermission("create_production"),
+    async (req, res) => {
+      try {
+        // Extract and validate basic fields first
+        const { customer_product_id, quantity_kg, overrun_percentage } = req.body;
 
-      // STEP 2: DataValidator integration for business rules
-      const validationResult = await getDataValidator(storage).validateData(
-        "customer_products",
-        validatedData,
-      );
-      if (!validationResult.isValid) {
-        const criticalErrors = validationResult.errors.filter(
-          (e) => e.severity === "critical" || e.severity === "high",
+        // Get customer product info for intelligent calculation
+        const customerProducts = await storage.getCustomerProducts();
+        const customerProduct = customerProducts.find(
+          (cp) => cp.id === parseInt(customer_product_id),
         );
-        if (criticalErrors.length > 0) {
-          return res.status(400).json({
-            message: criticalErrors[0].message_ar || criticalErrors[0].message,
-            errors: validationResult.errors,
+
+        if (!customerProduct) {
+          return res.status(404).json({
+            message: "المنتج غير موجود",
             success: false,
           });
         }
-      }
 
-      // STEP 3: Create customer product with validated data
-      const customerProduct =
-        await storage.createCustomerProduct(validatedData);
+        // Calculate final quantity using server-side logic (ignore client-provided value)
+        const quantityCalculation = calculateProductionQuantities(
+          parseFloat(quantity_kg),
+          customerProduct.punching,
+        );
 
-      res.status(201).json({
-        data: customerProduct,
-        message: "تم إنشاء منتج العميل بنجاح",
-        success: true,
-      });
-    } catch (error: any) {
-      console.error("Customer product creation error:", error);
+        // Prepare production order data with server-calculated final quantity
+        const productionOrderData = {
+          ...req.body,
+          // Override with server-calculated values for security
+          final_quantity_kg: quantityCalculation.finalQuantityKg,
+          overrun_percentage:
+            overrun_percentage || quantityCalculation.overrunPercentage,
+        };
 
-      if (error.name === "DatabaseError") {
-        return res.status(400).json({
-          message: error.message,
-          success: false,
-        });
+        const validatedData =
+          insertProductionOrderSchema.parse(productionOrderData);
+        const productionOrder =
+          await storage.createProductionOrder(validatedData);
+        res.status(201).json(productionOrder);
+      } catch (error) {
+        console.error("Error creating production order:", error);
+        if (error instanceof Error && "issues" in error) {
+          res.status(400).json({ message: "بيانات غير صحيحة", errors: error });
+        } else {
+          res.status(500).json({ message: "خطأ في إنشاء أمر الإنتاج" });
+        }
       }
+    },
+  );
 
-      res.status(500).json({
-        message: "خطأ في إنشاء منتج العميل",
-        success: false,
-      });
-    }
-  });
+  app.post(
+    "/api/production-orders/batch",
+    requireAuth,
+    requirePermission("create_production"),
+    async (req, res) => {
+      try {
+        const { orders } = req.body;
 
-  // Locations routes
-  app.get("/api/locations", async (req, res) => {
-    try {
-      const locations = await storage.getLocations();
-      res.json(locations);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب المواقع" });
-    }
-  });
+        if (!Array.isArray(orders) || orders.length === 0) {
+          return res.status(400).json({
+            message: "يجب توفير قائمة من الطلبات",
+            success: false,
+          });
+        }
 
-  app.post("/api/locations", async (req, res) => {
-    try {
-      const validatedData = insertLocationSchema.parse(req.body);
-      const location = await storage.createLocationExtended(validatedData);
-      res.json(location);
-    } catch (error) {
-      console.error("Location creation error:", error);
-      res.status(400).json({ message: "بيانات غير صحيحة" });
-    }
-  });
+        const customerProducts = await storage.getCustomerProducts();
+        const processedOrders = [];
 
-  app.put("/api/locations/:id", async (req, res) => {
-    try {
-      const id = req.params.id;
-      const validatedData = insertLocationSchema.partial().parse(req.body);
-      const location = await storage.updateLocationExtended(id, validatedData);
-      res.json(location);
-    } catch (error) {
-      console.error("Location update error:", error);
-      res.status(400).json({ message: "فشل في تحديث الموقع" });
-    }
-  });
+        for (const order of orders) {
+          const { customer_product_id, quantity_kg, overrun_percentage } = order;
+          const customerProduct = customerProducts.find(
+            (cp) => cp.id === parseInt(customer_product_id),
+          );
 
-  // Inventory movements routes
-  app.get("/api/inventory-movements", async (req, res) => {
-    try {
-      const movements = await storage.getInventoryMovements();
-      res.json(movements);
-    } catch (error) {
-      console.error("Error fetching inventory movements:", error);
-      res.status(500).json({ message: "خطأ في جلب حركات المخزون" });
-    }
-  });
+          if (!customerProduct) {
+            processedOrders.push({
+              success: false,
+              error: `المنتج ${customer_product_id} غير موجود`,
+              order,
+            });
+            continue;
+          }
 
-  app.post("/api/inventory-movements", async (req, res) => {
-    try {
-      const validatedData = insertInventoryMovementSchema.parse(req.body);
-      const movement = await storage.createInventoryMovement(validatedData);
-      res.json(movement);
-    } catch (error) {
-      console.error("Inventory movement creation error:", error);
-      res.status(400).json({ message: "بيانات غير صحيحة" });
-    }
-  });
+          const quantityCalculation = calculateProductionQuantities(
+            parseFloat(quantity_kg),
+            customerProduct.punching,
+          );
 
-  app.delete("/api/inventory-movements/:id", async (req, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.id) {
-        return res.status(400).json({ message: "معرف الحركة مطلوب" });
-      }
+          const productionOrderData = {
+            ...order,
+            final_quantity_kg: quantityCalculation.finalQuantityKg,
+            overrun_percentage:
+              overrun_percentage || quantityCalculation.overrunPercentage,
+          };
 
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res.status(400).json({ message: "معرف الحركة غير صحيح" });
-      }
+          try {
+            const validatedData =
+              insertProductionOrderSchema.parse(productionOrderData);
+            processedOrders.push({
+              success: true,
+              data: validatedData,
+            });
+          } catch (validationError) {
+            processedOrders.push({
+              success: false,
+              error: "بيانات غير صحيحة",
+              order,
+              validationError,
+            });
+          }
+        }
 
-      const success = await storage.deleteInventoryMovement(id);
-      if (success) {
-        res.json({ message: "تم حذف الحركة بنجاح" });
-      } else {
-        res.status(404).json({ message: "الحركة غير موجودة" });
-      }
-    } catch (error) {
-      console.error("Inventory movement deletion error:", error);
-      res.status(500).json({ message: "خطأ في حذف الحركة" });
-    }
-  });
+        const validOrders = processedOrders.filter((po) => po.success);
 
-  // Users routes
-  app.get("/api/users", async (req, res) => {
-    try {
-      const users = await storage.getSafeUsers();
-      res.json(users);
-    } catch (error) {
-      console.error("Error fetching safe users:", error);
-      res.status(500).json({ message: "خطأ في جلب المستخدمين" });
-    }
-  });
+        if (validOrders.length === 0) {
+          return res.status(400).json({
+            message: "لا توجد طلبات صالحة للإنشاء",
+            errors: processedOrders,
+          });
+        }
 
-  app.get("/api/users/:id", async (req, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.id) {
-        return res.status(400).json({ message: "معرف المستخدم مطلوب" });
+        const result = await storage.createProductionOrdersBatch(
+          validOrders.map((po) => po.data!),
+        );
+
+        res.status(201).json({
+          message: `تم إنشاء ${result.successful.length} من ${orders.length} طلب`,
+          successful: result.successful,
+          failed: result.failed,
+          validationErrors: processedOrders.filter((po) => !po.success),
+        });
+      } catch (error) {
+        console.error("Error creating batch production orders:", error);
+        res.status(500).json({ message: "خطأ في إنشاء أوامر الإنتاج" });
       }
+    },
+  );
 
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+  app.put(
+    "/api/production-orders/:id",
+    requireAuth,
+    requirePermission("update_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const validatedData = insertProductionOrderSchema
+          .partial()
+          .parse(req.body);
+        const productionOrder = await storage.updateProductionOrder(
+          id,
+          validatedData,
+        );
+        res.json(productionOrder);
+      } catch (error) {
+        console.error("Error updating production order:", error);
+        res.status(500).json({ message: "خطأ في تحديث أمر الإنتاج" });
       }
+    },
+  );
 
-      const user = await storage.getSafeUser(id);
-      if (!user) {
-        return res.status(404).json({ message: "المستخدم غير موجود" });
+  app.delete(
+    "/api/production-orders/:id",
+    requireAuth,
+    requirePermission("delete_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteProductionOrder(id, req.user?.id);
+        res.json({ message: "تم حذف أمر الإنتاج بنجاح" });
+      } catch (error) {
+        console.error("Error deleting production order:", error);
+        res.status(500).json({ message: "خطأ في حذف أمر الإنتاج" });
       }
-      res.json(user);
-    } catch (error) {
-      console.error("Error fetching safe user by ID:", error);
-      res.status(500).json({ message: "خطأ في جلب بيانات المستخدم" });
-    }
-  });
+    },
+  );
 
-  // Categories routes (for material groups)
-  app.get("/api/categories", async (req, res) => {
-    try {
-      const categories = await storage.getCategories();
-      res.json(categories);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب الفئات" });
-    }
-  });
+  // Preview quantity calculations for production orders
+  app.post(
+    "/api/production-orders/preview-quantities",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const { customer_product_id, quantity_kg } = req.body;
 
-  app.post("/api/categories", async (req, res) => {
-    try {
-      console.log("Received category data:", req.body);
-
-      // Generate sequential ID if not provided with enhanced null safety
-      let categoryId = req.body?.id;
-      if (!categoryId) {
-        const existingCategories = (await storage.getCategories()) || [];
-        const categoryNumbers = existingCategories
-          .map((cat) => cat?.id)
-          .filter(
-            (id) =>
-              id &&
-              typeof id === "string" &&
-              id.startsWith("CAT") &&
-              id.length <= 6,
-          ) // Standard format only
-          .map((id) => {
-            const num = id.replace("CAT", "");
-            const parsed = parseInt(num);
-            return isNaN(parsed) ? 0 : parsed;
-          })
-          .filter((num) => num > 0)
-          .sort((a, b) => b - a);
+        // Validate inputs
+        if (!customer_product_id || !quantity_kg || quantity_kg <= 0) {
+          return res.status(400).json({
+            message: "معرف المنتج والكمية الأساسية مطلوبان",
+            success: false,
+          });
+        }
 
-        const nextNumber =
-          categoryNumbers.length > 0 ? categoryNumbers[0] + 1 : 1;
-        categoryId = nextNumber < 10 ? `CAT0${nextNumber}` : `CAT${nextNumber}`;
-      }
-
-      // Enhanced null safety for request body processing
-      const processedData = {
-        ...req.body,
-        id: categoryId,
-        parent_id:
-          !req.body?.parent_id ||
-          req.body.parent_id === "none" ||
-          req.body.parent_id === ""
-            ? null
-            : req.body.parent_id,
-        code: !req.body?.code || req.body.code === "" ? null : req.body.code,
-      };
+        // Get specific customer product info for intelligent calculation (optimized with cache)
+        const customerProducts = await storage.getCustomerProducts();
+        const customerProduct = customerProducts.find(
+          (cp) => cp.id === parseInt(customer_product_id),
+        );
 
-      console.log("Processed category data:", processedData);
-      const category = await storage.createCategory(processedData);
-      console.log("Created category:", category);
-      res.json(category);
-    } catch (error) {
-      console.error("Category creation error:", error);
-      res.status(500).json({
-        message: "خطأ في إنشاء الفئة",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+        if (!customerProduct) {
+          return res.status(404).json({
+            message: "المنتج غير موجود",
+            success: false,
+          });
+        }
 
-  app.put("/api/categories/:id", async (req, res) => {
-    try {
-      const id = req.params.id;
-      console.log("Updating category:", id, req.body);
-
-      const processedData = {
-        ...req.body,
-        parent_id:
-          req.body.parent_id === "none" || req.body.parent_id === ""
-            ? null
-            : req.body.parent_id,
-        code: req.body.code === "" || !req.body.code ? null : req.body.code,
-      };
+        // Calculate quantities using intelligent system
+        const quantityCalculation = calculateProductionQuantities(
+          parseFloat(quantity_kg),
+          customerProduct.punching,
+        );
 
-      const category = await storage.updateCategory(id, processedData);
-      res.json(category);
-    } catch (error) {
-      console.error("Category update error:", error);
-      res.status(500).json({
-        message: "خطأ في تحديث الفئة",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+        res.json({
+          success: true,
+          data: {
+            customer_product_id: parseInt(customer_product_id),
+            quantity_kg: parseFloat(quantity_kg),
+            overrun_percentage: quantityCalculation.overrunPercentage,
+            final_quantity_kg: quantityCalculation.finalQuantityKg,
+            overrun_reason: quantityCalculation.overrunReason,
+            product_info: {
+              punching: customerProduct.punching,
+              size_caption: customerProduct.size_caption,
+              raw_material: customerProduct.raw_material,
+              master_batch_id: customerProduct.master_batch_id,
+            },
+          },
+        });
+      } catch (error) {
+        console.error("Quantity preview error:", error);
+        res.status(500).json({
+          message: "خطأ في حساب الكمية",
+          success: false,
+        });
+      }
+    },
+  );
 
-  app.delete("/api/categories/:id", async (req, res) => {
-    try {
-      const id = req.params.id;
-      await storage.deleteCategory(id);
-      res.json({ message: "تم حذف الفئة بنجاح" });
-    } catch (error) {
-      console.error("Category deletion error:", error);
-      res.status(500).json({
-        message: "خطأ في حذف الفئة",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+  // أقرب تاريخ تسليم ممكن لبنود طلب جديد حسب حمل خطة الإنتاج الحالية
+  app.post(
+    "/api/orders/delivery-promise",
+    requireAuth,
+    requirePermission("view_orders"),
+    async (req, res) => {
+      try {
+        const { items, exclude_order_id } = z
+          .object({
+            items: z
+              .array(
+                z.object({
+                  customer_product_id: z.coerce
+                    .number()
+                    .int()
+                    .positive("منتج العميل مطلوب"),
+                  quantity_kg: z.coerce
+                    .number()
+                    .positive("الكمية يجب أن تكون أكبر من صفر"),
+                }),
+              )
+              .min(1, "يجب تحديد بند واحد على الأقل"),
+            exclude_order_id: z.coerce.number().int().positive().optional(),
+          })
+          .parse(req.body);
 
-  // Training Records routes
-  app.get("/api/training-records", async (req, res) => {
-    try {
-      const trainingRecords = await storage.getTrainingRecords();
-      res.json(trainingRecords);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب سجلات التدريب" });
-    }
-  });
+        const promise = await storage.getDeliveryPromise(items, exclude_order_id);
+        res.json(promise);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        const message = error instanceof Error ? error.message : "";
+        if (message.includes("غير موجود")) {
+          return res.status(404).json({ message });
+        }
+        console.error("Delivery promise error:", error);
+        res.status(500).json({ message: "خطأ في حساب أقرب تاريخ تسليم" });
+      }
+    },
+  );
 
-  app.post("/api/training-records", async (req, res) => {
-    try {
-      const trainingRecord = await storage.createTrainingRecord(req.body);
-      res.json(trainingRecord);
-    } catch (error) {
-      res.status(400).json({ message: "بيانات غير صحيحة" });
-    }
-  });
+  // Get all orders with enhanced search and filtering
+  app.get(
+    "/api/orders/enhanced",
+    requireAuth,
+    requirePermission("view_orders"),
+    async (req, res) => {
+      try {
+        const {
+          search,
+          customer_id,
+          status,
+          date_from,
+          date_to,
+          page = 1,
+          limit = 50,
+        } = req.query;
+
+        // Build dynamic query with filters (performance optimized)
+        const orders = await storage.getOrdersEnhanced({
+          search: search as string,
+          customer_id: customer_id as string,
+          status: status as string,
+          date_from: date_from as string,
+          date_to: date_to as string,
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+        }, getDataScope(req));
 
-  // Admin Decisions routes
-  app.get("/api/admin-decisions", async (req, res) => {
-    try {
-      const adminDecisions = await storage.getAdminDecisions();
-      res.json(adminDecisions);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب القرارات الإدارية" });
-    }
-  });
+        res.json({
+          success: true,
+          data: orders,
+        });
+      } catch (error) {
+        console.error("Enhanced orders fetch error:", error);
+        res.status(500).json({
+          message: "خطأ في جلب الطلبات",
+          success: false,
+        });
+      }
+    },
+  );
 
-  app.post("/api/admin-decisions", async (req, res) => {
-    try {
-      const adminDecision = await storage.createAdminDecision(req.body);
-      res.json(adminDecision);
-    } catch (error) {
-      res.status(400).json({ message: "بيانات غير صحيحة" });
-    }
-  });
+  // Rolls routes with pagination support
+  app.get(
+    "/api/rolls",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const { stage, limit, offset } = req.query;
+        const options = {
+          limit: limit ? parseInt(limit as string) : undefined,
+          offset: offset ? parseInt(offset as string) : undefined,
+          stage: stage as string,
+        };
 
-  // Warehouse Transactions routes
-  app.get("/api/warehouse-transactions", async (req, res) => {
-    try {
-      const warehouseTransactions = await storage.getWarehouseTransactions();
-      res.json(warehouseTransactions);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب حركات المستودع" });
-    }
-  });
+        if (stage) {
+          const rolls = await storage.getRollsByStage(stage as string, {
+            limit: options.limit,
+            offset: options.offset,
+          });
+          res.json(rolls);
+        } else {
+          const rolls = await storage.getRolls(options);
+          res.json(rolls);
+        }
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب الرولات" });
+      }
+    },
+  );
 
-  app.post("/api/warehouse-transactions", async (req, res) => {
-    try {
-      const warehouseTransaction = await storage.createWarehouseTransaction(
-        req.body,
-      );
-      res.json(warehouseTransaction);
-    } catch (error) {
-      res.status(400).json({ message: "بيانات غير صحيحة" });
-    }
-  });
+  app.patch(
+    "/api/rolls/:id",
+    requireAuth,
+    requirePermission("update_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const { stage, weight_kg, waste_kg, waste_reason_id, cut_weight_total_kg } =
+          req.body;
+
+        // تعديل الهدر يتطلب سبباً من كتالوج أسباب الهدر ويُسجل في جدول الهدر
+        let roll: Roll | undefined;
+        if (waste_kg !== undefined) {
+          if (!waste_reason_id) {
+            return res.status(400).json({ message: "يجب تحديد سبب الهدر" });
+          }
+          roll = await storage.adjustRollWaste(id, {
+            waste_kg: parseFloat(waste_kg),
+            reason_id: parseInt(waste_reason_id),
+            recorded_by: req.user?.id,
+          });
+        }
 
-  // Mixing Recipes routes
-  app.get("/api/mixing-recipes", async (req, res) => {
-    try {
-      const mixingRecipes = await storage.getMixingRecipes();
-      res.json(mixingRecipes);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب وصفات الخلط" });
-    }
-  });
+        // Prepare safe updates object
+        const safeUpdates: any = {};
+
+        // Handle stage transitions securely with employee tracking
+        if (stage) {
+          safeUpdates.stage = stage;
+          const userId = req.user?.id;
+
+          if (userId) {
+            if (stage === "printing") {
+              safeUpdates.printed_by = userId;
+              safeUpdates.printed_at = new Date();
+            } else if (stage === "cutting") {
+              safeUpdates.cut_by = userId;
+              // Note: cut_completed_at is set only when moving to 'done'
+            } else if (stage === "done") {
+              safeUpdates.cut_completed_at = new Date();
+            }
+          }
+        }
 
-  app.post("/api/mixing-recipes", async (req, res) => {
-    try {
-      const mixingRecipe = await storage.createMixingRecipe(req.body);
-      res.json(mixingRecipe);
-    } catch (error) {
-      res.status(400).json({ message: "بيانات غير صحيحة" });
-    }
-  });
+        // Allow specific safe fields only (whitelist approach)
+        if (weight_kg !== undefined) safeUpdates.weight_kg = weight_kg;
+        if (cut_weight_total_kg !== undefined)
+          safeUpdates.cut_weight_total_kg = cut_weight_total_kg;
 
-  // Maintenance routes
-  app.get("/api/maintenance", async (req, res) => {
-    try {
-      const requests = await storage.getMaintenanceRequests();
-      res.json(requests);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب طلبات الصيانة" });
-    }
-  });
+        if (Object.keys(safeUpdates).length > 0) {
+          roll = await storage.updateRoll(id, safeUpdates);
+        }
+        res.json(roll);
+      } catch (error) {
+        console.error("Error updating roll:", error);
+        if (
+          error instanceof Error &&
+          (error.message.includes("سبب الهدر") ||
+            error.message.includes("لا يمكن تعديل الهدر"))
+        ) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(400).json({ message: "خطأ في تحديث الرول" });
+      }
+    },
+  );
 
-  app.post("/api/maintenance", async (req, res) => {
-    try {
-      const validatedData = insertMaintenanceRequestSchema.parse(req.body);
-      const request = await storage.createMaintenanceRequest(validatedData);
-      res.json(request);
-    } catch (error) {
-      res.status(400).json({ message: "بيانات غير صحيحة" });
-    }
-  });
+  // حذف رول مع إعادة المواد الخام المصروفة له إلى المخزون
+  app.delete(
+    "/api/rolls/:id",
+    requireAuth,
+    requirePermission("delete_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف الرول غير صحيح" });
+        }
 
-  // Quality checks routes
-  app.get("/api/quality-checks", async (req, res) => {
-    try {
-      const qualityChecks = await storage.getQualityChecks();
-      res.json(qualityChecks);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب فحوصات الجودة" });
-    }
-  });
+        const roll = await storage.deleteRoll(id, req.user!.id);
+        if (!roll) {
+          return res.status(404).json({ message: "الرول غير موجود" });
+        }
+        res.json({ message: "تم حذف الرول وإعادة المواد الخام إلى المخزون" });
+      } catch (error) {
+        console.error("Error deleting roll:", error);
+        res.status(500).json({ message: "خطأ في حذف الرول" });
+      }
+    },
+  );
 
-  // Maintenance requests routes
-  app.get("/api/maintenance-requests", async (req, res) => {
-    try {
-      const maintenanceRequests = await storage.getMaintenanceRequests();
-      res.json(maintenanceRequests);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب طلبات الصيانة" });
-    }
-  });
+  // Machines routes
+  app.get(
+    "/api/machines",
+    requireAuth,
+    requirePermission(
+      "view_definitions",
+      "view_production",
+      "view_maintenance",
+    ),
+    async (req, res) => {
+      try {
+        const machines = await storage.getMachines();
+        res.json(machines);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب المكائن" });
+      }
+    },
+  );
 
-  app.post("/api/maintenance-requests", async (req, res) => {
-    try {
-      console.log("Creating maintenance request with data:", req.body);
-      
-      // Process the data to convert string values to appropriate types
-      const processedData = { ...req.body };
-      
-      // machine_id stays as string (e.g., 'MAC12')
-      // No conversion needed
-      
-      // Convert reported_by from string to number
-      if (processedData.reported_by && typeof processedData.reported_by === 'string') {
-        processedData.reported_by = parseInt(processedData.reported_by, 10);
+  // Waste reasons catalogue
+  app.get(
+    "/api/waste-reasons",
+    requireAuth,
+    requirePermission("view_definitions", "view_production"),
+    async (req, res) => {
+      try {
+        const reasons = await storage.getWasteReasons({
+          stage: req.query.stage as string | undefined,
+          activeOnly: req.query.active === "true",
+        });
+        res.json(reasons);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب أسباب الهدر" });
       }
-      
-      // Convert assigned_to from empty string to null, or from string to number
-      if (processedData.assigned_to === '' || processedData.assigned_to === 'none') {
-        processedData.assigned_to = null;
-      } else if (processedData.assigned_to && typeof processedData.assigned_to === 'string') {
-        processedData.assigned_to = parseInt(processedData.assigned_to, 10);
+    },
+  );
+
+  app.post(
+    "/api/waste-reasons",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        const data = insertWasteReasonSchema.parse(req.body);
+        const reason = await storage.createWasteReason(data);
+        res.status(201).json(reason);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error creating waste reason:", error);
+        res.status(500).json({
+          message:
+            error instanceof Error ? error.message : "خطأ في إنشاء سبب الهدر",
+        });
       }
-      
-      const validatedData = insertMaintenanceRequestSchema.parse(processedData);
-      const request = await storage.createMaintenanceRequest(validatedData);
-      console.log("Created maintenance request:", request);
-      res.json(request);
-    } catch (error) {
-      console.error("Error creating maintenance request:", error);
-      res.status(500).json({
-        message: "خطأ في إنشاء طلب الصيانة",
-        error: error instanceof Error ? error.message : String(error),
-      });
-    }
-  });
+    },
+  );
 
-  // Maintenance Actions routes
-  app.get("/api/maintenance-actions", async (req, res) => {
-    try {
-      const actions = await storage.getAllMaintenanceActions();
-      res.json(actions);
-    } catch (error) {
-      console.error("Error fetching maintenance actions:", error);
-      res.status(500).json({ message: "خطأ في جلب إجراءات الصيانة" });
-    }
-  });
+  app.put(
+    "/api/waste-reasons/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const data = insertWasteReasonSchema.partial().parse(req.body);
+        const reason = await storage.updateWasteReason(id, data);
+        if (!reason) {
+          return res.status(404).json({ message: "سبب الهدر غير موجود" });
+        }
+        res.json(reason);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error updating waste reason:", error);
+        res.status(500).json({ message: "خطأ في تحديث سبب الهدر" });
+      }
+    },
+  );
 
-  app.get("/api/maintenance-actions/request/:requestId", async (req, res) => {
-    try {
-      const requestId = parseInt(req.params.requestId);
-      const actions = await storage.getMaintenanceActionsByRequestId(requestId);
-      res.json(actions);
-    } catch (error) {
-      console.error("Error fetching maintenance actions by request:", error);
-      res.status(500).json({ message: "خطأ في جلب إجراءات الصيانة للطلب" });
-    }
-  });
+  app.delete(
+    "/api/waste-reasons/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        await storage.deleteWasteReason(parseInt(req.params.id));
+        res.json({ message: "تم حذف سبب الهدر" });
+      } catch (error) {
+        console.error("Error deleting waste reason:", error);
+        res.status(500).json({ message: "خطأ في حذف سبب الهدر" });
+      }
+    },
+  );
 
-  app.post("/api/maintenance-actions", async (req, res) => {
-    try {
-      console.log("Creating maintenance action with data:", req.body);
-      const data = insertMaintenanceActionSchema.parse(req.body);
-      console.log("Parsed action data:", data);
-      const action = await storage.createMaintenanceAction(data);
-      console.log("Created maintenance action:", action);
-      res.json(action);
-    } catch (error) {
-      console.error("Error creating maintenance action:", error);
-      res.status(500).json({
-        message: "خطأ في إنشاء إجراء الصيانة",
-        error: error instanceof Error ? error.message : String(error),
-      });
-    }
-  });
-
-  app.put("/api/maintenance-actions/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const action = await storage.updateMaintenanceAction(id, req.body);
-      res.json(action);
-    } catch (error) {
-      console.error("Error updating maintenance action:", error);
-      res.status(500).json({ message: "خطأ في تحديث إجراء الصيانة" });
-    }
-  });
+  // Customers routes
+  app.get(
+    "/api/customers",
+    requireAuth,
+    requirePermission("view_definitions", "view_orders"),
+    async (req, res) => {
+      try {
+        const customers = await storage.getCustomers(getDataScope(req));
+        res.json(customers);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب العملاء" });
+      }
+    },
+  );
 
-  app.delete("/api/maintenance-actions/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteMaintenanceAction(id);
-      res.json({ message: "تم حذف إجراء الصيانة بنجاح" });
-    } catch (error) {
-      console.error("Error deleting maintenance action:", error);
-      res.status(500).json({ message: "خطأ في حذف إجراء الصيانة" });
-    }
+  // Health check endpoint for deployment
+  app.get("/api/health", (req, res) => {
+    res.json({
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      environment: process.env.NODE_ENV || "development",
+    });
   });
 
-  // Maintenance Reports routes
-  app.get("/api/maintenance-reports", async (req, res) => {
-    try {
-      const { type } = req.query;
-      const reports = type
-        ? await storage.getMaintenanceReportsByType(type as string)
-        : await storage.getAllMaintenanceReports();
-      res.json(reports);
-    } catch (error) {
-      console.error("Error fetching maintenance reports:", error);
-      res.status(500).json({ message: "خطأ في جلب بلاغات الصيانة" });
-    }
-  });
+  // ================ ADVANCED REPORTING API ROUTES ================
 
-  app.post("/api/maintenance-reports", async (req, res) => {
-    try {
-      const data = insertMaintenanceReportSchema.parse(req.body);
-      const report = await storage.createMaintenanceReport(data);
-      res.json(report);
-    } catch (error) {
-      console.error("Error creating maintenance report:", error);
-      res.status(500).json({ message: "خطأ في إنشاء بلاغ الصيانة" });
-    }
-  });
+  // Order Reports
+  app.get(
+    "/api/reports/orders",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const { date_from, date_to } = req.query;
+        const reports = await storage.getOrderReports(
+          date_from as string,
+          date_to as string,
+        );
+        res.json({
+          success: true,
+          data: reports,
+        });
+      } catch (error) {
+        console.error("Order reports error:", error);
+        res.status(500).json({
+          message: "خطأ في جلب تقارير الطلبات",
+          success: false,
+        });
+      }
+    },
+  );
 
-  app.put("/api/maintenance-reports/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const report = await storage.updateMaintenanceReport(id, req.body);
-      res.json(report);
-    } catch (error) {
-      console.error("Error updating maintenance report:", error);
-      res.status(500).json({ message: "خطأ في تحديث بلاغ الصيانة" });
-    }
-  });
+  // Waste analysis - Pareto by reason, machine, operator, customer product and shift
+  app.get(
+    "/api/reports/waste-analysis",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const { date_from, date_to, stage } = req.query;
+        const analysis = await storage.getWasteAnalysis({
+          dateFrom: date_from as string | undefined,
+          dateTo: date_to as string | undefined,
+          stage: stage as string | undefined,
+        });
+        res.json({
+          success: true,
+          data: analysis,
+        });
+      } catch (error) {
+        console.error("Waste analysis error:", error);
+        res.status(500).json({
+          message: "خطأ في جلب تحليل الهدر",
+          success: false,
+        });
+      }
+    },
+  );
 
-  app.delete("/api/maintenance-reports/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteMaintenanceReport(id);
-      res.json({ message: "تم حذف بلاغ الصيانة بنجاح" });
-    } catch (error) {
-      console.error("Error deleting maintenance report:", error);
-      res.status(500).json({ message: "خطأ في حذف بلاغ الصيانة" });
-    }
-  });
+  // Advanced Metrics (OEE, Cycle Time, Quality)
+  app.get(
+    "/api/reports/advanced-metrics",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const { date_from, date_to } = req.query;
+        const metrics = await storage.getAdvancedMetrics(
+          date_from as string,
+          date_to as string,
+        );
+        res.json({
+          success: true,
+          data: metrics,
+        });
+      } catch (error) {
+        console.error("Advanced metrics error:", error);
+        res.status(500).json({
+          message: "خطأ في جلب المؤشرات المتقدمة",
+          success: false,
+        });
+      }
+    },
+  );
 
-  // Operator Negligence Reports routes
-  app.get("/api/operator-negligence-reports", async (req, res) => {
-    try {
-      const { operator_id } = req.query;
-      const reports = operator_id
-        ? await storage.getOperatorNegligenceReportsByOperator(
-            parseInt(operator_id as string),
-          )
-        : await storage.getAllOperatorNegligenceReports();
-      res.json(reports);
-    } catch (error) {
-      console.error("Error fetching operator negligence reports:", error);
-      res.status(500).json({ message: "خطأ في جلب بلاغات إهمال المشغلين" });
-    }
-  });
+  // HR Reports
+  app.get(
+    "/api/reports/hr",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const { date_from, date_to } = req.query;
+        const reports = await storage.getHRReports(
+          date_from as string,
+          date_to as string,
+        );
+        res.json({
+          success: true,
+          data: reports,
+        });
+      } catch (error) {
+        console.error("HR reports error:", error);
+        res.status(500).json({
+          message: "خطأ في جلب تقارير الموارد البشرية",
+          success: false,
+        });
+      }
+    },
+  );
 
-  app.post("/api/operator-negligence-reports", async (req, res) => {
-    try {
-      const data = insertOperatorNegligenceReportSchema.parse(req.body);
-      const report = await storage.createOperatorNegligenceReport(data);
-      res.json(report);
-    } catch (error) {
-      console.error("Error creating operator negligence report:", error);
-      res.status(500).json({ message: "خطأ في إنشاء بلاغ إهمال المشغل" });
-    }
-  });
+  // Maintenance Reports
+  app.get(
+    "/api/reports/maintenance",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const { date_from, date_to } = req.query;
+        const reports = await storage.getMaintenanceReports(
+          date_from as string,
+          date_to as string,
+        );
+        res.json({
+          success: true,
+          data: reports,
+        });
+      } catch (error) {
+        console.error("Maintenance reports error:", error);
+        res.status(500).json({
+          message: "خطأ في جلب تقارير الصيانة",
+          success: false,
+        });
+      }
+    },
+  );
 
-  app.put("/api/operator-negligence-reports/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const report = await storage.updateOperatorNegligenceReport(id, req.body);
-      res.json(report);
-    } catch (error) {
-      console.error("Error updating operator negligence report:", error);
-      res.status(500).json({ message: "خطأ في تحديث بلاغ إهمال المشغل" });
-    }
-  });
+  // Comprehensive Dashboard Report (All KPIs)
+  app.get(
+    "/api/reports/dashboard",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const { date_from, date_to } = req.query;
+
+        // Fetch all reports in parallel for better performance
+        const [
+          orderReports,
+          advancedMetrics,
+          hrReports,
+          maintenanceReports,
+          realTimeStats,
+          userPerformance,
+          rolePerformance,
+          machineUtilization,
+          productionEfficiency,
+          productionAlerts,
+        ] = await Promise.all([
+          storage.getOrderReports(date_from as string, date_to as string),
+          storage.getAdvancedMetrics(date_from as string, date_to as string),
+          storage.getHRReports(date_from as string, date_to as string),
+          storage.getMaintenanceReports(date_from as string, date_to as string),
+          storage.getRealTimeProductionStats(),
+          storage.getUserPerformanceStats(
+            undefined,
+            date_from as string,
+            date_to as string,
+          ),
+          storage.getRolePerformanceStats(date_from as string, date_to as string),
+          storage.getMachineUtilizationStats(
+            date_from as string,
+            date_to as string,
+          ),
+          storage.getProductionEfficiencyMetrics(
+            date_from as string,
+            date_to as string,
+          ),
+          storage.getProductionAlerts(),
+        ]);
 
-  app.delete("/api/operator-negligence-reports/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteOperatorNegligenceReport(id);
-      res.json({ message: "تم حذف بلاغ إهمال المشغل بنجاح" });
-    } catch (error) {
-      console.error("Error deleting operator negligence report:", error);
-      res.status(500).json({ message: "خطأ في حذف بلاغ إهمال المشغل" });
-    }
-  });
+        res.json({
+          success: true,
+          data: {
+            orders: orderReports,
+            metrics: advancedMetrics,
+            hr: hrReports,
+            maintenance: maintenanceReports,
+            realTime: realTimeStats,
+            userPerformance,
+            rolePerformance,
+            machineUtilization,
+            productionEfficiency,
+            alerts: productionAlerts,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Comprehensive dashboard error:", error);
+        res.status(500).json({
+          message: "خطأ في جلب التقرير الشامل",
+          success: false,
+        });
+      }
+    },
+  );
 
-  // Spare Parts routes
-  app.get("/api/spare-parts", async (req, res) => {
-    try {
-      const spareParts = await storage.getAllSpareParts();
-      res.json(spareParts);
-    } catch (error) {
-      console.error("Error fetching spare parts:", error);
-      res.status(500).json({ message: "خطأ في جلب قطع الغيار" });
-    }
-  });
+  // Export Report (Placeholder for PDF/Excel export)
+  app.post(
+    "/api/reports/export",
+    requireAuth,
+    requirePermission("export_reports"),
+    async (req, res) => {
+      try {
+        const { report_type, format, date_from, date_to, filters } = req.body;
 
-  app.post("/api/spare-parts", async (req, res) => {
-    try {
-      const sparePart = await storage.createSparePart(req.body);
-      res.json(sparePart);
-    } catch (error) {
-      console.error("Error creating spare part:", error);
-      res.status(500).json({ message: "خطأ في إنشاء قطعة الغيار" });
-    }
-  });
+        // Basic validation
+        if (!report_type || !format) {
+          return res.status(400).json({
+            message: "نوع التقرير والصيغة مطلوبان",
+            success: false,
+          });
+        }
 
-  app.put("/api/spare-parts/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const sparePart = await storage.updateSparePart(id, req.body);
-      res.json(sparePart);
-    } catch (error) {
-      console.error("Error updating spare part:", error);
-      res.status(500).json({ message: "خطأ في تحديث قطعة الغيار" });
-    }
-  });
+        // Get the requested report data
+        let reportData;
+        switch (report_type) {
+          case "orders":
+            reportData = await storage.getOrderReports(date_from, date_to);
+            break;
+          case "advanced-metrics":
+            reportData = await storage.getAdvancedMetrics(date_from, date_to);
+            break;
+          case "hr":
+            reportData = await storage.getHRReports(date_from, date_to);
+            break;
+          case "maintenance":
+            reportData = await storage.getMaintenanceReports(date_from, date_to);
+            break;
+          default:
+            return res.status(400).json({
+              message: "نوع التقرير غير صحيح",
+              success: false,
+            });
+        }
 
-  app.delete("/api/spare-parts/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteSparePart(id);
-      res.json({ message: "تم حذف قطعة الغيار بنجاح" });
-    } catch (error) {
-      console.error("Error deleting spare part:", error);
-      res.status(500).json({ message: "خطأ في حذف قطعة الغيار" });
-    }
-  });
+        // For now, return the data as JSON
+        // TODO: Implement actual PDF/Excel generation
+        const exportData = {
+          report_type,
+          format,
+          generated_at: new Date().toISOString(),
+          date_range: { from: date_from, to: date_to },
+          filters,
+          data: reportData,
+        };
 
-  // Consumable Parts routes
-  app.get("/api/consumable-parts", async (req, res) => {
-    try {
-      const consumableParts = await storage.getAllConsumableParts();
-      res.json(consumableParts);
-    } catch (error) {
-      console.error("Error fetching consumable parts:", error);
-      res.status(500).json({ message: "خطأ في جلب قطع الغيار الاستهلاكية" });
-    }
-  });
+        if (format === "json") {
+          res.json({
+            success: true,
+            data: exportData,
+          });
+        } else {
+          // For PDF/Excel, return download link or base64 data
+          res.json({
+            success: true,
+            message: `تم تجهيز التقرير بصيغة ${format}`,
+            download_url: `/api/reports/download/${report_type}-${Date.now()}.${format}`,
+            data: exportData,
+          });
+        }
+      } catch (error) {
+        console.error("Export report error:", error);
+        res.status(500).json({
+          message: "خطأ في تصدير التقرير",
+          success: false,
+        });
+      }
+    },
+  );
 
-  app.post("/api/consumable-parts", async (req, res) => {
-    try {
-      const consumablePart = await storage.createConsumablePart(req.body);
-      res.json(consumablePart);
-    } catch (error) {
-      console.error("Error creating consumable part:", error);
-      res.status(500).json({ message: "خطأ في إنشاء قطعة الغيار الاستهلاكية" });
-    }
+  // Base API endpoint - return 404 instead of serving HTML
+  app.get("/api", (req, res) => {
+    res.status(404).json({
+      message: "API endpoint not found",
+      availableEndpoints: [
+        "/api/health",
+        "/api/me",
+        "/api/login",
+        "/api/logout",
+        "/api/orders",
+        "/api/production-orders",
+        "/api/notifications",
+      ],
+    });
   });
 
-  app.put("/api/consumable-parts/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const consumablePart = await storage.updateConsumablePart(id, req.body);
-      res.json(consumablePart);
-    } catch (error) {
-      console.error("Error updating consumable part:", error);
-      res.status(500).json({ message: "خطأ في تحديث قطعة الغيار الاستهلاكية" });
-    }
+  // Handle HEAD requests to /api to stop constant polling - suppress logging
+  app.head("/api", (req, res) => {
+    // Don't log these spam requests - they're likely from browser extensions or dev tools
+    res.status(404).end();
   });
 
-  app.delete("/api/consumable-parts/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteConsumablePart(id);
-      res.json({ message: "تم حذف قطعة الغيار الاستهلاكية بنجاح" });
+  // Customers routes
+  app.post(
+    "/api/customers",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        console.log("Received customer data:", req.body);
+        const validatedData = insertCustomerSchema.parse(req.body);
+        console.log("Validated customer data:", validatedData);
+        const customer = await storage.createCustomer(validatedData);
+        res.json(customer);
+      } catch (error) {
+        console.error("Customer creation error:", error);
+        if (error instanceof Error) {
+          console.error("Error message:", error.message);
+        }
+        res.status(400).json({
+          message: "بيانات غير صحيحة",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/customers/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id;
+        if (!(await storage.isCustomerInScope(id, getDataScope(req)))) {
+          return res.status(404).json({ message: "العميل غير موجود" });
+        }
+        const validatedData = insertCustomerSchema.parse(req.body);
+        const customer = await storage.updateCustomer(id, validatedData);
+        res.json(customer);
+      } catch (error) {
+        console.error("Customer update error:", error);
+        res.status(400).json({
+          message: "خطأ في تحديث العميل",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  // Sections routes
+  app.get(
+    "/api/sections",
+    requireAuth,
+    requirePermission("view_definitions", "view_users", "view_hr"),
+    async (req, res) => {
+      try {
+        const sections = await storage.getSections();
+        res.json(sections);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب الأقسام" });
+      }
+    },
+  );
+
+  // Material Groups routes (Categories)
+  app.get(
+    "/api/material-groups",
+    requireAuth,
+    requirePermission("view_definitions", "view_inventory"),
+    async (req, res) => {
+      try {
+        const categories = await storage.getCategories();
+        res.json(categories);
+      } catch (error) {
+        console.error("Error fetching material groups:", error);
+        res.status(500).json({ message: "خطأ في جلب مجموعات المواد" });
+      }
+    },
+  );
+
+  // Items routes
+  app.get(
+    "/api/items",
+    requireAuth,
+    requirePermission(
+      "view_definitions",
+      "view_inventory",
+      "view_orders",
+      "view_production",
+    ),
+    async (req, res) => {
+      try {
+        const items = await storage.getItems();
+        res.json(items);
+      } catch (error) {
+        console.error("Error fetching items:", error);
+        res.status(500).json({ message: "خطأ في جلب الأصناف" });
+      }
+    },
+  );
+
+  // Customer Products routes
+  app.get(
+    "/api/customer-products",
+    requireAuth,
+    requirePermission("view_definitions", "view_orders", "view_production"),
+    async (req, res) => {
+      try {
+        const customerProducts = await storage.getCustomerProducts();
+        res.json(customerProducts);
+      } catch (error) {
+        console.error("Customer products fetch error:", error);
+        res.status(500).json({ message: "خطأ في جلب منتجات العملاء" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/customer-products",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        // STEP 1: Zod schema validation
+        const validatedData = insertCustomerProductSchema.parse(req.body);
+
+        // STEP 2: DataValidator integration for business rules
+        const validationResult = await getDataValidator(storage).validateData(
+          "customer_products",
+          validatedData,
+        );
+        if (!validationResult.isValid) {
+          const criticalErrors = validationResult.errors.filter(
+            (e) => e.severity === "critical" || e.severity === "high",
+          );
+          if (criticalErrors.length > 0) {
+            return res.status(400).json({
+              message: criticalErrors[0].message_ar || criticalErrors[0].message,
+              errors: validationResult.errors,
+              success: false,
+            });
+          }
+        }
+
+        // STEP 3: Create customer product with validated data
+        const customerProduct =
+          await storage.createCustomerProduct(validatedData);
+
+        res.status(201).json({
+          data: customerProduct,
+          message: "تم إنشاء منتج العميل بنجاح",
+          success: true,
+        });
+      } catch (error: any) {
+        console.error("Customer product creation error:", error);
+
+        if (error.name === "DatabaseError") {
+          return res.status(400).json({
+            message: error.message,
+            success: false,
+          });
+        }
+
+        res.status(500).json({
+          message: "خطأ في إنشاء منتج العميل",
+          success: false,
+        });
+      }
+    },
+  );
+
+  // Locations routes
+  app.get(
+    "/api/locations",
+    requireAuth,
+    requirePermission("view_definitions", "view_inventory", "view_warehouse"),
+    async (req, res) => {
+      try {
+        const locations = await storage.getLocations();
+        res.json(locations);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب المواقع" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/locations",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        const validatedData = insertLocationSchema.parse(req.body);
+        const location = await storage.createLocationExtended(validatedData);
+        res.json(location);
+      } catch (error) {
+        console.error("Location creation error:", error);
+        res.status(400).json({ message: "بيانات غير صحيحة" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/locations/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id;
+        const validatedData = insertLocationSchema.partial().parse(req.body);
+        const location = await storage.updateLocationExtended(id, validatedData);
+        res.json(location);
+      } catch (error) {
+        console.error("Location update error:", error);
+        res.status(400).json({ message: "فشل في تحديث الموقع" });
+      }
+    },
+  );
+
+  // Inventory movements routes
+  app.get(
+    "/api/inventory-movements",
+    requireAuth,
+    requirePermission("view_inventory"),
+    async (req, res) => {
+      try {
+        const movements = await storage.getInventoryMovements();
+        res.json(movements);
+      } catch (error) {
+        console.error("Error fetching inventory movements:", error);
+        res.status(500).json({ message: "خطأ في جلب حركات المخزون" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/inventory-movements",
+    requireAuth,
+    requirePermission("create_inventory"),
+    async (req, res) => {
+      try {
+        const validatedData = insertInventoryMovementSchema.parse(req.body);
+        const movement = await storage.createInventoryMovement(validatedData);
+        res.json(movement);
+      } catch (error) {
+        console.error("Inventory movement creation error:", error);
+        res.status(400).json({ message: "بيانات غير صحيحة" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/inventory-movements/:id",
+    requireAuth,
+    requirePermission("delete_inventory"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id) {
+          return res.status(400).json({ message: "معرف الحركة مطلوب" });
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف الحركة غير صحيح" });
+        }
+
+        const success = await storage.deleteInventoryMovement(id);
+        if (success) {
+          res.json({ message: "تم حذف الحركة بنجاح" });
+        } else {
+          res.status(404).json({ message: "الحركة غير موجودة" });
+        }
+      } catch (error) {
+        console.error("Inventory movement deletion error:", error);
+        res.status(500).json({ message: "خطأ في حذف الحركة" });
+      }
+    },
+  );
+
+  // Users routes
+  app.get(
+    "/api/users",
+    requireAuth,
+    requirePermission(
+      "view_users",
+      "view_hr",
+      "view_orders",
+      "view_maintenance",
+      "view_user_dashboard",
+    ),
+    async (req, res) => {
+      try {
+        const users = await storage.getSafeUsers();
+        res.json(users);
+      } catch (error) {
+        console.error("Error fetching safe users:", error);
+        res.status(500).json({ message: "خطأ في جلب المستخدمين" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/users/:id",
+    requireAuth,
+    requirePermission("view_users", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id) {
+          return res.status(400).json({ message: "معرف المستخدم مطلوب" });
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+        }
+
+        const user = await storage.getSafeUser(id);
+        if (!user) {
+          return res.status(404).json({ message: "المستخدم غير موجود" });
+        }
+        res.json(user);
+      } catch (error) {
+        console.error("Error fetching safe user by ID:", error);
+        res.status(500).json({ message: "خطأ في جلب بيانات المستخدم" });
+      }
+    },
+  );
+
+  // Categories routes (for material groups)
+  app.get(
+    "/api/categories",
+    requireAuth,
+    requirePermission("view_definitions", "view_inventory"),
+    async (req, res) => {
+      try {
+        const categories = await storage.getCategories();
+        res.json(categories);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب الفئات" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/categories",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        console.log("Received category data:", req.body);
+
+        // Generate sequential ID if not provided with enhanced null safety
+        let categoryId = req.body?.id;
+        if (!categoryId) {
+          const existingCategories = (await storage.getCategories()) || [];
+          const categoryNumbers = existingCategories
+            .map((cat) => cat?.id)
+            .filter(
+              (id) =>
+                id &&
+                typeof id === "string" &&
+                id.startsWith("CAT") &&
+                id.length <= 6,
+            ) // Standard format only
+            .map((id) => {
+              const num = id.replace("CAT", "");
+              const parsed = parseInt(num);
+              return isNaN(parsed) ? 0 : parsed;
+            })
+            .filter((num) => num > 0)
+            .sort((a, b) => b - a);
+
+          const nextNumber =
+            categoryNumbers.length > 0 ? categoryNumbers[0] + 1 : 1;
+          categoryId = nextNumber < 10 ? `CAT0${nextNumber}` : `CAT${nextNumber}`;
+        }
+
+        // Enhanced null safety for request body processing
+        const processedData = {
+          ...req.body,
+          id: categoryId,
+          parent_id:
+            !req.body?.parent_id ||
+            req.body.parent_id === "none" ||
+            req.body.parent_id === ""
+              ? null
+              : req.body.parent_id,
+          code: !req.body?.code || req.body.code === "" ? null : req.body.code,
+        };
+
+        console.log("Processed category data:", processedData);
+        const category = await storage.createCategory(processedData);
+        console.log("Created category:", category);
+        res.json(category);
+      } catch (error) {
+        console.error("Category creation error:", error);
+        res.status(500).json({
+          message: "خطأ في إنشاء الفئة",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/categories/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id;
+        console.log("Updating category:", id, req.body);
+
+        const processedData = {
+          ...req.body,
+          parent_id:
+            req.body.parent_id === "none" || req.body.parent_id === ""
+              ? null
+              : req.body.parent_id,
+          code: req.body.code === "" || !req.body.code ? null : req.body.code,
+        };
+
+        const category = await storage.updateCategory(id, processedData);
+        res.json(category);
+      } catch (error) {
+        console.error("Category update error:", error);
+        res.status(500).json({
+          message: "خطأ في تحديث الفئة",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/categories/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id;
+        await storage.deleteCategory(id);
+        res.json({ message: "تم حذف الفئة بنجاح" });
+      } catch (error) {
+        console.error("Category deletion error:", error);
+        res.status(500).json({
+          message: "خطأ في حذف الفئة",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  // Training Records routes
+  app.get(
+    "/api/training-records",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const trainingRecords = await storage.getTrainingRecords();
+        res.json(trainingRecords);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب سجلات التدريب" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/training-records",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const trainingRecord = await storage.createTrainingRecord(req.body);
+        res.json(trainingRecord);
+      } catch (error) {
+        res.status(400).json({ message: "بيانات غير صحيحة" });
+      }
+    },
+  );
+
+  // Admin Decisions routes
+  app.get(
+    "/api/admin-decisions",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const adminDecisions = await storage.getAdminDecisions();
+        res.json(adminDecisions);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب القرارات الإدارية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/admin-decisions",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const adminDecision = await storage.createAdminDecision(req.body);
+        res.json(adminDecision);
+      } catch (error) {
+        res.status(400).json({ message: "بيانات غير صحيحة" });
+      }
+    },
+  );
+
+  // Warehouse Transactions routes
+  app.get(
+    "/api/warehouse-transactions",
+    requireAuth,
+    requirePermission("view_warehouse"),
+    async (req, res) => {
+      try {
+        const warehouseTransactions = await storage.getWarehouseTransactions();
+        res.json(warehouseTransactions);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب حركات المستودع" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/warehouse-transactions",
+    requireAuth,
+    requirePermission("create_warehouse"),
+    async (req, res) => {
+      try {
+        const warehouseTransaction = await storage.createWarehouseTransaction(
+          req.body,
+        );
+        res.json(warehouseTransaction);
+      } catch (error) {
+        res.status(400).json({ message: "بيانات غير صحيحة" });
+      }
+    },
+  );
+
+  // Mixing Recipes routes
+  app.get(
+    "/api/mixing-recipes",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const mixingRecipes = await storage.getMixingRecipes();
+        res.json(mixingRecipes);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب وصفات الخلط" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/mixing-recipes",
+    requireAuth,
+    requirePermission("create_production"),
+    async (req, res) => {
+      try {
+        const validated = insertMixingRecipeSchema.parse(req.body);
+        const mixingRecipe = await storage.createMixingRecipe(
+          validated,
+          req.user!.id,
+        );
+        res.status(201).json(mixingRecipe);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: error.errors[0]?.message || "بيانات غير صحيحة",
+            errors: error.errors,
+          });
+        }
+        console.error("Error creating mixing recipe:", error);
+        res.status(500).json({ message: "خطأ في إنشاء وصفة الخلط" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/mixing-recipes/:id/versions",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف الوصفة غير صحيح" });
+        }
+        const versions = await storage.getMixingRecipeVersions(id);
+        res.json(versions);
+      } catch (error) {
+        console.error("Error fetching mixing recipe versions:", error);
+        res.status(500).json({ message: "خطأ في جلب إصدارات وصفة الخلط" });
+      }
+    },
+  );
+
+  // تعديل الوصفة ينشئ إصداراً جديداً - الإصدارات السابقة لا تتغير
+  app.put(
+    "/api/mixing-recipes/:id",
+    requireAuth,
+    requirePermission("update_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف الوصفة غير صحيح" });
+        }
+        const validated = insertMixingRecipeSchema.parse(req.body);
+        const mixingRecipe = await storage.createMixingRecipeVersion(
+          id,
+          validated,
+          req.user!.id,
+        );
+        if (!mixingRecipe) {
+          return res.status(404).json({ message: "وصفة الخلط غير موجودة" });
+        }
+        res.json(mixingRecipe);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: error.errors[0]?.message || "بيانات غير صحيحة",
+            errors: error.errors,
+          });
+        }
+        console.error("Error creating mixing recipe version:", error);
+        res.status(500).json({ message: "خطأ في حفظ إصدار وصفة الخلط" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/mixing-recipes/:id/status",
+    requireAuth,
+    requirePermission("update_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const { is_active } = z
+          .object({ is_active: z.boolean() })
+          .parse(req.body);
+        const mixingRecipe = await storage.updateMixingRecipeStatus(
+          id,
+          is_active,
+        );
+        if (!mixingRecipe) {
+          return res.status(404).json({ message: "وصفة الخلط غير موجودة" });
+        }
+        res.json(mixingRecipe);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "حالة الوصفة غير صحيحة" });
+        }
+        console.error("Error updating mixing recipe status:", error);
+        res.status(500).json({ message: "خطأ في تحديث حالة وصفة الخلط" });
+      }
+    },
+  );
+
+  // Maintenance routes
+  app.get(
+    "/api/maintenance",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const requests = await storage.getMaintenanceRequests();
+        res.json(requests);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب طلبات الصيانة" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/maintenance",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        const validatedData = insertMaintenanceRequestSchema.parse(req.body);
+        const request = await storage.createMaintenanceRequest(validatedData);
+        res.json(request);
+      } catch (error) {
+        res.status(400).json({ message: "بيانات غير صحيحة" });
+      }
+    },
+  );
+
+  // Quality checks routes
+  app.get(
+    "/api/quality-checks",
+    requireAuth,
+    requirePermission("view_quality"),
+    async (req, res) => {
+      try {
+        const qualityChecks = await storage.getQualityChecks({
+          result: req.query.result as string | undefined,
+          rollId: req.query.roll_id
+            ? parseInt(req.query.roll_id as string)
+            : undefined,
+        });
+        res.json(qualityChecks);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب فحوصات الجودة" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/quality-checks/:id",
+    requireAuth,
+    requirePermission("view_quality"),
+    async (req, res) => {
+      try {
+        const check = await storage.getQualityCheckDetails(
+          parseInt(req.params.id),
+        );
+        if (!check) {
+          return res.status(404).json({ message: "فحص الجودة غير موجود" });
+        }
+        res.json(check);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب فحص الجودة" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/quality-checks",
+    requireAuth,
+    requirePermission("create_quality"),
+    async (req, res) => {
+      try {
+        const data = insertQualityCheckSchema.parse(req.body);
+        const check = await storage.createQualityCheck(
+          data,
+          req.user!.id,
+        );
+        res.status(201).json(check);
+      } catch (error) {
+        console.error("Error creating quality check:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        if (
+          error instanceof Error &&
+          (error.message === "الرول غير موجود" ||
+            error.message.includes("لا يمكن فحص") ||
+            error.message.includes("خطة الفحص") ||
+            error.message.includes("نوع العيب"))
+        ) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في تسجيل فحص الجودة" });
+      }
+    },
+  );
+
+  // قرار الجودة على الفحص الراسب: إفراج أو إعادة تشغيل أو إتلاف
+  app.post(
+    "/api/quality-checks/:id/disposition",
+    requireAuth,
+    requirePermission("approve_quality"),
+    async (req, res) => {
+      try {
+        const data = qualityDispositionSchema.parse(req.body);
+        const check = await storage.disposeQualityCheck(
+          parseInt(req.params.id),
+          data,
+          req.user!.id,
+        );
+        res.json(check);
+      } catch (error) {
+        console.error("Error disposing quality check:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        if (
+          error instanceof Error &&
+          (error.message.includes("الجودة") ||
+            error.message.includes("سبب الهدر") ||
+            error.message.includes("لا يمكن") ||
+            error.message === "الرول غير موجود")
+        ) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في تسجيل قرار الجودة" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/quality/held-rolls",
+    requireAuth,
+    requirePermission("view_quality"),
+    async (req, res) => {
+      try {
+        const heldRolls = await storage.getHeldRolls();
+        res.json(heldRolls);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب الرولات الموقوفة" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/rolls/:id/inspection-plan",
+    requireAuth,
+    requirePermission("view_quality"),
+    async (req, res) => {
+      try {
+        const ref = req.params.id.trim();
+        const plan = await storage.getRollInspectionPlan(
+          /^\d+$/.test(ref) ? parseInt(ref, 10) : ref,
+          req.query.stage as string | undefined,
+        );
+        if (!plan) {
+          return res.status(404).json({ message: "الرول غير موجود" });
+        }
+        res.json(plan);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب خطة الفحص" });
+      }
+    },
+  );
+
+  // Inspection plans
+  app.get(
+    "/api/quality/inspection-plans",
+    requireAuth,
+    requirePermission("view_quality"),
+    async (req, res) => {
+      try {
+        const plans = await storage.getInspectionPlans({
+          customerProductId: req.query.customer_product_id
+            ? parseInt(req.query.customer_product_id as string)
+            : undefined,
+        });
+        res.json(plans);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب خطط الفحص" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/quality/inspection-plans",
+    requireAuth,
+    requirePermission("create_quality"),
+    async (req, res) => {
+      try {
+        const data = insertQualityInspectionPlanSchema.parse(req.body);
+        const plan = await storage.createInspectionPlan(
+          data,
+          req.user!.id,
+        );
+        res.status(201).json(plan);
+      } catch (error) {
+        console.error("Error creating inspection plan:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        if (error instanceof Error && error.message.includes("خطة فحص")) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في إنشاء خطة الفحص" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/quality/inspection-plans/:id",
+    requireAuth,
+    requirePermission("update_quality"),
+    async (req, res) => {
+      try {
+        const data = insertQualityInspectionPlanSchema.parse(req.body);
+        const plan = await storage.updateInspectionPlan(
+          parseInt(req.params.id),
+          data,
+        );
+        if (!plan) {
+          return res.status(404).json({ message: "خطة الفحص غير موجودة" });
+        }
+        res.json(plan);
+      } catch (error) {
+        console.error("Error updating inspection plan:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        if (error instanceof Error && error.message.includes("خطة فحص")) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في تحديث خطة الفحص" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/quality/inspection-plans/:id",
+    requireAuth,
+    requirePermission("delete_quality"),
+    async (req, res) => {
+      try {
+        await storage.deleteInspectionPlan(parseInt(req.params.id));
+        res.json({ message: "تم حذف خطة الفحص" });
+      } catch (error) {
+        console.error("Error deleting inspection plan:", error);
+        res.status(500).json({ message: "خطأ في حذف خطة الفحص" });
+      }
+    },
+  );
+
+  // Defect types catalogue
+  app.get(
+    "/api/quality/defect-types",
+    requireAuth,
+    requirePermission("view_quality"),
+    async (req, res) => {
+      try {
+        const defectTypes = await storage.getQualityDefectTypes({
+          activeOnly: req.query.active === "true",
+        });
+        res.json(defectTypes);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب أنواع العيوب" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/quality/defect-types",
+    requireAuth,
+    requirePermission("create_quality"),
+    async (req, res) => {
+      try {
+        const data = insertQualityDefectTypeSchema.parse(req.body);
+        const defectType = await storage.createQualityDefectType(data);
+        res.status(201).json(defectType);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error creating defect type:", error);
+        res.status(500).json({
+          message:
+            error instanceof Error ? error.message : "خطأ في إنشاء نوع العيب",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/quality/defect-types/:id",
+    requireAuth,
+    requirePermission("update_quality"),
+    async (req, res) => {
+      try {
+        const data = insertQualityDefectTypeSchema.partial().parse(req.body);
+        const defectType = await storage.updateQualityDefectType(
+          parseInt(req.params.id),
+          data,
+        );
+        if (!defectType) {
+          return res.status(404).json({ message: "نوع العيب غير موجود" });
+        }
+        res.json(defectType);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error updating defect type:", error);
+        res.status(500).json({ message: "خطأ في تحديث نوع العيب" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/quality/defect-types/:id",
+    requireAuth,
+    requirePermission("delete_quality"),
+    async (req, res) => {
+      try {
+        await storage.deleteQualityDefectType(parseInt(req.params.id));
+        res.json({ message: "تم حذف نوع العيب" });
+      } catch (error) {
+        console.error("Error deleting defect type:", error);
+        res.status(500).json({
+          message: "لا يمكن حذف نوع العيب - قد يكون مستخدماً في فحوصات سابقة",
+        });
+      }
+    },
+  );
+
+  // Maintenance requests routes
+  app.get(
+    "/api/maintenance-requests",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const maintenanceRequests = await storage.getMaintenanceRequests();
+        res.json(maintenanceRequests);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب طلبات الصيانة" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/maintenance-requests",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        console.log("Creating maintenance request with data:", req.body);
+        
+        // Process the data to convert string values to appropriate types
+        const processedData = { ...req.body };
+        
+        // machine_id stays as string (e.g., 'MAC12')
+        // No conversion needed
+        
+        // Convert reported_by from string to number
+        if (processedData.reported_by && typeof processedData.reported_by === 'string') {
+          processedData.reported_by = parseInt(processedData.reported_by, 10);
+        }
+        
+        // Convert assigned_to from empty string to null, or from string to number
+        if (processedData.assigned_to === '' || processedData.assigned_to === 'none') {
+          processedData.assigned_to = null;
+        } else if (processedData.assigned_to && typeof processedData.assigned_to === 'string') {
+          processedData.assigned_to = parseInt(processedData.assigned_to, 10);
+        }
+        
+        const validatedData = insertMaintenanceRequestSchema.parse(processedData);
+        const request = await storage.createMaintenanceRequest(validatedData);
+        console.log("Created maintenance request:", request);
+        res.json(request);
+      } catch (error) {
+        console.error("Error creating maintenance request:", error);
+        res.status(500).json({
+          message: "خطأ في إنشاء طلب الصيانة",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  );
+
+  // Maintenance Actions routes
+  app.get(
+    "/api/maintenance-actions",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const actions = await storage.getAllMaintenanceActions();
+        res.json(actions);
+      } catch (error) {
+        console.error("Error fetching maintenance actions:", error);
+        res.status(500).json({ message: "خطأ في جلب إجراءات الصيانة" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/maintenance-actions/request/:requestId",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const requestId = parseInt(req.params.requestId);
+        const actions = await storage.getMaintenanceActionsByRequestId(requestId);
+        res.json(actions);
+      } catch (error) {
+        console.error("Error fetching maintenance actions by request:", error);
+        res.status(500).json({ message: "خطأ في جلب إجراءات الصيانة للطلب" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/maintenance-actions",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        console.log("Creating maintenance action with data:", req.body);
+        const data = insertMaintenanceActionSchema.parse(req.body);
+        console.log("Parsed action data:", data);
+        const action = await storage.createMaintenanceAction(data);
+        console.log("Created maintenance action:", action);
+        res.json(action);
+      } catch (error) {
+        console.error("Error creating maintenance action:", error);
+        res.status(500).json({
+          message: "خطأ في إنشاء إجراء الصيانة",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/maintenance-actions/:id",
+    requireAuth,
+    requirePermission("update_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const action = await storage.updateMaintenanceAction(id, req.body);
+        res.json(action);
+      } catch (error) {
+        console.error("Error updating maintenance action:", error);
+        res.status(500).json({ message: "خطأ في تحديث إجراء الصيانة" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/maintenance-actions/:id",
+    requireAuth,
+    requirePermission("delete_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteMaintenanceAction(id);
+        res.json({ message: "تم حذف إجراء الصيانة بنجاح" });
+      } catch (error) {
+        console.error("Error deleting maintenance action:", error);
+        res.status(500).json({ message: "خطأ في حذف إجراء الصيانة" });
+      }
+    },
+  );
+
+  // Maintenance Reports routes
+  app.get(
+    "/api/maintenance-reports",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const { type } = req.query;
+        const reports = type
+          ? await storage.getMaintenanceReportsByType(type as string)
+          : await storage.getAllMaintenanceReports();
+        res.json(reports);
+      } catch (error) {
+        console.error("Error fetching maintenance reports:", error);
+        res.status(500).json({ message: "خطأ في جلب بلاغات الصيانة" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/maintenance-reports",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        const data = insertMaintenanceReportSchema.parse(req.body);
+        const report = await storage.createMaintenanceReport(data);
+        res.json(report);
+      } catch (error) {
+        console.error("Error creating maintenance report:", error);
+        res.status(500).json({ message: "خطأ في إنشاء بلاغ الصيانة" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/maintenance-reports/:id",
+    requireAuth,
+    requirePermission("update_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const report = await storage.updateMaintenanceReport(id, req.body);
+        res.json(report);
+      } catch (error) {
+        console.error("Error updating maintenance report:", error);
+        res.status(500).json({ message: "خطأ في تحديث بلاغ الصيانة" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/maintenance-reports/:id",
+    requireAuth,
+    requirePermission("delete_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteMaintenanceReport(id);
+        res.json({ message: "تم حذف بلاغ الصيانة بنجاح" });
+      } catch (error) {
+        console.error("Error deleting maintenance report:", error);
+        res.status(500).json({ message: "خطأ في حذف بلاغ الصيانة" });
+      }
+    },
+  );
+
+  // Operator Negligence Reports routes
+  app.get(
+    "/api/operator-negligence-reports",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const { operator_id } = req.query;
+        const reports = operator_id
+          ? await storage.getOperatorNegligenceReportsByOperator(
+              parseInt(operator_id as string),
+            )
+          : await storage.getAllOperatorNegligenceReports();
+        res.json(reports);
+      } catch (error) {
+        console.error("Error fetching operator negligence reports:", error);
+        res.status(500).json({ message: "خطأ في جلب بلاغات إهمال المشغلين" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/operator-negligence-reports",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        const data = insertOperatorNegligenceReportSchema.parse(req.body);
+        const report = await storage.createOperatorNegligenceReport(data);
+        res.json(report);
+      } catch (error) {
+        console.error("Error creating operator negligence report:", error);
+        res.status(500).json({ message: "خطأ في إنشاء بلاغ إهمال المشغل" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/operator-negligence-reports/:id",
+    requireAuth,
+    requirePermission("update_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const report = await storage.updateOperatorNegligenceReport(id, req.body);
+        res.json(report);
+      } catch (error) {
+        console.error("Error updating operator negligence report:", error);
+        res.status(500).json({ message: "خطأ في تحديث بلاغ إهمال المشغل" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/operator-negligence-reports/:id",
+    requireAuth,
+    requirePermission("delete_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteOperatorNegligenceReport(id);
+        res.json({ message: "تم حذف بلاغ إهمال المشغل بنجاح" });
+      } catch (error) {
+        console.error("Error deleting operator negligence report:", error);
+        res.status(500).json({ message: "خطأ في حذف بلاغ إهمال المشغل" });
+      }
+    },
+  );
+
+  // Spare Parts routes
+  app.get(
+    "/api/spare-parts",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const spareParts = await storage.getAllSpareParts();
+        res.json(spareParts);
+      } catch (error) {
+        console.error("Error fetching spare parts:", error);
+        res.status(500).json({ message: "خطأ في جلب قطع الغيار" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/spare-parts",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        const sparePart = await storage.createSparePart(req.body);
+        res.json(sparePart);
+      } catch (error) {
+        console.error("Error creating spare part:", error);
+        res.status(500).json({ message: "خطأ في إنشاء قطعة الغيار" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/spare-parts/:id",
+    requireAuth,
+    requirePermission("update_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const sparePart = await storage.updateSparePart(id, req.body);
+        res.json(sparePart);
+      } catch (error) {
+        console.error("Error updating spare part:", error);
+        res.status(500).json({ message: "خطأ في تحديث قطعة الغيار" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/spare-parts/:id",
+    requireAuth,
+    requirePermission("delete_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteSparePart(id);
+        res.json({ message: "تم حذف قطعة الغيار بنجاح" });
+      } catch (error) {
+        console.error("Error deleting spare part:", error);
+        res.status(500).json({ message: "خطأ في حذف قطعة الغيار" });
+      }
+    },
+  );
+
+  // Consumable Parts routes
+  app.get(
+    "/api/consumable-parts",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const consumableParts = await storage.getAllConsumableParts();
+        res.json(consumableParts);
+      } catch (error) {
+        console.error("Error fetching consumable parts:", error);
+        res.status(500).json({ message: "خطأ في جلب قطع الغيار الاستهلاكية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/consumable-parts",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        const consumablePart = await storage.createConsumablePart(req.body);
+        res.json(consumablePart);
+      } catch (error) {
+        console.error("Error creating consumable part:", error);
+        res.status(500).json({ message: "خطأ في إنشاء قطعة الغيار الاستهلاكية" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/consumable-parts/:id",
+    requireAuth,
+    requirePermission("update_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const consumablePart = await storage.updateConsumablePart(id, req.body);
+        res.json(consumablePart);
+      } catch (error) {
+        console.error("Error updating consumable part:", error);
+        res.status(500).json({ message: "خطأ في تحديث قطعة الغيار الاستهلاكية" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/consumable-parts/:id",
+    requireAuth,
+    requirePermission("delete_maintenance"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteConsumablePart(id);
+        res.json({ message: "تم حذف قطعة الغيار الاستهلاكية بنجاح" });
+      } catch (error) {
+        console.error("Error deleting consumable part:", error);
+        res.status(500).json({ message: "خطأ في حذف قطعة الغيار الاستهلاكية" });
+      }
+    },
+  );
+
+  // Consumable Parts Transactions routes
+  app.get(
+    "/api/consumable-parts-transactions",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const transactions = await storage.getConsumablePartTransactions();
+        res.json(transactions);
+      } catch (error) {
+        console.error("Error fetching consumable parts transactions:", error);
+        res
+          .status(500)
+          .json({ message: "خطأ في جلب حركات قطع الغيار الاستهلاكية" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/consumable-parts-transactions/part/:partId",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const partId = parseInt(req.params.partId);
+        const transactions =
+          await storage.getConsumablePartTransactionsByPartId(partId);
+        res.json(transactions);
+      } catch (error) {
+        console.error(
+          "Error fetching consumable parts transactions by part:",
+          error,
+        );
+        res
+          .status(500)
+          .json({ message: "خطأ في جلب حركات قطعة الغيار الاستهلاكية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/consumable-parts-transactions",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        const transaction = await storage.createConsumablePartTransaction(
+          req.body,
+        );
+        res.json(transaction);
+      } catch (error) {
+        console.error("Error creating consumable parts transaction:", error);
+        res
+          .status(500)
+          .json({ message: "خطأ في إنشاء حركة قطعة الغيار الاستهلاكية" });
+      }
+    },
+  );
+
+  // Barcode scanning endpoint for consumable parts
+  app.post(
+    "/api/consumable-parts/scan-barcode",
+    requireAuth,
+    requirePermission("view_maintenance"),
+    async (req, res) => {
+      try {
+        const { barcode } = req.body;
+        if (!barcode) {
+          return res.status(400).json({ message: "الباركود مطلوب" });
+        }
+
+        const consumablePart = await storage.getConsumablePartByBarcode(barcode);
+        if (!consumablePart) {
+          return res
+            .status(404)
+            .json({ message: "لم يتم العثور على قطعة غيار بهذا الباركود" });
+        }
+
+        res.json(consumablePart);
+      } catch (error) {
+        console.error("Error scanning barcode:", error);
+        res.status(500).json({ message: "خطأ في قراءة الباركود" });
+      }
+    },
+  );
+
+  // Process barcode transaction (in/out)
+  app.post(
+    "/api/consumable-parts/barcode-transaction",
+    requireAuth,
+    requirePermission("create_maintenance"),
+    async (req, res) => {
+      try {
+        const {
+          barcode,
+          transaction_type,
+          quantity,
+          transaction_reason,
+          notes,
+          manual_entry,
+        } = req.body;
+
+        if (!barcode || !transaction_type || !quantity) {
+          return res
+            .status(400)
+            .json({ message: "الباركود ونوع الحركة والكمية مطلوبة" });
+        }
+
+        // Find consumable part by barcode
+        const consumablePart = await storage.getConsumablePartByBarcode(barcode);
+        if (!consumablePart) {
+          return res
+            .status(404)
+            .json({ message: "لم يتم العثور على قطعة غيار بهذا الباركود" });
+        }
+
+        // Create transaction
+        const transactionData = {
+          consumable_part_id: consumablePart.id,
+          transaction_type,
+          quantity: parseInt(quantity),
+          barcode_scanned: barcode,
+          manual_entry: manual_entry || false,
+          transaction_reason: transaction_reason || "",
+          notes: notes || "",
+          performed_by: req.user?.id || 1,
+        };
+
+        const transaction =
+          await storage.processConsumablePartBarcodeTransaction(transactionData);
+        res.json(transaction);
+      } catch (error) {
+        console.error("Error processing barcode transaction:", error);
+        res.status(500).json({ message: "خطأ في معالجة حركة الباركود" });
+      }
+    },
+  );
+
+  // Attendance routes
+  app.get(
+    "/api/attendance",
+    requireAuth,
+    requirePermission("view_hr", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        const attendance = await storage.getAttendance(getDataScope(req));
+        res.json(attendance);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب بيانات الحضور" });
+      }
+    },
+  );
+
+  // AI Assistant routes
+  app.post("/api/ai/chat", async (req, res) => {
+    try {
+      const { message, context, userId } = req.body;
+
+      if (!message) {
+        return res.status(400).json({ message: "الرسالة مطلوبة" });
+      }
+
+      // استخدام المساعد الذكي المتطور
+      const reply = await openaiService.processMessage(message, userId);
+      res.json({ reply });
+    } catch (error) {
+      console.error("AI Chat Error:", error);
+      const fallbackResponse = generateFallbackResponse(req.body.message);
+      res.json({ reply: fallbackResponse });
+    }
+  });
+
+  // AI Voice Command endpoint
+  app.post("/api/ai/voice-command", async (req, res) => {
+    try {
+      const {
+        command,
+        language = "ar-SA",
+        context = "voice_assistant",
+      } = req.body;
+
+      if (!command || typeof command !== "string") {
+        return res.status(400).json({ message: "أمر صوتي غير صالح" });
+      }
+
+      const { dialect } = req.body;
+      const result = await openaiService.processVoiceCommand(
+        command,
+        language,
+        dialect,
+      );
+
+      // Map actions to actual system operations
+      let actionData = null;
+      switch (result.action) {
+        case "navigate_dashboard":
+          actionData = { route: "/dashboard" };
+          break;
+        case "navigate_orders":
+          actionData = { route: "/orders" };
+          break;
+        case "navigate_production":
+          actionData = { route: "/production" };
+          break;
+        case "navigate_maintenance":
+          actionData = { route: "/maintenance" };
+          break;
+        case "navigate_definitions":
+          actionData = { route: "/definitions" };
+          break;
+        case "navigate_hr":
+          actionData = { route: "/hr" };
+          break;
+        case "navigate_quality":
+          actionData = { route: "/quality" };
+          break;
+        case "navigate_reports":
+          actionData = { route: "/reports" };
+          break;
+        case "show_stats":
+          actionData = { queryKey: "/api/dashboard/stats" };
+          break;
+        case "refresh_orders":
+          actionData = { queryKey: "/api/orders" };
+          break;
+        case "refresh_machines":
+          actionData = { queryKey: "/api/machines" };
+          break;
+        case "refresh_production":
+          actionData = { queryKey: "/api/production-orders" };
+          break;
+      }
+
+      res.json({
+        message: result.response,
+        action: result.action !== "none" ? result.action : null,
+        data: actionData,
+        intent: result.intent,
+        parameters: result.parameters,
+      });
+    } catch (error) {
+      console.error("Voice Command Error:", error);
+      res.status(500).json({ message: "خطأ في معالجة الأمر الصوتي" });
+    }
+  });
+
+  // AI Advanced Features routes
+  app.post(
+    "/api/ai/generate-report",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const { reportType, parameters, userId } = req.body;
+
+        if (!reportType) {
+          return res.status(400).json({ message: "نوع التقرير مطلوب" });
+        }
+
+        const { AIReports } = await import("./services/ai-reports");
+
+        let report;
+        switch (reportType.toLowerCase()) {
+          case "production":
+          case "إنتاج":
+            report = await AIReports.generateProductionReport(parameters);
+            break;
+          case "quality":
+          case "جودة":
+            report = await AIReports.generateQualityReport(parameters);
+            break;
+          case "maintenance":
+          case "صيانة":
+            report = await AIReports.generateMaintenanceReport(parameters);
+            break;
+          case "sales":
+          case "مبيعات":
+            report = await AIReports.generateSalesReport(parameters);
+            break;
+          default:
+            report = await AIReports.generateCustomReport(reportType, parameters);
+        }
+
+        res.json({ report });
+      } catch (error) {
+        console.error("Report Generation Error:", error);
+        res.status(500).json({ message: "خطأ في توليد التقرير الذكي" });
+      }
+    },
+  );
+
+  app.get("/api/ai/notifications", async (req, res) => {
+    try {
+      const { AINotifications } = await import("./services/ai-notifications");
+      const notifications = AINotifications.getActiveNotifications();
+      res.json({ notifications });
+    } catch (error) {
+      console.error("Notifications Error:", error);
+      res.status(500).json({ message: "خطأ في جلب الإشعارات" });
+    }
+  });
+
+  app.post(
+    "/api/ai/monitor",
+    requireAuth,
+    requirePermission("manage_analytics"),
+    async (req, res) => {
+      try {
+        const { AINotifications } = await import("./services/ai-notifications");
+        const notifications =
+          await AINotifications.performIntelligentMonitoring();
+        res.json({ notifications, count: notifications.length });
+      } catch (error) {
+        console.error("Monitoring Error:", error);
+        res.status(500).json({ message: "خطأ في النظام الذكي للمراقبة" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/ai/learning-stats",
+    requireAuth,
+    requirePermission("manage_analytics"),
+    async (req, res) => {
+      try {
+        const { AILearning } = await import("./services/ai-learning");
+        const stats = AILearning.getLearningStatistics();
+        res.json({ stats });
+      } catch (error) {
+        console.error("Learning Stats Error:", error);
+        res.status(500).json({ message: "خطأ في جلب إحصائيات التعلم" });
+      }
+    },
+  );
+
+  app.get("/api/ai/recommendations/:userId", async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { AILearning } = await import("./services/ai-learning");
+      const recommendations = await AILearning.getPersonalizedRecommendations(
+        parseInt(userId),
+      );
+      res.json({ recommendations });
+    } catch (error) {
+      console.error("Recommendations Error:", error);
+      res.status(500).json({ message: "خطأ في جلب التوصيات المخصصة" });
+    }
+  });
+
+  app.post("/api/ai/feedback", async (req, res) => {
+    try {
+      const { userId, actionType, context, feedback } = req.body;
+
+      const { AILearning } = await import("./services/ai-learning");
+      await AILearning.recordLearningData(
+        userId,
+        actionType,
+        context,
+        true,
+        0,
+        feedback,
+      );
+
+      res.json({ message: "تم تسجيل التعليق بنجاح" });
     } catch (error) {
-      console.error("Error deleting consumable part:", error);
-      res.status(500).json({ message: "خطأ في حذف قطعة الغيار الاستهلاكية" });
+      console.error("Feedback Error:", error);
+      res.status(500).json({ message: "خطأ في تسجيل التعليق" });
     }
   });
 
-  // Consumable Parts Transactions routes
-  app.get("/api/consumable-parts-transactions", async (req, res) => {
-    try {
-      const transactions = await storage.getConsumablePartTransactions();
-      res.json(transactions);
-    } catch (error) {
-      console.error("Error fetching consumable parts transactions:", error);
-      res
-        .status(500)
-        .json({ message: "خطأ في جلب حركات قطع الغيار الاستهلاكية" });
-    }
-  });
+  function generateFallbackResponse(message: string): string {
+    const lowerMessage = message.toLowerCase();
+
+    if (lowerMessage.includes("إنتاج") || lowerMessage.includes("production")) {
+      return "بناءً على البيانات الحالية، معدل الإنتاج يبلغ 85%. يمكنك مراجعة تفاصيل أكثر في صفحة الإنتاج.";
+    } else if (
+      lowerMessage.includes("جودة") ||
+      lowerMessage.includes("quality")
+    ) {
+      return "فحوصات الجودة تتم بانتظام. يمكنك مراجعة نتائج الفحوصات من صفحة إدارة الجودة.";
+    } else if (
+      lowerMessage.includes("صيانة") ||
+      lowerMessage.includes("maintenance")
+    ) {
+      return "هناك طلبات صيانة نشطة. يرجى مراجعة صفحة الصيانة للتفاصيل.";
+    } else if (
+      lowerMessage.includes("موظف") ||
+      lowerMessage.includes("employee")
+    ) {
+      return "يمكنك مراجعة حضور الموظفين وإدارة الموارد البشرية من القسم المخصص.";
+    } else {
+      return "شكراً لك على استفسارك. يمكنني مساعدتك في معلومات حول الإنتاج، الجودة، الصيانة، والموارد البشرية. ما الذي تريد معرفته؟";
+    }
+  }
+
+  // Dashboard stats endpoint
+  app.get(
+    "/api/dashboard/stats",
+    requireAuth,
+    requirePermission("view_dashboard", "view_home"),
+    async (req, res) => {
+      try {
+        const stats = {
+          activeOrders: 12,
+          productionRate: 85,
+          presentEmployees: 18,
+          totalEmployees: 22,
+          maintenanceAlerts: 2,
+        };
+        res.json(stats);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب إحصائيات لوحة المتابعة" });
+      }
+    },
+  );
+
+  // Rolls endpoint
+  app.get(
+    "/api/rolls",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const rolls = await storage.getRolls();
+        res.json(rolls);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب الرولات" });
+      }
+    },
+  );
+
+  // Reports endpoint
+  app.get(
+    "/api/reports",
+    requireAuth,
+    requirePermission("view_reports"),
+    async (req, res) => {
+      try {
+        const reports: any[] = []; // Placeholder for reports data
+        res.json(reports);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب التقارير" });
+      }
+    },
+  );
+
+  // Machines routes
+  app.get(
+    "/api/machines",
+    requireAuth,
+    requirePermission(
+      "view_definitions",
+      "view_production",
+      "view_maintenance",
+    ),
+    async (req, res) => {
+      try {
+        const machines = await storage.getMachines();
+        res.json(machines);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب المكائن" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/machines",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        console.log("Received machine data:", req.body);
+
+        // Generate sequential ID if not provided with enhanced null safety
+        let machineId = req.body?.id;
+        if (!machineId) {
+          // Get the latest machine to determine the next sequential number
+          const existingMachines = (await storage.getMachines()) || [];
+          const machineNumbers = existingMachines
+            .map((machine) => machine?.id)
+            .filter((id) => id && typeof id === "string" && id.startsWith("MAC"))
+            .map((id) => {
+              const num = id.replace("MAC", "");
+              const parsed = parseInt(num);
+              return isNaN(parsed) ? 0 : parsed;
+            })
+            .filter((num) => num > 0)
+            .sort((a, b) => b - a);
+
+          const nextNumber =
+            machineNumbers.length > 0 ? machineNumbers[0] + 1 : 1;
+          machineId = `MAC${nextNumber.toString().padStart(2, "0")}`;
+        }
+
+        const processedData = {
+          ...req.body,
+          id: machineId,
+        };
+
+        // STEP 1: DataValidator integration for business rules
+        const validationResult = await getDataValidator(storage).validateData(
+          "machines",
+          processedData,
+        );
+        if (!validationResult.isValid) {
+          const criticalErrors = validationResult.errors.filter(
+            (e) => e.severity === "critical" || e.severity === "high",
+          );
+          if (criticalErrors.length > 0) {
+            return res.status(400).json({
+              message: criticalErrors[0].message_ar || criticalErrors[0].message,
+              errors: validationResult.errors,
+              success: false,
+            });
+          }
+        }
+
+        console.log("Processed machine data:", processedData);
+        const machine = await storage.createMachine(processedData);
+        console.log("Created machine:", machine);
+
+        res.status(201).json({
+          data: machine,
+          message: "تم إنشاء الماكينة بنجاح",
+          success: true,
+        });
+      } catch (error: any) {
+        console.error("Machine creation error:", error);
+
+        if (error.name === "DatabaseError") {
+          return res.status(400).json({
+            message: error.message,
+            success: false,
+          });
+        }
+
+        res.status(500).json({
+          message: "خطأ في إنشاء الماكينة",
+          success: false,
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/machines/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id; // Now using string ID
+        console.log("Updating machine:", id, req.body);
+        
+        // Clean up empty capacity fields - convert empty strings to null
+        const cleanedData = {
+          ...req.body,
+          capacity_small_kg_per_hour: req.body.capacity_small_kg_per_hour === "" || req.body.capacity_small_kg_per_hour === null 
+            ? null 
+            : req.body.capacity_small_kg_per_hour,
+          capacity_medium_kg_per_hour: req.body.capacity_medium_kg_per_hour === "" || req.body.capacity_medium_kg_per_hour === null 
+            ? null 
+            : req.body.capacity_medium_kg_per_hour,
+          capacity_large_kg_per_hour: req.body.capacity_large_kg_per_hour === "" || req.body.capacity_large_kg_per_hour === null 
+            ? null 
+            : req.body.capacity_large_kg_per_hour,
+        };
+        
+        const machine = await storage.updateMachine(id, cleanedData);
+        res.json(machine);
+      } catch (error) {
+        console.error("Machine update error:", error);
+        res.status(500).json({
+          message: "خطأ في تحديث الماكينة",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  // Users routes
+  app.post(
+    "/api/users",
+    requireAuth,
+    requirePermission("create_users"),
+    async (req, res) => {
+      try {
+        console.log("Received user data:", req.body);
+
+        // ID will be auto-generated by the database (serial/auto-increment)
+
+        // Handle role_id conversion - convert role name to role ID
+        let roleId = null;
+        if (
+          req.body.role_id &&
+          req.body.role_id !== "" &&
+          req.body.role_id !== "none"
+        ) {
+          if (typeof req.body.role_id === "string") {
+            // If it's a role name like 'admin', convert to role ID
+            const roles = await storage.getRoles();
+            const role = roles.find(
+              (r) =>
+                r.name === req.body.role_id || r.name_ar === req.body.role_id,
+            );
+            if (role) {
+              roleId = role.id;
+            } else {
+              // If it's a numeric string, parse it
+              const parsed = parseInt(req.body.role_id);
+              if (!isNaN(parsed)) {
+                roleId = parsed;
+              }
+            }
+          } else if (typeof req.body.role_id === "number") {
+            roleId = req.body.role_id;
+          }
+        }
+
+        // Handle section_id - convert section string ID to integer
+        let sectionId = null;
+        if (
+          req.body.section_id &&
+          req.body.section_id !== "" &&
+          req.body.section_id !== "none"
+        ) {
+          // Simple mapping from section string ID to integer
+          const sectionMapping: { [key: string]: number } = {
+            SEC01: 1,
+            SEC02: 2,
+            SEC03: 3,
+            SEC04: 4,
+            SEC05: 5,
+            SEC06: 6,
+            SEC07: 7,
+          };
+          sectionId = sectionMapping[req.body.section_id] || null;
+        }
+
+        if (req.body.password) {
+          const policyErrors = await getAccountSecurity(storage).validatePassword(
+            req.body.password,
+            req.body.username,
+          );
+          if (policyErrors.length > 0) {
+            return res
+              .status(400)
+              .json({ message: policyErrors[0], errors: policyErrors });
+          }
+        }
+
+        const processedData = {
+          username: req.body.username,
+          password: req.body.password || "defaultPassword",
+          display_name: req.body.display_name,
+          display_name_ar: req.body.display_name_ar,
+          role_id: roleId,
+          section_id: sectionId,
+          attendance_location_id:
+            req.body.attendance_location_id &&
+            req.body.attendance_location_id !== "none"
+              ? req.body.attendance_location_id
+              : null,
+          status: req.body.status || "active",
+          // A generated default password must always be replaced on first login
+          must_change_password:
+            !req.body.password || req.body.must_change_password === true,
+        };
+
+        console.log("Processed user data:", processedData);
+        const user = await storage.createUser(processedData);
+        console.log("Created user:", user);
+        res.json(user);
+      } catch (error) {
+        console.error("User creation error:", error);
+        res.status(500).json({
+          message: "خطأ في إنشاء المستخدم",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/users/:id",
+    requireAuth,
+    requirePermission("update_users"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id) {
+          return res.status(400).json({ message: "معرف المستخدم مطلوب" });
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+        }
+
+        if (!req.body || typeof req.body !== "object") {
+          return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
+        }
+
+        console.log("Updating user:", id, req.body);
+
+        // Process role_id and section_id to convert empty strings and "none" to null with enhanced null safety
+        let roleId = null;
+        if (
+          req.body?.role_id &&
+          req.body.role_id !== "" &&
+          req.body.role_id !== "none"
+        ) {
+          // Extract numeric ID from ROLE{number} format (e.g., ROLE08 -> 8)
+          const roleMatch = req.body.role_id.match(/^ROLE(\d+)$/);
+          if (roleMatch) {
+            roleId = parseInt(roleMatch[1], 10);
+          }
+        }
+
+        let sectionId = null;
+        if (
+          req.body?.section_id &&
+          req.body.section_id !== "" &&
+          req.body.section_id !== "none"
+        ) {
+          // Extract numeric ID from SEC{number} format (e.g., SEC02 -> 2)
+          const sectionMatch = req.body.section_id.match(/^SEC(\d+)$/);
+          if (sectionMatch) {
+            sectionId = parseInt(sectionMatch[1], 10);
+          }
+        }
+
+        if (req.body.password) {
+          const existingUser = await storage.getUser(id);
+          const policyErrors = await getAccountSecurity(storage).validatePassword(
+            req.body.password,
+            req.body.username || existingUser?.username,
+          );
+          if (policyErrors.length > 0) {
+            return res
+              .status(400)
+              .json({ message: policyErrors[0], errors: policyErrors });
+          }
+        }
+
+        const processedData = {
+          ...req.body,
+          role_id: roleId,
+          section_id: sectionId,
+        };
+        if (processedData.attendance_location_id !== undefined) {
+          processedData.attendance_location_id =
+            processedData.attendance_location_id &&
+            processedData.attendance_location_id !== "none"
+              ? processedData.attendance_location_id
+              : null;
+        }
+        if (!processedData.password) {
+          delete processedData.password;
+        }
+        // 2FA is managed only through the /api/2fa endpoints
+        delete processedData.two_factor_enabled;
+        delete processedData.two_factor_secret;
+        delete processedData.two_factor_recovery_codes;
+        if (processedData.must_change_password !== undefined) {
+          processedData.must_change_password =
+            processedData.must_change_password === true;
+        }
+
+        console.log("Processed role_id:", roleId, "from:", req.body.role_id);
+        console.log(
+          "Processed section_id:",
+          sectionId,
+          "from:",
+          req.body.section_id,
+        );
+
+        const user = await storage.updateUser(id, processedData);
+        if (!user) {
+          return res.status(404).json({ message: "المستخدم غير موجود" });
+        }
+        const {
+          password: _password,
+          two_factor_secret: _secret,
+          two_factor_recovery_codes: _recoveryCodes,
+          ...safeUser
+        } = user;
+        res.json(safeUser);
+      } catch (error) {
+        console.error("User update error:", error);
+        res.status(500).json({
+          message: "خطأ في تحديث المستخدم",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  // Roles management routes
+  app.get(
+    "/api/roles",
+    requireAuth,
+    requirePermission("view_roles"),
+    async (req: AuthRequest, res) => {
+      try {
+        const roles = await storage.getRoles();
+        res.json(roles);
+      } catch (error) {
+        console.error("Roles fetch error:", error);
+        res.status(500).json({ message: "خطأ في جلب الأدوار" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/roles",
+    requireAuth,
+    requirePermission("create_roles"),
+    async (req: AuthRequest, res) => {
+      try {
+        console.log("Received role data:", req.body);
+        const role = await storage.createRole(req.body);
+        console.log("Created role:", role);
+        res.json(role);
+      } catch (error) {
+        console.error("Role creation error:", error);
+        res.status(500).json({
+          message: "خطأ في إنشاء الدور",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/roles/:id",
+    requireAuth,
+    requirePermission("update_roles"),
+    async (req: AuthRequest, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id) {
+          return res.status(400).json({ message: "معرف الدور مطلوب" });
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف الدور غير صحيح" });
+        }
+
+        if (!req.body || typeof req.body !== "object") {
+          return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
+        }
+
+        console.log("Updating role:", id, req.body);
+        const role = await storage.updateRole(id, req.body);
+        if (!role) {
+          return res.status(404).json({ message: "الدور غير موجود" });
+        }
+        res.json(role);
+      } catch (error) {
+        console.error("Role update error:", error);
+        res.status(500).json({
+          message: "خطأ في تحديث الدور",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/roles/:id",
+    requireAuth,
+    requirePermission("delete_roles"),
+    async (req: AuthRequest, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id) {
+          return res.status(400).json({ message: "معرف الدور مطلوب" });
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({ message: "معرف الدور غير صحيح" });
+        }
+
+        await storage.deleteRole(id);
+        // If no error thrown, deletion was successful
+        res.json({ message: "تم حذف الدور بنجاح" });
+      } catch (error) {
+        console.error("Role deletion error:", error);
+        res.status(500).json({
+          message: "خطأ في حذف الدور",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  // Audit trail - who changed what and when
+  app.get(
+    "/api/audit",
+    requireAuth,
+    requirePermission("view_audit_log"),
+    async (req, res) => {
+      try {
+        const { table_name, record_id, action, date_from, date_to } =
+          req.query;
+        const result = await storage.getAuditLogs({
+          userId: req.query.user_id
+            ? parseIntSafe(req.query.user_id as string, "User ID", { min: 1 })
+            : undefined,
+          tableName: (table_name as string) || undefined,
+          recordId: (record_id as string) || undefined,
+          action: (action as string) || undefined,
+          dateFrom: (date_from as string) || undefined,
+          dateTo: (date_to as string) || undefined,
+          limit: parseOptionalQueryParam(req.query.limit, "الحد الأقصى", 100),
+          offset: parseOptionalQueryParam(req.query.offset, "الإزاحة", 0),
+        });
+        res.json(result);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("User ID")) {
+          return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+        }
+        console.error("Error fetching audit log:", error);
+        res.status(500).json({ message: "خطأ في جلب سجل التدقيق" });
+      }
+    },
+  );
+
+  // Sections routes
+  app.post(
+    "/api/sections",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        console.log("Received section data:", req.body);
+
+        // Generate sequential ID if not provided with enhanced null safety
+        let sectionId = req.body?.id;
+        if (!sectionId) {
+          // Get the latest section to determine the next sequential number
+          const existingSections = (await storage.getSections()) || [];
+          const sectionNumbers = existingSections
+            .map((section) => section?.id)
+            .filter((id) => id && typeof id === "string" && id.startsWith("SEC"))
+            .map((id) => {
+              const num = id.replace("SEC", "");
+              const parsed = parseInt(num);
+              return isNaN(parsed) ? 0 : parsed;
+            })
+            .filter((num) => num > 0)
+            .sort((a, b) => b - a);
+
+          const nextNumber =
+            sectionNumbers.length > 0 ? sectionNumbers[0] + 1 : 1;
+          sectionId = `SEC${nextNumber.toString().padStart(2, "0")}`;
+        }
+
+        const processedData = {
+          ...req.body,
+          id: sectionId,
+        };
+
+        console.log("Processed section data:", processedData);
+        const section = await storage.createSection(processedData);
+        console.log("Created section:", section);
+        res.json(section);
+      } catch (error) {
+        console.error("Section creation error:", error);
+        res.status(500).json({
+          message: "خطأ في إنشاء القسم",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/sections/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id?.trim()) {
+          return res.status(400).json({ message: "معرف القسم مطلوب" });
+        }
+
+        if (!req.body || typeof req.body !== "object") {
+          return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
+        }
+
+        const id = req.params.id.trim();
+        const section = await storage.updateSection(id, req.body);
+        if (!section) {
+          return res.status(404).json({ message: "القسم غير موجود" });
+        }
+        res.json(section);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث القسم" });
+      }
+    },
+  );
+
+  // Material Groups routes
+
+  // Items routes
+  app.post(
+    "/api/items",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        console.log("Received item data:", req.body);
+
+        // Generate sequential ID if not provided with enhanced null safety
+        let itemId = req.body?.id;
+        if (!itemId) {
+          // Get the latest item to determine the next sequential number
+          const existingItems = (await storage.getItems()) || [];
+          const itemNumbers = existingItems
+            .map((item) => item?.id)
+            .filter((id) => id && typeof id === "string" && id.startsWith("ITEM"))
+            .map((id) => {
+              const num = id.replace("ITEM", "");
+              const parsed = parseInt(num);
+              return isNaN(parsed) ? 0 : parsed;
+            })
+            .filter((num) => num > 0)
+            .sort((a, b) => b - a);
+
+          const nextNumber = itemNumbers.length > 0 ? itemNumbers[0] + 1 : 1;
+          itemId = `ITEM${nextNumber.toString().padStart(3, "0")}`;
+        }
+
+        // Convert empty strings to null for optional fields with enhanced null safety
+        const processedData = {
+          ...req.body,
+          id: itemId,
+          category_id:
+            !req.body?.category_id ||
+            req.body.category_id === "" ||
+            req.body.category_id === "none"
+              ? null
+              : req.body.category_id,
+          code: !req.body?.code || req.body.code === "" ? null : req.body.code,
+        };
+
+        console.log("Processed item data:", processedData);
+        const item = await storage.createItem(processedData);
+        console.log("Created item:", item);
+        res.json(item);
+      } catch (error) {
+        console.error("Item creation error:", error);
+        console.error(
+          "Error stack:",
+          error instanceof Error ? error.stack : "No stack trace",
+        );
+        res.status(500).json({
+          message: "خطأ في إنشاء الصنف",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/items/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id?.trim()) {
+          return res.status(400).json({ message: "معرف الصنف مطلوب" });
+        }
+
+        if (!req.body || typeof req.body !== "object") {
+          return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
+        }
+
+        const id = req.params.id.trim();
+        console.log("Updating item:", id, req.body);
+
+        // Convert empty strings to null for optional fields with enhanced null safety
+        const processedData = {
+          ...req.body,
+          category_id:
+            !req.body?.category_id ||
+            req.body.category_id === "" ||
+            req.body.category_id === "none"
+              ? null
+              : req.body.category_id,
+          code: !req.body?.code || req.body.code === "" ? null : req.body.code,
+        };
+
+        console.log("Processed item update data:", processedData);
+        const item = await storage.updateItem(id, processedData);
+        if (!item) {
+          return res.status(404).json({ message: "الصنف غير موجود" });
+        }
+        res.json(item);
+      } catch (error) {
+        console.error("Item update error:", error);
+        res.status(500).json({
+          message: "خطأ في تحديث الصنف",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  // Customer Products routes
+  app.post(
+    "/api/customer-products",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        // Convert material_group_id to category_id for backwards compatibility
+        const processedData = {
+          ...req.body,
+          category_id: req.body.material_group_id || req.body.category_id,
+        };
+        delete processedData.material_group_id;
+
+        const customerProduct =
+          await storage.createCustomerProduct(processedData);
+        res.json(customerProduct);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء منتج العميل" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/customer-products/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+
+        // Validate the ID parameter
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "معرف المنتج غير صحيح" });
+        }
+
+        // Validate request body using Zod schema
+        const validation = insertCustomerProductSchema.safeParse({
+          ...req.body,
+          category_id: req.body.material_group_id || req.body.category_id,
+        });
+
+        if (!validation.success) {
+          console.error(
+            "Customer product validation error:",
+            validation.error.errors,
+          );
+          return res.status(400).json({
+            message: "بيانات غير صحيحة",
+            errors: validation.error.errors.map((err) => ({
+              field: err.path.join("."),
+              message: err.message,
+            })),
+          });
+        }
+
+        // Remove material_group_id for backwards compatibility
+        const processedData = { ...validation.data };
+        delete (processedData as any).material_group_id;
+
+        const customerProduct = await storage.updateCustomerProduct(
+          id,
+          processedData,
+        );
+
+        if (!customerProduct) {
+          return res.status(404).json({ message: "منتج العميل غير موجود" });
+        }
+
+        res.json(customerProduct);
+      } catch (error) {
+        console.error("Customer product update error:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        res.status(500).json({
+          message: "خطأ في تحديث منتج العميل",
+          error: errorMessage,
+        });
+      }
+    },
+  );
+
+  // Locations routes
+  app.post(
+    "/api/locations",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        console.log("Received location data:", req.body);
+
+        // Generate sequential ID if not provided
+        let locationId = req.body.id;
+        if (!locationId) {
+          // Get the latest location to determine the next sequential number
+          const existingLocations = await storage.getLocations();
+          const locationNumbers = existingLocations
+            .map((location) => location.id)
+            .filter((id) => id.startsWith("LOC"))
+            .map((id) => parseInt(id.replace("LOC", "")))
+            .filter((num) => !isNaN(num))
+            .sort((a, b) => b - a);
+
+          const nextNumber =
+            locationNumbers.length > 0 ? locationNumbers[0] + 1 : 1;
+          locationId = `LOC${nextNumber.toString().padStart(2, "0")}`;
+        }
+
+        const processedData = {
+          ...req.body,
+          id: locationId,
+        };
+
+        console.log("Processed location data:", processedData);
+        const location = await storage.createLocation(processedData);
+        console.log("Created location:", location);
+        res.json(location);
+      } catch (error) {
+        console.error("Location creation error:", error);
+        res.status(500).json({
+          message: "خطأ في إنشاء الموقع",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  app.put(
+    "/api/locations/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id; // Now using string ID
+        console.log("Updating location:", id, req.body);
+        const location = await storage.updateLocation(id, req.body);
+        res.json(location);
+      } catch (error) {
+        console.error("Location update error:", error);
+        res.status(500).json({
+          message: "خطأ في تحديث الموقع",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  );
+
+  // ============ HR System API Routes ============
+
+  // Training Programs
+  app.get(
+    "/api/hr/training-programs",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const programs = await storage.getTrainingPrograms();
+        res.json(programs);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب البرامج التدريبية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/training-programs",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const program = await storage.createTrainingProgram(req.body);
+        res.json(program);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء البرنامج التدريبي" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/hr/training-programs/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id) {
+          return res
+            .status(400)
+            .json({ message: "معرف البرنامج التدريبي مطلوب" });
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res
+            .status(400)
+            .json({ message: "معرف البرنامج التدريبي غير صحيح" });
+        }
+
+        if (!req.body || typeof req.body !== "object") {
+          return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
+        }
+
+        const program = await storage.updateTrainingProgram(id, req.body);
+        if (!program) {
+          return res.status(404).json({ message: "البرنامج التدريبي غير موجود" });
+        }
+        res.json(program);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث البرنامج التدريبي" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/hr/training-programs/:id",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        // Enhanced parameter validation
+        if (!req.params?.id) {
+          return res
+            .status(400)
+            .json({ message: "معرف البرنامج التدريبي مطلوب" });
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res
+            .status(400)
+            .json({ message: "معرف البرنامج التدريبي غير صحيح" });
+        }
+
+        const program = await storage.getTrainingProgramById(id);
+        if (!program) {
+          return res.status(404).json({ message: "البرنامج التدريبي غير موجود" });
+        }
+        res.json(program);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب البرنامج التدريبي" });
+      }
+    },
+  );
+
+  // Training Materials
+  app.get(
+    "/api/hr/training-materials",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        // Enhanced query parameter validation
+        let programId: number | undefined;
+        if (req.query?.program_id) {
+          const programIdParam = parseInt(req.query.program_id as string);
+          programId =
+            !isNaN(programIdParam) && programIdParam > 0
+              ? programIdParam
+              : undefined;
+        }
+
+        const materials = await storage.getTrainingMaterials(programId);
+        if (!materials) {
+          return res.json([]); // Return empty array instead of null
+        }
+        res.json(materials);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب المواد التدريبية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/training-materials",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const material = await storage.createTrainingMaterial(req.body);
+        res.json(material);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء المادة التدريبية" });
+      }
+    },
+  );
+
+  // Training Enrollments
+  app.get(
+    "/api/hr/training-enrollments",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        // Enhanced query parameter validation
+        let employeeId: number | undefined;
+        if (req.query?.employee_id) {
+          const employeeIdParam = parseInt(req.query.employee_id as string);
+          employeeId =
+            !isNaN(employeeIdParam) && employeeIdParam > 0
+              ? employeeIdParam
+              : undefined;
+        }
+
+        const enrollments = await storage.getTrainingEnrollments(
+          employeeId,
+          getDataScope(req),
+        );
+        if (!enrollments) {
+          return res.json([]); // Return empty array instead of null
+        }
+        res.json(enrollments);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب التسجيلات التدريبية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/training-enrollments",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const enrollment = await storage.createTrainingEnrollment(req.body);
+        res.json(enrollment);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تسجيل الموظف في البرنامج" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/hr/training-enrollments/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const enrollment = await storage.updateTrainingEnrollment(id, req.body);
+        res.json(enrollment);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث التسجيل التدريبي" });
+      }
+    },
+  );
+
+  // Training Evaluations
+  app.get(
+    "/api/hr/training-evaluations",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const employeeId = req.query.employee_id
+          ? parseInt(req.query.employee_id as string)
+          : undefined;
+        const programId = req.query.program_id
+          ? parseInt(req.query.program_id as string)
+          : undefined;
+        const evaluations = await storage.getTrainingEvaluations(
+          employeeId,
+          programId,
+          getDataScope(req),
+        );
+        res.json(evaluations);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب التقييمات التدريبية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/training-evaluations",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const evaluation = await storage.createTrainingEvaluation(req.body);
+        res.json(evaluation);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء التقييم التدريبي" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/hr/training-evaluations/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const evaluation = await storage.updateTrainingEvaluation(id, req.body);
+        res.json(evaluation);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث التقييم التدريبي" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/hr/training-evaluations/:id",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const evaluation = await storage.getTrainingEvaluationById(id);
+        // Out-of-scope records are reported as missing
+        const scope = getDataScope(req);
+        const visible =
+          !!evaluation &&
+          (!scope ||
+            (evaluation.employee_id !== null &&
+              (await storage.isUserInScope(evaluation.employee_id, scope))));
+        if (evaluation && visible) {
+          res.json(evaluation);
+        } else {
+          res.status(404).json({ message: "التقييم التدريبي غير موجود" });
+        }
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب التقييم التدريبي" });
+      }
+    },
+  );
+
+  // Training Certificates
+  app.get(
+    "/api/hr/training-certificates",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const employeeId = req.query.employee_id
+          ? parseInt(req.query.employee_id as string)
+          : undefined;
+        const certificates = await storage.getTrainingCertificates(
+          employeeId,
+          getDataScope(req),
+        );
+        res.json(certificates);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب الشهادات التدريبية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/training-certificates",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const certificate = await storage.createTrainingCertificate(req.body);
+        res.json(certificate);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء الشهادة التدريبية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/training-certificates/generate/:enrollmentId",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const enrollmentId = parseInt(req.params.enrollmentId);
+        const certificate =
+          await storage.generateTrainingCertificate(enrollmentId);
+        res.json(certificate);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إصدار الشهادة التدريبية" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/hr/training-certificates/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const certificate = await storage.updateTrainingCertificate(id, req.body);
+        res.json(certificate);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث الشهادة التدريبية" });
+      }
+    },
+  );
+
+  // Training Evaluations
+  app.get(
+    "/api/hr/training-evaluations",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const employeeId = req.query.employee_id
+          ? parseInt(req.query.employee_id as string)
+          : undefined;
+        const programId = req.query.program_id
+          ? parseInt(req.query.program_id as string)
+          : undefined;
+        const evaluations = await storage.getTrainingEvaluations(
+          employeeId,
+          programId,
+          getDataScope(req),
+        );
+        res.json(evaluations);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب تقييمات التدريب" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/training-evaluations",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const evaluation = await storage.createTrainingEvaluation(req.body);
+        res.json(evaluation);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء تقييم التدريب" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/hr/training-evaluations/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const evaluation = await storage.updateTrainingEvaluation(id, req.body);
+        res.json(evaluation);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث تقييم التدريب" });
+      }
+    },
+  );
+
+  // Training Certificates
+  app.get(
+    "/api/hr/training-certificates",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const employeeId = req.query.employee_id
+          ? parseInt(req.query.employee_id as string)
+          : undefined;
+        const certificates = await storage.getTrainingCertificates(
+          employeeId,
+          getDataScope(req),
+        );
+        res.json(certificates);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب شهادات التدريب" });
+      }
+    },
+  );
 
-  app.get(
-    "/api/consumable-parts-transactions/part/:partId",
+  app.post(
+    "/api/hr/training-certificates",
+    requireAuth,
+    requirePermission("create_hr"),
     async (req, res) => {
       try {
-        const partId = parseInt(req.params.partId);
-        const transactions =
-          await storage.getConsumablePartTransactionsByPartId(partId);
-        res.json(transactions);
+        const certificate = await storage.createTrainingCertificate(req.body);
+        res.json(certificate);
       } catch (error) {
-        console.error(
-          "Error fetching consumable parts transactions by part:",
-          error,
-        );
-        res
-          .status(500)
-          .json({ message: "خطأ في جلب حركات قطعة الغيار الاستهلاكية" });
+        res.status(500).json({ message: "خطأ في إنشاء شهادة التدريب" });
       }
     },
   );
 
-  app.post("/api/consumable-parts-transactions", async (req, res) => {
-    try {
-      const transaction = await storage.createConsumablePartTransaction(
-        req.body,
-      );
-      res.json(transaction);
-    } catch (error) {
-      console.error("Error creating consumable parts transaction:", error);
-      res
-        .status(500)
-        .json({ message: "خطأ في إنشاء حركة قطعة الغيار الاستهلاكية" });
-    }
-  });
-
-  // Barcode scanning endpoint for consumable parts
-  app.post("/api/consumable-parts/scan-barcode", async (req, res) => {
-    try {
-      const { barcode } = req.body;
-      if (!barcode) {
-        return res.status(400).json({ message: "الباركود مطلوب" });
+  app.get(
+    "/api/hr/training-certificates/:id/generate",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const certificate = await storage.generateTrainingCertificate(id);
+        res.json(certificate);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في توليد شهادة التدريب" });
       }
+    },
+  );
 
-      const consumablePart = await storage.getConsumablePartByBarcode(barcode);
-      if (!consumablePart) {
-        return res
-          .status(404)
-          .json({ message: "لم يتم العثور على قطعة غيار بهذا الباركود" });
+  // Performance Reviews
+  app.get(
+    "/api/hr/performance-reviews",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const employeeId = req.query.employee_id
+          ? (req.query.employee_id as string)
+          : undefined;
+        const reviews = await storage.getPerformanceReviews(
+          employeeId,
+          getDataScope(req),
+        );
+        res.json(reviews);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب تقييمات الأداء" });
       }
+    },
+  );
 
-      res.json(consumablePart);
-    } catch (error) {
-      console.error("Error scanning barcode:", error);
-      res.status(500).json({ message: "خطأ في قراءة الباركود" });
-    }
-  });
-
-  // Process barcode transaction (in/out)
-  app.post("/api/consumable-parts/barcode-transaction", async (req, res) => {
-    try {
-      const {
-        barcode,
-        transaction_type,
-        quantity,
-        transaction_reason,
-        notes,
-        manual_entry,
-      } = req.body;
-
-      if (!barcode || !transaction_type || !quantity) {
-        return res
-          .status(400)
-          .json({ message: "الباركود ونوع الحركة والكمية مطلوبة" });
+  app.post(
+    "/api/hr/performance-reviews",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const review = await storage.createPerformanceReview(req.body);
+        res.json(review);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء تقييم الأداء" });
       }
+    },
+  );
 
-      // Find consumable part by barcode
-      const consumablePart = await storage.getConsumablePartByBarcode(barcode);
-      if (!consumablePart) {
-        return res
-          .status(404)
-          .json({ message: "لم يتم العثور على قطعة غيار بهذا الباركود" });
-      }
-
-      // Create transaction
-      const transactionData = {
-        consumable_part_id: consumablePart.id,
-        transaction_type,
-        quantity: parseInt(quantity),
-        barcode_scanned: barcode,
-        manual_entry: manual_entry || false,
-        transaction_reason: transaction_reason || "",
-        notes: notes || "",
-        performed_by: req.session.userId || 1,
-      };
-
-      const transaction =
-        await storage.processConsumablePartBarcodeTransaction(transactionData);
-      res.json(transaction);
-    } catch (error) {
-      console.error("Error processing barcode transaction:", error);
-      res.status(500).json({ message: "خطأ في معالجة حركة الباركود" });
-    }
-  });
-
-  // Attendance routes
-  app.get("/api/attendance", async (req, res) => {
-    try {
-      const attendance = await storage.getAttendance();
-      res.json(attendance);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب بيانات الحضور" });
-    }
-  });
-
-  // AI Assistant routes
-  app.post("/api/ai/chat", async (req, res) => {
-    try {
-      const { message, context, userId } = req.body;
-
-      if (!message) {
-        return res.status(400).json({ message: "الرسالة مطلوبة" });
+  app.put(
+    "/api/hr/performance-reviews/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const existing = await storage.getPerformanceReviewById(id);
+        // Out-of-scope records are reported as missing
+        const scope = getDataScope(req);
+        const visible =
+          !!existing &&
+          (!scope ||
+            (existing.employee_id !== null &&
+              (await storage.isUserInScope(existing.employee_id, scope))));
+        if (!visible) {
+          return res.status(404).json({ message: "تقييم الأداء غير موجود" });
+        }
+        const review = await storage.updatePerformanceReview(id, req.body);
+        res.json(review);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث تقييم الأداء" });
       }
+    },
+  );
 
-      // استخدام المساعد الذكي المتطور
-      const reply = await openaiService.processMessage(message, userId);
-      res.json({ reply });
-    } catch (error) {
-      console.error("AI Chat Error:", error);
-      const fallbackResponse = generateFallbackResponse(req.body.message);
-      res.json({ reply: fallbackResponse });
-    }
-  });
-
-  // AI Voice Command endpoint
-  app.post("/api/ai/voice-command", async (req, res) => {
-    try {
-      const {
-        command,
-        language = "ar-SA",
-        context = "voice_assistant",
-      } = req.body;
-
-      if (!command || typeof command !== "string") {
-        return res.status(400).json({ message: "أمر صوتي غير صالح" });
+  // Performance Criteria
+  app.get(
+    "/api/hr/performance-criteria",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const criteria = await storage.getPerformanceCriteria();
+        res.json(criteria);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب معايير التقييم" });
       }
+    },
+  );
 
-      const { dialect } = req.body;
-      const result = await openaiService.processVoiceCommand(
-        command,
-        language,
-        dialect,
-      );
-
-      // Map actions to actual system operations
-      let actionData = null;
-      switch (result.action) {
-        case "navigate_dashboard":
-          actionData = { route: "/dashboard" };
-          break;
-        case "navigate_orders":
-          actionData = { route: "/orders" };
-          break;
-        case "navigate_production":
-          actionData = { route: "/production" };
-          break;
-        case "navigate_maintenance":
-          actionData = { route: "/maintenance" };
-          break;
-        case "navigate_definitions":
-          actionData = { route: "/definitions" };
-          break;
-        case "navigate_hr":
-          actionData = { route: "/hr" };
-          break;
-        case "navigate_quality":
-          actionData = { route: "/quality" };
-          break;
-        case "navigate_reports":
-          actionData = { route: "/reports" };
-          break;
-        case "show_stats":
-          actionData = { queryKey: "/api/dashboard/stats" };
-          break;
-        case "refresh_orders":
-          actionData = { queryKey: "/api/orders" };
-          break;
-        case "refresh_machines":
-          actionData = { queryKey: "/api/machines" };
-          break;
-        case "refresh_production":
-          actionData = { queryKey: "/api/production-orders" };
-          break;
+  app.post(
+    "/api/hr/performance-criteria",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const criteria = await storage.createPerformanceCriteria(req.body);
+        res.json(criteria);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء معيار التقييم" });
       }
+    },
+  );
 
-      res.json({
-        message: result.response,
-        action: result.action !== "none" ? result.action : null,
-        data: actionData,
-        intent: result.intent,
-        parameters: result.parameters,
-      });
-    } catch (error) {
-      console.error("Voice Command Error:", error);
-      res.status(500).json({ message: "خطأ في معالجة الأمر الصوتي" });
-    }
-  });
-
-  // AI Advanced Features routes
-  app.post("/api/ai/generate-report", async (req, res) => {
-    try {
-      const { reportType, parameters, userId } = req.body;
-
-      if (!reportType) {
-        return res.status(400).json({ message: "نوع التقرير مطلوب" });
+  // Leave Types
+  app.get(
+    "/api/hr/leave-types",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const leaveTypes = await storage.getLeaveTypes();
+        res.json(leaveTypes);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب أنواع الإجازات" });
       }
+    },
+  );
 
-      const { AIReports } = await import("./services/ai-reports");
-
-      let report;
-      switch (reportType.toLowerCase()) {
-        case "production":
-        case "إنتاج":
-          report = await AIReports.generateProductionReport(parameters);
-          break;
-        case "quality":
-        case "جودة":
-          report = await AIReports.generateQualityReport(parameters);
-          break;
-        case "maintenance":
-        case "صيانة":
-          report = await AIReports.generateMaintenanceReport(parameters);
-          break;
-        case "sales":
-        case "مبيعات":
-          report = await AIReports.generateSalesReport(parameters);
-          break;
-        default:
-          report = await AIReports.generateCustomReport(reportType, parameters);
+  app.post(
+    "/api/hr/leave-types",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const leaveType = await storage.createLeaveType(req.body);
+        res.json(leaveType);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء نوع الإجازة" });
       }
+    },
+  );
 
-      res.json({ report });
-    } catch (error) {
-      console.error("Report Generation Error:", error);
-      res.status(500).json({ message: "خطأ في توليد التقرير الذكي" });
-    }
-  });
-
-  app.get("/api/ai/notifications", async (req, res) => {
-    try {
-      const { AINotifications } = await import("./services/ai-notifications");
-      const notifications = AINotifications.getActiveNotifications();
-      res.json({ notifications });
-    } catch (error) {
-      console.error("Notifications Error:", error);
-      res.status(500).json({ message: "خطأ في جلب الإشعارات" });
-    }
-  });
+  // Leave Requests
+  app.get(
+    "/api/hr/leave-requests",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const employeeId = req.query.employee_id
+          ? (req.query.employee_id as string)
+          : undefined;
+        const requests = await storage.getLeaveRequests(
+          employeeId,
+          getDataScope(req),
+        );
+        res.json(requests);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب طلبات الإجازات" });
+      }
+    },
+  );
 
-  app.post("/api/ai/monitor", async (req, res) => {
-    try {
-      const { AINotifications } = await import("./services/ai-notifications");
-      const notifications =
-        await AINotifications.performIntelligentMonitoring();
-      res.json({ notifications, count: notifications.length });
-    } catch (error) {
-      console.error("Monitoring Error:", error);
-      res.status(500).json({ message: "خطأ في النظام الذكي للمراقبة" });
-    }
-  });
+  app.post(
+    "/api/hr/leave-requests",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const request = await storage.createLeaveRequest(req.body);
+        res.json(request);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء طلب الإجازة" });
+      }
+    },
+  );
 
-  app.get("/api/ai/learning-stats", async (req, res) => {
-    try {
-      const { AILearning } = await import("./services/ai-learning");
-      const stats = AILearning.getLearningStatistics();
-      res.json({ stats });
-    } catch (error) {
-      console.error("Learning Stats Error:", error);
-      res.status(500).json({ message: "خطأ في جلب إحصائيات التعلم" });
-    }
-  });
+  app.put(
+    "/api/hr/leave-requests/:id",
+    requireAuth,
+    requirePermission("approve_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const existing = await storage.getLeaveRequestById(id);
+        // Out-of-scope records are reported as missing
+        const scope = getDataScope(req);
+        const visible =
+          !!existing &&
+          (!scope ||
+            (existing.employee_id !== null &&
+              (await storage.isUserInScope(existing.employee_id, scope))));
+        if (!visible) {
+          return res.status(404).json({ message: "طلب الإجازة غير موجود" });
+        }
+        const request = await storage.updateLeaveRequest(id, req.body);
+        res.json(request);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في تحديث طلب الإجازة" });
+      }
+    },
+  );
 
-  app.get("/api/ai/recommendations/:userId", async (req, res) => {
-    try {
-      const { userId } = req.params;
-      const { AILearning } = await import("./services/ai-learning");
-      const recommendations = await AILearning.getPersonalizedRecommendations(
-        parseInt(userId),
-      );
-      res.json({ recommendations });
-    } catch (error) {
-      console.error("Recommendations Error:", error);
-      res.status(500).json({ message: "خطأ في جلب التوصيات المخصصة" });
-    }
-  });
+  app.get(
+    "/api/hr/leave-requests/pending",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const requests = await storage.getPendingLeaveRequests(
+          getDataScope(req),
+        );
+        res.json(requests);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب الطلبات المعلقة" });
+      }
+    },
+  );
 
-  app.post("/api/ai/feedback", async (req, res) => {
-    try {
-      const { userId, actionType, context, feedback } = req.body;
+  // Leave Balances
+  app.get(
+    "/api/hr/leave-balances/:employeeId",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const employeeId = req.params.employeeId;
+        const year = req.query.year
+          ? parseInt(req.query.year as string)
+          : undefined;
+        const balances = await storage.getLeaveBalances(
+          employeeId,
+          year,
+          getDataScope(req),
+        );
+        res.json(balances);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب أرصدة الإجازات" });
+      }
+    },
+  );
 
-      const { AILearning } = await import("./services/ai-learning");
-      await AILearning.recordLearningData(
-        userId,
-        actionType,
-        context,
-        true,
-        0,
-        feedback,
-      );
+  app.post(
+    "/api/hr/leave-balances",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const balance = await storage.createLeaveBalance(req.body);
+        res.json(balance);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في إنشاء رصيد الإجازة" });
+      }
+    },
+  );
 
-      res.json({ message: "تم تسجيل التعليق بنجاح" });
-    } catch (error) {
-      console.error("Feedback Error:", error);
-      res.status(500).json({ message: "خطأ في تسجيل التعليق" });
-    }
-  });
+  // DELETE routes for definitions
+  app.delete(
+    "/api/customers/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        if (
+          !(await storage.isCustomerInScope(req.params.id, getDataScope(req)))
+        ) {
+          return res.status(404).json({ message: "العميل غير موجود" });
+        }
+        await storage.deleteCustomer(req.params.id);
+        res.json({ message: "تم حذف العميل بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف العميل" });
+      }
+    },
+  );
 
-  function generateFallbackResponse(message: string): string {
-    const lowerMessage = message.toLowerCase();
+  app.delete(
+    "/api/sections/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id;
+        await storage.deleteSection(id);
+        res.json({ message: "تم حذف القسم بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف القسم" });
+      }
+    },
+  );
 
-    if (lowerMessage.includes("إنتاج") || lowerMessage.includes("production")) {
-      return "بناءً على البيانات الحالية، معدل الإنتاج يبلغ 85%. يمكنك مراجعة تفاصيل أكثر في صفحة الإنتاج.";
-    } else if (
-      lowerMessage.includes("جودة") ||
-      lowerMessage.includes("quality")
-    ) {
-      return "فحوصات الجودة تتم بانتظام. يمكنك مراجعة نتائج الفحوصات من صفحة إدارة الجودة.";
-    } else if (
-      lowerMessage.includes("صيانة") ||
-      lowerMessage.includes("maintenance")
-    ) {
-      return "هناك طلبات صيانة نشطة. يرجى مراجعة صفحة الصيانة للتفاصيل.";
-    } else if (
-      lowerMessage.includes("موظف") ||
-      lowerMessage.includes("employee")
-    ) {
-      return "يمكنك مراجعة حضور الموظفين وإدارة الموارد البشرية من القسم المخصص.";
-    } else {
-      return "شكراً لك على استفسارك. يمكنني مساعدتك في معلومات حول الإنتاج، الجودة، الصيانة، والموارد البشرية. ما الذي تريد معرفته؟";
-    }
-  }
+  app.delete(
+    "/api/items/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        await storage.deleteItem(req.params.id);
+        res.json({ message: "تم حذف الصنف بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف الصنف" });
+      }
+    },
+  );
 
-  // Dashboard stats endpoint
-  app.get("/api/dashboard/stats", async (req, res) => {
-    try {
-      const stats = {
-        activeOrders: 12,
-        productionRate: 85,
-        presentEmployees: 18,
-        totalEmployees: 22,
-        maintenanceAlerts: 2,
-      };
-      res.json(stats);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب إحصائيات لوحة المتابعة" });
-    }
-  });
+  app.delete(
+    "/api/customer-products/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteCustomerProduct(id);
+        res.json({ message: "تم حذف منتج العميل بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف منتج العميل" });
+      }
+    },
+  );
 
-  // Rolls endpoint
-  app.get("/api/rolls", async (req, res) => {
-    try {
-      const rolls = await storage.getRolls();
-      res.json(rolls);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب الرولات" });
-    }
-  });
+  app.delete(
+    "/api/locations/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id;
+        await storage.deleteLocation(id);
+        res.json({ message: "تم حذف الموقع بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف الموقع" });
+      }
+    },
+  );
 
-  // Reports endpoint
-  app.get("/api/reports", async (req, res) => {
-    try {
-      const reports: any[] = []; // Placeholder for reports data
-      res.json(reports);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب التقارير" });
-    }
-  });
+  app.delete(
+    "/api/machines/:id",
+    requireAuth,
+    requirePermission("delete_definitions"),
+    async (req, res) => {
+      try {
+        const id = req.params.id;
+        await storage.deleteMachine(id);
+        res.json({ message: "تم حذف الماكينة بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف الماكينة" });
+      }
+    },
+  );
 
-  // Machines routes
-  app.get("/api/machines", async (req, res) => {
-    try {
-      const machines = await storage.getMachines();
-      res.json(machines);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب المكائن" });
-    }
-  });
+  app.delete(
+    "/api/users/:id",
+    requireAuth,
+    requirePermission("delete_users"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteUser(id);
+        res.json({ message: "تم حذف المستخدم بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف المستخدم" });
+      }
+    },
+  );
 
-  app.post("/api/machines", requireAuth, async (req, res) => {
-    try {
-      console.log("Received machine data:", req.body);
-
-      // Generate sequential ID if not provided with enhanced null safety
-      let machineId = req.body?.id;
-      if (!machineId) {
-        // Get the latest machine to determine the next sequential number
-        const existingMachines = (await storage.getMachines()) || [];
-        const machineNumbers = existingMachines
-          .map((machine) => machine?.id)
-          .filter((id) => id && typeof id === "string" && id.startsWith("MAC"))
-          .map((id) => {
-            const num = id.replace("MAC", "");
-            const parsed = parseInt(num);
-            return isNaN(parsed) ? 0 : parsed;
-          })
-          .filter((num) => num > 0)
-          .sort((a, b) => b - a);
+  // Inventory Management routes
+  app.get(
+    "/api/inventory",
+    requireAuth,
+    requirePermission("view_inventory"),
+    async (req, res) => {
+      try {
+        const inventory = await storage.getInventoryItems();
+        res.json(inventory);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب بيانات المخزون" });
+      }
+    },
+  );
 
-        const nextNumber =
-          machineNumbers.length > 0 ? machineNumbers[0] + 1 : 1;
-        machineId = `MAC${nextNumber.toString().padStart(2, "0")}`;
+  app.get(
+    "/api/inventory/stats",
+    requireAuth,
+    requirePermission("view_inventory"),
+    async (req, res) => {
+      try {
+        const stats = await storage.getInventoryStats();
+        res.json(stats);
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في جلب إحصائيات المخزون" });
       }
+    },
+  );
 
-      const processedData = {
-        ...req.body,
-        id: machineId,
-      };
+  app.post(
+    "/api/inventory",
+    requireAuth,
+    requirePermission("create_inventory"),
+    async (req, res) => {
+      try {
+        // STEP 1: Zod schema validation
+        const validatedData = insertInventorySchema.parse(req.body);
 
-      // STEP 1: DataValidator integration for business rules
-      const validationResult = await getDataValidator(storage).validateData(
-        "machines",
-        processedData,
-      );
-      if (!validationResult.isValid) {
-        const criticalErrors = validationResult.errors.filter(
-          (e) => e.severity === "critical" || e.severity === "high",
+        // STEP 2: DataValidator integration for business rules
+        const validationResult = await getDataValidator(storage).validateData(
+          "inventory",
+          validatedData,
         );
-        if (criticalErrors.length > 0) {
+        if (!validationResult.isValid) {
+          const criticalErrors = validationResult.errors.filter(
+            (e) => e.severity === "critical" || e.severity === "high",
+          );
+          if (criticalErrors.length > 0) {
+            return res.status(400).json({
+              message: criticalErrors[0].message_ar || criticalErrors[0].message,
+              errors: validationResult.errors,
+              success: false,
+            });
+          }
+        }
+
+        // STEP 3: Create inventory item with validated data
+        const item = await storage.createInventoryItem(validatedData);
+
+        res.status(201).json({
+          data: item,
+          message: "تم إضافة صنف المخزون بنجاح",
+          success: true,
+        });
+      } catch (error: any) {
+        console.error("Inventory creation error:", error);
+
+        if (error.name === "DatabaseError") {
           return res.status(400).json({
-            message: criticalErrors[0].message_ar || criticalErrors[0].message,
-            errors: validationResult.errors,
+            message: error.message,
             success: false,
           });
         }
-      }
 
-      console.log("Processed machine data:", processedData);
-      const machine = await storage.createMachine(processedData);
-      console.log("Created machine:", machine);
-
-      res.status(201).json({
-        data: machine,
-        message: "تم إنشاء الماكينة بنجاح",
-        success: true,
-      });
-    } catch (error: any) {
-      console.error("Machine creation error:", error);
-
-      if (error.name === "DatabaseError") {
-        return res.status(400).json({
-          message: error.message,
+        res.status(500).json({
+          message: "خطأ في إضافة صنف للمخزون",
           success: false,
         });
       }
+    },
+  );
 
-      res.status(500).json({
-        message: "خطأ في إنشاء الماكينة",
-        success: false,
-      });
-    }
-  });
+  app.put(
+    "/api/inventory/:id",
+    requireAuth,
+    requirePermission("update_inventory"),
+    async (req, res) => {
+      try {
+        // STEP 1: Parameter validation
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) {
+          return res.status(400).json({
+            message: "معرف المخزون غير صحيح",
+            success: false,
+          });
+        }
 
-  app.put("/api/machines/:id", async (req, res) => {
-    try {
-      const id = req.params.id; // Now using string ID
-      console.log("Updating machine:", id, req.body);
-      
-      // Clean up empty capacity fields - convert empty strings to null
-      const cleanedData = {
-        ...req.body,
-        capacity_small_kg_per_hour: req.body.capacity_small_kg_per_hour === "" || req.body.capacity_small_kg_per_hour === null 
-          ? null 
-          : req.body.capacity_small_kg_per_hour,
-        capacity_medium_kg_per_hour: req.body.capacity_medium_kg_per_hour === "" || req.body.capacity_medium_kg_per_hour === null 
-          ? null 
-          : req.body.capacity_medium_kg_per_hour,
-        capacity_large_kg_per_hour: req.body.capacity_large_kg_per_hour === "" || req.body.capacity_large_kg_per_hour === null 
-          ? null 
-          : req.body.capacity_large_kg_per_hour,
-      };
-      
-      const machine = await storage.updateMachine(id, cleanedData);
-      res.json(machine);
-    } catch (error) {
-      console.error("Machine update error:", error);
-      res.status(500).json({
-        message: "خطأ في تحديث الماكينة",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+        // STEP 2: Zod schema validation (partial for updates)
+        const validatedData = insertInventorySchema.partial().parse(req.body);
 
-  // Users routes
-  app.post("/api/users", async (req, res) => {
-    try {
-      console.log("Received user data:", req.body);
-
-      // ID will be auto-generated by the database (serial/auto-increment)
-
-      // Handle role_id conversion - convert role name to role ID
-      let roleId = null;
-      if (
-        req.body.role_id &&
-        req.body.role_id !== "" &&
-        req.body.role_id !== "none"
-      ) {
-        if (typeof req.body.role_id === "string") {
-          // If it's a role name like 'admin', convert to role ID
-          const roles = await storage.getRoles();
-          const role = roles.find(
-            (r) =>
-              r.name === req.body.role_id || r.name_ar === req.body.role_id,
+        // STEP 3: DataValidator integration for business rules
+        const validationResult = await getDataValidator(storage).validateData(
+          "inventory",
+          validatedData,
+          true,
+        );
+        if (!validationResult.isValid) {
+          const criticalErrors = validationResult.errors.filter(
+            (e) => e.severity === "critical" || e.severity === "high",
           );
-          if (role) {
-            roleId = role.id;
-          } else {
-            // If it's a numeric string, parse it
-            const parsed = parseInt(req.body.role_id);
-            if (!isNaN(parsed)) {
-              roleId = parsed;
-            }
+          if (criticalErrors.length > 0) {
+            return res.status(400).json({
+              message: criticalErrors[0].message_ar || criticalErrors[0].message,
+              errors: validationResult.errors,
+              success: false,
+            });
           }
-        } else if (typeof req.body.role_id === "number") {
-          roleId = req.body.role_id;
-        }
-      }
-
-      // Handle section_id - convert section string ID to integer
-      let sectionId = null;
-      if (
-        req.body.section_id &&
-        req.body.section_id !== "" &&
-        req.body.section_id !== "none"
-      ) {
-        // Simple mapping from section string ID to integer
-        const sectionMapping: { [key: string]: number } = {
-          SEC01: 1,
-          SEC02: 2,
-          SEC03: 3,
-          SEC04: 4,
-          SEC05: 5,
-          SEC06: 6,
-          SEC07: 7,
-        };
-        sectionId = sectionMapping[req.body.section_id] || null;
-      }
+        }
 
-      const processedData = {
-        username: req.body.username,
-        password: req.body.password || "defaultPassword",
-        display_name: req.body.display_name,
-        display_name_ar: req.body.display_name_ar,
-        role_id: roleId,
-        section_id: sectionId,
-        status: req.body.status || "active",
-      };
+        // STEP 4: Update inventory item with validated data
+        const item = await storage.updateInventoryItem(id, validatedData);
 
-      console.log("Processed user data:", processedData);
-      const user = await storage.createUser(processedData);
-      console.log("Created user:", user);
-      res.json(user);
-    } catch (error) {
-      console.error("User creation error:", error);
-      res.status(500).json({
-        message: "خطأ في إنشاء المستخدم",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+        res.json({
+          data: item,
+          message: "تم تحديث صنف المخزون بنجاح",
+          success: true,
+        });
+      } catch (error: any) {
+        console.error("Inventory update error:", error);
 
-  app.put("/api/users/:id", async (req, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.id) {
-        return res.status(400).json({ message: "معرف المستخدم مطلوب" });
-      }
+        if (error.name === "DatabaseError") {
+          return res.status(400).json({
+            message: error.message,
+            success: false,
+          });
+        }
 
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res.status(400).json({ message: "معرف المستخدم غير صحيح" });
+        res.status(500).json({
+          message: "خطأ في تحديث صنف المخزون",
+          success: false,
+        });
       }
+    },
+  );
 
-      if (!req.body || typeof req.body !== "object") {
-        return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
+  app.delete(
+    "/api/inventory/:id",
+    requireAuth,
+    requirePermission("delete_inventory"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteInventoryItem(id);
+        res.json({ message: "تم حذف صنف المخزون بنجاح" });
+      } catch (error) {
+        res.status(500).json({ message: "خطأ في حذف صنف المخزون" });
       }
+    },
+  );
 
-      console.log("Updating user:", id, req.body);
+  // ============ Locations Management API ============
 
-      // Process role_id and section_id to convert empty strings and "none" to null with enhanced null safety
-      let roleId = null;
-      if (
-        req.body?.role_id &&
-        req.body.role_id !== "" &&
-        req.body.role_id !== "none"
-      ) {
-        // Extract numeric ID from ROLE{number} format (e.g., ROLE08 -> 8)
-        const roleMatch = req.body.role_id.match(/^ROLE(\d+)$/);
-        if (roleMatch) {
-          roleId = parseInt(roleMatch[1], 10);
-        }
+  app.get(
+    "/api/locations",
+    requireAuth,
+    requirePermission("view_definitions", "view_inventory", "view_warehouse"),
+    async (req, res) => {
+      try {
+        const locations = await storage.getLocations();
+        res.json(locations);
+      } catch (error) {
+        console.error("Error fetching locations:", error);
+        res.status(500).json({ message: "خطأ في جلب المواقع" });
       }
+    },
+  );
 
-      let sectionId = null;
-      if (
-        req.body?.section_id &&
-        req.body.section_id !== "" &&
-        req.body.section_id !== "none"
-      ) {
-        // Extract numeric ID from SEC{number} format (e.g., SEC02 -> 2)
-        const sectionMatch = req.body.section_id.match(/^SEC(\d+)$/);
-        if (sectionMatch) {
-          sectionId = parseInt(sectionMatch[1], 10);
+  app.post(
+    "/api/locations",
+    requireAuth,
+    requirePermission("create_definitions"),
+    async (req, res) => {
+      try {
+        const result = insertLocationSchema.safeParse(req.body);
+        if (!result.success) {
+          return res
+            .status(400)
+            .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
         }
-      }
-
-      const processedData = {
-        ...req.body,
-        role_id: roleId,
-        section_id: sectionId,
-      };
-
-      console.log("Processed role_id:", roleId, "from:", req.body.role_id);
-      console.log(
-        "Processed section_id:",
-        sectionId,
-        "from:",
-        req.body.section_id,
-      );
 
-      const user = await storage.updateUser(id, processedData);
-      if (!user) {
-        return res.status(404).json({ message: "المستخدم غير موجود" });
+        const location = await storage.createLocationExtended(result.data);
+        res.status(201).json(location);
+      } catch (error) {
+        console.error("Error creating location:", error);
+        res.status(500).json({ message: "خطأ في إنشاء الموقع" });
       }
-      res.json(user);
-    } catch (error) {
-      console.error("User update error:", error);
-      res.status(500).json({
-        message: "خطأ في تحديث المستخدم",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
-
-  // Roles management routes
-  app.get("/api/roles", requireAuth, requirePermission('manage_roles'), async (req: AuthRequest, res) => {
-    try {
-      const roles = await storage.getRoles();
-      res.json(roles);
-    } catch (error) {
-      console.error("Roles fetch error:", error);
-      res.status(500).json({ message: "خطأ في جلب الأدوار" });
-    }
-  });
+    },
+  );
 
-  app.post("/api/roles", requireAuth, requirePermission('manage_roles'), async (req: AuthRequest, res) => {
-    try {
-      console.log("Received role data:", req.body);
-      const role = await storage.createRole(req.body);
-      console.log("Created role:", role);
-      res.json(role);
-    } catch (error) {
-      console.error("Role creation error:", error);
-      res.status(500).json({
-        message: "خطأ في إنشاء الدور",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+  app.put(
+    "/api/locations/:id",
+    requireAuth,
+    requirePermission("update_definitions"),
+    async (req, res) => {
+      try {
+        const locationId = req.params.id;
+        const result = insertLocationSchema.safeParse(req.body);
+        if (!result.success) {
+          return res
+            .status(400)
+            .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
+        }
 
-  app.put("/api/roles/:id", requireAuth, requirePermission('manage_roles'), async (req: AuthRequest, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.id) {
-        return res.status(400).json({ message: "معرف الدور مطلوب" });
+        const location = await storage.updateLocationExtended(
+          locationId,
+          result.data,
+        );
+        res.json(location);
+      } catch (error) {
+        console.error("Error updating location:", error);
+        res.status(500).json({ message: "خطأ في تحديث الموقع" });
       }
+    },
+  );
 
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res.status(400).json({ message: "معرف الدور غير صحيح" });
-      }
+  // ============ Inventory Movements Management API ============
 
-      if (!req.body || typeof req.body !== "object") {
-        return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
+  app.get(
+    "/api/inventory-movements",
+    requireAuth,
+    requirePermission("view_inventory"),
+    async (req, res) => {
+      try {
+        const movements = await storage.getAllInventoryMovements();
+        res.json(movements);
+      } catch (error) {
+        console.error("Error fetching inventory movements:", error);
+        res.status(500).json({ message: "خطأ في جلب حركات المخزون" });
       }
+    },
+  );
 
-      console.log("Updating role:", id, req.body);
-      const role = await storage.updateRole(id, req.body);
-      if (!role) {
-        return res.status(404).json({ message: "الدور غير موجود" });
-      }
-      res.json(role);
-    } catch (error) {
-      console.error("Role update error:", error);
-      res.status(500).json({
-        message: "خطأ في تحديث الدور",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+  app.post(
+    "/api/inventory-movements",
+    requireAuth,
+    requirePermission("create_inventory"),
+    async (req, res) => {
+      try {
+        const result = insertInventoryMovementSchema.safeParse(req.body);
+        if (!result.success) {
+          return res
+            .status(400)
+            .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
+        }
 
-  app.delete("/api/roles/:id", requireAuth, requirePermission('manage_roles'), async (req: AuthRequest, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.id) {
-        return res.status(400).json({ message: "معرف الدور مطلوب" });
+        const movement = await storage.createInventoryMovement(result.data);
+        res.status(201).json(movement);
+      } catch (error) {
+        console.error("Error creating inventory movement:", error);
+        res.status(500).json({ message: "خطأ في إنشاء حركة المخزون" });
       }
+    },
+  );
 
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res.status(400).json({ message: "معرف الدور غير صحيح" });
+  app.delete(
+    "/api/inventory-movements/:id",
+    requireAuth,
+    requirePermission("delete_inventory"),
+    async (req, res) => {
+      try {
+        const movementId = parseInt(req.params.id);
+        await storage.deleteInventoryMovement(movementId);
+        res.json({ message: "تم حذف الحركة بنجاح" });
+      } catch (error) {
+        console.error("Error deleting inventory movement:", error);
+        res.status(500).json({ message: "خطأ في حذف الحركة" });
       }
+    },
+  );
 
-      await storage.deleteRole(id);
-      // If no error thrown, deletion was successful
-      res.json({ message: "تم حذف الدور بنجاح" });
-    } catch (error) {
-      console.error("Role deletion error:", error);
-      res.status(500).json({
-        message: "خطأ في حذف الدور",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
-
-  // Sections routes
-  app.post("/api/sections", async (req, res) => {
-    try {
-      console.log("Received section data:", req.body);
-
-      // Generate sequential ID if not provided with enhanced null safety
-      let sectionId = req.body?.id;
-      if (!sectionId) {
-        // Get the latest section to determine the next sequential number
-        const existingSections = (await storage.getSections()) || [];
-        const sectionNumbers = existingSections
-          .map((section) => section?.id)
-          .filter((id) => id && typeof id === "string" && id.startsWith("SEC"))
-          .map((id) => {
-            const num = id.replace("SEC", "");
-            const parsed = parseInt(num);
-            return isNaN(parsed) ? 0 : parsed;
-          })
-          .filter((num) => num > 0)
-          .sort((a, b) => b - a);
+  // ============ Orders Management API ============
 
-        const nextNumber =
-          sectionNumbers.length > 0 ? sectionNumbers[0] + 1 : 1;
-        sectionId = `SEC${nextNumber.toString().padStart(2, "0")}`;
+  app.get(
+    "/api/orders",
+    requireAuth,
+    requirePermission("view_orders"),
+    async (req, res) => {
+      try {
+        const orders = await storage.getAllOrders(undefined, getDataScope(req));
+        res.json(orders);
+      } catch (error) {
+        console.error("Error fetching orders:", error);
+        res.status(500).json({ message: "خطأ في جلب الطلبات" });
       }
+    },
+  );
 
-      const processedData = {
-        ...req.body,
-        id: sectionId,
-      };
+  app.post(
+    "/api/orders",
+    requireAuth,
+    requirePermission("create_orders"),
+    async (req, res) => {
+      try {
+        console.log("Received order data:", req.body);
+        const order = await storage.createOrder(req.body);
+        res.status(201).json(order);
+      } catch (error) {
+        console.error("Error creating order:", error);
+        res.status(500).json({ message: "خطأ في إنشاء الطلب" });
+      }
+    },
+  );
 
-      console.log("Processed section data:", processedData);
-      const section = await storage.createSection(processedData);
-      console.log("Created section:", section);
-      res.json(section);
-    } catch (error) {
-      console.error("Section creation error:", error);
-      res.status(500).json({
-        message: "خطأ في إنشاء القسم",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+  app.put(
+    "/api/orders/:id",
+    requireAuth,
+    requirePermission("update_orders"),
+    async (req, res) => {
+      try {
+        const orderId = parseInt(req.params.id);
+        if (!(await storage.isOrderInScope(orderId, getDataScope(req)))) {
+          return res.status(404).json({ message: "الطلب غير موجود" });
+        }
+        const result = insertNewOrderSchema.safeParse(req.body);
+        if (!result.success) {
+          return res
+            .status(400)
+            .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
+        }
 
-  app.put("/api/sections/:id", async (req, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.id?.trim()) {
-        return res.status(400).json({ message: "معرف القسم مطلوب" });
+        // Convert Date objects to strings for database compatibility
+        const updateData = {
+          ...result.data,
+          delivery_date: result.data.delivery_date
+            ? result.data.delivery_date.toISOString().split("T")[0]
+            : result.data.delivery_date,
+        };
+        const order = await storage.updateOrder(orderId, updateData);
+        res.json(order);
+      } catch (error) {
+        console.error("Error updating order:", error);
+        res.status(500).json({ message: "خطأ في تحديث الطلب" });
       }
+    },
+  );
 
-      if (!req.body || typeof req.body !== "object") {
-        return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
-      }
+  app.patch(
+    "/api/orders/:id/status",
+    requireAuth,
+    requirePermission("approve_orders"),
+    async (req, res) => {
+      try {
+        const orderId = parseInt(req.params.id);
+        const { status } = req.body;
 
-      const id = req.params.id.trim();
-      const section = await storage.updateSection(id, req.body);
-      if (!section) {
-        return res.status(404).json({ message: "القسم غير موجود" });
-      }
-      res.json(section);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث القسم" });
-    }
-  });
+        if (!status) {
+          return res
+            .status(400)
+            .json({ message: "الحالة مطلوبة", success: false });
+        }
 
-  // Material Groups routes
+        // Enhanced status validation with state transition rules (INVARIANT D)
+        const validStatuses = [
+          "waiting",
+          "in_production",
+          "paused",
+          "completed",
+          "cancelled",
+          "pending",
+          "for_production",
+          "on_hold",
+          "in_progress",
+          "delivered",
+        ];
+        if (!validStatuses.includes(status)) {
+          return res
+            .status(400)
+            .json({ message: "حالة غير صحيحة", success: false });
+        }
 
-  // Items routes
-  app.post("/api/items", async (req, res) => {
-    try {
-      console.log("Received item data:", req.body);
-
-      // Generate sequential ID if not provided with enhanced null safety
-      let itemId = req.body?.id;
-      if (!itemId) {
-        // Get the latest item to determine the next sequential number
-        const existingItems = (await storage.getItems()) || [];
-        const itemNumbers = existingItems
-          .map((item) => item?.id)
-          .filter((id) => id && typeof id === "string" && id.startsWith("ITEM"))
-          .map((id) => {
-            const num = id.replace("ITEM", "");
-            const parsed = parseInt(num);
-            return isNaN(parsed) ? 0 : parsed;
-          })
-          .filter((num) => num > 0)
-          .sort((a, b) => b - a);
-
-        const nextNumber = itemNumbers.length > 0 ? itemNumbers[0] + 1 : 1;
-        itemId = `ITEM${nextNumber.toString().padStart(3, "0")}`;
-      }
-
-      // Convert empty strings to null for optional fields with enhanced null safety
-      const processedData = {
-        ...req.body,
-        id: itemId,
-        category_id:
-          !req.body?.category_id ||
-          req.body.category_id === "" ||
-          req.body.category_id === "none"
-            ? null
-            : req.body.category_id,
-        code: !req.body?.code || req.body.code === "" ? null : req.body.code,
-      };
+        // STEP 1: Get current order status for state transition validation
+        const currentOrder = await storage.getOrderById(orderId);
+        if (
+          !currentOrder ||
+          !(await storage.isOrderInScope(orderId, getDataScope(req)))
+        ) {
+          return res
+            .status(404)
+            .json({ message: "الطلب غير موجود", success: false });
+        }
 
-      console.log("Processed item data:", processedData);
-      const item = await storage.createItem(processedData);
-      console.log("Created item:", item);
-      res.json(item);
-    } catch (error) {
-      console.error("Item creation error:", error);
-      console.error(
-        "Error stack:",
-        error instanceof Error ? error.stack : "No stack trace",
-      );
-      res.status(500).json({
-        message: "خطأ في إنشاء الصنف",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+        // STEP 2: INVARIANT D - State transition validation with business rules
+        const currentStatus = currentOrder.status;
+        const newStatus = status;
 
-  app.put("/api/items/:id", async (req, res) => {
-    try {
-      // Enhanced parameter validation
-      if (!req.params?.id?.trim()) {
-        return res.status(400).json({ message: "معرف الصنف مطلوب" });
-      }
+        // Define valid state transitions based on business logic
+        const validTransitions: Record<string, string[]> = {
+          pending: ["waiting", "for_production", "cancelled"],
+          waiting: ["in_production", "for_production", "on_hold", "cancelled"],
+          for_production: ["in_production", "waiting", "on_hold", "cancelled"],
+          in_production: ["paused", "completed", "on_hold", "in_progress"],
+          in_progress: ["paused", "completed", "on_hold"],
+          paused: ["in_production", "in_progress", "cancelled"],
+          on_hold: ["waiting", "for_production", "cancelled"],
+          completed: ["delivered"], // Only allow delivery from completed
+          delivered: [], // Terminal state - no further transitions
+          cancelled: [], // Terminal state - no further transitions
+        };
+
+        // Check if transition is allowed
+        const allowedNextStates = validTransitions[currentStatus] || [];
+        if (
+          currentStatus !== newStatus &&
+          !allowedNextStates.includes(newStatus)
+        ) {
+          return res.status(400).json({
+            message: `لا يمكن تغيير حالة الطلب من "${currentStatus}" إلى "${newStatus}". التحولات المسموحة: ${allowedNextStates.join(", ")}`,
+            success: false,
+            currentStatus,
+            requestedStatus: newStatus,
+            allowedTransitions: allowedNextStates,
+          });
+        }
 
-      if (!req.body || typeof req.body !== "object") {
-        return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
-      }
+        // STEP 3: Additional business rule validations
+        if (newStatus === "completed") {
+          // Check if all production orders are completed before marking order as completed
+          const allProductionOrders = await storage.getAllProductionOrders();
+          const productionOrders = allProductionOrders.filter(
+            (po: any) => po.order_id === orderId,
+          );
+          const incompleteProdOrders = productionOrders.filter(
+            (po: any) => po.status !== "completed",
+          );
 
-      const id = req.params.id.trim();
-      console.log("Updating item:", id, req.body);
+          if (incompleteProdOrders.length > 0) {
+            return res.status(400).json({
+              message: `لا يمكن إتمام الطلب - يوجد ${incompleteProdOrders.length} أوامر إنتاج غير مكتملة`,
+              success: false,
+              incompleteProdOrders: incompleteProdOrders.length,
+            });
+          }
+        }
 
-      // Convert empty strings to null for optional fields with enhanced null safety
-      const processedData = {
-        ...req.body,
-        category_id:
-          !req.body?.category_id ||
-          req.body.category_id === "" ||
-          req.body.category_id === "none"
-            ? null
-            : req.body.category_id,
-        code: !req.body?.code || req.body.code === "" ? null : req.body.code,
-      };
+        if (newStatus === "cancelled") {
+          // Check if there are production orders in progress
+          const allProductionOrders = await storage.getAllProductionOrders();
+          const productionOrders = allProductionOrders.filter(
+            (po: any) => po.order_id === orderId,
+          );
+          const activeProdOrders = productionOrders.filter((po: any) =>
+            ["in_progress", "in_production"].includes(po.status),
+          );
 
-      console.log("Processed item update data:", processedData);
-      const item = await storage.updateItem(id, processedData);
-      if (!item) {
-        return res.status(404).json({ message: "الصنف غير موجود" });
-      }
-      res.json(item);
-    } catch (error) {
-      console.error("Item update error:", error);
-      res.status(500).json({
-        message: "خطأ في تحديث الصنف",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
+          if (activeProdOrders.length > 0) {
+            return res.status(400).json({
+              message: `لا يمكن إلغاء الطلب - يوجد ${activeProdOrders.length} أوامر إنتاج نشطة`,
+              success: false,
+              activeProdOrders: activeProdOrders.length,
+            });
+          }
+        }
 
-  // Customer Products routes
-  app.post("/api/customer-products", async (req, res) => {
-    try {
-      // Convert material_group_id to category_id for backwards compatibility
-      const processedData = {
-        ...req.body,
-        category_id: req.body.material_group_id || req.body.category_id,
-      };
-      delete processedData.material_group_id;
+        // STEP 4: Perform atomic status update with validation
+        const order = await storage.updateOrderStatus(orderId, newStatus);
 
-      const customerProduct =
-        await storage.createCustomerProduct(processedData);
-      res.json(customerProduct);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء منتج العميل" });
-    }
-  });
+        res.json({
+          data: order,
+          message: `تم تغيير حالة الطلب إلى "${newStatus}" بنجاح`,
+          success: true,
+          previousStatus: currentStatus,
+          currentStatus: newStatus,
+        });
+      } catch (error: any) {
+        console.error("Error updating order status:", error);
 
-  app.put("/api/customer-products/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
+        if (error.name === "DatabaseError") {
+          return res.status(400).json({
+            message: error.message,
+            success: false,
+          });
+        }
 
-      // Validate the ID parameter
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "معرف المنتج غير صحيح" });
+        res.status(500).json({
+          message: "خطأ في تحديث حالة الطلب",
+          success: false,
+        });
       }
+    },
+  );
 
-      // Validate request body using Zod schema
-      const validation = insertCustomerProductSchema.safeParse({
-        ...req.body,
-        category_id: req.body.material_group_id || req.body.category_id,
-      });
+  // ============ Settings API ============
 
-      if (!validation.success) {
-        console.error(
-          "Customer product validation error:",
-          validation.error.errors,
-        );
-        return res.status(400).json({
-          message: "بيانات غير صحيحة",
-          errors: validation.error.errors.map((err) => ({
-            field: err.path.join("."),
-            message: err.message,
-          })),
-        });
+  // System Settings
+  app.get(
+    "/api/settings/system",
+    requireAuth,
+    requirePermission("view_settings"),
+    async (req: AuthRequest, res) => {
+      try {
+        const settings = await storage.getSystemSettings();
+        res.json(settings);
+      } catch (error) {
+        console.error("Error fetching system settings:", error);
+        res.status(500).json({ message: "خطأ في جلب إعدادات النظام" });
       }
+    },
+  );
 
-      // Remove material_group_id for backwards compatibility
-      const processedData = { ...validation.data };
-      delete (processedData as any).material_group_id;
+  app.post(
+    "/api/settings/system",
+    requireAuth,
+    requirePermission("update_settings"),
+    async (req: AuthRequest, res) => {
+      try {
+        const { settings } = req.body;
+        const userId = req.user?.id;
+        if (!userId) {
+          return res.status(401).json({ message: "المستخدم غير مصرح له" });
+        }
+        
+        const results = [];
 
-      const customerProduct = await storage.updateCustomerProduct(
-        id,
-        processedData,
-      );
+        for (const [key, value] of Object.entries(settings)) {
+          try {
+            const existingSetting = await storage.getSystemSettingByKey(key);
+            if (existingSetting) {
+              const updated = await storage.updateSystemSetting(
+                key,
+                String(value),
+                userId,
+              );
+              results.push(updated);
+            } else {
+              const created = await storage.createSystemSetting({
+                setting_key: key,
+                setting_value: String(value),
+                updated_by: String(userId),
+              });
+              results.push(created);
+            }
+          } catch (error) {
+            console.error(`Error saving setting ${key}:`, error);
+          }
+        }
 
-      if (!customerProduct) {
-        return res.status(404).json({ message: "منتج العميل غير موجود" });
+        res.json({ message: "تم حفظ إعدادات النظام بنجاح", settings: results });
+      } catch (error) {
+        console.error("Error saving system settings:", error);
+        res.status(500).json({ message: "خطأ في حفظ إعدادات النظام" });
       }
+    },
+  );
 
-      res.json(customerProduct);
+  // User Settings
+  app.get("/api/settings/user/:userId", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const settings = await storage.getUserSettings(userId);
+      res.json(settings);
     } catch (error) {
-      console.error("Customer product update error:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({
-        message: "خطأ في تحديث منتج العميل",
-        error: errorMessage,
-      });
+      console.error("Error fetching user settings:", error);
+      res.status(500).json({ message: "خطأ في جلب إعدادات المستخدم" });
     }
   });
 
-  // Locations routes
-  app.post("/api/locations", async (req, res) => {
+  app.post("/api/settings/user/:userId", async (req, res) => {
     try {
-      console.log("Received location data:", req.body);
-
-      // Generate sequential ID if not provided
-      let locationId = req.body.id;
-      if (!locationId) {
-        // Get the latest location to determine the next sequential number
-        const existingLocations = await storage.getLocations();
-        const locationNumbers = existingLocations
-          .map((location) => location.id)
-          .filter((id) => id.startsWith("LOC"))
-          .map((id) => parseInt(id.replace("LOC", "")))
-          .filter((num) => !isNaN(num))
-          .sort((a, b) => b - a);
+      const userId = parseInt(req.params.userId);
+      const { settings } = req.body;
+      const results = [];
 
-        const nextNumber =
-          locationNumbers.length > 0 ? locationNumbers[0] + 1 : 1;
-        locationId = `LOC${nextNumber.toString().padStart(2, "0")}`;
+      for (const [key, value] of Object.entries(settings)) {
+        try {
+          const updated = await storage.updateUserSetting(
+            userId,
+            key,
+            String(value),
+          );
+          results.push(updated);
+        } catch (error) {
+          console.error(`Error saving user setting ${key}:`, error);
+        }
       }
 
-      const processedData = {
-        ...req.body,
-        id: locationId,
-      };
-
-      console.log("Processed location data:", processedData);
-      const location = await storage.createLocation(processedData);
-      console.log("Created location:", location);
-      res.json(location);
+      res.json({ message: "تم حفظ إعداداتك الشخصية بنجاح", settings: results });
     } catch (error) {
-      console.error("Location creation error:", error);
-      res.status(500).json({
-        message: "خطأ في إنشاء الموقع",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
+      console.error("Error saving user settings:", error);
+      res.status(500).json({ message: "خطأ في حفظ إعدادات المستخدم" });
     }
   });
 
-  app.put("/api/locations/:id", async (req, res) => {
+  // Database Management routes
+  app.get("/api/database/stats", requireAdmin, async (req, res) => {
     try {
-      const id = req.params.id; // Now using string ID
-      console.log("Updating location:", id, req.body);
-      const location = await storage.updateLocation(id, req.body);
-      res.json(location);
+      const stats = await storage.getDatabaseStats();
+      res.json(stats);
     } catch (error) {
-      console.error("Location update error:", error);
-      res.status(500).json({
-        message: "خطأ في تحديث الموقع",
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
+      console.error("Error fetching database stats:", error);
+      res.status(500).json({ message: "خطأ في جلب إحصائيات قاعدة البيانات" });
     }
   });
 
-  // ============ HR System API Routes ============
-
-  // Training Programs
-  app.get("/api/hr/training-programs", async (req, res) => {
+  app.post("/api/database/backup", requireAdmin, async (req, res) => {
     try {
-      const programs = await storage.getTrainingPrograms();
-      res.json(programs);
+      const backup = await getBackupScheduler(storage).runBackup(
+        "manual",
+        (req as AuthRequest).user?.id,
+      );
+      res.json({ message: "تم إنشاء النسخة الاحتياطية بنجاح", backup });
     } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب البرامج التدريبية" });
+      console.error("Error creating database backup:", error);
+      res.status(500).json({ message: "خطأ في إنشاء النسخة الاحتياطية" });
     }
   });
 
-  app.post("/api/hr/training-programs", async (req, res) => {
+  app.get("/api/database/backups", requireAdmin, async (req, res) => {
     try {
-      const program = await storage.createTrainingProgram(req.body);
-      res.json(program);
+      const history = await storage.getBackupHistory({
+        trigger: req.query.trigger as string | undefined,
+        status: req.query.status as string | undefined,
+        limit: parseInt(req.query.limit as string) || 100,
+      });
+      res.json(history);
     } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء البرنامج التدريبي" });
+      console.error("Error fetching backup history:", error);
+      res.status(500).json({ message: "خطأ في جلب سجل النسخ الاحتياطية" });
     }
   });
 
-  app.put("/api/hr/training-programs/:id", async (req, res) => {
+  app.get("/api/database/backup-schedule", requireAdmin, async (req, res) => {
     try {
-      // Enhanced parameter validation
-      if (!req.params?.id) {
-        return res
-          .status(400)
-          .json({ message: "معرف البرنامج التدريبي مطلوب" });
-      }
-
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res
-          .status(400)
-          .json({ message: "معرف البرنامج التدريبي غير صحيح" });
-      }
-
-      if (!req.body || typeof req.body !== "object") {
-        return res.status(400).json({ message: "بيانات التحديث مطلوبة" });
-      }
-
-      const program = await storage.updateTrainingProgram(id, req.body);
-      if (!program) {
-        return res.status(404).json({ message: "البرنامج التدريبي غير موجود" });
-      }
-      res.json(program);
+      const schedule = await getBackupScheduler(storage).getSchedule();
+      res.json(schedule);
     } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث البرنامج التدريبي" });
+      console.error("Error fetching backup schedule:", error);
+      res.status(500).json({ message: "خطأ في جلب جدولة النسخ الاحتياطي" });
     }
   });
 
-  app.get("/api/hr/training-programs/:id", async (req, res) => {
+  app.put("/api/database/backup-schedule", requireAdmin, async (req, res) => {
     try {
-      // Enhanced parameter validation
-      if (!req.params?.id) {
-        return res
-          .status(400)
-          .json({ message: "معرف البرنامج التدريبي مطلوب" });
-      }
-
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res
-          .status(400)
-          .json({ message: "معرف البرنامج التدريبي غير صحيح" });
-      }
-
-      const program = await storage.getTrainingProgramById(id);
-      if (!program) {
-        return res.status(404).json({ message: "البرنامج التدريبي غير موجود" });
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "المستخدم غير مصرح له" });
       }
-      res.json(program);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب البرنامج التدريبي" });
-    }
-  });
 
-  // Training Materials
-  app.get("/api/hr/training-materials", async (req, res) => {
-    try {
-      // Enhanced query parameter validation
-      let programId: number | undefined;
-      if (req.query?.program_id) {
-        const programIdParam = parseInt(req.query.program_id as string);
-        programId =
-          !isNaN(programIdParam) && programIdParam > 0
-            ? programIdParam
-            : undefined;
-      }
+      const schedule = backupScheduleSchema.parse(req.body);
+      const values: Record<string, string> = {
+        [BACKUP_SETTING_KEYS.time]: schedule.time,
+        [BACKUP_SETTING_KEYS.dailyEnabled]: String(schedule.daily.enabled),
+        [BACKUP_SETTING_KEYS.dailyRetention]: String(schedule.daily.retention),
+        [BACKUP_SETTING_KEYS.weeklyEnabled]: String(schedule.weekly.enabled),
+        [BACKUP_SETTING_KEYS.weeklyRetention]: String(schedule.weekly.retention),
+        [BACKUP_SETTING_KEYS.weeklyDay]: String(schedule.weekly.day),
+        [BACKUP_SETTING_KEYS.monthlyEnabled]: String(schedule.monthly.enabled),
+        [BACKUP_SETTING_KEYS.monthlyRetention]: String(
+          schedule.monthly.retention,
+        ),
+        [BACKUP_SETTING_KEYS.monthlyDay]: String(schedule.monthly.day),
+      };
 
-      const materials = await storage.getTrainingMaterials(programId);
-      if (!materials) {
-        return res.json([]); // Return empty array instead of null
+      for (const [key, value] of Object.entries(values)) {
+        const existingSetting = await storage.getSystemSettingByKey(key);
+        if (existingSetting) {
+          await storage.updateSystemSetting(key, value, userId);
+        } else {
+          await storage.createSystemSetting({
+            setting_key: key,
+            setting_value: value,
+            setting_type: key === BACKUP_SETTING_KEYS.time ? "string" : "number",
+            updated_by: String(userId),
+          });
+        }
       }
-      res.json(materials);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب المواد التدريبية" });
-    }
-  });
 
-  app.post("/api/hr/training-materials", async (req, res) => {
-    try {
-      const material = await storage.createTrainingMaterial(req.body);
-      res.json(material);
+      res.json({
+        message: "تم حفظ جدولة النسخ الاحتياطي",
+        schedule: await getBackupScheduler(storage).getSchedule(),
+      });
     } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء المادة التدريبية" });
-    }
-  });
-
-  // Training Enrollments
-  app.get("/api/hr/training-enrollments", async (req, res) => {
-    try {
-      // Enhanced query parameter validation
-      let employeeId: number | undefined;
-      if (req.query?.employee_id) {
-        const employeeIdParam = parseInt(req.query.employee_id as string);
-        employeeId =
-          !isNaN(employeeIdParam) && employeeIdParam > 0
-            ? employeeIdParam
-            : undefined;
-      }
-
-      const enrollments = await storage.getTrainingEnrollments(employeeId);
-      if (!enrollments) {
-        return res.json([]); // Return empty array instead of null
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "بيانات الجدولة غير صحيحة",
+          errors: error.errors,
+        });
       }
-      res.json(enrollments);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب التسجيلات التدريبية" });
-    }
-  });
-
-  app.post("/api/hr/training-enrollments", async (req, res) => {
-    try {
-      const enrollment = await storage.createTrainingEnrollment(req.body);
-      res.json(enrollment);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في تسجيل الموظف في البرنامج" });
-    }
-  });
-
-  app.put("/api/hr/training-enrollments/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const enrollment = await storage.updateTrainingEnrollment(id, req.body);
-      res.json(enrollment);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث التسجيل التدريبي" });
-    }
-  });
-
-  // Training Evaluations
-  app.get("/api/hr/training-evaluations", async (req, res) => {
-    try {
-      const employeeId = req.query.employee_id
-        ? parseInt(req.query.employee_id as string)
-        : undefined;
-      const programId = req.query.program_id
-        ? parseInt(req.query.program_id as string)
-        : undefined;
-      const evaluations = await storage.getTrainingEvaluations(
-        employeeId,
-        programId,
-      );
-      res.json(evaluations);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب التقييمات التدريبية" });
+      console.error("Error saving backup schedule:", error);
+      res.status(500).json({ message: "خطأ في حفظ جدولة النسخ الاحتياطي" });
     }
   });
 
-  app.post("/api/hr/training-evaluations", async (req, res) => {
-    try {
-      const evaluation = await storage.createTrainingEvaluation(req.body);
-      res.json(evaluation);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء التقييم التدريبي" });
-    }
-  });
+  app.get(
+    "/api/database/backup/download/:backupId",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const backupId = req.params.backupId;
+        const backupFile = await storage.getBackupFile(backupId);
 
-  app.put("/api/hr/training-evaluations/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const evaluation = await storage.updateTrainingEvaluation(id, req.body);
-      res.json(evaluation);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث التقييم التدريبي" });
-    }
-  });
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${backupId}.json"`,
+        );
+        res.send(backupFile);
+      } catch (error) {
+        console.error("Error downloading backup:", error);
+        if (error instanceof BackupError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في تحميل النسخة الاحتياطية" });
+      }
+    },
+  );
 
-  app.get("/api/hr/training-evaluations/:id", async (req, res) => {
+  app.post("/api/database/restore", requireAdmin, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const evaluation = await storage.getTrainingEvaluationById(id);
-      if (evaluation) {
-        res.json(evaluation);
-      } else {
-        res.status(404).json({ message: "التقييم التدريبي غير موجود" });
+      const { backupId, backupData, dryRun } = req.body;
+      if (!backupId && !backupData) {
+        return res
+          .status(400)
+          .json({ message: "يجب تحديد النسخة الاحتياطية أو رفع ملفها" });
       }
+
+      const result = await storage.restoreDatabaseBackup(
+        { backupId, backupData },
+        { dryRun: dryRun === true },
+      );
+      res.json({
+        message: result.status === "dry_run"
+          ? "تمت معاينة الاستعادة دون تعديل البيانات"
+          : "تم استعادة قاعدة البيانات بنجاح",
+        result,
+      });
     } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب التقييم التدريبي" });
+      console.error("Error restoring database:", error);
+      if (error instanceof BackupError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "خطأ في استعادة قاعدة البيانات" });
     }
   });
 
-  // Training Certificates
-  app.get("/api/hr/training-certificates", async (req, res) => {
+  app.get("/api/database/tables", requireAdmin, async (req, res) => {
     try {
-      const employeeId = req.query.employee_id
-        ? parseInt(req.query.employee_id as string)
-        : undefined;
-      const certificates = await storage.getTrainingCertificates(employeeId);
-      res.json(certificates);
+      res.json(getTableTransferService().listTables());
     } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب الشهادات التدريبية" });
+      console.error("Error listing schema tables:", error);
+      res.status(500).json({ message: "خطأ في جلب قائمة الجداول" });
     }
   });
 
-  app.post("/api/hr/training-certificates", async (req, res) => {
+  app.get("/api/database/export/:tableName", requireAdmin, async (req, res) => {
     try {
-      const certificate = await storage.createTrainingCertificate(req.body);
-      res.json(certificate);
+      const tableName = req.params.tableName;
+      const format = (req.query.format as string) || "csv";
+
+      const file = await storage.exportTableData(tableName, format);
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${tableName}.${file.extension}"`,
+      );
+      res.send(file.content);
     } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء الشهادة التدريبية" });
+      console.error("Error exporting table data:", error);
+      if (error instanceof TableTransferError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "خطأ في تصدير بيانات الجدول" });
     }
   });
 
   app.post(
-    "/api/hr/training-certificates/generate/:enrollmentId",
+    "/api/database/import/:tableName/preview",
+    requireAdmin,
     async (req, res) => {
       try {
-        const enrollmentId = parseInt(req.params.enrollmentId);
-        const certificate =
-          await storage.generateTrainingCertificate(enrollmentId);
-        res.json(certificate);
+        const { data, format } = req.body;
+        const preview = getTableTransferService().previewImport(
+          req.params.tableName,
+          format,
+          data,
+        );
+        res.json(preview);
       } catch (error) {
-        res.status(500).json({ message: "خطأ في إصدار الشهادة التدريبية" });
+        console.error("Error previewing import file:", error);
+        if (error instanceof TableTransferError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في قراءة ملف الاستيراد" });
       }
     },
   );
 
-  app.put("/api/hr/training-certificates/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const certificate = await storage.updateTrainingCertificate(id, req.body);
-      res.json(certificate);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث الشهادة التدريبية" });
-    }
-  });
+  app.post(
+    "/api/database/import/:tableName",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const tableName = req.params.tableName;
+        const { data, format, mapping, mode, preserve_ids } = req.body;
 
-  // Training Evaluations
-  app.get("/api/hr/training-evaluations", async (req, res) => {
-    try {
-      const employeeId = req.query.employee_id
-        ? parseInt(req.query.employee_id as string)
-        : undefined;
-      const programId = req.query.program_id
-        ? parseInt(req.query.program_id as string)
-        : undefined;
-      const evaluations = await storage.getTrainingEvaluations(
-        employeeId,
-        programId,
-      );
-      res.json(evaluations);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب تقييمات التدريب" });
-    }
-  });
+        if (mode && mode !== "all_or_nothing" && mode !== "skip_invalid") {
+          return res.status(400).json({ message: "وضع الاستيراد غير صحيح" });
+        }
 
-  app.post("/api/hr/training-evaluations", async (req, res) => {
-    try {
-      const evaluation = await storage.createTrainingEvaluation(req.body);
-      res.json(evaluation);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء تقييم التدريب" });
-    }
-  });
+        const report = await storage.importTableData(tableName, data, format, {
+          mapping,
+          mode,
+          preserveIds: preserve_ids === true,
+        });
+        res.json({
+          message: report.committed
+            ? `تم استيراد ${report.inserted} من أصل ${report.totalRows} سجل`
+            : "لم يتم استيراد أي سجل - يرجى مراجعة تقرير الأخطاء",
+          report,
+        });
+      } catch (error) {
+        console.error("Error importing table data:", error);
+        if (error instanceof TableTransferError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في استيراد البيانات" });
+      }
+    },
+  );
 
-  app.put("/api/hr/training-evaluations/:id", async (req, res) => {
+  app.post("/api/database/optimize", requireAdmin, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const evaluation = await storage.updateTrainingEvaluation(id, req.body);
-      res.json(evaluation);
+      const result = await storage.optimizeTables();
+      res.json({ message: "تم تحسين الجداول بنجاح", result });
     } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث تقييم التدريب" });
+      console.error("Error optimizing tables:", error);
+      res.status(500).json({ message: "خطأ في تحسين الجداول" });
     }
   });
 
-  // Training Certificates
-  app.get("/api/hr/training-certificates", async (req, res) => {
+  app.post("/api/database/integrity-check", requireAdmin, async (req, res) => {
     try {
-      const employeeId = req.query.employee_id
-        ? parseInt(req.query.employee_id as string)
-        : undefined;
-      const certificates = await storage.getTrainingCertificates(employeeId);
-      res.json(certificates);
+      const result = await storage.checkDatabaseIntegrity();
+      res.json({ message: "تم فحص تكامل قاعدة البيانات", result });
     } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب شهادات التدريب" });
+      console.error("Error checking database integrity:", error);
+      res.status(500).json({ message: "خطأ في فحص تكامل قاعدة البيانات" });
     }
   });
 
-  app.post("/api/hr/training-certificates", async (req, res) => {
+  app.post("/api/database/cleanup", requireAdmin, async (req, res) => {
     try {
-      const certificate = await storage.createTrainingCertificate(req.body);
-      res.json(certificate);
+      const { daysOld } = req.body;
+      const result = await storage.cleanupOldData(daysOld || 90);
+      res.json({
+        message: "تم تنظيف البيانات القديمة بنجاح",
+        deletedRecords: result.count,
+      });
     } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء شهادة التدريب" });
+      console.error("Error cleaning up old data:", error);
+      res.status(500).json({ message: "خطأ في تنظيف البيانات القديمة" });
     }
   });
 
-  app.get("/api/hr/training-certificates/:id/generate", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const certificate = await storage.generateTrainingCertificate(id);
-      res.json(certificate);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في توليد شهادة التدريب" });
-    }
-  });
+  // ============ HR Attendance Management API ============
 
-  // Performance Reviews
-  app.get("/api/hr/performance-reviews", async (req, res) => {
-    try {
-      const employeeId = req.query.employee_id
-        ? (req.query.employee_id as string)
-        : undefined;
-      const reviews = await storage.getPerformanceReviews(employeeId);
-      res.json(reviews);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب تقييمات الأداء" });
-    }
-  });
+  app.get(
+    "/api/attendance",
+    requireAuth,
+    requirePermission("view_hr", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        const attendance = await storage.getAttendance(getDataScope(req));
+        res.json(attendance);
+      } catch (error) {
+        console.error("Error fetching attendance:", error);
+        res.status(500).json({ message: "خطأ في جلب بيانات الحضور" });
+      }
+    },
+  );
 
-  app.post("/api/hr/performance-reviews", async (req, res) => {
-    try {
-      const review = await storage.createPerformanceReview(req.body);
-      res.json(review);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء تقييم الأداء" });
-    }
-  });
+  // Get daily attendance status for a user
+  app.get(
+    "/api/attendance/daily-status/:userId",
+    requireAuth,
+    requirePermission("view_hr", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        const userId = parseInt(req.params.userId);
 
-  app.put("/api/hr/performance-reviews/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const review = await storage.updatePerformanceReview(id, req.body);
-      res.json(review);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث تقييم الأداء" });
-    }
-  });
+        if (!(await storage.isUserInScope(userId, getDataScope(req)))) {
+          return res
+            .status(403)
+            .json({ message: "لا يمكنك الاطلاع على حضور هذا الموظف" });
+        }
 
-  // Performance Criteria
-  app.get("/api/hr/performance-criteria", async (req, res) => {
-    try {
-      const criteria = await storage.getPerformanceCriteria();
-      res.json(criteria);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب معايير التقييم" });
-    }
-  });
+        // بدون تاريخ محدد: يوم الحضور الحالي (قد يكون أمس لوردية ليلية مفتوحة)
+        const date =
+          (req.query.date as string) ||
+          (await getShiftRules(storage).resolveAttendanceDate(
+            userId,
+            localDate(),
+          ));
+
+        const status = await storage.getDailyAttendanceStatus(userId, date);
+        res.json(status);
+      } catch (error) {
+        console.error("Error fetching daily attendance status:", error);
+        res.status(500).json({ message: "خطأ في جلب حالة الحضور اليومية" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/attendance",
+    requireAuth,
+    requirePermission("create_hr", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        const requestedDate = req.body.date || localDate();
+        const isCheckIn = req.body.status === "حاضر" && !req.body.action;
+        // انصراف الوردية الليلية بعد منتصف الليل يُسجل على يوم بدايتها
+        const date = isCheckIn
+          ? requestedDate
+          : await getShiftRules(storage).resolveAttendanceDate(
+              Number(req.body.user_id),
+              requestedDate,
+            );
+        const userId = Number(req.body.user_id);
+        await getPayroll(storage).assertAttendanceEditable(date);
+
+        // النطاق الجغرافي يُطبق على تسجيل الموظف لحضوره / انصرافه بنفسه فقط
+        // (التسجيل اليدوي من الموارد البشرية لا يحمل موقع الموظف)
+        const position = attendancePositionSchema.safeParse(req.body.position);
+        const isCheckOut = req.body.status === "مغادر";
+        const geofence =
+          userId === req.user!.id && (isCheckIn || isCheckOut)
+            ? await getAttendanceGeofence(storage).evaluate(
+                userId,
+                position.success ? position.data : null,
+              )
+            : null;
+        if (geofence?.rejected) {
+          return res
+            .status(400)
+            .json({ message: geofence.message, code: "OUTSIDE_GEOFENCE" });
+        }
+
+        const attendance = await storage.createAttendance({
+          ...req.body,
+          date,
+          latitude: position.success ? String(position.data.latitude) : null,
+          longitude: position.success ? String(position.data.longitude) : null,
+          location_accuracy_m:
+            position.success && position.data.accuracy !== undefined
+              ? Math.round(position.data.accuracy)
+              : null,
+          location_id: geofence?.location_id ?? null,
+          location_distance_m: geofence?.location_distance_m ?? null,
+          location_status: geofence?.location_status ?? null,
+          location_review_status: geofence?.location_review_status ?? null,
+        });
+
+        // Send attendance notification
+        try {
+          const user = await storage.getUserById(req.body.user_id);
+          if (user && user.phone) {
+            let messageTemplate = "";
+            let priority = "normal";
+
+            switch (req.body.status) {
+              case "حاضر":
+                messageTemplate = `مرحباً ${user.display_name_ar || user.username}، تم تسجيل حضورك اليوم بنجاح في ${new Date().toLocaleTimeString("ar")}. نتمنى لك يوم عمل مثمر!`;
+                priority = "normal";
+                break;
+              case "في الاستراحة":
+                messageTemplate = `${user.display_name_ar || user.username}، تم تسجيل بدء استراحة الغداء في ${new Date().toLocaleTimeString("ar")}. استمتع بوقت راحتك!`;
+                priority = "low";
+                break;
+              case "يعمل":
+                messageTemplate = `${user.display_name_ar || user.username}، تم تسجيل انتهاء استراحة الغداء في ${new Date().toLocaleTimeString("ar")}. مرحباً بعودتك للعمل!`;
+                priority = "normal";
+                break;
+              case "مغادر":
+                messageTemplate = `${user.display_name_ar || user.username}، تم تسجيل انصرافك في ${new Date().toLocaleTimeString("ar")}. شكراً لجهودك اليوم، نراك غداً!`;
+                priority = "normal";
+                break;
+            }
+
+            if (messageTemplate) {
+              await notificationService.sendWhatsAppMessage(
+                user.phone,
+                messageTemplate,
+                {
+                  title: "تنبيه الحضور",
+                  priority,
+                  context_type: "attendance",
+                  context_id: attendance.id?.toString(),
+                },
+              );
+            }
+          }
+        } catch (notificationError) {
+          console.error(
+            "Failed to send attendance notification:",
+            notificationError,
+          );
+          // Don't fail the main request if notification fails
+        }
+
+        res.status(201).json(attendance);
+      } catch (error) {
+        if (error instanceof PayrollError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error creating attendance:", error);
+
+        // Return the specific error message for validation errors
+        if (error instanceof Error && error.message.includes("تم تسجيل")) {
+          return res.status(400).json({ message: error.message });
+        }
+
+        if (error instanceof Error && error.message.includes("يجب")) {
+          return res.status(400).json({ message: error.message });
+        }
+
+        res.status(500).json({ message: "خطأ في إنشاء سجل الحضور" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/attendance/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const existing = await storage.getAttendanceById(id);
+        // Out-of-scope records are reported as missing
+        if (
+          !existing ||
+          !(await storage.isUserInScope(existing.user_id, getDataScope(req)))
+        ) {
+          return res.status(404).json({ message: "سجل الحضور غير موجود" });
+        }
+        await getPayroll(storage).assertAttendanceEditable(existing.date);
+
+        const attendance = await storage.updateAttendance(id, req.body);
+        res.json(attendance);
+      } catch (error) {
+        if (error instanceof PayrollError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error updating attendance:", error);
+        res.status(500).json({ message: "خطأ في تحديث سجل الحضور" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/attendance/:id",
+    requireAuth,
+    requirePermission("delete_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const existing = await storage.getAttendanceById(id);
+        // Out-of-scope records are reported as missing
+        if (
+          !existing ||
+          !(await storage.isUserInScope(existing.user_id, getDataScope(req)))
+        ) {
+          return res.status(404).json({ message: "سجل الحضور غير موجود" });
+        }
+        await getPayroll(storage).assertAttendanceEditable(existing.date);
+
+        await storage.deleteAttendance(id);
+        res.json({ message: "تم حذف سجل الحضور بنجاح" });
+      } catch (error) {
+        if (error instanceof PayrollError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error deleting attendance:", error);
+        res.status(500).json({ message: "خطأ في حذف سجل الحضور" });
+      }
+    },
+  );
+
+  // قرار المشرف على تسجيل حضور / انصراف خارج نطاق الموقع
+  app.patch(
+    "/api/attendance/:id/location-review",
+    requireAuth,
+    requirePermission("approve_hr"),
+    async (req, res) => {
+      try {
+        const { decision } = z
+          .object({
+            decision: z.enum(["approved", "rejected"], {
+              errorMap: () => ({ message: "القرار يجب أن يكون موافقة أو رفض" }),
+            }),
+          })
+          .parse(req.body);
+        const attendance = await storage.reviewAttendanceLocation(
+          parseInt(req.params.id),
+          decision,
+          req.user!.id,
+          getDataScope(req),
+        );
+        if (!attendance) {
+          return res
+            .status(404)
+            .json({ message: "السجل غير موجود أو لا ينتظر المراجعة" });
+        }
+        res.json(attendance);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error reviewing attendance location:", error);
+        res.status(500).json({ message: "خطأ في مراجعة موقع التسجيل" });
+      }
+    },
+  );
+
+  // ============ Shift Templates, Rosters & Timesheets API ============
+
+  app.get(
+    "/api/hr/shift-templates",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const templates = await storage.getShiftTemplates({
+          activeOnly: req.query.active === "true",
+        });
+        res.json(templates);
+      } catch (error) {
+        console.error("Error fetching shift templates:", error);
+        res.status(500).json({ message: "خطأ في جلب قوالب الورديات" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/hr/shift-templates",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const data = insertShiftTemplateSchema.parse(req.body);
+        if (data.start_time === data.end_time) {
+          return res
+            .status(400)
+            .json({ message: "وقت نهاية الوردية يجب أن يختلف عن وقت بدايتها" });
+        }
+        const template = await storage.createShiftTemplate(data);
+        res.status(201).json(template);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error creating shift template:", error);
+        res.status(500).json({ message: "خطأ في إنشاء قالب الوردية" });
+      }
+    },
+  );
+
+  app.put(
+    "/api/hr/shift-templates/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const data = insertShiftTemplateSchema.partial().parse(req.body);
+        if (data.start_time && data.start_time === data.end_time) {
+          return res
+            .status(400)
+            .json({ message: "وقت نهاية الوردية يجب أن يختلف عن وقت بدايتها" });
+        }
+        const template = await storage.updateShiftTemplate(
+          parseInt(req.params.id),
+          data,
+        );
+        if (!template) {
+          return res.status(404).json({ message: "قالب الوردية غير موجود" });
+        }
+        res.json(template);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error updating shift template:", error);
+        res.status(500).json({ message: "خطأ في تحديث قالب الوردية" });
+      }
+    },
+  );
 
-  app.post("/api/hr/performance-criteria", async (req, res) => {
-    try {
-      const criteria = await storage.createPerformanceCriteria(req.body);
-      res.json(criteria);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء معيار التقييم" });
-    }
-  });
+  app.delete(
+    "/api/hr/shift-templates/:id",
+    requireAuth,
+    requirePermission("delete_hr"),
+    async (req, res) => {
+      try {
+        await storage.deleteShiftTemplate(parseInt(req.params.id));
+        res.json({ message: "تم حذف قالب الوردية" });
+      } catch (error) {
+        console.error("Error deleting shift template:", error);
+        res.status(500).json({
+          message:
+            "لا يمكن حذف قالب الوردية - قد يكون مستخدماً في جدولة الموظفين، يمكنك إيقافه بدلاً من ذلك",
+        });
+      }
+    },
+  );
 
-  // Leave Types
-  app.get("/api/hr/leave-types", async (req, res) => {
-    try {
-      const leaveTypes = await storage.getLeaveTypes();
-      res.json(leaveTypes);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب أنواع الإجازات" });
-    }
-  });
+  app.get(
+    "/api/hr/user-shifts",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const shifts = await storage.getUserShifts({
+          userId: req.query.user_id
+            ? parseInt(req.query.user_id as string)
+            : undefined,
+          from: req.query.from as string | undefined,
+          to: req.query.to as string | undefined,
+          scope: getDataScope(req),
+        });
+        res.json(shifts);
+      } catch (error) {
+        console.error("Error fetching user shifts:", error);
+        res.status(500).json({ message: "خطأ في جلب جدولة الورديات" });
+      }
+    },
+  );
 
-  app.post("/api/hr/leave-types", async (req, res) => {
-    try {
-      const leaveType = await storage.createLeaveType(req.body);
-      res.json(leaveType);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء نوع الإجازة" });
-    }
-  });
+  app.post(
+    "/api/hr/user-shifts",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const data = insertUserShiftSchema.parse(req.body);
+        if (data.effective_to && data.effective_to < data.effective_from) {
+          return res.status(400).json({
+            message: "تاريخ نهاية الجدولة يجب أن يكون بعد تاريخ بدايتها",
+          });
+        }
+        if (!(await storage.isUserInScope(data.user_id, getDataScope(req)))) {
+          return res
+            .status(403)
+            .json({ message: "لا يمكنك جدولة ورديات هذا الموظف" });
+        }
+        const shift = await storage.createUserShift(data, req.user!.id);
+        res.status(201).json(shift);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error creating user shift:", error);
+        res.status(500).json({ message: "خطأ في إنشاء جدولة الوردية" });
+      }
+    },
+  );
 
-  // Leave Requests
-  app.get("/api/hr/leave-requests", async (req, res) => {
-    try {
-      const employeeId = req.query.employee_id
-        ? (req.query.employee_id as string)
-        : undefined;
-      const requests = await storage.getLeaveRequests(employeeId);
-      res.json(requests);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب طلبات الإجازات" });
-    }
-  });
+  app.put(
+    "/api/hr/user-shifts/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const data = insertUserShiftSchema.partial().parse(req.body);
+        if (
+          data.effective_to &&
+          data.effective_from &&
+          data.effective_to < data.effective_from
+        ) {
+          return res.status(400).json({
+            message: "تاريخ نهاية الجدولة يجب أن يكون بعد تاريخ بدايتها",
+          });
+        }
+        const shift = await storage.updateUserShift(
+          parseInt(req.params.id),
+          data,
+        );
+        if (!shift) {
+          return res.status(404).json({ message: "جدولة الوردية غير موجودة" });
+        }
+        res.json(shift);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error updating user shift:", error);
+        res.status(500).json({ message: "خطأ في تحديث جدولة الوردية" });
+      }
+    },
+  );
 
-  app.post("/api/hr/leave-requests", async (req, res) => {
-    try {
-      const request = await storage.createLeaveRequest(req.body);
-      res.json(request);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء طلب الإجازة" });
-    }
-  });
+  app.delete(
+    "/api/hr/user-shifts/:id",
+    requireAuth,
+    requirePermission("delete_hr"),
+    async (req, res) => {
+      try {
+        await storage.deleteUserShift(parseInt(req.params.id));
+        res.json({ message: "تم حذف جدولة الوردية" });
+      } catch (error) {
+        console.error("Error deleting user shift:", error);
+        res.status(500).json({ message: "خطأ في حذف جدولة الوردية" });
+      }
+    },
+  );
 
-  app.put("/api/hr/leave-requests/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const request = await storage.updateLeaveRequest(id, req.body);
-      res.json(request);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في تحديث طلب الإجازة" });
-    }
+  const timesheetQuerySchema = z.object({
+    month: z
+      .string()
+      .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "الشهر يجب أن يكون بصيغة YYYY-MM"),
+    section_id: z.coerce.number().int().positive().optional(),
+    user_id: z.coerce.number().int().positive().optional(),
   });
 
-  app.get("/api/hr/leave-requests/pending", async (req, res) => {
-    try {
-      const requests = await storage.getPendingLeaveRequests();
-      res.json(requests);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب الطلبات المعلقة" });
-    }
-  });
+  // كشف الدوام الشهري: التأخير والخروج المبكر والعمل الإضافي لكل موظف وقسم
+  app.get(
+    "/api/hr/timesheet",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const query = timesheetQuerySchema.parse(req.query);
+        const timesheet = await getShiftRules(storage).getMonthlyTimesheet(
+          query.month,
+          {
+            userId: query.user_id,
+            sectionId: query.section_id,
+            scope: getDataScope(req),
+          },
+        );
+        res.json(timesheet);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error building timesheet:", error);
+        res.status(500).json({ message: "خطأ في إعداد كشف الدوام" });
+      }
+    },
+  );
 
-  // Leave Balances
-  app.get("/api/hr/leave-balances/:employeeId", async (req, res) => {
-    try {
-      const employeeId = req.params.employeeId;
-      const year = req.query.year
-        ? parseInt(req.query.year as string)
-        : undefined;
-      const balances = await storage.getLeaveBalances(employeeId, year);
-      res.json(balances);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب أرصدة الإجازات" });
-    }
-  });
+  app.get(
+    "/api/hr/timesheet/export",
+    requireAuth,
+    requirePermission("export_hr"),
+    async (req, res) => {
+      try {
+        const query = timesheetQuerySchema.parse(req.query);
+        const timesheet = await getShiftRules(storage).getMonthlyTimesheet(
+          query.month,
+          {
+            userId: query.user_id,
+            sectionId: query.section_id,
+            scope: getDataScope(req),
+          },
+        );
 
-  app.post("/api/hr/leave-balances", async (req, res) => {
-    try {
-      const balance = await storage.createLeaveBalance(req.body);
-      res.json(balance);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في إنشاء رصيد الإجازة" });
-    }
-  });
+        res.setHeader(
+          "Content-Type",
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        );
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="timesheet-${query.month}.xlsx"`,
+        );
+        res.send(timesheetToXLSX(timesheet));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error exporting timesheet:", error);
+        res.status(500).json({ message: "خطأ في تصدير كشف الدوام" });
+      }
+    },
+  );
 
-  // DELETE routes for definitions
-  app.delete("/api/customers/:id", async (req, res) => {
-    try {
-      await storage.deleteCustomer(req.params.id);
-      res.json({ message: "تم حذف العميل بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف العميل" });
-    }
-  });
+  // ============ Payroll Periods API ============
 
-  app.delete("/api/sections/:id", async (req, res) => {
-    try {
-      const id = req.params.id;
-      await storage.deleteSection(id);
-      res.json({ message: "تم حذف القسم بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف القسم" });
-    }
-  });
+  const payrollMonthSchema = z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "الشهر يجب أن يكون بصيغة YYYY-MM");
 
-  app.delete("/api/items/:id", async (req, res) => {
-    try {
-      await storage.deleteItem(req.params.id);
-      res.json({ message: "تم حذف الصنف بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف الصنف" });
-    }
-  });
+  app.get(
+    "/api/hr/payroll-periods",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const periods = await storage.getPayrollPeriods();
+        res.json(periods);
+      } catch (error) {
+        console.error("Error fetching payroll periods:", error);
+        res.status(500).json({ message: "خطأ في جلب فترات الرواتب" });
+      }
+    },
+  );
 
-  app.delete("/api/customer-products/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteCustomerProduct(id);
-      res.json({ message: "تم حذف منتج العميل بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف منتج العميل" });
-    }
-  });
+  // ملخص رواتب الشهر: أيام العمل والغياب والإجازات والتأخير والعمل الإضافي والخصومات
+  app.get(
+    "/api/hr/payroll-periods/:month",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        const month = payrollMonthSchema.parse(req.params.month);
+        const payroll = await getPayroll(storage).getMonthlyPayroll(
+          month,
+          getDataScope(req),
+        );
+        res.json(payroll);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error building payroll summary:", error);
+        res.status(500).json({ message: "خطأ في إعداد ملخص الرواتب" });
+      }
+    },
+  );
 
-  app.delete("/api/locations/:id", async (req, res) => {
-    try {
-      const id = req.params.id;
-      await storage.deleteLocation(id);
-      res.json({ message: "تم حذف الموقع بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف الموقع" });
-    }
-  });
+  app.post(
+    "/api/hr/payroll-periods/:month/close",
+    requireAuth,
+    requirePermission("approve_hr"),
+    async (req, res) => {
+      try {
+        const month = payrollMonthSchema.parse(req.params.month);
+        const { notes } = z
+          .object({ notes: z.string().trim().max(500).nullable().optional() })
+          .parse(req.body ?? {});
+        const period = await getPayroll(storage).closePeriod(
+          month,
+          req.user!.id,
+          notes,
+        );
+        res.json({ message: `تم إقفال رواتب شهر ${month}`, period });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        if (error instanceof PayrollError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error closing payroll period:", error);
+        res.status(500).json({ message: "خطأ في إقفال فترة الرواتب" });
+      }
+    },
+  );
 
-  app.delete("/api/machines/:id", async (req, res) => {
-    try {
-      const id = req.params.id;
-      await storage.deleteMachine(id);
-      res.json({ message: "تم حذف الماكينة بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف الماكينة" });
-    }
-  });
+  app.post(
+    "/api/hr/payroll-periods/:month/reopen",
+    requireAuth,
+    requirePermission("approve_hr"),
+    async (req, res) => {
+      try {
+        const month = payrollMonthSchema.parse(req.params.month);
+        const period = await getPayroll(storage).reopenPeriod(
+          month,
+          req.user!.id,
+        );
+        res.json({ message: `تم إعادة فتح رواتب شهر ${month}`, period });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        if (error instanceof PayrollError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error reopening payroll period:", error);
+        res.status(500).json({ message: "خطأ في إعادة فتح فترة الرواتب" });
+      }
+    },
+  );
 
-  app.delete("/api/users/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteUser(id);
-      res.json({ message: "تم حذف المستخدم بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف المستخدم" });
-    }
-  });
+  // تصدير ملف الرواتب - الأعمدة من الإعداد المحفوظ أو من المعامل columns
+  app.get(
+    "/api/hr/payroll-periods/:month/export",
+    requireAuth,
+    requirePermission("export_hr"),
+    async (req, res) => {
+      try {
+        const month = payrollMonthSchema.parse(req.params.month);
+        const format = req.query.format === "csv" ? "csv" : "xlsx";
+        const payroll = getPayroll(storage);
+        const columns = resolvePayrollColumns(
+          typeof req.query.columns === "string"
+            ? req.query.columns.split(",")
+            : await payroll.getExportColumnKeys(),
+        );
+        const summary = await payroll.getMonthlyPayroll(
+          month,
+          getDataScope(req),
+        );
 
-  // Inventory Management routes
-  app.get("/api/inventory", async (req, res) => {
-    try {
-      const inventory = await storage.getInventoryItems();
-      res.json(inventory);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب بيانات المخزون" });
-    }
-  });
+        if (format === "csv") {
+          res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        } else {
+          res.setHeader(
+            "Content-Type",
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          );
+        }
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="payroll-${month}.${format}"`,
+        );
+        res.send(
+          format === "csv"
+            ? payrollToCSV(summary.lines, columns)
+            : payrollToXLSX(summary, columns),
+        );
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error exporting payroll:", error);
+        res.status(500).json({ message: "خطأ في تصدير ملف الرواتب" });
+      }
+    },
+  );
 
-  app.get("/api/inventory/stats", async (req, res) => {
-    try {
-      const stats = await storage.getInventoryStats();
-      res.json(stats);
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في جلب إحصائيات المخزون" });
-    }
-  });
+  app.get(
+    "/api/hr/payroll-export-columns",
+    requireAuth,
+    requirePermission("view_hr"),
+    async (req, res) => {
+      try {
+        res.json({
+          available: PAYROLL_COLUMNS.map(({ key, label }) => ({ key, label })),
+          selected: await getPayroll(storage).getExportColumnKeys(),
+        });
+      } catch (error) {
+        console.error("Error fetching payroll export columns:", error);
+        res.status(500).json({ message: "خطأ في جلب أعمدة ملف الرواتب" });
+      }
+    },
+  );
 
-  app.post("/api/inventory", requireAuth, async (req, res) => {
-    try {
-      // STEP 1: Zod schema validation
-      const validatedData = insertInventorySchema.parse(req.body);
+  app.put(
+    "/api/hr/payroll-export-columns",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const { columns } = z
+          .object({
+            columns: z
+              .array(
+                z.enum(
+                  PAYROLL_COLUMNS.map((column) => column.key) as [
+                    string,
+                    ...string[],
+                  ],
+                ),
+              )
+              .min(1, "يجب اختيار عمود واحد على الأقل"),
+          })
+          .parse(req.body);
+        const value = Array.from(new Set(columns)).join(",");
+        const userId = req.user!.id;
 
-      // STEP 2: DataValidator integration for business rules
-      const validationResult = await getDataValidator(storage).validateData(
-        "inventory",
-        validatedData,
-      );
-      if (!validationResult.isValid) {
-        const criticalErrors = validationResult.errors.filter(
-          (e) => e.severity === "critical" || e.severity === "high",
+        const existingSetting = await storage.getSystemSettingByKey(
+          PAYROLL_EXPORT_COLUMNS_SETTING_KEY,
         );
-        if (criticalErrors.length > 0) {
-          return res.status(400).json({
-            message: criticalErrors[0].message_ar || criticalErrors[0].message,
-            errors: validationResult.errors,
-            success: false,
+        if (existingSetting) {
+          await storage.updateSystemSetting(
+            PAYROLL_EXPORT_COLUMNS_SETTING_KEY,
+            value,
+            userId,
+          );
+        } else {
+          await storage.createSystemSetting({
+            setting_key: PAYROLL_EXPORT_COLUMNS_SETTING_KEY,
+            setting_value: value,
+            updated_by: String(userId),
           });
         }
+
+        res.json({
+          message: "تم حفظ أعمدة ملف الرواتب",
+          selected: await getPayroll(storage).getExportColumnKeys(),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error saving payroll export columns:", error);
+        res.status(500).json({ message: "خطأ في حفظ أعمدة ملف الرواتب" });
       }
+    },
+  );
 
-      // STEP 3: Create inventory item with validated data
-      const item = await storage.createInventoryItem(validatedData);
+  // ============ User Violations Management API ============
 
-      res.status(201).json({
-        data: item,
-        message: "تم إضافة صنف المخزون بنجاح",
-        success: true,
-      });
-    } catch (error: any) {
-      console.error("Inventory creation error:", error);
+  app.get(
+    "/api/violations",
+    requireAuth,
+    requirePermission("view_hr", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        const violations = await storage.getViolations();
+        res.json(violations);
+      } catch (error) {
+        console.error("Error fetching violations:", error);
+        res.status(500).json({ message: "خطأ في جلب بيانات المخالفات" });
+      }
+    },
+  );
 
-      if (error.name === "DatabaseError") {
-        return res.status(400).json({
-          message: error.message,
-          success: false,
-        });
+  app.post(
+    "/api/violations",
+    requireAuth,
+    requirePermission("create_hr"),
+    async (req, res) => {
+      try {
+        const violation = await storage.createViolation(req.body);
+        res.status(201).json(violation);
+      } catch (error) {
+        console.error("Error creating violation:", error);
+        res.status(500).json({ message: "خطأ في إنشاء المخالفة" });
       }
+    },
+  );
 
-      res.status(500).json({
-        message: "خطأ في إضافة صنف للمخزون",
-        success: false,
-      });
-    }
-  });
+  app.put(
+    "/api/violations/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const violation = await storage.updateViolation(id, req.body);
+        res.json(violation);
+      } catch (error) {
+        console.error("Error updating violation:", error);
+        res.status(500).json({ message: "خطأ في تحديث المخالفة" });
+      }
+    },
+  );
 
-  app.put("/api/inventory/:id", requireAuth, async (req, res) => {
-    try {
-      // STEP 1: Parameter validation
-      const id = parseInt(req.params.id);
-      if (isNaN(id) || id <= 0) {
-        return res.status(400).json({
-          message: "معرف المخزون غير صحيح",
-          success: false,
-        });
+  app.delete(
+    "/api/violations/:id",
+    requireAuth,
+    requirePermission("delete_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteViolation(id);
+        res.json({ message: "تم حذف المخالفة بنجاح" });
+      } catch (error) {
+        console.error("Error deleting violation:", error);
+        res.status(500).json({ message: "خطأ في حذف المخالفة" });
       }
+    },
+  );
 
-      // STEP 2: Zod schema validation (partial for updates)
-      const validatedData = insertInventorySchema.partial().parse(req.body);
+  // ============ User Requests Management API ============
 
-      // STEP 3: DataValidator integration for business rules
-      const validationResult = await getDataValidator(storage).validateData(
-        "inventory",
-        validatedData,
-        true,
-      );
-      if (!validationResult.isValid) {
-        const criticalErrors = validationResult.errors.filter(
-          (e) => e.severity === "critical" || e.severity === "high",
+  app.get(
+    "/api/user-requests",
+    requireAuth,
+    requirePermission("view_hr", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        console.log("Fetching user requests - Session ID:", req.sessionID);
+        console.log(
+          "Fetching user requests - User ID in session:",
+          req.session.userId,
         );
-        if (criticalErrors.length > 0) {
-          return res.status(400).json({
-            message: criticalErrors[0].message_ar || criticalErrors[0].message,
-            errors: validationResult.errors,
-            success: false,
-          });
-        }
-      }
 
-      // STEP 4: Update inventory item with validated data
-      const item = await storage.updateInventoryItem(id, validatedData);
+        const requests = await storage.getUserRequests();
+        console.log("Found", requests.length, "user requests");
 
-      res.json({
-        data: item,
-        message: "تم تحديث صنف المخزون بنجاح",
-        success: true,
-      });
-    } catch (error: any) {
-      console.error("Inventory update error:", error);
+        res.json(requests);
+      } catch (error) {
+        console.error("Error fetching user requests:", error);
+        res.status(500).json({ message: "خطأ في جلب طلبات المستخدمين" });
+      }
+    },
+  );
 
-      if (error.name === "DatabaseError") {
-        return res.status(400).json({
-          message: error.message,
-          success: false,
-        });
+  app.post(
+    "/api/user-requests",
+    requireAuth,
+    requirePermission("create_hr", "view_user_dashboard"),
+    async (req, res) => {
+      try {
+        const request = await storage.createUserRequest(req.body);
+        res.status(201).json(request);
+      } catch (error) {
+        console.error("Error creating user request:", error);
+        res.status(500).json({ message: "خطأ في إنشاء الطلب" });
       }
+    },
+  );
 
-      res.status(500).json({
-        message: "خطأ في تحديث صنف المخزون",
-        success: false,
-      });
-    }
-  });
+  app.put(
+    "/api/user-requests/:id",
+    requireAuth,
+    requirePermission("update_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const request = await storage.updateUserRequest(id, req.body);
+        res.json(request);
+      } catch (error) {
+        console.error("Error updating user request:", error);
+        res.status(500).json({ message: "خطأ في تحديث الطلب" });
+      }
+    },
+  );
 
-  app.delete("/api/inventory/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteInventoryItem(id);
-      res.json({ message: "تم حذف صنف المخزون بنجاح" });
-    } catch (error) {
-      res.status(500).json({ message: "خطأ في حذف صنف المخزون" });
-    }
-  });
+  app.patch(
+    "/api/user-requests/:id",
+    requireAuth,
+    requirePermission("approve_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const request = await storage.updateUserRequest(id, req.body);
+        res.json(request);
+      } catch (error) {
+        console.error("Error updating user request:", error);
+        res.status(500).json({ message: "خطأ في تحديث الطلب" });
+      }
+    },
+  );
 
-  // ============ Locations Management API ============
+  app.delete(
+    "/api/user-requests/:id",
+    requireAuth,
+    requirePermission("delete_hr"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        await storage.deleteUserRequest(id);
+        res.json({ message: "تم حذف الطلب بنجاح" });
+      } catch (error) {
+        console.error("Error deleting user request:", error);
+        res.status(500).json({ message: "خطأ في حذف الطلب" });
+      }
+    },
+  );
 
-  app.get("/api/locations", async (req, res) => {
-    try {
-      const locations = await storage.getLocations();
-      res.json(locations);
-    } catch (error) {
-      console.error("Error fetching locations:", error);
-      res.status(500).json({ message: "خطأ في جلب المواقع" });
-    }
-  });
+  // ============ PRODUCTION FLOW API ENDPOINTS ============
 
-  app.post("/api/locations", async (req, res) => {
-    try {
-      const result = insertLocationSchema.safeParse(req.body);
-      if (!result.success) {
-        return res
-          .status(400)
-          .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
+  // Production Settings
+  app.get(
+    "/api/production/settings",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const settings = await storage.getProductionSettings();
+        res.json(settings);
+      } catch (error) {
+        console.error("Error fetching production settings:", error);
+        res.status(500).json({ message: "خطأ في جلب إعدادات الإنتاج" });
       }
+    },
+  );
 
-      const location = await storage.createLocationExtended(result.data);
-      res.status(201).json(location);
-    } catch (error) {
-      console.error("Error creating location:", error);
-      res.status(500).json({ message: "خطأ في إنشاء الموقع" });
-    }
-  });
+  app.patch(
+    "/api/production/settings",
+    requireAuth,
+    requirePermission("update_settings"),
+    async (req, res) => {
+      try {
+        const validationSchema = insertProductionSettingsSchema
+          .pick({
+            overrun_tolerance_percent: true,
+            allow_last_roll_overrun: true,
+            qr_prefix: true,
+            material_scrap_percent: true,
+          })
+          .extend({
+            overrun_tolerance_percent: z
+              .number()
+              .min(0)
+              .max(10)
+              .transform((v) => Number(v.toFixed(2))),
+            qr_prefix: z.string().min(1, "بادئة الـ QR مطلوبة"),
+          });
 
-  app.put("/api/locations/:id", async (req, res) => {
-    try {
-      const locationId = req.params.id;
-      const result = insertLocationSchema.safeParse(req.body);
-      if (!result.success) {
-        return res
-          .status(400)
-          .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
+        const validated = validationSchema.parse(req.body);
+        const settings = await storage.updateProductionSettings(validated);
+        res.json(settings);
+      } catch (error) {
+        console.error("Error updating production settings:", error);
+        res.status(400).json({ message: "خطأ في تحديث إعدادات الإنتاج" });
       }
+    },
+  );
 
-      const location = await storage.updateLocationExtended(
-        locationId,
-        result.data,
-      );
-      res.json(location);
-    } catch (error) {
-      console.error("Error updating location:", error);
-      res.status(500).json({ message: "خطأ في تحديث الموقع" });
-    }
-  });
+  // Start Production
+  app.patch(
+    "/api/production-orders/:id/start-production",
+    requireAuth,
+    requirePermission("approve_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const productionOrder = await storage.startProduction(id);
+        res.json(productionOrder);
+      } catch (error) {
+        console.error("Error starting production:", error);
+        res.status(400).json({ message: "خطأ في بدء الإنتاج" });
+      }
+    },
+  );
 
-  // ============ Inventory Movements Management API ============
+  // Create Roll with QR
+  app.post(
+    "/api/rolls",
+    requireAuth,
+    requirePermission("create_production"),
+    validateRequest({ body: insertRollSchema.omit({ created_by: true }) }),
+    async (req, res) => {
+      try {
+        console.log(
+          "Roll creation request body:",
+          JSON.stringify(req.body, null, 2),
+        );
+        console.log("User ID:", req.user?.id);
 
-  app.get("/api/inventory-movements", async (req, res) => {
-    try {
-      const movements = await storage.getAllInventoryMovements();
-      res.json(movements);
-    } catch (error) {
-      console.error("Error fetching inventory movements:", error);
-      res.status(500).json({ message: "خطأ في جلب حركات المخزون" });
-    }
-  });
+        // Ensure the user id is valid
+        if (!req.user?.id || typeof req.user?.id !== "number") {
+          return res.status(401).json({ message: "معرف المستخدم غير صحيح" });
+        }
 
-  app.post("/api/inventory-movements", async (req, res) => {
-    try {
-      const result = insertInventoryMovementSchema.safeParse(req.body);
-      if (!result.success) {
-        return res
-          .status(400)
-          .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
-      }
+        // Get DataValidator for business rule enforcement
+        const dataValidator = getDataValidator(storage);
 
-      const movement = await storage.createInventoryMovement(result.data);
-      res.status(201).json(movement);
-    } catch (error) {
-      console.error("Error creating inventory movement:", error);
-      res.status(500).json({ message: "خطأ في إنشاء حركة المخزون" });
-    }
-  });
+        // Add created_by from session and validate the complete data
+        const rollData = {
+          ...req.body,
+          created_by: Number(req.user?.id),
+        };
 
-  app.delete("/api/inventory-movements/:id", async (req, res) => {
-    try {
-      const movementId = parseInt(req.params.id);
-      await storage.deleteInventoryMovement(movementId);
-      res.json({ message: "تم حذف الحركة بنجاح" });
-    } catch (error) {
-      console.error("Error deleting inventory movement:", error);
-      res.status(500).json({ message: "خطأ في حذف الحركة" });
-    }
-  });
+        // Validate with insertRollSchema AFTER adding created_by
+        let validatedRollData;
+        try {
+          validatedRollData = insertRollSchema.parse(rollData);
+          console.log("Validation successful for roll data");
+        } catch (validationError) {
+          console.error("Roll schema validation failed:", validationError);
+          if (validationError instanceof z.ZodError) {
+            return res.status(400).json({
+              message: "بيانات غير صحيحة",
+              errors: validationError.errors,
+            });
+          }
+          throw validationError;
+        }
 
-  // ============ Orders Management API ============
+        console.log(
+          "Final validated roll data:",
+          JSON.stringify(validatedRollData, null, 2),
+        );
 
-  app.get("/api/orders", async (req, res) => {
-    try {
-      const orders = await storage.getAllOrders();
-      res.json(orders);
-    } catch (error) {
-      console.error("Error fetching orders:", error);
-      res.status(500).json({ message: "خطأ في جلب الطلبات" });
-    }
-  });
+        // INVARIANT B: Validate roll weight against production order limits
+        const productionOrder = await storage.getProductionOrderById(
+          validatedRollData.production_order_id,
+        );
+        if (!productionOrder) {
+          return res.status(400).json({
+            message: "أمر الإنتاج غير موجود",
+            field: "production_order_id",
+          });
+        }
+
+        // INVARIANT E: Validate film machine is active (printing and cutting machines assigned in later stages)
+        const filmMachine = await storage.getMachineById(
+          validatedRollData.film_machine_id,
+        );
+        if (!filmMachine) {
+          return res.status(400).json({
+            message: "ماكينة الفيلم غير موجودة",
+            field: "film_machine_id",
+          });
+        }
+        if (filmMachine.status !== "active") {
+          return res.status(400).json({
+            message: "ماكينة الفيلم غير نشطة - لا يمكن إنشاء رولات عليها",
+            field: "film_machine_id",
+          });
+        }
 
-  app.post("/api/orders", async (req, res) => {
-    try {
-      console.log("Received order data:", req.body);
-      const order = await storage.createOrder(req.body);
-      res.status(201).json(order);
-    } catch (error) {
-      console.error("Error creating order:", error);
-      res.status(500).json({ message: "خطأ في إنشاء الطلب" });
-    }
-  });
+        // Run synchronous business rule validation
+        const validationResult =
+          await dataValidator.validateRollCreation(validatedRollData);
+        if (!validationResult.isValid) {
+          return res.status(400).json({
+            message: "فشل في التحقق من قواعد العمل",
+            errors: validationResult.errors,
+            warnings: validationResult.warnings,
+          });
+        }
 
-  app.put("/api/orders/:id", requireAuth, requireAdmin, async (req, res) => {
-    try {
-      const orderId = parseInt(req.params.id);
-      const result = insertNewOrderSchema.safeParse(req.body);
-      if (!result.success) {
-        return res
-          .status(400)
-          .json({ message: "بيانات غير صحيحة", errors: result.error.errors });
+        // Generate QR code and roll number with validation passed
+        const roll = await storage.createRoll(validatedRollData);
+        res.status(201).json(roll);
+      } catch (error) {
+        console.error("Error creating roll:", error);
+        if (error instanceof z.ZodError) {
+          console.error("Validation errors:", error.errors);
+          res.status(400).json({
+            message: "بيانات غير صحيحة",
+            errors: error.errors,
+          });
+        } else if (
+          error instanceof Error &&
+          error.message.includes("تجاوزت الحد المسموح")
+        ) {
+          res.status(400).json({ message: error.message });
+        } else if ((error as any)?.code === "INVARIANT_C_VIOLATION") {
+          // نقص المواد الخام اللازمة لوصفة الخلط
+          res.status(400).json({ message: (error as Error).message });
+        } else {
+          res.status(500).json({ message: "خطأ في إنشاء الرول" });
+        }
       }
+    },
+  );
 
-      // Convert Date objects to strings for database compatibility
-      const updateData = {
-        ...result.data,
-        delivery_date: result.data.delivery_date
-          ? result.data.delivery_date.toISOString().split("T")[0]
-          : result.data.delivery_date,
-      };
-      const order = await storage.updateOrder(orderId, updateData);
-      res.json(order);
-    } catch (error) {
-      console.error("Error updating order:", error);
-      res.status(500).json({ message: "خطأ في تحديث الطلب" });
-    }
-  });
-
+  // Printing Operations
   app.patch(
-    "/api/orders/:id/status",
+    "/api/rolls/:id/print",
     requireAuth,
-    requireAdmin,
+    requirePermission("update_production"),
     async (req, res) => {
       try {
-        const orderId = parseInt(req.params.id);
-        const { status } = req.body;
-
-        if (!status) {
-          return res
-            .status(400)
-            .json({ message: "الحالة مطلوبة", success: false });
-        }
-
-        // Enhanced status validation with state transition rules (INVARIANT D)
-        const validStatuses = [
-          "waiting",
-          "in_production",
-          "paused",
-          "completed",
-          "cancelled",
-          "pending",
-          "for_production",
-          "on_hold",
-          "in_progress",
-          "delivered",
-        ];
-        if (!validStatuses.includes(status)) {
-          return res
-            .status(400)
-            .json({ message: "حالة غير صحيحة", success: false });
+        const id = parseInt(req.params.id);
+        if (!req.user?.id) {
+          return res.status(401).json({ message: "غير مسجل الدخول" });
         }
-
-        // STEP 1: Get current order status for state transition validation
-        const currentOrder = await storage.getOrderById(orderId);
-        if (!currentOrder) {
-          return res
-            .status(404)
-            .json({ message: "الطلب غير موجود", success: false });
+        
+        const { printing_machine_id } = req.body;
+        
+        // Validate printing machine if provided
+        if (printing_machine_id) {
+          const machine = await storage.getMachineById(printing_machine_id);
+          if (!machine) {
+            return res.status(400).json({ message: "ماكينة الطباعة غير موجودة" });
+          }
+          if (machine.status !== "active") {
+            return res.status(400).json({ message: "ماكينة الطباعة غير نشطة" });
+          }
         }
+        
+        const roll = await storage.markRollPrinted(id, req.user?.id, printing_machine_id);
+        res.json(roll);
+      } catch (error) {
+        console.error("Error marking roll printed:", error);
+        res.status(400).json({
+          message:
+            error instanceof Error && error.message.includes("الجودة")
+              ? error.message
+              : "خطأ في تسجيل طباعة الرول",
+        });
+      }
+    },
+  );
 
-        // STEP 2: INVARIANT D - State transition validation with business rules
-        const currentStatus = currentOrder.status;
-        const newStatus = status;
-
-        // Define valid state transitions based on business logic
-        const validTransitions: Record<string, string[]> = {
-          pending: ["waiting", "for_production", "cancelled"],
-          waiting: ["in_production", "for_production", "on_hold", "cancelled"],
-          for_production: ["in_production", "waiting", "on_hold", "cancelled"],
-          in_production: ["paused", "completed", "on_hold", "in_progress"],
-          in_progress: ["paused", "completed", "on_hold"],
-          paused: ["in_production", "in_progress", "cancelled"],
-          on_hold: ["waiting", "for_production", "cancelled"],
-          completed: ["delivered"], // Only allow delivery from completed
-          delivered: [], // Terminal state - no further transitions
-          cancelled: [], // Terminal state - no further transitions
-        };
+  // Cutting Operations
+  app.post(
+    "/api/cuts",
+    requireAuth,
+    requirePermission("create_production"),
+    async (req, res) => {
+      try {
+        const validationSchema = insertCutSchema.extend({
+          cut_weight_kg: z.coerce
+            .number()
+            .gt(0, "الوزن يجب أن يكون أكبر من صفر")
+            .max(50000, "الوزن يتجاوز 50 طن")
+            .transform((v) => Number(v.toFixed(3))),
+          pieces_count: z.coerce.number().positive().optional(),
+          cutting_machine_id: z.string().min(1, "يجب اختيار ماكينة القطع"),
+        });
 
-        // Check if transition is allowed
-        const allowedNextStates = validTransitions[currentStatus] || [];
-        if (
-          currentStatus !== newStatus &&
-          !allowedNextStates.includes(newStatus)
+        const validated = validationSchema.parse(req.body);
+        if (!req.user?.id) {
+          return res.status(401).json({ message: "غير مسجل الدخول" });
+        }
+        
+        // Validate cutting machine
+        const { cutting_machine_id } = validated;
+        if (cutting_machine_id) {
+          const machine = await storage.getMachineById(cutting_machine_id);
+          if (!machine) {
+            return res.status(400).json({ message: "ماكينة القطع غير موجودة" });
+          }
+          if (machine.status !== "active") {
+            return res.status(400).json({ message: "ماكينة القطع غير نشطة" });
+          }
+        }
+        
+        const cut = await storage.createCut({
+          ...validated,
+          performed_by: req.user?.id,
+        });
+        res.status(201).json(cut);
+      } catch (error) {
+        console.error("Error creating cut:", error);
+        if (error instanceof z.ZodError) {
+          res.status(400).json({ message: error.errors[0]?.message });
+        } else if (
+          error instanceof Error &&
+          (error.message.includes("الوزن المطلوب أكبر من المتاح") ||
+            error.message.includes("لا يمكن قص") ||
+            error.message.includes("الجودة") ||
+            error.message === "الرول غير موجود")
         ) {
-          return res.status(400).json({
-            message: `لا يمكن تغيير حالة الطلب من "${currentStatus}" إلى "${newStatus}". التحولات المسموحة: ${allowedNextStates.join(", ")}`,
-            success: false,
-            currentStatus,
-            requestedStatus: newStatus,
-            allowedTransitions: allowedNextStates,
-          });
+          res.status(400).json({ message: error.message });
+        } else {
+          res.status(500).json({ message: "خطأ في تسجيل القطع" });
         }
+      }
+    },
+  );
 
-        // STEP 3: Additional business rule validations
-        if (newStatus === "completed") {
-          // Check if all production orders are completed before marking order as completed
-          const allProductionOrders = await storage.getAllProductionOrders();
-          const productionOrders = allProductionOrders.filter(
-            (po: any) => po.order_id === orderId,
-          );
-          const incompleteProdOrders = productionOrders.filter(
-            (po: any) => po.status !== "completed",
-          );
-
-          if (incompleteProdOrders.length > 0) {
-            return res.status(400).json({
-              message: `لا يمكن إتمام الطلب - يوجد ${incompleteProdOrders.length} أوامر إنتاج غير مكتملة`,
-              success: false,
-              incompleteProdOrders: incompleteProdOrders.length,
-            });
-          }
+  // إنهاء الرول بعد آخر قص وتسجيل الوزن المتبقي كهدر
+  app.post(
+    "/api/rolls/:id/finish",
+    requireAuth,
+    requirePermission("update_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (!req.user?.id) {
+          return res.status(401).json({ message: "غير مسجل الدخول" });
         }
 
-        if (newStatus === "cancelled") {
-          // Check if there are production orders in progress
-          const allProductionOrders = await storage.getAllProductionOrders();
-          const productionOrders = allProductionOrders.filter(
-            (po: any) => po.order_id === orderId,
-          );
-          const activeProdOrders = productionOrders.filter((po: any) =>
-            ["in_progress", "in_production"].includes(po.status),
-          );
+        const { reason_id } = z
+          .object({
+            reason_id: z.coerce
+              .number({ invalid_type_error: "يجب تحديد سبب الهدر" })
+              .int()
+              .positive("يجب تحديد سبب الهدر"),
+          })
+          .parse(req.body);
 
-          if (activeProdOrders.length > 0) {
-            return res.status(400).json({
-              message: `لا يمكن إلغاء الطلب - يوجد ${activeProdOrders.length} أوامر إنتاج نشطة`,
-              success: false,
-              activeProdOrders: activeProdOrders.length,
-            });
-          }
+        const roll = await storage.finishRoll(id, {
+          reason_id,
+          finished_by: req.user?.id,
+        });
+        res.json(roll);
+      } catch (error) {
+        console.error("Error finishing roll:", error);
+        if (error instanceof z.ZodError) {
+          res.status(400).json({ message: error.errors[0]?.message });
+        } else if (
+          error instanceof Error &&
+          (error.message.includes("لا يمكن إنهاء") ||
+            error.message.includes("سبب الهدر") ||
+            error.message.includes("الجودة") ||
+            error.message === "الرول غير موجود")
+        ) {
+          res.status(400).json({ message: error.message });
+        } else {
+          res.status(500).json({ message: "خطأ في إنهاء الرول" });
         }
+      }
+    },
+  );
 
-        // STEP 4: Perform atomic status update with validation
-        const order = await storage.updateOrderStatus(orderId, newStatus);
-
-        res.json({
-          data: order,
-          message: `تم تغيير حالة الطلب إلى "${newStatus}" بنجاح`,
-          success: true,
-          previousStatus: currentStatus,
-          currentStatus: newStatus,
+  // Warehouse Receipts
+  app.post(
+    "/api/warehouse/receipts",
+    requireAuth,
+    requirePermission("create_warehouse"),
+    async (req, res) => {
+      try {
+        const validationSchema = insertWarehouseReceiptSchema.extend({
+          received_weight_kg: z.coerce
+            .number()
+            .gt(0, "الوزن يجب أن يكون أكبر من صفر")
+            .max(50000, "الوزن يتجاوز 50 طن")
+            .transform((v) => Number(v.toFixed(3))),
         });
-      } catch (error: any) {
-        console.error("Error updating order status:", error);
 
-        if (error.name === "DatabaseError") {
+        const validated = validationSchema.parse(req.body);
+        if (!req.user?.id) {
+          return res.status(401).json({ message: "غير مسجل الدخول" });
+        }
+        const receipt = await storage.createWarehouseReceipt({
+          ...validated,
+          received_by: req.user?.id,
+        });
+        res.status(201).json(receipt);
+      } catch (error) {
+        console.error("Error creating warehouse receipt:", error);
+        if (error instanceof z.ZodError) {
           return res.status(400).json({
-            message: error.message,
-            success: false,
+            message: error.errors[0]?.message || "بيانات غير صحيحة",
           });
         }
+        if (error instanceof Error && error.message.includes("الجودة")) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "خطأ في تسجيل استلام المستودع" });
+      }
+    },
+  );
+
+  // Get warehouse receipts with detailed information grouped by order number
+  app.get(
+    "/api/warehouse/receipts-detailed",
+    requireAuth,
+    requirePermission("view_warehouse"),
+    async (req, res) => {
+      try {
+        const receipts = await storage.getWarehouseReceiptsDetailed();
+        res.json(receipts);
+      } catch (error) {
+        console.error("Error fetching detailed warehouse receipts:", error);
+        res.status(500).json({ message: "خطأ في جلب تفاصيل إيصالات المستودع" });
+      }
+    },
+  );
+
+  // ============ الشحنات وإشعارات التسليم ============
+
+  app.get(
+    "/api/warehouse/shippable-lines",
+    requireAuth,
+    requirePermission("view_warehouse"),
+    async (req, res) => {
+      try {
+        const lines = await storage.getShippableLines(
+          req.query.order_id ? parseInt(req.query.order_id as string) : undefined,
+        );
+        res.json(lines);
+      } catch (error) {
+        console.error("Error fetching shippable lines:", error);
+        res.status(500).json({ message: "خطأ في جلب الكميات الجاهزة للتسليم" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/warehouse/backorders",
+    requireAuth,
+    requirePermission("view_warehouse"),
+    async (req, res) => {
+      try {
+        const backorders = await storage.getBackorders();
+        res.json(backorders);
+      } catch (error) {
+        console.error("Error fetching backorders:", error);
+        res.status(500).json({ message: "خطأ في جلب الكميات المتأخرة" });
+      }
+    },
+  );
 
-        res.status(500).json({
-          message: "خطأ في تحديث حالة الطلب",
-          success: false,
+  app.get(
+    "/api/shipments",
+    requireAuth,
+    requirePermission("view_warehouse"),
+    async (req, res) => {
+      try {
+        const shipmentList = await storage.getShipments({
+          orderId: req.query.order_id
+            ? parseInt(req.query.order_id as string)
+            : undefined,
+          status: req.query.status as string | undefined,
         });
+        res.json(shipmentList);
+      } catch (error) {
+        console.error("Error fetching shipments:", error);
+        res.status(500).json({ message: "خطأ في جلب إشعارات التسليم" });
       }
     },
   );
 
-  // ============ Settings API ============
-
-  // System Settings
-  app.get("/api/settings/system", requireAuth, requirePermission('manage_settings'), async (req: AuthRequest, res) => {
-    try {
-      const settings = await storage.getSystemSettings();
-      res.json(settings);
-    } catch (error) {
-      console.error("Error fetching system settings:", error);
-      res.status(500).json({ message: "خطأ في جلب إعدادات النظام" });
-    }
-  });
-
-  app.post("/api/settings/system", requireAuth, requirePermission('manage_settings'), async (req: AuthRequest, res) => {
-    try {
-      const { settings } = req.body;
-      const userId = req.user?.id;
-      if (!userId) {
-        return res.status(401).json({ message: "المستخدم غير مصرح له" });
+  app.get(
+    "/api/shipments/:id",
+    requireAuth,
+    requirePermission("view_warehouse"),
+    async (req, res) => {
+      try {
+        const shipment = await storage.getShipmentDetails(
+          parseInt(req.params.id),
+        );
+        if (!shipment) {
+          return res.status(404).json({ message: "إشعار التسليم غير موجود" });
+        }
+        res.json(shipment);
+      } catch (error) {
+        console.error("Error fetching shipment:", error);
+        res.status(500).json({ message: "خطأ في جلب إشعار التسليم" });
       }
-      
-      const results = [];
+    },
+  );
 
-      for (const [key, value] of Object.entries(settings)) {
-        try {
-          const existingSetting = await storage.getSystemSettingByKey(key);
-          if (existingSetting) {
-            const updated = await storage.updateSystemSetting(
-              key,
-              String(value),
-              userId,
-            );
-            results.push(updated);
-          } else {
-            const created = await storage.createSystemSetting({
-              setting_key: key,
-              setting_value: String(value),
-              updated_by: String(userId),
-            });
-            results.push(created);
-          }
-        } catch (error) {
-          console.error(`Error saving setting ${key}:`, error);
+  app.post(
+    "/api/shipments",
+    requireAuth,
+    requirePermission("create_warehouse"),
+    async (req, res) => {
+      try {
+        const data = insertShipmentSchema.parse(req.body);
+        const result = await storage.createShipment(data, req.user!.id);
+        res.status(201).json(result);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        const message = error instanceof Error ? error.message : "";
+        if (
+          message.includes("غير موجود") ||
+          message.includes("لا يمكن") ||
+          message.includes("تتجاوز") ||
+          message.includes("مكرر") ||
+          message.includes("لا يتبع")
+        ) {
+          return res.status(400).json({ message });
         }
+        console.error("Error creating shipment:", error);
+        res.status(500).json({ message: "خطأ في إنشاء إشعار التسليم" });
       }
+    },
+  );
 
-      res.json({ message: "تم حفظ إعدادات النظام بنجاح", settings: results });
-    } catch (error) {
-      console.error("Error saving system settings:", error);
-      res.status(500).json({ message: "خطأ في حفظ إعدادات النظام" });
-    }
-  });
-
-  // User Settings
-  app.get("/api/settings/user/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const settings = await storage.getUserSettings(userId);
-      res.json(settings);
-    } catch (error) {
-      console.error("Error fetching user settings:", error);
-      res.status(500).json({ message: "خطأ في جلب إعدادات المستخدم" });
-    }
-  });
-
-  app.post("/api/settings/user/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const { settings } = req.body;
-      const results = [];
-
-      for (const [key, value] of Object.entries(settings)) {
-        try {
-          const updated = await storage.updateUserSetting(
-            userId,
-            key,
-            String(value),
-          );
-          results.push(updated);
-        } catch (error) {
-          console.error(`Error saving user setting ${key}:`, error);
+  app.post(
+    "/api/shipments/:id/cancel",
+    requireAuth,
+    requirePermission("update_warehouse"),
+    async (req, res) => {
+      try {
+        const shipment = await storage.cancelShipment(
+          parseInt(req.params.id),
+          req.user!.id,
+        );
+        res.json(shipment);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "";
+        if (message.includes("غير موجود") || message.includes("ملغي")) {
+          return res.status(400).json({ message });
         }
+        console.error("Error cancelling shipment:", error);
+        res.status(500).json({ message: "خطأ في إلغاء إشعار التسليم" });
       }
+    },
+  );
 
-      res.json({ message: "تم حفظ إعداداتك الشخصية بنجاح", settings: results });
-    } catch (error) {
-      console.error("Error saving user settings:", error);
-      res.status(500).json({ message: "خطأ في حفظ إعدادات المستخدم" });
-    }
-  });
+  // ============ المشتريات: الموردين وأوامر الشراء واستلام البضاعة ============
 
-  // Database Management routes
-  app.get("/api/database/stats", requireAdmin, async (req, res) => {
-    try {
-      const stats = await storage.getDatabaseStats();
-      res.json(stats);
-    } catch (error) {
-      console.error("Error fetching database stats:", error);
-      res.status(500).json({ message: "خطأ في جلب إحصائيات قاعدة البيانات" });
-    }
-  });
+  app.get(
+    "/api/suppliers",
+    requireAuth,
+    requirePermission("view_purchasing"),
+    async (req, res) => {
+      try {
+        const supplierList = await storage.getSuppliers();
+        res.json(supplierList);
+      } catch (error) {
+        console.error("Error fetching suppliers:", error);
+        res.status(500).json({ message: "خطأ في جلب الموردين" });
+      }
+    },
+  );
 
-  app.post("/api/database/backup", requireAdmin, async (req, res) => {
-    try {
-      const backup = await storage.createDatabaseBackup();
+  app.post(
+    "/api/suppliers",
+    requireAuth,
+    requirePermission("create_purchasing"),
+    async (req, res) => {
+      try {
+        const data = insertSupplierSchema.parse(req.body);
+        const supplier = await storage.createSupplier(data);
+        res.status(201).json(supplier);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error creating supplier:", error);
+        res.status(500).json({ message: "خطأ في إنشاء المورد" });
+      }
+    },
+  );
 
-      // Set headers for file download
-      res.setHeader("Content-Type", "application/json");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${backup.filename}"`,
-      );
+  app.put(
+    "/api/suppliers/:id",
+    requireAuth,
+    requirePermission("update_purchasing"),
+    async (req, res) => {
+      try {
+        const data = insertSupplierSchema.partial().parse(req.body);
+        const supplier = await storage.updateSupplier(
+          parseInt(req.params.id),
+          data,
+        );
+        if (!supplier) {
+          return res.status(404).json({ message: "المورد غير موجود" });
+        }
+        res.json(supplier);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error updating supplier:", error);
+        res.status(500).json({ message: "خطأ في تحديث المورد" });
+      }
+    },
+  );
 
-      // Send the backup data directly for download
-      res.send(backup.data);
-    } catch (error) {
-      console.error("Error creating database backup:", error);
-      res.status(500).json({ message: "خطأ في إنشاء النسخة الاحتياطية" });
-    }
-  });
+  app.delete(
+    "/api/suppliers/:id",
+    requireAuth,
+    requirePermission("delete_purchasing"),
+    async (req, res) => {
+      try {
+        const deleted = await storage.deleteSupplier(parseInt(req.params.id));
+        if (!deleted) {
+          return res.status(404).json({ message: "المورد غير موجود" });
+        }
+        res.json({ message: "تم حذف المورد بنجاح" });
+      } catch (error) {
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error deleting supplier:", error);
+        res.status(500).json({ message: "خطأ في حذف المورد" });
+      }
+    },
+  );
 
+  // status=open: الأوامر المعتمدة بانتظار الاستلام مرتبة حسب تاريخ التسليم المتوقع
   app.get(
-    "/api/database/backup/download/:backupId",
-    requireAdmin,
+    "/api/purchase-orders",
+    requireAuth,
+    requirePermission("view_purchasing"),
     async (req, res) => {
       try {
-        const backupId = req.params.backupId;
-        const backupFile = await storage.getBackupFile(backupId);
+        const purchaseOrders = await storage.getPurchaseOrders({
+          status: req.query.status as string | undefined,
+          supplierId: req.query.supplier_id
+            ? parseInt(req.query.supplier_id as string)
+            : undefined,
+        });
+        res.json(purchaseOrders);
+      } catch (error) {
+        console.error("Error fetching purchase orders:", error);
+        res.status(500).json({ message: "خطأ في جلب أوامر الشراء" });
+      }
+    },
+  );
 
-        res.setHeader("Content-Type", "application/octet-stream");
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename="backup-${backupId}.sql"`,
+  app.get(
+    "/api/purchase-orders/:id",
+    requireAuth,
+    requirePermission("view_purchasing"),
+    async (req, res) => {
+      try {
+        const purchaseOrder = await storage.getPurchaseOrder(
+          parseInt(req.params.id),
         );
-        res.send(backupFile);
+        if (!purchaseOrder) {
+          return res.status(404).json({ message: "أمر الشراء غير موجود" });
+        }
+        res.json(purchaseOrder);
       } catch (error) {
-        console.error("Error downloading backup:", error);
-        res.status(500).json({ message: "خطأ في تحميل النسخة الاحتياطية" });
+        console.error("Error fetching purchase order:", error);
+        res.status(500).json({ message: "خطأ في جلب أمر الشراء" });
       }
     },
   );
 
-  app.post("/api/database/restore", requireAdmin, async (req, res) => {
-    try {
-      const { backupData } = req.body;
-      const result = await storage.restoreDatabaseBackup(backupData);
-      res.json({ message: "تم استعادة قاعدة البيانات بنجاح", result });
-    } catch (error) {
-      console.error("Error restoring database:", error);
-      res.status(500).json({ message: "خطأ في استعادة قاعدة البيانات" });
-    }
-  });
-
-  app.get("/api/database/export/:tableName", requireAdmin, async (req, res) => {
-    try {
-      const tableName = req.params.tableName;
-      const format = (req.query.format as string) || "csv";
-
-      const data = await storage.exportTableData(tableName, format);
-
-      let contentType = "text/csv";
-      let fileExtension = "csv";
-
-      switch (format) {
-        case "json":
-          contentType = "application/json";
-          fileExtension = "json";
-          break;
-        case "excel":
-          contentType =
-            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
-          fileExtension = "xlsx";
-          break;
+  app.post(
+    "/api/purchase-orders",
+    requireAuth,
+    requirePermission("create_purchasing"),
+    async (req, res) => {
+      try {
+        const data = insertPurchaseOrderSchema.parse(req.body);
+        const purchaseOrder = await storage.createPurchaseOrder(
+          data,
+          req.user!.id,
+        );
+        res.status(201).json(purchaseOrder);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error creating purchase order:", error);
+        res.status(500).json({ message: "خطأ في إنشاء أمر الشراء" });
       }
+    },
+  );
 
-      res.setHeader("Content-Type", contentType);
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${tableName}.${fileExtension}"`,
-      );
-
-      // Set proper charset for CSV to ensure Arabic text encoding
-      if (format === "csv") {
-        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  app.put(
+    "/api/purchase-orders/:id",
+    requireAuth,
+    requirePermission("update_purchasing"),
+    async (req, res) => {
+      try {
+        const data = insertPurchaseOrderSchema.parse(req.body);
+        const purchaseOrder = await storage.updatePurchaseOrder(
+          parseInt(req.params.id),
+          data,
+        );
+        res.json(purchaseOrder);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error updating purchase order:", error);
+        res.status(500).json({ message: "خطأ في تحديث أمر الشراء" });
       }
-
-      res.send(data);
-    } catch (error) {
-      console.error("Error exporting table data:", error);
-      res.status(500).json({ message: "خطأ في تصدير بيانات الجدول" });
-    }
-  });
+    },
+  );
 
   app.post(
-    "/api/database/import/:tableName",
-    requireAdmin,
+    "/api/purchase-orders/:id/approve",
+    requireAuth,
+    requirePermission("approve_purchasing"),
     async (req, res) => {
       try {
-        const tableName = req.params.tableName;
-        const { data, format } = req.body;
+        const purchaseOrder = await storage.approvePurchaseOrder(
+          parseInt(req.params.id),
+          req.user!.id,
+        );
+        res.json(purchaseOrder);
+      } catch (error) {
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error approving purchase order:", error);
+        res.status(500).json({ message: "خطأ في اعتماد أمر الشراء" });
+      }
+    },
+  );
 
-        const result = await storage.importTableData(tableName, data, format);
-        res.json({
-          message: "تم استيراد البيانات بنجاح",
-          importedRecords: result.count,
-        });
+  app.post(
+    "/api/purchase-orders/:id/cancel",
+    requireAuth,
+    requirePermission("update_purchasing"),
+    async (req, res) => {
+      try {
+        const purchaseOrder = await storage.cancelPurchaseOrder(
+          parseInt(req.params.id),
+          req.user!.id,
+        );
+        res.json(purchaseOrder);
       } catch (error) {
-        console.error("Error importing table data:", error);
-        res.status(500).json({ message: "خطأ في استيراد البيانات" });
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error cancelling purchase order:", error);
+        res.status(500).json({ message: "خطأ في إلغاء أمر الشراء" });
       }
     },
   );
 
-  // Enhanced batch import endpoint
+  // استلام البضاعة يتم غالباً من أمين المستودع
   app.post(
-    "/api/database/import/:tableName/batch",
-    requireAdmin,
+    "/api/purchase-orders/:id/receive",
+    requireAuth,
+    requirePermission("create_purchasing", "create_warehouse"),
     async (req, res) => {
       try {
-        const tableName = req.params.tableName;
-        const { data, options } = req.body;
-
-        if (!Array.isArray(data) || data.length === 0) {
+        const data = insertGoodsReceiptSchema.parse(req.body);
+        const receipt = await storage.receivePurchaseOrder(
+          parseInt(req.params.id),
+          data,
+          req.user!.id,
+        );
+        res.status(201).json(receipt);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
           return res
             .status(400)
-            .json({ message: "البيانات المرسلة غير صالحة" });
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
         }
-
-        console.log(
-          `Processing batch import for ${tableName}: ${data.length} records (Batch ${options?.batchNumber || 1}/${options?.totalBatches || 1})`,
-        );
-
-        const results = {
-          successful: 0,
-          failed: 0,
-          errors: [] as string[],
-          warnings: [] as string[],
-        };
-
-        // Process each record in the batch
-        for (let i = 0; i < data.length; i++) {
-          const record = data[i];
-
-          try {
-            // Validate and process the record based on table type
-            let processedRecord = { ...record };
-
-            // Table-specific processing
-            if (tableName === "customers") {
-              // Generate ID if not provided
-              if (!processedRecord.id) {
-                const existingCustomers = await storage.getCustomers();
-                const lastId =
-                  existingCustomers.length > 0
-                    ? Math.max(
-                        ...existingCustomers.map((c) => {
-                          const idNum = parseInt(c.id.replace("CID", ""));
-                          return isNaN(idNum) ? 0 : idNum;
-                        }),
-                      )
-                    : 0;
-                processedRecord.id = `CID${String(lastId + 1).padStart(4, "0")}`;
-              }
-
-              // Validate using schema
-              const validatedRecord =
-                insertCustomerSchema.parse(processedRecord);
-              await storage.createCustomer(validatedRecord);
-            } else if (tableName === "categories") {
-              // Generate ID if not provided
-              if (!processedRecord.id) {
-                const existingCategories = await storage.getCategories();
-                const lastId =
-                  existingCategories.length > 0
-                    ? Math.max(
-                        ...existingCategories.map((c) => {
-                          const idNum = parseInt(c.id.replace("CAT", ""));
-                          return isNaN(idNum) ? 0 : idNum;
-                        }),
-                      )
-                    : 0;
-                processedRecord.id = `CAT${String(lastId + 1).padStart(2, "0")}`;
-              }
-
-              await storage.createCategory(processedRecord);
-            } else if (tableName === "sections") {
-              // Generate ID if not provided
-              if (!processedRecord.id) {
-                const existingSections = await storage.getSections();
-                const lastId =
-                  existingSections.length > 0
-                    ? Math.max(
-                        ...existingSections.map((s) => {
-                          const idNum = parseInt(s.id.replace("SEC", ""));
-                          return isNaN(idNum) ? 0 : idNum;
-                        }),
-                      )
-                    : 0;
-                processedRecord.id = `SEC${String(lastId + 1).padStart(2, "0")}`;
-              }
-
-              await storage.createSection(processedRecord);
-            } else if (tableName === "items") {
-              // Generate ID if not provided
-              if (!processedRecord.id) {
-                const existingItems = await storage.getItems();
-                const lastId =
-                  existingItems.length > 0
-                    ? Math.max(
-                        ...existingItems.map((i) => {
-                          const idNum = parseInt(i.id.replace("ITM", ""));
-                          return isNaN(idNum) ? 0 : idNum;
-                        }),
-                      )
-                    : 0;
-                processedRecord.id = `ITM${String(lastId + 1).padStart(3, "0")}`;
-              }
-
-              await storage.createItem(processedRecord);
-            } else if (tableName === "customer_products") {
-              // Auto-increment numeric ID
-              if (!processedRecord.id) {
-                const existingProducts = await storage.getCustomerProducts();
-                const lastId =
-                  existingProducts.length > 0
-                    ? Math.max(
-                        ...existingProducts
-                          .map((p) => p.id)
-                          .filter((id) => typeof id === "number"),
-                      )
-                    : 0;
-                processedRecord.id = lastId + 1;
-              }
-
-              // Handle cutting_unit field specifically to ensure it's included
-              if (
-                processedRecord.cutting_unit !== undefined &&
-                processedRecord.cutting_unit !== null
-              ) {
-                // Keep the cutting_unit value as is
-                console.log(
-                  "Processing cutting_unit:",
-                  processedRecord.cutting_unit,
-                );
-              }
-
-              // Convert numeric string fields to proper types
-              const numericFields = [
-                "width",
-                "left_facing",
-                "right_facing",
-                "thickness",
-                "unit_weight_kg",
-                "package_weight_kg",
-              ];
-              numericFields.forEach((field) => {
-                if (
-                  processedRecord[field] &&
-                  typeof processedRecord[field] === "string"
-                ) {
-                  const numValue = parseFloat(processedRecord[field]);
-                  if (!isNaN(numValue)) {
-                    processedRecord[field] = numValue;
-                  }
-                }
-              });
-
-              const integerFields = ["cutting_length_cm", "unit_quantity"];
-              integerFields.forEach((field) => {
-                if (
-                  processedRecord[field] &&
-                  typeof processedRecord[field] === "string"
-                ) {
-                  const intValue = parseInt(processedRecord[field]);
-                  if (!isNaN(intValue)) {
-                    processedRecord[field] = intValue;
-                  }
-                }
-              });
-
-              // Handle boolean fields
-              if (processedRecord.is_printed !== undefined) {
-                processedRecord.is_printed =
-                  processedRecord.is_printed === "true" ||
-                  processedRecord.is_printed === true;
-              }
-
-              // Validate using schema
-              const validatedRecord =
-                insertCustomerProductSchema.parse(processedRecord);
-              await storage.createCustomerProduct(validatedRecord);
-            } else if (tableName === "users") {
-              // Auto-increment numeric ID
-              if (!processedRecord.id) {
-                const existingUsers = await storage.getSafeUsers();
-                const lastId =
-                  existingUsers.length > 0
-                    ? Math.max(...existingUsers.map((u) => u.id))
-                    : 0;
-                processedRecord.id = lastId + 1;
-              }
-
-              // Set default role if not provided
-              if (!processedRecord.role_id) {
-                processedRecord.role_id = 2; // Default user role
-              }
-
-              // Validate using schema
-              const validatedRecord = insertUserSchema.parse(processedRecord);
-              await storage.createUser(validatedRecord);
-            } else if (tableName === "machines") {
-              // Generate ID if not provided
-              if (!processedRecord.id) {
-                const existingMachines = await storage.getMachines();
-                const lastId =
-                  existingMachines.length > 0
-                    ? Math.max(
-                        ...existingMachines.map((m) => {
-                          const idNum = parseInt(m.id.replace("MAC", ""));
-                          return isNaN(idNum) ? 0 : idNum;
-                        }),
-                      )
-                    : 0;
-                processedRecord.id = `MAC${String(lastId + 1).padStart(2, "0")}`;
-              }
-
-              await storage.createMachine(processedRecord);
-            } else if (tableName === "locations") {
-              // Auto-increment numeric ID
-              if (!processedRecord.id) {
-                const existingLocations = await storage.getLocations();
-                const lastId =
-                  existingLocations.length > 0
-                    ? Math.max(
-                        ...existingLocations.map((l) =>
-                          typeof l.id === "number" ? l.id : parseInt(l.id),
-                        ),
-                      )
-                    : 0;
-                processedRecord.id = lastId + 1;
-              }
-
-              // Validate using schema
-              const validatedRecord =
-                insertLocationSchema.parse(processedRecord);
-              await storage.createLocation(validatedRecord);
-            } else {
-              // Generic handling for other tables
-              await storage.importTableData(tableName, [record], "json");
-            }
-
-            results.successful++;
-          } catch (error) {
-            results.failed++;
-            const errorMsg = `السجل ${i + 1}: ${error instanceof Error ? error.message : "خطأ غير معروف"}`;
-            results.errors.push(errorMsg);
-
-            if (!options?.continueOnError) {
-              // Stop processing if not continuing on error
-              break;
-            }
-          }
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
         }
+        console.error("Error receiving purchase order:", error);
+        res.status(500).json({ message: "خطأ في استلام أمر الشراء" });
+      }
+    },
+  );
 
-        res.json({
-          successful: results.successful,
-          failed: results.failed,
-          errors: results.errors,
-          warnings: results.warnings,
-          batchNumber: options?.batchNumber || 1,
-          totalBatches: options?.totalBatches || 1,
-        });
+  app.get(
+    "/api/goods-receipts",
+    requireAuth,
+    requirePermission("view_purchasing", "view_warehouse"),
+    async (req, res) => {
+      try {
+        const receipts = await storage.getGoodsReceipts(
+          req.query.purchase_order_id
+            ? parseInt(req.query.purchase_order_id as string)
+            : undefined,
+        );
+        res.json(receipts);
       } catch (error) {
-        console.error("Error in batch import:", error);
-        res.status(500).json({
-          message: "خطأ في معالجة الدفعة",
-          error: error instanceof Error ? error.message : "خطأ غير معروف",
-        });
+        console.error("Error fetching goods receipts:", error);
+        res.status(500).json({ message: "خطأ في جلب سندات الاستلام" });
       }
     },
   );
 
-  app.post("/api/database/optimize", requireAdmin, async (req, res) => {
-    try {
-      const result = await storage.optimizeTables();
-      res.json({ message: "تم تحسين الجداول بنجاح", result });
-    } catch (error) {
-      console.error("Error optimizing tables:", error);
-      res.status(500).json({ message: "خطأ في تحسين الجداول" });
-    }
-  });
-
-  app.post("/api/database/integrity-check", requireAdmin, async (req, res) => {
-    try {
-      const result = await storage.checkDatabaseIntegrity();
-      res.json({ message: "تم فحص تكامل قاعدة البيانات", result });
-    } catch (error) {
-      console.error("Error checking database integrity:", error);
-      res.status(500).json({ message: "خطأ في فحص تكامل قاعدة البيانات" });
-    }
-  });
-
-  app.post("/api/database/cleanup", requireAdmin, async (req, res) => {
-    try {
-      const { daysOld } = req.body;
-      const result = await storage.cleanupOldData(daysOld || 90);
-      res.json({
-        message: "تم تنظيف البيانات القديمة بنجاح",
-        deletedRecords: result.count,
-      });
-    } catch (error) {
-      console.error("Error cleaning up old data:", error);
-      res.status(500).json({ message: "خطأ في تنظيف البيانات القديمة" });
-    }
-  });
-
-  // ============ HR Attendance Management API ============
-
-  app.get("/api/attendance", async (req, res) => {
-    try {
-      const attendance = await storage.getAttendance();
-      res.json(attendance);
-    } catch (error) {
-      console.error("Error fetching attendance:", error);
-      res.status(500).json({ message: "خطأ في جلب بيانات الحضور" });
-    }
-  });
+  app.get(
+    "/api/purchasing/lead-times",
+    requireAuth,
+    requirePermission("view_purchasing"),
+    async (req, res) => {
+      try {
+        const stats = await storage.getSupplierLeadTimeStats();
+        res.json(stats);
+      } catch (error) {
+        console.error("Error fetching supplier lead times:", error);
+        res.status(500).json({ message: "خطأ في جلب إحصائيات مدة التوريد" });
+      }
+    },
+  );
 
-  // Get daily attendance status for a user
-  app.get("/api/attendance/daily-status/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const date =
-        (req.query.date as string) || new Date().toISOString().split("T")[0];
+  // فترة احتساب متوسط الاستهلاك بالأيام (days) - الافتراضي 90
+  const reorderLookbackSchema = z.coerce
+    .number()
+    .int()
+    .min(7, "فترة الاستهلاك يجب ألا تقل عن 7 أيام")
+    .max(365, "فترة الاستهلاك يجب ألا تتجاوز 365 يوم")
+    .default(DEFAULT_LOOKBACK_DAYS);
 
-      const status = await storage.getDailyAttendanceStatus(userId, date);
-      res.json(status);
-    } catch (error) {
-      console.error("Error fetching daily attendance status:", error);
-      res.status(500).json({ message: "خطأ في جلب حالة الحضور اليومية" });
-    }
-  });
+  app.get(
+    "/api/purchasing/reorder-suggestions",
+    requireAuth,
+    requirePermission("view_purchasing"),
+    async (req, res) => {
+      try {
+        const lookbackDays = reorderLookbackSchema.parse(req.query.days);
+        const reorderList = await storage.getReorderSuggestions(lookbackDays);
+        res.json(reorderList);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error building reorder suggestions:", error);
+        res.status(500).json({ message: "خطأ في حساب اقتراحات إعادة الطلب" });
+      }
+    },
+  );
 
-  app.post("/api/attendance", async (req, res) => {
-    try {
-      const attendance = await storage.createAttendance(req.body);
-
-      // Send attendance notification
-      try {
-        const user = await storage.getUserById(req.body.user_id);
-        if (user && user.phone) {
-          let messageTemplate = "";
-          let priority = "normal";
-
-          switch (req.body.status) {
-            case "حاضر":
-              messageTemplate = `مرحباً ${user.display_name_ar || user.username}، تم تسجيل حضورك اليوم بنجاح في ${new Date().toLocaleTimeString("ar")}. نتمنى لك يوم عمل مثمر!`;
-              priority = "normal";
-              break;
-            case "في الاستراحة":
-              messageTemplate = `${user.display_name_ar || user.username}، تم تسجيل بدء استراحة الغداء في ${new Date().toLocaleTimeString("ar")}. استمتع بوقت راحتك!`;
-              priority = "low";
-              break;
-            case "يعمل":
-              messageTemplate = `${user.display_name_ar || user.username}، تم تسجيل انتهاء استراحة الغداء في ${new Date().toLocaleTimeString("ar")}. مرحباً بعودتك للعمل!`;
-              priority = "normal";
-              break;
-            case "مغادر":
-              messageTemplate = `${user.display_name_ar || user.username}، تم تسجيل انصرافك في ${new Date().toLocaleTimeString("ar")}. شكراً لجهودك اليوم، نراك غداً!`;
-              priority = "normal";
-              break;
-          }
+  app.get(
+    "/api/purchasing/reorder-suggestions/export",
+    requireAuth,
+    requirePermission("export_purchasing"),
+    async (req, res) => {
+      try {
+        const lookbackDays = reorderLookbackSchema.parse(req.query.days);
+        const format = req.query.format === "csv" ? "csv" : "xlsx";
+        const reorderList = await storage.getReorderSuggestions(lookbackDays);
 
-          if (messageTemplate) {
-            await notificationService.sendWhatsAppMessage(
-              user.phone,
-              messageTemplate,
-              {
-                title: "تنبيه الحضور",
-                priority,
-                context_type: "attendance",
-                context_id: attendance.id?.toString(),
-              },
-            );
-          }
+        if (format === "csv") {
+          res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        } else {
+          res.setHeader(
+            "Content-Type",
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          );
         }
-      } catch (notificationError) {
-        console.error(
-          "Failed to send attendance notification:",
-          notificationError,
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="reorder-list-${new Date().toISOString().slice(0, 10)}.${format}"`,
+        );
+        res.send(
+          format === "csv"
+            ? reorderListToCSV(reorderList)
+            : reorderListToXLSX(reorderList),
         );
-        // Don't fail the main request if notification fails
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message });
+        }
+        console.error("Error exporting reorder suggestions:", error);
+        res.status(500).json({ message: "خطأ في تصدير قائمة إعادة الطلب" });
       }
+    },
+  );
 
-      res.status(201).json(attendance);
-    } catch (error) {
-      console.error("Error creating attendance:", error);
-
-      // Return the specific error message for validation errors
-      if (error instanceof Error && error.message.includes("تم تسجيل")) {
-        return res.status(400).json({ message: error.message });
+  app.post(
+    "/api/purchasing/reorder-suggestions/convert",
+    requireAuth,
+    requirePermission("create_purchasing"),
+    async (req, res) => {
+      try {
+        const data = reorderConversionSchema.parse(req.body);
+        const purchaseOrders = await storage.convertReorderSuggestions(
+          data,
+          req.user!.id,
+        );
+        res.status(201).json(purchaseOrders);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof PurchasingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error converting reorder suggestions:", error);
+        res.status(500).json({ message: "خطأ في إنشاء أوامر الشراء" });
       }
+    },
+  );
 
-      if (error instanceof Error && error.message.includes("يجب")) {
-        return res.status(400).json({ message: error.message });
+  // Stock takes (الجرد الفعلي)
+  app.get(
+    "/api/stock-takes",
+    requireAuth,
+    requirePermission("view_inventory", "view_warehouse"),
+    async (req, res) => {
+      try {
+        const stockTakes = await storage.getStockTakes({
+          status: req.query.status as string | undefined,
+          locationId: req.query.location_id as string | undefined,
+        });
+        res.json(stockTakes);
+      } catch (error) {
+        console.error("Error fetching stock takes:", error);
+        res.status(500).json({ message: "خطأ في جلب عمليات الجرد" });
       }
+    },
+  );
 
-      res.status(500).json({ message: "خطأ في إنشاء سجل الحضور" });
-    }
-  });
-
-  app.put("/api/attendance/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const attendance = await storage.updateAttendance(id, req.body);
-      res.json(attendance);
-    } catch (error) {
-      console.error("Error updating attendance:", error);
-      res.status(500).json({ message: "خطأ في تحديث سجل الحضور" });
-    }
-  });
-
-  app.delete("/api/attendance/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteAttendance(id);
-      res.json({ message: "تم حذف سجل الحضور بنجاح" });
-    } catch (error) {
-      console.error("Error deleting attendance:", error);
-      res.status(500).json({ message: "خطأ في حذف سجل الحضور" });
-    }
-  });
-
-  // ============ User Violations Management API ============
-
-  app.get("/api/violations", async (req, res) => {
-    try {
-      const violations = await storage.getViolations();
-      res.json(violations);
-    } catch (error) {
-      console.error("Error fetching violations:", error);
-      res.status(500).json({ message: "خطأ في جلب بيانات المخالفات" });
-    }
-  });
-
-  app.post("/api/violations", async (req, res) => {
-    try {
-      const violation = await storage.createViolation(req.body);
-      res.status(201).json(violation);
-    } catch (error) {
-      console.error("Error creating violation:", error);
-      res.status(500).json({ message: "خطأ في إنشاء المخالفة" });
-    }
-  });
-
-  app.put("/api/violations/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const violation = await storage.updateViolation(id, req.body);
-      res.json(violation);
-    } catch (error) {
-      console.error("Error updating violation:", error);
-      res.status(500).json({ message: "خطأ في تحديث المخالفة" });
-    }
-  });
-
-  app.delete("/api/violations/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteViolation(id);
-      res.json({ message: "تم حذف المخالفة بنجاح" });
-    } catch (error) {
-      console.error("Error deleting violation:", error);
-      res.status(500).json({ message: "خطأ في حذف المخالفة" });
-    }
-  });
-
-  // ============ User Requests Management API ============
-
-  app.get("/api/user-requests", async (req, res) => {
-    try {
-      console.log("Fetching user requests - Session ID:", req.sessionID);
-      console.log(
-        "Fetching user requests - User ID in session:",
-        req.session.userId,
-      );
-
-      const requests = await storage.getUserRequests();
-      console.log("Found", requests.length, "user requests");
-
-      res.json(requests);
-    } catch (error) {
-      console.error("Error fetching user requests:", error);
-      res.status(500).json({ message: "خطأ في جلب طلبات المستخدمين" });
-    }
-  });
-
-  app.post("/api/user-requests", async (req, res) => {
-    try {
-      const request = await storage.createUserRequest(req.body);
-      res.status(201).json(request);
-    } catch (error) {
-      console.error("Error creating user request:", error);
-      res.status(500).json({ message: "خطأ في إنشاء الطلب" });
-    }
-  });
-
-  app.put("/api/user-requests/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const request = await storage.updateUserRequest(id, req.body);
-      res.json(request);
-    } catch (error) {
-      console.error("Error updating user request:", error);
-      res.status(500).json({ message: "خطأ في تحديث الطلب" });
-    }
-  });
-
-  app.patch("/api/user-requests/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const request = await storage.updateUserRequest(id, req.body);
-      res.json(request);
-    } catch (error) {
-      console.error("Error updating user request:", error);
-      res.status(500).json({ message: "خطأ في تحديث الطلب" });
-    }
-  });
-
-  app.delete("/api/user-requests/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteUserRequest(id);
-      res.json({ message: "تم حذف الطلب بنجاح" });
-    } catch (error) {
-      console.error("Error deleting user request:", error);
-      res.status(500).json({ message: "خطأ في حذف الطلب" });
-    }
-  });
-
-  // ============ PRODUCTION FLOW API ENDPOINTS ============
-
-  // Production Settings
-  app.get("/api/production/settings", async (req, res) => {
-    try {
-      const settings = await storage.getProductionSettings();
-      res.json(settings);
-    } catch (error) {
-      console.error("Error fetching production settings:", error);
-      res.status(500).json({ message: "خطأ في جلب إعدادات الإنتاج" });
-    }
-  });
+  app.get(
+    "/api/stock-takes/:id",
+    requireAuth,
+    requirePermission("view_inventory", "view_warehouse"),
+    async (req, res) => {
+      try {
+        const stockTake = await storage.getStockTake(parseInt(req.params.id));
+        if (!stockTake) {
+          return res.status(404).json({ message: "الجرد غير موجود" });
+        }
+        res.json(stockTake);
+      } catch (error) {
+        console.error("Error fetching stock take:", error);
+        res.status(500).json({ message: "خطأ في جلب تفاصيل الجرد" });
+      }
+    },
+  );
 
-  app.patch("/api/production/settings", async (req, res) => {
-    try {
-      const validationSchema = insertProductionSettingsSchema
-        .pick({
-          overrun_tolerance_percent: true,
-          allow_last_roll_overrun: true,
-          qr_prefix: true,
-        })
-        .extend({
-          overrun_tolerance_percent: z
-            .number()
-            .min(0)
-            .max(10)
-            .transform((v) => Number(v.toFixed(2))),
-          qr_prefix: z.string().min(1, "بادئة الـ QR مطلوبة"),
+  // ورقة العد: بدون أرصدة النظام (عدّ أعمى) مع رمز QR لكل صنف يُمسح عند العد
+  app.get(
+    "/api/stock-takes/:id/count-sheet",
+    requireAuth,
+    requirePermission("view_inventory", "view_warehouse"),
+    async (req, res) => {
+      try {
+        const stockTake = await storage.getStockTake(parseInt(req.params.id));
+        if (!stockTake) {
+          return res.status(404).json({ message: "الجرد غير موجود" });
+        }
+        const lines = [];
+        for (const line of stockTake.lines) {
+          lines.push({
+            id: line.id,
+            barcode: line.barcode,
+            item_code: line.item_code,
+            item_name: line.item_name,
+            item_name_ar: line.item_name_ar,
+            unit: line.unit,
+            qr_code: await QRCode.toDataURL(line.barcode, {
+              width: 120,
+              margin: 1,
+            }),
+          });
+        }
+        res.json({
+          stock_take_number: stockTake.stock_take_number,
+          status: stockTake.status,
+          location_name: stockTake.location_name,
+          created_at: stockTake.created_at,
+          notes: stockTake.notes,
+          lines,
         });
+      } catch (error) {
+        console.error("Error generating stock take count sheet:", error);
+        res.status(500).json({ message: "خطأ في إنشاء ورقة العد" });
+      }
+    },
+  );
 
-      const validated = validationSchema.parse(req.body);
-      const settings = await storage.updateProductionSettings(validated);
-      res.json(settings);
-    } catch (error) {
-      console.error("Error updating production settings:", error);
-      res.status(400).json({ message: "خطأ في تحديث إعدادات الإنتاج" });
-    }
-  });
+  app.post(
+    "/api/stock-takes",
+    requireAuth,
+    requirePermission("create_inventory"),
+    async (req, res) => {
+      try {
+        const data = insertStockTakeSchema.parse(req.body);
+        const stockTake = await storage.createStockTake(data, req.user!.id);
+        res.status(201).json(stockTake);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof StockTakeError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error creating stock take:", error);
+        res.status(500).json({ message: "خطأ في إنشاء الجرد" });
+      }
+    },
+  );
 
-  // Start Production
-  app.patch("/api/production-orders/:id/start-production", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const productionOrder = await storage.startProduction(id);
-      res.json(productionOrder);
-    } catch (error) {
-      console.error("Error starting production:", error);
-      res.status(400).json({ message: "خطأ في بدء الإنتاج" });
-    }
-  });
+  app.post(
+    "/api/stock-takes/:id/counts",
+    requireAuth,
+    requirePermission("create_inventory", "create_warehouse"),
+    async (req, res) => {
+      try {
+        const data = stockTakeCountSchema.parse(req.body);
+        const line = await storage.recordStockTakeCount(
+          parseInt(req.params.id),
+          data,
+          req.user!.id,
+        );
+        res.json(line);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof StockTakeError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error recording stock take count:", error);
+        res.status(500).json({ message: "خطأ في تسجيل العدّ" });
+      }
+    },
+  );
 
-  // Create Roll with QR
   app.post(
-    "/api/rolls",
+    "/api/stock-takes/:id/post",
     requireAuth,
-    validateRequest({ body: insertRollSchema.omit({ created_by: true }) }),
+    requirePermission("approve_inventory"),
     async (req, res) => {
       try {
-        console.log(
-          "Roll creation request body:",
-          JSON.stringify(req.body, null, 2),
+        const data = stockTakePostingSchema.parse(req.body);
+        const stockTake = await storage.postStockTake(
+          parseInt(req.params.id),
+          data,
+          req.user!.id,
         );
-        console.log("Session userId:", req.session.userId);
+        res.json(stockTake);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: error.errors[0]?.message || "بيانات غير صحيحة" });
+        }
+        if (error instanceof StockTakeError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error posting stock take:", error);
+        res.status(500).json({ message: "خطأ في ترحيل الجرد" });
+      }
+    },
+  );
 
-        // Ensure session userId is valid
-        if (!req.session.userId || typeof req.session.userId !== "number") {
-          return res.status(401).json({ message: "معرف المستخدم غير صحيح" });
+  app.post(
+    "/api/stock-takes/:id/cancel",
+    requireAuth,
+    requirePermission("update_inventory", "approve_inventory"),
+    async (req, res) => {
+      try {
+        const stockTake = await storage.cancelStockTake(
+          parseInt(req.params.id),
+          req.user!.id,
+        );
+        res.json(stockTake);
+      } catch (error) {
+        if (error instanceof StockTakeError) {
+          return res.status(400).json({ message: error.message });
         }
+        console.error("Error cancelling stock take:", error);
+        res.status(500).json({ message: "خطأ في إلغاء الجرد" });
+      }
+    },
+  );
 
-        // Get DataValidator for business rule enforcement
-        const dataValidator = getDataValidator(storage);
+  // Production Queues
+  app.get(
+    "/api/production/film-queue",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const queue = await storage.getFilmQueue();
+        res.json(queue);
+      } catch (error) {
+        console.error("Error fetching film queue:", error);
+        res.status(500).json({ message: "خطأ في جلب قائمة الفيلم" });
+      }
+    },
+  );
 
-        // Add created_by from session and validate the complete data
-        const rollData = {
-          ...req.body,
-          created_by: Number(req.session.userId),
-        };
+  app.get(
+    "/api/production/printing-queue",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const queue = await storage.getPrintingQueue();
+        res.json(queue);
+      } catch (error) {
+        console.error("Error fetching printing queue:", error);
+        res.status(500).json({ message: "خطأ في جلب قائمة الطباعة" });
+      }
+    },
+  );
 
-        // Validate with insertRollSchema AFTER adding created_by
-        let validatedRollData;
-        try {
-          validatedRollData = insertRollSchema.parse(rollData);
-          console.log("Validation successful for roll data");
-        } catch (validationError) {
-          console.error("Roll schema validation failed:", validationError);
-          if (validationError instanceof z.ZodError) {
-            return res.status(400).json({
-              message: "بيانات غير صحيحة",
-              errors: validationError.errors,
-            });
-          }
-          throw validationError;
-        }
+  app.get(
+    "/api/production/cutting-queue",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const queue = await storage.getCuttingQueue();
+        res.json(queue);
+      } catch (error) {
+        console.error("Error fetching cutting queue:", error);
+        res.status(500).json({ message: "خطأ في جلب قائمة التقطيع" });
+      }
+    },
+  );
 
-        console.log(
-          "Final validated roll data:",
-          JSON.stringify(validatedRollData, null, 2),
-        );
+  app.get(
+    "/api/production/grouped-cutting-queue",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const queue = await storage.getGroupedCuttingQueue();
+        res.json(queue);
+      } catch (error) {
+        console.error("Error fetching grouped cutting queue:", error);
+        res.status(500).json({ message: "خطأ في جلب قائمة التقطيع المجمعة" });
+      }
+    },
+  );
 
-        // INVARIANT B: Validate roll weight against production order limits
-        const productionOrder = await storage.getProductionOrderById(
-          validatedRollData.production_order_id,
-        );
-        if (!productionOrder) {
-          return res.status(400).json({
-            message: "أمر الإنتاج غير موجود",
-            field: "production_order_id",
-          });
-        }
+  // خطة جدولة الإنتاج بالقدرة المحدودة (مخطط جانت)
+  app.get(
+    "/api/production/schedule",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const schedule = await storage.getProductionSchedule();
+        res.json(schedule);
+      } catch (error) {
+        console.error("Error building production schedule:", error);
+        res.status(500).json({ message: "خطأ في جلب خطة جدولة الإنتاج" });
+      }
+    },
+  );
 
-        // INVARIANT E: Validate film machine is active (printing and cutting machines assigned in later stages)
-        const filmMachine = await storage.getMachineById(
-          validatedRollData.film_machine_id,
-        );
-        if (!filmMachine) {
-          return res.status(400).json({
-            message: "ماكينة الفيلم غير موجودة",
-            field: "film_machine_id",
-          });
-        }
-        if (filmMachine.status !== "active") {
-          return res.status(400).json({
-            message: "ماكينة الفيلم غير نشطة - لا يمكن إنشاء رولات عليها",
-            field: "film_machine_id",
-          });
-        }
+  // Production hall - get production orders ready for warehouse receipt
+  app.get(
+    "/api/warehouse/production-hall",
+    requireAuth,
+    requirePermission("view_warehouse"),
+    async (req, res) => {
+      try {
+        const productionOrders = await storage.getProductionOrdersForReceipt();
+        res.json(productionOrders);
+      } catch (error) {
+        console.error("Error fetching production hall data:", error);
+        res.status(500).json({ message: "خطأ في جلب بيانات صالة الإنتاج" });
+      }
+    },
+  );
 
-        // Run synchronous business rule validation
-        const validationResult =
-          await dataValidator.validateRollCreation(validatedRollData);
-        if (!validationResult.isValid) {
-          return res.status(400).json({
-            message: "فشل في التحقق من قواعد العمل",
-            errors: validationResult.errors,
-            warnings: validationResult.warnings,
-          });
-        }
+  // Create warehouse receipt from production hall
+  app.post(
+    "/api/warehouse/receipts",
+    requireAuth,
+    requirePermission("create_warehouse"),
+    async (req, res) => {
+      try {
+        const receiptData = req.body;
+        const receipt = await storage.createWarehouseReceipt(receiptData);
+        res.json(receipt);
+      } catch (error) {
+        console.error("Error creating warehouse receipt:", error);
+        res.status(500).json({ message: "خطأ في تسجيل استلام المستودع" });
+      }
+    },
+  );
 
-        // Generate QR code and roll number with validation passed
-        const roll = await storage.createRoll(validatedRollData);
-        res.status(201).json(roll);
+  app.get(
+    "/api/production/order-progress/:jobOrderId",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const jobOrderId = parseInt(req.params.jobOrderId);
+        const progress = await storage.getOrderProgress(jobOrderId);
+        res.json(progress);
       } catch (error) {
-        console.error("Error creating roll:", error);
-        if (error instanceof z.ZodError) {
-          console.error("Validation errors:", error.errors);
-          res.status(400).json({
-            message: "بيانات غير صحيحة",
-            errors: error.errors,
-          });
-        } else if (
-          error instanceof Error &&
-          error.message.includes("تجاوزت الحد المسموح")
-        ) {
-          res.status(400).json({ message: error.message });
-        } else {
-          res.status(500).json({ message: "خطأ في إنشاء الرول" });
+        console.error("Error fetching order progress:", error);
+        res.status(500).json({ message: "خطأ في جلب تقدم الطلب" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/rolls/:id/qr",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const qrData = await storage.getRollQR(id);
+        res.json(qrData);
+      } catch (error) {
+        console.error("Error fetching roll QR:", error);
+        res.status(500).json({ message: "خطأ في جلب رمز QR للرول" });
+      }
+    },
+  );
+
+  // Label printing endpoint - generates 4" x 5" label
+  app.get(
+    "/api/rolls/:id/label",
+    requireAuth,
+    requirePermission("view_production"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const labelData = await storage.getRollLabelData(id);
+        res.json(labelData);
+      } catch (error) {
+        console.error("Error generating roll label:", error);
+        res.status(500).json({ message: "خطأ في توليد ليبل الرول" });
+      }
+    },
+  );
+
+  // تتبع الرول: العميل ← الطلب ← أمر الإنتاج ← الرول ← القطع ← استلام المستودع
+  // يقبل رقم الرول التسلسلي (id) أو رقم الرول المطبوع في رمز QR
+  app.get(
+    "/api/rolls/:id/trace",
+    requireAuth,
+    requirePermission("view_production", "view_quality"),
+    async (req, res) => {
+      try {
+        const ref = req.params.id.trim();
+        const trace = await storage.getRollTrace(
+          /^\d+$/.test(ref) ? parseInt(ref, 10) : ref,
+        );
+        if (!trace) {
+          return res.status(404).json({ message: "الرول غير موجود" });
         }
+        res.json(trace);
+      } catch (error) {
+        console.error("Error tracing roll:", error);
+        res.status(500).json({ message: "خطأ في جلب بيانات تتبع الرول" });
       }
     },
   );
 
-  // Printing Operations
-  app.patch("/api/rolls/:id/print", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (!req.session.userId) {
-        return res.status(401).json({ message: "غير مسجل الدخول" });
-      }
-      
-      const { printing_machine_id } = req.body;
-      
-      // Validate printing machine if provided
-      if (printing_machine_id) {
-        const machine = await storage.getMachineById(printing_machine_id);
-        if (!machine) {
-          return res.status(400).json({ message: "ماكينة الطباعة غير موجودة" });
-        }
-        if (machine.status !== "active") {
-          return res.status(400).json({ message: "ماكينة الطباعة غير نشطة" });
-        }
-      }
-      
-      const roll = await storage.markRollPrinted(id, req.session.userId, printing_machine_id);
-      res.json(roll);
-    } catch (error) {
-      console.error("Error marking roll printed:", error);
-      res.status(400).json({ message: "خطأ في تسجيل طباعة الرول" });
-    }
-  });
-
-  // Cutting Operations
-  app.post("/api/cuts", async (req, res) => {
-    try {
-      const validationSchema = insertCutSchema.extend({
-        cut_weight_kg: z.coerce
-          .number()
-          .gt(0, "الوزن يجب أن يكون أكبر من صفر")
-          .max(50000, "الوزن يتجاوز 50 طن")
-          .transform((v) => Number(v.toFixed(3))),
-        pieces_count: z.coerce.number().positive().optional(),
-        cutting_machine_id: z.string().min(1, "يجب اختيار ماكينة القطع"),
-      });
+  // البحث العكسي: جميع الرولات التي عملت عليها ماكينة خلال فترة زمنية
+  app.get(
+    "/api/rolls/affected",
+    requireAuth,
+    requirePermission("view_production", "view_quality"),
+    async (req, res) => {
+      try {
+        const machineId = req.query.machine_id as string | undefined;
+        const from = new Date(req.query.from as string);
+        const to = new Date(req.query.to as string);
 
-      const validated = validationSchema.parse(req.body);
-      if (!req.session.userId) {
-        return res.status(401).json({ message: "غير مسجل الدخول" });
-      }
-      
-      // Validate cutting machine
-      const { cutting_machine_id } = validated;
-      if (cutting_machine_id) {
-        const machine = await storage.getMachineById(cutting_machine_id);
-        if (!machine) {
-          return res.status(400).json({ message: "ماكينة القطع غير موجودة" });
+        if (!machineId) {
+          return res.status(400).json({ message: "يجب تحديد الماكينة" });
         }
-        if (machine.status !== "active") {
-          return res.status(400).json({ message: "ماكينة القطع غير نشطة" });
+        if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+          return res
+            .status(400)
+            .json({ message: "يجب تحديد بداية ونهاية الفترة بشكل صحيح" });
+        }
+        if (from > to) {
+          return res
+            .status(400)
+            .json({ message: "بداية الفترة يجب أن تسبق نهايتها" });
         }
-      }
-      
-      const cut = await storage.createCut({
-        ...validated,
-        performed_by: req.session.userId,
-      });
-      res.status(201).json(cut);
-    } catch (error) {
-      console.error("Error creating cut:", error);
-      if (
-        error instanceof Error &&
-        error.message.includes("الوزن المطلوب أكبر من المتاح")
-      ) {
-        res.status(400).json({ message: error.message });
-      } else {
-        res.status(500).json({ message: "خطأ في تسجيل القطع" });
-      }
-    }
-  });
-
-  // Warehouse Receipts
-  app.post("/api/warehouse/receipts", async (req, res) => {
-    try {
-      const validationSchema = insertWarehouseReceiptSchema.extend({
-        received_weight_kg: z.coerce
-          .number()
-          .gt(0, "الوزن يجب أن يكون أكبر من صفر")
-          .max(50000, "الوزن يتجاوز 50 طن")
-          .transform((v) => Number(v.toFixed(3))),
-      });
 
-      const validated = validationSchema.parse(req.body);
-      if (!req.session.userId) {
-        return res.status(401).json({ message: "غير مسجل الدخول" });
+        const affected = await storage.getRollsByMachineWindow(
+          machineId,
+          from,
+          to,
+        );
+        res.json(affected);
+      } catch (error) {
+        console.error("Error fetching affected rolls:", error);
+        res.status(500).json({ message: "خطأ في البحث عن الرولات المتأثرة" });
       }
-      const receipt = await storage.createWarehouseReceipt({
-        ...validated,
-        received_by: req.session.userId,
-      });
-      res.status(201).json(receipt);
-    } catch (error) {
-      console.error("Error creating warehouse receipt:", error);
-      res.status(500).json({ message: "خطأ في تسجيل استلام المستودع" });
-    }
-  });
-
-  // Get warehouse receipts with detailed information grouped by order number
-  app.get("/api/warehouse/receipts-detailed", async (req, res) => {
-    try {
-      const receipts = await storage.getWarehouseReceiptsDetailed();
-      res.json(receipts);
-    } catch (error) {
-      console.error("Error fetching detailed warehouse receipts:", error);
-      res.status(500).json({ message: "خطأ في جلب تفاصيل إيصالات المستودع" });
-    }
-  });
-
-  // Production Queues
-  app.get("/api/production/film-queue", async (req, res) => {
-    try {
-      const queue = await storage.getFilmQueue();
-      res.json(queue);
-    } catch (error) {
-      console.error("Error fetching film queue:", error);
-      res.status(500).json({ message: "خطأ في جلب قائمة الفيلم" });
-    }
-  });
-
-  app.get("/api/production/printing-queue", async (req, res) => {
-    try {
-      const queue = await storage.getPrintingQueue();
-      res.json(queue);
-    } catch (error) {
-      console.error("Error fetching printing queue:", error);
-      res.status(500).json({ message: "خطأ في جلب قائمة الطباعة" });
-    }
-  });
-
-  app.get("/api/production/cutting-queue", async (req, res) => {
-    try {
-      const queue = await storage.getCuttingQueue();
-      res.json(queue);
-    } catch (error) {
-      console.error("Error fetching cutting queue:", error);
-      res.status(500).json({ message: "خطأ في جلب قائمة التقطيع" });
-    }
-  });
-
-  app.get("/api/production/grouped-cutting-queue", async (req, res) => {
-    try {
-      const queue = await storage.getGroupedCuttingQueue();
-      res.json(queue);
-    } catch (error) {
-      console.error("Error fetching grouped cutting queue:", error);
-      res.status(500).json({ message: "خطأ في جلب قائمة التقطيع المجمعة" });
-    }
-  });
-
-  // Production hall - get production orders ready for warehouse receipt
-  app.get("/api/warehouse/production-hall", async (req, res) => {
-    try {
-      const productionOrders = await storage.getProductionOrdersForReceipt();
-      res.json(productionOrders);
-    } catch (error) {
-      console.error("Error fetching production hall data:", error);
-      res.status(500).json({ message: "خطأ في جلب بيانات صالة الإنتاج" });
-    }
-  });
-
-  // Create warehouse receipt from production hall
-  app.post("/api/warehouse/receipts", async (req, res) => {
-    try {
-      const receiptData = req.body;
-      const receipt = await storage.createWarehouseReceipt(receiptData);
-      res.json(receipt);
-    } catch (error) {
-      console.error("Error creating warehouse receipt:", error);
-      res.status(500).json({ message: "خطأ في تسجيل استلام المستودع" });
-    }
-  });
-
-  app.get("/api/production/order-progress/:jobOrderId", async (req, res) => {
-    try {
-      const jobOrderId = parseInt(req.params.jobOrderId);
-      const progress = await storage.getOrderProgress(jobOrderId);
-      res.json(progress);
-    } catch (error) {
-      console.error("Error fetching order progress:", error);
-      res.status(500).json({ message: "خطأ في جلب تقدم الطلب" });
-    }
-  });
-
-  app.get("/api/rolls/:id/qr", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const qrData = await storage.getRollQR(id);
-      res.json(qrData);
-    } catch (error) {
-      console.error("Error fetching roll QR:", error);
-      res.status(500).json({ message: "خطأ في جلب رمز QR للرول" });
-    }
-  });
-
-  // Label printing endpoint - generates 4" x 5" label
-  app.get("/api/rolls/:id/label", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const labelData = await storage.getRollLabelData(id);
-      res.json(labelData);
-    } catch (error) {
-      console.error("Error generating roll label:", error);
-      res.status(500).json({ message: "خطأ في توليد ليبل الرول" });
-    }
-  });
+    },
+  );
 
   // ============ Production Monitoring Analytics API Routes ============
 
   // Get user performance statistics
-  app.get("/api/production/user-performance", requireAuth, async (req, res) => {
-    try {
-      const userId = req.query.user_id
-        ? parseIntSafe(req.query.user_id as string, "User ID", { min: 1 })
-        : undefined;
-      const dateFrom = (req.query.date_from as string) || undefined;
-      const dateTo = (req.query.date_to as string) || undefined;
-
-      // Validate date format if provided
-      if (dateFrom && !/^\d{4}-\d{2}-\d{2}$/.test(dateFrom)) {
-        return res
-          .status(400)
-          .json({ message: "تنسيق تاريخ البداية غير صحيح (YYYY-MM-DD)" });
-      }
-      if (dateTo && !/^\d{4}-\d{2}-\d{2}$/.test(dateTo)) {
-        return res
-          .status(400)
-          .json({ message: "تنسيق تاريخ النهاية غير صحيح (YYYY-MM-DD)" });
-      }
+  app.get(
+    "/api/production/user-performance",
+    requireAuth,
+    requirePermission("view_production_monitoring", "view_production"),
+    async (req, res) => {
+      try {
+        const userId = req.query.user_id
+          ? parseIntSafe(req.query.user_id as string, "User ID", { min: 1 })
+          : undefined;
+        const dateFrom = (req.query.date_from as string) || undefined;
+        const dateTo = (req.query.date_to as string) || undefined;
 
-      const performance = await storage.getUserPerformanceStats(
-        userId,
-        dateFrom,
-        dateTo,
-      );
+        // Validate date format if provided
+        if (dateFrom && !/^\d{4}-\d{2}-\d{2}$/.test(dateFrom)) {
+          return res
+            .status(400)
+            .json({ message: "تنسيق تاريخ البداية غير صحيح (YYYY-MM-DD)" });
+        }
+        if (dateTo && !/^\d{4}-\d{2}-\d{2}$/.test(dateTo)) {
+          return res
+            .status(400)
+            .json({ message: "تنسيق تاريخ النهاية غير صحيح (YYYY-MM-DD)" });
+        }
 
-      res.json({
-        data: performance,
-        period: {
-          from: dateFrom || "آخر 7 أيام",
-          to: dateTo || "اليوم",
-          user_filter: userId ? `المستخدم ${userId}` : "جميع المستخدمين",
-        },
-        lastUpdated: new Date().toISOString(),
-      });
-    } catch (error: any) {
-      console.error("Error fetching user performance stats:", error);
-      res.status(500).json({
-        message: "خطأ في جلب إحصائيات أداء المستخدمين",
-        error: error.message,
-      });
-    }
-  });
+        const performance = await storage.getUserPerformanceStats(
+          userId,
+          dateFrom,
+          dateTo,
+        );
+
+        res.json({
+          data: performance,
+          period: {
+            from: dateFrom || "آخر 7 أيام",
+            to: dateTo || "اليوم",
+            user_filter: userId ? `المستخدم ${userId}` : "جميع المستخدمين",
+          },
+          lastUpdated: new Date().toISOString(),
+        });
+      } catch (error: any) {
+        console.error("Error fetching user performance stats:", error);
+        res.status(500).json({
+          message: "خطأ في جلب إحصائيات أداء المستخدمين",
+          error: error.message,
+        });
+      }
+    },
+  );
 
   // Get role performance statistics
-  app.get("/api/production/role-performance", requireAuth, async (req, res) => {
-    try {
-      const dateFrom = (req.query.date_from as string) || undefined;
-      const dateTo = (req.query.date_to as string) || undefined;
+  app.get(
+    "/api/production/role-performance",
+    requireAuth,
+    requirePermission("view_production_monitoring", "view_production"),
+    async (req, res) => {
+      try {
+        const dateFrom = (req.query.date_from as string) || undefined;
+        const dateTo = (req.query.date_to as string) || undefined;
 
-      // Validate date format if provided
-      if (dateFrom && !/^\d{4}-\d{2}-\d{2}$/.test(dateFrom)) {
-        return res
-          .status(400)
-          .json({ message: "تنسيق تاريخ البداية غير صحيح (YYYY-MM-DD)" });
-      }
-      if (dateTo && !/^\d{4}-\d{2}-\d{2}$/.test(dateTo)) {
-        return res
-          .status(400)
-          .json({ message: "تنسيق تاريخ النهاية غير صحيح (YYYY-MM-DD)" });
-      }
+        // Validate date format if provided
+        if (dateFrom && !/^\d{4}-\d{2}-\d{2}$/.test(dateFrom)) {
+          return res
+            .status(400)
+            .json({ message: "تنسيق تاريخ البداية غير صحيح (YYYY-MM-DD)" });
+        }
+        if (dateTo && !/^\d{4}-\d{2}-\d{2}$/.test(dateTo)) {
+          return res
+            .status(400)
+            .json({ message: "تنسيق تاريخ النهاية غير صحيح (YYYY-MM-DD)" });
+        }
 
-      const performance = await storage.getRolePerformanceStats(
-        dateFrom,
-        dateTo,
-      );
+        const performance = await storage.getRolePerformanceStats(
+          dateFrom,
+          dateTo,
+        );
 
-      res.json({
-        data: performance,
-        period: {
-          from: dateFrom || "آخر 7 أيام",
-          to: dateTo || "اليوم",
-        },
-        lastUpdated: new Date().toISOString(),
-      });
-    } catch (error: any) {
-      console.error("Error fetching role performance stats:", error);
-      res.status(500).json({
-        message: "خطأ في جلب إحصائيات أداء الأقسام",
-        error: error.message,
-      });
-    }
-  });
+        res.json({
+          data: performance,
+          period: {
+            from: dateFrom || "آخر 7 أيام",
+            to: dateTo || "اليوم",
+          },
+          lastUpdated: new Date().toISOString(),
+        });
+      } catch (error: any) {
+        console.error("Error fetching role performance stats:", error);
+        res.status(500).json({
+          message: "خطأ في جلب إحصائيات أداء الأقسام",
+          error: error.message,
+        });
+      }
+    },
+  );
 
   // Get real-time production statistics
-  app.get("/api/production/real-time-stats", requireAuth, async (req, res) => {
-    try {
-      const realTimeStats = await storage.getRealTimeProductionStats();
+  app.get(
+    "/api/production/real-time-stats",
+    requireAuth,
+    requirePermission("view_production_monitoring", "view_production"),
+    async (req, res) => {
+      try {
+        const realTimeStats = await storage.getRealTimeProductionStats();
 
-      res.json({
-        ...realTimeStats,
-        updateInterval: 30000, // 30 seconds
-      });
-    } catch (error: any) {
-      console.error("Error fetching real-time production stats:", error);
-      res.status(500).json({
-        message: "خطأ في جلب الإحصائيات الفورية",
-        error: error.message,
-      });
-    }
-  });
+        res.json({
+          ...realTimeStats,
+          updateInterval: 30000, // 30 seconds
+        });
+      } catch (error: any) {
+        console.error("Error fetching real-time production stats:", error);
+        res.status(500).json({
+          message: "خطأ في جلب الإحصائيات الفورية",
+          error: error.message,
+        });
+      }
+    },
+  );
 
   // Get production efficiency metrics
   app.get(
     "/api/production/efficiency-metrics",
     requireAuth,
+    requirePermission("view_production_monitoring", "view_production"),
     async (req, res) => {
       try {
         const dateFrom = (req.query.date_from as string) || undefined;
@@ -5972,33 +9808,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // Get production alerts
-  app.get("/api/production/alerts", requireAuth, async (req, res) => {
-    try {
-      const alerts = await storage.getProductionAlerts();
+  app.get(
+    "/api/production/alerts",
+    requireAuth,
+    requirePermission("view_production_monitoring", "view_production"),
+    async (req, res) => {
+      try {
+        const alerts = await storage.getProductionAlerts();
 
-      res.json({
-        alerts,
-        alertCount: alerts.length,
-        criticalCount: alerts.filter((a: any) => a.priority === "critical")
-          .length,
-        warningCount: alerts.filter(
-          (a: any) => a.priority === "high" || a.priority === "medium",
-        ).length,
-        lastUpdated: new Date().toISOString(),
-      });
-    } catch (error: any) {
-      console.error("Error fetching production alerts:", error);
-      res.status(500).json({
-        message: "خطأ في جلب تنبيهات الإنتاج",
-        error: error.message,
-      });
-    }
-  });
+        res.json({
+          alerts,
+          alertCount: alerts.length,
+          criticalCount: alerts.filter((a: any) => a.priority === "critical")
+            .length,
+          warningCount: alerts.filter(
+            (a: any) => a.priority === "high" || a.priority === "medium",
+          ).length,
+          lastUpdated: new Date().toISOString(),
+        });
+      } catch (error: any) {
+        console.error("Error fetching production alerts:", error);
+        res.status(500).json({
+          message: "خطأ في جلب تنبيهات الإنتاج",
+          error: error.message,
+        });
+      }
+    },
+  );
 
   // Get machine utilization statistics
   app.get(
     "/api/production/machine-utilization",
     requireAuth,
+    requirePermission("view_production_monitoring", "view_production"),
     async (req, res) => {
       try {
         const dateFrom = (req.query.date_from as string) || undefined;
@@ -6056,10 +9898,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // app.use("/api/system/health", createSystemHealthRouter(storage));
   // app.use("/api/system/performance", createPerformanceRouter(storage));
   // app.use("/api/corrective-actions", createCorrectiveActionsRouter(storage));
-  app.use("/api/data-validation", createDataValidationRouter(storage));
+  app.use(
+    "/api/data-validation",
+    requireAuth,
+    requirePermission("view_system_health"),
+    createDataValidationRouter(storage),
+  );
 
   // console.log("[SmartAlerts] نظام التحذيرات الذكية مُفعل ✅");
 
+  // ============ النسخ الاحتياطي المجدول ============
+  getBackupScheduler(storage).start();
+
   // ============ Quick Notes API ============
   
   // Get all notes (optionally filtered by user)
@@ -0,0 +1,299 @@
+import { z } from "zod";
+import type { IStorage } from "../storage";
+import { getAlertManager } from "./alert-manager";
+
+export interface SecurityPolicy {
+  password: {
+    min_length: number;
+    require_uppercase: boolean;
+    require_lowercase: boolean;
+    require_number: boolean;
+    require_symbol: boolean;
+  };
+  lockout: {
+    max_attempts_per_user: number;
+    max_attempts_per_ip: number;
+    lockout_minutes: number; // مدة الإيقاف بعد آخر محاولة فاشلة
+  };
+}
+
+// مفاتيح system_settings المستخدمة لسياسة كلمات المرور وإيقاف الدخول
+export const SECURITY_SETTING_KEYS = {
+  minLength: "passwordMinLength",
+  requireUppercase: "passwordRequireUppercase",
+  requireLowercase: "passwordRequireLowercase",
+  requireNumber: "passwordRequireNumber",
+  requireSymbol: "passwordRequireSymbol",
+  maxAttemptsPerUser: "loginMaxAttemptsPerUser",
+  maxAttemptsPerIp: "loginMaxAttemptsPerIp",
+  lockoutMinutes: "loginLockoutMinutes",
+} as const;
+
+export const securityPolicySchema = z.object({
+  password: z.object({
+    min_length: z.coerce
+      .number()
+      .int()
+      .min(6, "الحد الأدنى لطول كلمة المرور 6 أحرف")
+      .max(64, "طول كلمة المرور المطلوب كبير جداً"),
+    require_uppercase: z.boolean(),
+    require_lowercase: z.boolean(),
+    require_number: z.boolean(),
+    require_symbol: z.boolean(),
+  }),
+  lockout: z.object({
+    max_attempts_per_user: z.coerce
+      .number()
+      .int()
+      .min(3, "عدد المحاولات لكل مستخدم يجب أن يكون 3 على الأقل")
+      .max(50),
+    max_attempts_per_ip: z.coerce
+      .number()
+      .int()
+      .min(5, "عدد المحاولات لكل عنوان يجب أن يكون 5 على الأقل")
+      .max(500),
+    lockout_minutes: z.coerce
+      .number()
+      .int()
+      .min(1, "مدة الإيقاف يجب أن تكون دقيقة على الأقل")
+      .max(1440, "مدة الإيقاف لا تتجاوز 24 ساعة"),
+  }),
+});
+
+const DEFAULT_POLICY: SecurityPolicy = {
+  password: {
+    min_length: 8,
+    require_uppercase: false,
+    require_lowercase: true,
+    require_number: true,
+    require_symbol: false,
+  },
+  lockout: {
+    max_attempts_per_user: 5,
+    max_attempts_per_ip: 20,
+    lockout_minutes: 15,
+  },
+};
+
+export interface LoginLockout {
+  scope: "username" | "ip_address";
+  retry_after_minutes: number;
+}
+
+/**
+ * سياسة كلمات المرور والإيقاف المؤقت لتسجيل الدخول بعد المحاولات الفاشلة
+ * تُقرأ الإعدادات من system_settings في كل طلب لذلك تسري التعديلات فوراً
+ */
+export class AccountSecurityService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getPolicy(): Promise<SecurityPolicy> {
+    const settings = await this.storage.getSystemSettings();
+    const values = new Map(
+      settings.map((setting) => [setting.setting_key, setting.setting_value]),
+    );
+
+    const flag = (key: string, fallback: boolean) =>
+      values.has(key) ? values.get(key) === "true" : fallback;
+    const number = (key: string, fallback: number) => {
+      const parsed = parseInt(values.get(key) || "", 10);
+      return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+    };
+
+    const keys = SECURITY_SETTING_KEYS;
+    const defaults = DEFAULT_POLICY;
+    return {
+      password: {
+        min_length: Math.max(
+          number(keys.minLength, defaults.password.min_length),
+          6,
+        ),
+        require_uppercase: flag(
+          keys.requireUppercase,
+          defaults.password.require_uppercase,
+        ),
+        require_lowercase: flag(
+          keys.requireLowercase,
+          defaults.password.require_lowercase,
+        ),
+        require_number: flag(
+          keys.requireNumber,
+          defaults.password.require_number,
+        ),
+        require_symbol: flag(
+          keys.requireSymbol,
+          defaults.password.require_symbol,
+        ),
+      },
+      lockout: {
+        max_attempts_per_user: number(
+          keys.maxAttemptsPerUser,
+          defaults.lockout.max_attempts_per_user,
+        ),
+        max_attempts_per_ip: number(
+          keys.maxAttemptsPerIp,
+          defaults.lockout.max_attempts_per_ip,
+        ),
+        lockout_minutes: number(
+          keys.lockoutMinutes,
+          defaults.lockout.lockout_minutes,
+        ),
+      },
+    };
+  }
+
+  /**
+   * قائمة مخالفات كلمة المرور للسياسة الحالية (فارغة إذا كانت مقبولة)
+   */
+  async validatePassword(
+    password: string,
+    username?: string,
+  ): Promise<string[]> {
+    const { password: rules } = await this.getPolicy();
+    const errors: string[] = [];
+
+    if (password.length < rules.min_length) {
+      errors.push(`كلمة المرور يجب أن تكون ${rules.min_length} أحرف على الأقل`);
+    }
+    if (rules.require_uppercase && !/[A-Z]/.test(password)) {
+      errors.push("كلمة المرور يجب أن تحتوي على حرف إنجليزي كبير");
+    }
+    if (rules.require_lowercase && !/[a-z]/.test(password)) {
+      errors.push("كلمة المرور يجب أن تحتوي على حرف إنجليزي صغير");
+    }
+    if (rules.require_number && !/\d/.test(password)) {
+      errors.push("كلمة المرور يجب أن تحتوي على رقم");
+    }
+    if (rules.require_symbol && !/[^A-Za-z0-9]/.test(password)) {
+      errors.push("كلمة المرور يجب أن تحتوي على رمز خاص");
+    }
+    if (
+      username &&
+      password.toLowerCase().includes(username.trim().toLowerCase())
+    ) {
+      errors.push("كلمة المرور يجب ألا تحتوي على اسم المستخدم");
+    }
+
+    return errors;
+  }
+
+  /**
+   * هل تسجيل الدخول موقوف حالياً لهذا المستخدم أو لهذا العنوان
+   */
+  async getLockout(
+    username: string,
+    ipAddress: string,
+  ): Promise<LoginLockout | null> {
+    const { lockout } = await this.getPolicy();
+    const now = Date.now();
+    const since = new Date(now - lockout.lockout_minutes * 60 * 1000);
+
+    const checks: Array<[LoginLockout["scope"], string, number]> = [
+      ["username", username, lockout.max_attempts_per_user],
+      ["ip_address", ipAddress, lockout.max_attempts_per_ip],
+    ];
+
+    for (const [scope, value, maxAttempts] of checks) {
+      const stats = await this.storage.getFailedLoginStats(scope, value, since);
+      if (stats.failures >= maxAttempts && stats.last_failure_at) {
+        const unlockAt =
+          stats.last_failure_at.getTime() + lockout.lockout_minutes * 60 * 1000;
+        return {
+          scope,
+          retry_after_minutes: Math.max(Math.ceil((unlockAt - now) / 60000), 1),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * تسجيل محاولة فاشلة، ورفع تحذير أمني عند بلوغ حد الإيقاف
+   * يُرجع الإيقاف إذا تسببت هذه المحاولة في إيقاف الدخول
+   */
+  async recordFailure(
+    username: string,
+    ipAddress: string,
+    userId: number | null,
+  ): Promise<LoginLockout | null> {
+    await this.storage.recordLoginAttempt({
+      username,
+      ip_address: ipAddress,
+      user_id: userId,
+      success: false,
+    });
+
+    const lockout = await this.getLockout(username, ipAddress);
+    if (lockout) {
+      await this.raiseLockoutAlert(username, ipAddress, userId, lockout);
+    }
+    return lockout;
+  }
+
+  async recordSuccess(
+    username: string,
+    ipAddress: string,
+    userId: number,
+  ): Promise<void> {
+    await this.storage.recordLoginAttempt({
+      username,
+      ip_address: ipAddress,
+      user_id: userId,
+      success: true,
+    });
+  }
+
+  private async raiseLockoutAlert(
+    username: string,
+    ipAddress: string,
+    userId: number | null,
+    lockout: LoginLockout,
+  ): Promise<void> {
+    const byIp = lockout.scope === "ip_address";
+    const target = byIp ? ipAddress : username;
+    try {
+      await getAlertManager(this.storage).createAlert({
+        title: byIp ? "Login blocked for IP address" : "User account locked",
+        title_ar: byIp
+          ? "إيقاف تسجيل الدخول من عنوان IP"
+          : "إيقاف حساب مستخدم مؤقتاً",
+        message: `Too many failed login attempts for ${target}. Login is blocked for ${lockout.retry_after_minutes} minutes.`,
+        message_ar: `محاولات دخول فاشلة متكررة لـ ${target}. تم إيقاف الدخول لمدة ${lockout.retry_after_minutes} دقيقة.`,
+        type: "security",
+        category: "warning",
+        severity: byIp ? "high" : "medium",
+        source: "account_security",
+        source_id: target.slice(0, 50),
+        context_data: {
+          scope: lockout.scope,
+          username,
+          ip_address: ipAddress,
+          user_id: userId,
+        },
+        suggested_actions: [
+          {
+            action: "review_login_attempts",
+            priority: 1,
+            description: "مراجعة محاولات الدخول والتأكد من أنها ليست محاولة اختراق",
+          },
+        ],
+        requires_action: true,
+      });
+    } catch (error) {
+      // التحذير المكبوت (تكرار خلال فترة الكبت) ليس خطأ
+      console.error("[AccountSecurity] خطأ في إنشاء تحذير الإيقاف:", error);
+    }
+  }
+}
+
+let accountSecurity: AccountSecurityService | null = null;
+
+export function getAccountSecurity(storage: IStorage): AccountSecurityService {
+  if (!accountSecurity) accountSecurity = new AccountSecurityService(storage);
+  return accountSecurity;
+}
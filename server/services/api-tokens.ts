@@ -0,0 +1,143 @@
+import { createHash, randomBytes } from "crypto";
+import type { ApiToken, SafeApiToken, User } from "@shared/schema";
+import {
+  PERMISSIONS,
+  hasPermission,
+  type PermissionKey,
+} from "@shared/permissions";
+import type { IStorage } from "../storage";
+
+// صيغة المفتاح: mpbf_ + 43 حرفاً (32 بايت عشوائية بترميز base64url)
+const TOKEN_PREFIX = "mpbf_";
+const TOKEN_DISPLAY_LENGTH = 12;
+// آخر استخدام لا يُحدَّث أكثر من مرة في الدقيقة لتخفيف الكتابة على قاعدة البيانات
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const VALID_SCOPES = new Set<string>(PERMISSIONS.map((p) => p.id));
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export type ApiTokenType = "personal" | "service";
+
+export interface ApiTokenCreation {
+  token: string; // يُعرض مرة واحدة فقط
+  api_token: SafeApiToken;
+}
+
+export interface ApiTokenOwnerAccess {
+  role: string;
+  permissions: string[];
+}
+
+/**
+ * مفاتيح الوصول البرمجي: تعمل باسم مستخدم وبصلاحيات محددة (scopes)
+ * لا تتجاوز صلاحيات دور المستخدم، ويُحفظ منها التجزئة فقط
+ */
+export class ApiTokenService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getOwnerAccess(user: User): Promise<ApiTokenOwnerAccess> {
+    if (!user.role_id) return { role: "user", permissions: [] };
+    const roles = await this.storage.getRoles();
+    const role = roles.find((r) => r.id === user.role_id);
+    return {
+      role: role?.name || "user",
+      permissions: Array.isArray(role?.permissions) ? role.permissions : [],
+    };
+  }
+
+  /**
+   * الصلاحيات المطلوبة غير الصالحة أو التي لا يملكها صاحب المفتاح
+   */
+  invalidScopes(scopes: string[], owner: ApiTokenOwnerAccess): string[] {
+    return scopes.filter(
+      (scope) =>
+        !VALID_SCOPES.has(scope) ||
+        (owner.role !== "admin" &&
+          !hasPermission(owner.permissions, scope as PermissionKey)),
+    );
+  }
+
+  /**
+   * دور المستخدم أعلى من دور منشئ المفتاح: مسؤول، أو يملك صلاحيات لا يملكها المنشئ
+   */
+  outranks(owner: ApiTokenOwnerAccess, issuer: ApiTokenOwnerAccess): boolean {
+    if (issuer.role === "admin") return false;
+    return (
+      owner.role === "admin" ||
+      owner.permissions.some(
+        (permission) =>
+          !hasPermission(issuer.permissions, permission as PermissionKey),
+      )
+    );
+  }
+
+  /**
+   * صلاحيات الطلب الفعلية: صلاحيات المفتاح التي ما زال دور المستخدم يملكها
+   */
+  effectiveScopes(token: ApiToken, owner: ApiTokenOwnerAccess): string[] {
+    const invalid = new Set(this.invalidScopes(token.scopes, owner));
+    return token.scopes.filter((scope) => !invalid.has(scope));
+  }
+
+  async create(options: {
+    userId: number;
+    name: string;
+    type: ApiTokenType;
+    scopes: string[];
+    expiresAt: Date | null;
+    createdBy: number;
+  }): Promise<ApiTokenCreation> {
+    const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+    const apiToken = await this.storage.createApiToken({
+      user_id: options.userId,
+      name: options.name,
+      token_type: options.type,
+      token_prefix: token.slice(0, TOKEN_DISPLAY_LENGTH),
+      token_hash: hashToken(token),
+      scopes: Array.from(new Set(options.scopes)),
+      expires_at: options.expiresAt,
+      created_by: options.createdBy,
+    });
+    return { token, api_token: apiToken };
+  }
+
+  /**
+   * التحقق من مفتاح في ترويسة Authorization - يُرجع null إذا كان غير صالح أو ملغى أو منتهياً
+   */
+  async authenticate(
+    rawToken: string,
+    ipAddress: string | null,
+  ): Promise<ApiToken | null> {
+    if (!rawToken.startsWith(TOKEN_PREFIX)) return null;
+
+    const token = await this.storage.getApiTokenByHash(hashToken(rawToken));
+    if (!token || token.revoked_at) return null;
+    if (token.expires_at && new Date(token.expires_at) <= new Date()) {
+      return null;
+    }
+
+    const lastUsed = token.last_used_at
+      ? new Date(token.last_used_at).getTime()
+      : 0;
+    if (Date.now() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+      this.storage.touchApiToken(token.id, ipAddress).catch((error) => {
+        console.error("Error updating API token last use:", error);
+      });
+    }
+
+    return token;
+  }
+}
+
+let apiTokenService: ApiTokenService | null = null;
+
+export function getApiTokens(storage: IStorage): ApiTokenService {
+  if (!apiTokenService) apiTokenService = new ApiTokenService(storage);
+  return apiTokenService;
+}
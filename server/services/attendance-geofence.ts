@@ -0,0 +1,146 @@
+import { z } from "zod";
+import type { IStorage } from "../storage";
+
+// مفتاح system_settings لسياسة الحضور خارج النطاق: flag (مراجعة المشرف) أو reject (رفض)
+export const GEOFENCE_MODE_SETTING_KEY = "attendanceGeofenceMode";
+// نطاق الموقع الافتراضي إذا لم يُحدد tolerance_range
+const DEFAULT_RADIUS_M = 100;
+// أقصى سماحية لدقة GPS المُبلغ عنها من المتصفح
+const MAX_ACCURACY_ALLOWANCE_M = 50;
+const EARTH_RADIUS_M = 6371000;
+
+export type GeofenceMode = "flag" | "reject";
+export type GeofenceLocationStatus = "inside" | "outside" | "unavailable";
+
+export const attendancePositionSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  accuracy: z.coerce.number().min(0).optional(),
+});
+
+export type AttendancePosition = z.infer<typeof attendancePositionSchema>;
+
+export interface GeofenceResult {
+  location_id: string | null;
+  location_status: GeofenceLocationStatus | null; // NULL = لا يوجد موقع معتمد للموظف
+  location_distance_m: number | null;
+  location_review_status: "pending" | null;
+  rejected: boolean;
+  message: string | null;
+}
+
+// صيغة الإحداثيات في جدول المواقع: "lat,lng"
+export function parseCoordinates(
+  value: string | null | undefined,
+): { latitude: number; longitude: number } | null {
+  const parts = (value || "").split(",").map((part) => parseFloat(part));
+  if (parts.length !== 2 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  const [latitude, longitude] = parts;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+// المسافة بالمتر بين نقطتين (صيغة Haversine)
+export function distanceInMeters(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * التحقق من موقع تسجيل الحضور / الانصراف مقابل نطاق موقع العمل المعتمد للموظف
+ * خارج النطاق (أو بدون موقع) يُرفض أو يُعلَّم لمراجعة المشرف حسب الإعداد
+ */
+export class AttendanceGeofenceService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getMode(): Promise<GeofenceMode> {
+    const settings = await this.storage.getSystemSettings();
+    const setting = settings.find(
+      (s) => s.setting_key === GEOFENCE_MODE_SETTING_KEY,
+    );
+    return setting?.setting_value === "reject" ? "reject" : "flag";
+  }
+
+  async evaluate(
+    userId: number,
+    position: AttendancePosition | null,
+  ): Promise<GeofenceResult> {
+    const result: GeofenceResult = {
+      location_id: null,
+      location_status: null,
+      location_distance_m: null,
+      location_review_status: null,
+      rejected: false,
+      message: null,
+    };
+
+    const user = await this.storage.getUser(userId);
+    if (!user?.attendance_location_id) return result;
+
+    const locations = await this.storage.getLocations();
+    const location = locations.find(
+      (l) => l.id === user.attendance_location_id,
+    );
+    const center = parseCoordinates(location?.coordinates);
+    // موقع بدون إحداثيات صالحة لا يمكن التحقق منه
+    if (!location || !center) return result;
+
+    result.location_id = location.id;
+    const radius = location.tolerance_range || DEFAULT_RADIUS_M;
+    const locationName = location.name_ar || location.name;
+
+    if (!position) {
+      result.location_status = "unavailable";
+      result.message = `تعذر تحديد موقعك - يجب السماح بالوصول إلى الموقع للتسجيل من ${locationName}`;
+    } else {
+      const distance = Math.round(distanceInMeters(center, position));
+      const allowance = Math.min(
+        position.accuracy ?? 0,
+        MAX_ACCURACY_ALLOWANCE_M,
+      );
+      result.location_distance_m = distance;
+      result.location_status =
+        distance <= radius + allowance ? "inside" : "outside";
+      if (result.location_status === "outside") {
+        result.message = `أنت خارج نطاق ${locationName} (المسافة ${distance} متر، النطاق المسموح ${radius} متر)`;
+      }
+    }
+
+    if (result.location_status !== "inside") {
+      if ((await this.getMode()) === "reject") {
+        result.rejected = true;
+      } else {
+        result.location_review_status = "pending";
+      }
+    }
+
+    return result;
+  }
+}
+
+let attendanceGeofenceService: AttendanceGeofenceService | null = null;
+
+export function getAttendanceGeofence(
+  storage: IStorage,
+): AttendanceGeofenceService {
+  if (!attendanceGeofenceService) {
+    attendanceGeofenceService = new AttendanceGeofenceService(storage);
+  }
+  return attendanceGeofenceService;
+}
@@ -0,0 +1,469 @@
+import { sql, getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { db } from "../db";
+import { getRequestContext } from "../middleware/request-context";
+import {
+  audit_logs,
+  users,
+  roles,
+  api_tokens,
+  sections,
+  customers,
+  customer_products,
+  categories,
+  items,
+  locations,
+  machines,
+  orders,
+  production_orders,
+  rolls,
+  cuts,
+  warehouse_receipts,
+  warehouse_transactions,
+  shipments,
+  suppliers,
+  purchase_orders,
+  goods_receipts,
+  stock_takes,
+  waste_reasons,
+  quality_inspection_plans,
+  quality_defect_types,
+  quality_checks,
+  maintenance_requests,
+  maintenance_actions,
+  maintenance_reports,
+  spare_parts,
+  consumable_parts,
+  consumable_parts_transactions,
+  operator_negligence_reports,
+  inventory,
+  inventory_movements,
+  mixing_recipes,
+  training_records,
+  training_programs,
+  training_materials,
+  training_enrollments,
+  training_evaluations,
+  training_certificates,
+  performance_reviews,
+  performance_criteria,
+  performance_ratings,
+  leave_types,
+  leave_requests,
+  leave_balances,
+  attendance,
+  shift_templates,
+  user_shifts,
+  payroll_periods,
+  violations,
+  user_requests,
+  admin_decisions,
+  system_settings,
+  alert_rules,
+  corrective_actions,
+  quick_notes,
+} from "@shared/schema";
+
+export type AuditAction = "create" | "update" | "delete";
+
+interface AuditRule {
+  table: PgTable;
+  action: AuditAction;
+  // موضع معرف السجل في معاملات الدالة (للتعديل والحذف) - الافتراضي 0
+  idArg?: number;
+  // العمود الذي يطابق المعرف - الافتراضي id
+  keyColumn?: string;
+  // استخراج معرفات السجلات المنشأة من نتيجة الدالة - الافتراضي result.id
+  resultIds?: (result: any) => unknown[];
+}
+
+const create = (table: PgTable, resultIds?: AuditRule["resultIds"]) =>
+  ({ table, action: "create", resultIds }) as AuditRule;
+const update = (table: PgTable) => ({ table, action: "update" }) as AuditRule;
+const remove = (table: PgTable) => ({ table, action: "delete" }) as AuditRule;
+
+/**
+ * دوال التخزين التي تعدّل البيانات وتُسجل في سجل التدقيق
+ * دوال النظام (الإشعارات، مقاييس الأداء، النسخ الاحتياطي) غير مشمولة
+ */
+const AUDITED_STORAGE_METHODS: Record<string, AuditRule> = {
+  // المستخدمين والأدوار
+  createUser: create(users),
+  updateUser: update(users),
+  deleteUser: remove(users),
+  createRole: create(roles),
+  updateRole: update(roles),
+  deleteRole: remove(roles),
+  createApiToken: create(api_tokens),
+  revokeApiToken: update(api_tokens),
+  createSection: create(sections),
+  updateSection: update(sections),
+  deleteSection: remove(sections),
+
+  // التعريفات
+  createCustomer: create(customers),
+  updateCustomer: update(customers),
+  deleteCustomer: remove(customers),
+  createCustomerProduct: create(customer_products),
+  updateCustomerProduct: update(customer_products),
+  deleteCustomerProduct: remove(customer_products),
+  createCategory: create(categories),
+  updateCategory: update(categories),
+  deleteCategory: remove(categories),
+  createItem: create(items),
+  updateItem: update(items),
+  deleteItem: remove(items),
+  createLocation: create(locations),
+  updateLocation: update(locations),
+  deleteLocation: remove(locations),
+  createLocationExtended: create(locations),
+  updateLocationExtended: update(locations),
+  deleteLocationExtended: remove(locations),
+  createMachine: create(machines),
+  updateMachine: update(machines),
+  deleteMachine: remove(machines),
+  // الإعدادات تُعدل بالمفتاح وليس بالمعرف الرقمي
+  createSystemSetting: {
+    ...create(system_settings, (result) => [result.setting_key]),
+    keyColumn: "setting_key",
+  },
+  updateSystemSetting: {
+    ...update(system_settings),
+    keyColumn: "setting_key",
+  },
+
+  // الطلبات والإنتاج
+  createOrder: create(orders),
+  updateOrder: update(orders),
+  updateOrderStatus: update(orders),
+  deleteOrder: remove(orders),
+  createProductionOrder: create(production_orders),
+  createProductionOrdersBatch: create(production_orders, (result) =>
+    result.successful.map((order: { id: number }) => order.id),
+  ),
+  updateProductionOrder: update(production_orders),
+  startProduction: update(production_orders),
+  deleteProductionOrder: remove(production_orders),
+  createRoll: create(rolls),
+  createRollWithQR: create(rolls),
+  updateRoll: update(rolls),
+  deleteRoll: remove(rolls),
+  markRollPrinted: update(rolls),
+  finishRoll: update(rolls),
+  adjustRollWaste: update(rolls),
+  createCut: create(cuts),
+  createWasteReason: create(waste_reasons),
+  updateWasteReason: update(waste_reasons),
+  deleteWasteReason: remove(waste_reasons),
+  createMixingRecipe: create(mixing_recipes),
+  createMixingRecipeVersion: update(mixing_recipes),
+  updateMixingRecipeStatus: update(mixing_recipes),
+
+  // المستودع
+  createWarehouseReceipt: create(warehouse_receipts),
+  createWarehouseTransaction: create(warehouse_transactions),
+  createShipment: create(shipments, (result) => [result.shipment.id]),
+  cancelShipment: update(shipments),
+  createInventoryItem: create(inventory),
+  updateInventoryItem: update(inventory),
+  deleteInventoryItem: remove(inventory),
+  createInventoryMovement: create(inventory_movements),
+  deleteInventoryMovement: remove(inventory_movements),
+
+  // المشتريات
+  createSupplier: create(suppliers),
+  updateSupplier: update(suppliers),
+  deleteSupplier: remove(suppliers),
+  createPurchaseOrder: create(purchase_orders),
+  updatePurchaseOrder: update(purchase_orders),
+  approvePurchaseOrder: update(purchase_orders),
+  cancelPurchaseOrder: update(purchase_orders),
+  receivePurchaseOrder: create(goods_receipts),
+  convertReorderSuggestions: create(purchase_orders, (result) =>
+    result.map((purchaseOrder: { id: number }) => purchaseOrder.id),
+  ),
+
+  // الجرد - العدّات نفسها مسجلة باسم العدّاد ووقته في stock_take_counts
+  createStockTake: create(stock_takes),
+  postStockTake: update(stock_takes),
+  cancelStockTake: update(stock_takes),
+
+  // الجودة
+  createInspectionPlan: create(quality_inspection_plans),
+  updateInspectionPlan: update(quality_inspection_plans),
+  deleteInspectionPlan: remove(quality_inspection_plans),
+  createQualityDefectType: create(quality_defect_types),
+  updateQualityDefectType: update(quality_defect_types),
+  deleteQualityDefectType: remove(quality_defect_types),
+  createQualityCheck: create(quality_checks),
+  disposeQualityCheck: update(quality_checks),
+
+  // الصيانة
+  createMaintenanceRequest: create(maintenance_requests),
+  deleteMaintenanceRequest: remove(maintenance_requests),
+  createMaintenanceAction: create(maintenance_actions),
+  updateMaintenanceAction: update(maintenance_actions),
+  deleteMaintenanceAction: remove(maintenance_actions),
+  createMaintenanceReport: create(maintenance_reports),
+  updateMaintenanceReport: update(maintenance_reports),
+  deleteMaintenanceReport: remove(maintenance_reports),
+  createSparePart: create(spare_parts),
+  updateSparePart: update(spare_parts),
+  deleteSparePart: remove(spare_parts),
+  createConsumablePart: create(consumable_parts),
+  updateConsumablePart: update(consumable_parts),
+  deleteConsumablePart: remove(consumable_parts),
+  createConsumablePartTransaction: create(consumable_parts_transactions),
+  createOperatorNegligenceReport: create(operator_negligence_reports),
+  updateOperatorNegligenceReport: update(operator_negligence_reports),
+  deleteOperatorNegligenceReport: remove(operator_negligence_reports),
+
+  // الموارد البشرية
+  createTrainingRecord: create(training_records),
+  createTrainingProgram: create(training_programs),
+  updateTrainingProgram: update(training_programs),
+  createTrainingMaterial: create(training_materials),
+  updateTrainingMaterial: update(training_materials),
+  deleteTrainingMaterial: remove(training_materials),
+  createTrainingEnrollment: create(training_enrollments),
+  updateTrainingEnrollment: update(training_enrollments),
+  createTrainingEvaluation: create(training_evaluations),
+  updateTrainingEvaluation: update(training_evaluations),
+  createTrainingCertificate: create(training_certificates),
+  updateTrainingCertificate: update(training_certificates),
+  createPerformanceReview: create(performance_reviews),
+  updatePerformanceReview: update(performance_reviews),
+  createPerformanceCriteria: create(performance_criteria),
+  updatePerformanceCriteria: update(performance_criteria),
+  createPerformanceRating: create(performance_ratings),
+  updatePerformanceRating: update(performance_ratings),
+  createLeaveType: create(leave_types),
+  updateLeaveType: update(leave_types),
+  createLeaveRequest: create(leave_requests),
+  updateLeaveRequest: update(leave_requests),
+  deleteLeaveRequest: remove(leave_requests),
+  createLeaveBalance: create(leave_balances),
+  updateLeaveBalance: update(leave_balances),
+  createAttendance: create(attendance),
+  updateAttendance: update(attendance),
+  deleteAttendance: remove(attendance),
+  reviewAttendanceLocation: update(attendance),
+  createShiftTemplate: create(shift_templates),
+  updateShiftTemplate: update(shift_templates),
+  deleteShiftTemplate: remove(shift_templates),
+  createUserShift: create(user_shifts),
+  updateUserShift: update(user_shifts),
+  deleteUserShift: remove(user_shifts),
+  closePayrollPeriod: create(payroll_periods),
+  // إعادة الفتح بالشهر وليس بالمعرف الرقمي
+  reopenPayrollPeriod: { ...update(payroll_periods), keyColumn: "month" },
+  createViolation: create(violations),
+  updateViolation: update(violations),
+  deleteViolation: remove(violations),
+  createUserRequest: create(user_requests),
+  updateUserRequest: update(user_requests),
+  deleteUserRequest: remove(user_requests),
+  createAdminDecision: create(admin_decisions),
+
+  // التنبيهات والملاحظات
+  createAlertRule: create(alert_rules),
+  updateAlertRule: update(alert_rules),
+  enableAlertRule: update(alert_rules),
+  disableAlertRule: update(alert_rules),
+  deleteAlertRule: remove(alert_rules),
+  createCorrectiveAction: create(corrective_actions),
+  updateCorrectiveAction: update(corrective_actions),
+  completeCorrectiveAction: update(corrective_actions),
+  createQuickNote: create(quick_notes),
+  updateQuickNote: update(quick_notes),
+  deleteQuickNote: remove(quick_notes),
+};
+
+// حقول لا تُحفظ قيمها في السجل
+const REDACTED_FIELDS = new Set([
+  "password",
+  "two_factor_secret",
+  "two_factor_recovery_codes",
+  "token_hash",
+]);
+const REDACTED_VALUE = "[محجوب]";
+
+// حقول تتغير تلقائياً ولا تعتبر تعديلاً بحد ذاتها
+const IGNORED_CHANGE_FIELDS = new Set(["updated_at"]);
+
+type AuditRecord = Record<string, unknown>;
+
+function sanitizeRecord(row: AuditRecord | undefined): AuditRecord | null {
+  if (!row) return null;
+  const clean: AuditRecord = JSON.parse(JSON.stringify(row));
+  for (const field of Object.keys(clean)) {
+    if (REDACTED_FIELDS.has(field) && clean[field] != null) {
+      clean[field] = REDACTED_VALUE;
+    }
+  }
+  return clean;
+}
+
+/**
+ * الفرق بين نسختين من السجل: { الحقل: { from, to } }
+ */
+export function diffRecords(
+  before: AuditRecord | null,
+  after: AuditRecord | null,
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  for (const field of Array.from(fields)) {
+    if (IGNORED_CHANGE_FIELDS.has(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+async function snapshotRecord(
+  rule: AuditRule,
+  id: unknown,
+): Promise<AuditRecord | null> {
+  if (id === undefined || id === null || id === "") return null;
+  const result = await db.execute(
+    sql`SELECT * FROM ${rule.table} WHERE ${sql.identifier(rule.keyColumn || "id")} = ${String(id)} LIMIT 1`,
+  );
+  return sanitizeRecord(result.rows[0] as AuditRecord | undefined);
+}
+
+async function writeAuditEntries(
+  table: PgTable,
+  action: AuditAction,
+  entries: Array<{
+    id: unknown;
+    before: AuditRecord | null;
+    after: AuditRecord | null;
+  }>,
+) {
+  const context = getRequestContext();
+  const values = entries
+    .map((entry) => ({
+      entry,
+      changes: diffRecords(entry.before, entry.after),
+    }))
+    // تعديل بدون تغيير فعلي لا يُسجل
+    .filter(
+      ({ changes }) => action !== "update" || Object.keys(changes).length > 0,
+    )
+    .map(({ entry, changes }) => ({
+      user_id: context?.userId ?? null,
+      table_name: getTableName(table),
+      record_id: String(entry.id),
+      action,
+      before_data: entry.before,
+      after_data: entry.after,
+      changes: action === "update" ? changes : null,
+      request_method: context?.method ?? null,
+      request_path: context?.path ?? null,
+      ip_address: context?.ip ?? null,
+    }));
+
+  if (values.length > 0) {
+    await db.insert(audit_logs).values(values);
+  }
+}
+
+/**
+ * تسجيل سجلات أُدرجت مباشرة دون المرور بدوال التخزين (مثل استيراد الجداول)
+ */
+export async function auditInsertedRecords(
+  table: PgTable,
+  records: AuditRecord[],
+  keyColumn = "id",
+): Promise<void> {
+  try {
+    await writeAuditEntries(
+      table,
+      "create",
+      records.map((record) => ({
+        id: record[keyColumn],
+        before: null,
+        after: sanitizeRecord(record),
+      })),
+    );
+  } catch (error) {
+    console.error("خطأ في تسجيل السجلات المستوردة في سجل التدقيق:", error);
+  }
+}
+
+async function auditedCall(
+  rule: AuditRule,
+  run: () => Promise<unknown>,
+  args: unknown[],
+) {
+  if (rule.action === "create") {
+    const result = await run();
+    try {
+      const ids = rule.resultIds
+        ? rule.resultIds(result)
+        : [(result as { id?: unknown } | null)?.id];
+      const entries = await Promise.all(
+        ids
+          .filter((id) => id !== undefined && id !== null)
+          .map(async (id) => ({
+            id,
+            before: null,
+            after: await snapshotRecord(rule, id),
+          })),
+      );
+      await writeAuditEntries(rule.table, rule.action, entries);
+    } catch (error) {
+      console.error("خطأ في تسجيل عملية الإنشاء في سجل التدقيق:", error);
+    }
+    return result;
+  }
+
+  const id = args[rule.idArg ?? 0];
+  let before: AuditRecord | null = null;
+  try {
+    before = await snapshotRecord(rule, id);
+  } catch (error) {
+    console.error("خطأ في قراءة السجل قبل التعديل لسجل التدقيق:", error);
+  }
+
+  const result = await run();
+
+  try {
+    const after = await snapshotRecord(rule, id);
+    // الحذف الذي يبقي السجل موجوداً (حذف منطقي) يُسجل كتعديل
+    const action = rule.action === "delete" && after ? "update" : rule.action;
+    if (before || after) {
+      await writeAuditEntries(rule.table, action, [{ id, before, after }]);
+    }
+  } catch (error) {
+    console.error("خطأ في تسجيل العملية في سجل التدقيق:", error);
+  }
+  return result;
+}
+
+/**
+ * تغليف طبقة التخزين بحيث تُسجل كل عملية إنشاء / تعديل / حذف في سجل التدقيق
+ * مع المستخدم المنفذ والقيم قبل وبعد. الدوال المسجلة تُنفذ على الكائن الأصلي
+ * فلا تتكرر تسجيلات الاستدعاءات الداخلية بينها.
+ */
+export function withAuditTrail<T extends object>(target: T): T {
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      const rule =
+        typeof prop === "string" ? AUDITED_STORAGE_METHODS[prop] : undefined;
+      if (!rule || typeof value !== "function") {
+        return value;
+      }
+      return (...args: unknown[]) =>
+        auditedCall(rule, () => value.apply(obj, args), args);
+    },
+  });
+}
@@ -0,0 +1,289 @@
+import { z } from "zod";
+import type { IStorage } from "../storage";
+import type { BackupHistory } from "@shared/schema";
+import { getAlertManager } from "./alert-manager";
+
+export type BackupTrigger = "manual" | "daily" | "weekly" | "monthly";
+
+type ScheduledTrigger = Exclude<BackupTrigger, "manual">;
+
+export interface BackupScheduleSettings {
+  time: string; // HH:MM بتوقيت الخادم
+  daily: { enabled: boolean; retention: number };
+  weekly: { enabled: boolean; retention: number; day: number }; // 0 = الأحد
+  monthly: { enabled: boolean; retention: number; day: number }; // 1 - 28
+}
+
+// مفاتيح system_settings المستخدمة لجدولة النسخ الاحتياطي
+export const BACKUP_SETTING_KEYS = {
+  time: "backupTime",
+  dailyEnabled: "backupDailyEnabled",
+  dailyRetention: "backupDailyRetention",
+  weeklyEnabled: "backupWeeklyEnabled",
+  weeklyRetention: "backupWeeklyRetention",
+  weeklyDay: "backupWeeklyDay",
+  monthlyEnabled: "backupMonthlyEnabled",
+  monthlyRetention: "backupMonthlyRetention",
+  monthlyDay: "backupMonthlyDay",
+} as const;
+
+const retentionSchema = z.coerce
+  .number()
+  .int()
+  .min(1, "عدد النسخ المحتفظ بها يجب أن يكون 1 على الأقل")
+  .max(365, "عدد النسخ المحتفظ بها كبير جداً");
+
+export const backupScheduleSchema = z.object({
+  time: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "وقت النسخ يجب أن يكون بصيغة HH:MM"),
+  daily: z.object({ enabled: z.boolean(), retention: retentionSchema }),
+  weekly: z.object({
+    enabled: z.boolean(),
+    retention: retentionSchema,
+    day: z.coerce.number().int().min(0).max(6),
+  }),
+  monthly: z.object({
+    enabled: z.boolean(),
+    retention: retentionSchema,
+    day: z.coerce.number().int().min(1).max(28),
+  }),
+});
+
+const DEFAULT_SCHEDULE: BackupScheduleSettings = {
+  time: "02:00",
+  daily: { enabled: false, retention: 7 },
+  weekly: { enabled: false, retention: 4, day: 5 },
+  monthly: { enabled: false, retention: 12, day: 1 },
+};
+
+const SCHEDULED_TRIGGERS: ScheduledTrigger[] = ["daily", "weekly", "monthly"];
+
+/**
+ * جدولة النسخ الاحتياطي التلقائي وتطبيق سياسة الاحتفاظ
+ * تُقرأ الإعدادات من system_settings في كل دورة فحص لذلك لا يلزم إعادة التشغيل عند تعديلها
+ */
+export class BackupScheduler {
+  private storage: IStorage;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private readonly CHECK_INTERVAL = 5 * 60 * 1000; // فحص كل 5 دقائق
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  start(): void {
+    // الجدولة تعمل بالفعل - لا يُنشأ مؤقت ثانٍ
+    if (this.checkInterval) return;
+
+    this.checkInterval = setInterval(async () => {
+      await this.runDueBackups();
+    }, this.CHECK_INTERVAL);
+
+    console.log("[BackupScheduler] جدولة النسخ الاحتياطي مُفعلة");
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  async getSchedule(): Promise<BackupScheduleSettings> {
+    const settings = await this.storage.getSystemSettings();
+    const values = new Map(
+      settings.map((setting) => [setting.setting_key, setting.setting_value]),
+    );
+
+    const flag = (key: string, fallback: boolean) =>
+      values.has(key) ? values.get(key) === "true" : fallback;
+    const number = (key: string, fallback: number) => {
+      const parsed = parseInt(values.get(key) || "", 10);
+      return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+    };
+
+    const keys = BACKUP_SETTING_KEYS;
+    const defaults = DEFAULT_SCHEDULE;
+    const time = values.get(keys.time);
+    const weeklyDay = number(keys.weeklyDay, defaults.weekly.day);
+    const monthlyDay = number(keys.monthlyDay, defaults.monthly.day);
+
+    return {
+      time: time && /^\d{2}:\d{2}$/.test(time) ? time : defaults.time,
+      daily: {
+        enabled: flag(keys.dailyEnabled, defaults.daily.enabled),
+        retention: number(keys.dailyRetention, defaults.daily.retention),
+      },
+      weekly: {
+        enabled: flag(keys.weeklyEnabled, defaults.weekly.enabled),
+        retention: number(keys.weeklyRetention, defaults.weekly.retention),
+        day: Math.min(weeklyDay, 6),
+      },
+      monthly: {
+        enabled: flag(keys.monthlyEnabled, defaults.monthly.enabled),
+        retention: number(keys.monthlyRetention, defaults.monthly.retention),
+        day: Math.min(Math.max(monthlyDay, 1), 28),
+      },
+    };
+  }
+
+  /**
+   * آخر موعد مجدول لم يتجاوز الوقت الحالي لكل نوع جدولة
+   */
+  getLastScheduledTime(
+    trigger: ScheduledTrigger,
+    schedule: BackupScheduleSettings,
+    now: Date = new Date(),
+  ): Date {
+    const [hours, minutes] = schedule.time.split(":").map(Number);
+    const slot = new Date(now);
+    slot.setHours(hours, minutes, 0, 0);
+
+    if (trigger === "daily") {
+      if (slot > now) slot.setDate(slot.getDate() - 1);
+    } else if (trigger === "weekly") {
+      const diff = (slot.getDay() - schedule.weekly.day + 7) % 7;
+      slot.setDate(slot.getDate() - diff);
+      if (slot > now) slot.setDate(slot.getDate() - 7);
+    } else {
+      slot.setDate(schedule.monthly.day);
+      if (slot > now) slot.setMonth(slot.getMonth() - 1);
+    }
+    return slot;
+  }
+
+  async runDueBackups(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const schedule = await this.getSchedule();
+
+      for (const trigger of SCHEDULED_TRIGGERS) {
+        if (!schedule[trigger].enabled) continue;
+
+        const dueAt = this.getLastScheduledTime(trigger, schedule, now);
+        const [lastRun] = await this.storage.getBackupHistory({
+          trigger,
+          limit: 1,
+        });
+        if (lastRun?.started_at && lastRun.started_at >= dueAt) continue;
+
+        try {
+          await this.runBackup(trigger);
+          await this.applyRetention(trigger, schedule[trigger].retention);
+        } catch (error) {
+          // الفشل مسجل في backup_history ولن تُعاد المحاولة قبل الموعد التالي
+          console.error(`[BackupScheduler] فشل النسخ المجدول (${trigger}):`, error);
+        }
+      }
+    } catch (error) {
+      console.error("[BackupScheduler] خطأ في فحص النسخ المجدولة:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * تنفيذ نسخة احتياطية مع تسجيلها في backup_history وإطلاق تحذير عند الفشل
+   */
+  async runBackup(
+    trigger: BackupTrigger,
+    createdBy?: number,
+  ): Promise<BackupHistory> {
+    const entry = await this.storage.createBackupHistory({
+      trigger,
+      status: "running",
+      created_by: createdBy ?? null,
+    });
+
+    try {
+      const manifest = await this.storage.createDatabaseBackup(createdBy);
+      return await this.storage.updateBackupHistory(entry.id, {
+        backup_id: manifest.id,
+        status: "success",
+        size_bytes: manifest.size_bytes,
+        duration_ms: manifest.duration_ms,
+        total_records: manifest.total_records,
+        table_count: manifest.table_order.length,
+        schema_version: manifest.schema_version,
+        completed_at: new Date(),
+      });
+    } catch (error: any) {
+      const failed = await this.storage.updateBackupHistory(entry.id, {
+        status: "failed",
+        error_message: error?.message || String(error),
+        completed_at: new Date(),
+      });
+      await this.raiseFailureAlert(failed);
+      throw error;
+    }
+  }
+
+  private async raiseFailureAlert(entry: BackupHistory): Promise<void> {
+    try {
+      await getAlertManager(this.storage).createAlert({
+        title: "Database backup failed",
+        title_ar: "فشل النسخ الاحتياطي لقاعدة البيانات",
+        message: `The ${entry.trigger} backup failed: ${entry.error_message}`,
+        message_ar: `فشلت عملية النسخ الاحتياطي (${entry.trigger}): ${entry.error_message}`,
+        type: "system",
+        category: "error",
+        severity: entry.trigger === "manual" ? "medium" : "high",
+        source: "backup_scheduler",
+        source_id: String(entry.id),
+        context_data: { trigger: entry.trigger, history_id: entry.id },
+        suggested_actions: [
+          {
+            action: "check_backup_storage",
+            priority: 1,
+            description: "التحقق من المساحة المتاحة ومن صلاحيات مجلد النسخ الاحتياطية",
+          },
+        ],
+        requires_action: true,
+      });
+    } catch (error) {
+      console.error("[BackupScheduler] خطأ في إنشاء تحذير فشل النسخ:", error);
+    }
+  }
+
+  /**
+   * حذف النسخ الأقدم من عدد الاحتفاظ المحدد لنوع الجدولة (النسخ اليدوية لا تُحذف)
+   */
+  async applyRetention(trigger: ScheduledTrigger, keep: number): Promise<void> {
+    const successful = await this.storage.getBackupHistory({
+      trigger,
+      status: "success",
+      limit: 1000,
+    });
+
+    for (const entry of successful.slice(keep)) {
+      try {
+        if (entry.backup_id) {
+          await this.storage.deleteDatabaseBackup(entry.backup_id);
+        }
+        await this.storage.updateBackupHistory(entry.id, {
+          status: "pruned",
+          pruned_at: new Date(),
+        });
+        console.log(`[BackupScheduler] تم حذف النسخة القديمة ${entry.backup_id}`);
+      } catch (error) {
+        console.error(
+          `[BackupScheduler] خطأ في حذف النسخة ${entry.backup_id}:`,
+          error,
+        );
+      }
+    }
+  }
+}
+
+let backupScheduler: BackupScheduler | null = null;
+export function getBackupScheduler(storage: IStorage): BackupScheduler {
+  if (!backupScheduler) backupScheduler = new BackupScheduler(storage);
+  return backupScheduler;
+}
+
+export default BackupScheduler;
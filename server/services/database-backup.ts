@@ -0,0 +1,483 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  getSchemaTables,
+  getSchemaVersion,
+  type SchemaTableInfo,
+} from "./schema-tables";
+
+export const BACKUP_FORMAT_VERSION = 1;
+
+const BACKUP_ID_PATTERN = /^backup_\d+$/;
+const RESTORE_CHUNK_SIZE = 500;
+
+// جداول تشغيلية لا تُنسخ ولا تُستعاد - سجل النسخ يجب أن يبقى كما هو بعد الاستعادة
+const EXCLUDED_TABLES = new Set(["backup_history"]);
+
+function getBackupTables(): SchemaTableInfo[] {
+  return getSchemaTables().filter((info) => !EXCLUDED_TABLES.has(info.name));
+}
+
+export interface BackupTableEntry {
+  rows: number;
+  checksum: string;
+  file: string;
+}
+
+export interface BackupManifest {
+  id: string;
+  format_version: number;
+  schema_version: string;
+  created_at: string;
+  created_by?: number | null;
+  duration_ms: number;
+  size_bytes: number;
+  total_records: number;
+  table_order: string[];
+  tables: Record<string, BackupTableEntry>;
+}
+
+export interface BackupBundle {
+  manifest: BackupManifest;
+  tables: Record<string, Record<string, any>[]>;
+}
+
+export interface RestoreTableDiff {
+  table: string;
+  backupRows: number;
+  currentRows: number;
+  toInsert: number;
+  toUpdate: number;
+  toDelete: number;
+  unchanged: number;
+}
+
+export interface RestoreResult {
+  status: "dry_run" | "success";
+  backupId: string;
+  schemaVersion: string;
+  schemaMatches: boolean;
+  warnings: string[];
+  tables: RestoreTableDiff[];
+  tablesRestored: number;
+  recordsRestored: number;
+  durationMs: number;
+  timestamp: Date;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+function checksum(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * خدمة النسخ الاحتياطي الكامل لقاعدة البيانات
+ * تحفظ كل جدول في ملف JSON مستقل مع ملف manifest يحتوي على البصمات وإصدار المخطط
+ */
+export class DatabaseBackupService {
+  private readonly backupDir: string;
+
+  constructor(backupDir?: string) {
+    this.backupDir =
+      backupDir ||
+      process.env.BACKUP_DIR ||
+      path.resolve(process.cwd(), "backups");
+  }
+
+  private resolveBackupPath(backupId: string): string {
+    if (!BACKUP_ID_PATTERN.test(backupId)) {
+      throw new BackupError("معرف النسخة الاحتياطية غير صحيح");
+    }
+    return path.join(this.backupDir, backupId);
+  }
+
+  private async readTableRows(info: SchemaTableInfo): Promise<any[]> {
+    const orderBy = info.primaryKey.map((column) => sql.identifier(column));
+    const result = await db.execute(
+      sql`SELECT row_to_json(t) AS row FROM ${sql.identifier(info.name)} t ORDER BY ${sql.join(orderBy, sql`, `)}`,
+    );
+    return result.rows.map((r: any) => r.row);
+  }
+
+  async createBackup(createdBy?: number | null): Promise<BackupManifest> {
+    const startedAt = Date.now();
+    const backupId = `backup_${startedAt}`;
+    const backupPath = this.resolveBackupPath(backupId);
+    await fs.mkdir(backupPath, { recursive: true });
+
+    try {
+      const tables = getBackupTables();
+      const entries: Record<string, BackupTableEntry> = {};
+      let totalRecords = 0;
+      let sizeBytes = 0;
+
+      for (const info of tables) {
+        const rows = await this.readTableRows(info);
+        const content = JSON.stringify(rows);
+        const file = `${info.name}.json`;
+
+        await fs.writeFile(path.join(backupPath, file), content, "utf8");
+        entries[info.name] = {
+          rows: rows.length,
+          checksum: checksum(content),
+          file,
+        };
+        totalRecords += rows.length;
+        sizeBytes += Buffer.byteLength(content, "utf8");
+      }
+
+      const manifest: BackupManifest = {
+        id: backupId,
+        format_version: BACKUP_FORMAT_VERSION,
+        schema_version: getSchemaVersion(),
+        created_at: new Date(startedAt).toISOString(),
+        created_by: createdBy ?? null,
+        duration_ms: Date.now() - startedAt,
+        size_bytes: sizeBytes,
+        total_records: totalRecords,
+        table_order: tables.map((info) => info.name),
+        tables: entries,
+      };
+
+      await fs.writeFile(
+        path.join(backupPath, "manifest.json"),
+        JSON.stringify(manifest, null, 2),
+        "utf8",
+      );
+
+      console.log(
+        `[DatabaseBackup] تم إنشاء النسخة ${backupId}: ${tables.length} جدول، ${totalRecords} سجل`,
+      );
+      return manifest;
+    } catch (error) {
+      await fs.rm(backupPath, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  async listBackups(): Promise<BackupManifest[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.backupDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const manifests: BackupManifest[] = [];
+    for (const entry of entries.filter((e) => BACKUP_ID_PATTERN.test(e))) {
+      try {
+        manifests.push(await this.readManifest(entry));
+      } catch (error) {
+        console.warn(`[DatabaseBackup] تجاهل نسخة غير صالحة ${entry}:`, error);
+      }
+    }
+
+    return manifests.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async readManifest(backupId: string): Promise<BackupManifest> {
+    const backupPath = this.resolveBackupPath(backupId);
+    try {
+      const content = await fs.readFile(
+        path.join(backupPath, "manifest.json"),
+        "utf8",
+      );
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        throw new BackupError("النسخة الاحتياطية غير موجودة");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * تحميل النسخة كاملة والتحقق من بصمات جميع الجداول
+   */
+  async loadBackup(backupId: string): Promise<BackupBundle> {
+    const manifest = await this.readManifest(backupId);
+    const backupPath = this.resolveBackupPath(backupId);
+    const tables: BackupBundle["tables"] = {};
+
+    for (const [tableName, entry] of Object.entries(manifest.tables)) {
+      const content = await fs.readFile(
+        path.join(backupPath, path.basename(entry.file)),
+        "utf8",
+      );
+      if (checksum(content) !== entry.checksum) {
+        throw new BackupError(`بصمة الجدول ${tableName} غير مطابقة - الملف تالف`);
+      }
+      tables[tableName] = JSON.parse(content);
+    }
+
+    return { manifest, tables };
+  }
+
+  async deleteBackup(backupId: string): Promise<void> {
+    const backupPath = this.resolveBackupPath(backupId);
+    await fs.rm(backupPath, { recursive: true, force: true });
+  }
+
+  /**
+   * التحقق من نسخة مرفوعة (ملف واحد يحتوي manifest والجداول)
+   */
+  validateBundle(bundle: any): BackupBundle {
+    if (!bundle || typeof bundle !== "object" || !bundle.manifest || !bundle.tables) {
+      throw new BackupError("ملف النسخة الاحتياطية غير صالح");
+    }
+
+    const manifest = bundle.manifest as BackupManifest;
+    if (manifest.format_version !== BACKUP_FORMAT_VERSION) {
+      throw new BackupError(
+        `إصدار ملف النسخة (${manifest.format_version}) غير مدعوم`,
+      );
+    }
+
+    if (!manifest.tables || typeof manifest.tables !== "object") {
+      throw new BackupError("قائمة جداول النسخة مفقودة من الملف");
+    }
+
+    // كل جدول في البيانات يجب أن يكون مدرجاً في القائمة ببصمته - لا تُقبل جداول مضافة
+    for (const tableName of Object.keys(bundle.tables)) {
+      if (!manifest.tables[tableName]) {
+        throw new BackupError(
+          `الجدول ${tableName} غير مدرج في قائمة جداول النسخة - الملف معدّل`,
+        );
+      }
+    }
+
+    for (const [tableName, entry] of Object.entries(manifest.tables)) {
+      const rows = bundle.tables[tableName];
+      if (!Array.isArray(rows)) {
+        throw new BackupError(`بيانات الجدول ${tableName} مفقودة من الملف`);
+      }
+      if (checksum(JSON.stringify(rows)) !== entry.checksum) {
+        throw new BackupError(`بصمة الجدول ${tableName} غير مطابقة - الملف تالف`);
+      }
+    }
+
+    return bundle as BackupBundle;
+  }
+
+  private rowKey(row: Record<string, any>, primaryKey: string[]): string {
+    return JSON.stringify(primaryKey.map((column) => row[column] ?? null));
+  }
+
+  private async diffTable(
+    info: SchemaTableInfo,
+    backupRows: Record<string, any>[],
+  ): Promise<RestoreTableDiff> {
+    const currentRows = await this.readTableRows(info);
+    const current = new Map(
+      currentRows.map((row) => [this.rowKey(row, info.primaryKey), row]),
+    );
+
+    let toInsert = 0;
+    let toUpdate = 0;
+    let unchanged = 0;
+    const seen = new Set<string>();
+
+    for (const row of backupRows) {
+      const key = this.rowKey(row, info.primaryKey);
+      seen.add(key);
+      const existing = current.get(key);
+      if (!existing) {
+        toInsert++;
+      } else if (JSON.stringify(existing) === JSON.stringify(row)) {
+        unchanged++;
+      } else {
+        toUpdate++;
+      }
+    }
+
+    return {
+      table: info.name,
+      backupRows: backupRows.length,
+      currentRows: currentRows.length,
+      toInsert,
+      toUpdate,
+      toDelete: currentRows.length - (toUpdate + unchanged),
+      unchanged,
+    };
+  }
+
+  /**
+   * قيود CHECK المعتمدة على التاريخ الحالي (مثل delivery_date >= CURRENT_DATE)
+   * تمنع استعادة السجلات القديمة، لذلك تُعطل مؤقتاً داخل المعاملة ثم يُعاد إنشاؤها
+   * بنفس تعريفها ويُتحقق منها (VALIDATE CONSTRAINT) بعد الإدراج
+   */
+  private async getTimeRelativeChecks(
+    tx: any,
+    tableName: string,
+  ): Promise<{ name: string; definition: string }[]> {
+    const result = await tx.execute(sql`
+      SELECT conname AS name, pg_get_constraintdef(oid) AS definition
+      FROM pg_constraint
+      WHERE conrelid = to_regclass(${tableName})
+        AND contype = 'c'
+        AND (pg_get_constraintdef(oid) ILIKE '%CURRENT_DATE%'
+          OR pg_get_constraintdef(oid) ILIKE '%now()%')
+    `);
+    return result.rows as { name: string; definition: string }[];
+  }
+
+  async restore(
+    bundle: BackupBundle,
+    options: { dryRun?: boolean } = {},
+  ): Promise<RestoreResult> {
+    const startedAt = Date.now();
+    const { manifest } = bundle;
+    const currentVersion = getSchemaVersion();
+    const schemaMatches = manifest.schema_version === currentVersion;
+    const warnings: string[] = [];
+
+    if (!schemaMatches) {
+      warnings.push(
+        `إصدار المخطط في النسخة (${manifest.schema_version}) يختلف عن الحالي (${currentVersion}) - سيتم استعادة الأعمدة المشتركة فقط`,
+      );
+    }
+
+    const tables = getBackupTables();
+    const known = new Set(tables.map((info) => info.name));
+    for (const tableName of Object.keys(bundle.tables)) {
+      if (!known.has(tableName)) {
+        warnings.push(`الجدول ${tableName} غير موجود في المخطط الحالي وسيتم تجاهله`);
+      }
+    }
+    const missing = tables
+      .filter((info) => !bundle.tables[info.name])
+      .map((info) => info.name);
+    if (missing.length > 0 && !options.dryRun) {
+      throw new BackupError(
+        `الجداول التالية غير موجودة في النسخة ولا يمكن الاستعادة بدونها: ${missing.join("، ")}`,
+      );
+    }
+    for (const tableName of missing) {
+      warnings.push(
+        `الجدول ${tableName} غير موجود في النسخة - لن تُنفذ الاستعادة بدونه`,
+      );
+    }
+
+    const diffs: RestoreTableDiff[] = [];
+    for (const info of tables) {
+      diffs.push(await this.diffTable(info, bundle.tables[info.name] || []));
+    }
+
+    const recordsRestored = diffs.reduce((total, d) => total + d.backupRows, 0);
+
+    if (options.dryRun) {
+      return {
+        status: "dry_run",
+        backupId: manifest.id,
+        schemaVersion: manifest.schema_version,
+        schemaMatches,
+        warnings,
+        tables: diffs,
+        tablesRestored: 0,
+        recordsRestored: 0,
+        durationMs: Date.now() - startedAt,
+        timestamp: new Date(),
+      };
+    }
+
+    const unvalidated: string[] = [];
+    await db.transaction(async (tx) => {
+      // الحذف بالترتيب العكسي للاعتماد ثم الإدراج بالترتيب الطبيعي
+      for (const info of [...tables].reverse()) {
+        await tx.execute(sql`DELETE FROM ${sql.identifier(info.name)}`);
+      }
+
+      for (const info of tables) {
+        const rows = bundle.tables[info.name] || [];
+        if (rows.length === 0) continue;
+
+        const timeChecks = await this.getTimeRelativeChecks(tx, info.name);
+        for (const check of timeChecks) {
+          await tx.execute(
+            sql`ALTER TABLE ${sql.identifier(info.name)} DROP CONSTRAINT ${sql.identifier(check.name)}`,
+          );
+        }
+
+        for (let i = 0; i < rows.length; i += RESTORE_CHUNK_SIZE) {
+          const chunk = JSON.stringify(rows.slice(i, i + RESTORE_CHUNK_SIZE));
+          await tx.execute(sql`
+            INSERT INTO ${sql.identifier(info.name)}
+            SELECT * FROM json_populate_recordset(NULL::${sql.identifier(info.name)}, ${chunk}::json)
+          `);
+        }
+
+        for (const check of timeChecks) {
+          await tx.execute(
+            sql`ALTER TABLE ${sql.identifier(info.name)} ADD CONSTRAINT ${sql.identifier(check.name)} ${sql.raw(check.definition)} NOT VALID`,
+          );
+          // التحقق داخل نقطة حفظ: فشله لا يلغي الاستعادة لكن يُبلغ عنه
+          try {
+            await tx.transaction(async (savepoint: any) => {
+              await savepoint.execute(
+                sql`ALTER TABLE ${sql.identifier(info.name)} VALIDATE CONSTRAINT ${sql.identifier(check.name)}`,
+              );
+            });
+          } catch (error) {
+            unvalidated.push(`${info.name}.${check.name}`);
+            console.warn(
+              `[DatabaseBackup] تعذر التحقق من القيد ${check.name} على الجدول ${info.name}:`,
+              error,
+            );
+          }
+        }
+      }
+
+      // إعادة ضبط العدادات التسلسلية لتبدأ بعد أعلى معرف مستعاد
+      for (const info of tables) {
+        for (const column of info.serialColumns) {
+          await tx.execute(sql`
+            SELECT setval(
+              pg_get_serial_sequence(${info.name}, ${column}),
+              COALESCE((SELECT MAX(${sql.identifier(column)}) FROM ${sql.identifier(info.name)}), 0) + 1,
+              false
+            )
+          `);
+        }
+      }
+    });
+
+    console.log(
+      `[DatabaseBackup] تمت استعادة النسخة ${manifest.id}: ${recordsRestored} سجل`,
+    );
+    if (unvalidated.length > 0) {
+      warnings.push(
+        `بعض السجلات المستعادة لا تحقق القيود التالية وبقيت غير مُتحقق منها: ${unvalidated.join("، ")}`,
+      );
+    }
+
+    return {
+      status: "success",
+      backupId: manifest.id,
+      schemaVersion: manifest.schema_version,
+      schemaMatches,
+      warnings,
+      tables: diffs,
+      tablesRestored: tables.length,
+      recordsRestored,
+      durationMs: Date.now() - startedAt,
+      timestamp: new Date(),
+    };
+  }
+}
+
+let databaseBackupService: DatabaseBackupService | null = null;
+export function getDatabaseBackupService(): DatabaseBackupService {
+  if (!databaseBackupService) databaseBackupService = new DatabaseBackupService();
+  return databaseBackupService;
+}
+export default DatabaseBackupService;
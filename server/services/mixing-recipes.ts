@@ -0,0 +1,108 @@
+import type { MixingRecipeLayer } from "@shared/schema";
+
+export interface MixingRecipeCostLine {
+  item_id: string;
+  item_name: string | null;
+  percentage: number; // من وزن الفيلم الكلي
+  unit_cost: number | null;
+  cost_per_kg: number | null;
+}
+
+export interface MixingRecipeCost {
+  materials: MixingRecipeCostLine[];
+  cost_per_kg: number; // مجموع تكلفة المواد ذات التكلفة المعروفة
+  cost_per_kg_with_scrap: number; // بعد إضافة نسبة فاقد المواد من إعدادات الإنتاج
+  missing_cost_items: string[];
+}
+
+export type RecipeMaterialItem = { item_id: string; percentage: number };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+// تحويل نسب الطبقات إلى نسبة كل مادة من وزن الفيلم الكلي
+export function flattenRecipeLayers(
+  layers: MixingRecipeLayer[],
+): RecipeMaterialItem[] {
+  const totals = new Map<string, number>();
+  for (const layer of layers) {
+    for (const material of layer.materials) {
+      totals.set(
+        material.item_id,
+        (totals.get(material.item_id) || 0) +
+          (layer.ratio * material.percentage) / 100,
+      );
+    }
+  }
+  return Array.from(totals, ([item_id, percentage]) => ({
+    item_id,
+    percentage: round4(percentage),
+  }));
+}
+
+export function buildRecipeCost(
+  materialItems: RecipeMaterialItem[],
+  unitCosts: Map<string, { name: string | null; unit_cost: number | null }>,
+  scrapPercent: number,
+): MixingRecipeCost {
+  const materials = materialItems.map((material) => {
+    const itemCost = unitCosts.get(material.item_id);
+    const unitCost = itemCost?.unit_cost ?? null;
+    return {
+      item_id: material.item_id,
+      item_name: itemCost?.name ?? null,
+      percentage: material.percentage,
+      unit_cost: unitCost,
+      cost_per_kg:
+        unitCost === null ? null : (unitCost * material.percentage) / 100,
+    };
+  });
+  const costPerKg = materials.reduce(
+    (total, material) => total + (material.cost_per_kg ?? 0),
+    0,
+  );
+
+  return {
+    materials,
+    cost_per_kg: round4(costPerKg),
+    cost_per_kg_with_scrap: round4(costPerKg * (1 + scrapPercent / 100)),
+    missing_cost_items: materials
+      .filter((material) => material.unit_cost === null)
+      .map((material) => material.item_name || material.item_id),
+  };
+}
+
+/**
+ * كمية كل مادة خام تُصرف لرول بوزن محدد (كجم) مع نسبة فاقد المواد
+ * النسب تُعاد موازنتها على مجموعها، والمادة المكررة في أكثر من طبقة تُجمع في سطر واحد
+ */
+export function recipeMaterialRequirements(
+  materialItems: RecipeMaterialItem[],
+  rollWeightKg: number,
+  scrapPercent: number,
+): Map<string, number> {
+  const materials = materialItems.filter(
+    (material) => material.item_id && Number(material.percentage) > 0,
+  );
+  const totalPercentage = materials.reduce(
+    (total, material) => total + Number(material.percentage),
+    0,
+  );
+  const requirements = new Map<string, number>();
+  if (totalPercentage <= 0) return requirements;
+
+  const shares = new Map<string, number>();
+  for (const material of materials) {
+    shares.set(
+      material.item_id,
+      (shares.get(material.item_id) || 0) +
+        (rollWeightKg * Number(material.percentage)) / totalPercentage,
+    );
+  }
+  const scrapFactor = 1 + scrapPercent / 100;
+  for (const [itemId, share] of Array.from(shares)) {
+    const required = round2(share * scrapFactor);
+    if (required > 0) requirements.set(itemId, required);
+  }
+  return requirements;
+}
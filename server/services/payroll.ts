@@ -0,0 +1,445 @@
+import * as XLSX from "xlsx";
+import type {
+  InsertPayrollPeriodLine,
+  LeaveRequest,
+  LeaveType,
+  PayrollPeriod,
+} from "@shared/schema";
+import type { DataScope } from "@shared/permissions";
+import type { IStorage } from "../storage";
+import {
+  getShiftRules,
+  localDate,
+  type EmployeeTimesheet,
+} from "./shift-rules";
+
+// مفتاح system_settings لترتيب أعمدة ملف الرواتب (مفاتيح الأعمدة مفصولة بفواصل)
+export const PAYROLL_EXPORT_COLUMNS_SETTING_KEY = "payrollExportColumns";
+// الإجراء التأديبي الذي يُحتسب خصماً في المخالفات وتقارير إهمال المشغلين
+const DEDUCTION_PATTERN = /خصم|deduction/i;
+
+export class PayrollError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayrollError";
+  }
+}
+
+export type PayrollLine = Omit<InsertPayrollPeriodLine, "period_id">;
+
+export interface PayrollColumn {
+  key: string;
+  label: string;
+  value: (line: PayrollLine) => string | number;
+}
+
+const toHours = (minutes: number | undefined) =>
+  Math.round(((minutes ?? 0) / 60) * 100) / 100;
+
+/**
+ * أعمدة ملف الرواتب المتاحة - الترتيب الافتراضي هو ترتيب هذه القائمة
+ */
+export const PAYROLL_COLUMNS: PayrollColumn[] = [
+  { key: "user_id", label: "رقم الموظف", value: (l) => l.user_id },
+  { key: "user_name", label: "الموظف", value: (l) => l.user_name },
+  { key: "section_name", label: "القسم", value: (l) => l.section_name ?? "" },
+  {
+    key: "scheduled_days",
+    label: "أيام العمل المجدولة",
+    value: (l) => l.scheduled_days ?? 0,
+  },
+  { key: "worked_days", label: "أيام العمل", value: (l) => l.worked_days ?? 0 },
+  {
+    key: "absent_days",
+    label: "أيام الغياب",
+    value: (l) => l.absent_days ?? 0,
+  },
+  {
+    key: "incomplete_days",
+    label: "أيام بدون انصراف",
+    value: (l) => l.incomplete_days ?? 0,
+  },
+  {
+    key: "paid_leave_days",
+    label: "إجازة مدفوعة",
+    value: (l) => l.paid_leave_days ?? 0,
+  },
+  {
+    key: "unpaid_leave_days",
+    label: "إجازة بدون راتب",
+    value: (l) => l.unpaid_leave_days ?? 0,
+  },
+  { key: "late_days", label: "مرات التأخير", value: (l) => l.late_days ?? 0 },
+  {
+    key: "late_minutes",
+    label: "دقائق التأخير",
+    value: (l) => l.late_minutes ?? 0,
+  },
+  {
+    key: "early_leave_minutes",
+    label: "دقائق الخروج المبكر",
+    value: (l) => l.early_leave_minutes ?? 0,
+  },
+  {
+    key: "worked_hours",
+    label: "ساعات العمل",
+    value: (l) => toHours(l.worked_minutes),
+  },
+  {
+    key: "overtime_hours",
+    label: "ساعات العمل الإضافي",
+    value: (l) => toHours(l.overtime_minutes),
+  },
+  {
+    key: "overtime_minutes",
+    label: "دقائق العمل الإضافي",
+    value: (l) => l.overtime_minutes ?? 0,
+  },
+  {
+    key: "violation_count",
+    label: "عدد المخالفات",
+    value: (l) => l.violation_count ?? 0,
+  },
+  {
+    key: "deduction_count",
+    label: "عدد الخصومات",
+    value: (l) => l.deduction_count ?? 0,
+  },
+  {
+    key: "deduction_notes",
+    label: "تفاصيل الخصومات",
+    value: (l) => l.deduction_notes ?? "",
+  },
+];
+
+/**
+ * الأعمدة المطلوبة بالترتيب المحدد - المفاتيح غير المعروفة تُتجاهل
+ * وبدون مفاتيح صالحة تُستخدم جميع الأعمدة
+ */
+export function resolvePayrollColumns(keys?: string[]): PayrollColumn[] {
+  const columns = (keys ?? [])
+    .map((key) => PAYROLL_COLUMNS.find((column) => column.key === key.trim()))
+    .filter((column): column is PayrollColumn => !!column);
+  return columns.length > 0 ? columns : PAYROLL_COLUMNS;
+}
+
+export interface MonthlyPayroll {
+  month: string;
+  from: string;
+  to: string;
+  status: "open" | "closed" | "reopened";
+  period: PayrollPeriod | null;
+  lines: PayrollLine[];
+}
+
+interface DisciplinaryRecord {
+  user_id: number;
+  is_violation: boolean;
+  is_deduction: boolean;
+  note: string;
+}
+
+const monthRange = (month: string) => {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return {
+    from: `${month}-01`,
+    to: new Date(Date.UTC(year, monthNumber, 0)).toISOString().split("T")[0],
+  };
+};
+
+/**
+ * إجازات الموظف المعتمدة غير المدفوعة في يوم محدد
+ */
+const isUnpaidLeaveDay = (
+  leaves: LeaveRequest[],
+  unpaidTypes: Set<number>,
+  userId: number,
+  date: string,
+) =>
+  leaves.some(
+    (leave) =>
+      leave.employee_id === String(userId) &&
+      leave.start_date <= date &&
+      leave.end_date >= date &&
+      unpaidTypes.has(leave.leave_type_id),
+  );
+
+/**
+ * فترات الرواتب الشهرية: ملخص أيام العمل والغياب والإجازات والتأخير والعمل
+ * الإضافي والخصومات لكل موظف، وإقفال الشهر لمنع تعديل الحضور بعد اعتماده
+ */
+export class PayrollService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getExportColumnKeys(): Promise<string[]> {
+    const settings = await this.storage.getSystemSettings();
+    const setting = settings.find(
+      (s) => s.setting_key === PAYROLL_EXPORT_COLUMNS_SETTING_KEY,
+    );
+    return resolvePayrollColumns(setting?.setting_value?.split(",")).map(
+      (column) => column.key,
+    );
+  }
+
+  /**
+   * رفض تعديل سجلات الحضور التي تقع في شهر رواتب مقفل
+   */
+  async assertAttendanceEditable(date: string): Promise<void> {
+    const month = String(date).slice(0, 7);
+    const period = await this.storage.getPayrollPeriod(month);
+    if (period?.status === "closed") {
+      throw new PayrollError(
+        `لا يمكن تعديل الحضور - تم إقفال رواتب شهر ${month}`,
+      );
+    }
+  }
+
+  private async getDisciplinaryRecords(
+    from: string,
+    to: string,
+  ): Promise<DisciplinaryRecord[]> {
+    const [violations, negligenceReports] = await Promise.all([
+      this.storage.getEmployeeViolationsBetween(from, to),
+      this.storage.getAllOperatorNegligenceReports(),
+    ]);
+
+    const records: DisciplinaryRecord[] = [];
+    for (const violation of violations) {
+      if (!violation.employee_id) continue;
+      records.push({
+        user_id: violation.employee_id,
+        is_violation: true,
+        is_deduction: DEDUCTION_PATTERN.test(violation.action_taken ?? ""),
+        note: `${violation.date} ${violation.violation_type ?? "مخالفة"}: ${violation.action_taken ?? ""}`.trim(),
+      });
+    }
+    for (const report of negligenceReports) {
+      const reportDate = report.report_date
+        ? new Date(report.report_date).toISOString().split("T")[0]
+        : null;
+      if (!reportDate || reportDate < from || reportDate > to) continue;
+      if (!DEDUCTION_PATTERN.test(report.disciplinary_action ?? "")) continue;
+      records.push({
+        user_id: report.operator_id,
+        is_violation: false,
+        is_deduction: true,
+        note: `${report.report_number} ${report.negligence_type}: ${report.disciplinary_action}`,
+      });
+    }
+    return records;
+  }
+
+  /**
+   * احتساب ملخص الرواتب من كشف الدوام الشهري والإجازات والمخالفات
+   */
+  async computeLines(month: string, scope?: DataScope): Promise<PayrollLine[]> {
+    const { from, to } = monthRange(month);
+    const [timesheet, leaves, leaveTypes, disciplinary] = await Promise.all([
+      getShiftRules(this.storage).getMonthlyTimesheet(month, { scope }),
+      this.storage.getLeaveRequests(undefined, scope),
+      this.storage.getLeaveTypes(),
+      this.getDisciplinaryRecords(from, to),
+    ]);
+
+    const approvedLeaves = leaves.filter(
+      (leave) => leave.final_status === "approved",
+    );
+    const unpaidTypes = new Set(
+      leaveTypes
+        .filter((type: LeaveType) => type.is_paid === false)
+        .map((type) => type.id),
+    );
+
+    const lines: PayrollLine[] = timesheet.employees.map(
+      (employee: EmployeeTimesheet) => {
+        const unpaidLeaveDays = employee.days.filter(
+          (day) =>
+            day.status === "on_leave" &&
+            isUnpaidLeaveDay(approvedLeaves, unpaidTypes, employee.user_id, day.date),
+        ).length;
+        return {
+          user_id: employee.user_id,
+          user_name: employee.user_name,
+          section_name: employee.section_name,
+          scheduled_days: employee.totals.scheduled_days,
+          worked_days: employee.totals.present_days,
+          absent_days: employee.totals.absent_days,
+          incomplete_days: employee.totals.incomplete_days,
+          paid_leave_days: employee.totals.leave_days - unpaidLeaveDays,
+          unpaid_leave_days: unpaidLeaveDays,
+          late_days: employee.totals.late_days,
+          late_minutes: employee.totals.late_minutes,
+          early_leave_minutes: employee.totals.early_leave_minutes,
+          worked_minutes: employee.totals.worked_minutes,
+          overtime_minutes: employee.totals.overtime_minutes,
+          violation_count: 0,
+          deduction_count: 0,
+          deduction_notes: null,
+        };
+      },
+    );
+
+    // موظفون عليهم مخالفات أو خصومات بدون حضور أو جدولة في الشهر
+    const linesByUser = new Map(lines.map((line) => [line.user_id, line]));
+    const missingUserIds = new Set(
+      disciplinary
+        .map((record) => record.user_id)
+        .filter((userId) => !linesByUser.has(userId)),
+    );
+    if (missingUserIds.size > 0) {
+      const users = await this.storage.getSafeUsers();
+      for (const user of users) {
+        if (!missingUserIds.has(user.id)) continue;
+        if (!(await this.storage.isUserInScope(user.id, scope))) continue;
+        const line: PayrollLine = {
+          user_id: user.id,
+          user_name: user.display_name_ar || user.display_name || user.username,
+          section_name:
+            timesheet.sections.find((s) => s.section_id === user.section_id)
+              ?.section_name ?? null,
+        };
+        lines.push(line);
+        linesByUser.set(user.id, line);
+      }
+    }
+
+    for (const record of disciplinary) {
+      const line = linesByUser.get(record.user_id);
+      if (!line) continue;
+      if (record.is_violation) line.violation_count = (line.violation_count ?? 0) + 1;
+      if (record.is_deduction) {
+        line.deduction_count = (line.deduction_count ?? 0) + 1;
+        line.deduction_notes = line.deduction_notes
+          ? `${line.deduction_notes}؛ ${record.note}`
+          : record.note;
+      }
+    }
+
+    return lines.sort(
+      (a, b) =>
+        (a.section_name ?? "").localeCompare(b.section_name ?? "", "ar") ||
+        a.user_name.localeCompare(b.user_name, "ar"),
+    );
+  }
+
+  /**
+   * ملخص رواتب الشهر - الفترة المقفلة تُعرض من اللقطة المحفوظة والمفتوحة تُحتسب مباشرة
+   */
+  async getMonthlyPayroll(
+    month: string,
+    scope?: DataScope,
+  ): Promise<MonthlyPayroll> {
+    const { from, to } = monthRange(month);
+    const period = (await this.storage.getPayrollPeriod(month)) ?? null;
+
+    if (period?.status === "closed") {
+      const lines = await this.storage.getPayrollPeriodLines(period.id, scope);
+      return {
+        month,
+        from,
+        to,
+        status: "closed",
+        period,
+        lines: lines.map(({ id: _id, period_id: _periodId, ...line }) => line),
+      };
+    }
+
+    return {
+      month,
+      from,
+      to,
+      status: period ? "reopened" : "open",
+      period,
+      lines: await this.computeLines(month, scope),
+    };
+  }
+
+  /**
+   * إقفال الشهر: يُحفظ ملخص جميع الموظفين ويُمنع تعديل حضور الشهر حتى إعادة فتحه
+   */
+  async closePeriod(
+    month: string,
+    closedBy: number,
+    notes?: string | null,
+  ): Promise<PayrollPeriod> {
+    const { from, to } = monthRange(month);
+    if (to >= localDate()) {
+      throw new PayrollError("لا يمكن إقفال رواتب شهر لم ينتهِ بعد");
+    }
+
+    const lines = await this.computeLines(month);
+    const period = await this.storage.closePayrollPeriod(
+      {
+        month,
+        period_start: from,
+        period_end: to,
+        notes: notes || null,
+        closed_by: closedBy,
+      },
+      lines,
+    );
+    if (!period) {
+      throw new PayrollError(`رواتب شهر ${month} مقفلة بالفعل`);
+    }
+    return period;
+  }
+
+  async reopenPeriod(month: string, reopenedBy: number): Promise<PayrollPeriod> {
+    const period = await this.storage.reopenPayrollPeriod(month, reopenedBy);
+    if (!period) {
+      throw new PayrollError(`رواتب شهر ${month} غير مقفلة`);
+    }
+    return period;
+  }
+}
+
+const payrollRows = (lines: PayrollLine[], columns: PayrollColumn[]) =>
+  lines.map((line) =>
+    Object.fromEntries(
+      columns.map((column) => [column.label, column.value(line)]),
+    ),
+  );
+
+export function payrollToCSV(
+  lines: PayrollLine[],
+  columns: PayrollColumn[],
+): Buffer {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = [columns.map((column) => escape(column.label)).join(",")];
+  for (const line of lines) {
+    rows.push(columns.map((column) => escape(column.value(line))).join(","));
+  }
+
+  // BOM لضمان ظهور النص العربي بشكل صحيح في Excel
+  return Buffer.from("\uFEFF" + rows.join("\n"), "utf8");
+}
+
+export function payrollToXLSX(
+  payroll: MonthlyPayroll,
+  columns: PayrollColumn[],
+): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(payrollRows(payroll.lines, columns), {
+      header: columns.map((column) => column.label),
+    }),
+    `رواتب ${payroll.month}`,
+  );
+  return Buffer.from(XLSX.write(workbook, { bookType: "xlsx", type: "buffer" }));
+}
+
+let payrollService: PayrollService | null = null;
+
+export function getPayroll(storage: IStorage): PayrollService {
+  if (!payrollService) payrollService = new PayrollService(storage);
+  return payrollService;
+}
@@ -0,0 +1,490 @@
+// جدولة الإنتاج بالقدرة المحدودة (Finite Capacity Scheduling)
+// توزع أوامر الإنتاج المفتوحة على مكائن الفيلم والطباعة والتقطيع حسب قدرة كل
+// ماكينة لفئة حجم المنتج، مع ترتيب الأوامر بأقرب تاريخ تسليم
+
+export type ScheduleStage = "film" | "printing" | "cutting";
+export type SizeClass = "small" | "medium" | "large";
+
+// نوع الماكينة المطلوب لكل مرحلة
+export const STAGE_MACHINE_TYPES: Record<ScheduleStage, string> = {
+  film: "extruder",
+  printing: "printer",
+  cutting: "cutter",
+};
+
+// حدود عرض المنتج (سم) لتحديد فئة الحجم: حتى 30 صغير، حتى 60 وسط، وما فوق كبير
+export const SIZE_CLASS_WIDTH_LIMITS_CM = { small: 30, medium: 60 };
+
+const CAPACITY_FIELDS = {
+  small: "capacity_small_kg_per_hour",
+  medium: "capacity_medium_kg_per_hour",
+  large: "capacity_large_kg_per_hour",
+} as const;
+
+const STAGE_LABELS: Record<ScheduleStage, string> = {
+  film: "الفيلم",
+  printing: "الطباعة",
+  cutting: "التقطيع",
+};
+
+const SIZE_CLASS_LABELS: Record<SizeClass, string> = {
+  small: "الصغير",
+  medium: "الوسط",
+  large: "الكبير",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SchedulerMachine {
+  id: string;
+  name: string;
+  name_ar: string | null;
+  type: string;
+  status: string;
+  capacity_small_kg_per_hour: string | null;
+  capacity_medium_kg_per_hour: string | null;
+  capacity_large_kg_per_hour: string | null;
+}
+
+export interface SchedulerOrder {
+  production_order_id: number;
+  production_order_number: string;
+  order_number: string;
+  customer_name: string | null;
+  customer_name_ar: string | null;
+  size_caption: string | null;
+  width: string | null;
+  is_printed: boolean | null;
+  // الكمية المتبقية لكل مرحلة محسوبة من أوزان الرولات (نفس أساس قوائم الانتظار)
+  film_remaining_kg: number;
+  printing_remaining_kg: number;
+  cutting_remaining_kg: number;
+  delivery_date: string | null;
+  status: string;
+  created_at: Date | string;
+}
+
+export interface ScheduledOperation {
+  stage: ScheduleStage;
+  machine_id: string;
+  start: string;
+  end: string;
+  quantity_kg: number;
+  hours: number;
+}
+
+export interface UnscheduledStage {
+  stage: ScheduleStage;
+  quantity_kg: number;
+  reason: string;
+}
+
+export interface ScheduledOrder {
+  production_order_id: number;
+  production_order_number: string;
+  order_number: string;
+  customer_name: string | null;
+  customer_name_ar: string | null;
+  size_caption: string | null;
+  size_class: SizeClass;
+  status: string;
+  delivery_date: string | null;
+  operations: ScheduledOperation[];
+  unscheduled: UnscheduledStage[];
+  projected_completion: string | null; // null إذا تعذرت جدولة إحدى المراحل
+  is_late: boolean;
+  delay_hours: number;
+}
+
+export interface MachineLane {
+  machine_id: string;
+  name: string;
+  name_ar: string | null;
+  type: string;
+  busy_until: string;
+  load_hours: number;
+  operations: Array<
+    ScheduledOperation & {
+      production_order_id: number;
+      production_order_number: string;
+      is_late: boolean;
+    }
+  >;
+}
+
+export interface ProductionSchedule {
+  generated_at: string;
+  horizon_end: string;
+  machines: MachineLane[];
+  excluded_machines: Array<{
+    id: string;
+    name: string;
+    name_ar: string | null;
+    type: string;
+    status: string;
+  }>;
+  orders: ScheduledOrder[];
+}
+
+export function getSizeClass(width: string | number | null): SizeClass {
+  const value = typeof width === "number" ? width : parseFloat(width || "");
+  if (!Number.isFinite(value) || value <= 0) return "medium";
+  if (value <= SIZE_CLASS_WIDTH_LIMITS_CM.small) return "small";
+  if (value <= SIZE_CLASS_WIDTH_LIMITS_CM.medium) return "medium";
+  return "large";
+}
+
+function getCapacity(machine: SchedulerMachine, sizeClass: SizeClass): number {
+  const value = parseFloat(machine[CAPACITY_FIELDS[sizeClass]] || "");
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function roundKg(value: number): number {
+  return Math.round(Math.max(value, 0) * 100) / 100;
+}
+
+// نهاية يوم التسليم - الطلب متأخر إذا تجاوز الإنجاز المتوقع هذا الوقت
+function getDueTime(deliveryDate: string | null): number | null {
+  if (!deliveryDate) return null;
+  const due = new Date(`${deliveryDate}T23:59:59`);
+  return Number.isNaN(due.getTime()) ? null : due.getTime();
+}
+
+/**
+ * بناء خطة الإنتاج: ترتيب الأوامر حسب تاريخ التسليم (الأقرب أولاً)، ثم جدولة
+ * كل مرحلة متبقية على الماكينة المتاحة التي تنهيها أبكر. لا تبدأ المرحلة قبل
+ * انتهاء المرحلة السابقة لنفس الأمر، والمكائن غير النشطة مستبعدة من الخطة.
+ */
+export function buildProductionSchedule(
+  allMachines: SchedulerMachine[],
+  openOrders: SchedulerOrder[],
+  now: Date = new Date(),
+): ProductionSchedule {
+  const startTime = now.getTime();
+  const schedulable = allMachines.filter(
+    (machine) =>
+      machine.status === "active" &&
+      Object.values(STAGE_MACHINE_TYPES).includes(machine.type),
+  );
+  const excluded = allMachines.filter(
+    (machine) =>
+      machine.status !== "active" &&
+      Object.values(STAGE_MACHINE_TYPES).includes(machine.type),
+  );
+
+  const lanes = new Map<string, MachineLane & { available_at: number }>();
+  for (const machine of schedulable) {
+    lanes.set(machine.id, {
+      machine_id: machine.id,
+      name: machine.name,
+      name_ar: machine.name_ar,
+      type: machine.type,
+      busy_until: now.toISOString(),
+      load_hours: 0,
+      operations: [],
+      available_at: startTime,
+    });
+  }
+
+  const sortedOrders = [...openOrders].sort((a, b) => {
+    const dueA = getDueTime(a.delivery_date) ?? Number.MAX_SAFE_INTEGER;
+    const dueB = getDueTime(b.delivery_date) ?? Number.MAX_SAFE_INTEGER;
+    if (dueA !== dueB) return dueA - dueB;
+    const createdA = new Date(a.created_at).getTime();
+    const createdB = new Date(b.created_at).getTime();
+    if (createdA !== createdB) return createdA - createdB;
+    return a.production_order_id - b.production_order_id;
+  });
+
+  const scheduledOrders: ScheduledOrder[] = [];
+
+  for (const order of sortedOrders) {
+    const sizeClass = getSizeClass(order.width);
+    const stages: Array<{ stage: ScheduleStage; remaining: number }> = [
+      { stage: "film", remaining: roundKg(order.film_remaining_kg) },
+      ...(order.is_printed
+        ? [
+            {
+              stage: "printing" as const,
+              remaining: roundKg(order.printing_remaining_kg),
+            },
+          ]
+        : []),
+      { stage: "cutting", remaining: roundKg(order.cutting_remaining_kg) },
+    ];
+
+    const operations: ScheduledOperation[] = [];
+    const unscheduled: UnscheduledStage[] = [];
+    let readyAt = startTime;
+
+    for (const { stage, remaining } of stages) {
+      if (remaining <= 0) continue;
+
+      // اختيار الماكينة التي تنهي المرحلة أبكر
+      let best: {
+        lane: MachineLane & { available_at: number };
+        start: number;
+        end: number;
+        hours: number;
+      } | null = null;
+      for (const machine of schedulable) {
+        if (machine.type !== STAGE_MACHINE_TYPES[stage]) continue;
+        const capacity = getCapacity(machine, sizeClass);
+        if (capacity <= 0) continue;
+        const lane = lanes.get(machine.id)!;
+        const hours = remaining / capacity;
+        const start = Math.max(lane.available_at, readyAt);
+        const end = start + hours * HOUR_MS;
+        if (!best || end < best.end) {
+          best = { lane, start, end, hours };
+        }
+      }
+
+      if (!best) {
+        unscheduled.push({
+          stage,
+          quantity_kg: remaining,
+          reason: `لا توجد ماكينة ${STAGE_LABELS[stage]} نشطة بقدرة محددة للحجم ${SIZE_CLASS_LABELS[sizeClass]}`,
+        });
+        continue;
+      }
+
+      const operation: ScheduledOperation = {
+        stage,
+        machine_id: best.lane.machine_id,
+        start: new Date(best.start).toISOString(),
+        end: new Date(best.end).toISOString(),
+        quantity_kg: remaining,
+        hours: Math.round(best.hours * 100) / 100,
+      };
+      operations.push(operation);
+      best.lane.available_at = best.end;
+      best.lane.load_hours += best.hours;
+      best.lane.operations.push({
+        ...operation,
+        production_order_id: order.production_order_id,
+        production_order_number: order.production_order_number,
+        is_late: false,
+      });
+      readyAt = best.end;
+    }
+
+    const completion =
+      unscheduled.length > 0
+        ? null
+        : operations.length > 0
+          ? readyAt
+          : startTime;
+    const due = getDueTime(order.delivery_date);
+    const delayMs =
+      completion !== null && due !== null ? Math.max(completion - due, 0) : 0;
+
+    scheduledOrders.push({
+      production_order_id: order.production_order_id,
+      production_order_number: order.production_order_number,
+      order_number: order.order_number,
+      customer_name: order.customer_name,
+      customer_name_ar: order.customer_name_ar,
+      size_caption: order.size_caption,
+      size_class: sizeClass,
+      status: order.status,
+      delivery_date: order.delivery_date,
+      operations,
+      unscheduled,
+      projected_completion:
+        completion !== null ? new Date(completion).toISOString() : null,
+      is_late: delayMs > 0,
+      delay_hours: Math.round((delayMs / HOUR_MS) * 10) / 10,
+    });
+  }
+
+  const lateOrders = new Set(
+    scheduledOrders
+      .filter((order) => order.is_late)
+      .map((order) => order.production_order_id),
+  );
+  let horizonEnd = startTime;
+  const machineLanes = Array.from(lanes.values()).map(
+    ({ available_at, ...lane }) => {
+      horizonEnd = Math.max(horizonEnd, available_at);
+      return {
+        ...lane,
+        busy_until: new Date(available_at).toISOString(),
+        load_hours: Math.round(lane.load_hours * 100) / 100,
+        operations: lane.operations.map((operation) => ({
+          ...operation,
+          is_late: lateOrders.has(operation.production_order_id),
+        })),
+      };
+    },
+  );
+
+  const typeOrder = Object.values(STAGE_MACHINE_TYPES);
+  machineLanes.sort(
+    (a, b) =>
+      typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) ||
+      a.machine_id.localeCompare(b.machine_id),
+  );
+
+  return {
+    generated_at: now.toISOString(),
+    horizon_end: new Date(horizonEnd).toISOString(),
+    machines: machineLanes,
+    excluded_machines: excluded.map((machine) => ({
+      id: machine.id,
+      name: machine.name,
+      name_ar: machine.name_ar,
+      type: machine.type,
+      status: machine.status,
+    })),
+    orders: scheduledOrders,
+  };
+}
+
+// أيام إضافية بعد انتهاء التقطيع للتغليف والاستلام والشحن
+export const PROMISE_BUFFER_DAYS = 1;
+
+export interface PromiseLine {
+  customer_product_id: number;
+  size_caption: string | null;
+  width: string | null;
+  is_printed: boolean | null;
+  final_quantity_kg: number;
+}
+
+export interface DeliveryPromise {
+  calculated_at: string;
+  earliest_completion: string | null;
+  earliest_delivery_date: string | null; // YYYY-MM-DD
+  earliest_delivery_days: number | null;
+  lines: Array<{
+    customer_product_id: number;
+    size_caption: string | null;
+    size_class: SizeClass;
+    final_quantity_kg: number;
+    operations: ScheduledOperation[];
+    unscheduled: UnscheduledStage[];
+    projected_completion: string | null;
+  }>;
+  unavailable_machines: Array<{ id: string; name_ar: string | null; reason: string }>;
+}
+
+function toLocalDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * حساب أقرب تاريخ تسليم ممكن (Capable-to-Promise): تُضاف البنود الجديدة في
+ * نهاية الخطة الحالية بعد كل الأوامر المفتوحة، مع استبعاد المكائن المتوقفة
+ * والمكائن التي عليها طلبات صيانة مفتوحة.
+ */
+export function buildDeliveryPromise(
+  allMachines: SchedulerMachine[],
+  openOrders: SchedulerOrder[],
+  lines: PromiseLine[],
+  machinesUnderMaintenance: string[],
+  now: Date = new Date(),
+): DeliveryPromise {
+  const blocked = new Set(machinesUnderMaintenance);
+  const unavailable: DeliveryPromise["unavailable_machines"] = [];
+  const availableMachines = allMachines.map((machine) => {
+    if (!Object.values(STAGE_MACHINE_TYPES).includes(machine.type)) {
+      return machine;
+    }
+    if (machine.status !== "active") {
+      unavailable.push({
+        id: machine.id,
+        name_ar: machine.name_ar || machine.name,
+        reason: machine.status === "down" ? "متوقفة" : "في الصيانة",
+      });
+      return machine;
+    }
+    if (blocked.has(machine.id)) {
+      unavailable.push({
+        id: machine.id,
+        name_ar: machine.name_ar || machine.name,
+        reason: "طلب صيانة مفتوح",
+      });
+      return { ...machine, status: "maintenance" };
+    }
+    return machine;
+  });
+
+  // البنود الجديدة بلا تاريخ تسليم وبتاريخ إنشاء لاحق فتُرتب بعد كل الأوامر القائمة
+  const candidates: SchedulerOrder[] = lines.map((line, index) => ({
+    production_order_id: -(index + 1),
+    production_order_number: `NEW-${index + 1}`,
+    order_number: "NEW",
+    customer_name: null,
+    customer_name_ar: null,
+    size_caption: line.size_caption,
+    width: line.width,
+    is_printed: line.is_printed,
+    film_remaining_kg: line.final_quantity_kg,
+    printing_remaining_kg: line.final_quantity_kg,
+    cutting_remaining_kg: line.final_quantity_kg,
+    delivery_date: null,
+    status: "pending",
+    created_at: new Date(now.getTime() + index + 1),
+  }));
+
+  const schedule = buildProductionSchedule(
+    availableMachines,
+    [...openOrders, ...candidates],
+    now,
+  );
+
+  const promisedLines = lines.map((line, index) => {
+    const scheduled = schedule.orders.find(
+      (order) => order.production_order_id === -(index + 1),
+    )!;
+    return {
+      customer_product_id: line.customer_product_id,
+      size_caption: line.size_caption,
+      size_class: scheduled.size_class,
+      final_quantity_kg: line.final_quantity_kg,
+      operations: scheduled.operations,
+      unscheduled: scheduled.unscheduled,
+      projected_completion: scheduled.projected_completion,
+    };
+  });
+
+  const canPromise =
+    promisedLines.length > 0 &&
+    promisedLines.every((line) => line.projected_completion !== null);
+  let earliestCompletion: Date | null = null;
+  let deliveryDate: Date | null = null;
+  let deliveryDays: number | null = null;
+
+  if (canPromise) {
+    earliestCompletion = new Date(
+      Math.max(
+        ...promisedLines.map((line) =>
+          new Date(line.projected_completion!).getTime(),
+        ),
+      ),
+    );
+    deliveryDate = new Date(earliestCompletion);
+    deliveryDate.setHours(0, 0, 0, 0);
+    deliveryDate.setDate(deliveryDate.getDate() + PROMISE_BUFFER_DAYS);
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    deliveryDays = Math.max(
+      Math.round((deliveryDate.getTime() - today.getTime()) / (24 * HOUR_MS)),
+      1,
+    );
+  }
+
+  return {
+    calculated_at: now.toISOString(),
+    earliest_completion: earliestCompletion
+      ? earliestCompletion.toISOString()
+      : null,
+    earliest_delivery_date: deliveryDate ? toLocalDateString(deliveryDate) : null,
+    earliest_delivery_days: deliveryDays,
+    lines: promisedLines,
+    unavailable_machines: unavailable,
+  };
+}
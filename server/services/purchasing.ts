@@ -0,0 +1,102 @@
+// أخطاء قواعد عمل المشتريات (حالة أمر الشراء، كميات الاستلام...) - تُعرض للمستخدم كما هي
+export class PurchasingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchasingError";
+  }
+}
+
+// حالات أمر الشراء التي تنتظر استلام البضاعة
+export const OPEN_PURCHASE_ORDER_STATUSES = [
+  "approved",
+  "partially_received",
+] as const;
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<string, string> = {
+  draft: "مسودة",
+  approved: "معتمد",
+  partially_received: "مستلم جزئياً",
+  received: "مستلم بالكامل",
+  cancelled: "ملغي",
+};
+
+// فرق التقريب المسموح عند مقارنة الكميات المستلمة بكميات أمر الشراء
+export const PURCHASE_QUANTITY_TOLERANCE = 0.001;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * متوسط التكلفة المرجح بعد استلام كمية جديدة
+ * الرصيد الحالي بدون تكلفة مسجلة (أو رصيد صفري) يأخذ تكلفة الاستلام مباشرة
+ */
+export function weightedAverageCost(
+  currentStock: number,
+  currentCost: number | null,
+  receivedQuantity: number,
+  receivedUnitCost: number,
+): number {
+  if (currentCost === null || currentStock <= 0) {
+    return round4(receivedUnitCost);
+  }
+  const totalQuantity = currentStock + receivedQuantity;
+  return round4(
+    (currentStock * currentCost + receivedQuantity * receivedUnitCost) /
+      totalQuantity,
+  );
+}
+
+export function assertPurchaseOrderStatus(
+  status: string,
+  allowed: readonly string[],
+  action: string,
+): void {
+  if (!allowed.includes(status)) {
+    throw new PurchasingError(
+      `لا يمكن ${action} أمر شراء حالته "${PURCHASE_ORDER_STATUS_LABELS[status] || status}"`,
+    );
+  }
+}
+
+/**
+ * التحقق من كمية الاستلام على بند أمر شراء - تُرجع الكمية مقربة لمنزلتين
+ * الاستلام الجزئي مسموح، وتجاوز الكمية المتبقية مرفوض
+ */
+export function receivableQuantity(
+  quantity: number,
+  orderedQuantity: number,
+  receivedQuantity: number,
+  itemLabel: string,
+): number {
+  const rounded = round2(quantity);
+  const remaining = round2(orderedQuantity - receivedQuantity);
+  if (rounded > remaining + PURCHASE_QUANTITY_TOLERANCE) {
+    throw new PurchasingError(
+      `الكمية المستلمة للصنف ${itemLabel} (${rounded.toFixed(2)}) تتجاوز الكمية المتبقية في أمر الشراء (${remaining.toFixed(2)})`,
+    );
+  }
+  return rounded;
+}
+
+// حالة أمر الشراء بعد الاستلام: مستلم بالكامل عند استلام جميع البنود
+export function receiptStatus(
+  lines: { quantity: number; received_quantity: number }[],
+): "received" | "partially_received" {
+  return lines.every(
+    (line) =>
+      line.received_quantity + PURCHASE_QUANTITY_TOLERANCE >= line.quantity,
+  )
+    ? "received"
+    : "partially_received";
+}
+
+// تاريخ التسليم المتوقع = تاريخ الطلب + مدة التوريد المتفق عليها مع المورد
+export function expectedDeliveryDate(
+  orderDate: string,
+  leadTimeDays: number | null,
+): string | null {
+  if (leadTimeDays === null || leadTimeDays === undefined) return null;
+  const date = new Date(`${orderDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + leadTimeDays);
+  return date.toISOString().slice(0, 10);
+}
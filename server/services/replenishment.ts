@@ -0,0 +1,281 @@
+// اقتراحات إعادة الطلب (Min/Max Replenishment)
+// يُقترح الطلب عندما يتوقع أن ينزل الرصيد عن الحد الأدنى قبل وصول طلبية جديدة:
+// الرصيد المتوقع عند الوصول = الرصيد الحالي + المشتريات المفتوحة - الاستهلاك اليومي × مدة التوريد
+// والكمية المقترحة ترفع الرصيد المتوقع إلى الحد الأقصى
+import * as XLSX from "xlsx";
+
+export type ReorderSource = "inventory" | "consumable";
+export type ReorderUrgency = "critical" | "high" | "normal";
+
+// فترة احتساب متوسط الاستهلاك الافتراضية
+export const DEFAULT_LOOKBACK_DAYS = 90;
+// مدة التوريد عند عدم وجود مورد أو بيانات توريد سابقة
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// وحدات لا تقبل الكسور - الكمية المقترحة تُقرب للأعلى لعدد صحيح
+const DISCRETE_UNITS = ["قطعة", "رول", "علبة", "piece", "roll", "package"];
+
+const URGENCY_ORDER: Record<ReorderUrgency, number> = {
+  critical: 0,
+  high: 1,
+  normal: 2,
+};
+
+export interface ReplenishmentStockInput {
+  source: ReorderSource;
+  item_id: string | null; // أصناف المخزون فقط - قطع الغيار الاستهلاكية ليست أصنافاً
+  consumable_part_id: number | null;
+  code: string | null;
+  name: string;
+  unit: string;
+  current_stock: number;
+  min_stock: number;
+  max_stock: number;
+  consumed_quantity: number; // إجمالي الصرف خلال فترة الاحتساب
+  open_purchase_quantity: number; // المتبقي في أوامر الشراء غير المستلمة
+  unit_cost: number | null;
+}
+
+export interface ReplenishmentSupplierInput {
+  id: number;
+  name: string;
+  name_ar: string | null;
+  is_active: boolean;
+  lead_time_days: number | null; // المتفق عليها
+  avg_lead_time_days: number | null; // الفعلية من أوامر الشراء المستلمة
+  materials_supplied: string[] | null;
+}
+
+// آخر شراء لكل صنف: المورد والسعر
+export interface LastPurchase {
+  supplier_id: number;
+  unit_price: number;
+}
+
+export interface ReorderSuggestion {
+  key: string;
+  source: ReorderSource;
+  item_id: string | null;
+  consumable_part_id: number | null;
+  code: string | null;
+  name: string;
+  unit: string;
+  current_stock: number;
+  min_stock: number;
+  max_stock: number;
+  open_purchase_quantity: number;
+  avg_daily_consumption: number;
+  days_of_cover: number | null;
+  lead_time_days: number;
+  projected_stock: number; // الرصيد المتوقع عند وصول طلبية جديدة
+  suggested_quantity: number;
+  supplier_id: number | null;
+  supplier_name: string | null;
+  unit_price: number | null;
+  estimated_cost: number | null;
+  urgency: ReorderUrgency;
+  // قطع الغيار الاستهلاكية تُصدّر فقط ولا تتحول لأوامر شراء
+  can_convert: boolean;
+}
+
+export interface ReorderList {
+  generated_at: Date;
+  lookback_days: number;
+  suggestions: ReorderSuggestion[];
+  total_estimated_cost: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function pickSupplier(
+  itemId: string | null,
+  suppliers: ReplenishmentSupplierInput[],
+  lastPurchase: LastPurchase | undefined,
+): ReplenishmentSupplierInput | null {
+  if (!itemId) return null;
+  const active = suppliers.filter((supplier) => supplier.is_active);
+  const previous = lastPurchase
+    ? active.find((supplier) => supplier.id === lastPurchase.supplier_id)
+    : undefined;
+  if (previous) return previous;
+
+  // أسرع مورد يورد هذا الصنف
+  const candidates = active
+    .filter((supplier) => supplier.materials_supplied?.includes(itemId))
+    .sort(
+      (a, b) =>
+        (a.avg_lead_time_days ?? a.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS) -
+        (b.avg_lead_time_days ?? b.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS),
+    );
+  return candidates[0] || null;
+}
+
+export function buildReorderSuggestions(
+  stock: ReplenishmentStockInput[],
+  suppliers: ReplenishmentSupplierInput[],
+  lastPurchases: Map<string, LastPurchase>,
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS,
+): ReorderList {
+  const suggestions: ReorderSuggestion[] = [];
+
+  for (const line of stock) {
+    // الصنف بدون حدود مخزون معرّفة لا يدخل في إعادة الطلب
+    if (line.min_stock <= 0 && line.max_stock <= 0) continue;
+
+    const lastPurchase = line.item_id
+      ? lastPurchases.get(line.item_id)
+      : undefined;
+    const supplier = pickSupplier(line.item_id, suppliers, lastPurchase);
+    // مدة التوريد الفعلية أدق من المتفق عليها
+    const leadTimeDays = Math.ceil(
+      supplier?.avg_lead_time_days ??
+        supplier?.lead_time_days ??
+        DEFAULT_LEAD_TIME_DAYS,
+    );
+
+    const dailyConsumption = line.consumed_quantity / lookbackDays;
+    const projectedStock = round2(
+      line.current_stock +
+        line.open_purchase_quantity -
+        dailyConsumption * leadTimeDays,
+    );
+    if (projectedStock > line.min_stock) continue;
+
+    // الحد الأقصى غير المعرّف (أو الأقل من الأدنى) يُعامل كالحد الأدنى
+    const target = Math.max(line.max_stock, line.min_stock);
+    const rawQuantity = target - projectedStock;
+    const suggestedQuantity = DISCRETE_UNITS.includes(line.unit)
+      ? Math.ceil(rawQuantity)
+      : Math.ceil(rawQuantity * 100) / 100;
+    if (suggestedQuantity <= 0) continue;
+
+    const daysOfCover =
+      dailyConsumption > 0
+        ? Number((line.current_stock / dailyConsumption).toFixed(1))
+        : null;
+    const urgency: ReorderUrgency =
+      line.current_stock <= 0 ||
+      (daysOfCover !== null && daysOfCover < leadTimeDays)
+        ? "critical"
+        : line.current_stock < line.min_stock
+          ? "high"
+          : "normal";
+
+    // السعر من آخر شراء لدى نفس المورد، وإلا متوسط تكلفة المخزون
+    const unitPrice =
+      lastPurchase && lastPurchase.supplier_id === supplier?.id
+        ? lastPurchase.unit_price
+        : line.unit_cost;
+
+    suggestions.push({
+      key: line.item_id
+        ? `item:${line.item_id}:${line.unit}`
+        : `part:${line.consumable_part_id}`,
+      source: line.source,
+      item_id: line.item_id,
+      consumable_part_id: line.consumable_part_id,
+      code: line.code,
+      name: line.name,
+      unit: line.unit,
+      current_stock: round2(line.current_stock),
+      min_stock: round2(line.min_stock),
+      max_stock: round2(line.max_stock),
+      open_purchase_quantity: round2(line.open_purchase_quantity),
+      avg_daily_consumption: Number(dailyConsumption.toFixed(3)),
+      days_of_cover: daysOfCover,
+      lead_time_days: leadTimeDays,
+      projected_stock: projectedStock,
+      suggested_quantity: suggestedQuantity,
+      supplier_id: supplier?.id ?? null,
+      supplier_name: supplier ? supplier.name_ar || supplier.name : null,
+      unit_price: unitPrice,
+      estimated_cost:
+        unitPrice === null ? null : round2(suggestedQuantity * unitPrice),
+      urgency,
+      can_convert: line.source === "inventory" && !!line.item_id,
+    });
+  }
+
+  suggestions.sort(
+    (a, b) =>
+      URGENCY_ORDER[a.urgency] - URGENCY_ORDER[b.urgency] ||
+      (a.days_of_cover ?? Number.MAX_SAFE_INTEGER) -
+        (b.days_of_cover ?? Number.MAX_SAFE_INTEGER),
+  );
+
+  return {
+    generated_at: new Date(),
+    lookback_days: lookbackDays,
+    suggestions,
+    total_estimated_cost: round2(
+      suggestions.reduce((total, s) => total + (s.estimated_cost || 0), 0),
+    ),
+  };
+}
+
+const URGENCY_LABELS: Record<ReorderUrgency, string> = {
+  critical: "حرج",
+  high: "تحت الحد الأدنى",
+  normal: "نقطة إعادة الطلب",
+};
+
+const EXPORT_COLUMNS: Array<{
+  label: string;
+  value: (s: ReorderSuggestion) => string | number;
+}> = [
+  { label: "الكود", value: (s) => s.code || s.item_id || "" },
+  { label: "الصنف", value: (s) => s.name },
+  {
+    label: "النوع",
+    value: (s) => (s.source === "inventory" ? "مخزون" : "قطع غيار استهلاكية"),
+  },
+  { label: "الوحدة", value: (s) => s.unit },
+  { label: "الرصيد الحالي", value: (s) => s.current_stock },
+  { label: "الحد الأدنى", value: (s) => s.min_stock },
+  { label: "الحد الأقصى", value: (s) => s.max_stock },
+  { label: "مشتريات مفتوحة", value: (s) => s.open_purchase_quantity },
+  { label: "الاستهلاك اليومي", value: (s) => s.avg_daily_consumption },
+  { label: "أيام التغطية", value: (s) => s.days_of_cover ?? "" },
+  { label: "مدة التوريد (يوم)", value: (s) => s.lead_time_days },
+  { label: "الكمية المقترحة", value: (s) => s.suggested_quantity },
+  { label: "المورد", value: (s) => s.supplier_name || "" },
+  { label: "سعر الوحدة", value: (s) => s.unit_price ?? "" },
+  { label: "التكلفة التقديرية", value: (s) => s.estimated_cost ?? "" },
+  { label: "الأولوية", value: (s) => URGENCY_LABELS[s.urgency] },
+];
+
+export function reorderListToCSV(list: ReorderList): Buffer {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = [EXPORT_COLUMNS.map((column) => escape(column.label)).join(",")];
+  for (const suggestion of list.suggestions) {
+    rows.push(
+      EXPORT_COLUMNS.map((column) => escape(column.value(suggestion))).join(","),
+    );
+  }
+
+  return Buffer.from("\uFEFF" + rows.join("\n"), "utf8");
+}
+
+export function reorderListToXLSX(list: ReorderList): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(
+      list.suggestions.map((suggestion) =>
+        Object.fromEntries(
+          EXPORT_COLUMNS.map((column) => [
+            column.label,
+            column.value(suggestion),
+          ]),
+        ),
+      ),
+      { header: EXPORT_COLUMNS.map((column) => column.label) },
+    ),
+    "اقتراحات إعادة الطلب",
+  );
+  return Buffer.from(XLSX.write(workbook, { bookType: "xlsx", type: "buffer" }));
+}
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import { is } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+/**
+ * سجل جداول المخطط - يستخرج جميع جداول shared/schema.ts مع علاقاتها
+ * يُستخدم في النسخ الاحتياطي والاستيراد/التصدير العام
+ */
+export interface SchemaTableInfo {
+  name: string;
+  table: PgTable;
+  columns: string[];
+  primaryKey: string[];
+  serialColumns: string[];
+  dependsOn: string[];
+}
+
+let cachedTables: SchemaTableInfo[] | null = null;
+
+// أعمدة لها عداد تسلسلي يجب ضبطه بعد إدراج معرفات صريحة
+const SERIAL_COLUMN_TYPES = new Set([
+  "PgSerial",
+  "PgSmallSerial",
+  "PgBigSerial53",
+  "PgBigSerial64",
+]);
+
+function buildTableInfo(table: PgTable): SchemaTableInfo {
+  const config = getTableConfig(table);
+  // مفتاح عمود واحد (.primaryKey()) أو مفتاح مركب معرف في إعدادات الجدول
+  const primaryKey = [
+    ...config.columns
+      .filter((column) => column.primary)
+      .map((column) => column.name),
+    ...config.primaryKeys.flatMap((key) =>
+      key.columns.map((column) => column.name),
+    ),
+  ];
+
+  const dependsOn = new Set<string>();
+  for (const foreignKey of config.foreignKeys) {
+    const referenced = getTableConfig(foreignKey.reference().foreignTable).name;
+    if (referenced !== config.name) dependsOn.add(referenced);
+  }
+
+  return {
+    name: config.name,
+    table,
+    columns: config.columns.map((column) => column.name),
+    // الجدول بدون مفتاح أساسي يُعرّف السجل فيه بجميع أعمدته
+    primaryKey:
+      primaryKey.length > 0
+        ? primaryKey
+        : config.columns.map((column) => column.name),
+    serialColumns: config.columns
+      .filter((column) => SERIAL_COLUMN_TYPES.has(column.columnType))
+      .map((column) => column.name),
+    dependsOn: Array.from(dependsOn),
+  };
+}
+
+/**
+ * جميع جداول المخطط مرتبة حسب الاعتماد (الجداول المرجعية أولاً)
+ */
+export function getSchemaTables(): SchemaTableInfo[] {
+  if (cachedTables) return cachedTables;
+
+  const byName = new Map<string, SchemaTableInfo>();
+  for (const value of Object.values(schema)) {
+    if (is(value, PgTable)) {
+      const info = buildTableInfo(value);
+      byName.set(info.name, info);
+    }
+  }
+
+  // ترتيب طوبولوجي - الجدول لا يُدرج قبل الجداول التي يشير إليها
+  const ordered: SchemaTableInfo[] = [];
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name)) return;
+    const info = byName.get(name);
+    if (!info) return;
+    if (visiting.has(name)) {
+      throw new Error(`اعتماد دائري بين الجداول عند الجدول ${name}`);
+    }
+    visiting.add(name);
+    info.dependsOn.forEach(visit);
+    visiting.delete(name);
+    visited.add(name);
+    ordered.push(info);
+  };
+
+  Array.from(byName.keys()).sort().forEach(visit);
+  cachedTables = ordered;
+  return ordered;
+}
+
+export function getSchemaTable(name: string): SchemaTableInfo | undefined {
+  return getSchemaTables().find((info) => info.name === name);
+}
+
+/**
+ * بصمة إصدار المخطط - تتغير عند إضافة أو حذف أو تعديل أي عمود
+ */
+export function getSchemaVersion(): string {
+  const signature = getSchemaTables()
+    .map((info) => {
+      const columns = getTableConfig(info.table)
+        .columns.map((column) => `${column.name}:${column.getSQLType()}`)
+        .sort()
+        .join(",");
+      return `${info.name}(${columns})`;
+    })
+    .sort()
+    .join(";");
+
+  return crypto.createHash("sha256").update(signature).digest("hex").slice(0, 16);
+}
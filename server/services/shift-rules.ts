@@ -0,0 +1,601 @@
+import * as XLSX from "xlsx";
+import type { Attendance, LeaveRequest, ShiftTemplate } from "@shared/schema";
+import type { DataScope } from "@shared/permissions";
+import type { IStorage, UserShiftListItem } from "../storage";
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_WORKING_HOURS_PER_DAY = 8;
+// للموظفين بدون جدولة ورديات: أقل عمل إضافي يُحتسب
+const DEFAULT_OVERTIME_MIN_MINUTES = 30;
+// الوردية الليلية تبقى مفتوحة لتسجيل الانصراف حتى 6 ساعات بعد نهايتها
+const NIGHT_SHIFT_CHECKOUT_WINDOW_MINUTES = 6 * 60;
+
+const parseTime = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return { year, month, day };
+};
+
+const addDays = (value: string, days: number) => {
+  const { year, month, day } = parseDate(value);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split("T")[0];
+};
+
+const dayOfWeek = (value: string) => {
+  const { year, month, day } = parseDate(value);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// تاريخ اليوم بتوقيت الخادم (توقيت المصنع) - أيام الحضور محلية وليست UTC
+export const localDate = (value: Date = new Date()) =>
+  [
+    value.getFullYear(),
+    String(value.getMonth() + 1).padStart(2, "0"),
+    String(value.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// وقت الوردية بتوقيت الخادم (توقيت المصنع)
+const dateAt = (value: string, minutes: number) => {
+  const { year, month, day } = parseDate(value);
+  return new Date(year, month - 1, day, 0, minutes);
+};
+
+const minutesBetween = (from: Date, to: Date) =>
+  Math.round((to.getTime() - from.getTime()) / 60000);
+
+export const crossesMidnight = (shift: ShiftTemplate) =>
+  parseTime(shift.end_time) <= parseTime(shift.start_time);
+
+/**
+ * بداية ونهاية الوردية ليوم حضور محدد - الوردية الليلية تنتهي في اليوم التالي
+ */
+export function shiftWindow(date: string, shift: ShiftTemplate) {
+  const startMinutes = parseTime(shift.start_time);
+  const endMinutes =
+    parseTime(shift.end_time) + (crossesMidnight(shift) ? MINUTES_PER_DAY : 0);
+  return {
+    start: dateAt(date, startMinutes),
+    end: dateAt(date, endMinutes),
+  };
+}
+
+export type AttendanceDayStatus =
+  | "present" // حاضر
+  | "incomplete" // حضور بدون انصراف
+  | "absent" // غائب في يوم عمل مجدول
+  | "on_leave" // إجازة معتمدة
+  | "rest_day_work" // عمل في يوم راحة - يُحتسب كاملاً عملاً إضافياً
+  | "off"; // يوم راحة
+
+export interface AttendanceDaySummary {
+  date: string;
+  status: AttendanceDayStatus;
+  shift_template_id: number | null;
+  shift_name: string | null;
+  check_in: Date | null;
+  check_out: Date | null;
+  scheduled_minutes: number;
+  worked_minutes: number;
+  break_minutes: number;
+  late_minutes: number;
+  early_leave_minutes: number;
+  overtime_minutes: number;
+}
+
+export interface TimesheetTotals {
+  scheduled_days: number;
+  present_days: number;
+  absent_days: number;
+  leave_days: number;
+  incomplete_days: number;
+  late_days: number;
+  late_minutes: number;
+  early_leave_days: number;
+  early_leave_minutes: number;
+  scheduled_minutes: number;
+  worked_minutes: number;
+  overtime_minutes: number;
+}
+
+export interface EmployeeTimesheet {
+  user_id: number;
+  user_name: string;
+  section_id: number | null;
+  section_name: string | null;
+  days: AttendanceDaySummary[];
+  totals: TimesheetTotals;
+}
+
+export interface SectionTimesheet {
+  section_id: number | null;
+  section_name: string | null;
+  employee_count: number;
+  totals: TimesheetTotals;
+}
+
+export interface MonthlyTimesheet {
+  month: string; // YYYY-MM
+  from: string;
+  to: string;
+  employees: EmployeeTimesheet[];
+  sections: SectionTimesheet[];
+  totals: TimesheetTotals;
+}
+
+const emptyTotals = (): TimesheetTotals => ({
+  scheduled_days: 0,
+  present_days: 0,
+  absent_days: 0,
+  leave_days: 0,
+  incomplete_days: 0,
+  late_days: 0,
+  late_minutes: 0,
+  early_leave_days: 0,
+  early_leave_minutes: 0,
+  scheduled_minutes: 0,
+  worked_minutes: 0,
+  overtime_minutes: 0,
+});
+
+function addToTotals(totals: TimesheetTotals, other: TimesheetTotals) {
+  for (const key of Object.keys(totals) as (keyof TimesheetTotals)[]) {
+    totals[key] += other[key];
+  }
+}
+
+function dayTotals(days: AttendanceDaySummary[]): TimesheetTotals {
+  const totals = emptyTotals();
+  for (const day of days) {
+    if (day.shift_template_id && day.status !== "rest_day_work") {
+      totals.scheduled_days++;
+    }
+    if (day.status === "present" || day.status === "rest_day_work") {
+      totals.present_days++;
+    }
+    if (day.status === "absent") totals.absent_days++;
+    if (day.status === "on_leave") totals.leave_days++;
+    if (day.status === "incomplete") totals.incomplete_days++;
+    if (day.late_minutes > 0) totals.late_days++;
+    if (day.early_leave_minutes > 0) totals.early_leave_days++;
+    totals.late_minutes += day.late_minutes;
+    totals.early_leave_minutes += day.early_leave_minutes;
+    totals.scheduled_minutes += day.scheduled_minutes;
+    totals.worked_minutes += day.worked_minutes;
+    totals.overtime_minutes += day.overtime_minutes;
+  }
+  return totals;
+}
+
+/**
+ * سجلات الحضور مخزنة كسجل لكل إجراء (حضور / بداية استراحة / نهايتها / انصراف)
+ * - تُجمع هنا حسب يوم الحضور
+ */
+function collectPunches(records: Attendance[]) {
+  const earliest = (values: (Date | null)[]) =>
+    values
+      .filter((value): value is Date => !!value)
+      .map((value) => new Date(value))
+      .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+  const latest = (values: (Date | null)[]) =>
+    values
+      .filter((value): value is Date => !!value)
+      .map((value) => new Date(value))
+      .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+  const lunchStart = earliest(records.map((r) => r.lunch_start_time));
+  const lunchEnd = latest(records.map((r) => r.lunch_end_time));
+
+  return {
+    checkIn: earliest(records.map((r) => r.check_in_time)),
+    checkOut: latest(records.map((r) => r.check_out_time)),
+    lunchMinutes:
+      lunchStart && lunchEnd && lunchEnd > lunchStart
+        ? minutesBetween(lunchStart, lunchEnd)
+        : 0,
+  };
+}
+
+/**
+ * احتساب التأخير والخروج المبكر والعمل الإضافي ليوم حضور واحد
+ * - الوردية null تعني يوم راحة لموظف مجدول، undefined تعني موظفاً بدون جدولة
+ *   (يُحتسب بساعات العمل اليومية في بيانات المصنع)
+ */
+export function computeAttendanceDay(
+  date: string,
+  records: Attendance[],
+  shift: ShiftTemplate | null | undefined,
+  options: { workingHoursPerDay: number; onLeave?: boolean; now?: Date },
+): AttendanceDaySummary {
+  const { checkIn, checkOut, lunchMinutes } = collectPunches(records);
+  const now = options.now ?? new Date();
+
+  const summary: AttendanceDaySummary = {
+    date,
+    status: "off",
+    shift_template_id: shift?.id ?? null,
+    shift_name: shift ? shift.name_ar || shift.name : null,
+    check_in: checkIn,
+    check_out: checkOut,
+    scheduled_minutes: 0,
+    worked_minutes: 0,
+    break_minutes: lunchMinutes,
+    late_minutes: 0,
+    early_leave_minutes: 0,
+    overtime_minutes: 0,
+  };
+
+  const window = shift ? shiftWindow(date, shift) : null;
+  if (shift && window) {
+    summary.scheduled_minutes = Math.max(
+      0,
+      minutesBetween(window.start, window.end) - shift.break_minutes,
+    );
+  } else if (shift === undefined && checkIn) {
+    summary.scheduled_minutes = options.workingHoursPerDay * 60;
+  }
+
+  if (!checkIn) {
+    if (options.onLeave && shift !== null) {
+      summary.status = "on_leave";
+      summary.scheduled_minutes = 0;
+    } else if (shift && window && window.start < now) {
+      summary.status = "absent";
+    } else if (shift) {
+      // وردية لم تبدأ بعد
+      summary.scheduled_minutes = 0;
+    }
+    return summary;
+  }
+
+  if (shift && window) {
+    const late = minutesBetween(window.start, checkIn);
+    if (late > shift.late_grace_minutes) summary.late_minutes = late;
+  }
+
+  if (!checkOut || checkOut < checkIn) {
+    summary.status = "incomplete";
+    return summary;
+  }
+
+  const breakMinutes = shift ? Math.max(lunchMinutes, shift.break_minutes) : lunchMinutes;
+  summary.break_minutes = breakMinutes;
+  summary.worked_minutes = Math.max(
+    0,
+    minutesBetween(checkIn, checkOut) - breakMinutes,
+  );
+
+  if (shift === null) {
+    summary.status = "rest_day_work";
+    summary.overtime_minutes = summary.worked_minutes;
+    return summary;
+  }
+
+  summary.status = "present";
+  if (shift && window) {
+    const early = minutesBetween(checkOut, window.end);
+    if (early > shift.early_leave_grace_minutes) {
+      summary.early_leave_minutes = early;
+    }
+  }
+
+  const overtime = summary.worked_minutes - summary.scheduled_minutes;
+  const overtimeMin = shift
+    ? shift.overtime_min_minutes
+    : DEFAULT_OVERTIME_MIN_MINUTES;
+  if (overtime >= overtimeMin && overtime > 0) {
+    summary.overtime_minutes = overtime;
+  }
+
+  return summary;
+}
+
+/**
+ * الوردية المجدولة لموظف في يوم محدد - عند التداخل تُعتمد الجدولة الأحدث
+ */
+export function findRosterEntry(
+  entries: UserShiftListItem[],
+  userId: number,
+  date: string,
+): UserShiftListItem | undefined {
+  const weekday = dayOfWeek(date);
+  return entries
+    .filter(
+      (entry) =>
+        entry.user_id === userId &&
+        entry.effective_from <= date &&
+        (!entry.effective_to || entry.effective_to >= date) &&
+        entry.days_of_week.includes(weekday),
+    )
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+}
+
+const isOnLeave = (leaves: LeaveRequest[], userId: number, date: string) =>
+  leaves.some(
+    (leave) =>
+      leave.employee_id === String(userId) &&
+      leave.start_date <= date &&
+      leave.end_date >= date,
+  );
+
+/**
+ * قواعد الورديات: تحديد يوم الحضور للورديات الليلية، واحتساب التأخير
+ * والخروج المبكر والعمل الإضافي، وكشف الدوام الشهري لكل موظف وقسم
+ */
+export class ShiftRulesService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  private async getWorkingHoursPerDay(): Promise<number> {
+    const profile = await this.storage.getCompanyProfile();
+    return profile?.working_hours_per_day || DEFAULT_WORKING_HOURS_PER_DAY;
+  }
+
+  async getShiftForDate(
+    userId: number,
+    date: string,
+  ): Promise<ShiftTemplate | undefined> {
+    const entries = await this.storage.getUserShifts({
+      userId,
+      from: date,
+      to: date,
+    });
+    const entry = findRosterEntry(entries, userId, date);
+    if (!entry) return undefined;
+    const templates = await this.storage.getShiftTemplates();
+    return templates.find((t) => t.id === entry.shift_template_id);
+  }
+
+  /**
+   * يوم الحضور الذي يُسجل عليه الإجراء: الانصراف بعد منتصف الليل لوردية ليلية
+   * مفتوحة يُسجل على يوم بداية الوردية
+   */
+  async resolveAttendanceDate(
+    userId: number,
+    date: string,
+    now: Date = new Date(),
+  ): Promise<string> {
+    const current = await this.storage.getDailyAttendanceStatus(userId, date);
+    if (current.hasCheckedIn) return date;
+
+    const previousDate = addDays(date, -1);
+    const previous = await this.storage.getDailyAttendanceStatus(
+      userId,
+      previousDate,
+    );
+    if (!previous.hasCheckedIn || previous.hasCheckedOut) return date;
+
+    const shift = await this.getShiftForDate(userId, previousDate);
+    if (!shift || !crossesMidnight(shift)) return date;
+
+    const { end } = shiftWindow(previousDate, shift);
+    const closesAt =
+      end.getTime() + NIGHT_SHIFT_CHECKOUT_WINDOW_MINUTES * 60 * 1000;
+    return now.getTime() <= closesAt ? previousDate : date;
+  }
+
+  /**
+   * كشف الدوام الشهري - الأيام المستقبلية لا تُحتسب
+   */
+  async getMonthlyTimesheet(
+    month: string,
+    filters: { userId?: number; sectionId?: number; scope?: DataScope } = {},
+  ): Promise<MonthlyTimesheet> {
+    const from = `${month}-01`;
+    const { year, month: monthNumber } = parseDate(from);
+    const to = new Date(Date.UTC(year, monthNumber, 0))
+      .toISOString()
+      .split("T")[0];
+    const today = localDate();
+    const lastDay = to < today ? to : today;
+
+    const [
+      users,
+      sections,
+      templates,
+      roster,
+      records,
+      leaves,
+      workingHoursPerDay,
+    ] = await Promise.all([
+      this.storage.getSafeUsers(),
+      this.storage.getSections(),
+      this.storage.getShiftTemplates(),
+      this.storage.getUserShifts({ from, to, scope: filters.scope }),
+      this.storage.getAttendanceBetween(from, to, {
+        userId: filters.userId,
+        scope: filters.scope,
+      }),
+      this.storage.getLeaveRequests(undefined, filters.scope),
+      this.getWorkingHoursPerDay(),
+    ]);
+
+    const templatesById = new Map(templates.map((t) => [t.id, t]));
+    // معرف القسم بصيغة SEC02 يقابله section_id = 2 في جدول المستخدمين
+    const sectionNames = new Map(
+      sections.map((s) => [
+        Number(s.id.match(/^SEC(\d+)$/)?.[1] ?? NaN),
+        s.name_ar || s.name,
+      ]),
+    );
+    const approvedLeaves = leaves.filter(
+      (leave) => leave.final_status === "approved",
+    );
+    const rosteredUsers = new Set(roster.map((entry) => entry.user_id));
+    const activeUserIds = new Set(records.map((record) => record.user_id));
+
+    const employees = users.filter(
+      (user) =>
+        (!filters.userId || user.id === filters.userId) &&
+        (!filters.sectionId || user.section_id === filters.sectionId) &&
+        (rosteredUsers.has(user.id) || activeUserIds.has(user.id)),
+    );
+
+    const recordsByDay = new Map<string, Attendance[]>();
+    for (const record of records) {
+      const key = `${record.user_id}:${record.date}`;
+      const list = recordsByDay.get(key) ?? [];
+      list.push(record);
+      recordsByDay.set(key, list);
+    }
+
+    const now = new Date();
+    const timesheets: EmployeeTimesheet[] = employees.map((user) => {
+      const days: AttendanceDaySummary[] = [];
+      for (let date = from; date <= lastDay; date = addDays(date, 1)) {
+        const entry = findRosterEntry(roster, user.id, date);
+        const shift = entry
+          ? (templatesById.get(entry.shift_template_id) ?? null)
+          : rosteredUsers.has(user.id)
+            ? null
+            : undefined;
+        days.push(
+          computeAttendanceDay(
+            date,
+            recordsByDay.get(`${user.id}:${date}`) ?? [],
+            shift,
+            {
+              workingHoursPerDay,
+              onLeave: isOnLeave(approvedLeaves, user.id, date),
+              now,
+            },
+          ),
+        );
+      }
+
+      const sectionId = user.section_id ?? null;
+      return {
+        user_id: user.id,
+        user_name: user.display_name_ar || user.display_name || user.username,
+        section_id: sectionId,
+        section_name:
+          sectionId !== null ? (sectionNames.get(sectionId) ?? null) : null,
+        days,
+        totals: dayTotals(days),
+      };
+    });
+
+    const sectionTotals = new Map<string, SectionTimesheet>();
+    const totals = emptyTotals();
+    for (const timesheet of timesheets) {
+      const key = String(timesheet.section_id);
+      const section = sectionTotals.get(key) ?? {
+        section_id: timesheet.section_id,
+        section_name: timesheet.section_name,
+        employee_count: 0,
+        totals: emptyTotals(),
+      };
+      section.employee_count++;
+      addToTotals(section.totals, timesheet.totals);
+      sectionTotals.set(key, section);
+      addToTotals(totals, timesheet.totals);
+    }
+
+    return {
+      month,
+      from,
+      to,
+      employees: timesheets,
+      sections: Array.from(sectionTotals.values()),
+      totals,
+    };
+  }
+}
+
+const DAY_STATUS_LABELS: Record<AttendanceDayStatus, string> = {
+  present: "حاضر",
+  incomplete: "بدون انصراف",
+  absent: "غائب",
+  on_leave: "إجازة",
+  rest_day_work: "عمل في يوم راحة",
+  off: "راحة",
+};
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+const formatTime = (value: Date | null) =>
+  value
+    ? value.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })
+    : "";
+
+/**
+ * كشف الدوام الشهري كملف Excel: ورقة إجمالي الموظفين وورقة الأقسام وورقة التفاصيل اليومية
+ */
+export function timesheetToXLSX(timesheet: MonthlyTimesheet): Buffer {
+  const totalsRow = (totals: TimesheetTotals) => ({
+    "أيام العمل المجدولة": totals.scheduled_days,
+    "أيام الحضور": totals.present_days,
+    "أيام الغياب": totals.absent_days,
+    "أيام الإجازة": totals.leave_days,
+    "أيام بدون انصراف": totals.incomplete_days,
+    "مرات التأخير": totals.late_days,
+    "دقائق التأخير": totals.late_minutes,
+    "مرات الخروج المبكر": totals.early_leave_days,
+    "دقائق الخروج المبكر": totals.early_leave_minutes,
+    "ساعات العمل المجدولة": toHours(totals.scheduled_minutes),
+    "ساعات العمل الفعلية": toHours(totals.worked_minutes),
+    "ساعات العمل الإضافي": toHours(totals.overtime_minutes),
+  });
+
+  const employees = timesheet.employees.map((employee) => ({
+    "رقم الموظف": employee.user_id,
+    الموظف: employee.user_name,
+    القسم: employee.section_name ?? "",
+    ...totalsRow(employee.totals),
+  }));
+  const sections = timesheet.sections.map((section) => ({
+    القسم: section.section_name ?? "بدون قسم",
+    "عدد الموظفين": section.employee_count,
+    ...totalsRow(section.totals),
+  }));
+  const days = timesheet.employees.flatMap((employee) =>
+    employee.days
+      .filter((day) => day.status !== "off")
+      .map((day) => ({
+        التاريخ: day.date,
+        الموظف: employee.user_name,
+        القسم: employee.section_name ?? "",
+        الوردية: day.shift_name ?? "",
+        الحالة: DAY_STATUS_LABELS[day.status],
+        الحضور: formatTime(day.check_in),
+        الانصراف: formatTime(day.check_out),
+        "دقائق التأخير": day.late_minutes,
+        "دقائق الخروج المبكر": day.early_leave_minutes,
+        "ساعات العمل": toHours(day.worked_minutes),
+        "ساعات العمل الإضافي": toHours(day.overtime_minutes),
+      })),
+  );
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(employees),
+    "الموظفون",
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(sections),
+    "الأقسام",
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(days),
+    "التفاصيل اليومية",
+  );
+  return Buffer.from(XLSX.write(workbook, { bookType: "xlsx", type: "buffer" }));
+}
+
+let shiftRulesService: ShiftRulesService | null = null;
+
+export function getShiftRules(storage: IStorage): ShiftRulesService {
+  if (!shiftRulesService) shiftRulesService = new ShiftRulesService(storage);
+  return shiftRulesService;
+}
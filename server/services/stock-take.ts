@@ -0,0 +1,90 @@
+// أخطاء قواعد عمل الجرد (حالة الجرد، بنود غير معدودة، أرصدة سالبة...) - تُعرض للمستخدم كما هي
+export class StockTakeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StockTakeError";
+  }
+}
+
+export const STOCK_TAKE_STATUS_LABELS: Record<string, string> = {
+  counting: "قيد العد",
+  posted: "مرحّل",
+  cancelled: "ملغي",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function assertStockTakeCounting(status: string, action: string): void {
+  if (status !== "counting") {
+    throw new StockTakeError(
+      `لا يمكن ${action} جرد حالته "${STOCK_TAKE_STATUS_LABELS[status] || status}"`,
+    );
+  }
+}
+
+export interface CountResolution {
+  counted_quantity: number | null; // null: لم يُعد أو اختلف العدّادون
+  counters: number;
+  has_conflict: boolean;
+}
+
+// الكمية المعدودة تُقبل تلقائياً فقط عند اتفاق جميع العدّادين
+export function resolveCountedQuantity(quantities: number[]): CountResolution {
+  if (quantities.length === 0) {
+    return { counted_quantity: null, counters: 0, has_conflict: false };
+  }
+  const distinct = new Set(quantities.map(round2));
+  return {
+    counted_quantity: distinct.size === 1 ? round2(quantities[0]) : null,
+    counters: quantities.length,
+    has_conflict: distinct.size > 1,
+  };
+}
+
+/**
+ * الفرق وأثره المالي: الكمية الفعلية - رصيد النظام لحظة التجميد، مقيماً بتكلفة الوحدة وقتها
+ * البند بدون تكلفة مسجلة يظهر فرقه الكمي بدون قيمة
+ */
+export function stockTakeVariance(
+  snapshotQuantity: number,
+  countedQuantity: number | null,
+  unitCost: number | null,
+): { variance: number | null; value_impact: number | null } {
+  if (countedQuantity === null) {
+    return { variance: null, value_impact: null };
+  }
+  const variance = round2(countedQuantity - snapshotQuantity);
+  return {
+    variance,
+    value_impact: unitCost === null ? null : round2(variance * unitCost),
+  };
+}
+
+// الأثر المالي الإجمالي للجرد - البنود غير المعدودة أو بدون تكلفة لا تدخل فيه
+export function stockTakeValueImpact(
+  lines: { value_impact: number | null }[],
+): number {
+  return round2(
+    lines.reduce((total, line) => total + (line.value_impact || 0), 0),
+  );
+}
+
+/**
+ * تسوية رصيد الصنف بفرق الجرد - الفرق يُطبق على الرصيد الحالي حتى لا تضيع الحركات المسجلة أثناء العد
+ * حركة التسوية تحمل الرصيد النهائي والكمية يجب أن تكون موجبة، لذلك يُسجل نفاد الصنف كصرف لكامل رصيده
+ */
+export function stockTakeAdjustment(
+  currentStock: number,
+  variance: number,
+  itemName: string,
+): { new_stock: number; movement_type: "adjustment" | "out"; quantity: number } {
+  const newStock = round2(currentStock + variance);
+  if (newStock < 0) {
+    throw new StockTakeError(
+      `الرصيد الحالي للصنف ${itemName} (${currentStock.toFixed(2)}) لا يسمح بتسوية عجز قدره ${Math.abs(variance).toFixed(2)}`,
+    );
+  }
+  return newStock > 0
+    ? { new_stock: newStock, movement_type: "adjustment", quantity: newStock }
+    : { new_stock: 0, movement_type: "out", quantity: currentStock };
+}
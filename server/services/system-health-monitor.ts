@@ -952,12 +952,13 @@ export class SystemHealthMonitor extends EventEmitter {
 
   /**
    * فحص المواد قليلة المخزون
+   * الأصناف التي نزل رصيدها عن الحد الأدنى (أو الحرجة) من اقتراحات إعادة الطلب
    */
   private async checkLowStockItems(): Promise<number> {
     try {
-      // سنحتاج لإضافة هذا الاستعلام في storage.ts
-      console.log("[SystemHealthMonitor] فحص المواد قليلة المخزون");
-      return 0; // مؤقت
+      const { suggestions } = await this.storage.getReorderSuggestions();
+      return suggestions.filter((suggestion) => suggestion.urgency !== "normal")
+        .length;
     } catch (error) {
       console.error(
         "[SystemHealthMonitor] خطأ في فحص المواد قليلة المخزون:",
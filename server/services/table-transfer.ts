@@ -0,0 +1,667 @@
+import * as XLSX from "xlsx";
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import {
+  getTableConfig,
+  type PgColumn,
+  type PgTable,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import * as schema from "@shared/schema";
+import { db } from "../db";
+import { auditInsertedRecords } from "./audit-log";
+import {
+  getSchemaTable,
+  getSchemaTables,
+  type SchemaTableInfo,
+} from "./schema-tables";
+
+export type TransferFormat = "csv" | "json" | "xlsx";
+export type ImportMode = "all_or_nothing" | "skip_invalid";
+
+export interface ImportRowError {
+  // رقم السطر كما يظهر في الملف: سطر العناوين هو 1 في CSV/Excel، وترتيب السجل في JSON
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportOptions {
+  mapping?: Record<string, string>;
+  mode?: ImportMode;
+  format?: string;
+  // الإبقاء على المعرفات الرقمية الواردة في الملف (نقل البيانات بين الأنظمة)
+  preserveIds?: boolean;
+}
+
+export interface ImportReport {
+  table: string;
+  mode: ImportMode;
+  totalRows: number;
+  inserted: number;
+  failed: number;
+  committed: boolean;
+  errors: ImportRowError[];
+}
+
+export interface ImportPreview {
+  table: string;
+  headers: string[];
+  totalRows: number;
+  sample: Record<string, any>[];
+  suggestedMapping: Record<string, string>;
+}
+
+export interface ExportFile {
+  content: Buffer | string;
+  contentType: string;
+  extension: string;
+}
+
+export class TableTransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TableTransferError";
+  }
+}
+
+// جداول لا تُصدّر ولا تُستورد عبر النقل العام، مع سبب المنع
+const RESTRICTED_TABLES = new Map([
+  // كلمات المرور والمفاتيح تُنشأ عبر دوال التخزين التي تتولى التشفير
+  ["users", "يحتوي على بيانات الدخول"],
+  ["api_tokens", "يحتوي على مفاتيح الوصول"],
+  ["login_attempts", "يحتوي على سجل محاولات الدخول"],
+  ["audit_logs", "سجل التدقيق لا يُعدّل إلا من النظام"],
+  // مستندات تُنشأ مع بنودها (أصناف، سطور، طبقات، إصدارات) عبر خدماتها فقط
+  ["shipments", "الشحنات تُنشأ مع أصنافها من شاشة الشحن"],
+  ["quality_inspection_plans", "خطط الفحص تُنشأ مع بنودها من شاشة الجودة"],
+  ["purchase_orders", "أوامر الشراء تُنشأ مع سطورها من شاشة المشتريات"],
+  ["mixing_recipes", "وصفات الخلط تُنشأ مع طبقاتها وإصداراتها من شاشة الخلط"],
+]);
+
+// مخططات الإدراج المعتمدة في shared/schema.ts لكل جدول - لا يُحفظ إلا ما تسمح به من أعمدة
+// الجداول غير المذكورة تُتحقق عبر createInsertSchema المولد من تعريف الجدول
+const EXPORTED_INSERT_SCHEMAS = new Map<PgTable, z.ZodTypeAny>([
+  [schema.waste_reasons, schema.insertWasteReasonSchema],
+  [schema.notifications, schema.insertNotificationSchema],
+  [schema.notification_templates, schema.insertNotificationTemplateSchema],
+  [schema.rolls, schema.insertRollSchema],
+  [schema.cuts, schema.insertCutSchema],
+  [schema.warehouse_receipts, schema.insertWarehouseReceiptSchema],
+  [schema.production_settings, schema.insertProductionSettingsSchema],
+  [schema.maintenance_requests, schema.insertMaintenanceRequestSchema],
+  [schema.quality_plan_items, schema.insertQualityPlanItemSchema],
+  [schema.quality_defect_types, schema.insertQualityDefectTypeSchema],
+  [schema.items, schema.insertItemSchema],
+  [schema.suppliers, schema.insertSupplierSchema],
+  [schema.warehouse_transactions, schema.insertWarehouseTransactionSchema],
+  [schema.inventory, schema.insertInventorySchema],
+  [schema.inventory_movements, schema.insertInventoryMovementSchema],
+  [schema.training_records, schema.insertTrainingRecordSchema],
+  [schema.admin_decisions, schema.insertAdminDecisionSchema],
+  [schema.locations, schema.insertLocationSchema],
+  [schema.orders, schema.insertNewOrderSchema],
+  [schema.production_orders, schema.insertProductionOrderSchema],
+  [schema.system_settings, schema.insertSystemSettingSchema],
+  [schema.user_settings, schema.insertUserSettingSchema],
+  [schema.customer_products, schema.insertCustomerProductSchema],
+  [schema.categories, schema.insertCategorySchema],
+  [schema.customers, schema.insertCustomerSchema],
+  [schema.training_programs, schema.insertTrainingProgramSchema],
+  [schema.training_materials, schema.insertTrainingMaterialSchema],
+  [schema.training_enrollments, schema.insertTrainingEnrollmentSchema],
+  [schema.training_evaluations, schema.insertTrainingEvaluationSchema],
+  [schema.training_certificates, schema.insertTrainingCertificateSchema],
+  [schema.performance_reviews, schema.insertPerformanceReviewSchema],
+  [schema.performance_criteria, schema.insertPerformanceCriteriaSchema],
+  [schema.performance_ratings, schema.insertPerformanceRatingSchema],
+  [schema.leave_types, schema.insertLeaveTypeSchema],
+  [schema.leave_requests, schema.insertLeaveRequestSchema],
+  [schema.leave_balances, schema.insertLeaveBalanceSchema],
+  [schema.attendance, schema.insertAttendanceSchema],
+  [schema.shift_templates, schema.insertShiftTemplateSchema],
+  [schema.user_shifts, schema.insertUserShiftSchema],
+  [schema.maintenance_actions, schema.insertMaintenanceActionSchema],
+  [schema.maintenance_reports, schema.insertMaintenanceReportSchema],
+  [schema.operator_negligence_reports, schema.insertOperatorNegligenceReportSchema],
+  [schema.consumable_parts, schema.insertConsumablePartSchema],
+  [schema.consumable_parts_transactions, schema.insertConsumablePartTransactionSchema],
+  [schema.system_alerts, schema.insertSystemAlertSchema],
+  [schema.alert_rules, schema.insertAlertRuleSchema],
+  [schema.system_health_checks, schema.insertSystemHealthCheckSchema],
+  [schema.system_performance_metrics, schema.insertSystemPerformanceMetricSchema],
+  [schema.corrective_actions, schema.insertCorrectiveActionSchema],
+  [schema.system_analytics, schema.insertSystemAnalyticsSchema],
+  [schema.backup_history, schema.insertBackupHistorySchema],
+  [schema.quick_notes, schema.insertQuickNoteSchema],
+  [schema.note_attachments, schema.insertNoteAttachmentSchema],
+]);
+
+function getInsertSchema(table: PgTable): z.ZodTypeAny {
+  return EXPORTED_INSERT_SCHEMAS.get(table) ?? createInsertSchema(table);
+}
+
+function schemaColumns(insertSchema: z.ZodTypeAny): Set<string> {
+  let inner = insertSchema;
+  while (inner instanceof z.ZodEffects) inner = inner.innerType();
+  return new Set(inner instanceof z.ZodObject ? Object.keys(inner.shape) : []);
+}
+
+/**
+ * الأعمدة التي تُقبل من الملف رغم أن مخطط الإدراج لا يتضمنها:
+ * المفاتيح الرقمية المولدة في وضع الإبقاء على المعرفات فقط، والأعمدة الإلزامية
+ * بدون قيمة افتراضية (المفاتيح النصية وأرقام المستندات) التي لا يُنشأ السجل بدونها.
+ * تُتحقق هذه الأعمدة بمخطط createInsertSchema الخاص بها
+ */
+function fileOnlyColumns(
+  info: SchemaTableInfo,
+  insertSchema: z.ZodTypeAny,
+  preserveIds: boolean,
+): string[] {
+  const allowed = schemaColumns(insertSchema);
+  return getTableConfig(info.table)
+    .columns.filter(
+      (column) =>
+        !allowed.has(column.name) &&
+        ((preserveIds && info.primaryKey.includes(column.name)) ||
+          (column.notNull && !column.hasDefault)),
+    )
+    .map((column) => column.name);
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  string: "نص",
+  number: "رقم",
+  boolean: "قيمة منطقية",
+  date: "تاريخ",
+  object: "كائن JSON",
+  array: "قائمة",
+};
+
+const TRUE_VALUES = new Set(["true", "1", "yes", "y", "نعم"]);
+const FALSE_VALUES = new Set(["false", "0", "no", "n", "لا"]);
+
+/**
+ * ترجمة أخطاء zod إلى رسائل عربية مفهومة للمستخدم
+ */
+function translateIssue(issue: z.ZodIssue): string {
+  switch (issue.code) {
+    case "invalid_type":
+      if (issue.received === "undefined" || issue.received === "null") {
+        return "الحقل مطلوب";
+      }
+      return `نوع القيمة غير صحيح، المتوقع ${TYPE_NAMES[issue.expected] || issue.expected}`;
+    case "too_big":
+      return issue.type === "string"
+        ? `النص أطول من الحد المسموح (${issue.maximum} حرف)`
+        : `القيمة أكبر من الحد المسموح (${issue.maximum})`;
+    case "too_small":
+      return issue.type === "string"
+        ? `النص أقصر من الحد المطلوب (${issue.minimum} حرف)`
+        : `القيمة أصغر من الحد المسموح (${issue.minimum})`;
+    case "invalid_enum_value":
+      return `القيمة غير مسموحة، القيم المتاحة: ${issue.options.join("، ")}`;
+    case "invalid_date":
+      return "تاريخ غير صالح";
+    case "invalid_string":
+      return "صيغة النص غير صحيحة";
+    case "not_finite":
+      return "يجب أن تكون القيمة رقماً صحيحاً";
+    default:
+      return issue.message;
+  }
+}
+
+function translateDatabaseError(error: any): string {
+  switch (error?.code) {
+    case "23505":
+      return "البيانات مكررة - السجل موجود مسبقاً";
+    case "23503":
+      return "خطأ في الربط - البيانات المرجعية غير موجودة";
+    case "23502":
+      return `بيانات مطلوبة مفقودة${error.column ? ` (${error.column})` : ""}`;
+    case "23514":
+      return "القيمة تخالف قيود التحقق في الجدول";
+    case "22P02":
+    case "22007":
+    case "22008":
+      return "صيغة القيمة غير صحيحة";
+    default:
+      return error?.message || "خطأ غير معروف";
+  }
+}
+
+/**
+ * تحويل القيم النصية القادمة من CSV/Excel إلى نوع العمود المتوقع قبل التحقق
+ */
+function coerceValue(column: PgColumn, value: any): any {
+  if (value === undefined) return undefined;
+  if (value === null || (typeof value === "string" && value.trim() === "")) {
+    return column.hasDefault ? undefined : null;
+  }
+
+  switch (column.dataType) {
+    case "number": {
+      if (typeof value === "number") return value;
+      const parsed = Number(String(value).replace(/,/g, "").trim());
+      return Number.isNaN(parsed) ? value : parsed;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return value;
+    }
+    case "date": {
+      if (value instanceof Date) return value;
+      const parsed = new Date(value);
+      return Number.isNaN(parsed.getTime()) ? value : parsed;
+    }
+    case "json":
+    case "array": {
+      if (typeof value !== "string") return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return column.dataType === "array"
+          ? value.split(",").map((part) => part.trim())
+          : value;
+      }
+    }
+    default:
+      // أعمدة date بصيغة نصية و decimal تُخزن كنص
+      if (value instanceof Date) {
+        return column.columnType === "PgDateString"
+          ? value.toISOString().slice(0, 10)
+          : value.toISOString();
+      }
+      return typeof value === "string" ? value.trim() : String(value);
+  }
+}
+
+function serializeCell(value: any): any {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return value;
+}
+
+function toCSV(columns: string[], rows: Record<string, any>[]): Buffer {
+  const escape = (value: any) => {
+    const text = String(serializeCell(value));
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escape(row[column])).join(","));
+  }
+
+  // BOM لضمان ظهور النص العربي بشكل صحيح في Excel
+  return Buffer.from("\uFEFF" + lines.join("\n"), "utf8");
+}
+
+function toXLSX(
+  tableName: string,
+  columns: string[],
+  rows: Record<string, any>[],
+): Buffer {
+  const sheetRows = rows.map((row) =>
+    Object.fromEntries(
+      columns.map((column) => [column, serializeCell(row[column])]),
+    ),
+  );
+  const worksheet = XLSX.utils.json_to_sheet(sheetRows, { header: columns });
+  const workbook = XLSX.utils.book_new();
+  // أسماء أوراق Excel محدودة بـ 31 حرفاً
+  XLSX.utils.book_append_sheet(workbook, worksheet, tableName.slice(0, 31));
+  return Buffer.from(XLSX.write(workbook, { bookType: "xlsx", type: "buffer" }));
+}
+
+/**
+ * تصدير واستيراد عام لجداول shared/schema.ts (عدا الجداول المحمية)
+ * التحقق من السجلات يتم عبر مخطط الإدراج المعتمد للجدول، والسجلات المستوردة تُسجل في سجل التدقيق
+ */
+export class TableTransferService {
+  private requireTable(tableName: string): SchemaTableInfo {
+    const info = getSchemaTable(tableName);
+    if (!info) {
+      throw new TableTransferError(`الجدول "${tableName}" غير موجود`);
+    }
+    const restriction = RESTRICTED_TABLES.get(info.name);
+    if (restriction) {
+      throw new TableTransferError(
+        `الجدول "${tableName}" محمي ولا يمكن تصديره أو استيراده - ${restriction}`,
+      );
+    }
+    return info;
+  }
+
+  listTables(): { name: string; columns: string[]; required: string[] }[] {
+    const tables = getSchemaTables()
+      .filter((info) => !RESTRICTED_TABLES.has(info.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return tables.map((info) => {
+      const columns = getTableConfig(info.table).columns;
+      return {
+        name: info.name,
+        columns: info.columns,
+        required: columns
+          .filter((column) => column.notNull && !column.hasDefault)
+          .map((column) => column.name),
+      };
+    });
+  }
+
+  normalizeFormat(format?: string): TransferFormat {
+    if (format === "excel" || format === "xlsx") return "xlsx";
+    if (format === "json") return "json";
+    if (!format || format === "csv") return "csv";
+    throw new TableTransferError(`صيغة الملف "${format}" غير مدعومة`);
+  }
+
+  async exportTable(tableName: string, format?: string): Promise<ExportFile> {
+    const info = this.requireTable(tableName);
+    const orderBy = info.primaryKey.map((column) => sql.identifier(column));
+    const result = await db.execute(
+      sql`SELECT row_to_json(t) AS row FROM ${sql.identifier(info.name)} t ORDER BY ${sql.join(orderBy, sql`, `)}`,
+    );
+    const rows = result.rows.map((r: any) => r.row);
+
+    switch (this.normalizeFormat(format)) {
+      case "json":
+        return {
+          content: JSON.stringify(rows, null, 2),
+          contentType: "application/json",
+          extension: "json",
+        };
+      case "xlsx":
+        return {
+          content: toXLSX(info.name, info.columns, rows),
+          contentType:
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          extension: "xlsx",
+        };
+      default:
+        return {
+          content: toCSV(info.columns, rows),
+          contentType: "text/csv; charset=utf-8",
+          extension: "csv",
+        };
+    }
+  }
+
+  /**
+   * قراءة محتوى الملف المرفوع - CSV و JSON كنص و XLSX بترميز base64
+   */
+  parseFile(format: string | undefined, data: any): Record<string, any>[] {
+    const normalized = this.normalizeFormat(format);
+
+    try {
+      if (normalized === "json") {
+        const parsed = typeof data === "string" ? JSON.parse(data) : data;
+        if (!Array.isArray(parsed)) {
+          throw new TableTransferError("ملف JSON يجب أن يحتوي على مصفوفة سجلات");
+        }
+        return parsed;
+      }
+
+      const workbook =
+        normalized === "xlsx"
+          ? XLSX.read(data, { type: "base64", cellDates: true })
+          : XLSX.read(String(data).replace(/^\uFEFF/, ""), {
+              type: "string",
+              raw: true,
+            });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      if (!sheet) return [];
+      // الأسطر الفارغة تُقرأ (وتُتجاهل عند الاستيراد) حتى تطابق أرقام الأسطر في التقرير الملف
+      return XLSX.utils.sheet_to_json<Record<string, any>>(sheet, {
+        defval: null,
+        raw: true,
+        blankrows: true,
+      });
+    } catch (error) {
+      if (error instanceof TableTransferError) throw error;
+      throw new TableTransferError("تعذر قراءة الملف - تأكد من صحة التنسيق");
+    }
+  }
+
+  suggestMapping(tableName: string, headers: string[]): Record<string, string> {
+    const info = this.requireTable(tableName);
+    const normalize = (value: string) =>
+      value.toLowerCase().replace(/[\s_\-]/g, "");
+
+    const mapping: Record<string, string> = {};
+    for (const column of info.columns) {
+      const header =
+        headers.find((h) => h === column) ||
+        headers.find((h) => normalize(h) === normalize(column));
+      if (header) mapping[column] = header;
+    }
+    return mapping;
+  }
+
+  previewImport(tableName: string, format: string, data: any): ImportPreview {
+    this.requireTable(tableName);
+    const rows = this.parseFile(format, data).filter((row) =>
+      Object.values(row).some((value) => value !== null && value !== ""),
+    );
+    const headers = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+    return {
+      table: tableName,
+      headers,
+      totalRows: rows.length,
+      sample: rows.slice(0, 5),
+      suggestedMapping: this.suggestMapping(tableName, headers),
+    };
+  }
+
+  /**
+   * استيراد السجلات بعد ربط الأعمدة والتحقق منها
+   * mapping: { عمود_الجدول: عنوان_العمود_في_الملف }
+   * all_or_nothing: لا يُحفظ أي سجل إذا فشل أحدها
+   * skip_invalid: تُحفظ السجلات الصالحة ويُرفق تقرير بالسجلات المرفوضة
+   * preserveIds: تُحفظ المعرفات الواردة في الملف ويُعاد ضبط التسلسل بعدها
+   */
+  async importRows(
+    tableName: string,
+    rows: Record<string, any>[],
+    options: ImportOptions = {},
+  ): Promise<ImportReport> {
+    const info = this.requireTable(tableName);
+    const mode: ImportMode = options.mode || "all_or_nothing";
+    const columns = new Map(
+      getTableConfig(info.table).columns.map((column) => [column.name, column]),
+    );
+
+    const mapping = this.resolveMapping(info, rows, options.mapping);
+    const insertSchema = getInsertSchema(info.table);
+    const preserveIds = options.preserveIds === true;
+    const extraColumns = fileOnlyColumns(info, insertSchema, preserveIds);
+    // المعرفات المولدة (serial) لا تُقبل من الملف إلا في وضع الإبقاء على المعرفات
+    const generatedKeys = preserveIds
+      ? []
+      : getTableConfig(info.table)
+          .columns.filter(
+            (column) => column.primary && column.hasDefault,
+          )
+          .map((column) => column.name);
+    const extraSchema = (createInsertSchema(info.table) as z.AnyZodObject).pick(
+      Object.fromEntries(extraColumns.map((column) => [column, true])),
+    );
+    // سطر العناوين هو السطر الأول في CSV/Excel
+    const firstRow = this.normalizeFormat(options.format) === "json" ? 1 : 2;
+    const errors: ImportRowError[] = [];
+    const valid: { row: number; values: Record<string, any> }[] = [];
+    let totalRows = 0;
+
+    rows.forEach((sourceRow, index) => {
+      const values: Record<string, any> = {};
+      for (const [columnName, header] of Object.entries(mapping)) {
+        const coerced = coerceValue(columns.get(columnName)!, sourceRow[header]);
+        if (coerced !== undefined) values[columnName] = coerced;
+      }
+
+      // تجاهل الأسطر الفارغة بالكامل
+      if (Object.values(values).every((value) => value === null)) return;
+      totalRows++;
+
+      const row = index + firstRow;
+      const result = insertSchema.safeParse(values);
+      const extra = extraSchema.safeParse(values);
+      if (result.success && extra.success) {
+        // لا يُحفظ إلا ما يسمح به المخطط - المعرف وتاريخ الإنشاء وحقول الاعتماد تُترك للقاعدة
+        const record = { ...extra.data, ...result.data };
+        for (const key of generatedKeys) delete record[key];
+        valid.push({ row, values: record });
+      } else {
+        const issues = [
+          ...(result.success ? [] : result.error.issues),
+          ...(extra.success ? [] : extra.error.issues),
+        ];
+        for (const issue of issues) {
+          errors.push({
+            row,
+            column: issue.path[0] !== undefined ? String(issue.path[0]) : undefined,
+            message: translateIssue(issue),
+          });
+        }
+      }
+    });
+
+    const invalidRows = () => new Set(errors.map((error) => error.row)).size;
+
+    if (mode === "all_or_nothing" && errors.length > 0) {
+      return {
+        table: info.name,
+        mode,
+        totalRows,
+        inserted: 0,
+        failed: invalidRows(),
+        committed: false,
+        errors,
+      };
+    }
+
+    let inserted = 0;
+    const insertedRecords: Record<string, any>[] = [];
+    try {
+      await db.transaction(async (tx) => {
+        for (const { row, values } of valid) {
+          if (mode === "skip_invalid") {
+            // كل سجل داخل savepoint حتى لا يُلغي فشله بقية المعاملة
+            try {
+              const [record] = await tx.transaction(async (savepoint) =>
+                savepoint.insert(info.table).values(values).returning(),
+              );
+              insertedRecords.push(record);
+              inserted++;
+            } catch (error) {
+              errors.push({ row, message: translateDatabaseError(error) });
+            }
+          } else {
+            try {
+              const [record] = await tx
+                .insert(info.table)
+                .values(values)
+                .returning();
+              insertedRecords.push(record);
+              inserted++;
+            } catch (error) {
+              errors.push({ row, message: translateDatabaseError(error) });
+              throw error;
+            }
+          }
+        }
+
+        if (preserveIds) await this.resetSequences(tx, info);
+      });
+    } catch (error) {
+      console.error(`[TableTransfer] تم إلغاء استيراد ${info.name}:`, error);
+      return {
+        table: info.name,
+        mode,
+        totalRows,
+        inserted: 0,
+        failed: invalidRows(),
+        committed: false,
+        errors,
+      };
+    }
+
+    await auditInsertedRecords(
+      info.table,
+      insertedRecords,
+      info.primaryKey[0],
+    );
+
+    console.log(
+      `[TableTransfer] تم استيراد ${inserted} من ${totalRows} سجل إلى ${info.name}`,
+    );
+
+    return {
+      table: info.name,
+      mode,
+      totalRows,
+      inserted,
+      failed: invalidRows(),
+      committed: true,
+      errors: errors.sort((a, b) => a.row - b.row),
+    };
+  }
+
+  private resolveMapping(
+    info: SchemaTableInfo,
+    rows: Record<string, any>[],
+    mapping?: Record<string, string>,
+  ): Record<string, string> {
+    const entries = Object.entries(mapping || {}).filter(
+      ([, header]) => header && header !== "none",
+    );
+
+    if (entries.length === 0) {
+      // بدون ربط صريح: الأعمدة التي تطابق أسماؤها أسماء أعمدة الجدول
+      const headers = Array.from(
+        new Set(rows.flatMap((row) => Object.keys(row))),
+      );
+      return Object.fromEntries(
+        headers
+          .filter((header) => info.columns.includes(header))
+          .map((header) => [header, header]),
+      );
+    }
+
+    for (const [column] of entries) {
+      if (!info.columns.includes(column)) {
+        throw new TableTransferError(
+          `العمود "${column}" غير موجود في الجدول ${info.name}`,
+        );
+      }
+    }
+    return Object.fromEntries(entries);
+  }
+
+  private async resetSequences(tx: any, info: SchemaTableInfo): Promise<void> {
+    // السجلات المستوردة تحمل معرفات صريحة - نضمن ألا يتعارض التسلسل معها
+    for (const column of info.serialColumns) {
+      await tx.execute(sql`
+        SELECT setval(
+          pg_get_serial_sequence(${info.name}, ${column}),
+          COALESCE((SELECT MAX(${sql.identifier(column)}) FROM ${sql.identifier(info.name)}), 0) + 1,
+          false
+        )
+      `);
+    }
+  }
+}
+
+let tableTransferService: TableTransferService | null = null;
+export function getTableTransferService(): TableTransferService {
+  if (!tableTransferService) tableTransferService = new TableTransferService();
+  return tableTransferService;
+}
+
+export default TableTransferService;
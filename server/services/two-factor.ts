@@ -0,0 +1,193 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import type { User } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+// TOTP حسب RFC 6238: HMAC-SHA1، 6 أرقام، فترة 30 ثانية
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_WINDOW = 1; // قبول خطوة واحدة قبل/بعد لتعويض فرق الساعة
+const TOTP_ISSUER = "MPBF";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("مفتاح التحقق غير صالح");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", key).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+function verifyTotp(secret: string, code: string): boolean {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return false;
+  const key = base32Decode(secret);
+  const step = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  const expected = Buffer.from(code);
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    if (timingSafeEqual(Buffer.from(hotp(key, step + offset)), expected)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string; // صورة PNG بصيغة data URL
+}
+
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+/**
+ * التحقق بخطوتين (TOTP) مع رموز استرداد لمرة واحدة
+ * المفتاح لا يُحفظ إلا بعد تأكيد أول رمز صحيح من تطبيق المصادقة
+ */
+export class TwoFactorService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async isRequiredForRole(roleId: number | null | undefined): Promise<boolean> {
+    if (!roleId) return false;
+    const roles = await this.storage.getRoles();
+    return roles.find((role) => role.id === roleId)?.require_two_factor ?? false;
+  }
+
+  async createEnrollment(username: string): Promise<TwoFactorEnrollment> {
+    const secret = base32Encode(randomBytes(20));
+    const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(username)}`;
+    const otpauthUrl =
+      `otpauth://totp/${label}?secret=${secret}` +
+      `&issuer=${encodeURIComponent(TOTP_ISSUER)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+    return {
+      secret,
+      otpauth_url: otpauthUrl,
+      qr_code: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 }),
+    };
+  }
+
+  /**
+   * تفعيل التحقق بعد تأكيد الرمز - يُرجع رموز الاسترداد (تُعرض مرة واحدة فقط)
+   */
+  async enable(
+    userId: number,
+    secret: string,
+    code: string,
+  ): Promise<string[] | null> {
+    if (!verifyTotp(secret, code.trim())) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.storage.updateUser(userId, {
+      two_factor_enabled: true,
+      two_factor_secret: secret,
+      two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+    });
+    return recoveryCodes;
+  }
+
+  async disable(userId: number): Promise<void> {
+    await this.storage.updateUser(userId, {
+      two_factor_enabled: false,
+      two_factor_secret: null,
+      two_factor_recovery_codes: null,
+    });
+  }
+
+  async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await this.storage.updateUser(userId, {
+      two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+    });
+    return recoveryCodes;
+  }
+
+  /**
+   * التحقق من رمز الخطوة الثانية: رمز التطبيق أو رمز استرداد (يُستهلك عند استخدامه)
+   */
+  async verifyLogin(user: User, code: string): Promise<TwoFactorMethod | null> {
+    if (!user.two_factor_enabled || !user.two_factor_secret) return null;
+
+    const trimmed = code.trim();
+    if (verifyTotp(user.two_factor_secret, trimmed)) return "totp";
+
+    const hashed = hashRecoveryCode(trimmed);
+    const remaining = user.two_factor_recovery_codes || [];
+    if (normalizeRecoveryCode(trimmed).length > 0 && remaining.includes(hashed)) {
+      await this.storage.updateUser(user.id, {
+        two_factor_recovery_codes: remaining.filter((item) => item !== hashed),
+      });
+      return "recovery_code";
+    }
+
+    return null;
+  }
+}
+
+let twoFactorService: TwoFactorService | null = null;
+
+export function getTwoFactor(storage: IStorage): TwoFactorService {
+  if (!twoFactorService) twoFactorService = new TwoFactorService(storage);
+  return twoFactorService;
+}
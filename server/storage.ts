@@ -14,6 +14,12 @@ import {
   consumable_parts_transactions,
   quality_checks,
   attendance,
+  shift_templates,
+  user_shifts,
+  payroll_periods,
+  payroll_period_lines,
+  violations,
+  company_profile,
   waste,
   sections,
   cuts,
@@ -30,6 +36,7 @@ import {
   admin_decisions,
   warehouse_transactions,
   mixing_recipes,
+  mixing_recipe_versions,
   training_programs,
   training_materials,
   training_enrollments,
@@ -62,6 +69,63 @@ import {
   type InsertQuickNote,
   type NoteAttachment,
   type InsertNoteAttachment,
+
+  // سجل النسخ الاحتياطية
+  backup_history,
+  type BackupHistory,
+  type InsertBackupHistory,
+  waste_reasons,
+  type WasteReason,
+  type InsertWasteReason,
+  type Waste,
+  quality_inspection_plans,
+  quality_plan_items,
+  quality_defect_types,
+  quality_check_measurements,
+  quality_check_defects,
+  type QualityInspectionPlan,
+  type QualityPlanItem,
+  type QualityDefectType,
+  type InsertQualityDefectType,
+  type QualityCheckMeasurement,
+  type QualityCheckDefect,
+  type InsertQualityInspectionPlan,
+  type InsertQualityCheck,
+  type QualityDisposition,
+  shipments,
+  shipment_items,
+  type Shipment,
+  type ShipmentItem,
+  type InsertShipment,
+  suppliers,
+  purchase_orders,
+  purchase_order_lines,
+  goods_receipts,
+  goods_receipt_lines,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type InsertPurchaseOrder,
+  type GoodsReceipt,
+  type GoodsReceiptLine,
+  type InsertGoodsReceipt,
+  type ReorderConversion,
+  stock_takes,
+  stock_take_lines,
+  stock_take_counts,
+  type StockTake,
+  type StockTakeLine,
+  type InsertStockTake,
+  type StockTakeCountInput,
+  type StockTakePosting,
+  audit_logs,
+  type AuditLog,
+  login_attempts,
+  api_tokens,
+  type ApiToken,
+  type InsertApiToken,
+  type SafeApiToken,
   
   type User,
   type SafeUser,
@@ -80,6 +144,16 @@ import {
   type QualityCheck,
   type Attendance,
   type InsertAttendance,
+  type ShiftTemplate,
+  type InsertShiftTemplate,
+  type UserShift,
+  type InsertUserShift,
+  type PayrollPeriod,
+  type InsertPayrollPeriod,
+  type PayrollPeriodLine,
+  type InsertPayrollPeriodLine,
+  type Violation,
+  type CompanyProfile,
   type Section,
   type Cut,
   type InsertCut,
@@ -98,6 +172,9 @@ import {
   type AdminDecision,
   type WarehouseTransaction,
   type MixingRecipe,
+  type InsertMixingRecipe,
+  type MixingRecipeLayer,
+  type MixingRecipeVersion,
   type TrainingProgram,
   type InsertTrainingProgram,
   type TrainingMaterial,
@@ -157,9 +234,11 @@ import {
 } from "@shared/schema";
 
 import { db, pool } from "./db";
-import { eq, desc, and, sql, sum, count, inArray, or } from "drizzle-orm";
+import { eq, desc, and, sql, sum, count, inArray, or, gt, gte, lte, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { alias } from "drizzle-orm/pg-core";
 import bcrypt from "bcrypt";
+import { createHash } from "crypto";
 import {
   generateRollNumber,
   generateUUID,
@@ -168,6 +247,64 @@ import {
 import { numberToDecimalString, normalizeDecimal } from "@shared/decimal-utils";
 import { calculateProductionQuantities } from "@shared/quantity-utils";
 import { getDataValidator } from "./services/data-validator";
+import { withAuditTrail } from "./services/audit-log";
+import {
+  DATA_SCOPE_LEVELS,
+  type DataScope,
+  type DataScopeLevel,
+} from "@shared/permissions";
+import {
+  getDatabaseBackupService,
+  BackupError,
+  type BackupManifest,
+  type RestoreResult,
+} from "./services/database-backup";
+import {
+  getTableTransferService,
+  TableTransferError,
+  type ExportFile,
+  type ImportOptions,
+  type ImportReport,
+} from "./services/table-transfer";
+import {
+  buildProductionSchedule,
+  buildDeliveryPromise,
+  type DeliveryPromise,
+  type ProductionSchedule,
+  type PromiseLine,
+  type SchedulerOrder,
+} from "./services/production-scheduler";
+import {
+  PurchasingError,
+  OPEN_PURCHASE_ORDER_STATUSES,
+  assertPurchaseOrderStatus,
+  expectedDeliveryDate,
+  receiptStatus,
+  receivableQuantity,
+  weightedAverageCost,
+} from "./services/purchasing";
+import {
+  buildReorderSuggestions,
+  DEFAULT_LOOKBACK_DAYS,
+  type LastPurchase,
+  type ReorderList,
+  type ReplenishmentStockInput,
+} from "./services/replenishment";
+import {
+  StockTakeError,
+  assertStockTakeCounting,
+  resolveCountedQuantity,
+  stockTakeAdjustment,
+  stockTakeValueImpact,
+  stockTakeVariance,
+} from "./services/stock-take";
+import { localDate } from "./services/shift-rules";
+import {
+  buildRecipeCost,
+  flattenRecipeLayers,
+  recipeMaterialRequirements,
+  type MixingRecipeCost,
+} from "./services/mixing-recipes";
 import QRCode from "qrcode";
 
 // Enhanced cache system with memory optimization
@@ -275,6 +412,8 @@ const CACHE_TTL = {
   LONG: 15 * 60 * 1000, // 15 minutes for rarely changing data
 };
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 function getCachedData(key: string): any | null {
   return cache.get(key);
 }
@@ -298,6 +437,7 @@ function invalidateProductionCache(
     "cutting_queue",
     "hierarchical_orders",
     "grouped_cutting_queue",
+    "production_schedule",
   ];
   productionKeys.forEach((key) => cache.delete(key));
 
@@ -375,6 +515,11 @@ function handleDatabaseError(
     );
   }
 
+  if (error.code === "INVARIANT_C_VIOLATION") {
+    // نقص المخزون - الرسالة تحدد المواد والكميات الناقصة
+    throw error;
+  }
+
   // Generic database error
   throw new DatabaseError(
     `خطأ في قاعدة البيانات أثناء ${operation} - ${context || "يرجى المحاولة لاحقاً"}`,
@@ -394,11 +539,494 @@ async function withDatabaseErrorHandling<T>(
   }
 }
 
+// ============ تتبع الرولات ============
+
+export interface RollTraceEvent {
+  at: Date;
+  type:
+    | "roll_created"
+    | "printed"
+    | "cut"
+    | "received"
+    | "waste"
+    | "quality_check"
+    | "cut_completed"
+    | "completed";
+  description: string;
+  machine?: string | null;
+  operator?: string | null;
+  weight_kg?: string | null;
+}
+
+export interface RollTrace {
+  customer: Pick<Customer, "id" | "name" | "name_ar"> | null;
+  order: Pick<
+    NewOrder,
+    "id" | "order_number" | "status" | "delivery_date" | "created_at"
+  > | null;
+  production_order: ProductionOrder;
+  customer_product: Pick<
+    CustomerProduct,
+    "id" | "size_caption" | "raw_material" | "thickness" | "width"
+  > | null;
+  roll: Roll & {
+    film_machine_name: string | null;
+    printing_machine_name: string | null;
+    cutting_machine_name: string | null;
+    created_by_name: string | null;
+    printed_by_name: string | null;
+    cut_by_name: string | null;
+  };
+  cuts: Array<
+    Cut & {
+      cutting_machine_name: string | null;
+      performed_by_name: string | null;
+      receipts: Array<WarehouseReceipt & { received_by_name: string | null }>;
+    }
+  >;
+  waste: Waste[];
+  quality_checks: Array<QualityCheck & { checked_by_name: string | null }>;
+  timeline: RollTraceEvent[];
+}
+
+export interface AffectedRoll {
+  id: number;
+  roll_number: string;
+  stage: string;
+  weight_kg: string;
+  production_order_id: number;
+  production_order_number: string | null;
+  order_number: string | null;
+  customer_name: string | null;
+  matched_stages: Array<"film" | "printing" | "cutting">;
+  stage_at: Date | null;
+}
+
+export interface WasteParetoEntry {
+  key: string;
+  label: string;
+  waste_kg: number;
+  percentage: number;
+  cumulative_percentage: number;
+}
+
+export interface WasteAnalysis {
+  period: { from: string; to: string };
+  total_waste_kg: number;
+  unclassified_waste_kg: number;
+  produced_kg: number;
+  waste_percentage: number;
+  by_stage: WasteParetoEntry[];
+  by_reason: WasteParetoEntry[];
+  by_machine: WasteParetoEntry[];
+  by_operator: WasteParetoEntry[];
+  by_customer_product: WasteParetoEntry[];
+  by_shift: WasteParetoEntry[];
+}
+
+// الورديات حسب ساعة تسجيل الهدر
+const WASTE_SHIFTS = [
+  { key: "morning", label: "الوردية الصباحية (6-14)", from: 6, to: 14 },
+  { key: "evening", label: "الوردية المسائية (14-22)", from: 14, to: 22 },
+  { key: "night", label: "الوردية الليلية (22-6)", from: 22, to: 6 },
+];
+
+const WASTE_STAGE_LABELS: Record<string, string> = {
+  film: "فيلم",
+  printing: "طباعة",
+  cutting: "تقطيع",
+};
+
+/**
+ * تجميع الهدر حسب بُعد معين وترتيبه تنازلياً مع النسبة التراكمية (تحليل باريتو)
+ */
+function buildWastePareto<T extends { waste_kg: number }>(
+  rows: T[],
+  keyOf: (row: T) => string,
+  labelOf: (row: T) => string,
+): WasteParetoEntry[] {
+  const groups = new Map<string, { label: string; waste_kg: number }>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key) || { label: labelOf(row), waste_kg: 0 };
+    group.waste_kg += row.waste_kg;
+    groups.set(key, group);
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.waste_kg, 0);
+  let cumulative = 0;
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, ...group }))
+    .sort((a, b) => b.waste_kg - a.waste_kg)
+    .map((entry) => {
+      cumulative += entry.waste_kg;
+      return {
+        key: entry.key,
+        label: entry.label,
+        waste_kg: Number(entry.waste_kg.toFixed(2)),
+        percentage: total > 0 ? Number(((entry.waste_kg / total) * 100).toFixed(1)) : 0,
+        cumulative_percentage:
+          total > 0 ? Number(((cumulative / total) * 100).toFixed(1)) : 0,
+      };
+    });
+}
+
+// ============ وصفات الخلط ============
+
+export type MixingRecipeVersionWithCost = MixingRecipeVersion & {
+  cost: MixingRecipeCost;
+  production_order_count?: number;
+};
+
+export type MixingRecipeWithVersion = MixingRecipe & {
+  current: MixingRecipeVersionWithCost | null;
+};
+
+// ============ فحص الجودة ============
+
+export type QualityInspectionPlanWithItems = QualityInspectionPlan & {
+  items: QualityPlanItem[];
+  customer_product_label?: string | null;
+};
+
+export interface ResolvedPlanItem extends QualityPlanItem {
+  nominal: number | null;
+  min_value: number | null;
+  max_value: number | null;
+}
+
+export interface RollInspectionPlan {
+  roll: Pick<Roll, "id" | "roll_number" | "stage" | "qa_status">;
+  stage: string;
+  customer_product_id: number | null;
+  plan: QualityInspectionPlan | null;
+  items: ResolvedPlanItem[];
+}
+
+export type QualityCheckSummary = QualityCheck & {
+  roll_number: string | null;
+  roll_qa_status: string | null;
+  checked_by_name: string | null;
+  disposed_by_name: string | null;
+  defects_count: number;
+  out_of_tolerance_count: number;
+};
+
+export interface QualityCheckDetails extends QualityCheckSummary {
+  measurements: QualityCheckMeasurement[];
+  defects: Array<
+    QualityCheckDefect & { defect_name_ar: string; severity: string }
+  >;
+}
+
+export interface HeldRoll {
+  id: number;
+  roll_number: string;
+  stage: string;
+  qa_status: string;
+  weight_kg: string;
+  remaining_kg: string;
+  production_order_number: string | null;
+  order_number: string | null;
+  customer_name_ar: string | null;
+  check_id: number | null;
+  check_result: string | null;
+  check_notes: string | null;
+  checked_at: Date | null;
+}
+
+const QA_HOLD_ERROR =
+  "الرول موقوف من قبل الجودة - لا يمكن معالجته قبل اتخاذ قرار الجودة";
+
+// ============ الشحنات وإشعارات التسليم ============
+
+// رصيد أمر الإنتاج: المطلوب والمستلم في المستودع والمسلم للعميل
+export interface ShippableOrderLine {
+  production_order_id: number;
+  production_order_number: string;
+  order_id: number;
+  order_number: string;
+  order_status: string;
+  delivery_date: string | null;
+  customer_name: string | null;
+  customer_name_ar: string | null;
+  item_id: string | null;
+  item_name: string | null;
+  item_name_ar: string | null;
+  size_caption: string | null;
+  ordered_kg: number;
+  received_kg: number;
+  delivered_kg: number;
+  available_kg: number; // مستلم في المستودع ولم يسلم بعد
+  backorder_kg: number; // مطلوب ولم يسلم بعد
+  last_shipped_at: Date | null;
+}
+
+export type ShipmentSummary = Shipment & {
+  order_number: string;
+  customer_name: string | null;
+  customer_name_ar: string | null;
+  created_by_name: string | null;
+  total_kg: number;
+  items_count: number;
+};
+
+export interface ShipmentDetails extends ShipmentSummary {
+  customer: Pick<
+    Customer,
+    "id" | "name" | "name_ar" | "city" | "address" | "phone" | "tax_number"
+  > | null;
+  items: Array<
+    ShipmentItem & {
+      production_order_number: string;
+      item_name: string | null;
+      item_name_ar: string | null;
+      size_caption: string | null;
+      ordered_kg: number;
+    }
+  >;
+  // الرصيد المتبقي لكل أمر إنتاج في الطلب بعد جميع الشحنات الحالية
+  balances: ShippableOrderLine[];
+}
+
+const SHIPMENT_QUANTITY_TOLERANCE_KG = 0.001;
+
+// ============ المشتريات ============
+
+export type PurchaseOrderSummary = PurchaseOrder & {
+  supplier_name: string;
+  supplier_name_ar: string | null;
+  created_by_name: string | null;
+  total_amount: number;
+  received_amount: number;
+  lines_count: number;
+  pending_lines_count: number; // بنود لم تستلم كميتها بالكامل
+  is_overdue: boolean; // مفتوح وتجاوز تاريخ التسليم المتوقع
+};
+
+export type PurchaseOrderLineDetails = PurchaseOrderLine & {
+  item_name: string | null;
+  item_name_ar: string | null;
+  remaining_quantity: number;
+};
+
+export type GoodsReceiptDetails = GoodsReceipt & {
+  po_number: string;
+  supplier_name: string;
+  supplier_name_ar: string | null;
+  location_name: string | null;
+  received_by_name: string | null;
+  lines: Array<
+    GoodsReceiptLine & { item_name: string | null; item_name_ar: string | null }
+  >;
+};
+
+export interface PurchaseOrderDetails extends PurchaseOrderSummary {
+  lines: PurchaseOrderLineDetails[];
+  receipts: GoodsReceiptDetails[];
+}
+
+// مدة التوريد الفعلية لكل مورد = من تاريخ أمر الشراء حتى اكتمال الاستلام
+export interface SupplierLeadTimeStats {
+  supplier_id: number;
+  supplier_name: string;
+  supplier_name_ar: string | null;
+  agreed_lead_time_days: number | null;
+  completed_orders: number;
+  avg_lead_time_days: number | null;
+  min_lead_time_days: number | null;
+  max_lead_time_days: number | null;
+  on_time_rate: number | null; // نسبة الأوامر المستلمة في موعدها من الأوامر ذات تاريخ متوقع
+  open_orders: number;
+  overdue_orders: number;
+}
+
+// ============ الجرد الفعلي ============
+
+export type StockTakeSummary = StockTake & {
+  location_name: string | null;
+  created_by_name: string | null;
+  posted_by_name: string | null;
+  lines_count: number;
+  counted_lines_count: number;
+  approved_lines_count: number;
+  posted_value_impact: number; // الأثر المالي للفروقات المرحّلة
+};
+
+export type StockTakeLineDetails = StockTakeLine & {
+  item_code: string | null;
+  item_name: string | null;
+  item_name_ar: string | null;
+  barcode: string; // ما يُطبع على ورقة العد ويُمسح: كود الصنف أو معرفه
+  counts: Array<{
+    id: number;
+    counted_by: number;
+    counted_by_name: string | null;
+    quantity: number;
+    scanned: boolean;
+    counted_at: Date;
+  }>;
+  counted_quantity: number | null; // المعتمدة بعد الترحيل، وإلا المتفق عليها بين العدّادين
+  has_conflict: boolean;
+  variance: number | null;
+  value_impact: number | null;
+};
+
+export interface StockTakeDetails extends StockTakeSummary {
+  lines: StockTakeLineDetails[];
+  total_value_impact: number; // صافي أثر الفروقات المعدودة حتى الآن
+}
+
+// القيمة الاسمية من بيانات منتج العميل عندما لا تحدد الخطة قيمة ثابتة
+const PLAN_NOMINAL_SOURCES: Record<
+  string,
+  (product: CustomerProduct) => string | number | null
+> = {
+  thickness: (product) => product.thickness,
+  width: (product) => product.width,
+  cutting_length: (product) => product.cutting_length_cm,
+  unit_weight: (product) => product.unit_weight_kg,
+};
+
+function resolvePlanItemLimits(
+  item: QualityPlanItem,
+  product: CustomerProduct | null,
+): ResolvedPlanItem {
+  const source = PLAN_NOMINAL_SOURCES[item.characteristic];
+  const rawNominal =
+    item.nominal_value ?? (product && source ? source(product) : null);
+  const nominal =
+    rawNominal === null || rawNominal === undefined
+      ? null
+      : normalizeDecimal(rawNominal);
+
+  return {
+    ...item,
+    nominal,
+    min_value:
+      nominal !== null && item.tolerance_minus !== null
+        ? Number((nominal - normalizeDecimal(item.tolerance_minus)).toFixed(3))
+        : null,
+    max_value:
+      nominal !== null && item.tolerance_plus !== null
+        ? Number((nominal + normalizeDecimal(item.tolerance_plus)).toFixed(3))
+        : null,
+  };
+}
+
+export interface AuditLogFilters {
+  userId?: number;
+  tableName?: string;
+  recordId?: string;
+  action?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type AuditLogEntry = AuditLog & {
+  user_name: string | null;
+};
+
+// جلسة دخول نشطة في جدول user_sessions (connect-pg-simple)
+// المعرّف تجزئة لمعرّف الجلسة حتى لا يُكشف معرّف الجلسة نفسه
+export interface UserSessionInfo {
+  id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  login_at: string | null;
+  last_activity: string | null;
+  expires_at: Date;
+  current: boolean;
+}
+
+const sessionPublicId = (sid: string) =>
+  createHash("sha256").update(sid).digest("hex").slice(0, 32);
+
+// مفتاح وصول برمجي مع اسم مالكه (لقائمة المفاتيح)
+export type ApiTokenListItem = SafeApiToken & {
+  user_name: string | null;
+};
+
+const { token_hash: _tokenHash, ...safeApiTokenColumns } =
+  getTableColumns(api_tokens);
+
+// جدولة وردية مع اسم الموظف وقسمه واسم الوردية (لقائمة الجدولة)
+export type UserShiftListItem = UserShift & {
+  user_name: string | null;
+  section_id: number | null;
+  shift_name: string;
+};
+
+const normalizeDataScopeLevel = (
+  value: unknown,
+): DataScopeLevel | undefined =>
+  DATA_SCOPE_LEVELS.find((level) => level.id === value)?.id;
+
+/**
+ * شرط نطاق البيانات على عمود يشير إلى مستخدم/موظف (رقمي أو نصي)
+ * نطاق القسم بدون قسم محدد للمستخدم يُعامل كنطاق السجلات الخاصة
+ */
+function scopedUserCondition(
+  column: AnyPgColumn,
+  scope?: DataScope,
+): SQL | undefined {
+  if (!scope) return undefined;
+  if (scope.level === "section" && scope.sectionId) {
+    return sql`${column}::text IN (SELECT ${users.id}::text FROM ${users} WHERE ${users.section_id} = ${scope.sectionId})`;
+  }
+  return sql`${column}::text = ${String(scope.userId)}`;
+}
+
+// العملاء المرئيون حسب مندوب المبيعات المسؤول عنهم
+function scopedCustomerCondition(scope?: DataScope): SQL | undefined {
+  return scopedUserCondition(customers.sales_rep_id, scope);
+}
+
+// الطلبات المرئية = طلبات العملاء المرئيين
+function scopedOrderCondition(scope?: DataScope): SQL | undefined {
+  const customerCondition = scopedCustomerCondition(scope);
+  if (!customerCondition) return undefined;
+  return sql`${orders.customer_id} IN (SELECT ${customers.id} FROM ${customers} WHERE ${customerCondition})`;
+}
+
 export interface IStorage {
   // Users (with sensitive data)
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: any): Promise<User>;
+
+  // Login attempts (brute-force lockout)
+  recordLoginAttempt(attempt: {
+    username: string;
+    ip_address: string;
+    user_id?: number | null;
+    success: boolean;
+  }): Promise<void>;
+  getFailedLoginStats(
+    scope: "username" | "ip_address",
+    value: string,
+    since: Date,
+  ): Promise<{ failures: number; last_failure_at: Date | null }>;
+
+  // Active login sessions
+  getUserSessions(
+    userId: number,
+    currentSid?: string,
+  ): Promise<UserSessionInfo[]>;
+  destroyUserSessions(
+    userId: number,
+    options?: { ids?: string[]; exceptSid?: string },
+  ): Promise<number>;
+
+  // API tokens (machine-to-machine access)
+  createApiToken(token: InsertApiToken): Promise<SafeApiToken>;
+  getApiTokens(userId?: number): Promise<ApiTokenListItem[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number, ipAddress: string | null): Promise<void>;
+  revokeApiToken(id: number, userId?: number): Promise<boolean>;
 
   // Safe users (without sensitive data like passwords)
   getSafeUser(id: number): Promise<SafeUser | undefined>;
@@ -406,12 +1034,13 @@ export interface IStorage {
   getSafeUsersByRole(roleId: number): Promise<SafeUser[]>;
 
   // Orders
-  getAllOrders(): Promise<NewOrder[]>;
+  getAllOrders(limit?: number, scope?: DataScope): Promise<NewOrder[]>;
   createOrder(order: InsertNewOrder): Promise<NewOrder>;
   updateOrder(id: number, order: Partial<NewOrder>): Promise<NewOrder>;
   updateOrderStatus(id: number, status: string): Promise<NewOrder>;
   getOrderById(id: number): Promise<NewOrder | undefined>;
-  deleteOrder(id: number): Promise<void>;
+  isOrderInScope(id: number, scope?: DataScope): Promise<boolean>;
+  deleteOrder(id: number, deletedBy?: number): Promise<void>;
   getOrdersForProduction(): Promise<any[]>;
   getHierarchicalOrdersForProduction(): Promise<any[]>;
 
@@ -431,7 +1060,7 @@ export interface IStorage {
     id: number,
     productionOrder: Partial<ProductionOrder>,
   ): Promise<ProductionOrder>;
-  deleteProductionOrder(id: number): Promise<void>;
+  deleteProductionOrder(id: number, deletedBy?: number): Promise<void>;
 
   // Warehouse - Production Hall
   getProductionOrdersForReceipt(): Promise<any[]>;
@@ -454,7 +1083,8 @@ export interface IStorage {
   getMachineById(id: string): Promise<Machine | undefined>;
 
   // Customers
-  getCustomers(): Promise<Customer[]>;
+  getCustomers(scope?: DataScope): Promise<Customer[]>;
+  isCustomerInScope(id: string, scope?: DataScope): Promise<boolean>;
 
   // Customer Products (replacing the old Product table)
   getCustomerProducts(): Promise<CustomerProduct[]>;
@@ -482,8 +1112,23 @@ export interface IStorage {
   createWarehouseTransaction(transaction: any): Promise<WarehouseTransaction>;
 
   // Mixing Recipes
-  getMixingRecipes(): Promise<MixingRecipe[]>;
-  createMixingRecipe(recipe: any): Promise<MixingRecipe>;
+  getMixingRecipes(): Promise<MixingRecipeWithVersion[]>;
+  getMixingRecipeVersions(
+    recipeId: number,
+  ): Promise<MixingRecipeVersionWithCost[]>;
+  createMixingRecipe(
+    recipe: InsertMixingRecipe,
+    createdBy: number,
+  ): Promise<MixingRecipeWithVersion>;
+  createMixingRecipeVersion(
+    recipeId: number,
+    recipe: InsertMixingRecipe,
+    createdBy: number,
+  ): Promise<MixingRecipeWithVersion | undefined>;
+  updateMixingRecipeStatus(
+    id: number,
+    isActive: boolean,
+  ): Promise<MixingRecipe | undefined>;
 
   // Sections
   getSections(): Promise<Section[]>;
@@ -544,7 +1189,10 @@ export interface IStorage {
   deleteTrainingMaterial(id: number): Promise<boolean>;
 
   // HR System - Training Enrollments
-  getTrainingEnrollments(employeeId?: number): Promise<TrainingEnrollment[]>;
+  getTrainingEnrollments(
+    employeeId?: number,
+    scope?: DataScope,
+  ): Promise<TrainingEnrollment[]>;
   createTrainingEnrollment(
     enrollment: InsertTrainingEnrollment,
   ): Promise<TrainingEnrollment>;
@@ -558,6 +1206,7 @@ export interface IStorage {
   getTrainingEvaluations(
     employeeId?: number,
     programId?: number,
+    scope?: DataScope,
   ): Promise<TrainingEvaluation[]>;
   createTrainingEvaluation(
     evaluation: InsertTrainingEvaluation,
@@ -571,7 +1220,10 @@ export interface IStorage {
   ): Promise<TrainingEvaluation | undefined>;
 
   // HR System - Training Certificates
-  getTrainingCertificates(employeeId?: number): Promise<TrainingCertificate[]>;
+  getTrainingCertificates(
+    employeeId?: number,
+    scope?: DataScope,
+  ): Promise<TrainingCertificate[]>;
   createTrainingCertificate(
     certificate: InsertTrainingCertificate,
   ): Promise<TrainingCertificate>;
@@ -584,7 +1236,10 @@ export interface IStorage {
   ): Promise<TrainingCertificate>;
 
   // HR System - Performance Reviews
-  getPerformanceReviews(employeeId?: string): Promise<PerformanceReview[]>;
+  getPerformanceReviews(
+    employeeId?: string,
+    scope?: DataScope,
+  ): Promise<PerformanceReview[]>;
   createPerformanceReview(
     review: InsertPerformanceReview,
   ): Promise<PerformanceReview>;
@@ -620,18 +1275,25 @@ export interface IStorage {
   updateLeaveType(id: number, updates: Partial<LeaveType>): Promise<LeaveType>;
 
   // HR System - Leave Requests
-  getLeaveRequests(employeeId?: string): Promise<LeaveRequest[]>;
+  getLeaveRequests(
+    employeeId?: string,
+    scope?: DataScope,
+  ): Promise<LeaveRequest[]>;
   createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest>;
   updateLeaveRequest(
     id: number,
     updates: Partial<LeaveRequest>,
   ): Promise<LeaveRequest>;
   getLeaveRequestById(id: number): Promise<LeaveRequest | undefined>;
-  getPendingLeaveRequests(): Promise<LeaveRequest[]>;
+  getPendingLeaveRequests(scope?: DataScope): Promise<LeaveRequest[]>;
   deleteLeaveRequest(id: number): Promise<void>;
 
   // HR System - Leave Balances
-  getLeaveBalances(employeeId: string, year?: number): Promise<LeaveBalance[]>;
+  getLeaveBalances(
+    employeeId: string,
+    year?: number,
+    scope?: DataScope,
+  ): Promise<LeaveBalance[]>;
   createLeaveBalance(balance: InsertLeaveBalance): Promise<LeaveBalance>;
   updateLeaveBalance(
     id: number,
@@ -651,16 +1313,65 @@ export interface IStorage {
   deleteMaintenanceRequest(id: number): Promise<void>;
 
   // Quality
-  getQualityChecks(): Promise<QualityCheck[]>;
+  getQualityChecks(filters?: {
+    result?: string;
+    rollId?: number;
+  }): Promise<QualityCheckSummary[]>;
+  getQualityCheckDetails(id: number): Promise<QualityCheckDetails | undefined>;
+  createQualityCheck(
+    check: InsertQualityCheck,
+    checkedBy: number,
+  ): Promise<QualityCheckDetails>;
+  disposeQualityCheck(
+    id: number,
+    disposition: QualityDisposition,
+    disposedBy: number,
+  ): Promise<QualityCheck>;
+  getHeldRolls(): Promise<HeldRoll[]>;
+  getRollInspectionPlan(
+    rollRef: number | string,
+    stage?: string,
+  ): Promise<RollInspectionPlan | undefined>;
+  getInspectionPlans(filters?: {
+    customerProductId?: number;
+  }): Promise<QualityInspectionPlanWithItems[]>;
+  createInspectionPlan(
+    plan: InsertQualityInspectionPlan,
+    createdBy: number,
+  ): Promise<QualityInspectionPlanWithItems>;
+  updateInspectionPlan(
+    id: number,
+    plan: InsertQualityInspectionPlan,
+  ): Promise<QualityInspectionPlanWithItems | undefined>;
+  deleteInspectionPlan(id: number): Promise<void>;
+  getQualityDefectTypes(filters?: {
+    activeOnly?: boolean;
+  }): Promise<QualityDefectType[]>;
+  createQualityDefectType(
+    defectType: InsertQualityDefectType,
+  ): Promise<QualityDefectType>;
+  updateQualityDefectType(
+    id: number,
+    updates: Partial<InsertQualityDefectType>,
+  ): Promise<QualityDefectType | undefined>;
+  deleteQualityDefectType(id: number): Promise<void>;
 
   // HR System - Attendance Management
-  getAttendance(): Promise<Attendance[]>;
+  getAttendance(scope?: DataScope): Promise<Attendance[]>;
+  isUserInScope(userId: number | string, scope?: DataScope): Promise<boolean>;
   createAttendance(attendance: InsertAttendance): Promise<Attendance>;
   updateAttendance(
     id: number,
     attendance: Partial<Attendance>,
   ): Promise<Attendance>;
+  getAttendanceById(id: number): Promise<Attendance | undefined>;
   deleteAttendance(id: number): Promise<void>;
+  reviewAttendanceLocation(
+    id: number,
+    decision: "approved" | "rejected",
+    reviewedBy: number,
+    scope?: DataScope,
+  ): Promise<Attendance | undefined>;
   getDailyAttendanceStatus(
     userId: number,
     date: string,
@@ -671,6 +1382,55 @@ export interface IStorage {
     hasCheckedOut: boolean;
     currentStatus: string;
   }>;
+  getAttendanceBetween(
+    from: string,
+    to: string,
+    filters?: { userId?: number; scope?: DataScope },
+  ): Promise<Attendance[]>;
+  getCompanyProfile(): Promise<CompanyProfile | undefined>;
+
+  // HR System - Shifts
+  getShiftTemplates(filters?: {
+    activeOnly?: boolean;
+  }): Promise<ShiftTemplate[]>;
+  createShiftTemplate(template: InsertShiftTemplate): Promise<ShiftTemplate>;
+  updateShiftTemplate(
+    id: number,
+    updates: Partial<InsertShiftTemplate>,
+  ): Promise<ShiftTemplate | undefined>;
+  deleteShiftTemplate(id: number): Promise<void>;
+  getUserShifts(filters?: {
+    userId?: number;
+    from?: string;
+    to?: string;
+    scope?: DataScope;
+  }): Promise<UserShiftListItem[]>;
+  createUserShift(
+    shift: InsertUserShift,
+    createdBy: number,
+  ): Promise<UserShift>;
+  updateUserShift(
+    id: number,
+    updates: Partial<InsertUserShift>,
+  ): Promise<UserShift | undefined>;
+  deleteUserShift(id: number): Promise<void>;
+
+  // HR System - Payroll
+  getEmployeeViolationsBetween(from: string, to: string): Promise<Violation[]>;
+  getPayrollPeriods(): Promise<PayrollPeriod[]>;
+  getPayrollPeriod(month: string): Promise<PayrollPeriod | undefined>;
+  getPayrollPeriodLines(
+    periodId: number,
+    scope?: DataScope,
+  ): Promise<PayrollPeriodLine[]>;
+  closePayrollPeriod(
+    period: InsertPayrollPeriod,
+    lines: Omit<InsertPayrollPeriodLine, "period_id">[],
+  ): Promise<PayrollPeriod | undefined>;
+  reopenPayrollPeriod(
+    month: string,
+    reopenedBy: number,
+  ): Promise<PayrollPeriod | undefined>;
 
   // Users list
   getUsers(): Promise<User[]>;
@@ -700,11 +1460,30 @@ export interface IStorage {
 
   // Database Management
   getDatabaseStats(): Promise<any>;
-  createDatabaseBackup(): Promise<any>;
-  getBackupFile(backupId: string): Promise<any>;
-  restoreDatabaseBackup(backupData: any): Promise<any>;
-  exportTableData(tableName: string, format: string): Promise<any>;
-  importTableData(tableName: string, data: any, format: string): Promise<any>;
+  createDatabaseBackup(createdBy?: number): Promise<BackupManifest>;
+  deleteDatabaseBackup(backupId: string): Promise<void>;
+  getBackupFile(backupId: string): Promise<string>;
+  restoreDatabaseBackup(
+    source: { backupId?: string; backupData?: any },
+    options?: { dryRun?: boolean },
+  ): Promise<RestoreResult>;
+  getBackupHistory(filters?: {
+    trigger?: string;
+    status?: string;
+    limit?: number;
+  }): Promise<BackupHistory[]>;
+  createBackupHistory(entry: InsertBackupHistory): Promise<BackupHistory>;
+  updateBackupHistory(
+    id: number,
+    updates: Partial<BackupHistory>,
+  ): Promise<BackupHistory>;
+  exportTableData(tableName: string, format: string): Promise<ExportFile>;
+  importTableData(
+    tableName: string,
+    data: any,
+    format: string,
+    options?: Omit<ImportOptions, "format">,
+  ): Promise<ImportReport>;
   optimizeTables(): Promise<any>;
   checkDatabaseIntegrity(): Promise<any>;
   cleanupOldData(daysOld: number): Promise<any>;
@@ -788,15 +1567,113 @@ export interface IStorage {
     weight_kg: number;
     created_by: number;
   }): Promise<Roll>;
+  deleteRoll(id: number, deletedBy: number): Promise<Roll | undefined>;
   markRollPrinted(rollId: number, operatorId: number, printingMachineId?: string): Promise<Roll>;
   createCut(cutData: InsertCut): Promise<Cut>;
+  finishRoll(
+    rollId: number,
+    finishData: { reason_id: number; finished_by: number },
+  ): Promise<Roll>;
+  adjustRollWaste(
+    rollId: number,
+    adjustment: { waste_kg: number; reason_id: number; recorded_by?: number },
+  ): Promise<Roll>;
+
+  // Waste Reasons
+  getWasteReasons(filters?: {
+    stage?: string;
+    activeOnly?: boolean;
+  }): Promise<WasteReason[]>;
+  createWasteReason(reason: InsertWasteReason): Promise<WasteReason>;
+  updateWasteReason(
+    id: number,
+    updates: Partial<InsertWasteReason>,
+  ): Promise<WasteReason | undefined>;
+  deleteWasteReason(id: number): Promise<void>;
+  getWasteAnalysis(filters: {
+    dateFrom?: string;
+    dateTo?: string;
+    stage?: string;
+  }): Promise<WasteAnalysis>;
   createWarehouseReceipt(
     receiptData: InsertWarehouseReceipt,
   ): Promise<WarehouseReceipt>;
   getWarehouseReceiptsDetailed(): Promise<any[]>;
+
+  // Shipments / delivery notes
+  getShippableLines(orderId?: number): Promise<ShippableOrderLine[]>;
+  getBackorders(): Promise<ShippableOrderLine[]>;
+  getShipments(filters?: {
+    orderId?: number;
+    status?: string;
+  }): Promise<ShipmentSummary[]>;
+  getShipmentDetails(id: number): Promise<ShipmentDetails | undefined>;
+  createShipment(
+    data: InsertShipment,
+    userId: number,
+  ): Promise<{ shipment: ShipmentDetails; order_completed: boolean }>;
+  cancelShipment(id: number, userId: number): Promise<Shipment>;
+
+  // Purchasing
+  getSuppliers(): Promise<Supplier[]>;
+  createSupplier(data: InsertSupplier): Promise<Supplier>;
+  updateSupplier(
+    id: number,
+    data: Partial<InsertSupplier>,
+  ): Promise<Supplier | undefined>;
+  deleteSupplier(id: number): Promise<boolean>;
+  getPurchaseOrders(filters?: {
+    status?: string;
+    supplierId?: number;
+  }): Promise<PurchaseOrderSummary[]>;
+  getPurchaseOrder(id: number): Promise<PurchaseOrderDetails | undefined>;
+  createPurchaseOrder(
+    data: InsertPurchaseOrder,
+    userId: number,
+  ): Promise<PurchaseOrderDetails>;
+  updatePurchaseOrder(
+    id: number,
+    data: InsertPurchaseOrder,
+  ): Promise<PurchaseOrderDetails>;
+  approvePurchaseOrder(id: number, userId: number): Promise<PurchaseOrder>;
+  cancelPurchaseOrder(id: number, userId: number): Promise<PurchaseOrder>;
+  receivePurchaseOrder(
+    id: number,
+    data: InsertGoodsReceipt,
+    userId: number,
+  ): Promise<GoodsReceiptDetails>;
+  getGoodsReceipts(purchaseOrderId?: number): Promise<GoodsReceiptDetails[]>;
+  getSupplierLeadTimeStats(): Promise<SupplierLeadTimeStats[]>;
+  getReorderSuggestions(lookbackDays?: number): Promise<ReorderList>;
+  convertReorderSuggestions(
+    data: ReorderConversion,
+    userId: number,
+  ): Promise<PurchaseOrderDetails[]>;
+
+  // Stock takes
+  getStockTakes(filters?: {
+    status?: string;
+    locationId?: string;
+  }): Promise<StockTakeSummary[]>;
+  getStockTake(id: number): Promise<StockTakeDetails | undefined>;
+  createStockTake(
+    data: InsertStockTake,
+    userId: number,
+  ): Promise<StockTakeDetails>;
+  recordStockTakeCount(
+    id: number,
+    data: StockTakeCountInput,
+    userId: number,
+  ): Promise<StockTakeLineDetails>;
+  postStockTake(
+    id: number,
+    data: StockTakePosting,
+    userId: number,
+  ): Promise<StockTakeDetails>;
+  cancelStockTake(id: number, userId: number): Promise<StockTake>;
   getFilmQueue(): Promise<ProductionOrder[]>;
   getPrintingQueue(): Promise<Roll[]>;
-  getCuttingQueue(): Promise<Roll[]>;
+  getCuttingQueue(): Promise<(Roll & { remaining_kg: string })[]>;
   getGroupedCuttingQueue(): Promise<any[]>;
   getOrderProgress(productionOrderId: number): Promise<any>;
   getRollQR(
@@ -813,6 +1690,17 @@ export interface IStorage {
     qr_png_base64: string;
     label_dimensions: { width: string; height: string };
   }>;
+  getProductionSchedule(): Promise<ProductionSchedule>;
+  getDeliveryPromise(
+    items: Array<{ customer_product_id: number; quantity_kg: number }>,
+    excludeOrderId?: number,
+  ): Promise<DeliveryPromise>;
+  getRollTrace(rollRef: number | string): Promise<RollTrace | undefined>;
+  getRollsByMachineWindow(
+    machineId: string,
+    from: Date,
+    to: Date,
+  ): Promise<AffectedRoll[]>;
 
   // ============ نظام التحذيرات الذكية ============
 
@@ -963,6 +1851,11 @@ export interface IStorage {
   createNoteAttachment(attachment: any): Promise<any>;
   getNoteAttachments(noteId: number): Promise<any[]>;
   deleteNoteAttachment(id: number): Promise<void>;
+
+  // Audit trail
+  getAuditLogs(
+    filters?: AuditLogFilters,
+  ): Promise<{ entries: AuditLogEntry[]; total: number }>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -1030,7 +1923,11 @@ export class DatabaseStorage implements IStorage {
 
         const [user] = await db
           .insert(users)
-          .values({ ...insertUser, password: hashedPassword })
+          .values({
+            ...insertUser,
+            password: hashedPassword,
+            password_changed_at: new Date(),
+          })
           .returning();
         return user;
       },
@@ -1039,6 +1936,181 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
+  async recordLoginAttempt(attempt: {
+    username: string;
+    ip_address: string;
+    user_id?: number | null;
+    success: boolean;
+  }): Promise<void> {
+    await db.insert(login_attempts).values({
+      username: attempt.username.trim().toLowerCase().slice(0, 50),
+      ip_address: attempt.ip_address.slice(0, 64),
+      user_id: attempt.user_id ?? null,
+      success: attempt.success,
+    });
+  }
+
+  /**
+   * المحاولات الفاشلة منذ تاريخ معين - يبدأ العد من جديد بعد آخر دخول ناجح
+   */
+  async getFailedLoginStats(
+    scope: "username" | "ip_address",
+    value: string,
+    since: Date,
+  ): Promise<{ failures: number; last_failure_at: Date | null }> {
+    const column =
+      scope === "username" ? login_attempts.username : login_attempts.ip_address;
+    const key = scope === "username" ? value.trim().toLowerCase() : value;
+
+    const [lastSuccess] = await db
+      .select({ at: sql<Date | null>`MAX(${login_attempts.created_at})` })
+      .from(login_attempts)
+      .where(and(eq(column, key), eq(login_attempts.success, true)));
+    const windowStart =
+      lastSuccess?.at && new Date(lastSuccess.at) > since
+        ? new Date(lastSuccess.at)
+        : since;
+
+    const [stats] = await db
+      .select({
+        failures: count(),
+        last_failure_at: sql<Date | null>`MAX(${login_attempts.created_at})`,
+      })
+      .from(login_attempts)
+      .where(
+        and(
+          eq(column, key),
+          eq(login_attempts.success, false),
+          gt(login_attempts.created_at, windowStart),
+        ),
+      );
+
+    return {
+      failures: Number(stats?.failures || 0),
+      last_failure_at: stats?.last_failure_at
+        ? new Date(stats.last_failure_at)
+        : null,
+    };
+  }
+
+  async getUserSessions(
+    userId: number,
+    currentSid?: string,
+  ): Promise<UserSessionInfo[]> {
+    const result = await db.execute(sql`
+      SELECT sid, sess, expire
+      FROM user_sessions
+      WHERE sess->>'userId' = ${String(userId)} AND expire > NOW()
+    `);
+
+    return (result.rows as any[])
+      .map((row) => {
+        const sess =
+          typeof row.sess === "string" ? JSON.parse(row.sess) : row.sess || {};
+        return {
+          id: sessionPublicId(row.sid),
+          ip_address: sess.ip_address ?? null,
+          user_agent: sess.user_agent ?? null,
+          login_at: sess.login_at ?? null,
+          last_activity: sess.last_activity ?? sess.login_at ?? null,
+          expires_at: new Date(row.expire),
+          current: row.sid === currentSid,
+        };
+      })
+      .sort((a, b) =>
+        (b.last_activity || "").localeCompare(a.last_activity || ""),
+      );
+  }
+
+  /**
+   * إنهاء جلسات مستخدم - كلها أو المحددة بالمعرّف، مع استثناء جلسة معينة اختيارياً
+   */
+  async destroyUserSessions(
+    userId: number,
+    options: { ids?: string[]; exceptSid?: string } = {},
+  ): Promise<number> {
+    const result = await db.execute(sql`
+      SELECT sid FROM user_sessions WHERE sess->>'userId' = ${String(userId)}
+    `);
+
+    const sids = (result.rows as Array<{ sid: string }>)
+      .map((row) => row.sid)
+      .filter(
+        (sid) =>
+          sid !== options.exceptSid &&
+          (!options.ids || options.ids.includes(sessionPublicId(sid))),
+      );
+    if (sids.length === 0) return 0;
+
+    await db.execute(sql`
+      DELETE FROM user_sessions
+      WHERE sid IN (${sql.join(
+        sids.map((sid) => sql`${sid}`),
+        sql`, `,
+      )})
+    `);
+    return sids.length;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<SafeApiToken> {
+    const [created] = await db
+      .insert(api_tokens)
+      .values(token)
+      .returning(safeApiTokenColumns);
+    return created;
+  }
+
+  /**
+   * مفاتيح الوصول البرمجي - لمستخدم معين أو للجميع، الأحدث أولاً
+   */
+  async getApiTokens(userId?: number): Promise<ApiTokenListItem[]> {
+    return await db
+      .select({
+        ...safeApiTokenColumns,
+        user_name: sql<string | null>`COALESCE(${users.display_name_ar}, ${users.display_name}, ${users.username})`,
+      })
+      .from(api_tokens)
+      .leftJoin(users, eq(api_tokens.user_id, users.id))
+      .where(userId ? eq(api_tokens.user_id, userId) : undefined)
+      .orderBy(desc(api_tokens.created_at));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(api_tokens)
+      .where(eq(api_tokens.token_hash, tokenHash));
+    return token || undefined;
+  }
+
+  async touchApiToken(id: number, ipAddress: string | null): Promise<void> {
+    await db
+      .update(api_tokens)
+      .set({
+        last_used_at: new Date(),
+        last_used_ip: ipAddress ? ipAddress.slice(0, 64) : null,
+      })
+      .where(eq(api_tokens.id, id));
+  }
+
+  /**
+   * إلغاء مفتاح - مع userId لا يُلغى إلا إذا كان المفتاح ملكاً لهذا المستخدم
+   */
+  async revokeApiToken(id: number, userId?: number): Promise<boolean> {
+    const revoked = await db
+      .update(api_tokens)
+      .set({ revoked_at: new Date() })
+      .where(
+        and(
+          eq(api_tokens.id, id),
+          userId ? eq(api_tokens.user_id, userId) : undefined,
+          sql`${api_tokens.revoked_at} IS NULL`,
+        ),
+      )
+      .returning({ id: api_tokens.id });
+    return revoked.length > 0;
+  }
+
   // Safe user methods that exclude password and other sensitive fields
   async getSafeUser(id: number): Promise<SafeUser | undefined> {
     return withDatabaseErrorHandling(
@@ -1058,7 +2130,11 @@ export class DatabaseStorage implements IStorage {
             email: users.email,
             role_id: users.role_id,
             section_id: users.section_id,
+            attendance_location_id: users.attendance_location_id,
             status: users.status,
+            must_change_password: users.must_change_password,
+            password_changed_at: users.password_changed_at,
+            two_factor_enabled: users.two_factor_enabled,
             created_at: users.created_at,
           })
           .from(users)
@@ -1084,7 +2160,11 @@ export class DatabaseStorage implements IStorage {
             email: users.email,
             role_id: users.role_id,
             section_id: users.section_id,
+            attendance_location_id: users.attendance_location_id,
             status: users.status,
+            must_change_password: users.must_change_password,
+            password_changed_at: users.password_changed_at,
+            two_factor_enabled: users.two_factor_enabled,
             created_at: users.created_at,
           })
           .from(users);
@@ -1112,7 +2192,11 @@ export class DatabaseStorage implements IStorage {
             email: users.email,
             role_id: users.role_id,
             section_id: users.section_id,
+            attendance_location_id: users.attendance_location_id,
             status: users.status,
+            must_change_password: users.must_change_password,
+            password_changed_at: users.password_changed_at,
+            two_factor_enabled: users.two_factor_enabled,
             created_at: users.created_at,
           })
           .from(users)
@@ -1143,18 +2227,28 @@ export class DatabaseStorage implements IStorage {
 
   async deleteMachine(id: string): Promise<void> {
     await db.delete(machines).where(eq(machines.id, id));
+    invalidateProductionCache("all");
   }
 
   async deleteUser(id: number): Promise<void> {
     await db.delete(users).where(eq(users.id, id));
+    await this.destroyUserSessions(id);
   }
 
   async deleteCustomer(id: string): Promise<void> {
     await db.delete(customers).where(eq(customers.id, id));
   }
 
-  async getAllOrders(limit: number = 1000): Promise<NewOrder[]> {
-    return await db.select().from(orders).orderBy(desc(orders.created_at)).limit(limit);
+  async getAllOrders(
+    limit: number = 1000,
+    scope?: DataScope,
+  ): Promise<NewOrder[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(scopedOrderCondition(scope))
+      .orderBy(desc(orders.created_at))
+      .limit(limit);
   }
 
   async createOrder(insertOrder: InsertNewOrder): Promise<NewOrder> {
@@ -1374,7 +2468,21 @@ export class DatabaseStorage implements IStorage {
     return order || undefined;
   }
 
-  async deleteOrder(id: number): Promise<void> {
+  /**
+   * هل يقع الطلب ضمن نطاق بيانات المستخدم الحالي (عبر عميل الطلب)
+   */
+  async isOrderInScope(id: number, scope?: DataScope): Promise<boolean> {
+    const condition = scopedOrderCondition(scope);
+    if (!condition) return true;
+
+    const [match] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.id, id), condition));
+    return !!match;
+  }
+
+  async deleteOrder(id: number, deletedBy?: number): Promise<void> {
     await db.transaction(async (tx) => {
       // First, get all production orders for this order
       const productionOrdersToDelete = await tx
@@ -1397,10 +2505,19 @@ export class DatabaseStorage implements IStorage {
 
         // Get all rolls for this production order to handle cuts cascade
         const rollsToDelete = await tx
-          .select({ id: rolls.id })
+          .select({
+            id: rolls.id,
+            roll_number: rolls.roll_number,
+            created_by: rolls.created_by,
+          })
           .from(rolls)
           .where(eq(rolls.production_order_id, prodOrder.id));
 
+        // Return raw materials consumed by these rolls to inventory
+        for (const roll of rollsToDelete) {
+          await this.reverseRollConsumption(tx, roll, deletedBy);
+        }
+
         // Delete cuts for each roll (they reference rolls)
         for (const roll of rollsToDelete) {
           await tx.delete(cuts).where(eq(cuts.roll_id, roll.id));
@@ -1494,7 +2611,7 @@ export class DatabaseStorage implements IStorage {
     date_to?: string;
     page?: number;
     limit?: number;
-  }): Promise<any> {
+  }, scope?: DataScope): Promise<any> {
     return await withDatabaseErrorHandling(async () => {
       let query = db
         .select({
@@ -1541,6 +2658,11 @@ export class DatabaseStorage implements IStorage {
       // Apply filters
       const conditions = [];
 
+      const scopeCondition = scopedOrderCondition(scope);
+      if (scopeCondition) {
+        conditions.push(scopeCondition);
+      }
+
       if (filters.search) {
         const searchTerm = `%${filters.search}%`;
         conditions.push(
@@ -1797,6 +2919,8 @@ export class DatabaseStorage implements IStorage {
           production_order_number: production_orders.production_order_number,
           order_id: production_orders.order_id,
           customer_product_id: production_orders.customer_product_id,
+          mixing_recipe_id: production_orders.mixing_recipe_id,
+          mixing_recipe_version_id: production_orders.mixing_recipe_version_id,
           quantity_kg: production_orders.quantity_kg,
           overrun_percentage: production_orders.overrun_percentage,
           final_quantity_kg: production_orders.final_quantity_kg,
@@ -1867,6 +2991,8 @@ export class DatabaseStorage implements IStorage {
           production_order_number: production_orders.production_order_number,
           order_id: production_orders.order_id,
           customer_product_id: production_orders.customer_product_id,
+          mixing_recipe_id: production_orders.mixing_recipe_id,
+          mixing_recipe_version_id: production_orders.mixing_recipe_version_id,
           quantity_kg: production_orders.quantity_kg,
           overrun_percentage: production_orders.overrun_percentage,
           final_quantity_kg: production_orders.final_quantity_kg,
@@ -2049,6 +3175,10 @@ export class DatabaseStorage implements IStorage {
         // STEP 5: Prepare production order data with validation
         const productionOrderData = {
           ...insertProductionOrder,
+          mixing_recipe_version_id: await this.resolveRecipeVersionId(
+            tx,
+            insertProductionOrder.mixing_recipe_id,
+          ),
           production_order_number: productionOrderNumber,
           quantity_kg: numberToDecimalString(baseQuantityKg),
           final_quantity_kg: numberToDecimalString(
@@ -2175,6 +3305,10 @@ export class DatabaseStorage implements IStorage {
 
             const productionOrderData = {
               ...insertProductionOrder,
+              mixing_recipe_version_id: await this.resolveRecipeVersionId(
+                tx,
+                insertProductionOrder.mixing_recipe_id,
+              ),
               production_order_number: productionOrderNumber,
               quantity_kg: numberToDecimalString(baseQuantityKg),
               final_quantity_kg: numberToDecimalString(
@@ -2214,48 +3348,35 @@ export class DatabaseStorage implements IStorage {
     productionOrderUpdate: Partial<ProductionOrder>,
   ): Promise<ProductionOrder> {
     return await db.transaction(async (tx) => {
+      // تغيير الوصفة يثبت إصدارها الحالي، وبقاء نفس الوصفة لا يغير الإصدار المثبت
+      const updates = { ...productionOrderUpdate };
+      if (updates.mixing_recipe_id !== undefined) {
+        const [existing] = await tx
+          .select({ mixing_recipe_id: production_orders.mixing_recipe_id })
+          .from(production_orders)
+          .where(eq(production_orders.id, id));
+        if (existing && existing.mixing_recipe_id !== updates.mixing_recipe_id) {
+          updates.mixing_recipe_version_id = await this.resolveRecipeVersionId(
+            tx,
+            updates.mixing_recipe_id,
+          );
+        }
+      }
+
       // Update the production order
       const [productionOrder] = await tx
         .update(production_orders)
-        .set(productionOrderUpdate)
+        .set(updates)
         .where(eq(production_orders.id, id))
         .returning();
 
-      // If this production order was marked as completed, check if all production orders for the parent order are completed
-      if (productionOrderUpdate.status === "completed") {
-        const orderId = productionOrder.order_id;
-
-        // Get all production orders for this order
-        const allProductionOrders = await tx
-          .select()
-          .from(production_orders)
-          .where(eq(production_orders.order_id, orderId));
-
-        // Check if all production orders are completed
-        const allCompleted = allProductionOrders.every((po) =>
-          po.id === id
-            ? productionOrderUpdate.status === "completed"
-            : po.status === "completed",
-        );
-
-        // If all production orders are completed, automatically mark the order as completed
-        if (allCompleted) {
-          await tx
-            .update(orders)
-            .set({ status: "completed" })
-            .where(eq(orders.id, orderId));
-
-          console.log(
-            `Order ${orderId} automatically completed - all production orders finished`,
-          );
-        }
-      }
+      // الطلب الرئيسي لا يكتمل بانتهاء الإنتاج - يكتمل عند تسليم كامل الكمية (createShipment)
 
       return productionOrder;
     });
   }
 
-  async deleteProductionOrder(id: number): Promise<void> {
+  async deleteProductionOrder(id: number, deletedBy?: number): Promise<void> {
     await db.transaction(async (tx) => {
       // Delete related records in correct order to avoid foreign key constraint violations
 
@@ -2269,10 +3390,19 @@ export class DatabaseStorage implements IStorage {
 
       // Get all rolls for this production order to handle cuts cascade
       const rollsToDelete = await tx
-        .select({ id: rolls.id })
+        .select({
+          id: rolls.id,
+          roll_number: rolls.roll_number,
+          created_by: rolls.created_by,
+        })
         .from(rolls)
         .where(eq(rolls.production_order_id, id));
 
+      // Return raw materials consumed by these rolls to inventory
+      for (const roll of rollsToDelete) {
+        await this.reverseRollConsumption(tx, roll, deletedBy);
+      }
+
       // Delete cuts for each roll (they reference rolls)
       for (const roll of rollsToDelete) {
         await tx.delete(cuts).where(eq(cuts.roll_id, roll.id));
@@ -2569,6 +3699,9 @@ export class DatabaseStorage implements IStorage {
             },
           );
 
+          // STEP 7: INVARIANT C - صرف المواد الخام حسب وصفة الخلط في نفس المعاملة
+          await this.consumeRecipeMaterials(tx, productionOrder, roll);
+
           // إزالة cache بعد إنشاء رول جديد وإرسال تحديث SSE
           invalidateProductionCache("all");
 
@@ -2580,30 +3713,261 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
-  async updateRoll(id: number, updates: Partial<Roll>): Promise<Roll> {
-    const [roll] = await db
-      .update(rolls)
-      .set(updates)
-      .where(eq(rolls.id, id))
-      .returning();
-    return roll;
-  }
-
-  async getMachines(): Promise<Machine[]> {
-    return await db.select().from(machines);
-  }
+  /**
+   * صرف المواد الخام (backflush) لرول جديد حسب وصفة الخلط المرتبطة بأمر الإنتاج
+   * الكمية = وزن الرول × نسبة المادة في الوصفة × (1 + نسبة الفاقد)
+   * يُصرف من مواقع المخزون الأعلى رصيداً أولاً، وأي نقص يُلغي إنشاء الرول
+   */
+  private async consumeRecipeMaterials(
+    tx: DbTransaction,
+    productionOrder: ProductionOrder,
+    roll: Roll,
+  ): Promise<void> {
+    if (!productionOrder.mixing_recipe_id) return;
 
-  async getMachineById(id: string): Promise<Machine | undefined> {
-    const [machine] = await db
+    const [recipe] = await tx
       .select()
-      .from(machines)
-      .where(eq(machines.id, id));
-    return machine || undefined;
-  }
-
-  async getCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers);
-  }
+      .from(mixing_recipes)
+      .where(eq(mixing_recipes.id, productionOrder.mixing_recipe_id));
+
+    // الإصدار المثبت على أمر الإنتاج له الأولوية على آخر إصدار للوصفة
+    let materialItems = recipe?.material_items || [];
+    let recipeLabel = recipe?.name_ar || recipe?.name;
+    if (productionOrder.mixing_recipe_version_id) {
+      const [version] = await tx
+        .select()
+        .from(mixing_recipe_versions)
+        .where(
+          eq(mixing_recipe_versions.id, productionOrder.mixing_recipe_version_id),
+        );
+      if (version) {
+        materialItems = version.material_items;
+        recipeLabel = `${recipeLabel} (الإصدار ${version.version})`;
+      }
+    }
+
+    if (!recipe) return;
+
+    const [settings] = await tx
+      .select({ material_scrap_percent: production_settings.material_scrap_percent })
+      .from(production_settings)
+      .limit(1);
+    const requirements = recipeMaterialRequirements(
+      materialItems,
+      parseFloat(roll.weight_kg),
+      parseFloat(settings?.material_scrap_percent || "0"),
+    );
+    if (requirements.size === 0) return;
+    const round2 = (value: number) => Math.round(value * 100) / 100;
+
+    const shortages: string[] = [];
+    const draws: { stock: Inventory; quantity: number }[] = [];
+
+    for (const [itemId, required] of Array.from(requirements)) {
+      const stockRows = await tx
+        .select()
+        .from(inventory)
+        .where(eq(inventory.item_id, itemId))
+        .orderBy(desc(inventory.current_stock))
+        .for("update");
+      const available = stockRows.reduce(
+        (total, row) => total + parseFloat(row.current_stock),
+        0,
+      );
+
+      if (available < required) {
+        const [item] = await tx
+          .select({ name: items.name, name_ar: items.name_ar })
+          .from(items)
+          .where(eq(items.id, itemId));
+        shortages.push(
+          `${item?.name_ar || item?.name || itemId} (المتاح: ${available.toFixed(2)}, المطلوب: ${required.toFixed(2)})`,
+        );
+        continue;
+      }
+
+      let remaining = required;
+      for (const stock of stockRows) {
+        if (remaining <= 0) break;
+        const quantity = round2(
+          Math.min(parseFloat(stock.current_stock), remaining),
+        );
+        if (quantity <= 0) continue;
+        draws.push({ stock, quantity });
+        remaining = round2(remaining - quantity);
+      }
+    }
+
+    if (shortages.length > 0) {
+      throw new DatabaseError(
+        `المخزون غير كافي لمواد وصفة الخلط ${recipeLabel}: ${shortages.join("، ")}`,
+        { code: "INVARIANT_C_VIOLATION" },
+      );
+    }
+
+    for (const { stock, quantity } of draws) {
+      await tx.insert(inventory_movements).values({
+        inventory_id: stock.id,
+        movement_type: "out",
+        quantity: numberToDecimalString(quantity, 2),
+        // total_cost يُترك فارغاً لأن قيد total_cost_logical يتطلب تطابقاً تاماً مع unit_cost × quantity
+        unit_cost: stock.cost_per_unit,
+        reference_number: roll.roll_number,
+        reference_type: "production",
+        notes: `صرف مواد خام للرول ${roll.roll_number} - وصفة ${recipeLabel}`,
+        created_by: roll.created_by,
+      });
+
+      await tx
+        .update(inventory)
+        .set({
+          current_stock: numberToDecimalString(
+            parseFloat(stock.current_stock) - quantity,
+            2,
+          ),
+          last_updated: new Date(),
+        })
+        .where(eq(inventory.id, stock.id));
+    }
+  }
+
+  /**
+   * عكس صرف المواد الخام لرول قبل حذفه: يُعاد صافي الكميات المصروفة لكل موقع مخزون
+   * الحركات العكسية تحمل نفس رقم المرجع، لذلك تكرار العكس لا يعيد الكمية مرتين
+   */
+  private async reverseRollConsumption(
+    tx: DbTransaction,
+    roll: Pick<Roll, "roll_number" | "created_by">,
+    reversedBy?: number,
+  ): Promise<void> {
+    const netConsumption = await tx
+      .select({
+        inventory_id: inventory_movements.inventory_id,
+        quantity: sql<string>`SUM(CASE WHEN ${inventory_movements.movement_type} = 'out' THEN ${inventory_movements.quantity} ELSE -${inventory_movements.quantity} END)`,
+      })
+      .from(inventory_movements)
+      .where(
+        and(
+          eq(inventory_movements.reference_type, "production"),
+          eq(inventory_movements.reference_number, roll.roll_number),
+          inArray(inventory_movements.movement_type, ["in", "out"]),
+        ),
+      )
+      .groupBy(inventory_movements.inventory_id);
+
+    for (const line of netConsumption) {
+      const quantity = parseFloat(line.quantity || "0");
+      if (quantity <= 0) continue;
+
+      const [stock] = await tx
+        .select()
+        .from(inventory)
+        .where(eq(inventory.id, line.inventory_id))
+        .for("update");
+      if (!stock) continue;
+
+      await tx.insert(inventory_movements).values({
+        inventory_id: stock.id,
+        movement_type: "in",
+        quantity: numberToDecimalString(quantity, 2),
+        unit_cost: stock.cost_per_unit,
+        reference_number: roll.roll_number,
+        reference_type: "production",
+        notes: `عكس صرف المواد الخام بعد حذف الرول ${roll.roll_number}`,
+        created_by: reversedBy ?? roll.created_by,
+      });
+
+      await tx
+        .update(inventory)
+        .set({
+          current_stock: numberToDecimalString(
+            parseFloat(stock.current_stock) + quantity,
+            2,
+          ),
+          last_updated: new Date(),
+        })
+        .where(eq(inventory.id, stock.id));
+    }
+  }
+
+  async deleteRoll(id: number, deletedBy: number): Promise<Roll | undefined> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const deleted = await db.transaction(async (tx) => {
+          const [roll] = await tx
+            .select()
+            .from(rolls)
+            .where(eq(rolls.id, id))
+            .for("update");
+          if (!roll) return undefined;
+
+          await this.reverseRollConsumption(tx, roll, deletedBy);
+
+          await tx.delete(cuts).where(eq(cuts.roll_id, id));
+          await tx
+            .delete(quality_checks)
+            .where(
+              and(
+                eq(quality_checks.target_type, "roll"),
+                eq(quality_checks.target_id, id),
+              ),
+            );
+          await tx.delete(rolls).where(eq(rolls.id, id));
+
+          return roll;
+        });
+
+        if (deleted) {
+          invalidateProductionCache("all");
+        }
+        return deleted;
+      },
+      "حذف الرول",
+      `الرول ${id}`,
+    );
+  }
+
+  async updateRoll(id: number, updates: Partial<Roll>): Promise<Roll> {
+    const [roll] = await db
+      .update(rolls)
+      .set(updates)
+      .where(eq(rolls.id, id))
+      .returning();
+    return roll;
+  }
+
+  async getMachines(): Promise<Machine[]> {
+    return await db.select().from(machines);
+  }
+
+  async getMachineById(id: string): Promise<Machine | undefined> {
+    const [machine] = await db
+      .select()
+      .from(machines)
+      .where(eq(machines.id, id));
+    return machine || undefined;
+  }
+
+  async getCustomers(scope?: DataScope): Promise<Customer[]> {
+    return await db
+      .select()
+      .from(customers)
+      .where(scopedCustomerCondition(scope));
+  }
+
+  /**
+   * هل يقع العميل ضمن نطاق بيانات المستخدم الحالي (حسب مندوب المبيعات)
+   */
+  async isCustomerInScope(id: string, scope?: DataScope): Promise<boolean> {
+    const condition = scopedCustomerCondition(scope);
+    if (!condition) return true;
+
+    const [match] = await db
+      .select({ id: customers.id })
+      .from(customers)
+      .where(and(eq(customers.id, id), condition));
+    return !!match;
+  }
 
   // Customer Products - replaced the old Products table
 
@@ -2672,3755 +4036,6144 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async getQualityChecks(): Promise<QualityCheck[]> {
-    return await db
-      .select()
-      .from(quality_checks)
-      .orderBy(desc(quality_checks.created_at));
-  }
-
-  async getUsers(): Promise<User[]> {
-    // DEPRECATED: This method returns sensitive data including passwords
-    // Use getSafeUsers() instead for client-facing operations
-    return await db.select().from(users);
-  }
-
-  async getRoles(): Promise<Role[]> {
-    return await db.select().from(roles);
-  }
-
-  async createRole(roleData: any): Promise<Role> {
-    try {
-      const [role] = await db
-        .insert(roles)
-        .values({
-          name: roleData.name,
-          name_ar: roleData.name_ar,
-          permissions: roleData.permissions || [],
-        })
-        .returning();
-      return role;
-    } catch (error) {
-      console.error("Error creating role:", error);
-      throw new Error("فشل في إنشاء الدور");
-    }
-  }
+  async getQualityChecks(
+    filters: { result?: string; rollId?: number } = {},
+  ): Promise<QualityCheckSummary[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const conditions = [];
+        if (filters.result) {
+          conditions.push(eq(quality_checks.result, filters.result));
+        }
+        if (filters.rollId) {
+          conditions.push(
+            and(
+              eq(quality_checks.target_type, "roll"),
+              eq(quality_checks.target_id, filters.rollId),
+            ),
+          );
+        }
 
-  async updateRole(id: number, roleData: any): Promise<Role> {
-    try {
-      const [role] = await db
-        .update(roles)
-        .set({
-          name: roleData.name,
-          name_ar: roleData.name_ar,
-          permissions: roleData.permissions,
-        })
-        .where(eq(roles.id, id))
-        .returning();
-      return role;
-    } catch (error) {
-      console.error("Error updating role:", error);
-      throw new Error("فشل في تحديث الدور");
-    }
-  }
+        const checkedByUser = alias(users, "checked_by_user");
+        const disposedByUser = alias(users, "disposed_by_user");
 
-  async deleteRole(id: number): Promise<void> {
-    try {
-      await db.delete(roles).where(eq(roles.id, id));
-    } catch (error) {
-      console.error("Error deleting role:", error);
-      throw new Error("فشل في حذف الدور");
-    }
+        return await db
+          .select({
+            ...getTableColumns(quality_checks),
+            roll_number: rolls.roll_number,
+            roll_qa_status: rolls.qa_status,
+            checked_by_name: sql<string | null>`COALESCE(${checkedByUser.display_name_ar}, ${checkedByUser.display_name}, ${checkedByUser.username})`,
+            disposed_by_name: sql<string | null>`COALESCE(${disposedByUser.display_name_ar}, ${disposedByUser.display_name}, ${disposedByUser.username})`,
+            defects_count: sql<number>`(SELECT COUNT(*) FROM quality_check_defects d WHERE d.check_id = ${quality_checks.id})::int`,
+            out_of_tolerance_count: sql<number>`(SELECT COUNT(*) FROM quality_check_measurements m WHERE m.check_id = ${quality_checks.id} AND NOT m.is_within_tolerance)::int`,
+          })
+          .from(quality_checks)
+          .leftJoin(
+            rolls,
+            and(
+              eq(quality_checks.target_type, "roll"),
+              eq(quality_checks.target_id, rolls.id),
+            ),
+          )
+          .leftJoin(checkedByUser, eq(quality_checks.checked_by, checkedByUser.id))
+          .leftJoin(
+            disposedByUser,
+            eq(quality_checks.disposed_by, disposedByUser.id),
+          )
+          .where(conditions.length > 0 ? and(...conditions) : undefined)
+          .orderBy(desc(quality_checks.created_at))
+          .limit(500);
+      },
+      "جلب فحوصات الجودة",
+    );
   }
 
-  // Replaced by createCustomerProduct
-
-  async createCustomer(customer: any): Promise<Customer> {
-    return await withDatabaseErrorHandling(
+  async getQualityCheckDetails(
+    id: number,
+  ): Promise<QualityCheckDetails | undefined> {
+    return withDatabaseErrorHandling(
       async () => {
-        // STEP 0: MANDATORY DATAVALIDATOR INTEGRATION - Validate BEFORE database write
-        const dataValidator = getDataValidator(this);
-        const validationResult = await dataValidator.validateEntity(
-          "customers",
-          customer,
-          false,
-        );
-
-        if (!validationResult.isValid) {
-          console.error(
-            "[Storage] ❌ CUSTOMER VALIDATION FAILED:",
-            validationResult.errors,
-          );
-          throw new DatabaseError(
-            `فشل التحقق من صحة بيانات العميل: ${validationResult.errors.map((e) => e.message_ar).join(", ")}`,
-            {
-              code: "VALIDATION_FAILED",
-              validationErrors: validationResult.errors,
-            },
-          );
-        }
+        const checkedByUser = alias(users, "checked_by_user");
+        const disposedByUser = alias(users, "disposed_by_user");
 
-        console.log(
-          "[Storage] ✅ Customer validation passed, proceeding with database write",
-        );
+        const [check] = await db
+          .select({
+            ...getTableColumns(quality_checks),
+            roll_number: rolls.roll_number,
+            roll_qa_status: rolls.qa_status,
+            checked_by_name: sql<string | null>`COALESCE(${checkedByUser.display_name_ar}, ${checkedByUser.display_name}, ${checkedByUser.username})`,
+            disposed_by_name: sql<string | null>`COALESCE(${disposedByUser.display_name_ar}, ${disposedByUser.display_name}, ${disposedByUser.username})`,
+          })
+          .from(quality_checks)
+          .leftJoin(
+            rolls,
+            and(
+              eq(quality_checks.target_type, "roll"),
+              eq(quality_checks.target_id, rolls.id),
+            ),
+          )
+          .leftJoin(checkedByUser, eq(quality_checks.checked_by, checkedByUser.id))
+          .leftJoin(
+            disposedByUser,
+            eq(quality_checks.disposed_by, disposedByUser.id),
+          )
+          .where(eq(quality_checks.id, id));
 
-        // Generate a new customer ID in format CID001, CID002, etc.
-        const existingCustomers = await db
-          .select({ id: customers.id })
-          .from(customers);
-        const customerIds = existingCustomers.map((c) => c.id);
-        const maxNumber = customerIds
-          .filter((id) => id.startsWith("CID"))
-          .map((id) => parseInt(id.substring(3)))
-          .filter((num) => !isNaN(num))
-          .reduce((max, num) => Math.max(max, num), 0);
+        if (!check) return undefined;
 
-        const newId = `CID${String(maxNumber + 1).padStart(3, "0")}`;
+        const measurements = await db
+          .select()
+          .from(quality_check_measurements)
+          .where(eq(quality_check_measurements.check_id, id))
+          .orderBy(quality_check_measurements.id);
 
-        const [newCustomer] = await db
-          .insert(customers)
-          .values({
-            ...customer,
-            id: newId,
+        const defects = await db
+          .select({
+            ...getTableColumns(quality_check_defects),
+            defect_name_ar: quality_defect_types.name_ar,
+            severity: quality_defect_types.severity,
           })
-          .returning();
-        return newCustomer;
+          .from(quality_check_defects)
+          .innerJoin(
+            quality_defect_types,
+            eq(quality_check_defects.defect_type_id, quality_defect_types.id),
+          )
+          .where(eq(quality_check_defects.check_id, id))
+          .orderBy(quality_check_defects.id);
+
+        return {
+          ...check,
+          defects_count: defects.length,
+          out_of_tolerance_count: measurements.filter(
+            (measurement) => !measurement.is_within_tolerance,
+          ).length,
+          measurements,
+          defects,
+        };
       },
-      "إنشاء عميل جديد",
-      `العميل: ${customer.name}`,
+      "جلب تفاصيل فحص الجودة",
+      `الفحص ${id}`,
     );
   }
 
-  async updateCustomer(id: string, updates: any): Promise<Customer> {
-    const [updatedCustomer] = await db
-      .update(customers)
-      .set(updates)
-      .where(eq(customers.id, id))
-      .returning();
-    return updatedCustomer;
-  }
+  async createQualityCheck(
+    checkData: InsertQualityCheck,
+    checkedBy: number,
+  ): Promise<QualityCheckDetails> {
+    const checkId = await db.transaction(async (tx) => {
+      const [roll] = await tx
+        .select()
+        .from(rolls)
+        .where(eq(rolls.id, checkData.roll_id))
+        .for("update");
 
-  async createMachine(machine: any): Promise<Machine> {
-    return await withDatabaseErrorHandling(
-      async () => {
-        // STEP 0: MANDATORY DATAVALIDATOR INTEGRATION - Validate BEFORE database write
-        const dataValidator = getDataValidator(this);
-        const validationResult = await dataValidator.validateEntity(
-          "machines",
-          machine,
-          false,
+      if (!roll) {
+        throw new Error("الرول غير موجود");
+      }
+      if (roll.qa_status === "scrapped") {
+        throw new Error("لا يمكن فحص رول تم إتلافه");
+      }
+
+      const [productionOrder] = await tx
+        .select({ customer_product_id: production_orders.customer_product_id })
+        .from(production_orders)
+        .where(eq(production_orders.id, roll.production_order_id));
+      const [product] = productionOrder?.customer_product_id
+        ? await tx
+            .select()
+            .from(customer_products)
+            .where(eq(customer_products.id, productionOrder.customer_product_id))
+        : [];
+
+      // الخطة المحددة أو الخطة المفعلة لمنتج الرول في مرحلة الفحص
+      const [plan] = await tx
+        .select()
+        .from(quality_inspection_plans)
+        .where(
+          checkData.plan_id
+            ? eq(quality_inspection_plans.id, checkData.plan_id)
+            : and(
+                eq(
+                  quality_inspection_plans.customer_product_id,
+                  product?.id ?? 0,
+                ),
+                eq(quality_inspection_plans.stage, checkData.stage),
+                eq(quality_inspection_plans.is_active, true),
+              ),
         );
 
-        if (!validationResult.isValid) {
-          console.error(
-            "[Storage] ❌ MACHINE VALIDATION FAILED:",
-            validationResult.errors,
-          );
-          throw new DatabaseError(
-            `فشل التحقق من صحة بيانات الماكينة: ${validationResult.errors.map((e) => e.message_ar).join(", ")}`,
-            {
-              code: "VALIDATION_FAILED",
-              validationErrors: validationResult.errors,
-            },
-          );
-        }
+      if (checkData.plan_id && (!plan || plan.customer_product_id !== product?.id)) {
+        throw new Error("خطة الفحص لا تخص منتج هذا الرول");
+      }
 
-        console.log(
-          "[Storage] ✅ Machine validation passed, proceeding with database write",
+      const planItems = plan
+        ? (
+            await tx
+              .select()
+              .from(quality_plan_items)
+              .where(eq(quality_plan_items.plan_id, plan.id))
+          ).map((item) => resolvePlanItemLimits(item, product ?? null))
+        : [];
+
+      const missingItems = planItems.filter(
+        (item) =>
+          item.is_required &&
+          !checkData.measurements.some(
+            (measurement) => measurement.plan_item_id === item.id,
+          ),
+      );
+      if (missingItems.length > 0) {
+        throw new Error(
+          `يجب إدخال جميع القياسات المطلوبة في خطة الفحص: ${missingItems
+            .map((item) => item.name_ar)
+            .join("، ")}`,
         );
+      }
 
-        const [newMachine] = await db
-          .insert(machines)
-          .values(machine)
-          .returning();
-        return newMachine;
-      },
-      "إنشاء ماكينة جديدة",
-      `الماكينة: ${machine.name}`,
-    );
-  }
+      const measurements = checkData.measurements.map((measurement) => {
+        const item = planItems.find(
+          (planItem) => planItem.id === measurement.plan_item_id,
+        );
+        const minValue = item?.min_value ?? null;
+        const maxValue = item?.max_value ?? null;
+        return {
+          plan_item_id: item?.id ?? null,
+          name_ar: item?.name_ar ?? measurement.name_ar,
+          unit: item?.unit ?? measurement.unit ?? null,
+          measured_value: measurement.measured_value.toFixed(3),
+          min_value: minValue !== null ? minValue.toFixed(3) : null,
+          max_value: maxValue !== null ? maxValue.toFixed(3) : null,
+          is_required: item?.is_required ?? false,
+          is_within_tolerance:
+            (minValue === null || measurement.measured_value >= minValue) &&
+            (maxValue === null || measurement.measured_value <= maxValue),
+        };
+      });
 
-  async updateMachine(id: string, updates: any): Promise<Machine> {
-    const [updatedMachine] = await db
-      .update(machines)
-      .set(updates)
-      .where(eq(machines.id, id))
-      .returning();
-    return updatedMachine;
-  }
+      const defectTypeIds = Array.from(
+        new Set(checkData.defects.map((defect) => defect.defect_type_id)),
+      );
+      const defectTypes =
+        defectTypeIds.length > 0
+          ? await tx
+              .select()
+              .from(quality_defect_types)
+              .where(inArray(quality_defect_types.id, defectTypeIds))
+          : [];
+      for (const defectTypeId of defectTypeIds) {
+        const defectType = defectTypes.find((type) => type.id === defectTypeId);
+        if (!defectType || !defectType.is_active) {
+          throw new Error("نوع العيب غير موجود أو غير مفعل");
+        }
+      }
 
-  async createSection(section: any): Promise<Section> {
-    const [newSection] = await db.insert(sections).values(section).returning();
-    return newSection;
-  }
+      // راسب: قياس مطلوب خارج التفاوت أو عيب رئيسي/حرج أو رسوب يدوي
+      // تحذير: قياس اختياري خارج التفاوت أو عيوب بسيطة فقط
+      const severities = defectTypes.map((type) => type.severity);
+      const result =
+        checkData.force_fail ||
+        measurements.some((m) => m.is_required && !m.is_within_tolerance) ||
+        severities.some((severity) => severity !== "minor")
+          ? "fail"
+          : measurements.some((m) => !m.is_within_tolerance) ||
+              severities.length > 0
+            ? "warning"
+            : "pass";
+
+      const [check] = await tx
+        .insert(quality_checks)
+        .values({
+          target_type: "roll",
+          target_id: roll.id,
+          plan_id: plan?.id ?? null,
+          stage: checkData.stage,
+          result,
+          score: checkData.score ?? null,
+          notes: checkData.notes ?? null,
+          checked_by: checkedBy,
+        })
+        .returning();
 
-  async updateSection(id: string, updates: any): Promise<Section> {
-    const [updatedSection] = await db
-      .update(sections)
-      .set(updates)
-      .where(eq(sections.id, id))
-      .returning();
-    return updatedSection;
-  }
+      if (measurements.length > 0) {
+        await tx.insert(quality_check_measurements).values(
+          measurements.map((measurement) => ({
+            ...measurement,
+            check_id: check.id,
+          })),
+        );
+      }
 
-  async updateUser(id: number, updates: any): Promise<User> {
-    // Hash password if it's being updated
-    if (updates.password) {
-      const saltRounds = 12;
-      updates.password = await bcrypt.hash(updates.password, saltRounds);
-    }
+      if (checkData.defects.length > 0) {
+        await tx.insert(quality_check_defects).values(
+          checkData.defects.map((defect) => ({
+            check_id: check.id,
+            defect_type_id: defect.defect_type_id,
+            notes: defect.notes ?? null,
+            photos: defect.photos,
+          })),
+        );
+      }
 
-    const [updatedUser] = await db
-      .update(users)
-      .set(updates)
-      .where(eq(users.id, id))
-      .returning();
-    return updatedUser;
-  }
+      // الفحص الراسب يوقف الرول، والفحص الناجح بعد إعادة التشغيل يعيده للحالة الطبيعية
+      if (result === "fail" && roll.qa_status !== "hold") {
+        await tx
+          .update(rolls)
+          .set({ qa_status: "hold" })
+          .where(eq(rolls.id, roll.id));
+      } else if (result !== "fail" && roll.qa_status === "rework") {
+        await tx
+          .update(rolls)
+          .set({ qa_status: "ok" })
+          .where(eq(rolls.id, roll.id));
+      }
 
-  async createItem(item: any): Promise<Item> {
-    const [newItem] = await db.insert(items).values(item).returning();
-    return newItem;
-  }
+      return check.id;
+    });
 
-  async updateItem(id: string, updates: any): Promise<Item> {
-    const [updatedItem] = await db
-      .update(items)
-      .set(updates)
-      .where(eq(items.id, id))
-      .returning();
-    return updatedItem;
-  }
+    invalidateProductionCache("all");
 
-  async createCustomerProduct(customerProduct: any): Promise<CustomerProduct> {
-    const [newCustomerProduct] = await db
-      .insert(customer_products)
-      .values(customerProduct)
-      .returning();
-    return newCustomerProduct;
+    const details = await this.getQualityCheckDetails(checkId);
+    if (!details) {
+      throw new Error("فشل في جلب فحص الجودة بعد إنشائه");
+    }
+    return details;
   }
 
-  async updateCustomerProduct(
+  async disposeQualityCheck(
     id: number,
-    updates: any,
-  ): Promise<CustomerProduct> {
-    const [updatedCustomerProduct] = await db
-      .update(customer_products)
-      .set(updates)
-      .where(eq(customer_products.id, id))
-      .returning();
-    return updatedCustomerProduct;
-  }
+    dispositionData: QualityDisposition,
+    disposedBy: number,
+  ): Promise<QualityCheck> {
+    const disposed = await db.transaction(async (tx) => {
+      const [check] = await tx
+        .select()
+        .from(quality_checks)
+        .where(eq(quality_checks.id, id))
+        .for("update");
 
-  async createLocation(location: any): Promise<Location> {
-    const [newLocation] = await db
-      .insert(locations)
-      .values(location)
-      .returning();
-    return newLocation;
-  }
+      if (!check) {
+        throw new Error("فحص الجودة غير موجود");
+      }
+      if (check.result !== "fail") {
+        throw new Error("لا يمكن اتخاذ قرار جودة على فحص غير راسب");
+      }
+      if (check.disposition) {
+        throw new Error("تم اتخاذ قرار الجودة على هذا الفحص مسبقاً");
+      }
+      if (check.target_type !== "roll" || !check.target_id) {
+        throw new Error("قرار الجودة متاح لفحوصات الرولات فقط");
+      }
 
-  async updateLocation(id: string, updates: any): Promise<Location> {
-    const [updatedLocation] = await db
-      .update(locations)
-      .set(updates)
-      .where(eq(locations.id, id))
-      .returning();
-    return updatedLocation;
-  }
+      const [roll] = await tx
+        .select()
+        .from(rolls)
+        .where(eq(rolls.id, check.target_id))
+        .for("update");
 
-  async getSections(): Promise<Section[]> {
-    return await db.select().from(sections);
-  }
+      if (!roll) {
+        throw new Error("الرول غير موجود");
+      }
+      if (roll.qa_status !== "hold") {
+        throw new Error("الرول ليس موقوفاً من قبل الجودة");
+      }
 
-  // ============ Production Monitoring Analytics ============
+      if (dispositionData.disposition === "scrap") {
+        if (!dispositionData.waste_reason_id) {
+          throw new Error("يجب تحديد سبب الهدر عند إتلاف الرول");
+        }
 
-  async getUserPerformanceStats(
-    userId?: number,
-    dateFrom?: string,
-    dateTo?: string,
-  ): Promise<any> {
-    return await withDatabaseErrorHandling(
-      async () => {
-        const dateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '7 days'`;
+        // الوزن الذي لم يُقص بعد يُسجل هدراً في مرحلة الرول الحالية
+        const wasteStage = roll.stage === "done" ? "cutting" : roll.stage;
+        const reason = await this.resolveWasteReason(
+          tx,
+          dispositionData.waste_reason_id,
+          wasteStage,
+        );
+        const previousWaste = normalizeDecimal(roll.waste_kg);
+        const remainingWeight = Math.max(
+          normalizeDecimal(roll.weight_kg) -
+            normalizeDecimal(roll.cut_weight_total_kg) -
+            previousWaste,
+          0,
+        );
+        const stageMachine: Record<string, string | null> = {
+          film: roll.film_machine_id,
+          printing: roll.printing_machine_id,
+          cutting: roll.cutting_machine_id,
+        };
 
-        let query = db
-          .select({
-            user_id: users.id,
-            username: users.username,
-            display_name_ar: users.display_name_ar,
-            role_name: sql<string>`COALESCE(roles.name_ar, roles.name)`,
-            section_name: sql<string>`COALESCE(sections.name_ar, sections.name)`,
-            rolls_created: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.created_by} = ${users.id} THEN ${rolls.id} END)`,
-            rolls_printed: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.printed_by} = ${users.id} THEN ${rolls.id} END)`,
-            rolls_cut: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.cut_by} = ${users.id} THEN ${rolls.id} END)`,
-            total_weight_kg: sql<number>`COALESCE(SUM(CASE WHEN ${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id} THEN ${rolls.weight_kg} END), 0)`,
-            avg_roll_weight: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id} THEN ${rolls.weight_kg} END), 0)`,
-            hours_worked: sql<number>`COUNT(DISTINCT DATE(${rolls.created_at})) * 8`,
-            efficiency_score: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id} THEN 95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100) END), 90)`,
+        if (remainingWeight > 0) {
+          await tx.insert(waste).values({
+            roll_id: roll.id,
+            production_order_id: roll.production_order_id,
+            quantity_wasted: numberToDecimalString(remainingWeight, 2),
+            reason_id: reason.id,
+            reason: reason.name_ar,
+            stage: wasteStage,
+            machine_id: stageMachine[wasteStage] ?? null,
+            recorded_by: disposedBy,
+          });
+        }
+
+        await tx
+          .update(rolls)
+          .set({
+            qa_status: "scrapped",
+            waste_kg: numberToDecimalString(previousWaste + remainingWeight, 3),
+            stage: "done",
+            completed_at: roll.completed_at ?? new Date(),
           })
-          .from(users)
-          .leftJoin(roles, eq(users.role_id, roles.id))
-          .leftJoin(sections, eq(users.section_id, sections.id))
-          .leftJoin(
-            rolls,
-            sql`(${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id}) AND ${dateFilter}`,
-          )
-          .groupBy(
-            users.id,
-            users.username,
-            users.display_name_ar,
-            roles.name,
-            roles.name_ar,
-            sections.name,
-            sections.name_ar,
-          )
-;
+          .where(eq(rolls.id, roll.id));
 
-        if (userId) {
-          query = query.where(eq(users.id, userId)) as any;
-        }
+        await this.updateCuttingProgress(tx, roll.production_order_id);
+      } else {
+        await tx
+          .update(rolls)
+          .set({
+            qa_status:
+              dispositionData.disposition === "release" ? "ok" : "rework",
+          })
+          .where(eq(rolls.id, roll.id));
+      }
 
-        return await query;
+      const [updatedCheck] = await tx
+        .update(quality_checks)
+        .set({
+          disposition: dispositionData.disposition,
+          disposition_notes: dispositionData.notes ?? null,
+          disposed_by: disposedBy,
+          disposed_at: new Date(),
+        })
+        .where(eq(quality_checks.id, id))
+        .returning();
+
+      return updatedCheck;
+    });
+
+    invalidateProductionCache("all");
+    return disposed;
+  }
+
+  async getHeldRolls(): Promise<HeldRoll[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const result = await db.execute(sql`
+          SELECT
+            r.id,
+            r.roll_number,
+            r.stage,
+            r.qa_status,
+            r.weight_kg,
+            GREATEST(r.weight_kg - r.cut_weight_total_kg - r.waste_kg, 0)::decimal(12, 3)::text AS remaining_kg,
+            po.production_order_number,
+            o.order_number,
+            COALESCE(c.name_ar, c.name) AS customer_name_ar,
+            qc.id AS check_id,
+            qc.result AS check_result,
+            qc.notes AS check_notes,
+            qc.created_at AS checked_at
+          FROM rolls r
+          JOIN production_orders po ON po.id = r.production_order_id
+          LEFT JOIN orders o ON o.id = po.order_id
+          LEFT JOIN customers c ON c.id = o.customer_id
+          LEFT JOIN LATERAL (
+            SELECT id, result, notes, created_at
+            FROM quality_checks
+            WHERE target_type = 'roll' AND target_id = r.id
+            ORDER BY created_at DESC
+            LIMIT 1
+          ) qc ON TRUE
+          WHERE r.qa_status IN ('hold', 'rework')
+          ORDER BY qc.created_at DESC NULLS LAST
+        `);
+        return result.rows as unknown as HeldRoll[];
       },
-      "getUserPerformanceStats",
-      userId ? `للمستخدم ${userId}` : "لجميع المستخدمين",
+      "جلب الرولات الموقوفة",
     );
   }
 
-  async getRolePerformanceStats(
-    dateFrom?: string,
-    dateTo?: string,
-  ): Promise<any> {
-    return await withDatabaseErrorHandling(
+  async getRollInspectionPlan(
+    rollRef: number | string,
+    stage?: string,
+  ): Promise<RollInspectionPlan | undefined> {
+    return withDatabaseErrorHandling(
       async () => {
-        const dateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '7 days'`;
-
-        const roleStats = await db
+        const [row] = await db
           .select({
-            role_id: roles.id,
-            role_name: sql<string>`COALESCE(roles.name_ar, roles.name)`,
-            user_count: sql<number>`COUNT(DISTINCT ${users.id})`,
-            total_production_orders: sql<number>`COUNT(DISTINCT ${production_orders.id})`,
-            total_rolls: sql<number>`COUNT(DISTINCT ${rolls.id})`,
-            total_weight_kg: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
-            avg_order_completion_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
-            quality_score: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
-            on_time_delivery_rate: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.completed_at} IS NOT NULL THEN 100 ELSE 0 END), 80)`,
+            roll: {
+              id: rolls.id,
+              roll_number: rolls.roll_number,
+              stage: rolls.stage,
+              qa_status: rolls.qa_status,
+            },
+            customer_product_id: production_orders.customer_product_id,
           })
-          .from(roles)
-          .leftJoin(users, eq(roles.id, users.role_id))
-          .leftJoin(
-            rolls,
-            sql`(${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id}) AND ${dateFilter}`,
+          .from(rolls)
+          .innerJoin(
+            production_orders,
+            eq(rolls.production_order_id, production_orders.id),
           )
-          .leftJoin(production_orders, eq(rolls.production_order_id, production_orders.id))
-          .groupBy(roles.id, roles.name, roles.name_ar)
-;
+          .where(
+            typeof rollRef === "number"
+              ? eq(rolls.id, rollRef)
+              : eq(rolls.roll_number, rollRef),
+          );
 
-        return roleStats;
-      },
-      "getRolePerformanceStats",
-      "أداء الأدوار",
-    );
-  }
+        if (!row) return undefined;
 
-  async getRealTimeProductionStats(): Promise<any> {
-    return await withDatabaseErrorHandling(
-      async () => {
-        const now = new Date();
-        const todayStart = new Date(
-          now.getFullYear(),
-          now.getMonth(),
-          now.getDate(),
-        );
+        // المرحلة الافتراضية هي مرحلة الرول الحالية، والرول المكتمل يُفحص كمرحلة تقطيع
+        const inspectionStage =
+          stage || (row.roll.stage === "done" ? "cutting" : row.roll.stage);
 
-        const [currentStats, machineStatus, queueStats] = await Promise.all([
-          // إحصائيات اليوم الحالي
-          db
-            .select({
-              daily_rolls: sql<number>`COUNT(DISTINCT ${rolls.id})`,
-              daily_weight: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
-              active_orders: sql<number>`COUNT(DISTINCT CASE WHEN ${orders.status} IN ('in_production', 'waiting') THEN ${orders.id} END)`,
-              completed_today: sql<number>`COUNT(DISTINCT CASE WHEN DATE(${rolls.completed_at}) = CURRENT_DATE THEN ${rolls.id} END)`,
-              current_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
-              avg_efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
-            })
-            .from(rolls)
-            .leftJoin(
-              production_orders,
-              eq(rolls.production_order_id, production_orders.id),
-            )
-            .leftJoin(orders, eq(production_orders.order_id, orders.id))
-            .where(sql`DATE(${rolls.created_at}) = CURRENT_DATE`),
+        const [product] = await db
+          .select()
+          .from(customer_products)
+          .where(eq(customer_products.id, row.customer_product_id));
 
-          // حالة المكائن
-          db
-            .select({
-              machine_id: machines.id,
-              machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
-              status: machines.status,
-              current_rolls: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} != 'done' THEN ${rolls.id} END)`,
-            })
-            .from(machines)
-            .leftJoin(rolls, eq(machines.id, rolls.machine_id))
-            .groupBy(
-              machines.id,
-              machines.name,
-              machines.name_ar,
-              machines.status,
+        const [plan] = await db
+          .select()
+          .from(quality_inspection_plans)
+          .where(
+            and(
+              eq(
+                quality_inspection_plans.customer_product_id,
+                row.customer_product_id,
+              ),
+              eq(quality_inspection_plans.stage, inspectionStage),
+              eq(quality_inspection_plans.is_active, true),
             ),
+          );
 
-          // إحصائيات الطوابير
-          db
-            .select({
-              film_queue: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} = 'film' THEN ${rolls.id} END)`,
-              printing_queue: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} = 'printing' THEN ${rolls.id} END)`,
-              cutting_queue: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} = 'cutting' THEN ${rolls.id} END)`,
-              pending_orders: sql<number>`COUNT(DISTINCT CASE WHEN ${production_orders.status} = 'pending' THEN ${production_orders.id} END)`,
-            })
-            .from(production_orders)
-            .leftJoin(
-              rolls,
-              eq(production_orders.id, rolls.production_order_id),
-            ),
-        ]);
+        const items = plan
+          ? await db
+              .select()
+              .from(quality_plan_items)
+              .where(eq(quality_plan_items.plan_id, plan.id))
+              .orderBy(quality_plan_items.sort_order, quality_plan_items.id)
+          : [];
 
         return {
-          currentStats: currentStats[0] || {
-            daily_rolls: 0,
-            daily_weight: 0,
-            active_orders: 0,
-            completed_today: 0,
-            current_waste: 0,
-            avg_efficiency: 90,
-          },
-          machineStatus: machineStatus || [],
-          queueStats: queueStats[0] || {
-            film_queue: 0,
-            printing_queue: 0,
-            cutting_queue: 0,
-            pending_orders: 0,
-          },
-          lastUpdated: now.toISOString(),
+          roll: row.roll,
+          stage: inspectionStage,
+          customer_product_id: row.customer_product_id,
+          plan: plan ?? null,
+          items: items.map((item) => resolvePlanItemLimits(item, product ?? null)),
         };
       },
-      "getRealTimeProductionStats",
-      "الإحصائيات الفورية",
+      "جلب خطة فحص الرول",
+      `الرول ${rollRef}`,
     );
   }
 
-  async getProductionEfficiencyMetrics(
-    dateFrom?: string,
-    dateTo?: string,
-  ): Promise<any> {
-    return await withDatabaseErrorHandling(
+  async getInspectionPlans(
+    filters: { customerProductId?: number } = {},
+  ): Promise<QualityInspectionPlanWithItems[]> {
+    return withDatabaseErrorHandling(
       async () => {
-        const dateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
+        const plans = await db
+          .select({
+            ...getTableColumns(quality_inspection_plans),
+            customer_product_label: sql<string | null>`CONCAT_WS(' - ', COALESCE(${customers.name_ar}, ${customers.name}), ${customer_products.size_caption})`,
+          })
+          .from(quality_inspection_plans)
+          .leftJoin(
+            customer_products,
+            eq(quality_inspection_plans.customer_product_id, customer_products.id),
+          )
+          .leftJoin(customers, eq(customer_products.customer_id, customers.id))
+          .where(
+            filters.customerProductId
+              ? eq(
+                  quality_inspection_plans.customer_product_id,
+                  filters.customerProductId,
+                )
+              : undefined,
+          )
+          .orderBy(desc(quality_inspection_plans.created_at));
 
-        const [efficiencyMetrics, trendData] = await Promise.all([
-          // مؤشرات الكفاءة العامة
-          db
-            .select({
-              total_production: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
-              total_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
-              waste_percentage: sql<number>`COALESCE((SUM(${rolls.waste_kg})::decimal / NULLIF(SUM(${rolls.weight_kg}), 0)) * 100, 0)`,
-              avg_roll_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
-              machine_utilization: sql<number>`COALESCE(COUNT(DISTINCT ${rolls.machine_id})::decimal / NULLIF((SELECT COUNT(*) FROM ${machines}), 0) * 100, 0)`,
-              quality_score: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
-              on_time_completion: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.completed_at} IS NOT NULL THEN 100 ELSE 0 END), 80)`,
-            })
-            .from(rolls)
-            .where(dateFilter),
+        if (plans.length === 0) return [];
 
-          // بيانات الاتجاه اليومي
-          db
-            .select({
-              date: sql<string>`DATE(${rolls.created_at})`,
-              daily_production: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
-              daily_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
-              daily_rolls: sql<number>`COUNT(${rolls.id})`,
-              daily_efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
-            })
-            .from(rolls)
-            .where(dateFilter)
-            .groupBy(sql`DATE(${rolls.created_at})`)
-            .orderBy(sql`DATE(${rolls.created_at}) DESC`)
-            .limit(30),
-        ]);
+        const items = await db
+          .select()
+          .from(quality_plan_items)
+          .where(
+            inArray(
+              quality_plan_items.plan_id,
+              plans.map((plan) => plan.id),
+            ),
+          )
+          .orderBy(quality_plan_items.sort_order, quality_plan_items.id);
 
-        return {
-          efficiency: efficiencyMetrics[0] || {
-            total_production: 0,
-            total_waste: 0,
-            waste_percentage: 0,
-            avg_roll_time: 0,
-            machine_utilization: 0,
-            quality_score: 90,
-            on_time_completion: 80,
-          },
-          trends: trendData || [],
-        };
+        return plans.map((plan) => ({
+          ...plan,
+          items: items.filter((item) => item.plan_id === plan.id),
+        }));
       },
-      "getProductionEfficiencyMetrics",
-      "مؤشرات الكفاءة",
+      "جلب خطط الفحص",
     );
   }
 
-  async getProductionAlerts(): Promise<any> {
-    return await withDatabaseErrorHandling(
-      async () => {
-        const alerts = [];
+  async createInspectionPlan(
+    planData: InsertQualityInspectionPlan,
+    createdBy: number,
+  ): Promise<QualityInspectionPlanWithItems> {
+    return await db.transaction(async (tx) => {
+      const { items, ...plan } = planData;
+      await this.assertSingleActivePlan(tx, plan);
 
-        // تحقق من الطلبات المتأخرة
-        const overdueOrders = await db
-          .select({
-            order_id: orders.id,
-            order_number: orders.order_number,
-            customer_name: customers.name_ar,
-            delivery_date: orders.delivery_date,
-            days_overdue: sql<number>`(CURRENT_DATE - ${orders.delivery_date})::int`,
-          })
-          .from(orders)
-          .leftJoin(customers, eq(orders.customer_id, customers.id))
-          .where(
-            and(
-              sql`${orders.delivery_date} < CURRENT_DATE`,
-              sql`${orders.status} NOT IN ('completed', 'cancelled')`,
-            ),
-          )
-          .limit(10);
+      const [created] = await tx
+        .insert(quality_inspection_plans)
+        .values({ ...plan, created_by: createdBy })
+        .returning();
 
-        // تحقق من المكائن المعطلة
-        const downMachines = await db
-          .select({
-            machine_id: machines.id,
-            machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
-            status: machines.status,
-          })
-          .from(machines)
-          .where(eq(machines.status, "down"));
+      const createdItems = await this.insertPlanItems(tx, created.id, items);
+      return { ...created, items: createdItems };
+    });
+  }
 
-        // تحقق من الهدر العالي
-        const highWasteRolls = await db
-          .select({
-            roll_id: rolls.id,
-            roll_number: rolls.roll_number,
-            waste_percentage: sql<number>`(${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100`,
-            machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
-          })
-          .from(rolls)
-          .leftJoin(machines, eq(rolls.machine_id, machines.id))
-          .where(
-            sql`(${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 10`,
-          )
-          .orderBy(
-            sql`(${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 DESC`,
-          )
-          .limit(5);
+  async updateInspectionPlan(
+    id: number,
+    planData: InsertQualityInspectionPlan,
+  ): Promise<QualityInspectionPlanWithItems | undefined> {
+    return await db.transaction(async (tx) => {
+      const { items, ...plan } = planData;
+      await this.assertSingleActivePlan(tx, plan, id);
 
-        // إضافة التنبيهات
-        if (overdueOrders.length > 0) {
-          alerts.push({
-            type: "warning",
-            category: "overdue_orders",
-            title: "طلبات متأخرة",
-            message: `يوجد ${overdueOrders.length} طلب متأخر عن موعد التسليم`,
-            data: overdueOrders,
-            priority: "high",
-          });
-        }
+      const [updated] = await tx
+        .update(quality_inspection_plans)
+        .set(plan)
+        .where(eq(quality_inspection_plans.id, id))
+        .returning();
 
-        if (downMachines.length > 0) {
-          alerts.push({
-            type: "error",
-            category: "machine_down",
-            title: "مكائن معطلة",
-            message: `يوجد ${downMachines.length} ماكينة معطلة تحتاج صيانة`,
-            data: downMachines,
-            priority: "critical",
-          });
-        }
+      if (!updated) return undefined;
 
-        if (highWasteRolls.length > 0) {
-          alerts.push({
-            type: "warning",
-            category: "high_waste",
-            title: "هدر عالي",
-            message: `يوجد ${highWasteRolls.length} رول بنسبة هدر أعلى من 10%`,
-            data: highWasteRolls,
-            priority: "medium",
-          });
-        }
+      // القياسات السابقة تحتفظ بنسخة من الحدود، لذا تُستبدل البنود بالكامل
+      await tx
+        .delete(quality_plan_items)
+        .where(eq(quality_plan_items.plan_id, id));
+      const updatedItems = await this.insertPlanItems(tx, id, items);
+      return { ...updated, items: updatedItems };
+    });
+  }
 
-        return alerts;
+  async deleteInspectionPlan(id: number): Promise<void> {
+    return withDatabaseErrorHandling(
+      async () => {
+        await db
+          .delete(quality_inspection_plans)
+          .where(eq(quality_inspection_plans.id, id));
       },
-      "getProductionAlerts",
-      "تنبيهات الإنتاج",
+      "حذف خطة الفحص",
+      `الخطة ${id}`,
     );
   }
 
-  async getMachineUtilizationStats(
-    dateFrom?: string,
-    dateTo?: string,
-  ): Promise<any> {
-    return await withDatabaseErrorHandling(
-      async () => {
-        const dateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '7 days'`;
+  private async assertSingleActivePlan(
+    tx: DbTransaction,
+    plan: Omit<InsertQualityInspectionPlan, "items">,
+    excludeId?: number,
+  ): Promise<void> {
+    if (plan.is_active === false) return;
 
-        const machineStats = await db
-          .select({
-            machine_id: machines.id,
-            machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
-            machine_type: machines.type,
-            section_name: sql<string>`COALESCE(${sections.name_ar}, ${sections.name})`,
-            status: machines.status,
-            total_rolls: sql<number>`COUNT(DISTINCT ${rolls.id})`,
-            total_weight: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
-            total_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
-            efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
-            avg_processing_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
-            utilization_rate: sql<number>`COALESCE(COUNT(DISTINCT DATE(${rolls.created_at}))::decimal / 7 * 100, 0)`,
-          })
-          .from(machines)
-          .leftJoin(sections, eq(machines.section_id, sections.id))
-          .leftJoin(rolls, and(eq(machines.id, rolls.machine_id), dateFilter))
-          .groupBy(
-            machines.id,
-            machines.name,
-            machines.name_ar,
-            machines.type,
-            machines.status,
-            sections.name,
-            sections.name_ar,
+    const [existing] = await tx
+      .select({ id: quality_inspection_plans.id })
+      .from(quality_inspection_plans)
+      .where(
+        and(
+          eq(quality_inspection_plans.customer_product_id, plan.customer_product_id),
+          eq(quality_inspection_plans.stage, plan.stage),
+          eq(quality_inspection_plans.is_active, true),
+          excludeId ? sql`${quality_inspection_plans.id} <> ${excludeId}` : undefined,
+        ),
+      );
+
+    if (existing) {
+      throw new Error("توجد خطة فحص مفعلة لهذا المنتج في نفس المرحلة");
+    }
+  }
+
+  private async insertPlanItems(
+    tx: DbTransaction,
+    planId: number,
+    items: InsertQualityInspectionPlan["items"],
+  ): Promise<QualityPlanItem[]> {
+    const toDecimal = (value: number | null) =>
+      value === null ? null : numberToDecimalString(value, 3);
+
+    return await tx
+      .insert(quality_plan_items)
+      .values(
+        items.map((item, index) => ({
+          ...item,
+          plan_id: planId,
+          nominal_value: toDecimal(item.nominal_value),
+          tolerance_minus: toDecimal(item.tolerance_minus),
+          tolerance_plus: toDecimal(item.tolerance_plus),
+          sort_order: item.sort_order ?? index,
+        })),
+      )
+      .returning();
+  }
+
+  async getQualityDefectTypes(
+    filters: { activeOnly?: boolean } = {},
+  ): Promise<QualityDefectType[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db
+          .select()
+          .from(quality_defect_types)
+          .where(
+            filters.activeOnly
+              ? eq(quality_defect_types.is_active, true)
+              : undefined,
           )
-;
+          .orderBy(quality_defect_types.name_ar);
+      },
+      "جلب أنواع العيوب",
+    );
+  }
 
-        return machineStats;
+  async createQualityDefectType(
+    defectType: InsertQualityDefectType,
+  ): Promise<QualityDefectType> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [created] = await db
+          .insert(quality_defect_types)
+          .values(defectType)
+          .returning();
+        return created;
       },
-      "getMachineUtilizationStats",
-      "إحصائيات استخدام المكائن",
+      "إنشاء نوع عيب",
+      defectType.code,
     );
   }
 
-  // ============ ADVANCED REPORTING METHODS ============
+  async updateQualityDefectType(
+    id: number,
+    updates: Partial<InsertQualityDefectType>,
+  ): Promise<QualityDefectType | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [updated] = await db
+          .update(quality_defect_types)
+          .set(updates)
+          .where(eq(quality_defect_types.id, id))
+          .returning();
+        return updated;
+      },
+      "تحديث نوع العيب",
+      `العيب ${id}`,
+    );
+  }
 
-  async getOrderReports(dateFrom?: string, dateTo?: string): Promise<any> {
-    return await withDatabaseErrorHandling(
+  async deleteQualityDefectType(id: number): Promise<void> {
+    return withDatabaseErrorHandling(
       async () => {
-        const dateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${orders.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${orders.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
+        await db
+          .delete(quality_defect_types)
+          .where(eq(quality_defect_types.id, id));
+      },
+      "حذف نوع العيب",
+      `العيب ${id}`,
+    );
+  }
 
-        const [
-          orderStatusStats,
-          deliveryPerformance,
-          topCustomers,
-          revenueStats,
-        ] = await Promise.all([
-          // إحصائيات حالة الطلبات
-          db
-            .select({
-              status: orders.status,
-              count: sql<number>`COUNT(*)`,
-              total_value: sql<number>`COALESCE(SUM(${production_orders.quantity_kg} * 5), 0)`, // approximate value
-            })
-            .from(orders)
-            .leftJoin(
-              production_orders,
-              eq(orders.id, production_orders.order_id),
-            )
-            .where(dateFilter)
-            .groupBy(orders.status),
+  async getUsers(): Promise<User[]> {
+    // DEPRECATED: This method returns sensitive data including passwords
+    // Use getSafeUsers() instead for client-facing operations
+    return await db.select().from(users);
+  }
 
-          // أداء التسليم
-          db
-            .select({
-              on_time_orders: sql<number>`COUNT(CASE WHEN ${orders.status} = 'completed' AND ${orders.delivery_date} >= CURRENT_DATE THEN 1 END)`,
-              late_orders: sql<number>`COUNT(CASE WHEN ${orders.status} = 'completed' AND ${orders.delivery_date} < CURRENT_DATE THEN 1 END)`,
-              avg_delivery_days: sql<number>`COALESCE(AVG(EXTRACT(DAYS FROM (CURRENT_DATE - ${orders.created_at}))), 0)`,
-            })
-            .from(orders)
-            .where(dateFilter),
+  async getRoles(): Promise<Role[]> {
+    return await db.select().from(roles);
+  }
 
-          // أكثر العملاء طلباً
-          db
-            .select({
-              customer_id: customers.id,
-              customer_name: sql<string>`COALESCE(${customers.name_ar}, ${customers.name})`,
-              order_count: sql<number>`COUNT(${orders.id})`,
-              total_quantity: sql<number>`COALESCE(SUM(${production_orders.quantity_kg}), 0)`,
-              total_value: sql<number>`COALESCE(SUM(${production_orders.quantity_kg} * 5), 0)`,
-            })
-            .from(customers)
-            .leftJoin(orders, eq(customers.id, orders.customer_id))
-            .leftJoin(
-              production_orders,
-              eq(orders.id, production_orders.order_id),
-            )
-            .where(dateFilter)
-            .groupBy(customers.id, customers.name, customers.name_ar)
-            .orderBy(sql`COUNT(${orders.id}) DESC`)
-            .limit(10),
+  async createRole(roleData: any): Promise<Role> {
+    try {
+      const [role] = await db
+        .insert(roles)
+        .values({
+          name: roleData.name,
+          name_ar: roleData.name_ar,
+          permissions: roleData.permissions || [],
+          require_two_factor: roleData.require_two_factor === true,
+          data_scope: normalizeDataScopeLevel(roleData.data_scope) ?? "all",
+        })
+        .returning();
+      return role;
+    } catch (error) {
+      console.error("Error creating role:", error);
+      throw new Error("فشل في إنشاء الدور");
+    }
+  }
 
-          // إحصائيات الإيرادات
-          db
-            .select({
-              total_orders: sql<number>`COUNT(DISTINCT ${orders.id})`,
-              total_production_quantity: sql<number>`COALESCE(SUM(${production_orders.quantity_kg}), 0)`,
-              estimated_revenue: sql<number>`COALESCE(SUM(${production_orders.quantity_kg} * 5), 0)`,
-              avg_order_value: sql<number>`COALESCE(AVG(${production_orders.quantity_kg} * 5), 0)`,
-            })
-            .from(orders)
-            .leftJoin(
-              production_orders,
-              eq(orders.id, production_orders.order_id),
-            )
-            .where(dateFilter),
-        ]);
+  async updateRole(id: number, roleData: any): Promise<Role> {
+    try {
+      const [role] = await db
+        .update(roles)
+        .set({
+          name: roleData.name,
+          name_ar: roleData.name_ar,
+          permissions: roleData.permissions,
+          require_two_factor:
+            roleData.require_two_factor === undefined
+              ? undefined
+              : roleData.require_two_factor === true,
+          data_scope: normalizeDataScopeLevel(roleData.data_scope),
+        })
+        .where(eq(roles.id, id))
+        .returning();
+      return role;
+    } catch (error) {
+      console.error("Error updating role:", error);
+      throw new Error("فشل في تحديث الدور");
+    }
+  }
 
-        return {
-          orderStatusStats,
-          deliveryPerformance: deliveryPerformance[0] || {
-            on_time_orders: 0,
-            late_orders: 0,
-            avg_delivery_days: 0,
-          },
-          topCustomers,
-          revenueStats: revenueStats[0] || {
-            total_orders: 0,
-            total_production_quantity: 0,
-            estimated_revenue: 0,
-            avg_order_value: 0,
-          },
-        };
-      },
-      "getOrderReports",
-      "تقارير الطلبات",
-    );
+  async deleteRole(id: number): Promise<void> {
+    try {
+      await db.delete(roles).where(eq(roles.id, id));
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      throw new Error("فشل في حذف الدور");
+    }
   }
 
-  async getAdvancedMetrics(dateFrom?: string, dateTo?: string): Promise<any> {
+  // Replaced by createCustomerProduct
+
+  async createCustomer(customer: any): Promise<Customer> {
     return await withDatabaseErrorHandling(
       async () => {
-        const dateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
+        // STEP 0: MANDATORY DATAVALIDATOR INTEGRATION - Validate BEFORE database write
+        const dataValidator = getDataValidator(this);
+        const validationResult = await dataValidator.validateEntity(
+          "customers",
+          customer,
+          false,
+        );
 
-        const [oeeMetrics, cycleTimeStats, qualityMetrics] = await Promise.all([
-          // Overall Equipment Effectiveness (OEE)
-          db
-            .select({
-              machine_id: machines.id,
-              machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
-              availability: sql<number>`COALESCE((COUNT(DISTINCT DATE(${rolls.created_at}))::decimal / 30) * 100, 0)`,
-              performance: sql<number>`COALESCE(AVG(${rolls.weight_kg}) / NULLIF(MAX(${rolls.weight_kg}), 0) * 100, 80)`,
-              quality: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
-              oee: sql<number>`COALESCE(((COUNT(DISTINCT DATE(${rolls.created_at}))::decimal / 30) * (AVG(${rolls.weight_kg}) / NULLIF(MAX(${rolls.weight_kg}), 0)) * (95 - (AVG(${rolls.waste_kg})::decimal / NULLIF(AVG(${rolls.weight_kg}), 0) * 100)) / 100), 65)`,
-            })
-            .from(machines)
-            .leftJoin(rolls, and(eq(machines.id, rolls.machine_id), dateFilter))
-            .groupBy(machines.id, machines.name, machines.name_ar),
+        if (!validationResult.isValid) {
+          console.error(
+            "[Storage] ❌ CUSTOMER VALIDATION FAILED:",
+            validationResult.errors,
+          );
+          throw new DatabaseError(
+            `فشل التحقق من صحة بيانات العميل: ${validationResult.errors.map((e) => e.message_ar).join(", ")}`,
+            {
+              code: "VALIDATION_FAILED",
+              validationErrors: validationResult.errors,
+            },
+          );
+        }
 
-          // Cycle Time Statistics
-          db
-            .select({
-              avg_film_to_printing: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.printed_at} - ${rolls.created_at}))/3600), 0)`,
-              avg_printing_to_cutting: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.cut_completed_at} - ${rolls.printed_at}))/3600), 0)`,
-              avg_total_cycle_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
-              fastest_cycle: sql<number>`COALESCE(MIN(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
-              slowest_cycle: sql<number>`COALESCE(MAX(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
-            })
-            .from(rolls)
-            .where(and(dateFilter, sql`${rolls.completed_at} IS NOT NULL`)),
+        console.log(
+          "[Storage] ✅ Customer validation passed, proceeding with database write",
+        );
 
-          // Quality Metrics
-          db
-            .select({
-              total_rolls: sql<number>`COUNT(*)`,
-              defective_rolls: sql<number>`COUNT(CASE WHEN (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 5 THEN 1 END)`,
-              quality_rate: sql<number>`100 - (COUNT(CASE WHEN (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 5 THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100)`,
-              avg_waste_percentage: sql<number>`COALESCE(AVG((${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100), 0)`,
-              rework_rate: sql<number>`COALESCE(COUNT(CASE WHEN ${rolls.stage} = 'rework' THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100, 0)`,
-            })
-            .from(rolls)
-            .where(dateFilter),
-        ]);
+        // Generate a new customer ID in format CID001, CID002, etc.
+        const existingCustomers = await db
+          .select({ id: customers.id })
+          .from(customers);
+        const customerIds = existingCustomers.map((c) => c.id);
+        const maxNumber = customerIds
+          .filter((id) => id.startsWith("CID"))
+          .map((id) => parseInt(id.substring(3)))
+          .filter((num) => !isNaN(num))
+          .reduce((max, num) => Math.max(max, num), 0);
 
-        return {
-          oeeMetrics,
-          cycleTimeStats: cycleTimeStats[0] || {
-            avg_film_to_printing: 0,
-            avg_printing_to_cutting: 0,
-            avg_total_cycle_time: 0,
-            fastest_cycle: 0,
-            slowest_cycle: 0,
-          },
-          qualityMetrics: qualityMetrics[0] || {
-            total_rolls: 0,
-            defective_rolls: 0,
-            quality_rate: 95,
-            avg_waste_percentage: 0,
-            rework_rate: 0,
-          },
-        };
+        const newId = `CID${String(maxNumber + 1).padStart(3, "0")}`;
+
+        const [newCustomer] = await db
+          .insert(customers)
+          .values({
+            ...customer,
+            id: newId,
+          })
+          .returning();
+        return newCustomer;
       },
-      "getAdvancedMetrics",
-      "المؤشرات المتقدمة",
+      "إنشاء عميل جديد",
+      `العميل: ${customer.name}`,
     );
   }
 
-  async getHRReports(dateFrom?: string, dateTo?: string): Promise<any> {
+  async updateCustomer(id: string, updates: any): Promise<Customer> {
+    const [updatedCustomer] = await db
+      .update(customers)
+      .set(updates)
+      .where(eq(customers.id, id))
+      .returning();
+    return updatedCustomer;
+  }
+
+  async createMachine(machine: any): Promise<Machine> {
     return await withDatabaseErrorHandling(
       async () => {
-        const attendanceDateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${attendance.date}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${attendance.date}) >= CURRENT_DATE - INTERVAL '30 days'`;
-
-        const rollsDateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
-
-        const [attendanceStats, performanceStats, trainingStats] =
-          await Promise.all([
-            // إحصائيات الحضور والغياب
-            db
-              .select({
-                user_id: users.id,
-                username: users.username,
-                display_name_ar: users.display_name_ar,
-                role_name: sql<string>`COALESCE(${roles.name_ar}, ${roles.name})`,
-                present_days: sql<number>`COUNT(CASE WHEN ${attendance.status} = 'حاضر' THEN 1 END)`,
-                absent_days: sql<number>`COUNT(CASE WHEN ${attendance.status} = 'غائب' THEN 1 END)`,
-                late_days: sql<number>`COUNT(CASE WHEN EXTRACT(HOUR FROM ${attendance.check_in_time}) * 60 + EXTRACT(MINUTE FROM ${attendance.check_in_time}) > 510 THEN 1 END)`,
-                attendance_rate: sql<number>`COALESCE((COUNT(CASE WHEN ${attendance.status} = 'حاضر' THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100), 0)`,
-              })
-              .from(users)
-              .leftJoin(roles, eq(users.role_id, roles.id))
-              .leftJoin(
-                attendance,
-                and(eq(users.id, attendance.user_id), attendanceDateFilter),
-              )
-              .groupBy(
-                users.id,
-                users.username,
-                users.display_name_ar,
-                roles.name,
-                roles.name_ar,
-              ),
+        // STEP 0: MANDATORY DATAVALIDATOR INTEGRATION - Validate BEFORE database write
+        const dataValidator = getDataValidator(this);
+        const validationResult = await dataValidator.validateEntity(
+          "machines",
+          machine,
+          false,
+        );
 
-            // إحصائيات الأداء
-            db
-              .select({
-                user_id: users.id,
-                username: users.username,
-                display_name_ar: users.display_name_ar,
-                production_efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
-                total_production: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
-                error_rate: sql<number>`COALESCE(COUNT(CASE WHEN (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 10 THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100, 0)`,
-                improvement_trend: sql<number>`COALESCE(CASE WHEN AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)) > 90 THEN 1 ELSE -1 END, 0)`,
-              })
-              .from(users)
-              .leftJoin(rolls, and(eq(users.id, rolls.created_by), rollsDateFilter))
-              .groupBy(users.id, users.username, users.display_name_ar),
+        if (!validationResult.isValid) {
+          console.error(
+            "[Storage] ❌ MACHINE VALIDATION FAILED:",
+            validationResult.errors,
+          );
+          throw new DatabaseError(
+            `فشل التحقق من صحة بيانات الماكينة: ${validationResult.errors.map((e) => e.message_ar).join(", ")}`,
+            {
+              code: "VALIDATION_FAILED",
+              validationErrors: validationResult.errors,
+            },
+          );
+        }
 
-            // إحصائيات التدريب
-            db
-              .select({
-                total_programs: sql<number>`COUNT(DISTINCT ${training_programs.id})`,
-                total_enrollments: sql<number>`COUNT(${training_enrollments.id})`,
-                completed_trainings: sql<number>`COUNT(CASE WHEN ${training_enrollments.completion_status} = 'completed' THEN 1 END)`,
-                completion_rate: sql<number>`COALESCE(COUNT(CASE WHEN ${training_enrollments.completion_status} = 'completed' THEN 1 END)::decimal / NULLIF(COUNT(${training_enrollments.id}), 0) * 100, 0)`,
-              })
-              .from(training_programs)
-              .leftJoin(
-                training_enrollments,
-                eq(training_programs.id, training_enrollments.program_id),
-              ),
-          ]);
+        console.log(
+          "[Storage] ✅ Machine validation passed, proceeding with database write",
+        );
 
-        return {
-          attendanceStats,
-          performanceStats,
-          trainingStats: trainingStats[0] || {
-            total_programs: 0,
-            total_enrollments: 0,
-            completed_trainings: 0,
-            completion_rate: 0,
-          },
-        };
+        const [newMachine] = await db
+          .insert(machines)
+          .values(machine)
+          .returning();
+        invalidateProductionCache("all");
+        return newMachine;
       },
-      "getHRReports",
-      "تقارير الموارد البشرية",
+      "إنشاء ماكينة جديدة",
+      `الماكينة: ${machine.name}`,
     );
   }
 
-  async getMaintenanceReports(
-    dateFrom?: string,
-    dateTo?: string,
-  ): Promise<any> {
-    return await withDatabaseErrorHandling(
-      async () => {
-        const dateFilter =
-          dateFrom && dateTo
-            ? sql`DATE(${maintenance_requests.date_reported}) BETWEEN ${dateFrom} AND ${dateTo}`
-            : sql`DATE(${maintenance_requests.date_reported}) >= CURRENT_DATE - INTERVAL '30 days'`;
+  async updateMachine(id: string, updates: any): Promise<Machine> {
+    const [updatedMachine] = await db
+      .update(machines)
+      .set(updates)
+      .where(eq(machines.id, id))
+      .returning();
+    // تغيير حالة الماكينة أو قدرتها يغير خطة الجدولة
+    invalidateProductionCache("all");
+    return updatedMachine;
+  }
 
-        const [maintenanceStats, costAnalysis, downtimeAnalysis] =
-          await Promise.all([
-            // إحصائيات طلبات الصيانة
-            db
-              .select({
-                total_requests: sql<number>`COUNT(*)`,
-                completed_requests: sql<number>`COUNT(CASE WHEN ${maintenance_requests.status} = 'completed' THEN 1 END)`,
-                pending_requests: sql<number>`COUNT(CASE WHEN ${maintenance_requests.status} = 'pending' THEN 1 END)`,
-                critical_requests: sql<number>`COUNT(CASE WHEN ${maintenance_requests.urgency_level} = 'urgent' THEN 1 END)`,
-                avg_resolution_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600), 0)`,
-              })
-              .from(maintenance_requests)
-              .where(dateFilter),
+  async createSection(section: any): Promise<Section> {
+    const [newSection] = await db.insert(sections).values(section).returning();
+    return newSection;
+  }
 
-            // تحليل التكاليف (مقدر)
-            db
-              .select({
-                machine_id: machines.id,
-                machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
-                maintenance_count: sql<number>`COUNT(${maintenance_requests.id})`,
-                estimated_cost: sql<number>`COUNT(${maintenance_requests.id}) * 500`, // تكلفة تقديرية
-                downtime_hours: sql<number>`COALESCE(SUM(EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600), 0)`,
-              })
-              .from(machines)
-              .leftJoin(
-                maintenance_requests,
-                and(
-                  eq(machines.id, maintenance_requests.machine_id),
-                  dateFilter,
-                ),
-              )
-              .groupBy(machines.id, machines.name, machines.name_ar),
-
-            // تحليل فترات التوقف
-            db
-              .select({
-                total_downtime: sql<number>`COALESCE(SUM(EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600), 0)`,
-                planned_downtime: sql<number>`COALESCE(SUM(CASE WHEN ${maintenance_requests.issue_type} = 'mechanical' THEN EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600 END), 0)`,
-                unplanned_downtime: sql<number>`COALESCE(SUM(CASE WHEN ${maintenance_requests.issue_type} = 'electrical' THEN EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600 END), 0)`,
-                mtbf: sql<number>`168`, // Mean Time Between Failures - simplified calculation
-              })
-              .from(maintenance_requests)
-              .where(
-                and(
-                  dateFilter,
-                  sql`${maintenance_requests.date_resolved} IS NOT NULL`,
-                ),
-              ),
-          ]);
-
-        return {
-          maintenanceStats: maintenanceStats[0] || {
-            total_requests: 0,
-            completed_requests: 0,
-            pending_requests: 0,
-            critical_requests: 0,
-            avg_resolution_time: 0,
-          },
-          costAnalysis,
-          downtimeAnalysis: downtimeAnalysis[0] || {
-            total_downtime: 0,
-            planned_downtime: 0,
-            unplanned_downtime: 0,
-            mtbf: 168,
-          },
-        };
-      },
-      "getMaintenanceReports",
-      "تقارير الصيانة",
-    );
+  async updateSection(id: string, updates: any): Promise<Section> {
+    const [updatedSection] = await db
+      .update(sections)
+      .set(updates)
+      .where(eq(sections.id, id))
+      .returning();
+    return updatedSection;
   }
 
-  async getItems(): Promise<any[]> {
-    const result = await db
-      .select({
-        id: items.id,
-        category_id: items.category_id,
-        name: items.name,
-        name_ar: items.name_ar,
-        code: items.code,
-        status: items.status,
-        category_name: categories.name,
-        category_name_ar: categories.name_ar,
-      })
-      .from(items)
-      .leftJoin(categories, eq(items.category_id, categories.id))
-      .orderBy(items.name_ar);
+  async updateUser(id: number, updates: any): Promise<User> {
+    // Hash password if it's being updated
+    if (updates.password) {
+      const saltRounds = 12;
+      updates.password = await bcrypt.hash(updates.password, saltRounds);
+      updates.password_changed_at = new Date();
+    }
 
-    return result;
-  }
+    const [updatedUser] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
 
-  async getCustomerProducts(limit: number = 1000): Promise<CustomerProduct[]> {
-    return await db
-      .select({
-        id: customer_products.id,
-        customer_id: customer_products.customer_id,
-        category_id: customer_products.category_id,
-        item_id: customer_products.item_id,
-        size_caption: customer_products.size_caption,
-        width: customer_products.width,
-        left_facing: customer_products.left_facing,
-        right_facing: customer_products.right_facing,
-        thickness: customer_products.thickness,
-        printing_cylinder: customer_products.printing_cylinder,
-        cutting_length_cm: customer_products.cutting_length_cm,
-        raw_material: customer_products.raw_material,
-        master_batch_id: customer_products.master_batch_id,
-        is_printed: customer_products.is_printed,
-        cutting_unit: customer_products.cutting_unit,
-        punching: customer_products.punching,
-        unit_weight_kg: customer_products.unit_weight_kg,
-        unit_quantity: customer_products.unit_quantity,
-        package_weight_kg: customer_products.package_weight_kg,
-        cliche_front_design: customer_products.cliche_front_design,
-        cliche_back_design: customer_products.cliche_back_design,
-        notes: customer_products.notes,
-        status: customer_products.status,
-        created_at: customer_products.created_at,
-        customer_name: customers.name,
-        customer_name_ar: customers.name_ar,
-        customer_code: customers.code,
-      })
-      .from(customer_products)
-      .leftJoin(customers, eq(customer_products.customer_id, customers.id))
-      .orderBy(desc(customer_products.created_at))
-      .limit(limit)
-      .then((results) =>
-        results.map((row) => ({
-          ...row,
-          customer_name: row.customer_name || undefined,
-          customer_name_ar: row.customer_name_ar || undefined,
-          customer_code: row.customer_code || undefined,
-        })),
-      );
+    // الحساب الموقوف أو غير النشط يفقد جلساته فوراً
+    if (updatedUser && updatedUser.status !== "active") {
+      await this.destroyUserSessions(id);
+    }
+    return updatedUser;
   }
 
-  async getLocations(): Promise<Location[]> {
-    return await db.select().from(locations);
+  async createItem(item: any): Promise<Item> {
+    const [newItem] = await db.insert(items).values(item).returning();
+    return newItem;
   }
 
-  async getCategories(): Promise<any[]> {
-    return await db.select().from(categories);
+  async updateItem(id: string, updates: any): Promise<Item> {
+    const [updatedItem] = await db
+      .update(items)
+      .set(updates)
+      .where(eq(items.id, id))
+      .returning();
+    return updatedItem;
   }
 
-  async createCategory(data: any): Promise<any> {
-    const [newCategory] = await db.insert(categories).values(data).returning();
-    return newCategory;
+  async createCustomerProduct(customerProduct: any): Promise<CustomerProduct> {
+    const [newCustomerProduct] = await db
+      .insert(customer_products)
+      .values(customerProduct)
+      .returning();
+    return newCustomerProduct;
   }
 
-  async updateCategory(id: string, data: any): Promise<any> {
-    const [updatedCategory] = await db
-      .update(categories)
-      .set(data)
-      .where(eq(categories.id, id))
+  async updateCustomerProduct(
+    id: number,
+    updates: any,
+  ): Promise<CustomerProduct> {
+    const [updatedCustomerProduct] = await db
+      .update(customer_products)
+      .set(updates)
+      .where(eq(customer_products.id, id))
       .returning();
-    return updatedCategory;
+    return updatedCustomerProduct;
   }
 
-  async deleteCategory(id: string): Promise<void> {
-    await db.delete(categories).where(eq(categories.id, id));
+  async createLocation(location: any): Promise<Location> {
+    const [newLocation] = await db
+      .insert(locations)
+      .values(location)
+      .returning();
+    return newLocation;
   }
 
-  // Cache for dashboard stats - expires after 2 minutes
-  private dashboardStatsCache: { data: any; expiry: number } | null = null;
+  async updateLocation(id: string, updates: any): Promise<Location> {
+    const [updatedLocation] = await db
+      .update(locations)
+      .set(updates)
+      .where(eq(locations.id, id))
+      .returning();
+    return updatedLocation;
+  }
 
-  async getDashboardStats(): Promise<{
-    activeOrders: number;
-    productionRate: number;
-    qualityScore: number;
-    wastePercentage: number;
-  }> {
-    // Check cache first
-    const now = Date.now();
-    if (this.dashboardStatsCache && this.dashboardStatsCache.expiry > now) {
-      return this.dashboardStatsCache.data;
-    }
+  async getSections(): Promise<Section[]> {
+    return await db.select().from(sections);
+  }
 
-    // Optimize: Get all stats in parallel instead of sequential queries
-    const [activeOrdersResult, productionResult, qualityResult, wasteResult] =
-      await Promise.all([
-        // Active orders count
-        db
-          .select({ count: count() })
-          .from(orders)
-          .where(
-            or(
-              eq(orders.status, "in_production"),
-              eq(orders.status, "waiting"),
-              eq(orders.status, "pending"),
-            ),
-          ),
+  // ============ Production Monitoring Analytics ============
 
-        // Production rate (percentage based on production orders) - using existing quantity field
-        db
-          .select({
-            totalRequired: sum(production_orders.quantity_kg),
-            totalProduced: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
-          })
-          .from(production_orders)
-          .leftJoin(rolls, eq(production_orders.id, rolls.production_order_id)),
+  async getUserPerformanceStats(
+    userId?: number,
+    dateFrom?: string,
+    dateTo?: string,
+  ): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const dateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '7 days'`;
 
-        // Quality score (average from quality checks) - limited to recent checks for performance
-        db
+        let query = db
           .select({
-            avgScore: sql<number>`AVG(CAST(${quality_checks.score} AS DECIMAL))`,
+            user_id: users.id,
+            username: users.username,
+            display_name_ar: users.display_name_ar,
+            role_name: sql<string>`COALESCE(roles.name_ar, roles.name)`,
+            section_name: sql<string>`COALESCE(sections.name_ar, sections.name)`,
+            rolls_created: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.created_by} = ${users.id} THEN ${rolls.id} END)`,
+            rolls_printed: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.printed_by} = ${users.id} THEN ${rolls.id} END)`,
+            rolls_cut: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.cut_by} = ${users.id} THEN ${rolls.id} END)`,
+            total_weight_kg: sql<number>`COALESCE(SUM(CASE WHEN ${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id} THEN ${rolls.weight_kg} END), 0)`,
+            avg_roll_weight: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id} THEN ${rolls.weight_kg} END), 0)`,
+            hours_worked: sql<number>`COUNT(DISTINCT DATE(${rolls.created_at})) * 8`,
+            efficiency_score: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id} THEN 95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100) END), 90)`,
           })
-          .from(quality_checks)
-          .where(
-            sql`${quality_checks.created_at} >= NOW() - INTERVAL '30 days'`,
+          .from(users)
+          .leftJoin(roles, eq(users.role_id, roles.id))
+          .leftJoin(sections, eq(users.section_id, sections.id))
+          .leftJoin(
+            rolls,
+            sql`(${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id}) AND ${dateFilter}`,
           )
-          .limit(1000), // Limit for performance
-
-        // Waste percentage - limited to recent waste for performance
-        db
-          .select({
-            totalWaste: sum(waste.quantity_wasted),
-          })
-          .from(waste)
-          .where(sql`${waste.created_at} >= NOW() - INTERVAL '7 days'`)
-          .limit(1000), // Limit for performance
-      ]);
-
-    const activeOrders = activeOrdersResult[0]?.count || 0;
-
-    const productionRate =
-      productionResult[0]?.totalRequired &&
-      Number(productionResult[0].totalRequired) > 0
-        ? Math.round(
-            (Number(productionResult[0].totalProduced) /
-              Number(productionResult[0].totalRequired)) *
-              100,
+          .groupBy(
+            users.id,
+            users.username,
+            users.display_name_ar,
+            roles.name,
+            roles.name_ar,
+            sections.name,
+            sections.name_ar,
           )
-        : 0;
-
-    const qualityScore = qualityResult[0]?.avgScore
-      ? Math.round(Number(qualityResult[0].avgScore) * 20) // Convert 1-5 to percentage
-      : 95; // Default high score
-
-    const wastePercentage = wasteResult[0]?.totalWaste
-      ? Number(wasteResult[0].totalWaste) / 100 // Convert to percentage
-      : 2.5; // Default low waste
-
-    const result = {
-      activeOrders,
-      productionRate,
-      qualityScore,
-      wastePercentage,
-    };
+;
 
-    // Cache the result for 2 minutes
-    this.dashboardStatsCache = {
-      data: result,
-      expiry: now + 2 * 60 * 1000,
-    };
+        if (userId) {
+          query = query.where(eq(users.id, userId)) as any;
+        }
 
-    return result;
+        return await query;
+      },
+      "getUserPerformanceStats",
+      userId ? `للمستخدم ${userId}` : "لجميع المستخدمين",
+    );
   }
 
-  // Training Records
-  async getTrainingRecords(): Promise<TrainingRecord[]> {
-    return await db
-      .select()
-      .from(training_records)
-      .orderBy(desc(training_records.date));
-  }
+  async getRolePerformanceStats(
+    dateFrom?: string,
+    dateTo?: string,
+  ): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const dateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '7 days'`;
 
-  async createTrainingRecord(record: any): Promise<TrainingRecord> {
-    const [newRecord] = await db
-      .insert(training_records)
-      .values(record)
-      .returning();
-    return newRecord;
-  }
+        const roleStats = await db
+          .select({
+            role_id: roles.id,
+            role_name: sql<string>`COALESCE(roles.name_ar, roles.name)`,
+            user_count: sql<number>`COUNT(DISTINCT ${users.id})`,
+            total_production_orders: sql<number>`COUNT(DISTINCT ${production_orders.id})`,
+            total_rolls: sql<number>`COUNT(DISTINCT ${rolls.id})`,
+            total_weight_kg: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
+            avg_order_completion_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
+            quality_score: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
+            on_time_delivery_rate: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.completed_at} IS NOT NULL THEN 100 ELSE 0 END), 80)`,
+          })
+          .from(roles)
+          .leftJoin(users, eq(roles.id, users.role_id))
+          .leftJoin(
+            rolls,
+            sql`(${rolls.created_by} = ${users.id} OR ${rolls.printed_by} = ${users.id} OR ${rolls.cut_by} = ${users.id}) AND ${dateFilter}`,
+          )
+          .leftJoin(production_orders, eq(rolls.production_order_id, production_orders.id))
+          .groupBy(roles.id, roles.name, roles.name_ar)
+;
 
-  // Admin Decisions
-  async getAdminDecisions(): Promise<AdminDecision[]> {
-    return await db
-      .select()
-      .from(admin_decisions)
-      .orderBy(desc(admin_decisions.date));
+        return roleStats;
+      },
+      "getRolePerformanceStats",
+      "أداء الأدوار",
+    );
   }
 
-  async createAdminDecision(decision: any): Promise<AdminDecision> {
-    const [newDecision] = await db
-      .insert(admin_decisions)
-      .values(decision)
-      .returning();
-    return newDecision;
-  }
+  async getRealTimeProductionStats(): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const now = new Date();
+        const todayStart = new Date(
+          now.getFullYear(),
+          now.getMonth(),
+          now.getDate(),
+        );
 
-  // Warehouse Transactions
-  async getWarehouseTransactions(): Promise<WarehouseTransaction[]> {
-    return await db
-      .select()
-      .from(warehouse_transactions)
-      .orderBy(desc(warehouse_transactions.date));
-  }
+        const [currentStats, machineStatus, queueStats] = await Promise.all([
+          // إحصائيات اليوم الحالي
+          db
+            .select({
+              daily_rolls: sql<number>`COUNT(DISTINCT ${rolls.id})`,
+              daily_weight: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
+              active_orders: sql<number>`COUNT(DISTINCT CASE WHEN ${orders.status} IN ('in_production', 'waiting') THEN ${orders.id} END)`,
+              completed_today: sql<number>`COUNT(DISTINCT CASE WHEN DATE(${rolls.completed_at}) = CURRENT_DATE THEN ${rolls.id} END)`,
+              current_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
+              avg_efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
+            })
+            .from(rolls)
+            .leftJoin(
+              production_orders,
+              eq(rolls.production_order_id, production_orders.id),
+            )
+            .leftJoin(orders, eq(production_orders.order_id, orders.id))
+            .where(sql`DATE(${rolls.created_at}) = CURRENT_DATE`),
 
-  async createWarehouseTransaction(
-    transaction: any,
-  ): Promise<WarehouseTransaction> {
-    const [newTransaction] = await db
-      .insert(warehouse_transactions)
-      .values(transaction)
-      .returning();
-    return newTransaction;
-  }
+          // حالة المكائن
+          db
+            .select({
+              machine_id: machines.id,
+              machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
+              status: machines.status,
+              current_rolls: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} != 'done' THEN ${rolls.id} END)`,
+            })
+            .from(machines)
+            .leftJoin(rolls, eq(machines.id, rolls.machine_id))
+            .groupBy(
+              machines.id,
+              machines.name,
+              machines.name_ar,
+              machines.status,
+            ),
 
-  // Mixing Recipes
-  async getMixingRecipes(): Promise<MixingRecipe[]> {
-    return await db
-      .select()
-      .from(mixing_recipes)
-      .orderBy(desc(mixing_recipes.created_at));
-  }
+          // إحصائيات الطوابير
+          db
+            .select({
+              film_queue: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} = 'film' THEN ${rolls.id} END)`,
+              printing_queue: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} = 'printing' THEN ${rolls.id} END)`,
+              cutting_queue: sql<number>`COUNT(DISTINCT CASE WHEN ${rolls.stage} = 'cutting' THEN ${rolls.id} END)`,
+              pending_orders: sql<number>`COUNT(DISTINCT CASE WHEN ${production_orders.status} = 'pending' THEN ${production_orders.id} END)`,
+            })
+            .from(production_orders)
+            .leftJoin(
+              rolls,
+              eq(production_orders.id, rolls.production_order_id),
+            ),
+        ]);
 
-  async createMixingRecipe(recipe: any): Promise<MixingRecipe> {
-    const [newRecipe] = await db
-      .insert(mixing_recipes)
-      .values(recipe)
-      .returning();
-    return newRecipe;
+        return {
+          currentStats: currentStats[0] || {
+            daily_rolls: 0,
+            daily_weight: 0,
+            active_orders: 0,
+            completed_today: 0,
+            current_waste: 0,
+            avg_efficiency: 90,
+          },
+          machineStatus: machineStatus || [],
+          queueStats: queueStats[0] || {
+            film_queue: 0,
+            printing_queue: 0,
+            cutting_queue: 0,
+            pending_orders: 0,
+          },
+          lastUpdated: now.toISOString(),
+        };
+      },
+      "getRealTimeProductionStats",
+      "الإحصائيات الفورية",
+    );
   }
 
-  // ============ HR System Implementation ============
+  async getProductionEfficiencyMetrics(
+    dateFrom?: string,
+    dateTo?: string,
+  ): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const dateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
 
-  // Training Programs
-  async getTrainingPrograms(): Promise<TrainingProgram[]> {
-    return await db
-      .select()
-      .from(training_programs)
-      .orderBy(desc(training_programs.created_at));
-  }
+        const [efficiencyMetrics, trendData] = await Promise.all([
+          // مؤشرات الكفاءة العامة
+          db
+            .select({
+              total_production: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
+              total_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
+              waste_percentage: sql<number>`COALESCE((SUM(${rolls.waste_kg})::decimal / NULLIF(SUM(${rolls.weight_kg}), 0)) * 100, 0)`,
+              avg_roll_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
+              machine_utilization: sql<number>`COALESCE(COUNT(DISTINCT ${rolls.machine_id})::decimal / NULLIF((SELECT COUNT(*) FROM ${machines}), 0) * 100, 0)`,
+              quality_score: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
+              on_time_completion: sql<number>`COALESCE(AVG(CASE WHEN ${rolls.completed_at} IS NOT NULL THEN 100 ELSE 0 END), 80)`,
+            })
+            .from(rolls)
+            .where(dateFilter),
 
-  async createTrainingProgram(
-    program: InsertTrainingProgram,
-  ): Promise<TrainingProgram> {
-    const [trainingProgram] = await db
-      .insert(training_programs)
-      .values(program as any)
-      .returning();
-    return trainingProgram;
-  }
-
-  async updateTrainingProgram(
-    id: number,
-    updates: Partial<TrainingProgram>,
-  ): Promise<TrainingProgram> {
-    const [trainingProgram] = await db
-      .update(training_programs)
-      .set({ ...updates, updated_at: new Date() })
-      .where(eq(training_programs.id, id))
-      .returning();
-    return trainingProgram;
-  }
-
-  async getTrainingProgramById(
-    id: number,
-  ): Promise<TrainingProgram | undefined> {
-    const [program] = await db
-      .select()
-      .from(training_programs)
-      .where(eq(training_programs.id, id));
-    return program || undefined;
-  }
+          // بيانات الاتجاه اليومي
+          db
+            .select({
+              date: sql<string>`DATE(${rolls.created_at})`,
+              daily_production: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
+              daily_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
+              daily_rolls: sql<number>`COUNT(${rolls.id})`,
+              daily_efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
+            })
+            .from(rolls)
+            .where(dateFilter)
+            .groupBy(sql`DATE(${rolls.created_at})`)
+            .orderBy(sql`DATE(${rolls.created_at}) DESC`)
+            .limit(30),
+        ]);
 
-  // Training Materials
-  async getTrainingMaterials(programId?: number): Promise<TrainingMaterial[]> {
-    const query = db.select().from(training_materials);
-    if (programId) {
-      return await query
-        .where(eq(training_materials.program_id, programId))
-        .orderBy(training_materials.order_index);
-    }
-    return await query.orderBy(
-      training_materials.program_id,
-      training_materials.order_index,
+        return {
+          efficiency: efficiencyMetrics[0] || {
+            total_production: 0,
+            total_waste: 0,
+            waste_percentage: 0,
+            avg_roll_time: 0,
+            machine_utilization: 0,
+            quality_score: 90,
+            on_time_completion: 80,
+          },
+          trends: trendData || [],
+        };
+      },
+      "getProductionEfficiencyMetrics",
+      "مؤشرات الكفاءة",
     );
   }
 
-  async createTrainingMaterial(
-    material: InsertTrainingMaterial,
-  ): Promise<TrainingMaterial> {
-    const [trainingMaterial] = await db
-      .insert(training_materials)
-      .values(material)
-      .returning();
-    return trainingMaterial;
-  }
-
-  async updateTrainingMaterial(
-    id: number,
-    updates: Partial<TrainingMaterial>,
-  ): Promise<TrainingMaterial> {
-    const [trainingMaterial] = await db
-      .update(training_materials)
-      .set(updates)
-      .where(eq(training_materials.id, id))
-      .returning();
-    return trainingMaterial;
-  }
-
-  async deleteTrainingMaterial(id: number): Promise<boolean> {
-    const result = await db
-      .delete(training_materials)
-      .where(eq(training_materials.id, id));
-    return result.rowCount !== null && result.rowCount > 0;
-  }
+  async getProductionAlerts(): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const alerts = [];
 
-  // Training Enrollments
-  async getTrainingEnrollments(
-    employeeId?: number,
-  ): Promise<TrainingEnrollment[]> {
-    const query = db.select().from(training_enrollments);
-    if (employeeId) {
-      return await query
-        .where(eq(training_enrollments.employee_id, employeeId))
-        .orderBy(desc(training_enrollments.enrolled_date));
-    }
-    return await query.orderBy(desc(training_enrollments.enrolled_date));
-  }
+        // تحقق من الطلبات المتأخرة
+        const overdueOrders = await db
+          .select({
+            order_id: orders.id,
+            order_number: orders.order_number,
+            customer_name: customers.name_ar,
+            delivery_date: orders.delivery_date,
+            days_overdue: sql<number>`(CURRENT_DATE - ${orders.delivery_date})::int`,
+          })
+          .from(orders)
+          .leftJoin(customers, eq(orders.customer_id, customers.id))
+          .where(
+            and(
+              sql`${orders.delivery_date} < CURRENT_DATE`,
+              sql`${orders.status} NOT IN ('completed', 'cancelled')`,
+            ),
+          )
+          .limit(10);
 
-  async createTrainingEnrollment(
-    enrollment: InsertTrainingEnrollment,
-  ): Promise<TrainingEnrollment> {
-    const [trainingEnrollment] = await db
-      .insert(training_enrollments)
-      .values(enrollment)
-      .returning();
-    return trainingEnrollment;
-  }
+        // تحقق من المكائن المعطلة
+        const downMachines = await db
+          .select({
+            machine_id: machines.id,
+            machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
+            status: machines.status,
+          })
+          .from(machines)
+          .where(eq(machines.status, "down"));
 
-  async updateTrainingEnrollment(
-    id: number,
-    updates: Partial<TrainingEnrollment>,
-  ): Promise<TrainingEnrollment> {
-    const [trainingEnrollment] = await db
-      .update(training_enrollments)
-      .set(updates)
-      .where(eq(training_enrollments.id, id))
-      .returning();
-    return trainingEnrollment;
-  }
+        // تحقق من الهدر العالي
+        const highWasteRolls = await db
+          .select({
+            roll_id: rolls.id,
+            roll_number: rolls.roll_number,
+            waste_percentage: sql<number>`(${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100`,
+            machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
+          })
+          .from(rolls)
+          .leftJoin(machines, eq(rolls.machine_id, machines.id))
+          .where(
+            sql`(${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 10`,
+          )
+          .orderBy(
+            sql`(${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 DESC`,
+          )
+          .limit(5);
 
-  async getEnrollmentsByProgram(
-    programId: number,
-  ): Promise<TrainingEnrollment[]> {
-    return await db
-      .select()
-      .from(training_enrollments)
-      .where(eq(training_enrollments.program_id, programId))
-      .orderBy(desc(training_enrollments.enrolled_date));
-  }
+        // إضافة التنبيهات
+        if (overdueOrders.length > 0) {
+          alerts.push({
+            type: "warning",
+            category: "overdue_orders",
+            title: "طلبات متأخرة",
+            message: `يوجد ${overdueOrders.length} طلب متأخر عن موعد التسليم`,
+            data: overdueOrders,
+            priority: "high",
+          });
+        }
 
-  // Training Evaluations
-  async getTrainingEvaluations(
-    employeeId?: number,
-    programId?: number,
-  ): Promise<TrainingEvaluation[]> {
-    let query = db.select().from(training_evaluations);
+        if (downMachines.length > 0) {
+          alerts.push({
+            type: "error",
+            category: "machine_down",
+            title: "مكائن معطلة",
+            message: `يوجد ${downMachines.length} ماكينة معطلة تحتاج صيانة`,
+            data: downMachines,
+            priority: "critical",
+          });
+        }
 
-    if (employeeId && programId) {
-      return await query
-        .where(
-          and(
-            eq(training_evaluations.employee_id, employeeId),
-            eq(training_evaluations.program_id, programId),
-          ),
-        )
-        .orderBy(desc(training_evaluations.evaluation_date));
-    } else if (employeeId) {
-      return await query
-        .where(eq(training_evaluations.employee_id, employeeId))
-        .orderBy(desc(training_evaluations.evaluation_date));
-    } else if (programId) {
-      return await query
-        .where(eq(training_evaluations.program_id, programId))
-        .orderBy(desc(training_evaluations.evaluation_date));
-    }
+        if (highWasteRolls.length > 0) {
+          alerts.push({
+            type: "warning",
+            category: "high_waste",
+            title: "هدر عالي",
+            message: `يوجد ${highWasteRolls.length} رول بنسبة هدر أعلى من 10%`,
+            data: highWasteRolls,
+            priority: "medium",
+          });
+        }
 
-    return await query.orderBy(desc(training_evaluations.evaluation_date));
+        return alerts;
+      },
+      "getProductionAlerts",
+      "تنبيهات الإنتاج",
+    );
   }
 
-  async createTrainingEvaluation(
-    evaluation: InsertTrainingEvaluation,
-  ): Promise<TrainingEvaluation> {
-    const [trainingEvaluation] = await db
-      .insert(training_evaluations)
-      .values(evaluation)
-      .returning();
-    return trainingEvaluation;
-  }
+  async getMachineUtilizationStats(
+    dateFrom?: string,
+    dateTo?: string,
+  ): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const dateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '7 days'`;
 
-  async updateTrainingEvaluation(
-    id: number,
-    updates: Partial<TrainingEvaluation>,
-  ): Promise<TrainingEvaluation> {
-    const [trainingEvaluation] = await db
-      .update(training_evaluations)
-      .set(updates)
-      .where(eq(training_evaluations.id, id))
-      .returning();
-    return trainingEvaluation;
-  }
-
-  async getTrainingEvaluationById(
-    id: number,
-  ): Promise<TrainingEvaluation | undefined> {
-    const [evaluation] = await db
-      .select()
-      .from(training_evaluations)
-      .where(eq(training_evaluations.id, id));
-    return evaluation || undefined;
-  }
+        const machineStats = await db
+          .select({
+            machine_id: machines.id,
+            machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
+            machine_type: machines.type,
+            section_name: sql<string>`COALESCE(${sections.name_ar}, ${sections.name})`,
+            status: machines.status,
+            total_rolls: sql<number>`COUNT(DISTINCT ${rolls.id})`,
+            total_weight: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
+            total_waste: sql<number>`COALESCE(SUM(${rolls.waste_kg}), 0)`,
+            efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
+            avg_processing_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
+            utilization_rate: sql<number>`COALESCE(COUNT(DISTINCT DATE(${rolls.created_at}))::decimal / 7 * 100, 0)`,
+          })
+          .from(machines)
+          .leftJoin(sections, eq(machines.section_id, sections.id))
+          .leftJoin(rolls, and(eq(machines.id, rolls.machine_id), dateFilter))
+          .groupBy(
+            machines.id,
+            machines.name,
+            machines.name_ar,
+            machines.type,
+            machines.status,
+            sections.name,
+            sections.name_ar,
+          )
+;
 
-  // Training Certificates
-  async getTrainingCertificates(
-    employeeId?: number,
-  ): Promise<TrainingCertificate[]> {
-    const query = db.select().from(training_certificates);
-    if (employeeId) {
-      return await query
-        .where(eq(training_certificates.employee_id, employeeId))
-        .orderBy(desc(training_certificates.issue_date));
-    }
-    return await query.orderBy(desc(training_certificates.issue_date));
+        return machineStats;
+      },
+      "getMachineUtilizationStats",
+      "إحصائيات استخدام المكائن",
+    );
   }
 
-  async createTrainingCertificate(
-    certificate: InsertTrainingCertificate,
-  ): Promise<TrainingCertificate> {
-    const [trainingCertificate] = await db
-      .insert(training_certificates)
-      .values(certificate)
-      .returning();
-    return trainingCertificate;
-  }
+  // ============ ADVANCED REPORTING METHODS ============
 
-  async updateTrainingCertificate(
-    id: number,
-    updates: Partial<TrainingCertificate>,
-  ): Promise<TrainingCertificate> {
-    const [trainingCertificate] = await db
-      .update(training_certificates)
-      .set(updates)
-      .where(eq(training_certificates.id, id))
-      .returning();
-    return trainingCertificate;
-  }
+  async getOrderReports(dateFrom?: string, dateTo?: string): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const dateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${orders.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${orders.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
 
-  async generateTrainingCertificate(
-    enrollmentId: number,
-  ): Promise<TrainingCertificate> {
-    // Get enrollment details
-    const [enrollment] = await db
-      .select()
-      .from(training_enrollments)
-      .where(eq(training_enrollments.id, enrollmentId));
-    if (!enrollment) {
-      throw new Error("Enrollment not found");
-    }
+        const [
+          orderStatusStats,
+          deliveryPerformance,
+          topCustomers,
+          revenueStats,
+        ] = await Promise.all([
+          // إحصائيات حالة الطلبات
+          db
+            .select({
+              status: orders.status,
+              count: sql<number>`COUNT(*)`,
+              total_value: sql<number>`COALESCE(SUM(${production_orders.quantity_kg} * 5), 0)`, // approximate value
+            })
+            .from(orders)
+            .leftJoin(
+              production_orders,
+              eq(orders.id, production_orders.order_id),
+            )
+            .where(dateFilter)
+            .groupBy(orders.status),
 
-    // Generate certificate number
-    const certificateNumber = generateCertificateNumber(enrollmentId);
+          // أداء التسليم
+          db
+            .select({
+              on_time_orders: sql<number>`COUNT(CASE WHEN ${orders.status} = 'completed' AND ${orders.delivery_date} >= CURRENT_DATE THEN 1 END)`,
+              late_orders: sql<number>`COUNT(CASE WHEN ${orders.status} = 'completed' AND ${orders.delivery_date} < CURRENT_DATE THEN 1 END)`,
+              avg_delivery_days: sql<number>`COALESCE(AVG(EXTRACT(DAYS FROM (CURRENT_DATE - ${orders.created_at}))), 0)`,
+            })
+            .from(orders)
+            .where(dateFilter),
 
-    // Create certificate
-    const certificate: InsertTrainingCertificate = {
-      enrollment_id: enrollmentId,
-      employee_id: enrollment.employee_id,
-      program_id: enrollment.program_id,
-      certificate_number: certificateNumber,
-      issue_date: new Date().toISOString().split("T")[0],
-      final_score: enrollment.final_score,
-      certificate_status: "active",
-      issued_by: 1, // Default to admin user
-    };
+          // أكثر العملاء طلباً
+          db
+            .select({
+              customer_id: customers.id,
+              customer_name: sql<string>`COALESCE(${customers.name_ar}, ${customers.name})`,
+              order_count: sql<number>`COUNT(${orders.id})`,
+              total_quantity: sql<number>`COALESCE(SUM(${production_orders.quantity_kg}), 0)`,
+              total_value: sql<number>`COALESCE(SUM(${production_orders.quantity_kg} * 5), 0)`,
+            })
+            .from(customers)
+            .leftJoin(orders, eq(customers.id, orders.customer_id))
+            .leftJoin(
+              production_orders,
+              eq(orders.id, production_orders.order_id),
+            )
+            .where(dateFilter)
+            .groupBy(customers.id, customers.name, customers.name_ar)
+            .orderBy(sql`COUNT(${orders.id}) DESC`)
+            .limit(10),
 
-    return await this.createTrainingCertificate(certificate);
-  }
+          // إحصائيات الإيرادات
+          db
+            .select({
+              total_orders: sql<number>`COUNT(DISTINCT ${orders.id})`,
+              total_production_quantity: sql<number>`COALESCE(SUM(${production_orders.quantity_kg}), 0)`,
+              estimated_revenue: sql<number>`COALESCE(SUM(${production_orders.quantity_kg} * 5), 0)`,
+              avg_order_value: sql<number>`COALESCE(AVG(${production_orders.quantity_kg} * 5), 0)`,
+            })
+            .from(orders)
+            .leftJoin(
+              production_orders,
+              eq(orders.id, production_orders.order_id),
+            )
+            .where(dateFilter),
+        ]);
 
-  // Performance Reviews
-  async getPerformanceReviews(
-    employeeId?: string,
-  ): Promise<PerformanceReview[]> {
-    const query = db.select().from(performance_reviews);
-    if (employeeId) {
-      return await query
-        .where(eq(performance_reviews.employee_id, employeeId))
-        .orderBy(desc(performance_reviews.created_at));
-    }
-    return await query.orderBy(desc(performance_reviews.created_at));
+        return {
+          orderStatusStats,
+          deliveryPerformance: deliveryPerformance[0] || {
+            on_time_orders: 0,
+            late_orders: 0,
+            avg_delivery_days: 0,
+          },
+          topCustomers,
+          revenueStats: revenueStats[0] || {
+            total_orders: 0,
+            total_production_quantity: 0,
+            estimated_revenue: 0,
+            avg_order_value: 0,
+          },
+        };
+      },
+      "getOrderReports",
+      "تقارير الطلبات",
+    );
   }
 
-  async createPerformanceReview(
-    review: InsertPerformanceReview,
-  ): Promise<PerformanceReview> {
-    const [performanceReview] = await db
-      .insert(performance_reviews)
-      .values(review)
-      .returning();
-    return performanceReview;
-  }
+  async getAdvancedMetrics(dateFrom?: string, dateTo?: string): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const dateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
 
-  async updatePerformanceReview(
-    id: number,
-    updates: Partial<PerformanceReview>,
-  ): Promise<PerformanceReview> {
-    const [performanceReview] = await db
-      .update(performance_reviews)
-      .set(updates)
-      .where(eq(performance_reviews.id, id))
-      .returning();
-    return performanceReview;
-  }
+        const [oeeMetrics, cycleTimeStats, qualityMetrics] = await Promise.all([
+          // Overall Equipment Effectiveness (OEE)
+          db
+            .select({
+              machine_id: machines.id,
+              machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
+              availability: sql<number>`COALESCE((COUNT(DISTINCT DATE(${rolls.created_at}))::decimal / 30) * 100, 0)`,
+              performance: sql<number>`COALESCE(AVG(${rolls.weight_kg}) / NULLIF(MAX(${rolls.weight_kg}), 0) * 100, 80)`,
+              quality: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
+              oee: sql<number>`COALESCE(((COUNT(DISTINCT DATE(${rolls.created_at}))::decimal / 30) * (AVG(${rolls.weight_kg}) / NULLIF(MAX(${rolls.weight_kg}), 0)) * (95 - (AVG(${rolls.waste_kg})::decimal / NULLIF(AVG(${rolls.weight_kg}), 0) * 100)) / 100), 65)`,
+            })
+            .from(machines)
+            .leftJoin(rolls, and(eq(machines.id, rolls.machine_id), dateFilter))
+            .groupBy(machines.id, machines.name, machines.name_ar),
 
-  async getPerformanceReviewById(
-    id: number,
-  ): Promise<PerformanceReview | undefined> {
-    const [review] = await db
-      .select()
-      .from(performance_reviews)
-      .where(eq(performance_reviews.id, id));
-    return review || undefined;
-  }
+          // Cycle Time Statistics
+          db
+            .select({
+              avg_film_to_printing: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.printed_at} - ${rolls.created_at}))/3600), 0)`,
+              avg_printing_to_cutting: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.cut_completed_at} - ${rolls.printed_at}))/3600), 0)`,
+              avg_total_cycle_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
+              fastest_cycle: sql<number>`COALESCE(MIN(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
+              slowest_cycle: sql<number>`COALESCE(MAX(EXTRACT(EPOCH FROM (${rolls.completed_at} - ${rolls.created_at}))/3600), 0)`,
+            })
+            .from(rolls)
+            .where(and(dateFilter, sql`${rolls.completed_at} IS NOT NULL`)),
 
-  // Performance Criteria
-  async getPerformanceCriteria(): Promise<PerformanceCriteria[]> {
-    return await db
-      .select()
-      .from(performance_criteria)
-      .where(eq(performance_criteria.is_active, true));
-  }
-
-  async createPerformanceCriteria(
-    criteria: InsertPerformanceCriteria,
-  ): Promise<PerformanceCriteria> {
-    const [performanceCriteria] = await db
-      .insert(performance_criteria)
-      .values(criteria as any)
-      .returning();
-    return performanceCriteria;
-  }
+          // Quality Metrics
+          db
+            .select({
+              total_rolls: sql<number>`COUNT(*)`,
+              defective_rolls: sql<number>`COUNT(CASE WHEN (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 5 THEN 1 END)`,
+              quality_rate: sql<number>`100 - (COUNT(CASE WHEN (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 5 THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100)`,
+              avg_waste_percentage: sql<number>`COALESCE(AVG((${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100), 0)`,
+              rework_rate: sql<number>`COALESCE(COUNT(CASE WHEN ${rolls.stage} = 'rework' THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100, 0)`,
+            })
+            .from(rolls)
+            .where(dateFilter),
+        ]);
 
-  async updatePerformanceCriteria(
-    id: number,
-    updates: Partial<PerformanceCriteria>,
-  ): Promise<PerformanceCriteria> {
-    const [performanceCriteria] = await db
-      .update(performance_criteria)
-      .set(updates)
-      .where(eq(performance_criteria.id, id))
-      .returning();
-    return performanceCriteria;
+        return {
+          oeeMetrics,
+          cycleTimeStats: cycleTimeStats[0] || {
+            avg_film_to_printing: 0,
+            avg_printing_to_cutting: 0,
+            avg_total_cycle_time: 0,
+            fastest_cycle: 0,
+            slowest_cycle: 0,
+          },
+          qualityMetrics: qualityMetrics[0] || {
+            total_rolls: 0,
+            defective_rolls: 0,
+            quality_rate: 95,
+            avg_waste_percentage: 0,
+            rework_rate: 0,
+          },
+        };
+      },
+      "getAdvancedMetrics",
+      "المؤشرات المتقدمة",
+    );
   }
 
-  // Performance Ratings
-  async getPerformanceRatings(reviewId: number): Promise<PerformanceRating[]> {
-    return await db
-      .select()
-      .from(performance_ratings)
-      .where(eq(performance_ratings.review_id, reviewId));
-  }
+  async getHRReports(dateFrom?: string, dateTo?: string): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const attendanceDateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${attendance.date}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${attendance.date}) >= CURRENT_DATE - INTERVAL '30 days'`;
 
-  async createPerformanceRating(
-    rating: InsertPerformanceRating,
-  ): Promise<PerformanceRating> {
-    const [performanceRating] = await db
-      .insert(performance_ratings)
-      .values(rating)
-      .returning();
-    return performanceRating;
-  }
+        const rollsDateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${rolls.created_at}) >= CURRENT_DATE - INTERVAL '30 days'`;
 
-  async updatePerformanceRating(
-    id: number,
-    updates: Partial<PerformanceRating>,
-  ): Promise<PerformanceRating> {
-    const [performanceRating] = await db
-      .update(performance_ratings)
-      .set(updates)
-      .where(eq(performance_ratings.id, id))
-      .returning();
-    return performanceRating;
-  }
+        const [attendanceStats, performanceStats, trainingStats] =
+          await Promise.all([
+            // إحصائيات الحضور والغياب
+            db
+              .select({
+                user_id: users.id,
+                username: users.username,
+                display_name_ar: users.display_name_ar,
+                role_name: sql<string>`COALESCE(${roles.name_ar}, ${roles.name})`,
+                present_days: sql<number>`COUNT(CASE WHEN ${attendance.status} = 'حاضر' THEN 1 END)`,
+                absent_days: sql<number>`COUNT(CASE WHEN ${attendance.status} = 'غائب' THEN 1 END)`,
+                late_days: sql<number>`COUNT(CASE WHEN EXTRACT(HOUR FROM ${attendance.check_in_time}) * 60 + EXTRACT(MINUTE FROM ${attendance.check_in_time}) > 510 THEN 1 END)`,
+                attendance_rate: sql<number>`COALESCE((COUNT(CASE WHEN ${attendance.status} = 'حاضر' THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100), 0)`,
+              })
+              .from(users)
+              .leftJoin(roles, eq(users.role_id, roles.id))
+              .leftJoin(
+                attendance,
+                and(eq(users.id, attendance.user_id), attendanceDateFilter),
+              )
+              .groupBy(
+                users.id,
+                users.username,
+                users.display_name_ar,
+                roles.name,
+                roles.name_ar,
+              ),
 
-  // Leave Types
-  async getLeaveTypes(): Promise<LeaveType[]> {
-    return await db
-      .select()
-      .from(leave_types)
-      .where(eq(leave_types.is_active, true));
-  }
+            // إحصائيات الأداء
+            db
+              .select({
+                user_id: users.id,
+                username: users.username,
+                display_name_ar: users.display_name_ar,
+                production_efficiency: sql<number>`COALESCE(AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)), 90)`,
+                total_production: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
+                error_rate: sql<number>`COALESCE(COUNT(CASE WHEN (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0)) * 100 > 10 THEN 1 END)::decimal / NULLIF(COUNT(*), 0) * 100, 0)`,
+                improvement_trend: sql<number>`COALESCE(CASE WHEN AVG(95 - (${rolls.waste_kg}::decimal / NULLIF(${rolls.weight_kg}, 0) * 100)) > 90 THEN 1 ELSE -1 END, 0)`,
+              })
+              .from(users)
+              .leftJoin(rolls, and(eq(users.id, rolls.created_by), rollsDateFilter))
+              .groupBy(users.id, users.username, users.display_name_ar),
 
-  async createLeaveType(leaveType: InsertLeaveType): Promise<LeaveType> {
-    const [newLeaveType] = await db
-      .insert(leave_types)
-      .values(leaveType)
-      .returning();
-    return newLeaveType;
-  }
+            // إحصائيات التدريب
+            db
+              .select({
+                total_programs: sql<number>`COUNT(DISTINCT ${training_programs.id})`,
+                total_enrollments: sql<number>`COUNT(${training_enrollments.id})`,
+                completed_trainings: sql<number>`COUNT(CASE WHEN ${training_enrollments.completion_status} = 'completed' THEN 1 END)`,
+                completion_rate: sql<number>`COALESCE(COUNT(CASE WHEN ${training_enrollments.completion_status} = 'completed' THEN 1 END)::decimal / NULLIF(COUNT(${training_enrollments.id}), 0) * 100, 0)`,
+              })
+              .from(training_programs)
+              .leftJoin(
+                training_enrollments,
+                eq(training_programs.id, training_enrollments.program_id),
+              ),
+          ]);
 
-  async updateLeaveType(
-    id: number,
-    updates: Partial<LeaveType>,
-  ): Promise<LeaveType> {
-    const [leaveType] = await db
-      .update(leave_types)
-      .set(updates)
-      .where(eq(leave_types.id, id))
-      .returning();
-    return leaveType;
+        return {
+          attendanceStats,
+          performanceStats,
+          trainingStats: trainingStats[0] || {
+            total_programs: 0,
+            total_enrollments: 0,
+            completed_trainings: 0,
+            completion_rate: 0,
+          },
+        };
+      },
+      "getHRReports",
+      "تقارير الموارد البشرية",
+    );
   }
 
-  // Leave Requests
-  async getLeaveRequests(employeeId?: string): Promise<LeaveRequest[]> {
-    const query = db.select().from(leave_requests);
-    if (employeeId) {
-      return await query
-        .where(eq(leave_requests.employee_id, employeeId))
-        .orderBy(desc(leave_requests.created_at));
-    }
-    return await query.orderBy(desc(leave_requests.created_at));
-  }
+  async getMaintenanceReports(
+    dateFrom?: string,
+    dateTo?: string,
+  ): Promise<any> {
+    return await withDatabaseErrorHandling(
+      async () => {
+        const dateFilter =
+          dateFrom && dateTo
+            ? sql`DATE(${maintenance_requests.date_reported}) BETWEEN ${dateFrom} AND ${dateTo}`
+            : sql`DATE(${maintenance_requests.date_reported}) >= CURRENT_DATE - INTERVAL '30 days'`;
 
-  async createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest> {
-    const [leaveRequest] = await db
-      .insert(leave_requests)
-      .values(request)
-      .returning();
-    return leaveRequest;
-  }
+        const [maintenanceStats, costAnalysis, downtimeAnalysis] =
+          await Promise.all([
+            // إحصائيات طلبات الصيانة
+            db
+              .select({
+                total_requests: sql<number>`COUNT(*)`,
+                completed_requests: sql<number>`COUNT(CASE WHEN ${maintenance_requests.status} = 'completed' THEN 1 END)`,
+                pending_requests: sql<number>`COUNT(CASE WHEN ${maintenance_requests.status} = 'pending' THEN 1 END)`,
+                critical_requests: sql<number>`COUNT(CASE WHEN ${maintenance_requests.urgency_level} = 'urgent' THEN 1 END)`,
+                avg_resolution_time: sql<number>`COALESCE(AVG(EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600), 0)`,
+              })
+              .from(maintenance_requests)
+              .where(dateFilter),
 
-  async updateLeaveRequest(
-    id: number,
-    updates: Partial<LeaveRequest>,
-  ): Promise<LeaveRequest> {
-    const [leaveRequest] = await db
-      .update(leave_requests)
-      .set({ ...updates, updated_at: new Date() })
-      .where(eq(leave_requests.id, id))
-      .returning();
-    return leaveRequest;
-  }
+            // تحليل التكاليف (مقدر)
+            db
+              .select({
+                machine_id: machines.id,
+                machine_name: sql<string>`COALESCE(${machines.name_ar}, ${machines.name})`,
+                maintenance_count: sql<number>`COUNT(${maintenance_requests.id})`,
+                estimated_cost: sql<number>`COUNT(${maintenance_requests.id}) * 500`, // تكلفة تقديرية
+                downtime_hours: sql<number>`COALESCE(SUM(EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600), 0)`,
+              })
+              .from(machines)
+              .leftJoin(
+                maintenance_requests,
+                and(
+                  eq(machines.id, maintenance_requests.machine_id),
+                  dateFilter,
+                ),
+              )
+              .groupBy(machines.id, machines.name, machines.name_ar),
 
-  async getLeaveRequestById(id: number): Promise<LeaveRequest | undefined> {
-    const [request] = await db
-      .select()
-      .from(leave_requests)
-      .where(eq(leave_requests.id, id));
-    return request || undefined;
-  }
-
-  async getPendingLeaveRequests(): Promise<LeaveRequest[]> {
-    return await db
-      .select()
-      .from(leave_requests)
-      .where(eq(leave_requests.final_status, "pending"))
-      .orderBy(desc(leave_requests.created_at));
-  }
-
-  async deleteLeaveRequest(id: number): Promise<void> {
-    return await db.transaction(async (tx) => {
-      try {
-        // Get the leave request details first to restore leave balance if needed
-        const [leaveRequest] = await tx
-          .select()
-          .from(leave_requests)
-          .where(eq(leave_requests.id, id));
-
-        if (!leaveRequest) {
-          throw new Error("طلب الإجازة غير موجود");
-        }
-
-        // If the leave request was approved, restore the leave balance
-        if (leaveRequest.final_status === "approved") {
-          const requestYear = new Date(leaveRequest.start_date).getFullYear();
-          await tx.execute(sql`
-            UPDATE leave_balances 
-            SET used_days = GREATEST(0, used_days - ${leaveRequest.days_count}),
-                remaining_days = LEAST(allocated_days, remaining_days + ${leaveRequest.days_count})
-            WHERE employee_id = ${leaveRequest.employee_id} 
-              AND leave_type_id = ${leaveRequest.leave_type_id} 
-              AND year = ${requestYear}
-          `);
-        }
-
-        // Delete related notifications
-        await tx
-          .delete(notifications)
-          .where(
-            and(
-              eq(notifications.context_type, "leave_request"),
-              eq(notifications.context_id, id.toString()),
-            ),
-          );
-
-        // Then delete the leave request
-        await tx.delete(leave_requests).where(eq(leave_requests.id, id));
-      } catch (error) {
-        console.error("Error deleting leave request:", error);
-        throw new Error("فشل في حذف طلب الإجازة");
-      }
-    });
-  }
-
-  // Leave Balances
-  async getLeaveBalances(
-    employeeId: string,
-    year?: number,
-  ): Promise<LeaveBalance[]> {
-    if (year) {
-      return await db
-        .select()
-        .from(leave_balances)
-        .where(
-          and(
-            eq(leave_balances.employee_id, employeeId),
-            eq(leave_balances.year, year),
-          ),
-        );
-    }
-    return await db
-      .select()
-      .from(leave_balances)
-      .where(eq(leave_balances.employee_id, employeeId));
-  }
-
-  async createLeaveBalance(balance: InsertLeaveBalance): Promise<LeaveBalance> {
-    const [leaveBalance] = await db
-      .insert(leave_balances)
-      .values(balance)
-      .returning();
-    return leaveBalance;
-  }
-
-  async updateLeaveBalance(
-    id: number,
-    updates: Partial<LeaveBalance>,
-  ): Promise<LeaveBalance> {
-    const [leaveBalance] = await db
-      .update(leave_balances)
-      .set(updates)
-      .where(eq(leave_balances.id, id))
-      .returning();
-    return leaveBalance;
-  }
+            // تحليل فترات التوقف
+            db
+              .select({
+                total_downtime: sql<number>`COALESCE(SUM(EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600), 0)`,
+                planned_downtime: sql<number>`COALESCE(SUM(CASE WHEN ${maintenance_requests.issue_type} = 'mechanical' THEN EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600 END), 0)`,
+                unplanned_downtime: sql<number>`COALESCE(SUM(CASE WHEN ${maintenance_requests.issue_type} = 'electrical' THEN EXTRACT(EPOCH FROM (${maintenance_requests.date_resolved} - ${maintenance_requests.date_reported}))/3600 END), 0)`,
+                mtbf: sql<number>`168`, // Mean Time Between Failures - simplified calculation
+              })
+              .from(maintenance_requests)
+              .where(
+                and(
+                  dateFilter,
+                  sql`${maintenance_requests.date_resolved} IS NOT NULL`,
+                ),
+              ),
+          ]);
 
-  async getLeaveBalanceByType(
-    employeeId: string,
-    leaveTypeId: number,
-    year: number,
-  ): Promise<LeaveBalance | undefined> {
-    const [balance] = await db
-      .select()
-      .from(leave_balances)
-      .where(
-        and(
-          eq(leave_balances.employee_id, employeeId),
-          eq(leave_balances.leave_type_id, leaveTypeId),
-          eq(leave_balances.year, year),
-        ),
-      );
-    return balance || undefined;
+        return {
+          maintenanceStats: maintenanceStats[0] || {
+            total_requests: 0,
+            completed_requests: 0,
+            pending_requests: 0,
+            critical_requests: 0,
+            avg_resolution_time: 0,
+          },
+          costAnalysis,
+          downtimeAnalysis: downtimeAnalysis[0] || {
+            total_downtime: 0,
+            planned_downtime: 0,
+            unplanned_downtime: 0,
+            mtbf: 168,
+          },
+        };
+      },
+      "getMaintenanceReports",
+      "تقارير الصيانة",
+    );
   }
 
-  // ============ Inventory Management ============
-
-  async getInventoryItems(): Promise<any[]> {
+  async getItems(): Promise<any[]> {
     const result = await db
       .select({
-        id: inventory.id,
-        item_id: inventory.item_id,
-        location_id: inventory.location_id,
-        item_name: items.name,
-        item_name_ar: items.name_ar,
-        item_code: items.code,
+        id: items.id,
+        category_id: items.category_id,
+        name: items.name,
+        name_ar: items.name_ar,
+        code: items.code,
+        status: items.status,
         category_name: categories.name,
         category_name_ar: categories.name_ar,
-        location_name: locations.name,
-        location_name_ar: locations.name_ar,
-        current_stock: inventory.current_stock,
-        min_stock: inventory.min_stock,
-        max_stock: inventory.max_stock,
-        unit: inventory.unit,
-        cost_per_unit: inventory.cost_per_unit,
-        last_updated: inventory.last_updated,
       })
-      .from(inventory)
-      .leftJoin(items, eq(inventory.item_id, items.id))
+      .from(items)
       .leftJoin(categories, eq(items.category_id, categories.id))
-      .leftJoin(locations, eq(inventory.location_id, locations.id))
       .orderBy(items.name_ar);
 
     return result;
   }
 
-  async createInventoryItem(item: InsertInventory): Promise<Inventory> {
-    const [inventoryItem] = await db.insert(inventory).values(item).returning();
-    return inventoryItem;
+  async getCustomerProducts(limit: number = 1000): Promise<CustomerProduct[]> {
+    return await db
+      .select({
+        id: customer_products.id,
+        customer_id: customer_products.customer_id,
+        category_id: customer_products.category_id,
+        item_id: customer_products.item_id,
+        size_caption: customer_products.size_caption,
+        width: customer_products.width,
+        left_facing: customer_products.left_facing,
+        right_facing: customer_products.right_facing,
+        thickness: customer_products.thickness,
+        printing_cylinder: customer_products.printing_cylinder,
+        cutting_length_cm: customer_products.cutting_length_cm,
+        raw_material: customer_products.raw_material,
+        master_batch_id: customer_products.master_batch_id,
+        is_printed: customer_products.is_printed,
+        cutting_unit: customer_products.cutting_unit,
+        punching: customer_products.punching,
+        unit_weight_kg: customer_products.unit_weight_kg,
+        unit_quantity: customer_products.unit_quantity,
+        package_weight_kg: customer_products.package_weight_kg,
+        cliche_front_design: customer_products.cliche_front_design,
+        cliche_back_design: customer_products.cliche_back_design,
+        notes: customer_products.notes,
+        status: customer_products.status,
+        created_at: customer_products.created_at,
+        customer_name: customers.name,
+        customer_name_ar: customers.name_ar,
+        customer_code: customers.code,
+      })
+      .from(customer_products)
+      .leftJoin(customers, eq(customer_products.customer_id, customers.id))
+      .orderBy(desc(customer_products.created_at))
+      .limit(limit)
+      .then((results) =>
+        results.map((row) => ({
+          ...row,
+          customer_name: row.customer_name || undefined,
+          customer_name_ar: row.customer_name_ar || undefined,
+          customer_code: row.customer_code || undefined,
+        })),
+      );
   }
 
-  async updateInventoryItem(
-    id: number,
-    updates: Partial<Inventory>,
-  ): Promise<Inventory> {
-    const [inventoryItem] = await db
-      .update(inventory)
-      .set({ ...updates, last_updated: new Date() })
-      .where(eq(inventory.id, id))
-      .returning();
-    return inventoryItem;
+  async getLocations(): Promise<Location[]> {
+    return await db.select().from(locations);
   }
 
-  async deleteInventoryItem(id: number): Promise<boolean> {
-    const result = await db.delete(inventory).where(eq(inventory.id, id));
-    return (result.rowCount || 0) > 0;
+  async getCategories(): Promise<any[]> {
+    return await db.select().from(categories);
   }
 
-  async getInventoryByItemId(itemId: string): Promise<Inventory | undefined> {
-    const [item] = await db
-      .select()
-      .from(inventory)
-      .where(eq(inventory.item_id, itemId));
-    return item || undefined;
+  async createCategory(data: any): Promise<any> {
+    const [newCategory] = await db.insert(categories).values(data).returning();
+    return newCategory;
   }
 
-  async getInventoryStats(): Promise<any> {
-    const totalItems = await db.select({ count: count() }).from(inventory);
-    const lowStockItems = await db
-      .select({ count: count() })
-      .from(inventory)
-      .where(sql`${inventory.current_stock} <= ${inventory.min_stock}`);
+  async updateCategory(id: string, data: any): Promise<any> {
+    const [updatedCategory] = await db
+      .update(categories)
+      .set(data)
+      .where(eq(categories.id, id))
+      .returning();
+    return updatedCategory;
+  }
 
-    const totalValue = await db
-      .select({
-        total: sum(
-          sql`${inventory.current_stock} * ${inventory.cost_per_unit}`,
-        ),
-      })
-      .from(inventory);
-
-    // Get today's movements
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayMovements = await db
-      .select({ count: count() })
-      .from(inventory_movements)
-      .where(sql`DATE(${inventory_movements.created_at}) = CURRENT_DATE`);
-
-    return {
-      totalItems: totalItems[0]?.count || 0,
-      lowStockItems: lowStockItems[0]?.count || 0,
-      totalValue: totalValue[0]?.total || 0,
-      movementsToday: todayMovements[0]?.count || 0,
-    };
-  }
-
-  // ============ Inventory Movements ============
-
-  async getInventoryMovements(): Promise<any[]> {
-    const result = await db
-      .select({
-        id: inventory_movements.id,
-        inventory_id: inventory_movements.inventory_id,
-        item_name: items.name_ar,
-        item_code: items.code,
-        location_name: locations.name_ar,
-        movement_type: inventory_movements.movement_type,
-        quantity: inventory_movements.quantity,
-        unit_cost: inventory_movements.unit_cost,
-        total_cost: inventory_movements.total_cost,
-        reference_number: inventory_movements.reference_number,
-        reference_type: inventory_movements.reference_type,
-        notes: inventory_movements.notes,
-        created_by: inventory_movements.created_by,
-        created_at: inventory_movements.created_at,
-        user_name: users.username,
-      })
-      .from(inventory_movements)
-      .leftJoin(inventory, eq(inventory_movements.inventory_id, inventory.id))
-      .leftJoin(items, eq(inventory.item_id, items.id))
-      .leftJoin(locations, eq(inventory.location_id, locations.id))
-      .leftJoin(users, eq(inventory_movements.created_by, users.id))
-      .orderBy(desc(inventory_movements.created_at));
-
-    return result;
+  async deleteCategory(id: string): Promise<void> {
+    await db.delete(categories).where(eq(categories.id, id));
   }
 
-  async createInventoryMovement(
-    data: InsertInventoryMovement,
-  ): Promise<InventoryMovement> {
-    return await withDatabaseErrorHandling(async () => {
-      // STEP 0: MANDATORY DATAVALIDATOR INTEGRATION - Validate BEFORE database write
-      const dataValidator = getDataValidator(this);
-      const validationResult = await dataValidator.validateEntity(
-        "inventory_movements",
-        data,
-        false,
-      );
+  // Cache for dashboard stats - expires after 2 minutes
+  private dashboardStatsCache: { data: any; expiry: number } | null = null;
 
-      if (!validationResult.isValid) {
-        console.error(
-          "[Storage] ❌ INVENTORY MOVEMENT VALIDATION FAILED:",
-          validationResult.errors,
-        );
-        throw new DatabaseError(
-          `فشل التحقق من صحة حركة المخزون: ${validationResult.errors.map((e) => e.message_ar).join(", ")}`,
-          {
-            code: "VALIDATION_FAILED",
-            validationErrors: validationResult.errors,
-          },
-        );
-      }
+  async getDashboardStats(): Promise<{
+    activeOrders: number;
+    productionRate: number;
+    qualityScore: number;
+    wastePercentage: number;
+  }> {
+    // Check cache first
+    const now = Date.now();
+    if (this.dashboardStatsCache && this.dashboardStatsCache.expiry > now) {
+      return this.dashboardStatsCache.data;
+    }
 
-      console.log(
-        "[Storage] ✅ Inventory movement validation passed, proceeding with database write",
-      );
+    // Optimize: Get all stats in parallel instead of sequential queries
+    const [activeOrdersResult, productionResult, qualityResult, wasteResult] =
+      await Promise.all([
+        // Active orders count
+        db
+          .select({ count: count() })
+          .from(orders)
+          .where(
+            or(
+              eq(orders.status, "in_production"),
+              eq(orders.status, "waiting"),
+              eq(orders.status, "pending"),
+            ),
+          ),
 
-      return await db.transaction(async (tx) => {
-        // STEP 1: Lock inventory item to prevent race conditions
-        let currentInventory: any = null;
-        if (data.inventory_id) {
-          [currentInventory] = await tx
-            .select()
-            .from(inventory)
-            .where(eq(inventory.id, data.inventory_id))
-            .for("update");
+        // Production rate (percentage based on production orders) - using existing quantity field
+        db
+          .select({
+            totalRequired: sum(production_orders.quantity_kg),
+            totalProduced: sql<number>`COALESCE(SUM(${rolls.weight_kg}), 0)`,
+          })
+          .from(production_orders)
+          .leftJoin(rolls, eq(production_orders.id, rolls.production_order_id)),
 
-          if (!currentInventory) {
-            throw new Error("عنصر المخزون غير موجود");
-          }
-        }
+        // Quality score (average from quality checks) - limited to recent checks for performance
+        db
+          .select({
+            avgScore: sql<number>`AVG(CAST(${quality_checks.score} AS DECIMAL))`,
+          })
+          .from(quality_checks)
+          .where(
+            sql`${quality_checks.created_at} >= NOW() - INTERVAL '30 days'`,
+          )
+          .limit(1000), // Limit for performance
 
-        // STEP 2: Validate inventory constraints before movement
-        const currentStock = parseFloat(currentInventory?.current_stock || "0");
-        const movementQty = parseFloat(data.quantity?.toString() || "0");
+        // Waste percentage - limited to recent waste for performance
+        db
+          .select({
+            totalWaste: sum(waste.quantity_wasted),
+          })
+          .from(waste)
+          .where(sql`${waste.created_at} >= NOW() - INTERVAL '7 days'`)
+          .limit(1000), // Limit for performance
+      ]);
 
-        if (movementQty <= 0) {
-          throw new Error("كمية الحركة يجب أن تكون أكبر من صفر");
-        }
+    const activeOrders = activeOrdersResult[0]?.count || 0;
 
-        let newStock = currentStock;
-        if (data.movement_type === "in") {
-          newStock = currentStock + movementQty;
-        } else if (data.movement_type === "out") {
-          // INVARIANT C: Prevent negative inventory
-          if (currentStock < movementQty) {
-            throw new Error(
-              `المخزون غير كافي. المتاح: ${currentStock.toFixed(2)}, المطلوب: ${movementQty.toFixed(2)}`,
-            );
-          }
-          newStock = currentStock - movementQty;
-        } else if (data.movement_type === "adjustment") {
-          // For adjustments, the quantity represents the final stock level
-          newStock = movementQty;
-        }
+    const productionRate =
+      productionResult[0]?.totalRequired &&
+      Number(productionResult[0].totalRequired) > 0
+        ? Math.round(
+            (Number(productionResult[0].totalProduced) /
+              Number(productionResult[0].totalRequired)) *
+              100,
+          )
+        : 0;
 
-        // INVARIANT C: Final check - ensure stock doesn't go negative
-        if (newStock < 0) {
-          throw new Error("لا يمكن أن يكون المخزون سالب");
-        }
+    const qualityScore = qualityResult[0]?.avgScore
+      ? Math.round(Number(qualityResult[0].avgScore) * 20) // Convert 1-5 to percentage
+      : 95; // Default high score
 
-        // STEP 3: Create the movement record
-        const [movement] = await tx
-          .insert(inventory_movements)
-          .values(data)
-          .returning();
+    const wastePercentage = wasteResult[0]?.totalWaste
+      ? Number(wasteResult[0].totalWaste) / 100 // Convert to percentage
+      : 2.5; // Default low waste
 
-        // STEP 4: Update inventory stock atomically
-        if (movement.inventory_id) {
-          await tx
-            .update(inventory)
-            .set({
-              current_stock: newStock.toString(),
-              last_updated: new Date(),
-            })
-            .where(eq(inventory.id, movement.inventory_id));
-        }
+    const result = {
+      activeOrders,
+      productionRate,
+      qualityScore,
+      wastePercentage,
+    };
 
-        return movement;
-      });
-    }, "إنشاء حركة مخزون");
-  }
+    // Cache the result for 2 minutes
+    this.dashboardStatsCache = {
+      data: result,
+      expiry: now + 2 * 60 * 1000,
+    };
 
-  async deleteInventoryMovement(id: number): Promise<boolean> {
-    const result = await db
-      .delete(inventory_movements)
-      .where(eq(inventory_movements.id, id));
-    return (result.rowCount || 0) > 0;
+    return result;
   }
 
-  // ============ Extended Location Management ============
-
-  async createLocationExtended(data: any): Promise<Location> {
-    const [location] = await db.insert(locations).values(data).returning();
-    return location;
+  // Training Records
+  async getTrainingRecords(): Promise<TrainingRecord[]> {
+    return await db
+      .select()
+      .from(training_records)
+      .orderBy(desc(training_records.date));
   }
 
-  async updateLocationExtended(id: string, updates: any): Promise<Location> {
-    const [location] = await db
-      .update(locations)
-      .set(updates)
-      .where(eq(locations.id, id))
+  async createTrainingRecord(record: any): Promise<TrainingRecord> {
+    const [newRecord] = await db
+      .insert(training_records)
+      .values(record)
       .returning();
-    return location;
+    return newRecord;
   }
 
-  async deleteLocationExtended(id: string): Promise<void> {
-    await db.delete(locations).where(eq(locations.id, id));
+  // Admin Decisions
+  async getAdminDecisions(): Promise<AdminDecision[]> {
+    return await db
+      .select()
+      .from(admin_decisions)
+      .orderBy(desc(admin_decisions.date));
   }
 
-  // ============ Inventory Movements Management ============
-
-  async getAllInventoryMovements(): Promise<any[]> {
-    const movements = await db
-      .select({
-        id: inventory_movements.id,
-        inventory_id: inventory_movements.inventory_id,
-        movement_type: inventory_movements.movement_type,
-        quantity: inventory_movements.quantity,
-        unit_cost: inventory_movements.unit_cost,
-        total_cost: inventory_movements.total_cost,
-        reference_number: inventory_movements.reference_number,
-        reference_type: inventory_movements.reference_type,
-        notes: inventory_movements.notes,
-        created_at: inventory_movements.created_at,
-        created_by: inventory_movements.created_by,
-        item_name: items.name_ar,
-        item_code: items.code,
-        user_name: users.display_name_ar,
-      })
-      .from(inventory_movements)
-      .leftJoin(inventory, eq(inventory_movements.inventory_id, inventory.id))
-      .leftJoin(items, eq(inventory.item_id, items.id))
-      .leftJoin(users, eq(inventory_movements.created_by, users.id))
-      .orderBy(desc(inventory_movements.created_at));
-
-    return movements;
+  async createAdminDecision(decision: any): Promise<AdminDecision> {
+    const [newDecision] = await db
+      .insert(admin_decisions)
+      .values(decision)
+      .returning();
+    return newDecision;
   }
 
-  // ============ Settings Management ============
-
-  async getSystemSettings(): Promise<SystemSetting[]> {
+  // Warehouse Transactions
+  async getWarehouseTransactions(): Promise<WarehouseTransaction[]> {
     return await db
       .select()
-      .from(system_settings)
-      .orderBy(system_settings.setting_key);
-  }
-
-  async getSystemSettingByKey(key: string): Promise<SystemSetting | undefined> {
-    const [setting] = await db
-      .select()
-      .from(system_settings)
-      .where(eq(system_settings.setting_key, key));
-    return setting || undefined;
+      .from(warehouse_transactions)
+      .orderBy(desc(warehouse_transactions.date));
   }
 
-  async createSystemSetting(
-    setting: InsertSystemSetting,
-  ): Promise<SystemSetting> {
-    const [newSetting] = await db
-      .insert(system_settings)
-      .values(setting)
+  async createWarehouseTransaction(
+    transaction: any,
+  ): Promise<WarehouseTransaction> {
+    const [newTransaction] = await db
+      .insert(warehouse_transactions)
+      .values(transaction)
       .returning();
-    return newSetting;
+    return newTransaction;
   }
 
-  async updateSystemSetting(
-    key: string,
-    value: string,
-    userId: number,
-  ): Promise<SystemSetting> {
-    const [setting] = await db
-      .update(system_settings)
-      .set({
-        setting_value: value,
-        updated_at: new Date(),
-        updated_by: userId.toString(),
-      })
-      .where(eq(system_settings.setting_key, key))
-      .returning();
-    return setting;
-  }
+  // Mixing Recipes
+  async getMixingRecipes(): Promise<MixingRecipeWithVersion[]> {
+    return withDatabaseErrorHandling(async () => {
+      const recipes = await db
+        .select()
+        .from(mixing_recipes)
+        .orderBy(desc(mixing_recipes.created_at));
+
+      const currentVersions = await db
+        .select(getTableColumns(mixing_recipe_versions))
+        .from(mixing_recipe_versions)
+        .innerJoin(
+          mixing_recipes,
+          and(
+            eq(mixing_recipe_versions.recipe_id, mixing_recipes.id),
+            eq(mixing_recipe_versions.version, mixing_recipes.current_version),
+          ),
+        );
+      const withCost = await this.withRecipeCosts(currentVersions);
 
-  async getUserSettings(userId: number): Promise<UserSetting[]> {
-    return await db
-      .select()
-      .from(user_settings)
-      .where(eq(user_settings.user_id, userId.toString()));
+      // الوصفات القديمة المنشأة قبل نظام الإصدارات ليس لها إصدار حالي
+      return recipes.map((recipe) => ({
+        ...recipe,
+        current:
+          withCost.find((version) => version.recipe_id === recipe.id) || null,
+      }));
+    }, "جلب وصفات الخلط");
   }
 
-  async getUserSettingByKey(
-    userId: number,
-    key: string,
-  ): Promise<UserSetting | undefined> {
-    const [setting] = await db
-      .select()
-      .from(user_settings)
-      .where(
-        sql`${user_settings.user_id} = ${userId.toString()} AND ${user_settings.setting_key} = ${key}`,
-      );
-    return setting || undefined;
+  async getMixingRecipeVersions(
+    recipeId: number,
+  ): Promise<MixingRecipeVersionWithCost[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const versions = await db
+          .select({
+            ...getTableColumns(mixing_recipe_versions),
+            production_order_count: sql<number>`(
+              SELECT COUNT(*)::int FROM ${production_orders}
+              WHERE ${production_orders.mixing_recipe_version_id} = ${mixing_recipe_versions.id}
+            )`,
+          })
+          .from(mixing_recipe_versions)
+          .where(eq(mixing_recipe_versions.recipe_id, recipeId))
+          .orderBy(desc(mixing_recipe_versions.version));
+        return await this.withRecipeCosts(versions);
+      },
+      "جلب إصدارات وصفة الخلط",
+      `الوصفة ${recipeId}`,
+    );
   }
 
-  async createUserSetting(setting: InsertUserSetting): Promise<UserSetting> {
-    const [newSetting] = await db
-      .insert(user_settings)
-      .values(setting)
-      .returning();
-    return newSetting;
-  }
+  async createMixingRecipe(
+    recipe: InsertMixingRecipe,
+    createdBy: number,
+  ): Promise<MixingRecipeWithVersion> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const created = await db.transaction(async (tx) => {
+          const { layers, notes, ...header } = recipe;
+          const materialItems = flattenRecipeLayers(layers);
 
-  async updateUserSetting(
-    userId: number,
-    key: string,
-    value: string,
-  ): Promise<UserSetting> {
-    // Try to update existing setting first
-    const [existingSetting] = await db
-      .select()
-      .from(user_settings)
-      .where(
-        sql`${user_settings.user_id} = ${userId.toString()} AND ${user_settings.setting_key} = ${key}`,
-      );
+          const [newRecipe] = await tx
+            .insert(mixing_recipes)
+            .values({
+              ...header,
+              formula_layers: recipe.machine_type === "ABA" ? 3 : 1,
+              material_items: materialItems,
+              current_version: 1,
+            })
+            .returning();
 
-    if (existingSetting) {
-      const [setting] = await db
-        .update(user_settings)
-        .set({
-          setting_value: value,
-          updated_at: new Date(),
-        })
-        .where(
-          sql`${user_settings.user_id} = ${userId.toString()} AND ${user_settings.setting_key} = ${key}`,
-        )
-        .returning();
-      return setting;
-    } else {
-      // Create new setting if it doesn't exist
-      return await this.createUserSetting({
-        user_id: userId.toString(),
-        setting_key: key,
-        setting_value: value,
-      });
-    }
-  }
+          const [version] = await tx
+            .insert(mixing_recipe_versions)
+            .values({
+              recipe_id: newRecipe.id,
+              version: 1,
+              machine_type: recipe.machine_type,
+              layers,
+              material_items: materialItems,
+              master_batch_id: recipe.master_batch_id ?? null,
+              notes: notes ?? null,
+              created_by: createdBy,
+            })
+            .returning();
 
-  // ============ Data Mapping Implementation ============
+          return { recipe: newRecipe, version };
+        });
 
-  async getDataMappings(configId: number): Promise<any[]> {
-    // For now, return sample mappings. In a real implementation, this would fetch from database
-    return [
-      {
-        id: 1,
-        config_id: configId,
-        local_table: "customers",
-        local_field: "name",
-        remote_table: "clients",
-        remote_field: "client_name",
-        mapping_type: "direct",
-        transformation_rule: null,
-        is_active: true,
-      },
-      {
-        id: 2,
-        config_id: configId,
-        local_table: "items",
-        local_field: "code",
-        remote_table: "products",
-        remote_field: "product_code",
-        mapping_type: "direct",
-        transformation_rule: null,
-        is_active: true,
+        const [current] = await this.withRecipeCosts([created.version]);
+        return { ...created.recipe, current };
       },
-      {
-        id: 3,
-        config_id: configId,
-        local_table: "customer_products",
-        local_field: "price",
-        remote_table: "product_prices",
-        remote_field: "unit_price",
-        mapping_type: "transform",
-        transformation_rule: "multiply_by_1.15", // Add 15% tax
-        is_active: true,
+      "إنشاء وصفة الخلط",
+      recipe.name,
+    );
+  }
+
+  /**
+   * تعديل الوصفة ينشئ إصداراً جديداً ولا يغير الإصدارات السابقة
+   * أوامر الإنتاج القائمة تبقى مرتبطة بالإصدار الذي أُنشئت عليه
+   */
+  async createMixingRecipeVersion(
+    recipeId: number,
+    recipe: InsertMixingRecipe,
+    createdBy: number,
+  ): Promise<MixingRecipeWithVersion | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const created = await db.transaction(async (tx) => {
+          const [existing] = await tx
+            .select()
+            .from(mixing_recipes)
+            .where(eq(mixing_recipes.id, recipeId))
+            .for("update");
+          if (!existing) return undefined;
+
+          const [{ next_version }] = await tx
+            .select({
+              next_version: sql<number>`COALESCE(MAX(${mixing_recipe_versions.version}), 0)::int + 1`,
+            })
+            .from(mixing_recipe_versions)
+            .where(eq(mixing_recipe_versions.recipe_id, recipeId));
+
+          const { layers, notes, ...header } = recipe;
+          const materialItems = flattenRecipeLayers(layers);
+
+          const [version] = await tx
+            .insert(mixing_recipe_versions)
+            .values({
+              recipe_id: recipeId,
+              version: next_version,
+              machine_type: recipe.machine_type,
+              layers,
+              material_items: materialItems,
+              master_batch_id: recipe.master_batch_id ?? null,
+              notes: notes ?? null,
+              created_by: createdBy,
+            })
+            .returning();
+
+          const [updated] = await tx
+            .update(mixing_recipes)
+            .set({
+              ...header,
+              formula_layers: recipe.machine_type === "ABA" ? 3 : 1,
+              material_items: materialItems,
+              current_version: next_version,
+            })
+            .where(eq(mixing_recipes.id, recipeId))
+            .returning();
+
+          return { recipe: updated, version };
+        });
+        if (!created) return undefined;
+
+        const [current] = await this.withRecipeCosts([created.version]);
+        return { ...created.recipe, current };
       },
-    ];
+      "إنشاء إصدار جديد لوصفة الخلط",
+      `الوصفة ${recipeId}`,
+    );
   }
 
-  async createDataMapping(mapping: any): Promise<any> {
-    // For now, return the mapping with a generated ID
-    return {
-      id: Math.floor(Math.random() * 1000),
-      ...mapping,
-      created_at: new Date(),
-      updated_at: new Date(),
-    };
+  async updateMixingRecipeStatus(
+    id: number,
+    isActive: boolean,
+  ): Promise<MixingRecipe | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [recipe] = await db
+          .update(mixing_recipes)
+          .set({ is_active: isActive })
+          .where(eq(mixing_recipes.id, id))
+          .returning();
+        return recipe;
+      },
+      "تحديث حالة وصفة الخلط",
+      `الوصفة ${id}`,
+    );
   }
 
-  async updateDataMapping(id: number, mapping: any): Promise<any> {
-    // For now, return the updated mapping
-    return {
-      id,
-      ...mapping,
-      updated_at: new Date(),
-    };
+  // تكلفة الكيلو لكل مادة: المتوسط المرجح بالرصيد عبر المواقع، أو متوسط التكلفة إذا لم يوجد رصيد
+  private async getMaterialUnitCosts(
+    itemIds: string[],
+  ): Promise<Map<string, { name: string | null; unit_cost: number | null }>> {
+    const unitCosts = new Map<
+      string,
+      { name: string | null; unit_cost: number | null }
+    >();
+    if (itemIds.length === 0) return unitCosts;
+
+    const rows = await db
+      .select({
+        item_id: items.id,
+        name: items.name,
+        name_ar: items.name_ar,
+        weighted_cost: sql<string | null>`SUM(${inventory.current_stock} * ${inventory.cost_per_unit}) / NULLIF(SUM(${inventory.current_stock}) FILTER (WHERE ${inventory.cost_per_unit} IS NOT NULL), 0)`,
+        average_cost: sql<string | null>`AVG(${inventory.cost_per_unit})`,
+      })
+      .from(items)
+      .leftJoin(inventory, eq(inventory.item_id, items.id))
+      .where(inArray(items.id, itemIds))
+      .groupBy(items.id, items.name, items.name_ar);
+
+    for (const row of rows) {
+      const cost = row.weighted_cost ?? row.average_cost;
+      unitCosts.set(row.item_id, {
+        name: row.name_ar || row.name,
+        unit_cost: cost === null ? null : parseFloat(cost),
+      });
+    }
+    return unitCosts;
   }
 
-  async deleteDataMapping(id: number): Promise<boolean> {
-    // For now, always return true
-    return true;
+  private async withRecipeCosts<T extends MixingRecipeVersion>(
+    versions: T[],
+  ): Promise<(T & { cost: MixingRecipeCost })[]> {
+    const itemIds = Array.from(
+      new Set(
+        versions.flatMap((version) =>
+          version.material_items.map((material) => material.item_id),
+        ),
+      ),
+    );
+    const unitCosts = await this.getMaterialUnitCosts(itemIds);
+    const settings = await this.getProductionSettings();
+    const scrapPercent = parseFloat(settings?.material_scrap_percent || "0");
+
+    return versions.map((version) => ({
+      ...version,
+      cost: buildRecipeCost(version.material_items, unitCosts, scrapPercent),
+    }));
+  }
+
+  // الإصدار الحالي للوصفة الذي يُثبت على أمر الإنتاج
+  private async resolveRecipeVersionId(
+    tx: DbTransaction,
+    recipeId: number | null | undefined,
+  ): Promise<number | null> {
+    if (!recipeId) return null;
+
+    const [version] = await tx
+      .select({ id: mixing_recipe_versions.id })
+      .from(mixing_recipe_versions)
+      .innerJoin(
+        mixing_recipes,
+        and(
+          eq(mixing_recipe_versions.recipe_id, mixing_recipes.id),
+          eq(mixing_recipe_versions.version, mixing_recipes.current_version),
+        ),
+      )
+      .where(eq(mixing_recipes.id, recipeId));
+    return version?.id ?? null;
   }
 
-  // ============ Data Synchronization Implementation ============
+  // ============ HR System Implementation ============
 
-  async syncData(
-    configId: number,
-    entityType: string,
-    direction: string,
-  ): Promise<any> {
-    // Simulate data synchronization process
-    const startTime = new Date();
+  // Training Programs
+  async getTrainingPrograms(): Promise<TrainingProgram[]> {
+    return await db
+      .select()
+      .from(training_programs)
+      .orderBy(desc(training_programs.created_at));
+  }
 
-    // Mock sync process
-    await new Promise((resolve) => setTimeout(resolve, 2000)); // Simulate 2 second sync
+  async createTrainingProgram(
+    program: InsertTrainingProgram,
+  ): Promise<TrainingProgram> {
+    const [trainingProgram] = await db
+      .insert(training_programs)
+      .values(program as any)
+      .returning();
+    return trainingProgram;
+  }
 
-    const recordsProcessed = Math.floor(Math.random() * 100) + 10;
-    const errors = Math.floor(Math.random() * 3);
+  async updateTrainingProgram(
+    id: number,
+    updates: Partial<TrainingProgram>,
+  ): Promise<TrainingProgram> {
+    const [trainingProgram] = await db
+      .update(training_programs)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(training_programs.id, id))
+      .returning();
+    return trainingProgram;
+  }
 
-    const syncResult = {
-      sync_id: Math.floor(Math.random() * 10000),
-      config_id: configId,
-      entity_type: entityType,
-      direction,
-      status: errors === 0 ? "success" : "partial_success",
-      records_processed: recordsProcessed,
-      records_success: recordsProcessed - errors,
-      records_failed: errors,
-      started_at: startTime,
-      completed_at: new Date(),
-      duration_ms: 2000,
-      error_details: errors > 0 ? [`خطأ في معالجة ${errors} من السجلات`] : null,
-    };
+  async getTrainingProgramById(
+    id: number,
+  ): Promise<TrainingProgram | undefined> {
+    const [program] = await db
+      .select()
+      .from(training_programs)
+      .where(eq(training_programs.id, id));
+    return program || undefined;
+  }
 
-    // Log the sync operation
-    await this.createSyncLog({
-      config_id: configId,
-      entity_type: entityType,
-      sync_direction: direction,
-      status: syncResult.status,
-      records_processed: recordsProcessed,
-      records_success: recordsProcessed - errors,
-      records_failed: errors,
-      error_details: syncResult.error_details?.join(", ") || null,
-      started_at: startTime,
-      completed_at: new Date(),
-    });
+  // Training Materials
+  async getTrainingMaterials(programId?: number): Promise<TrainingMaterial[]> {
+    const query = db.select().from(training_materials);
+    if (programId) {
+      return await query
+        .where(eq(training_materials.program_id, programId))
+        .orderBy(training_materials.order_index);
+    }
+    return await query.orderBy(
+      training_materials.program_id,
+      training_materials.order_index,
+    );
+  }
 
-    return syncResult;
+  async createTrainingMaterial(
+    material: InsertTrainingMaterial,
+  ): Promise<TrainingMaterial> {
+    const [trainingMaterial] = await db
+      .insert(training_materials)
+      .values(material)
+      .returning();
+    return trainingMaterial;
   }
 
-  async getSyncLogs(configId: number): Promise<any[]> {
-    // For now, return sample sync logs
-    return [
-      {
-        id: 1,
-        config_id: configId,
-        entity_type: "customers",
-        sync_direction: "import",
-        status: "success",
-        records_processed: 45,
-        records_success: 45,
-        records_failed: 0,
-        error_details: null,
-        started_at: new Date(Date.now() - 3600000), // 1 hour ago
-        completed_at: new Date(Date.now() - 3599000),
-        duration_ms: 1000,
-      },
-      {
-        id: 2,
-        config_id: configId,
-        entity_type: "items",
-        sync_direction: "export",
-        status: "partial_success",
-        records_processed: 120,
-        records_success: 118,
-        records_failed: 2,
-        error_details: "خطأ في معالجة 2 من السجلات",
-        started_at: new Date(Date.now() - 7200000), // 2 hours ago
-        completed_at: new Date(Date.now() - 7198000),
-        duration_ms: 2000,
-      },
-    ];
+  async updateTrainingMaterial(
+    id: number,
+    updates: Partial<TrainingMaterial>,
+  ): Promise<TrainingMaterial> {
+    const [trainingMaterial] = await db
+      .update(training_materials)
+      .set(updates)
+      .where(eq(training_materials.id, id))
+      .returning();
+    return trainingMaterial;
   }
 
-  async createSyncLog(log: any): Promise<any> {
-    // For now, return the log with a generated ID
-    return {
-      id: Math.floor(Math.random() * 1000),
-      ...log,
-      created_at: new Date(),
-    };
+  async deleteTrainingMaterial(id: number): Promise<boolean> {
+    const result = await db
+      .delete(training_materials)
+      .where(eq(training_materials.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
   }
 
-  // ============ Database Management Implementation ============
+  // Training Enrollments
+  async getTrainingEnrollments(
+    employeeId?: number,
+    scope?: DataScope,
+  ): Promise<TrainingEnrollment[]> {
+    return await db
+      .select()
+      .from(training_enrollments)
+      .where(
+        and(
+          employeeId
+            ? eq(training_enrollments.employee_id, employeeId)
+            : undefined,
+          scopedUserCondition(training_enrollments.employee_id, scope),
+        ),
+      )
+      .orderBy(desc(training_enrollments.enrolled_date));
+  }
 
-  async getDatabaseStats(): Promise<any> {
-    try {
-      // Get database size
-      const dbSize = await db.execute(sql`
-        SELECT pg_size_pretty(pg_database_size(current_database())) as size
-      `);
+  async createTrainingEnrollment(
+    enrollment: InsertTrainingEnrollment,
+  ): Promise<TrainingEnrollment> {
+    const [trainingEnrollment] = await db
+      .insert(training_enrollments)
+      .values(enrollment)
+      .returning();
+    return trainingEnrollment;
+  }
 
-      // Count total tables
-      const tableCount = await db.execute(sql`
-        SELECT COUNT(*) as count 
-        FROM information_schema.tables 
-        WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
-      `);
+  async updateTrainingEnrollment(
+    id: number,
+    updates: Partial<TrainingEnrollment>,
+  ): Promise<TrainingEnrollment> {
+    const [trainingEnrollment] = await db
+      .update(training_enrollments)
+      .set(updates)
+      .where(eq(training_enrollments.id, id))
+      .returning();
+    return trainingEnrollment;
+  }
 
-      // Get total records across all main tables
-      const recordCounts = await Promise.all([
-        db.select({ count: count() }).from(orders),
-        db.select({ count: count() }).from(customers),
-        db.select({ count: count() }).from(users),
-        db.select({ count: count() }).from(machines),
-        db.select({ count: count() }).from(locations),
-        db.select({ count: count() }).from(categories),
-        db.select({ count: count() }).from(items),
-      ]);
+  async getEnrollmentsByProgram(
+    programId: number,
+  ): Promise<TrainingEnrollment[]> {
+    return await db
+      .select()
+      .from(training_enrollments)
+      .where(eq(training_enrollments.program_id, programId))
+      .orderBy(desc(training_enrollments.enrolled_date));
+  }
 
-      const totalRecords = recordCounts.reduce(
-        (sum, result) => sum + (result[0]?.count || 0),
-        0,
-      );
+  // Training Evaluations
+  async getTrainingEvaluations(
+    employeeId?: number,
+    programId?: number,
+    scope?: DataScope,
+  ): Promise<TrainingEvaluation[]> {
+    return await db
+      .select()
+      .from(training_evaluations)
+      .where(
+        and(
+          employeeId
+            ? eq(training_evaluations.employee_id, employeeId)
+            : undefined,
+          programId ? eq(training_evaluations.program_id, programId) : undefined,
+          scopedUserCondition(training_evaluations.employee_id, scope),
+        ),
+      )
+      .orderBy(desc(training_evaluations.evaluation_date));
+  }
+
+  async createTrainingEvaluation(
+    evaluation: InsertTrainingEvaluation,
+  ): Promise<TrainingEvaluation> {
+    const [trainingEvaluation] = await db
+      .insert(training_evaluations)
+      .values(evaluation)
+      .returning();
+    return trainingEvaluation;
+  }
+
+  async updateTrainingEvaluation(
+    id: number,
+    updates: Partial<TrainingEvaluation>,
+  ): Promise<TrainingEvaluation> {
+    const [trainingEvaluation] = await db
+      .update(training_evaluations)
+      .set(updates)
+      .where(eq(training_evaluations.id, id))
+      .returning();
+    return trainingEvaluation;
+  }
+
+  async getTrainingEvaluationById(
+    id: number,
+  ): Promise<TrainingEvaluation | undefined> {
+    const [evaluation] = await db
+      .select()
+      .from(training_evaluations)
+      .where(eq(training_evaluations.id, id));
+    return evaluation || undefined;
+  }
+
+  // Training Certificates
+  async getTrainingCertificates(
+    employeeId?: number,
+    scope?: DataScope,
+  ): Promise<TrainingCertificate[]> {
+    return await db
+      .select()
+      .from(training_certificates)
+      .where(
+        and(
+          employeeId
+            ? eq(training_certificates.employee_id, employeeId)
+            : undefined,
+          scopedUserCondition(training_certificates.employee_id, scope),
+        ),
+      )
+      .orderBy(desc(training_certificates.issue_date));
+  }
+
+  async createTrainingCertificate(
+    certificate: InsertTrainingCertificate,
+  ): Promise<TrainingCertificate> {
+    const [trainingCertificate] = await db
+      .insert(training_certificates)
+      .values(certificate)
+      .returning();
+    return trainingCertificate;
+  }
+
+  async updateTrainingCertificate(
+    id: number,
+    updates: Partial<TrainingCertificate>,
+  ): Promise<TrainingCertificate> {
+    const [trainingCertificate] = await db
+      .update(training_certificates)
+      .set(updates)
+      .where(eq(training_certificates.id, id))
+      .returning();
+    return trainingCertificate;
+  }
+
+  async generateTrainingCertificate(
+    enrollmentId: number,
+  ): Promise<TrainingCertificate> {
+    // Get enrollment details
+    const [enrollment] = await db
+      .select()
+      .from(training_enrollments)
+      .where(eq(training_enrollments.id, enrollmentId));
+    if (!enrollment) {
+      throw new Error("Enrollment not found");
+    }
+
+    // Generate certificate number
+    const certificateNumber = generateCertificateNumber(enrollmentId);
+
+    // Create certificate
+    const certificate: InsertTrainingCertificate = {
+      enrollment_id: enrollmentId,
+      employee_id: enrollment.employee_id,
+      program_id: enrollment.program_id,
+      certificate_number: certificateNumber,
+      issue_date: new Date().toISOString().split("T")[0],
+      final_score: enrollment.final_score,
+      certificate_status: "active",
+      issued_by: 1, // Default to admin user
+    };
+
+    return await this.createTrainingCertificate(certificate);
+  }
+
+  // Performance Reviews
+  async getPerformanceReviews(
+    employeeId?: string,
+    scope?: DataScope,
+  ): Promise<PerformanceReview[]> {
+    return await db
+      .select()
+      .from(performance_reviews)
+      .where(
+        and(
+          employeeId
+            ? eq(performance_reviews.employee_id, employeeId)
+            : undefined,
+          scopedUserCondition(performance_reviews.employee_id, scope),
+        ),
+      )
+      .orderBy(desc(performance_reviews.created_at));
+  }
+
+  async createPerformanceReview(
+    review: InsertPerformanceReview,
+  ): Promise<PerformanceReview> {
+    const [performanceReview] = await db
+      .insert(performance_reviews)
+      .values(review)
+      .returning();
+    return performanceReview;
+  }
+
+  async updatePerformanceReview(
+    id: number,
+    updates: Partial<PerformanceReview>,
+  ): Promise<PerformanceReview> {
+    const [performanceReview] = await db
+      .update(performance_reviews)
+      .set(updates)
+      .where(eq(performance_reviews.id, id))
+      .returning();
+    return performanceReview;
+  }
+
+  async getPerformanceReviewById(
+    id: number,
+  ): Promise<PerformanceReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(performance_reviews)
+      .where(eq(performance_reviews.id, id));
+    return review || undefined;
+  }
+
+  // Performance Criteria
+  async getPerformanceCriteria(): Promise<PerformanceCriteria[]> {
+    return await db
+      .select()
+      .from(performance_criteria)
+      .where(eq(performance_criteria.is_active, true));
+  }
+
+  async createPerformanceCriteria(
+    criteria: InsertPerformanceCriteria,
+  ): Promise<PerformanceCriteria> {
+    const [performanceCriteria] = await db
+      .insert(performance_criteria)
+      .values(criteria as any)
+      .returning();
+    return performanceCriteria;
+  }
+
+  async updatePerformanceCriteria(
+    id: number,
+    updates: Partial<PerformanceCriteria>,
+  ): Promise<PerformanceCriteria> {
+    const [performanceCriteria] = await db
+      .update(performance_criteria)
+      .set(updates)
+      .where(eq(performance_criteria.id, id))
+      .returning();
+    return performanceCriteria;
+  }
+
+  // Performance Ratings
+  async getPerformanceRatings(reviewId: number): Promise<PerformanceRating[]> {
+    return await db
+      .select()
+      .from(performance_ratings)
+      .where(eq(performance_ratings.review_id, reviewId));
+  }
+
+  async createPerformanceRating(
+    rating: InsertPerformanceRating,
+  ): Promise<PerformanceRating> {
+    const [performanceRating] = await db
+      .insert(performance_ratings)
+      .values(rating)
+      .returning();
+    return performanceRating;
+  }
+
+  async updatePerformanceRating(
+    id: number,
+    updates: Partial<PerformanceRating>,
+  ): Promise<PerformanceRating> {
+    const [performanceRating] = await db
+      .update(performance_ratings)
+      .set(updates)
+      .where(eq(performance_ratings.id, id))
+      .returning();
+    return performanceRating;
+  }
+
+  // Leave Types
+  async getLeaveTypes(): Promise<LeaveType[]> {
+    return await db
+      .select()
+      .from(leave_types)
+      .where(eq(leave_types.is_active, true));
+  }
+
+  async createLeaveType(leaveType: InsertLeaveType): Promise<LeaveType> {
+    const [newLeaveType] = await db
+      .insert(leave_types)
+      .values(leaveType)
+      .returning();
+    return newLeaveType;
+  }
+
+  async updateLeaveType(
+    id: number,
+    updates: Partial<LeaveType>,
+  ): Promise<LeaveType> {
+    const [leaveType] = await db
+      .update(leave_types)
+      .set(updates)
+      .where(eq(leave_types.id, id))
+      .returning();
+    return leaveType;
+  }
+
+  // Leave Requests
+  async getLeaveRequests(
+    employeeId?: string,
+    scope?: DataScope,
+  ): Promise<LeaveRequest[]> {
+    return await db
+      .select()
+      .from(leave_requests)
+      .where(
+        and(
+          employeeId ? eq(leave_requests.employee_id, employeeId) : undefined,
+          scopedUserCondition(leave_requests.employee_id, scope),
+        ),
+      )
+      .orderBy(desc(leave_requests.created_at));
+  }
+
+  async createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest> {
+    const [leaveRequest] = await db
+      .insert(leave_requests)
+      .values(request)
+      .returning();
+    return leaveRequest;
+  }
+
+  async updateLeaveRequest(
+    id: number,
+    updates: Partial<LeaveRequest>,
+  ): Promise<LeaveRequest> {
+    const [leaveRequest] = await db
+      .update(leave_requests)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(leave_requests.id, id))
+      .returning();
+    return leaveRequest;
+  }
+
+  async getLeaveRequestById(id: number): Promise<LeaveRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(leave_requests)
+      .where(eq(leave_requests.id, id));
+    return request || undefined;
+  }
+
+  async getPendingLeaveRequests(scope?: DataScope): Promise<LeaveRequest[]> {
+    return await db
+      .select()
+      .from(leave_requests)
+      .where(
+        and(
+          eq(leave_requests.final_status, "pending"),
+          scopedUserCondition(leave_requests.employee_id, scope),
+        ),
+      )
+      .orderBy(desc(leave_requests.created_at));
+  }
+
+  async deleteLeaveRequest(id: number): Promise<void> {
+    return await db.transaction(async (tx) => {
+      try {
+        // Get the leave request details first to restore leave balance if needed
+        const [leaveRequest] = await tx
+          .select()
+          .from(leave_requests)
+          .where(eq(leave_requests.id, id));
+
+        if (!leaveRequest) {
+          throw new Error("طلب الإجازة غير موجود");
+        }
+
+        // If the leave request was approved, restore the leave balance
+        if (leaveRequest.final_status === "approved") {
+          const requestYear = new Date(leaveRequest.start_date).getFullYear();
+          await tx.execute(sql`
+            UPDATE leave_balances 
+            SET used_days = GREATEST(0, used_days - ${leaveRequest.days_count}),
+                remaining_days = LEAST(allocated_days, remaining_days + ${leaveRequest.days_count})
+            WHERE employee_id = ${leaveRequest.employee_id} 
+              AND leave_type_id = ${leaveRequest.leave_type_id} 
+              AND year = ${requestYear}
+          `);
+        }
+
+        // Delete related notifications
+        await tx
+          .delete(notifications)
+          .where(
+            and(
+              eq(notifications.context_type, "leave_request"),
+              eq(notifications.context_id, id.toString()),
+            ),
+          );
+
+        // Then delete the leave request
+        await tx.delete(leave_requests).where(eq(leave_requests.id, id));
+      } catch (error) {
+        console.error("Error deleting leave request:", error);
+        throw new Error("فشل في حذف طلب الإجازة");
+      }
+    });
+  }
+
+  // Leave Balances
+  async getLeaveBalances(
+    employeeId: string,
+    year?: number,
+    scope?: DataScope,
+  ): Promise<LeaveBalance[]> {
+    return await db
+      .select()
+      .from(leave_balances)
+      .where(
+        and(
+          eq(leave_balances.employee_id, employeeId),
+          year ? eq(leave_balances.year, year) : undefined,
+          scopedUserCondition(leave_balances.employee_id, scope),
+        ),
+      );
+  }
+
+  async createLeaveBalance(balance: InsertLeaveBalance): Promise<LeaveBalance> {
+    const [leaveBalance] = await db
+      .insert(leave_balances)
+      .values(balance)
+      .returning();
+    return leaveBalance;
+  }
+
+  async updateLeaveBalance(
+    id: number,
+    updates: Partial<LeaveBalance>,
+  ): Promise<LeaveBalance> {
+    const [leaveBalance] = await db
+      .update(leave_balances)
+      .set(updates)
+      .where(eq(leave_balances.id, id))
+      .returning();
+    return leaveBalance;
+  }
+
+  async getLeaveBalanceByType(
+    employeeId: string,
+    leaveTypeId: number,
+    year: number,
+  ): Promise<LeaveBalance | undefined> {
+    const [balance] = await db
+      .select()
+      .from(leave_balances)
+      .where(
+        and(
+          eq(leave_balances.employee_id, employeeId),
+          eq(leave_balances.leave_type_id, leaveTypeId),
+          eq(leave_balances.year, year),
+        ),
+      );
+    return balance || undefined;
+  }
+
+  // ============ Inventory Management ============
+
+  async getInventoryItems(): Promise<any[]> {
+    const result = await db
+      .select({
+        id: inventory.id,
+        item_id: inventory.item_id,
+        location_id: inventory.location_id,
+        item_name: items.name,
+        item_name_ar: items.name_ar,
+        item_code: items.code,
+        category_name: categories.name,
+        category_name_ar: categories.name_ar,
+        location_name: locations.name,
+        location_name_ar: locations.name_ar,
+        current_stock: inventory.current_stock,
+        min_stock: inventory.min_stock,
+        max_stock: inventory.max_stock,
+        unit: inventory.unit,
+        cost_per_unit: inventory.cost_per_unit,
+        last_updated: inventory.last_updated,
+      })
+      .from(inventory)
+      .leftJoin(items, eq(inventory.item_id, items.id))
+      .leftJoin(categories, eq(items.category_id, categories.id))
+      .leftJoin(locations, eq(inventory.location_id, locations.id))
+      .orderBy(items.name_ar);
+
+    return result;
+  }
+
+  async createInventoryItem(item: InsertInventory): Promise<Inventory> {
+    const [inventoryItem] = await db.insert(inventory).values(item).returning();
+    return inventoryItem;
+  }
+
+  async updateInventoryItem(
+    id: number,
+    updates: Partial<Inventory>,
+  ): Promise<Inventory> {
+    const [inventoryItem] = await db
+      .update(inventory)
+      .set({ ...updates, last_updated: new Date() })
+      .where(eq(inventory.id, id))
+      .returning();
+    return inventoryItem;
+  }
+
+  async deleteInventoryItem(id: number): Promise<boolean> {
+    const result = await db.delete(inventory).where(eq(inventory.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getInventoryByItemId(itemId: string): Promise<Inventory | undefined> {
+    const [item] = await db
+      .select()
+      .from(inventory)
+      .where(eq(inventory.item_id, itemId));
+    return item || undefined;
+  }
+
+  async getInventoryStats(): Promise<any> {
+    const totalItems = await db.select({ count: count() }).from(inventory);
+    const lowStockItems = await db
+      .select({ count: count() })
+      .from(inventory)
+      .where(sql`${inventory.current_stock} <= ${inventory.min_stock}`);
+
+    const totalValue = await db
+      .select({
+        total: sum(
+          sql`${inventory.current_stock} * ${inventory.cost_per_unit}`,
+        ),
+      })
+      .from(inventory);
+
+    // Get today's movements
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const todayMovements = await db
+      .select({ count: count() })
+      .from(inventory_movements)
+      .where(sql`DATE(${inventory_movements.created_at}) = CURRENT_DATE`);
+
+    return {
+      totalItems: totalItems[0]?.count || 0,
+      lowStockItems: lowStockItems[0]?.count || 0,
+      totalValue: totalValue[0]?.total || 0,
+      movementsToday: todayMovements[0]?.count || 0,
+    };
+  }
+
+  // ============ Inventory Movements ============
+
+  async getInventoryMovements(): Promise<any[]> {
+    const result = await db
+      .select({
+        id: inventory_movements.id,
+        inventory_id: inventory_movements.inventory_id,
+        item_name: items.name_ar,
+        item_code: items.code,
+        location_name: locations.name_ar,
+        movement_type: inventory_movements.movement_type,
+        quantity: inventory_movements.quantity,
+        unit_cost: inventory_movements.unit_cost,
+        total_cost: inventory_movements.total_cost,
+        reference_number: inventory_movements.reference_number,
+        reference_type: inventory_movements.reference_type,
+        notes: inventory_movements.notes,
+        created_by: inventory_movements.created_by,
+        created_at: inventory_movements.created_at,
+        user_name: users.username,
+      })
+      .from(inventory_movements)
+      .leftJoin(inventory, eq(inventory_movements.inventory_id, inventory.id))
+      .leftJoin(items, eq(inventory.item_id, items.id))
+      .leftJoin(locations, eq(inventory.location_id, locations.id))
+      .leftJoin(users, eq(inventory_movements.created_by, users.id))
+      .orderBy(desc(inventory_movements.created_at));
+
+    return result;
+  }
+
+  async createInventoryMovement(
+    data: InsertInventoryMovement,
+  ): Promise<InventoryMovement> {
+    return await withDatabaseErrorHandling(async () => {
+      // STEP 0: MANDATORY DATAVALIDATOR INTEGRATION - Validate BEFORE database write
+      const dataValidator = getDataValidator(this);
+      const validationResult = await dataValidator.validateEntity(
+        "inventory_movements",
+        data,
+        false,
+      );
+
+      if (!validationResult.isValid) {
+        console.error(
+          "[Storage] ❌ INVENTORY MOVEMENT VALIDATION FAILED:",
+          validationResult.errors,
+        );
+        throw new DatabaseError(
+          `فشل التحقق من صحة حركة المخزون: ${validationResult.errors.map((e) => e.message_ar).join(", ")}`,
+          {
+            code: "VALIDATION_FAILED",
+            validationErrors: validationResult.errors,
+          },
+        );
+      }
+
+      console.log(
+        "[Storage] ✅ Inventory movement validation passed, proceeding with database write",
+      );
+
+      return await db.transaction(async (tx) => {
+        // STEP 1: Lock inventory item to prevent race conditions
+        let currentInventory: any = null;
+        if (data.inventory_id) {
+          [currentInventory] = await tx
+            .select()
+            .from(inventory)
+            .where(eq(inventory.id, data.inventory_id))
+            .for("update");
+
+          if (!currentInventory) {
+            throw new Error("عنصر المخزون غير موجود");
+          }
+        }
+
+        // STEP 2: Validate inventory constraints before movement
+        const currentStock = parseFloat(currentInventory?.current_stock || "0");
+        const movementQty = parseFloat(data.quantity?.toString() || "0");
+
+        if (movementQty <= 0) {
+          throw new Error("كمية الحركة يجب أن تكون أكبر من صفر");
+        }
+
+        let newStock = currentStock;
+        if (data.movement_type === "in") {
+          newStock = currentStock + movementQty;
+        } else if (data.movement_type === "out") {
+          // INVARIANT C: Prevent negative inventory
+          if (currentStock < movementQty) {
+            throw new Error(
+              `المخزون غير كافي. المتاح: ${currentStock.toFixed(2)}, المطلوب: ${movementQty.toFixed(2)}`,
+            );
+          }
+          newStock = currentStock - movementQty;
+        } else if (data.movement_type === "adjustment") {
+          // For adjustments, the quantity represents the final stock level
+          newStock = movementQty;
+        }
+
+        // INVARIANT C: Final check - ensure stock doesn't go negative
+        if (newStock < 0) {
+          throw new Error("لا يمكن أن يكون المخزون سالب");
+        }
+
+        // STEP 3: Create the movement record
+        const [movement] = await tx
+          .insert(inventory_movements)
+          .values(data)
+          .returning();
+
+        // STEP 4: Update inventory stock atomically
+        if (movement.inventory_id) {
+          await tx
+            .update(inventory)
+            .set({
+              current_stock: newStock.toString(),
+              last_updated: new Date(),
+            })
+            .where(eq(inventory.id, movement.inventory_id));
+        }
+
+        return movement;
+      });
+    }, "إنشاء حركة مخزون");
+  }
+
+  async deleteInventoryMovement(id: number): Promise<boolean> {
+    const result = await db
+      .delete(inventory_movements)
+      .where(eq(inventory_movements.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ============ Extended Location Management ============
+
+  async createLocationExtended(data: any): Promise<Location> {
+    const [location] = await db.insert(locations).values(data).returning();
+    return location;
+  }
+
+  async updateLocationExtended(id: string, updates: any): Promise<Location> {
+    const [location] = await db
+      .update(locations)
+      .set(updates)
+      .where(eq(locations.id, id))
+      .returning();
+    return location;
+  }
+
+  async deleteLocationExtended(id: string): Promise<void> {
+    await db.delete(locations).where(eq(locations.id, id));
+  }
+
+  // ============ Inventory Movements Management ============
+
+  async getAllInventoryMovements(): Promise<any[]> {
+    const movements = await db
+      .select({
+        id: inventory_movements.id,
+        inventory_id: inventory_movements.inventory_id,
+        movement_type: inventory_movements.movement_type,
+        quantity: inventory_movements.quantity,
+        unit_cost: inventory_movements.unit_cost,
+        total_cost: inventory_movements.total_cost,
+        reference_number: inventory_movements.reference_number,
+        reference_type: inventory_movements.reference_type,
+        notes: inventory_movements.notes,
+        created_at: inventory_movements.created_at,
+        created_by: inventory_movements.created_by,
+        item_name: items.name_ar,
+        item_code: items.code,
+        user_name: users.display_name_ar,
+      })
+      .from(inventory_movements)
+      .leftJoin(inventory, eq(inventory_movements.inventory_id, inventory.id))
+      .leftJoin(items, eq(inventory.item_id, items.id))
+      .leftJoin(users, eq(inventory_movements.created_by, users.id))
+      .orderBy(desc(inventory_movements.created_at));
+
+    return movements;
+  }
+
+  // ============ Settings Management ============
+
+  async getSystemSettings(): Promise<SystemSetting[]> {
+    return await db
+      .select()
+      .from(system_settings)
+      .orderBy(system_settings.setting_key);
+  }
+
+  async getSystemSettingByKey(key: string): Promise<SystemSetting | undefined> {
+    const [setting] = await db
+      .select()
+      .from(system_settings)
+      .where(eq(system_settings.setting_key, key));
+    return setting || undefined;
+  }
+
+  async createSystemSetting(
+    setting: InsertSystemSetting,
+  ): Promise<SystemSetting> {
+    const [newSetting] = await db
+      .insert(system_settings)
+      .values(setting)
+      .returning();
+    return newSetting;
+  }
+
+  async updateSystemSetting(
+    key: string,
+    value: string,
+    userId: number,
+  ): Promise<SystemSetting> {
+    const [setting] = await db
+      .update(system_settings)
+      .set({
+        setting_value: value,
+        updated_at: new Date(),
+        updated_by: userId.toString(),
+      })
+      .where(eq(system_settings.setting_key, key))
+      .returning();
+    return setting;
+  }
+
+  async getUserSettings(userId: number): Promise<UserSetting[]> {
+    return await db
+      .select()
+      .from(user_settings)
+      .where(eq(user_settings.user_id, userId.toString()));
+  }
+
+  async getUserSettingByKey(
+    userId: number,
+    key: string,
+  ): Promise<UserSetting | undefined> {
+    const [setting] = await db
+      .select()
+      .from(user_settings)
+      .where(
+        sql`${user_settings.user_id} = ${userId.toString()} AND ${user_settings.setting_key} = ${key}`,
+      );
+    return setting || undefined;
+  }
+
+  async createUserSetting(setting: InsertUserSetting): Promise<UserSetting> {
+    const [newSetting] = await db
+      .insert(user_settings)
+      .values(setting)
+      .returning();
+    return newSetting;
+  }
+
+  async updateUserSetting(
+    userId: number,
+    key: string,
+    value: string,
+  ): Promise<UserSetting> {
+    // Try to update existing setting first
+    const [existingSetting] = await db
+      .select()
+      .from(user_settings)
+      .where(
+        sql`${user_settings.user_id} = ${userId.toString()} AND ${user_settings.setting_key} = ${key}`,
+      );
+
+    if (existingSetting) {
+      const [setting] = await db
+        .update(user_settings)
+        .set({
+          setting_value: value,
+          updated_at: new Date(),
+        })
+        .where(
+          sql`${user_settings.user_id} = ${userId.toString()} AND ${user_settings.setting_key} = ${key}`,
+        )
+        .returning();
+      return setting;
+    } else {
+      // Create new setting if it doesn't exist
+      return await this.createUserSetting({
+        user_id: userId.toString(),
+        setting_key: key,
+        setting_value: value,
+      });
+    }
+  }
+
+  // ============ Data Mapping Implementation ============
+
+  async getDataMappings(configId: number): Promise<any[]> {
+    // For now, return sample mappings. In a real implementation, this would fetch from database
+    return [
+      {
+        id: 1,
+        config_id: configId,
+        local_table: "customers",
+        local_field: "name",
+        remote_table: "clients",
+        remote_field: "client_name",
+        mapping_type: "direct",
+        transformation_rule: null,
+        is_active: true,
+      },
+      {
+        id: 2,
+        config_id: configId,
+        local_table: "items",
+        local_field: "code",
+        remote_table: "products",
+        remote_field: "product_code",
+        mapping_type: "direct",
+        transformation_rule: null,
+        is_active: true,
+      },
+      {
+        id: 3,
+        config_id: configId,
+        local_table: "customer_products",
+        local_field: "price",
+        remote_table: "product_prices",
+        remote_field: "unit_price",
+        mapping_type: "transform",
+        transformation_rule: "multiply_by_1.15", // Add 15% tax
+        is_active: true,
+      },
+    ];
+  }
+
+  async createDataMapping(mapping: any): Promise<any> {
+    // For now, return the mapping with a generated ID
+    return {
+      id: Math.floor(Math.random() * 1000),
+      ...mapping,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+  }
+
+  async updateDataMapping(id: number, mapping: any): Promise<any> {
+    // For now, return the updated mapping
+    return {
+      id,
+      ...mapping,
+      updated_at: new Date(),
+    };
+  }
+
+  async deleteDataMapping(id: number): Promise<boolean> {
+    // For now, always return true
+    return true;
+  }
+
+  // ============ Data Synchronization Implementation ============
+
+  async syncData(
+    configId: number,
+    entityType: string,
+    direction: string,
+  ): Promise<any> {
+    // Simulate data synchronization process
+    const startTime = new Date();
+
+    // Mock sync process
+    await new Promise((resolve) => setTimeout(resolve, 2000)); // Simulate 2 second sync
+
+    const recordsProcessed = Math.floor(Math.random() * 100) + 10;
+    const errors = Math.floor(Math.random() * 3);
+
+    const syncResult = {
+      sync_id: Math.floor(Math.random() * 10000),
+      config_id: configId,
+      entity_type: entityType,
+      direction,
+      status: errors === 0 ? "success" : "partial_success",
+      records_processed: recordsProcessed,
+      records_success: recordsProcessed - errors,
+      records_failed: errors,
+      started_at: startTime,
+      completed_at: new Date(),
+      duration_ms: 2000,
+      error_details: errors > 0 ? [`خطأ في معالجة ${errors} من السجلات`] : null,
+    };
+
+    // Log the sync operation
+    await this.createSyncLog({
+      config_id: configId,
+      entity_type: entityType,
+      sync_direction: direction,
+      status: syncResult.status,
+      records_processed: recordsProcessed,
+      records_success: recordsProcessed - errors,
+      records_failed: errors,
+      error_details: syncResult.error_details?.join(", ") || null,
+      started_at: startTime,
+      completed_at: new Date(),
+    });
+
+    return syncResult;
+  }
+
+  async getSyncLogs(configId: number): Promise<any[]> {
+    // For now, return sample sync logs
+    return [
+      {
+        id: 1,
+        config_id: configId,
+        entity_type: "customers",
+        sync_direction: "import",
+        status: "success",
+        records_processed: 45,
+        records_success: 45,
+        records_failed: 0,
+        error_details: null,
+        started_at: new Date(Date.now() - 3600000), // 1 hour ago
+        completed_at: new Date(Date.now() - 3599000),
+        duration_ms: 1000,
+      },
+      {
+        id: 2,
+        config_id: configId,
+        entity_type: "items",
+        sync_direction: "export",
+        status: "partial_success",
+        records_processed: 120,
+        records_success: 118,
+        records_failed: 2,
+        error_details: "خطأ في معالجة 2 من السجلات",
+        started_at: new Date(Date.now() - 7200000), // 2 hours ago
+        completed_at: new Date(Date.now() - 7198000),
+        duration_ms: 2000,
+      },
+    ];
+  }
+
+  async createSyncLog(log: any): Promise<any> {
+    // For now, return the log with a generated ID
+    return {
+      id: Math.floor(Math.random() * 1000),
+      ...log,
+      created_at: new Date(),
+    };
+  }
+
+  // ============ Database Management Implementation ============
+
+  async getDatabaseStats(): Promise<any> {
+    try {
+      // Get database size
+      const dbSize = await db.execute(sql`
+        SELECT pg_size_pretty(pg_database_size(current_database())) as size
+      `);
+
+      // Count total tables
+      const tableCount = await db.execute(sql`
+        SELECT COUNT(*) as count 
+        FROM information_schema.tables 
+        WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
+      `);
+
+      // Get total records across all main tables
+      const recordCounts = await Promise.all([
+        db.select({ count: count() }).from(orders),
+        db.select({ count: count() }).from(customers),
+        db.select({ count: count() }).from(users),
+        db.select({ count: count() }).from(machines),
+        db.select({ count: count() }).from(locations),
+        db.select({ count: count() }).from(categories),
+        db.select({ count: count() }).from(items),
+      ]);
+
+      const totalRecords = recordCounts.reduce(
+        (sum, result) => sum + (result[0]?.count || 0),
+        0,
+      );
+
+      const [latestBackup] = await getDatabaseBackupService().listBackups();
+
+      return {
+        tableCount: tableCount.rows[0]?.count || 0,
+        totalRecords,
+        databaseSize: dbSize.rows[0]?.size || "0 MB",
+        lastBackup: latestBackup
+          ? new Date(latestBackup.created_at).toLocaleDateString("ar")
+          : "لا توجد نسخ",
+      };
+    } catch (error) {
+      console.error("Error getting database stats:", error);
+      // Return mock data for development
+      return {
+        tableCount: 8,
+        totalRecords: 1247,
+        databaseSize: "45.2 MB",
+        lastBackup: "اليوم",
+        tableStats: [],
+      };
+    }
+  }
+
+  async createDatabaseBackup(createdBy?: number): Promise<BackupManifest> {
+    return await getDatabaseBackupService().createBackup(createdBy);
+  }
+
+  async deleteDatabaseBackup(backupId: string): Promise<void> {
+    await getDatabaseBackupService().deleteBackup(backupId);
+  }
+
+  async getBackupFile(backupId: string): Promise<string> {
+    // ملف واحد قابل للتحميل يحتوي على manifest وجميع الجداول بعد التحقق من البصمات
+    const bundle = await getDatabaseBackupService().loadBackup(backupId);
+    return JSON.stringify(bundle);
+  }
+
+  async restoreDatabaseBackup(
+    source: { backupId?: string; backupData?: any },
+    options: { dryRun?: boolean } = {},
+  ): Promise<RestoreResult> {
+    const backupService = getDatabaseBackupService();
+
+    let bundle;
+    if (source.backupId) {
+      bundle = await backupService.loadBackup(source.backupId);
+    } else {
+      let raw = source.backupData;
+      if (typeof raw === "string") {
+        try {
+          raw = JSON.parse(raw);
+        } catch {
+          throw new BackupError("ملف النسخة الاحتياطية ليس بصيغة JSON صالحة");
+        }
+      }
+      bundle = backupService.validateBundle(raw);
+    }
+
+    const result = await backupService.restore(bundle, options);
+    if (!options.dryRun) {
+      // البيانات تغيرت بالكامل - إفراغ الذاكرة المؤقتة للإنتاج
+      invalidateProductionCache("all");
+    }
+    return result;
+  }
+
+  async getBackupHistory(
+    filters: { trigger?: string; status?: string; limit?: number } = {},
+  ): Promise<BackupHistory[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const conditions = [];
+        if (filters.trigger) {
+          conditions.push(eq(backup_history.trigger, filters.trigger));
+        }
+        if (filters.status) {
+          conditions.push(eq(backup_history.status, filters.status));
+        }
+
+        return await db
+          .select()
+          .from(backup_history)
+          .where(conditions.length > 0 ? and(...conditions) : undefined)
+          .orderBy(desc(backup_history.started_at), desc(backup_history.id))
+          .limit(filters.limit || 100);
+      },
+      "جلب سجل النسخ الاحتياطية",
+      "",
+    );
+  }
+
+  async createBackupHistory(
+    entry: InsertBackupHistory,
+  ): Promise<BackupHistory> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [created] = await db
+          .insert(backup_history)
+          .values(entry)
+          .returning();
+        return created;
+      },
+      "تسجيل عملية نسخ احتياطي",
+      entry.trigger,
+    );
+  }
+
+  async updateBackupHistory(
+    id: number,
+    updates: Partial<BackupHistory>,
+  ): Promise<BackupHistory> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [updated] = await db
+          .update(backup_history)
+          .set(updates)
+          .where(eq(backup_history.id, id))
+          .returning();
+        return updated;
+      },
+      "تحديث سجل النسخ الاحتياطي",
+      `رقم ${id}`,
+    );
+  }
+
+  async exportTableData(tableName: string, format: string): Promise<ExportFile> {
+    return await getTableTransferService().exportTable(tableName, format);
+  }
+
+  async importTableData(
+    tableName: string,
+    data: any,
+    format: string,
+    options: Omit<ImportOptions, "format"> = {},
+  ): Promise<ImportReport> {
+    const transfer = getTableTransferService();
+    const rows = transfer.parseFile(format, data);
+    if (rows.length === 0) {
+      throw new TableTransferError("البيانات فارغة أو غير صحيحة");
+    }
+
+    const report = await transfer.importRows(tableName, rows, {
+      ...options,
+      format,
+    });
+    if (report.inserted > 0) {
+      invalidateProductionCache("all");
+    }
+    return report;
+  }
+
+  async optimizeTables(): Promise<any> {
+    try {
+      // In a real implementation, this would run VACUUM and ANALYZE on PostgreSQL
+      await db.execute(sql`VACUUM ANALYZE`);
+
+      return {
+        status: "success",
+        message: "تم تحسين جميع الجداول بنجاح",
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      console.error("Error optimizing tables:", error);
+      // Return success for development
+      return {
+        status: "success",
+        message: "تم تحسين جميع الجداول بنجاح",
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async checkDatabaseIntegrity(): Promise<any> {
+    try {
+      // In a real implementation, this would run integrity checks
+      // For now, simulate the check
+      return {
+        status: "healthy",
+        message: "قاعدة البيانات سليمة",
+        checks: [
+          { name: "Foreign Key Constraints", status: "passed" },
+          { name: "Data Consistency", status: "passed" },
+          { name: "Index Integrity", status: "passed" },
+          { name: "Table Structure", status: "passed" },
+        ],
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      console.error("Error checking database integrity:", error);
+      throw new Error("فشل في فحص تكامل قاعدة البيانات");
+    }
+  }
+
+  async cleanupOldData(daysOld: number): Promise<any> {
+    try {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+      // In a real implementation, this would delete old records
+      // For now, simulate the cleanup
+      return {
+        status: "success",
+        count: 0, // No old data to clean up in development
+        message: `تم تنظيف البيانات الأقدم من ${daysOld} يوم`,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      console.error("Error cleaning up old data:", error);
+      throw new Error("فشل في تنظيف البيانات القديمة");
+    }
+  }
+
+  // ============ User Violations Management ============
+  async getViolations(): Promise<any[]> {
+    try {
+      const result = await db.execute(
+        sql`SELECT * FROM user_violations ORDER BY created_at DESC`,
+      );
+      return result.rows;
+    } catch (error) {
+      console.error("Error fetching violations:", error);
+      throw new Error("فشل في جلب المخالفات");
+    }
+  }
+
+  async createViolation(violationData: any): Promise<any> {
+    try {
+      const result = await db.execute(sql`
+        INSERT INTO user_violations (user_id, type, description, penalty, status, created_by)
+        VALUES (${violationData.user_id}, ${violationData.type}, ${violationData.description}, 
+                ${violationData.penalty}, ${violationData.status || "معلق"}, ${violationData.created_by})
+        RETURNING *
+      `);
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error creating violation:", error);
+      throw new Error("فشل في إنشاء المخالفة");
+    }
+  }
+
+  async updateViolation(id: number, violationData: any): Promise<any> {
+    try {
+      const result = await db.execute(sql`
+        UPDATE user_violations 
+        SET type = ${violationData.type}, description = ${violationData.description},
+            penalty = ${violationData.penalty}, status = ${violationData.status},
+            updated_at = NOW()
+        WHERE id = ${id}
+        RETURNING *
+      `);
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error updating violation:", error);
+      throw new Error("فشل في تحديث المخالفة");
+    }
+  }
+
+  async deleteViolation(id: number): Promise<void> {
+    try {
+      await db.execute(sql`DELETE FROM user_violations WHERE id = ${id}`);
+    } catch (error) {
+      console.error("Error deleting violation:", error);
+      throw new Error("فشل في حذف المخالفة");
+    }
+  }
+
+  // ============ User Requests Management ============
+  async getUserRequests(): Promise<any[]> {
+    try {
+      const requests = await db
+        .select()
+        .from(user_requests)
+        .orderBy(desc(user_requests.date));
+      return requests;
+    } catch (error) {
+      console.error("Error fetching user requests:", error);
+      throw new Error("فشل في جلب طلبات المستخدمين");
+    }
+  }
+
+  async createUserRequest(requestData: any): Promise<any> {
+    try {
+      const result = await db.execute(sql`
+        INSERT INTO user_requests (user_id, type, title, description, status)
+        VALUES (${requestData.user_id}, ${requestData.type}, ${requestData.title}, 
+                ${requestData.description}, ${requestData.status || "معلق"})
+        RETURNING *
+      `);
+      return result.rows[0];
+    } catch (error) {
+      console.error("Error creating user request:", error);
+      throw new Error("فشل في إنشاء الطلب");
+    }
+  }
+
+  async updateUserRequest(id: number, requestData: any): Promise<any> {
+    try {
+      const [updatedRequest] = await db
+        .update(user_requests)
+        .set({
+          type: requestData.type,
+          title: requestData.title,
+          description: requestData.description,
+          status: requestData.status,
+          response: requestData.response,
+          updated_at: new Date(),
+        })
+        .where(eq(user_requests.id, id))
+        .returning();
+      return updatedRequest;
+    } catch (error) {
+      console.error("Error updating user request:", error);
+      throw new Error("فشل في تحديث الطلب");
+    }
+  }
+
+  async deleteUserRequest(id: number): Promise<void> {
+    return await db.transaction(async (tx) => {
+      try {
+        // Delete related notifications first
+        await tx
+          .delete(notifications)
+          .where(
+            and(
+              eq(notifications.context_type, "user_request"),
+              eq(notifications.context_id, id.toString()),
+            ),
+          );
+
+        // Then delete the user request
+        await tx.delete(user_requests).where(eq(user_requests.id, id));
+      } catch (error) {
+        console.error("Error deleting user request:", error);
+        throw new Error("فشل في حذف الطلب");
+      }
+    });
+  }
+
+  // ============ PRODUCTION FLOW MANAGEMENT ============
+
+  async getProductionSettings(): Promise<ProductionSettings> {
+    try {
+      const [settings] = await db.select().from(production_settings).limit(1);
+      return settings;
+    } catch (error) {
+      console.error("Error fetching production settings:", error);
+      throw new Error("فشل في جلب إعدادات الإنتاج");
+    }
+  }
+
+  async updateProductionSettings(
+    settingsData: Partial<InsertProductionSettings>,
+  ): Promise<ProductionSettings> {
+    try {
+      // Convert numeric decimal fields to strings at persistence boundary
+      const processedData: any = { ...settingsData };
+      if (processedData.overrun_tolerance_percent !== undefined) {
+        processedData.overrun_tolerance_percent = numberToDecimalString(
+          processedData.overrun_tolerance_percent,
+          2,
+        );
+      }
+      if (processedData.material_scrap_percent !== undefined) {
+        processedData.material_scrap_percent = numberToDecimalString(
+          processedData.material_scrap_percent,
+          2,
+        );
+      }
+
+      const [settings] = await db
+        .update(production_settings)
+        .set(processedData)
+        .where(eq(production_settings.id, 1))
+        .returning();
+      return settings;
+    } catch (error) {
+      console.error("Error updating production settings:", error);
+      throw new Error("فشل في تحديث إعدادات الإنتاج");
+    }
+  }
+
+  async startProduction(productionOrderId: number): Promise<ProductionOrder> {
+    try {
+      const [productionOrder] = await db
+        .update(production_orders)
+        .set({
+          status: "in_production",
+        })
+        .where(eq(production_orders.id, productionOrderId))
+        .returning();
+      return productionOrder;
+    } catch (error) {
+      console.error("Error starting production:", error);
+      throw new Error("فشل في بدء الإنتاج");
+    }
+  }
+
+  // Deprecated: Use createRoll instead which supports three separate machines
+  // Keeping for backward compatibility during migration period
+  async createRollWithQR(rollData: {
+    production_order_id: number;
+    film_machine_id?: string;
+    printing_machine_id?: string;
+    cutting_machine_id?: string;
+    machine_id?: string; // Legacy field
+    weight_kg: number;
+    created_by: number;
+  }): Promise<Roll> {
+    // Map old machine_id to new fields if not provided
+    const insertData = {
+      production_order_id: rollData.production_order_id,
+      film_machine_id: rollData.film_machine_id || rollData.machine_id || "",
+      printing_machine_id: rollData.printing_machine_id || rollData.machine_id || "",
+      cutting_machine_id: rollData.cutting_machine_id || rollData.machine_id || "",
+      weight_kg: rollData.weight_kg,
+      created_by: rollData.created_by,
+      stage: "film" as const,
+    };
+    
+    // Use the updated createRoll method
+    return this.createRoll(insertData as any);
+  }
+
+  async markRollPrinted(rollId: number, operatorId: number, printingMachineId?: string): Promise<Roll> {
+    try {
+      return await db.transaction(async (tx) => {
+        // احصل على معلومات الرول الحالية
+        const [currentRoll] = await tx
+          .select()
+          .from(rolls)
+          .where(eq(rolls.id, rollId));
+        
+        if (!currentRoll) {
+          throw new Error("الرول غير موجود");
+        }
+
+        if (currentRoll.qa_status === "hold") {
+          throw new Error(QA_HOLD_ERROR);
+        }
+
+        // Validate printing machine if provided
+        if (printingMachineId) {
+          const [printingMachine] = await tx
+            .select()
+            .from(machines)
+            .where(eq(machines.id, printingMachineId));
+          
+          if (!printingMachine) {
+            throw new Error("ماكينة الطباعة غير موجودة");
+          }
+          
+          if (printingMachine.status !== "active") {
+            throw new Error("ماكينة الطباعة غير نشطة");
+          }
+        }
+
+        // نقل الرول إلى مرحلة الطباعة وتسجيل البيانات
+        const updateData: any = {
+          stage: "printing", // نقل إلى مرحلة الطباعة
+          printed_at: new Date(),
+          printed_by: operatorId,
+        };
+        
+        // Add printing_machine_id if provided
+        if (printingMachineId) {
+          updateData.printing_machine_id = printingMachineId;
+        }
+        
+        const [updatedRoll] = await tx
+          .update(rolls)
+          .set(updateData)
+          .where(eq(rolls.id, rollId))
+          .returning();
+
+        // احسب مجموع أوزان الرولات في مرحلة الطباعة أو ما بعدها لهذا الأمر
+        const printedRollsWeight = await tx
+          .select({
+            total: sql<number>`COALESCE(SUM(${rolls.weight_kg}::decimal), 0)`,
+          })
+          .from(rolls)
+          .where(
+            and(
+              eq(rolls.production_order_id, currentRoll.production_order_id),
+              or(
+                eq(rolls.stage, "printing"),
+                eq(rolls.stage, "cutting"),
+                eq(rolls.stage, "done")
+              )
+            )
+          );
+
+        const printedQuantity = Number(printedRollsWeight[0]?.total || 0);
+
+        // احصل على معلومات أمر الإنتاج
+        const [productionOrder] = await tx
+          .select()
+          .from(production_orders)
+          .where(eq(production_orders.id, currentRoll.production_order_id));
+
+        if (productionOrder) {
+          const producedQuantityKg = parseFloat(
+            productionOrder.produced_quantity_kg?.toString() || "0"
+          );
+          
+          // احسب نسبة إكمال الطباعة بناءً على الكمية المطبوعة من الكمية المنتجة في مرحلة الفيلم
+          const printingPercentage = producedQuantityKg > 0 
+            ? Math.min(100, (printedQuantity / producedQuantityKg) * 100)
+            : 0;
+
+          // حدث أمر الإنتاج بالكمية المطبوعة ونسبة الإكمال
+          await tx
+            .update(production_orders)
+            .set({
+              printed_quantity_kg: numberToDecimalString(printedQuantity, 2),
+              printing_completion_percentage: numberToDecimalString(printingPercentage, 2),
+            })
+            .where(eq(production_orders.id, currentRoll.production_order_id));
+        }
+
+        // تحديث الكاش بعد تسجيل الطباعة
+        invalidateProductionCache("all");
+
+        return updatedRoll;
+      });
+    } catch (error) {
+      console.error("Error marking roll printed:", error);
+      if (error instanceof Error && error.message === QA_HOLD_ERROR) {
+        throw error;
+      }
+      throw new Error("فشل في تسجيل طباعة الرول");
+    }
+  }
+
+  async createCut(cutData: InsertCut): Promise<Cut> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Get the roll and validate available weight
+        const [roll] = await tx
+          .select()
+          .from(rolls)
+          .where(eq(rolls.id, cutData.roll_id))
+          .for("update");
+
+        if (!roll) {
+          throw new Error("الرول غير موجود");
+        }
+
+        if (roll.stage !== "printing" && roll.stage !== "cutting") {
+          throw new Error(
+            roll.stage === "done"
+              ? "لا يمكن قص رول مكتمل"
+              : "لا يمكن قص الرول قبل إنهاء مرحلة الطباعة",
+          );
+        }
+
+        if (roll.qa_status === "hold") {
+          throw new Error(QA_HOLD_ERROR);
+        }
+
+        // الرول قد يُقص على عدة جلسات أو عدة مكائن - الوزن المتبقي هو ما لم يُقص ولم يُسجل كهدر
+        const rollWeight = normalizeDecimal(roll.weight_kg);
+        const previousCutWeight = normalizeDecimal(roll.cut_weight_total_kg);
+        const rollWaste = normalizeDecimal(roll.waste_kg);
+        const remainingWeight = rollWeight - previousCutWeight - rollWaste;
+        const cutWeight = normalizeDecimal(cutData.cut_weight_kg);
+
+        if (cutWeight <= 0) {
+          throw new Error("الكمية الصافية يجب أن تكون أكبر من صفر");
+        }
+
+        if (cutWeight > remainingWeight + 0.0005) {
+          throw new Error(
+            `الوزن المطلوب أكبر من المتاح - الكمية الصافية (${cutWeight.toFixed(2)} كيلو) تتجاوز الوزن المتبقي في الرول (${remainingWeight.toFixed(2)} كيلو)`,
+          );
+        }
+
+        // Create the cut - convert numeric decimal fields to strings at persistence boundary
+        const processedCutData = {
+          ...cutData,
+          cut_weight_kg: numberToDecimalString(cutData.cut_weight_kg, 3),
+        };
+
+        const [cut] = await tx
+          .insert(cuts)
+          .values(processedCutData)
+          .returning();
+
+        const totalCutWeight = Math.min(previousCutWeight + cutWeight, rollWeight);
+        const isFullyCut = rollWeight - totalCutWeight - rollWaste < 0.0005;
+
+        // الرول يبقى في مرحلة التقطيع حتى يُقص بالكامل أو يُنهى يدوياً بتسجيل الباقي كهدر
+        const rollUpdateData: Partial<Roll> = {
+          cut_weight_total_kg: numberToDecimalString(totalCutWeight, 3),
+          stage: isFullyCut ? "done" : "cutting",
+          cut_by: cutData.performed_by,
+        };
+
+        if (cutData.cutting_machine_id) {
+          rollUpdateData.cutting_machine_id = cutData.cutting_machine_id;
+        }
+
+        if (isFullyCut) {
+          rollUpdateData.cut_completed_at = new Date();
+          rollUpdateData.completed_at = new Date();
+        }
+
+        await tx
+          .update(rolls)
+          .set(rollUpdateData)
+          .where(eq(rolls.id, cutData.roll_id));
+
+        await this.updateCuttingProgress(tx, roll.production_order_id);
+
+        // تحديث الكاش
+        invalidateProductionCache("all");
+
+        return cut;
+      });
+    } catch (error) {
+      console.error("Error creating cut:", error);
+      throw error;
+    }
+  }
+
+  async finishRoll(
+    rollId: number,
+    finishData: { reason_id: number; finished_by: number },
+  ): Promise<Roll> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [roll] = await tx
+          .select()
+          .from(rolls)
+          .where(eq(rolls.id, rollId))
+          .for("update");
+
+        if (!roll) {
+          throw new Error("الرول غير موجود");
+        }
+
+        if (roll.stage !== "printing" && roll.stage !== "cutting") {
+          throw new Error(
+            roll.stage === "done"
+              ? "لا يمكن إنهاء رول مكتمل"
+              : "لا يمكن إنهاء الرول قبل إنهاء مرحلة الطباعة",
+          );
+        }
+
+        if (roll.qa_status === "hold") {
+          throw new Error(QA_HOLD_ERROR);
+        }
+
+        const rollWeight = normalizeDecimal(roll.weight_kg);
+        const cutWeight = normalizeDecimal(roll.cut_weight_total_kg);
+        const previousWaste = normalizeDecimal(roll.waste_kg);
+        const remainingWeight = Math.max(
+          rollWeight - cutWeight - previousWaste,
+          0,
+        );
+
+        const reason = await this.resolveWasteReason(
+          tx,
+          finishData.reason_id,
+          "cutting",
+        );
+
+        // الوزن المتبقي بعد آخر قص يُسجل كهدر مع السبب
+        if (remainingWeight > 0) {
+          await tx.insert(waste).values({
+            roll_id: roll.id,
+            production_order_id: roll.production_order_id,
+            quantity_wasted: numberToDecimalString(remainingWeight, 2),
+            reason_id: reason.id,
+            reason: reason.name_ar,
+            stage: "cutting",
+            machine_id: roll.cutting_machine_id,
+            recorded_by: finishData.finished_by,
+          });
+        }
+
+        const now = new Date();
+        const [finishedRoll] = await tx
+          .update(rolls)
+          .set({
+            waste_kg: numberToDecimalString(previousWaste + remainingWeight, 3),
+            stage: "done",
+            cut_by: roll.cut_by ?? finishData.finished_by,
+            cut_completed_at: now,
+            completed_at: now,
+          })
+          .where(eq(rolls.id, rollId))
+          .returning();
+
+        await this.updateCuttingProgress(tx, roll.production_order_id);
+
+        invalidateProductionCache("all");
+
+        return finishedRoll;
+      });
+    } catch (error) {
+      console.error("Error finishing roll:", error);
+      throw error;
+    }
+  }
+
+  async adjustRollWaste(
+    rollId: number,
+    adjustment: { waste_kg: number; reason_id: number; recorded_by?: number },
+  ): Promise<Roll> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [roll] = await tx
+          .select()
+          .from(rolls)
+          .where(eq(rolls.id, rollId))
+          .for("update");
+
+        if (!roll) {
+          throw new Error("الرول غير موجود");
+        }
+
+        const rollWeight = normalizeDecimal(roll.weight_kg);
+        const cutWeight = normalizeDecimal(roll.cut_weight_total_kg);
+        const previousWaste = normalizeDecimal(roll.waste_kg);
+        const newWaste = normalizeDecimal(adjustment.waste_kg);
+
+        if (newWaste < 0 || cutWeight + newWaste > rollWeight + 0.0005) {
+          throw new Error(
+            `لا يمكن تعديل الهدر - مجموع الهدر والكمية الصافية يتجاوز وزن الرول (${rollWeight.toFixed(2)} كيلو)`,
+          );
+        }
+
+        const reason = await this.resolveWasteReason(tx, adjustment.reason_id);
+        const delta = newWaste - previousWaste;
+        if (Math.abs(delta) < 0.0005) return roll;
+
+        // يُسجل فرق التعديل (موجباً أو سالباً) حتى يطابق مجموع سجلات الهدر قيمة waste_kg في الرول
+        const stageMachine: Record<string, string | null> = {
+          film: roll.film_machine_id,
+          printing: roll.printing_machine_id,
+          cutting: roll.cutting_machine_id,
+        };
+        await tx.insert(waste).values({
+          roll_id: roll.id,
+          production_order_id: roll.production_order_id,
+          quantity_wasted: delta.toFixed(2),
+          reason_id: reason.id,
+          reason: reason.name_ar,
+          stage: reason.stage,
+          machine_id: stageMachine[reason.stage] ?? null,
+          recorded_by: adjustment.recorded_by ?? null,
+        });
+
+        const [updatedRoll] = await tx
+          .update(rolls)
+          .set({ waste_kg: numberToDecimalString(newWaste, 3) })
+          .where(eq(rolls.id, rollId))
+          .returning();
+
+        await this.updateCuttingProgress(tx, roll.production_order_id);
+
+        invalidateProductionCache("all");
+
+        return updatedRoll;
+      });
+    } catch (error) {
+      console.error("Error adjusting roll waste:", error);
+      throw error;
+    }
+  }
+
+  private async resolveWasteReason(
+    tx: DbTransaction,
+    reasonId: number,
+    stage?: string,
+  ): Promise<WasteReason> {
+    const [reason] = await tx
+      .select()
+      .from(waste_reasons)
+      .where(eq(waste_reasons.id, reasonId));
+
+    if (!reason || !reason.is_active) {
+      throw new Error("سبب الهدر غير موجود أو غير مفعل");
+    }
+    if (stage && reason.stage !== stage) {
+      throw new Error("سبب الهدر المحدد لا يخص هذه المرحلة");
+    }
+    return reason;
+  }
+
+  /**
+   * إعادة حساب الكمية الصافية والهدر ونسبة التقطيع لأمر الإنتاج
+   * وإكمال أمر الإنتاج والطلب تلقائياً عند اكتمال جميع الرولات
+   */
+  private async updateCuttingProgress(
+    tx: DbTransaction,
+    productionOrderId: number,
+  ): Promise<void> {
+    // احسب مجموع الكميات الصافية والهدر من جميع رولات الأمر (بما فيها المقطوعة جزئياً)
+    const cutRollsData = await tx
+      .select({
+        totalNetWeight: sql<number>`COALESCE(SUM(${rolls.cut_weight_total_kg}::decimal), 0)`,
+        totalWaste: sql<number>`COALESCE(SUM(${rolls.waste_kg}::decimal), 0)`,
+        totalRolls: sql<number>`COUNT(*)`,
+        completedRolls: sql<number>`COUNT(CASE WHEN ${rolls.stage} = 'done' THEN 1 END)`,
+      })
+      .from(rolls)
+      .where(eq(rolls.production_order_id, productionOrderId));
+
+    const netQuantity = Number(cutRollsData[0]?.totalNetWeight || 0);
+    const wasteQuantity = Number(cutRollsData[0]?.totalWaste || 0);
+    const totalRolls = Number(cutRollsData[0]?.totalRolls || 0);
+    const completedRolls = Number(cutRollsData[0]?.completedRolls || 0);
+
+    // احصل على معلومات أمر الإنتاج
+    const [productionOrder] = await tx
+      .select()
+      .from(production_orders)
+      .where(eq(production_orders.id, productionOrderId));
+
+    if (!productionOrder) return;
+
+    const producedQuantityKg = parseFloat(
+      productionOrder.produced_quantity_kg?.toString() || "0"
+    );
+
+    // احسب نسبة إكمال التقطيع بناءً على (الكمية المقطعة + الهدر) من الكمية المنتجة في مرحلة الفيلم
+    const totalCutAndWaste = netQuantity + wasteQuantity;
+    const cuttingPercentage = producedQuantityKg > 0
+      ? Math.min(100, (totalCutAndWaste / producedQuantityKg) * 100)
+      : 0;
+
+    const isProductionOrderCompleted = completedRolls === totalRolls && totalRolls > 0;
+
+    // حدث أمر الإنتاج بالكميات الجديدة
+    await tx
+      .update(production_orders)
+      .set({
+        net_quantity_kg: numberToDecimalString(netQuantity, 2),
+        waste_quantity_kg: numberToDecimalString(wasteQuantity, 2),
+        cutting_completion_percentage: numberToDecimalString(cuttingPercentage, 2),
+        // إذا كانت جميع الرولات مكتملة، حدث الحالة إلى completed
+        status: isProductionOrderCompleted ? "completed" : productionOrder.status,
+      })
+      .where(eq(production_orders.id, productionOrderId));
+
+    if (isProductionOrderCompleted && productionOrder.status !== "completed") {
+      console.log(
+        `Production order ${productionOrder.production_order_number} automatically completed - all rolls finished`,
+      );
+      // الطلب الرئيسي يكتمل عند تسليم كامل الكمية للعميل وليس بانتهاء الإنتاج
+    }
+  }
+
+  async createWarehouseReceipt(
+    receiptData: InsertWarehouseReceipt,
+  ): Promise<WarehouseReceipt> {
+    await this.assertReceiptReleasedByQuality(receiptData);
+
+    try {
+      // Convert numeric decimal fields to strings at persistence boundary
+      const processedData = {
+        ...receiptData,
+        received_weight_kg: numberToDecimalString(
+          receiptData.received_weight_kg,
+          3,
+        ),
+      };
+
+      const [receipt] = await db
+        .insert(warehouse_receipts)
+        .values(processedData)
+        .returning();
+      return receipt;
+    } catch (error) {
+      console.error("Error creating warehouse receipt:", error);
+      throw new Error("فشل في إنشاء إيصال المستودع");
+    }
+  }
+
+  // الكميات المقطوعة من رولات موقوفة أو بانتظار إعادة التشغيل لا تُستلم في المستودع
+  private async assertReceiptReleasedByQuality(
+    receiptData: InsertWarehouseReceipt,
+  ): Promise<void> {
+    if (receiptData.cut_id) {
+      const [cutRoll] = await db
+        .select({ roll_number: rolls.roll_number, qa_status: rolls.qa_status })
+        .from(cuts)
+        .innerJoin(rolls, eq(cuts.roll_id, rolls.id))
+        .where(eq(cuts.id, receiptData.cut_id));
+
+      if (cutRoll && cutRoll.qa_status !== "ok") {
+        throw new Error(
+          `لا يمكن استلام القص - الرول ${cutRoll.roll_number} موقوف من قبل الجودة`,
+        );
+      }
+      return;
+    }
+
+    const result = await db.execute(sql`
+      SELECT
+        COALESCE(SUM(c.cut_weight_kg) FILTER (WHERE r.qa_status <> 'ok'), 0)::float AS blocked_kg,
+        COALESCE(SUM(c.cut_weight_kg) FILTER (WHERE r.qa_status = 'ok'), 0)::float AS released_kg,
+        (
+          SELECT COALESCE(SUM(received_weight_kg), 0)::float
+          FROM warehouse_receipts
+          WHERE production_order_id = ${receiptData.production_order_id}
+        ) AS received_kg
+      FROM cuts c
+      JOIN rolls r ON r.id = c.roll_id
+      WHERE r.production_order_id = ${receiptData.production_order_id}
+    `);
+    const totals = result.rows[0] as
+      | { blocked_kg: number; released_kg: number; received_kg: number }
+      | undefined;
+    if (!totals || Number(totals.blocked_kg) <= 0) return;
+
+    const available = Math.max(
+      Number(totals.released_kg) - Number(totals.received_kg),
+      0,
+    );
+    const requested = normalizeDecimal(receiptData.received_weight_kg);
+    if (requested > available + 0.001) {
+      throw new Error(
+        `لا يمكن استلام ${requested.toFixed(2)} كجم - المتاح للاستلام ${available.toFixed(2)} كجم بعد استبعاد ${Number(totals.blocked_kg).toFixed(2)} كجم من رولات موقوفة من قبل الجودة`,
+      );
+    }
+  }
+
+  // Get warehouse receipts with detailed information grouped by order number
+  async getWarehouseReceiptsDetailed(): Promise<any[]> {
+    try {
+      const receipts = await db
+        .select({
+          // Receipt information
+          receipt_id: warehouse_receipts.id,
+          receipt_date: warehouse_receipts.created_at,
+          received_weight_kg: warehouse_receipts.received_weight_kg,
+          received_by_id: warehouse_receipts.received_by,
+
+          // Order information
+          order_id: orders.id,
+          order_number: orders.order_number,
+
+          // Customer information
+          customer_id: customers.id,
+          customer_name: customers.name,
+          customer_name_ar: customers.name_ar,
+
+          // Product information
+          item_name: items.name,
+          item_name_ar: items.name_ar,
+          size_caption: customer_products.size_caption,
+          width: customer_products.width,
+          thickness: customer_products.thickness,
+          raw_material: customer_products.raw_material,
+
+          // Production order information
+          production_order_id: production_orders.id,
+          production_order_number: production_orders.production_order_number,
+
+          // Received by user information
+          received_by_name: users.username,
+        })
+        .from(warehouse_receipts)
+        .leftJoin(
+          production_orders,
+          eq(warehouse_receipts.production_order_id, production_orders.id),
+        )
+        .leftJoin(orders, eq(production_orders.order_id, orders.id))
+        .leftJoin(customers, eq(orders.customer_id, customers.id))
+        .leftJoin(
+          customer_products,
+          eq(production_orders.customer_product_id, customer_products.id),
+        )
+        .leftJoin(items, eq(customer_products.item_id, items.id))
+        .leftJoin(users, eq(warehouse_receipts.received_by, users.id))
+        .orderBy(desc(warehouse_receipts.created_at));
+
+      // Group receipts by order number
+      const groupedReceipts: { [key: string]: any } = {};
+
+      receipts.forEach((receipt: any) => {
+        const orderNumber = receipt.order_number;
+
+        if (!groupedReceipts[orderNumber]) {
+          groupedReceipts[orderNumber] = {
+            order_number: orderNumber,
+            customer_name: receipt.customer_name,
+            customer_name_ar: receipt.customer_name_ar,
+            item_name: receipt.item_name,
+            item_name_ar: receipt.item_name_ar,
+            size_caption: receipt.size_caption,
+            width: receipt.width,
+            thickness: receipt.thickness,
+            raw_material: receipt.raw_material,
+            receipts: [],
+            total_received_weight: 0,
+          };
+        }
+
+        // Add receipt to the group
+        groupedReceipts[orderNumber].receipts.push({
+          receipt_id: receipt.receipt_id,
+          receipt_date: receipt.receipt_date,
+          received_weight_kg: receipt.received_weight_kg,
+          received_by_name: receipt.received_by_name,
+          production_order_number: receipt.production_order_number,
+        });
+
+        // Add to total received weight
+        groupedReceipts[orderNumber].total_received_weight += parseFloat(
+          receipt.received_weight_kg || 0,
+        );
+      });
+
+      return Object.values(groupedReceipts);
+    } catch (error) {
+      console.error("Error fetching detailed warehouse receipts:", error);
+      throw new Error("فشل في جلب تفاصيل إيصالات المستودع");
+    }
+  }
+
+  // Get production orders ready for warehouse receipt (with cut quantities)
+  async getProductionOrdersForReceipt(): Promise<any[]> {
+    try {
+      // Get production orders that have cuts but haven't been fully received
+      const result = await db
+        .select({
+          order_id: production_orders.order_id,
+          order_number: orders.order_number,
+          production_order_id: production_orders.id,
+          production_order_number: production_orders.production_order_number,
+          customer_id: orders.customer_id,
+          customer_name: customers.name,
+          customer_name_ar: customers.name_ar,
+          quantity_required: production_orders.quantity_kg,
+          item_name: items.name,
+          item_name_ar: items.name_ar,
+          size_caption: customer_products.size_caption,
+          raw_material: customer_products.raw_material,
+          master_batch_id: customer_products.master_batch_id,
+          // Calculate total film production (sum of all roll weights for this production order)
+          total_film_weight: sql<string>`
+            COALESCE((
+              SELECT SUM(weight_kg)::decimal(12,3)
+              FROM rolls 
+              WHERE production_order_id = ${production_orders.id}
+            ), 0)
+          `,
+          // Calculate total cut weight (sum of cut weights from rolls table)
+          total_cut_weight: sql<string>`
+            COALESCE((
+              SELECT SUM(cut_weight_total_kg)::decimal(12,3)
+              FROM rolls 
+              WHERE production_order_id = ${production_orders.id}
+                AND cut_weight_total_kg > 0
+            ), 0)
+          `,
+          // Calculate total received weight (sum of all warehouse receipts for this production order)
+          total_received_weight: sql<string>`
+            COALESCE((
+              SELECT SUM(received_weight_kg)::decimal(12,3)
+              FROM warehouse_receipts
+              WHERE production_order_id = ${production_orders.id}
+            ), 0)
+          `,
+          // Calculate waste (film production - cut weight)
+          waste_weight: sql<string>`
+            COALESCE((
+              SELECT SUM(weight_kg)::decimal(12,3)
+              FROM rolls 
+              WHERE production_order_id = ${production_orders.id}
+            ), 0) - COALESCE((
+              SELECT SUM(cut_weight_total_kg)::decimal(12,3)
+              FROM rolls 
+              WHERE production_order_id = ${production_orders.id}
+                AND cut_weight_total_kg > 0
+            ), 0)
+          `,
+        })
+        .from(production_orders)
+        .leftJoin(orders, eq(production_orders.order_id, orders.id))
+        .leftJoin(customers, eq(orders.customer_id, customers.id))
+        .leftJoin(
+          customer_products,
+          eq(production_orders.customer_product_id, customer_products.id),
+        )
+        .leftJoin(items, eq(customer_products.item_id, items.id))
+        .where(
+          // Only include production orders that have cuts but haven't been fully received
+          sql`EXISTS (
+            SELECT 1 FROM rolls
+            WHERE production_order_id = ${production_orders.id}
+              AND cut_weight_total_kg > 0
+          ) AND COALESCE((
+            SELECT SUM(cut_weight_total_kg)
+            FROM rolls
+            WHERE production_order_id = ${production_orders.id}
+              AND cut_weight_total_kg > 0
+          ), 0) > COALESCE((
+            SELECT SUM(received_weight_kg)
+            FROM warehouse_receipts
+            WHERE production_order_id = ${production_orders.id}
+          ), 0)`,
+        )
+        .orderBy(desc(orders.created_at));
 
-      return {
-        tableCount: tableCount.rows[0]?.count || 0,
-        totalRecords,
-        databaseSize: dbSize.rows[0]?.size || "0 MB",
-        lastBackup: new Date().toLocaleDateString("ar"),
-      };
+      return result;
     } catch (error) {
-      console.error("Error getting database stats:", error);
-      // Return mock data for development
-      return {
-        tableCount: 8,
-        totalRecords: 1247,
-        databaseSize: "45.2 MB",
-        lastBackup: "اليوم",
-        tableStats: [],
-      };
+      console.error("Error fetching production orders for receipt:", error);
+      throw new Error("فشل في جلب أوامر الإنتاج القابلة للاستلام");
     }
   }
 
-  async createDatabaseBackup(): Promise<any> {
-    try {
-      const backupId = `backup_${Date.now()}`;
-      const timestamp = new Date();
-
-      // Create a comprehensive backup by getting all table data
-      const backupData: any = {
-        id: backupId,
-        timestamp,
-        tables: {},
-      };
-
-      // Export all major tables
-      const tableNames = [
-        "orders",
-        "customers",
-        "users",
-        "machines",
-        "locations",
-        "categories",
-      ];
-
-      for (const tableName of tableNames) {
-        try {
-          const tableData = await this.exportTableData(tableName, "json");
-          // tableData is string for JSON format, so we can parse it directly
-          backupData.tables[tableName] = JSON.parse(tableData as string);
-        } catch (error) {
-          console.warn(`Failed to backup table ${tableName}:`, error);
-          backupData.tables[tableName] = [];
-        }
-      }
-
-      // Store backup data as JSON
-      const backupJson = JSON.stringify(backupData, null, 2);
-      const filename = `backup-${timestamp.toISOString().split("T")[0]}.json`;
-
-      // In production, this would be saved to file system or cloud storage
-      // For now, return the backup data for download
+  // ============ الشحنات وإشعارات التسليم ============
+
+  // أرصدة أوامر الإنتاج (مطلوب / مستلم / مسلم) - تُستدعى داخل المعاملة عند التسليم
+  private async queryOrderLineBalances(
+    executor: DbTransaction | typeof db,
+    condition: ReturnType<typeof sql>,
+  ): Promise<ShippableOrderLine[]> {
+    const result = await executor.execute(sql`
+      SELECT
+        po.id AS production_order_id,
+        po.production_order_number,
+        po.order_id,
+        o.order_number,
+        o.status AS order_status,
+        o.delivery_date,
+        c.name AS customer_name,
+        c.name_ar AS customer_name_ar,
+        cp.item_id,
+        i.name AS item_name,
+        i.name_ar AS item_name_ar,
+        cp.size_caption,
+        po.quantity_kg::float AS ordered_kg,
+        COALESCE((
+          SELECT SUM(wr.received_weight_kg)
+          FROM warehouse_receipts wr
+          WHERE wr.production_order_id = po.id
+        ), 0)::float AS received_kg,
+        COALESCE((
+          SELECT SUM(si.quantity_kg)
+          FROM shipment_items si
+          JOIN shipments s ON s.id = si.shipment_id
+          WHERE si.production_order_id = po.id AND s.status <> 'cancelled'
+        ), 0)::float AS delivered_kg,
+        (
+          SELECT MAX(s.shipped_at)
+          FROM shipment_items si
+          JOIN shipments s ON s.id = si.shipment_id
+          WHERE si.production_order_id = po.id AND s.status <> 'cancelled'
+        ) AS last_shipped_at
+      FROM production_orders po
+      JOIN orders o ON o.id = po.order_id
+      LEFT JOIN customers c ON c.id = o.customer_id
+      LEFT JOIN customer_products cp ON cp.id = po.customer_product_id
+      LEFT JOIN items i ON i.id = cp.item_id
+      WHERE po.status <> 'cancelled' AND ${condition}
+      ORDER BY o.order_number, po.production_order_number
+    `);
+
+    return (result.rows as any[]).map((row) => {
+      const ordered = Number(row.ordered_kg) || 0;
+      const received = Number(row.received_kg) || 0;
+      const delivered = Number(row.delivered_kg) || 0;
       return {
-        id: backupId,
-        filename,
-        data: backupJson,
-        size: `${(backupJson.length / 1024 / 1024).toFixed(2)} MB`,
-        timestamp,
-        status: "completed",
-      };
-    } catch (error) {
-      console.error("Error creating backup:", error);
-      throw new Error("فشل في إنشاء النسخة الاحتياطية");
-    }
-  }
-
-  async getBackupFile(backupId: string): Promise<any> {
-    try {
-      // In a real implementation, this would retrieve the actual backup file
-      // For now, return a simple SQL dump representation
-      return `-- Database Backup: ${backupId}
--- Created: ${new Date().toISOString()}
--- 
--- This is a simulated backup file
--- In production, this would contain actual SQL statements
-`;
-    } catch (error) {
-      console.error("Error getting backup file:", error);
-      throw new Error("فشل في جلب ملف النسخة الاحتياطية");
-    }
+        ...row,
+        ordered_kg: ordered,
+        received_kg: received,
+        delivered_kg: delivered,
+        available_kg: Number(Math.max(received - delivered, 0).toFixed(3)),
+        backorder_kg: Number(Math.max(ordered - delivered, 0).toFixed(3)),
+      } as ShippableOrderLine;
+    });
   }
 
-  async restoreDatabaseBackup(backupData: any): Promise<any> {
-    try {
-      // In a real implementation, this would restore from SQL dump
-      // For now, simulate the restore process
-      return {
-        status: "success",
-        tablesRestored: 8,
-        recordsRestored: 1247,
-        timestamp: new Date(),
-      };
-    } catch (error) {
-      console.error("Error restoring backup:", error);
-      throw new Error("فشل في استعادة النسخة الاحتياطية");
-    }
+  async getShippableLines(orderId?: number): Promise<ShippableOrderLine[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const lines = await this.queryOrderLineBalances(
+          db,
+          orderId
+            ? sql`o.id = ${orderId}`
+            : sql`o.status NOT IN ('cancelled', 'completed')`,
+        );
+        // بدون تحديد طلب: فقط البنود التي بها كمية مستلمة جاهزة للتسليم
+        return orderId ? lines : lines.filter((line) => line.available_kg > 0);
+      },
+      "جلب الكميات الجاهزة للتسليم",
+    );
   }
 
-  async exportTableData(
-    tableName: string,
-    format: string,
-  ): Promise<Buffer | string> {
-    try {
-      let data;
-
-      // Get data based on table name
-      switch (tableName) {
-        case "orders":
-          data = await db.select().from(orders);
-          break;
-        case "customers":
-          data = await db.select().from(customers);
-          break;
-
-        case "users":
-          data = await db.select().from(users);
-          break;
-        case "machines":
-          data = await db.select().from(machines);
-          break;
-        case "locations":
-          data = await db.select().from(locations);
-          break;
-        case "categories":
-          data = await db.select().from(categories);
-          break;
-        case "sections":
-          data = await db.select().from(sections);
-          break;
-        case "items":
-          data = await db.select().from(items);
-          break;
-        case "rolls":
-          data = await db.select().from(rolls);
-          break;
-        case "production_orders":
-          data = await db.select().from(production_orders);
-          break;
-        case "production_orders_view":
-          data = await db.select().from(production_orders);
-          break;
-        case "production_orders":
-          data = await db.select().from(production_orders);
-          break;
-        case "customer_products":
-          data = await db.select().from(customer_products);
-          break;
-        default:
-          throw new Error(`جدول غير مدعوم: ${tableName}`);
-      }
-
-      // Format data based on requested format
-      switch (format) {
-        case "csv":
-          return this.convertToCSV(data, tableName);
-        case "json":
-          return JSON.stringify(data, null, 2);
-        case "excel":
-          return this.convertToExcel(data, tableName);
-        default:
-          return JSON.stringify(data, null, 2);
-      }
-    } catch (error) {
-      console.error("Error exporting table data:", error);
-      throw new Error("فشل في تصدير بيانات الجدول");
-    }
+  // الطلبات المسلمة جزئياً والكميات المتبقية عليها
+  async getBackorders(): Promise<ShippableOrderLine[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const lines = await this.queryOrderLineBalances(
+          db,
+          sql`o.status NOT IN ('cancelled', 'completed') AND EXISTS (
+            SELECT 1 FROM shipments s
+            WHERE s.order_id = o.id AND s.status <> 'cancelled'
+          )`,
+        );
+        return lines.filter((line) => line.backorder_kg > 0);
+      },
+      "جلب الكميات المتأخرة للطلبات المسلمة جزئياً",
+    );
   }
 
-  async importTableData(
-    tableName: string,
-    data: any,
-    format: string,
-  ): Promise<any> {
-    try {
-      // Parse data based on format
-      let parsedData;
-      switch (format) {
-        case "csv":
-          parsedData = this.parseCSV(data);
-          break;
-        case "json":
-          parsedData = JSON.parse(data);
-          break;
-        case "excel":
-          parsedData = this.parseExcel(data);
-          break;
-        default:
-          parsedData = JSON.parse(data);
-      }
-
-      if (!Array.isArray(parsedData) || parsedData.length === 0) {
-        throw new Error("البيانات فارغة أو غير صحيحة");
-      }
-
-      // Insert the data into the specified table
-      let insertedCount = 0;
-
-      switch (tableName) {
-        case "users":
-          for (const row of parsedData) {
-            if (row.username && row.password) {
-              try {
-                const [newUser] = await db
-                  .insert(users)
-                  .values({
-                    username: row.username,
-                    password: row.password,
-                    display_name: row.display_name || row.username,
-                    display_name_ar: row.display_name_ar || row.username,
-                    role_id: parseInt(row.role_id) || 1,
-                    section_id: row.section_id || null,
-                    status: row.status || "active",
-                  })
-                  .returning();
-                insertedCount++;
-              } catch (error) {
-                console.warn(
-                  `تم تجاهل المستخدم ${row.username} - موجود مسبقاً أو بيانات غير صحيحة`,
-                );
-              }
-            }
-          }
-          break;
-
-        case "customers":
-          for (const row of parsedData) {
-            if (row.name || row.name_ar) {
-              try {
-                let customerId = row.id;
-
-                // Generate sequential ID if not provided
-                if (!customerId) {
-                  console.log("إنتاج معرف جديد للعميل...");
-                  const existingCustomers = await db
-                    .select({ id: customers.id })
-                    .from(customers)
-                    .orderBy(customers.id);
-
-                  const cidNumbers = existingCustomers
-                    .filter(
-                      (cust) =>
-                        cust.id.startsWith("CID") && /^CID\d{3}$/.test(cust.id),
-                    )
-                    .map((cust) => parseInt(cust.id.replace("CID", "")))
-                    .filter((num) => !isNaN(num) && num >= 1 && num <= 999);
-
-                  console.log("أرقام العملاء المعيارية:", cidNumbers);
-                  const maxNum =
-                    cidNumbers.length > 0 ? Math.max(...cidNumbers) : 0;
-                  const nextNum = maxNum + 1;
-                  customerId = `CID${nextNum.toString().padStart(3, "0")}`;
-                  console.log("معرف العميل الجديد:", customerId);
-                }
-
-                const customerData = {
-                  id: customerId,
-                  name: row.name || row.name_ar || "",
-                  name_ar: row.name_ar || row.name || "",
-                  phone: row.phone || "",
-                  address: row.address || "",
-                  contact_person: row.contact_person || "",
-                  email: row.email || "",
-                  city: row.city || "",
-                  status: row.status || "active",
-                };
-
-                const [newCustomer] = await db
-                  .insert(customers)
-                  .values(customerData)
-                  .returning();
-                insertedCount++;
-                console.log(
-                  `تم إضافة العميل: ${newCustomer.name} (ID: ${newCustomer.id})`,
-                );
-              } catch (error) {
-                console.warn(
-                  `تم تجاهل العميل ${row.name} - بيانات غير صحيحة: ${error instanceof Error ? error.message : "خطأ غير معروف"}`,
-                );
-              }
-            }
-          }
-          break;
-
-        case "items":
-          for (const row of parsedData) {
-            if (row.name || row.name_ar) {
-              try {
-                let itemId = row.id;
-
-                // Generate sequential ID if not provided
-                if (!itemId) {
-                  console.log("إنتاج معرف جديد للصنف...");
-                  const existingItems = await db
-                    .select({ id: items.id })
-                    .from(items)
-                    .orderBy(items.id);
-
-                  const itmNumbers = existingItems
-                    .filter(
-                      (item) =>
-                        item.id.startsWith("ITM") && /^ITM\d{2}$/.test(item.id),
-                    )
-                    .map((item) => parseInt(item.id.replace("ITM", "")))
-                    .filter((num) => !isNaN(num) && num >= 1 && num <= 99);
-
-                  console.log("أرقام الأصناف المعيارية:", itmNumbers);
-                  const maxNum =
-                    itmNumbers.length > 0 ? Math.max(...itmNumbers) : 0;
-                  const nextNum = maxNum + 1;
-                  itemId = `ITM${nextNum.toString().padStart(2, "0")}`;
-                  console.log("معرف الصنف الجديد:", itemId);
-                }
-
-                const itemData = {
-                  id: itemId,
-                  name_ar: row.name_ar || row.name || "",
-                  category_id: row.category_id || null,
-                  code: row.code || null,
-                  status: row.status || "active",
-                };
-
-                const [newItem] = await db
-                  .insert(items)
-                  .values(itemData)
-                  .returning();
-                insertedCount++;
-                console.log(
-                  `تم إضافة الصنف: ${newItem.name_ar} (ID: ${newItem.id})`,
-                );
-              } catch (error) {
-                console.warn(
-                  `تم تجاهل الصنف ${row.name} - موجود مسبقاً أو بيانات غير صحيحة: ${error instanceof Error ? error.message : "خطأ غير معروف"}`,
-                );
-              }
-            }
-          }
-          break;
-
-        case "categories":
-          for (const row of parsedData) {
-            if (row.name || row.name_ar) {
-              try {
-                let categoryId = row.id;
-
-                // Generate sequential ID if not provided
-                if (!categoryId) {
-                  console.log("إنتاج معرف جديد للفئة...");
-                  const existingCategories = await db
-                    .select({ id: categories.id })
-                    .from(categories)
-                    .orderBy(categories.id);
-                  console.log(
-                    "الفئات الموجودة:",
-                    existingCategories.map((c) => c.id),
-                  );
-
-                  const catNumbers = existingCategories
-                    .filter(
-                      (cat) =>
-                        cat.id.startsWith("CAT") && /^CAT\d{2}$/.test(cat.id),
-                    )
-                    .map((cat) => parseInt(cat.id.replace("CAT", "")))
-                    .filter((num) => !isNaN(num) && num >= 1 && num <= 99);
-
-                  console.log("أرقام الفئات المعيارية:", catNumbers);
-                  const maxNum =
-                    catNumbers.length > 0 ? Math.max(...catNumbers) : 0;
-                  const nextNum = maxNum + 1;
-                  categoryId = `CAT${nextNum.toString().padStart(2, "0")}`;
-                  console.log("المعرف الجديد:", categoryId);
-                }
-
-                const categoryData = {
-                  id: categoryId,
-                  name: row.name || row.name_ar || "",
-                  name_ar: row.name_ar || row.name || "",
-                  description: row.description || null,
-                  description_ar: row.description_ar || row.description || null,
-                };
-
-                const [newCategory] = await db
-                  .insert(categories)
-                  .values(categoryData)
-                  .returning();
-                insertedCount++;
-                console.log(
-                  `تم إضافة الفئة: ${newCategory.name} (ID: ${newCategory.id})`,
-                );
-              } catch (error) {
-                console.warn(
-                  `تم تجاهل الفئة ${row.name} - بيانات غير صحيحة: ${error instanceof Error ? error.message : "خطأ غير معروف"}`,
-                );
-              }
-            }
-          }
-          break;
-
-        case "orders":
-          for (const row of parsedData) {
-            if (row.customer_id) {
-              try {
-                // Require created_by in imported data for security
-                if (!row.created_by) {
-                  throw new Error("حقل created_by مطلوب في البيانات المستوردة");
-                }
-                
-                const [newOrder] = await db
-                  .insert(orders)
-                  .values({
-                    order_number: row.order_number || `ORD${Date.now()}`,
-                    customer_id: row.customer_id,
-                    delivery_days: row.delivery_days || null,
-                    status: row.status || "pending",
-                    notes: row.notes || null,
-                    created_by: row.created_by,
-                  })
-                  .returning();
-                insertedCount++;
-                console.log(`تم إضافة الطلب: ${newOrder.id}`);
-              } catch (error) {
-                console.warn(
-                  `تم تجاهل الطلب - بيانات غير صحيحة: ${error instanceof Error ? error.message : "خطأ غير معروف"}`,
-                );
-              }
-            }
-          }
-          break;
-
-        default:
-          throw new Error(`الجدول "${tableName}" غير مدعوم للاستيراد`);
-      }
+  async getShipments(
+    filters: { orderId?: number; status?: string } = {},
+  ): Promise<ShipmentSummary[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const rows = await db
+          .select({
+            ...getTableColumns(shipments),
+            order_number: orders.order_number,
+            customer_name: customers.name,
+            customer_name_ar: customers.name_ar,
+            created_by_name: users.display_name_ar,
+            created_by_username: users.username,
+            total_kg: sql<string>`COALESCE((
+              SELECT SUM(${shipment_items.quantity_kg})
+              FROM ${shipment_items}
+              WHERE ${shipment_items.shipment_id} = ${shipments.id}
+            ), 0)`,
+            items_count: sql<number>`(
+              SELECT COUNT(*)::int
+              FROM ${shipment_items}
+              WHERE ${shipment_items.shipment_id} = ${shipments.id}
+            )`,
+          })
+          .from(shipments)
+          .innerJoin(orders, eq(shipments.order_id, orders.id))
+          .leftJoin(customers, eq(orders.customer_id, customers.id))
+          .leftJoin(users, eq(shipments.created_by, users.id))
+          .where(
+            and(
+              filters.orderId
+                ? eq(shipments.order_id, filters.orderId)
+                : undefined,
+              filters.status ? eq(shipments.status, filters.status) : undefined,
+            ),
+          )
+          .orderBy(desc(shipments.shipped_at));
 
-      return {
-        status: "success",
-        count: insertedCount,
-        totalRows: parsedData.length,
-        tableName,
-        message: `تم استيراد ${insertedCount} من أصل ${parsedData.length} سجل بنجاح`,
-      };
-    } catch (error) {
-      console.error("Error importing table data:", error);
-      throw new Error(
-        `فشل في استيراد البيانات: ${error instanceof Error ? error.message : "خطأ غير معروف"}`,
-      );
-    }
+        return rows.map(({ created_by_username, ...row }) => ({
+          ...row,
+          created_by_name: row.created_by_name || created_by_username,
+          total_kg: normalizeDecimal(row.total_kg),
+          items_count: Number(row.items_count) || 0,
+        }));
+      },
+      "جلب إشعارات التسليم",
+    );
   }
 
-  async optimizeTables(): Promise<any> {
-    try {
-      // In a real implementation, this would run VACUUM and ANALYZE on PostgreSQL
-      await db.execute(sql`VACUUM ANALYZE`);
+  async getShipmentDetails(id: number): Promise<ShipmentDetails | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [summary] = (await this.getShipments()).filter(
+          (shipment) => shipment.id === id,
+        );
+        if (!summary) return undefined;
 
-      return {
-        status: "success",
-        message: "تم تحسين جميع الجداول بنجاح",
-        timestamp: new Date(),
-      };
-    } catch (error) {
-      console.error("Error optimizing tables:", error);
-      // Return success for development
-      return {
-        status: "success",
-        message: "تم تحسين جميع الجداول بنجاح",
-        timestamp: new Date(),
-      };
-    }
-  }
+        const [order] = await db
+          .select({ customer_id: orders.customer_id })
+          .from(orders)
+          .where(eq(orders.id, summary.order_id));
+        const [customer] = order
+          ? await db
+              .select({
+                id: customers.id,
+                name: customers.name,
+                name_ar: customers.name_ar,
+                city: customers.city,
+                address: customers.address,
+                phone: customers.phone,
+                tax_number: customers.tax_number,
+              })
+              .from(customers)
+              .where(eq(customers.id, order.customer_id))
+          : [];
 
-  async checkDatabaseIntegrity(): Promise<any> {
-    try {
-      // In a real implementation, this would run integrity checks
-      // For now, simulate the check
-      return {
-        status: "healthy",
-        message: "قاعدة البيانات سليمة",
-        checks: [
-          { name: "Foreign Key Constraints", status: "passed" },
-          { name: "Data Consistency", status: "passed" },
-          { name: "Index Integrity", status: "passed" },
-          { name: "Table Structure", status: "passed" },
-        ],
-        timestamp: new Date(),
-      };
-    } catch (error) {
-      console.error("Error checking database integrity:", error);
-      throw new Error("فشل في فحص تكامل قاعدة البيانات");
-    }
-  }
+        const itemRows = await db
+          .select({
+            ...getTableColumns(shipment_items),
+            production_order_number: production_orders.production_order_number,
+            ordered_kg: production_orders.quantity_kg,
+            item_name: items.name,
+            item_name_ar: items.name_ar,
+            size_caption: customer_products.size_caption,
+          })
+          .from(shipment_items)
+          .innerJoin(
+            production_orders,
+            eq(shipment_items.production_order_id, production_orders.id),
+          )
+          .leftJoin(
+            customer_products,
+            eq(production_orders.customer_product_id, customer_products.id),
+          )
+          .leftJoin(items, eq(customer_products.item_id, items.id))
+          .where(eq(shipment_items.shipment_id, id))
+          .orderBy(production_orders.production_order_number);
 
-  async cleanupOldData(daysOld: number): Promise<any> {
-    try {
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+        const balances = await this.queryOrderLineBalances(
+          db,
+          sql`o.id = ${summary.order_id}`,
+        );
 
-      // In a real implementation, this would delete old records
-      // For now, simulate the cleanup
-      return {
-        status: "success",
-        count: 0, // No old data to clean up in development
-        message: `تم تنظيف البيانات الأقدم من ${daysOld} يوم`,
-        timestamp: new Date(),
-      };
-    } catch (error) {
-      console.error("Error cleaning up old data:", error);
-      throw new Error("فشل في تنظيف البيانات القديمة");
-    }
+        return {
+          ...summary,
+          customer: customer || null,
+          items: itemRows.map((item) => ({
+            ...item,
+            ordered_kg: normalizeDecimal(item.ordered_kg),
+          })),
+          balances,
+        };
+      },
+      "جلب تفاصيل إشعار التسليم",
+    );
   }
 
-  // Helper methods for data conversion
-  private convertToCSV(data: any[], tableName?: string): Buffer {
-    if (!data || data.length === 0) {
-      // Create empty template with proper column headers
-      const templateHeaders = this.getTableTemplate(tableName);
-      const csvContent = templateHeaders.join(",");
-      return Buffer.from("\uFEFF" + csvContent, "utf8"); // BOM for UTF-8
-    }
+  async createShipment(
+    data: InsertShipment,
+    userId: number,
+  ): Promise<{ shipment: ShipmentDetails; order_completed: boolean }> {
+    const { shipmentId, orderCompleted } = await db.transaction(async (tx) => {
+      // قفل الطلب لمنع تسليمين متزامنين لنفس الكمية
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, data.order_id))
+        .for("update");
+      if (!order) {
+        throw new Error("الطلب غير موجود");
+      }
+      if (order.status === "cancelled") {
+        throw new Error("لا يمكن تسليم طلب ملغي");
+      }
 
-    const headers = Object.keys(data[0]);
-    const csvRows = [headers.join(",")];
+      const productionOrderIds = data.items.map(
+        (item) => item.production_order_id,
+      );
+      if (new Set(productionOrderIds).size !== productionOrderIds.length) {
+        throw new Error("أمر الإنتاج مكرر في إشعار التسليم");
+      }
 
-    for (const row of data) {
-      const values = headers.map((header) => {
-        const value = row[header];
-        if (value === null || value === undefined) return "";
-        return typeof value === "string"
-          ? `"${value.replace(/"/g, '""')}"`
-          : String(value);
-      });
-      csvRows.push(values.join(","));
-    }
-
-    const csvContent = csvRows.join("\n");
-    // Add BOM (Byte Order Mark) for proper Arabic text encoding
-    return Buffer.from("\uFEFF" + csvContent, "utf8");
-  }
-
-  // Get template headers for empty tables
-  private getTableTemplate(tableName?: string): string[] {
-    const templates: Record<string, string[]> = {
-      customers: [
-        "id",
-        "name",
-        "name_ar",
-        "contact_person",
-        "phone",
-        "email",
-        "address",
-        "country",
-        "type",
-        "payment_terms",
-        "credit_limit",
-        "sales_rep_id",
-        "status",
-      ],
-      categories: [
-        "id",
-        "name",
-        "name_ar",
-        "description",
-        "description_ar",
-        "status",
-      ],
-      sections: [
-        "id",
-        "name",
-        "name_ar",
-        "category_id",
-        "description",
-        "description_ar",
-      ],
-      items: [
-        "id",
-        "name",
-        "name_ar",
-        "description",
-        "description_ar",
-        "category_id",
-        "section_id",
-        "unit",
-        "unit_ar",
-        "price",
-        "cost",
-        "status",
-      ],
-      customer_products: [
-        "id",
-        "customer_id",
-        "item_id",
-        "customer_item_code",
-        "notes",
-        "notes_ar",
-        "specifications",
-      ],
-      users: [
-        "id",
-        "username",
-        "password",
-        "display_name",
-        "email",
-        "role_id",
-        "status",
-        "department",
-        "position",
-        "phone",
-      ],
-      machines: [
-        "id",
-        "name",
-        "name_ar",
-        "type",
-        "type_ar",
-        "status",
-        "location_id",
-        "description",
-        "description_ar",
-      ],
-      locations: [
-        "id",
-        "name",
-        "name_ar",
-        "type",
-        "description",
-        "description_ar",
-      ],
-      orders: [
-        "id",
-        "customer_id",
-        "order_number",
-        "order_date",
-        "delivery_date",
-        "status",
-        "total_amount",
-        "notes",
-        "created_by",
-      ],
-      production_orders_view: [
-        "id",
-        "production_order_number",
-        "order_id",
-        "customer_product_id",
-        "quantity_kg",
-        "status",
-        "created_at",
-      ],
-      production_orders: [
-        "id",
-        "production_order_number",
-        "order_id",
-        "customer_product_id",
-        "quantity_kg",
-        "status",
-        "created_at",
-      ],
-      rolls: [
-        "id",
-        "roll_number",
-        "production_order_id",
-        "weight_kg",
-        "stage",
-        "created_at",
-      ],
-    };
+      const lines = await this.queryOrderLineBalances(
+        tx,
+        sql`o.id = ${order.id}`,
+      );
+      for (const item of data.items) {
+        const line = lines.find(
+          (l) => l.production_order_id === item.production_order_id,
+        );
+        if (!line) {
+          throw new Error("أمر الإنتاج لا يتبع هذا الطلب");
+        }
+        if (item.quantity_kg > line.available_kg + SHIPMENT_QUANTITY_TOLERANCE_KG) {
+          throw new Error(
+            `الكمية المطلوب تسليمها لأمر الإنتاج ${line.production_order_number} (${item.quantity_kg.toFixed(2)} كجم) تتجاوز الكمية المستلمة غير المسلمة (${line.available_kg.toFixed(2)} كجم)`,
+          );
+        }
+      }
 
-    return templates[tableName || ""] || ["id", "name", "description"];
-  }
+      const [{ count: shipmentCount }] = await tx
+        .select({ count: count() })
+        .from(shipments);
+      const shipmentNumber = `DN${(Number(shipmentCount) + 1).toString().padStart(3, "0")}`;
 
-  private convertToExcel(data: any[], tableName?: string): Buffer {
-    // Use dynamic import for ES modules compatibility
-    const XLSX = require("xlsx");
+      const [shipment] = await tx
+        .insert(shipments)
+        .values({
+          shipment_number: shipmentNumber,
+          order_id: order.id,
+          driver_name: data.driver_name,
+          driver_phone: data.driver_phone || null,
+          vehicle_number: data.vehicle_number,
+          delivery_address: data.delivery_address || null,
+          notes: data.notes || null,
+          created_by: userId,
+        })
+        .returning();
 
-    if (!data || data.length === 0) {
-      // Create empty template with proper column headers for the table
-      const templateHeaders = this.getTableTemplate(tableName);
-      const ws = XLSX.utils.aoa_to_sheet([templateHeaders]);
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, "قالب_البيانات");
-      return Buffer.from(XLSX.write(wb, { bookType: "xlsx", type: "buffer" }));
-    }
+      const customerName =
+        lines[0]?.customer_name_ar || lines[0]?.customer_name || null;
+      for (const item of data.items) {
+        const line = lines.find(
+          (l) => l.production_order_id === item.production_order_id,
+        )!;
+        await tx.insert(shipment_items).values({
+          shipment_id: shipment.id,
+          production_order_id: item.production_order_id,
+          quantity_kg: numberToDecimalString(item.quantity_kg, 3),
+          notes: item.notes || null,
+        });
+        // حركة صرف من المستودع مرتبطة بإشعار التسليم
+        await tx.insert(warehouse_transactions).values({
+          type: "delivery",
+          item_id: line.item_id,
+          quantity: numberToDecimalString(item.quantity_kg, 2),
+          from_location: "المستودع",
+          to_location: customerName,
+          reference_id: shipment.id,
+          notes: `إشعار تسليم ${shipmentNumber} - أمر الإنتاج ${line.production_order_number}`,
+        });
+        line.delivered_kg += item.quantity_kg;
+      }
 
-    // Convert data to worksheet
-    const ws = XLSX.utils.json_to_sheet(data);
+      // اكتمال الطلب عند تسليم الكمية المطلوبة لجميع أوامر الإنتاج
+      const fullyDelivered = lines.every(
+        (line) =>
+          line.delivered_kg + SHIPMENT_QUANTITY_TOLERANCE_KG >= line.ordered_kg,
+      );
+      if (fullyDelivered && order.status !== "completed") {
+        await tx
+          .update(orders)
+          .set({ status: "completed" })
+          .where(eq(orders.id, order.id));
+      }
 
-    // Create workbook and add worksheet
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "البيانات");
+      return { shipmentId: shipment.id, orderCompleted: fullyDelivered };
+    });
 
-    // Return as buffer for proper Excel format
-    return Buffer.from(
-      XLSX.write(wb, {
-        bookType: "xlsx",
-        type: "buffer",
-        cellStyles: true, // Enable proper text formatting
-      }),
-    );
+    const shipment = await this.getShipmentDetails(shipmentId);
+    return { shipment: shipment!, order_completed: orderCompleted };
   }
 
-  private parseCSV(csvData: string): any[] {
-    const lines = csvData.split("\n");
-    if (lines.length < 2) return [];
+  async cancelShipment(id: number, userId: number): Promise<Shipment> {
+    return await db.transaction(async (tx) => {
+      const [shipment] = await tx
+        .select()
+        .from(shipments)
+        .where(eq(shipments.id, id))
+        .for("update");
+      if (!shipment) {
+        throw new Error("إشعار التسليم غير موجود");
+      }
+      if (shipment.status === "cancelled") {
+        throw new Error("إشعار التسليم ملغي مسبقاً");
+      }
 
-    const headers = lines[0].split(",");
-    const result = [];
+      const [cancelled] = await tx
+        .update(shipments)
+        .set({
+          status: "cancelled",
+          cancelled_by: userId,
+          cancelled_at: new Date(),
+        })
+        .where(eq(shipments.id, id))
+        .returning();
 
-    for (let i = 1; i < lines.length; i++) {
-      if (lines[i].trim()) {
-        const values = lines[i].split(",");
-        const row: any = {};
-        headers.forEach((header: string, index: number) => {
-          row[header.trim()] = values[index]?.trim().replace(/"/g, "") || "";
+      // إرجاع الكميات إلى المستودع بحركة عكسية
+      const itemRows = await tx
+        .select({
+          quantity_kg: shipment_items.quantity_kg,
+          production_order_number: production_orders.production_order_number,
+          item_id: customer_products.item_id,
+        })
+        .from(shipment_items)
+        .innerJoin(
+          production_orders,
+          eq(shipment_items.production_order_id, production_orders.id),
+        )
+        .leftJoin(
+          customer_products,
+          eq(production_orders.customer_product_id, customer_products.id),
+        )
+        .where(eq(shipment_items.shipment_id, id));
+      for (const item of itemRows) {
+        await tx.insert(warehouse_transactions).values({
+          type: "incoming",
+          item_id: item.item_id,
+          quantity: normalizeDecimal(item.quantity_kg).toFixed(2),
+          to_location: "المستودع",
+          reference_id: shipment.id,
+          notes: `إلغاء إشعار التسليم ${shipment.shipment_number} - أمر الإنتاج ${item.production_order_number}`,
         });
-        result.push(row);
       }
-    }
-
-    return result;
-  }
-
-  private parseExcel(excelData: any): any[] {
-    // For now, treat as CSV
-    // In a real implementation, you would use a library like xlsx
-    return this.parseCSV(excelData);
-  }
-
-  // ============ User Violations Management ============
-  async getViolations(): Promise<any[]> {
-    try {
-      const result = await db.execute(
-        sql`SELECT * FROM user_violations ORDER BY created_at DESC`,
-      );
-      return result.rows;
-    } catch (error) {
-      console.error("Error fetching violations:", error);
-      throw new Error("فشل في جلب المخالفات");
-    }
-  }
 
-  async createViolation(violationData: any): Promise<any> {
-    try {
-      const result = await db.execute(sql`
-        INSERT INTO user_violations (user_id, type, description, penalty, status, created_by)
-        VALUES (${violationData.user_id}, ${violationData.type}, ${violationData.description}, 
-                ${violationData.penalty}, ${violationData.status || "معلق"}, ${violationData.created_by})
-        RETURNING *
-      `);
-      return result.rows[0];
-    } catch (error) {
-      console.error("Error creating violation:", error);
-      throw new Error("فشل في إنشاء المخالفة");
-    }
-  }
+      // الطلب لم يعد مسلماً بالكامل
+      await tx
+        .update(orders)
+        .set({ status: "in_production" })
+        .where(
+          and(eq(orders.id, shipment.order_id), eq(orders.status, "completed")),
+        );
 
-  async updateViolation(id: number, violationData: any): Promise<any> {
-    try {
-      const result = await db.execute(sql`
-        UPDATE user_violations 
-        SET type = ${violationData.type}, description = ${violationData.description},
-            penalty = ${violationData.penalty}, status = ${violationData.status},
-            updated_at = NOW()
-        WHERE id = ${id}
-        RETURNING *
-      `);
-      return result.rows[0];
-    } catch (error) {
-      console.error("Error updating violation:", error);
-      throw new Error("فشل في تحديث المخالفة");
-    }
+      return cancelled;
+    });
   }
 
-  async deleteViolation(id: number): Promise<void> {
-    try {
-      await db.execute(sql`DELETE FROM user_violations WHERE id = ${id}`);
-    } catch (error) {
-      console.error("Error deleting violation:", error);
-      throw new Error("فشل في حذف المخالفة");
-    }
+  // ============ المشتريات ============
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return withDatabaseErrorHandling(
+      () => db.select().from(suppliers).orderBy(suppliers.name),
+      "جلب الموردين",
+    );
   }
 
-  // ============ User Requests Management ============
-  async getUserRequests(): Promise<any[]> {
-    try {
-      const requests = await db
-        .select()
-        .from(user_requests)
-        .orderBy(desc(user_requests.date));
-      return requests;
-    } catch (error) {
-      console.error("Error fetching user requests:", error);
-      throw new Error("فشل في جلب طلبات المستخدمين");
-    }
+  async createSupplier(data: InsertSupplier): Promise<Supplier> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [supplier] = await db.insert(suppliers).values(data).returning();
+        return supplier;
+      },
+      "إنشاء مورد",
+      `اسم المورد: ${data.name}`,
+    );
   }
 
-  async createUserRequest(requestData: any): Promise<any> {
-    try {
-      const result = await db.execute(sql`
-        INSERT INTO user_requests (user_id, type, title, description, status)
-        VALUES (${requestData.user_id}, ${requestData.type}, ${requestData.title}, 
-                ${requestData.description}, ${requestData.status || "معلق"})
-        RETURNING *
-      `);
-      return result.rows[0];
-    } catch (error) {
-      console.error("Error creating user request:", error);
-      throw new Error("فشل في إنشاء الطلب");
-    }
+  async updateSupplier(
+    id: number,
+    data: Partial<InsertSupplier>,
+  ): Promise<Supplier | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [supplier] = await db
+          .update(suppliers)
+          .set(data)
+          .where(eq(suppliers.id, id))
+          .returning();
+        return supplier;
+      },
+      "تحديث المورد",
+      `رقم المورد: ${id}`,
+    );
   }
 
-  async updateUserRequest(id: number, requestData: any): Promise<any> {
-    try {
-      const [updatedRequest] = await db
-        .update(user_requests)
-        .set({
-          type: requestData.type,
-          title: requestData.title,
-          description: requestData.description,
-          status: requestData.status,
-          response: requestData.response,
-          updated_at: new Date(),
-        })
-        .where(eq(user_requests.id, id))
-        .returning();
-      return updatedRequest;
-    } catch (error) {
-      console.error("Error updating user request:", error);
-      throw new Error("فشل في تحديث الطلب");
+  async deleteSupplier(id: number): Promise<boolean> {
+    const [{ count: orderCount }] = await db
+      .select({ count: count() })
+      .from(purchase_orders)
+      .where(eq(purchase_orders.supplier_id, id));
+    if (Number(orderCount) > 0) {
+      throw new PurchasingError(
+        "لا يمكن حذف مورد له أوامر شراء - يمكن إيقاف تفعيله بدلاً من ذلك",
+      );
     }
+    const deleted = await db
+      .delete(suppliers)
+      .where(eq(suppliers.id, id))
+      .returning({ id: suppliers.id });
+    return deleted.length > 0;
   }
 
-  async deleteUserRequest(id: number): Promise<void> {
-    return await db.transaction(async (tx) => {
-      try {
-        // Delete related notifications first
-        await tx
-          .delete(notifications)
+  async getPurchaseOrders(
+    filters: { status?: string; supplierId?: number } = {},
+  ): Promise<PurchaseOrderSummary[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const isOpenFilter = filters.status === "open";
+        const rows = await db
+          .select({
+            ...getTableColumns(purchase_orders),
+            supplier_name: suppliers.name,
+            supplier_name_ar: suppliers.name_ar,
+            created_by_name: users.display_name_ar,
+            created_by_username: users.username,
+            total_amount: sql<string>`COALESCE((
+              SELECT SUM(${purchase_order_lines.quantity} * ${purchase_order_lines.unit_price})
+              FROM ${purchase_order_lines}
+              WHERE ${purchase_order_lines.purchase_order_id} = ${purchase_orders.id}
+            ), 0)`,
+            received_amount: sql<string>`COALESCE((
+              SELECT SUM(${purchase_order_lines.received_quantity} * ${purchase_order_lines.unit_price})
+              FROM ${purchase_order_lines}
+              WHERE ${purchase_order_lines.purchase_order_id} = ${purchase_orders.id}
+            ), 0)`,
+            lines_count: sql<number>`(
+              SELECT COUNT(*)::int
+              FROM ${purchase_order_lines}
+              WHERE ${purchase_order_lines.purchase_order_id} = ${purchase_orders.id}
+            )`,
+            pending_lines_count: sql<number>`(
+              SELECT COUNT(*)::int
+              FROM ${purchase_order_lines}
+              WHERE ${purchase_order_lines.purchase_order_id} = ${purchase_orders.id}
+                AND ${purchase_order_lines.received_quantity} < ${purchase_order_lines.quantity}
+            )`,
+            is_overdue: sql<boolean>`COALESCE(
+              ${purchase_orders.status} IN ('approved', 'partially_received')
+              AND ${purchase_orders.expected_delivery_date} < CURRENT_DATE,
+              false
+            )`,
+          })
+          .from(purchase_orders)
+          .innerJoin(suppliers, eq(purchase_orders.supplier_id, suppliers.id))
+          .leftJoin(users, eq(purchase_orders.created_by, users.id))
           .where(
             and(
-              eq(notifications.context_type, "user_request"),
-              eq(notifications.context_id, id.toString()),
+              isOpenFilter
+                ? inArray(purchase_orders.status, [
+                    ...OPEN_PURCHASE_ORDER_STATUSES,
+                  ])
+                : filters.status
+                  ? eq(purchase_orders.status, filters.status)
+                  : undefined,
+              filters.supplierId
+                ? eq(purchase_orders.supplier_id, filters.supplierId)
+                : undefined,
             ),
+          )
+          // الأوامر المفتوحة مرتبة حسب أقرب تاريخ تسليم متوقع
+          .orderBy(
+            isOpenFilter
+              ? sql`${purchase_orders.expected_delivery_date} ASC NULLS LAST`
+              : desc(purchase_orders.created_at),
           );
 
-        // Then delete the user request
-        await tx.delete(user_requests).where(eq(user_requests.id, id));
-      } catch (error) {
-        console.error("Error deleting user request:", error);
-        throw new Error("فشل في حذف الطلب");
-      }
-    });
+        return rows.map(({ created_by_username, ...row }) => ({
+          ...row,
+          created_by_name: row.created_by_name || created_by_username,
+          total_amount: normalizeDecimal(row.total_amount),
+          received_amount: normalizeDecimal(row.received_amount),
+          lines_count: Number(row.lines_count) || 0,
+          pending_lines_count: Number(row.pending_lines_count) || 0,
+          is_overdue: Boolean(row.is_overdue),
+        }));
+      },
+      "جلب أوامر الشراء",
+    );
   }
 
-  // ============ PRODUCTION FLOW MANAGEMENT ============
+  async getPurchaseOrder(
+    id: number,
+  ): Promise<PurchaseOrderDetails | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [summary] = (await this.getPurchaseOrders()).filter(
+          (purchaseOrder) => purchaseOrder.id === id,
+        );
+        if (!summary) return undefined;
 
-  async getProductionSettings(): Promise<ProductionSettings> {
-    try {
-      const [settings] = await db.select().from(production_settings).limit(1);
-      return settings;
-    } catch (error) {
-      console.error("Error fetching production settings:", error);
-      throw new Error("فشل في جلب إعدادات الإنتاج");
-    }
+        const lineRows = await db
+          .select({
+            ...getTableColumns(purchase_order_lines),
+            item_name: items.name,
+            item_name_ar: items.name_ar,
+          })
+          .from(purchase_order_lines)
+          .leftJoin(items, eq(purchase_order_lines.item_id, items.id))
+          .where(eq(purchase_order_lines.purchase_order_id, id))
+          .orderBy(purchase_order_lines.id);
+
+        return {
+          ...summary,
+          lines: lineRows.map((line) => ({
+            ...line,
+            remaining_quantity: Math.max(
+              0,
+              Number(
+                (
+                  normalizeDecimal(line.quantity) -
+                  normalizeDecimal(line.received_quantity)
+                ).toFixed(2),
+              ),
+            ),
+          })),
+          receipts: await this.getGoodsReceipts(id),
+        };
+      },
+      "جلب تفاصيل أمر الشراء",
+    );
   }
 
-  async updateProductionSettings(
-    settingsData: Partial<InsertProductionSettings>,
-  ): Promise<ProductionSettings> {
-    try {
-      // Convert numeric decimal fields to strings at persistence boundary
-      const processedData: any = { ...settingsData };
-      if (processedData.overrun_tolerance_percent !== undefined) {
-        processedData.overrun_tolerance_percent = numberToDecimalString(
-          processedData.overrun_tolerance_percent,
-          2,
-        );
-      }
+  // التحقق من المورد والأصناف قبل حفظ أمر الشراء
+  private async validatePurchaseOrderInput(
+    tx: DbTransaction,
+    data: InsertPurchaseOrder,
+  ): Promise<Supplier> {
+    const [supplier] = await tx
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.id, data.supplier_id));
+    if (!supplier) {
+      throw new PurchasingError("المورد غير موجود");
+    }
+    if (!supplier.is_active) {
+      throw new PurchasingError(
+        `المورد ${supplier.name_ar || supplier.name} موقوف ولا يمكن الطلب منه`,
+      );
+    }
 
-      const [settings] = await db
-        .update(production_settings)
-        .set(processedData)
-        .where(eq(production_settings.id, 1))
-        .returning();
-      return settings;
-    } catch (error) {
-      console.error("Error updating production settings:", error);
-      throw new Error("فشل في تحديث إعدادات الإنتاج");
+    const itemIds = data.lines.map((line) => line.item_id);
+    if (new Set(itemIds).size !== itemIds.length) {
+      throw new PurchasingError("الصنف مكرر في أمر الشراء");
+    }
+    const existingItems = await tx
+      .select({ id: items.id })
+      .from(items)
+      .where(inArray(items.id, itemIds));
+    const missing = itemIds.find(
+      (itemId) => !existingItems.some((item) => item.id === itemId),
+    );
+    if (missing) {
+      throw new PurchasingError(`الصنف ${missing} غير موجود`);
     }
+
+    return supplier;
   }
 
-  async startProduction(productionOrderId: number): Promise<ProductionOrder> {
-    try {
-      const [productionOrder] = await db
-        .update(production_orders)
-        .set({
-          status: "in_production",
-        })
-        .where(eq(production_orders.id, productionOrderId))
-        .returning();
-      return productionOrder;
-    } catch (error) {
-      console.error("Error starting production:", error);
-      throw new Error("فشل في بدء الإنتاج");
-    }
+  private purchaseOrderLineValues(
+    purchaseOrderId: number,
+    lines: InsertPurchaseOrder["lines"],
+  ) {
+    return lines.map((line) => ({
+      purchase_order_id: purchaseOrderId,
+      item_id: line.item_id,
+      quantity: numberToDecimalString(line.quantity, 2),
+      unit: line.unit,
+      unit_price: numberToDecimalString(line.unit_price, 4),
+      notes: line.notes || null,
+    }));
   }
 
-  // Deprecated: Use createRoll instead which supports three separate machines
-  // Keeping for backward compatibility during migration period
-  async createRollWithQR(rollData: {
-    production_order_id: number;
-    film_machine_id?: string;
-    printing_machine_id?: string;
-    cutting_machine_id?: string;
-    machine_id?: string; // Legacy field
-    weight_kg: number;
-    created_by: number;
-  }): Promise<Roll> {
-    // Map old machine_id to new fields if not provided
-    const insertData = {
-      production_order_id: rollData.production_order_id,
-      film_machine_id: rollData.film_machine_id || rollData.machine_id || "",
-      printing_machine_id: rollData.printing_machine_id || rollData.machine_id || "",
-      cutting_machine_id: rollData.cutting_machine_id || rollData.machine_id || "",
-      weight_kg: rollData.weight_kg,
-      created_by: rollData.created_by,
-      stage: "film" as const,
-    };
-    
-    // Use the updated createRoll method
-    return this.createRoll(insertData as any);
+  private async insertPurchaseOrder(
+    tx: DbTransaction,
+    data: InsertPurchaseOrder,
+    userId: number,
+  ): Promise<number> {
+    const supplier = await this.validatePurchaseOrderInput(tx, data);
+
+    const [{ count: purchaseOrderCount }] = await tx
+      .select({ count: count() })
+      .from(purchase_orders);
+    const poNumber = `PUR${(Number(purchaseOrderCount) + 1).toString().padStart(3, "0")}`;
+    const orderDate = data.order_date || new Date().toISOString().slice(0, 10);
+
+    const [purchaseOrder] = await tx
+      .insert(purchase_orders)
+      .values({
+        po_number: poNumber,
+        supplier_id: supplier.id,
+        order_date: orderDate,
+        expected_delivery_date:
+          data.expected_delivery_date ||
+          expectedDeliveryDate(orderDate, supplier.lead_time_days),
+        notes: data.notes || null,
+        created_by: userId,
+      })
+      .returning();
+
+    await tx
+      .insert(purchase_order_lines)
+      .values(this.purchaseOrderLineValues(purchaseOrder.id, data.lines));
+
+    return purchaseOrder.id;
   }
 
-  async markRollPrinted(rollId: number, operatorId: number, printingMachineId?: string): Promise<Roll> {
-    try {
-      return await db.transaction(async (tx) => {
-        // احصل على معلومات الرول الحالية
-        const [currentRoll] = await tx
-          .select()
-          .from(rolls)
-          .where(eq(rolls.id, rollId));
-        
-        if (!currentRoll) {
-          throw new Error("الرول غير موجود");
-        }
+  async createPurchaseOrder(
+    data: InsertPurchaseOrder,
+    userId: number,
+  ): Promise<PurchaseOrderDetails> {
+    const purchaseOrderId = await db.transaction((tx) =>
+      this.insertPurchaseOrder(tx, data, userId),
+    );
+    return (await this.getPurchaseOrder(purchaseOrderId))!;
+  }
 
-        // Validate printing machine if provided
-        if (printingMachineId) {
-          const [printingMachine] = await tx
-            .select()
-            .from(machines)
-            .where(eq(machines.id, printingMachineId));
-          
-          if (!printingMachine) {
-            throw new Error("ماكينة الطباعة غير موجودة");
-          }
-          
-          if (printingMachine.status !== "active") {
-            throw new Error("ماكينة الطباعة غير نشطة");
-          }
-        }
+  async updatePurchaseOrder(
+    id: number,
+    data: InsertPurchaseOrder,
+  ): Promise<PurchaseOrderDetails> {
+    await db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchase_orders)
+        .where(eq(purchase_orders.id, id))
+        .for("update");
+      if (!purchaseOrder) {
+        throw new PurchasingError("أمر الشراء غير موجود");
+      }
+      assertPurchaseOrderStatus(purchaseOrder.status, ["draft"], "تعديل");
 
-        // نقل الرول إلى مرحلة الطباعة وتسجيل البيانات
-        const updateData: any = {
-          stage: "printing", // نقل إلى مرحلة الطباعة
-          printed_at: new Date(),
-          printed_by: operatorId,
-        };
-        
-        // Add printing_machine_id if provided
-        if (printingMachineId) {
-          updateData.printing_machine_id = printingMachineId;
-        }
-        
-        const [updatedRoll] = await tx
-          .update(rolls)
-          .set(updateData)
-          .where(eq(rolls.id, rollId))
-          .returning();
+      const supplier = await this.validatePurchaseOrderInput(tx, data);
+      const orderDate = data.order_date || purchaseOrder.order_date;
 
-        // احسب مجموع أوزان الرولات في مرحلة الطباعة أو ما بعدها لهذا الأمر
-        const printedRollsWeight = await tx
-          .select({
-            total: sql<number>`COALESCE(SUM(${rolls.weight_kg}::decimal), 0)`,
-          })
-          .from(rolls)
-          .where(
-            and(
-              eq(rolls.production_order_id, currentRoll.production_order_id),
-              or(
-                eq(rolls.stage, "printing"),
-                eq(rolls.stage, "cutting"),
-                eq(rolls.stage, "done")
-              )
-            )
-          );
+      await tx
+        .update(purchase_orders)
+        .set({
+          supplier_id: supplier.id,
+          order_date: orderDate,
+          expected_delivery_date:
+            data.expected_delivery_date ||
+            expectedDeliveryDate(orderDate, supplier.lead_time_days),
+          notes: data.notes || null,
+        })
+        .where(eq(purchase_orders.id, id));
 
-        const printedQuantity = Number(printedRollsWeight[0]?.total || 0);
+      // بنود المسودة لم يُستلم عليها شيء - تُستبدل بالكامل
+      await tx
+        .delete(purchase_order_lines)
+        .where(eq(purchase_order_lines.purchase_order_id, id));
+      await tx
+        .insert(purchase_order_lines)
+        .values(this.purchaseOrderLineValues(id, data.lines));
+    });
 
-        // احصل على معلومات أمر الإنتاج
-        const [productionOrder] = await tx
-          .select()
-          .from(production_orders)
-          .where(eq(production_orders.id, currentRoll.production_order_id));
+    return (await this.getPurchaseOrder(id))!;
+  }
 
-        if (productionOrder) {
-          const producedQuantityKg = parseFloat(
-            productionOrder.produced_quantity_kg?.toString() || "0"
-          );
-          
-          // احسب نسبة إكمال الطباعة بناءً على الكمية المطبوعة من الكمية المنتجة في مرحلة الفيلم
-          const printingPercentage = producedQuantityKg > 0 
-            ? Math.min(100, (printedQuantity / producedQuantityKg) * 100)
-            : 0;
+  async approvePurchaseOrder(
+    id: number,
+    userId: number,
+  ): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchase_orders)
+        .where(eq(purchase_orders.id, id))
+        .for("update");
+      if (!purchaseOrder) {
+        throw new PurchasingError("أمر الشراء غير موجود");
+      }
+      assertPurchaseOrderStatus(purchaseOrder.status, ["draft"], "اعتماد");
 
-          // حدث أمر الإنتاج بالكمية المطبوعة ونسبة الإكمال
-          await tx
-            .update(production_orders)
-            .set({
-              printed_quantity_kg: numberToDecimalString(printedQuantity, 2),
-              printing_completion_percentage: numberToDecimalString(printingPercentage, 2),
-            })
-            .where(eq(production_orders.id, currentRoll.production_order_id));
-        }
+      const [approved] = await tx
+        .update(purchase_orders)
+        .set({
+          status: "approved",
+          approved_by: userId,
+          approved_at: new Date(),
+        })
+        .where(eq(purchase_orders.id, id))
+        .returning();
+      return approved;
+    });
+  }
 
-        // تحديث الكاش بعد تسجيل الطباعة
-        invalidateProductionCache("all");
+  // إلغاء أمر مستلم جزئياً يلغي الكمية المتبقية فقط - ما استُلم يبقى في المخزون
+  async cancelPurchaseOrder(
+    id: number,
+    userId: number,
+  ): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchase_orders)
+        .where(eq(purchase_orders.id, id))
+        .for("update");
+      if (!purchaseOrder) {
+        throw new PurchasingError("أمر الشراء غير موجود");
+      }
+      assertPurchaseOrderStatus(
+        purchaseOrder.status,
+        ["draft", ...OPEN_PURCHASE_ORDER_STATUSES],
+        "إلغاء",
+      );
 
-        return updatedRoll;
-      });
-    } catch (error) {
-      console.error("Error marking roll printed:", error);
-      throw new Error("فشل في تسجيل طباعة الرول");
-    }
+      const [cancelled] = await tx
+        .update(purchase_orders)
+        .set({
+          status: "cancelled",
+          cancelled_by: userId,
+          cancelled_at: new Date(),
+        })
+        .where(eq(purchase_orders.id, id))
+        .returning();
+      return cancelled;
+    });
   }
 
-  async createCut(cutData: InsertCut): Promise<Cut> {
-    try {
-      return await db.transaction(async (tx) => {
-        // Get the roll and validate available weight
-        const [roll] = await tx
-          .select()
-          .from(rolls)
-          .where(eq(rolls.id, cutData.roll_id))
-          .for("update");
+  async receivePurchaseOrder(
+    id: number,
+    data: InsertGoodsReceipt,
+    userId: number,
+  ): Promise<GoodsReceiptDetails> {
+    const round2 = (value: number) => Math.round(value * 100) / 100;
 
-        if (!roll) {
-          throw new Error("الرول غير موجود");
-        }
+    const receiptId = await db.transaction(async (tx) => {
+      // قفل أمر الشراء لمنع استلامين متزامنين لنفس الكمية
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchase_orders)
+        .where(eq(purchase_orders.id, id))
+        .for("update");
+      if (!purchaseOrder) {
+        throw new PurchasingError("أمر الشراء غير موجود");
+      }
+      assertPurchaseOrderStatus(
+        purchaseOrder.status,
+        OPEN_PURCHASE_ORDER_STATUSES,
+        "استلام بضاعة على",
+      );
 
-        // التحقق من أن الكمية الصافية لا تتجاوز وزن الرول الأصلي
-        const rollWeight = normalizeDecimal(roll.weight_kg);
-        const cutWeight = normalizeDecimal(cutData.cut_weight_kg);
+      const [location] = await tx
+        .select({ id: locations.id })
+        .from(locations)
+        .where(eq(locations.id, data.location_id));
+      if (!location) {
+        throw new PurchasingError("موقع الاستلام غير موجود");
+      }
 
-        if (cutWeight > rollWeight) {
-          throw new Error(
-            `الكمية الصافية (${cutWeight.toFixed(2)} كيلو) لا يمكن أن تتجاوز وزن الرول (${rollWeight.toFixed(2)} كيلو)`,
-          );
+      const lineIds = data.lines.map((line) => line.purchase_order_line_id);
+      if (new Set(lineIds).size !== lineIds.length) {
+        throw new PurchasingError("بند أمر الشراء مكرر في سند الاستلام");
+      }
+
+      const orderLines = await tx
+        .select({
+          ...getTableColumns(purchase_order_lines),
+          item_name: items.name,
+          item_name_ar: items.name_ar,
+        })
+        .from(purchase_order_lines)
+        .leftJoin(items, eq(purchase_order_lines.item_id, items.id))
+        .where(eq(purchase_order_lines.purchase_order_id, id))
+        .for("update", { of: purchase_order_lines });
+
+      const receivedLines = data.lines.map((input) => {
+        const line = orderLines.find(
+          (l) => l.id === input.purchase_order_line_id,
+        );
+        if (!line) {
+          throw new PurchasingError("البند لا يتبع أمر الشراء");
         }
+        const quantity = receivableQuantity(
+          input.quantity,
+          parseFloat(line.quantity),
+          parseFloat(line.received_quantity),
+          line.item_name_ar || line.item_name || line.item_id,
+        );
+        return {
+          line,
+          quantity,
+          unitCost: input.unit_cost ?? parseFloat(line.unit_price),
+        };
+      });
 
-        if (cutWeight <= 0) {
-          throw new Error("الكمية الصافية يجب أن تكون أكبر من صفر");
+      const [supplier] = await tx
+        .select({ name: suppliers.name, name_ar: suppliers.name_ar })
+        .from(suppliers)
+        .where(eq(suppliers.id, purchaseOrder.supplier_id));
+      const [{ count: receiptCount }] = await tx
+        .select({ count: count() })
+        .from(goods_receipts);
+      const receiptNumber = `GRN${(Number(receiptCount) + 1).toString().padStart(3, "0")}`;
+
+      const [receipt] = await tx
+        .insert(goods_receipts)
+        .values({
+          receipt_number: receiptNumber,
+          purchase_order_id: id,
+          location_id: data.location_id,
+          supplier_reference: data.supplier_reference || null,
+          notes: data.notes || null,
+          received_by: userId,
+        })
+        .returning();
+
+      for (const { line, quantity, unitCost } of receivedLines) {
+        let [stock] = await tx
+          .select()
+          .from(inventory)
+          .where(
+            and(
+              eq(inventory.item_id, line.item_id),
+              eq(inventory.location_id, data.location_id),
+            ),
+          )
+          .for("update");
+        if (!stock) {
+          [stock] = await tx
+            .insert(inventory)
+            .values({
+              item_id: line.item_id,
+              location_id: data.location_id,
+              current_stock: "0",
+              unit: line.unit,
+            })
+            .returning();
+        }
+        if (stock.unit !== line.unit) {
+          throw new PurchasingError(
+            `وحدة الصنف ${line.item_name_ar || line.item_name || line.item_id} في أمر الشراء (${line.unit}) لا تطابق وحدة المخزون (${stock.unit})`,
+          );
         }
 
-        // Create the cut - convert numeric decimal fields to strings at persistence boundary
-        const processedCutData = {
-          ...cutData,
-          cut_weight_kg: numberToDecimalString(cutData.cut_weight_kg, 3),
-        };
+        const currentStock = parseFloat(stock.current_stock);
+        const averageCost = weightedAverageCost(
+          currentStock,
+          stock.cost_per_unit === null ? null : parseFloat(stock.cost_per_unit),
+          quantity,
+          unitCost,
+        );
 
-        const [cut] = await tx
-          .insert(cuts)
-          .values(processedCutData)
+        const [movement] = await tx
+          .insert(inventory_movements)
+          .values({
+            inventory_id: stock.id,
+            movement_type: "in",
+            quantity: numberToDecimalString(quantity, 2),
+            // total_cost يُترك فارغاً لأن قيد total_cost_logical يتطلب تطابقاً تاماً مع unit_cost × quantity
+            unit_cost: numberToDecimalString(unitCost, 4),
+            reference_number: receiptNumber,
+            reference_type: "purchase",
+            notes: `استلام أمر الشراء ${purchaseOrder.po_number} - ${supplier?.name_ar || supplier?.name || ""}`,
+            created_by: userId,
+          })
           .returning();
 
-        // حساب الهدر والكمية الصافية الإجمالية
-        const totalCutWeight = cutWeight;
-        const waste = rollWeight - totalCutWeight;
+        await tx
+          .update(inventory)
+          .set({
+            current_stock: numberToDecimalString(currentStock + quantity, 2),
+            cost_per_unit: numberToDecimalString(averageCost, 4),
+            last_updated: new Date(),
+          })
+          .where(eq(inventory.id, stock.id));
+
+        await tx.insert(goods_receipt_lines).values({
+          receipt_id: receipt.id,
+          purchase_order_line_id: line.id,
+          item_id: line.item_id,
+          quantity: numberToDecimalString(quantity, 2),
+          unit_cost: numberToDecimalString(unitCost, 4),
+          inventory_movement_id: movement.id,
+        });
 
-        // تحديث بيانات الرول مع الكمية الصافية والهدر ونقل إلى مرحلة done
-        const rollUpdateData: any = {
-          cut_weight_total_kg: numberToDecimalString(totalCutWeight, 3),
-          waste_kg: numberToDecimalString(waste, 3),
-          stage: "done", // تحديث المرحلة إلى مكتمل
-          cut_completed_at: new Date(),
-          cut_by: cutData.performed_by,
-          completed_at: new Date(), // تحديد وقت الإكمال
-        };
-        
-        // Add cutting_machine_id if provided
-        if ((cutData as any).cutting_machine_id) {
-          rollUpdateData.cutting_machine_id = (cutData as any).cutting_machine_id;
-        }
-        
+        const receivedQuantity = round2(
+          parseFloat(line.received_quantity) + quantity,
+        );
         await tx
-          .update(rolls)
-          .set(rollUpdateData)
-          .where(eq(rolls.id, cutData.roll_id));
+          .update(purchase_order_lines)
+          .set({ received_quantity: numberToDecimalString(receivedQuantity, 2) })
+          .where(eq(purchase_order_lines.id, line.id));
+        line.received_quantity = receivedQuantity.toString();
+      }
+
+      const status = receiptStatus(
+        orderLines.map((line) => ({
+          quantity: parseFloat(line.quantity),
+          received_quantity: parseFloat(line.received_quantity),
+        })),
+      );
+      await tx
+        .update(purchase_orders)
+        .set(
+          status === "received"
+            ? { status, received_at: new Date() }
+            : { status },
+        )
+        .where(eq(purchase_orders.id, id));
+
+      return receipt.id;
+    });
 
-        // احسب مجموع الكميات لأمر الإنتاج
-        const productionOrderId = roll.production_order_id;
+    const [receipt] = (await this.getGoodsReceipts(id)).filter(
+      (r) => r.id === receiptId,
+    );
+    return receipt;
+  }
 
-        // احسب مجموع الكميات الصافية من جميع الرولات المقطوعة
-        const cutRollsData = await tx
+  async getGoodsReceipts(
+    purchaseOrderId?: number,
+  ): Promise<GoodsReceiptDetails[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const receiptRows = await db
           .select({
-            totalNetWeight: sql<number>`COALESCE(SUM(${rolls.cut_weight_total_kg}::decimal), 0)`,
-            totalWaste: sql<number>`COALESCE(SUM(${rolls.waste_kg}::decimal), 0)`,
-            totalRolls: sql<number>`COUNT(*)`,
-            completedRolls: sql<number>`COUNT(CASE WHEN ${rolls.stage} = 'done' THEN 1 END)`,
+            ...getTableColumns(goods_receipts),
+            po_number: purchase_orders.po_number,
+            supplier_name: suppliers.name,
+            supplier_name_ar: suppliers.name_ar,
+            location_name: locations.name_ar,
+            location_name_en: locations.name,
+            received_by_name: users.display_name_ar,
+            received_by_username: users.username,
           })
-          .from(rolls)
-          .where(eq(rolls.production_order_id, productionOrderId));
+          .from(goods_receipts)
+          .innerJoin(
+            purchase_orders,
+            eq(goods_receipts.purchase_order_id, purchase_orders.id),
+          )
+          .innerJoin(suppliers, eq(purchase_orders.supplier_id, suppliers.id))
+          .leftJoin(locations, eq(goods_receipts.location_id, locations.id))
+          .leftJoin(users, eq(goods_receipts.received_by, users.id))
+          .where(
+            purchaseOrderId
+              ? eq(goods_receipts.purchase_order_id, purchaseOrderId)
+              : undefined,
+          )
+          .orderBy(desc(goods_receipts.received_at));
+        if (receiptRows.length === 0) return [];
 
-        const netQuantity = Number(cutRollsData[0]?.totalNetWeight || 0);
-        const wasteQuantity = Number(cutRollsData[0]?.totalWaste || 0);
-        const totalRolls = Number(cutRollsData[0]?.totalRolls || 0);
-        const completedRolls = Number(cutRollsData[0]?.completedRolls || 0);
+        const lineRows = await db
+          .select({
+            ...getTableColumns(goods_receipt_lines),
+            item_name: items.name,
+            item_name_ar: items.name_ar,
+          })
+          .from(goods_receipt_lines)
+          .leftJoin(items, eq(goods_receipt_lines.item_id, items.id))
+          .where(
+            inArray(
+              goods_receipt_lines.receipt_id,
+              receiptRows.map((receipt) => receipt.id),
+            ),
+          )
+          .orderBy(goods_receipt_lines.id);
+
+        return receiptRows.map(
+          ({ location_name_en, received_by_username, ...receipt }) => ({
+            ...receipt,
+            location_name: receipt.location_name || location_name_en,
+            received_by_name: receipt.received_by_name || received_by_username,
+            lines: lineRows.filter((line) => line.receipt_id === receipt.id),
+          }),
+        );
+      },
+      "جلب سندات استلام المشتريات",
+    );
+  }
 
-        // احصل على معلومات أمر الإنتاج
-        const [productionOrder] = await tx
-          .select()
-          .from(production_orders)
-          .where(eq(production_orders.id, productionOrderId));
+  async getSupplierLeadTimeStats(): Promise<SupplierLeadTimeStats[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const result = await db.execute(sql`
+          SELECT
+            s.id AS supplier_id,
+            s.name AS supplier_name,
+            s.name_ar AS supplier_name_ar,
+            s.lead_time_days AS agreed_lead_time_days,
+            COUNT(po.id) FILTER (WHERE po.status = 'received' AND po.received_at IS NOT NULL) AS completed_orders,
+            AVG(po.received_at::date - po.order_date) FILTER (WHERE po.status = 'received' AND po.received_at IS NOT NULL) AS avg_lead_time_days,
+            MIN(po.received_at::date - po.order_date) FILTER (WHERE po.status = 'received' AND po.received_at IS NOT NULL) AS min_lead_time_days,
+            MAX(po.received_at::date - po.order_date) FILTER (WHERE po.status = 'received' AND po.received_at IS NOT NULL) AS max_lead_time_days,
+            COUNT(po.id) FILTER (WHERE po.status = 'received' AND po.received_at IS NOT NULL AND po.expected_delivery_date IS NOT NULL) AS dated_orders,
+            COUNT(po.id) FILTER (WHERE po.status = 'received' AND po.received_at::date <= po.expected_delivery_date) AS on_time_orders,
+            COUNT(po.id) FILTER (WHERE po.status IN ('approved', 'partially_received')) AS open_orders,
+            COUNT(po.id) FILTER (WHERE po.status IN ('approved', 'partially_received') AND po.expected_delivery_date < CURRENT_DATE) AS overdue_orders
+          FROM suppliers s
+          INNER JOIN purchase_orders po ON po.supplier_id = s.id
+          GROUP BY s.id, s.name, s.name_ar, s.lead_time_days
+          ORDER BY s.name
+        `);
+
+        const nullableNumber = (value: unknown, digits: number) =>
+          value === null || value === undefined
+            ? null
+            : Number(Number(value).toFixed(digits));
+
+        return (result.rows as any[]).map((row) => {
+          const datedOrders = Number(row.dated_orders) || 0;
+          return {
+            supplier_id: Number(row.supplier_id),
+            supplier_name: row.supplier_name,
+            supplier_name_ar: row.supplier_name_ar,
+            agreed_lead_time_days: nullableNumber(row.agreed_lead_time_days, 0),
+            completed_orders: Number(row.completed_orders) || 0,
+            avg_lead_time_days: nullableNumber(row.avg_lead_time_days, 1),
+            min_lead_time_days: nullableNumber(row.min_lead_time_days, 0),
+            max_lead_time_days: nullableNumber(row.max_lead_time_days, 0),
+            on_time_rate:
+              datedOrders > 0
+                ? Number(
+                    ((Number(row.on_time_orders) / datedOrders) * 100).toFixed(1),
+                  )
+                : null,
+            open_orders: Number(row.open_orders) || 0,
+            overdue_orders: Number(row.overdue_orders) || 0,
+          };
+        });
+      },
+      "جلب إحصائيات مدة التوريد للموردين",
+    );
+  }
 
-        if (productionOrder) {
-          const producedQuantityKg = parseFloat(
-            productionOrder.produced_quantity_kg?.toString() || "0"
-          );
-          
-          // احسب نسبة إكمال التقطيع بناءً على (الكمية المقطعة + الهدر) من الكمية المنتجة في مرحلة الفيلم
-          const totalCutAndWaste = netQuantity + wasteQuantity;
-          const cuttingPercentage = producedQuantityKg > 0 
-            ? Math.min(100, (totalCutAndWaste / producedQuantityKg) * 100)
-            : 0;
+  async getReorderSuggestions(
+    lookbackDays: number = DEFAULT_LOOKBACK_DAYS,
+  ): Promise<ReorderList> {
+    return withDatabaseErrorHandling(
+      async () => {
+        // الأرصدة والحدود مجمعة لكل صنف عبر جميع المواقع
+        const stockResult = await db.execute(sql`
+          SELECT
+            inv.item_id,
+            it.code,
+            COALESCE(it.name_ar, it.name, inv.item_id) AS name,
+            inv.unit,
+            SUM(inv.current_stock) AS current_stock,
+            SUM(inv.min_stock) AS min_stock,
+            SUM(inv.max_stock) AS max_stock,
+            CASE WHEN SUM(inv.current_stock) > 0
+              THEN SUM(inv.current_stock * COALESCE(inv.cost_per_unit, 0)) / SUM(inv.current_stock)
+              ELSE AVG(inv.cost_per_unit)
+            END AS unit_cost,
+            COALESCE((
+              SELECT SUM(m.quantity)
+              FROM inventory_movements m
+              INNER JOIN inventory src ON src.id = m.inventory_id
+              WHERE src.item_id = inv.item_id
+                AND src.unit = inv.unit
+                AND m.movement_type = 'out'
+                AND m.created_at >= NOW() - make_interval(days => ${lookbackDays})
+            ), 0) AS consumed_quantity,
+            COALESCE((
+              SELECT SUM(l.quantity - l.received_quantity)
+              FROM purchase_order_lines l
+              INNER JOIN purchase_orders po ON po.id = l.purchase_order_id
+              WHERE l.item_id = inv.item_id
+                AND l.unit = inv.unit
+                AND po.status IN ('draft', 'approved', 'partially_received')
+            ), 0) AS open_purchase_quantity
+          FROM inventory inv
+          INNER JOIN items it ON it.id = inv.item_id
+          WHERE COALESCE(it.status, 'active') = 'active'
+          GROUP BY inv.item_id, it.code, it.name_ar, it.name, inv.unit
+        `);
+
+        const partsResult = await db.execute(sql`
+          SELECT
+            cp.id,
+            cp.code,
+            cp.type AS name,
+            COALESCE(cp.unit, 'قطعة') AS unit,
+            cp.current_quantity,
+            COALESCE(cp.min_quantity, 0) AS min_quantity,
+            COALESCE(cp.max_quantity, 0) AS max_quantity,
+            COALESCE((
+              SELECT SUM(t.quantity)
+              FROM consumable_parts_transactions t
+              WHERE t.consumable_part_id = cp.id
+                AND t.transaction_type = 'out'
+                AND t.created_at >= NOW() - make_interval(days => ${lookbackDays})
+            ), 0) AS consumed_quantity
+          FROM consumable_parts cp
+          WHERE COALESCE(cp.status, 'active') = 'active'
+        `);
+
+        // آخر سعر ومورد لكل صنف من أوامر الشراء غير الملغاة
+        const lastPurchaseResult = await db.execute(sql`
+          SELECT DISTINCT ON (l.item_id)
+            l.item_id, po.supplier_id, l.unit_price
+          FROM purchase_order_lines l
+          INNER JOIN purchase_orders po ON po.id = l.purchase_order_id
+          WHERE po.status <> 'cancelled'
+          ORDER BY l.item_id, po.order_date DESC, po.id DESC
+        `);
+
+        const supplierRows = await db.select().from(suppliers);
+        const leadTimes = await this.getSupplierLeadTimeStats();
+
+        const stock: ReplenishmentStockInput[] = [
+          ...(stockResult.rows as any[]).map((row) => ({
+            source: "inventory" as const,
+            item_id: row.item_id,
+            consumable_part_id: null,
+            code: row.code,
+            name: row.name,
+            unit: row.unit,
+            current_stock: Number(row.current_stock) || 0,
+            min_stock: Number(row.min_stock) || 0,
+            max_stock: Number(row.max_stock) || 0,
+            consumed_quantity: Number(row.consumed_quantity) || 0,
+            open_purchase_quantity: Number(row.open_purchase_quantity) || 0,
+            unit_cost: row.unit_cost === null ? null : Number(row.unit_cost),
+          })),
+          ...(partsResult.rows as any[]).map((row) => ({
+            source: "consumable" as const,
+            item_id: null,
+            consumable_part_id: Number(row.id),
+            code: row.code,
+            name: row.name,
+            unit: row.unit,
+            current_stock: Number(row.current_quantity) || 0,
+            min_stock: Number(row.min_quantity) || 0,
+            max_stock: Number(row.max_quantity) || 0,
+            consumed_quantity: Number(row.consumed_quantity) || 0,
+            open_purchase_quantity: 0,
+            unit_cost: null,
+          })),
+        ];
 
-          const isProductionOrderCompleted = completedRolls === totalRolls && totalRolls > 0;
+        const lastPurchases = new Map<string, LastPurchase>(
+          (lastPurchaseResult.rows as any[]).map((row) => [
+            row.item_id,
+            {
+              supplier_id: Number(row.supplier_id),
+              unit_price: Number(row.unit_price),
+            },
+          ]),
+        );
 
-          // حدث أمر الإنتاج بالكميات الجديدة
-          await tx
-            .update(production_orders)
-            .set({
-              net_quantity_kg: numberToDecimalString(netQuantity, 2),
-              waste_quantity_kg: numberToDecimalString(wasteQuantity, 2),
-              cutting_completion_percentage: numberToDecimalString(cuttingPercentage, 2),
-              // إذا كانت جميع الرولات مكتملة، حدث الحالة إلى completed
-              status: isProductionOrderCompleted ? "completed" : productionOrder.status,
-            })
-            .where(eq(production_orders.id, productionOrderId));
+        return buildReorderSuggestions(
+          stock,
+          supplierRows.map((supplier) => ({
+            ...supplier,
+            avg_lead_time_days:
+              leadTimes.find((stats) => stats.supplier_id === supplier.id)
+                ?.avg_lead_time_days ?? null,
+          })),
+          lastPurchases,
+          lookbackDays,
+        );
+      },
+      "حساب اقتراحات إعادة الطلب",
+    );
+  }
 
-          // إذا اكتمل أمر الإنتاج، تحقق من اكتمال الطلب الرئيسي
-          if (isProductionOrderCompleted && productionOrder.status !== "completed") {
-            const orderId = productionOrder.order_id;
+  // أمر شراء مسودة لكل مورد - جميع الأوامر في معاملة واحدة
+  async convertReorderSuggestions(
+    data: ReorderConversion,
+    userId: number,
+  ): Promise<PurchaseOrderDetails[]> {
+    const bySupplier = new Map<number, ReorderConversion["lines"]>();
+    for (const line of data.lines) {
+      bySupplier.set(line.supplier_id, [
+        ...(bySupplier.get(line.supplier_id) || []),
+        line,
+      ]);
+    }
 
-            console.log(
-              `Production order ${productionOrder.production_order_number} automatically completed - all rolls finished`,
-            );
+    const purchaseOrderIds = await db.transaction(async (tx) => {
+      const ids: number[] = [];
+      for (const [supplierId, lines] of Array.from(bySupplier)) {
+        ids.push(
+          await this.insertPurchaseOrder(
+            tx,
+            {
+              supplier_id: supplierId,
+              notes: "أمر شراء من اقتراحات إعادة الطلب",
+              lines: lines.map(({ supplier_id: _supplierId, ...line }) => line),
+            },
+            userId,
+          ),
+        );
+      }
+      return ids;
+    });
 
-            // Get all production orders for this order
-            const allProductionOrders = await tx
-              .select()
-              .from(production_orders)
-              .where(eq(production_orders.order_id, orderId));
-
-            // Check if all production orders are completed
-            const allCompleted = allProductionOrders.every((po) =>
-              po.id === productionOrderId
-                ? true
-                : po.status === "completed",
-            );
+    const purchaseOrders: PurchaseOrderDetails[] = [];
+    for (const id of purchaseOrderIds) {
+      purchaseOrders.push((await this.getPurchaseOrder(id))!);
+    }
+    return purchaseOrders;
+  }
 
-            // If all production orders are completed, automatically mark the order as completed
-            if (allCompleted) {
-              await tx
-                .update(orders)
-                .set({ status: "completed" })
-                .where(eq(orders.id, orderId));
+  async getStockTakes(
+    filters: { status?: string; locationId?: string } = {},
+  ): Promise<StockTakeSummary[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const postedByUsers = alias(users, "posted_by_users");
+        const rows = await db
+          .select({
+            ...getTableColumns(stock_takes),
+            location_name: locations.name_ar,
+            location_name_en: locations.name,
+            created_by_name: users.display_name_ar,
+            created_by_username: users.username,
+            posted_by_name: postedByUsers.display_name_ar,
+            posted_by_username: postedByUsers.username,
+            lines_count: sql<number>`(
+              SELECT COUNT(*)::int
+              FROM ${stock_take_lines}
+              WHERE ${stock_take_lines.stock_take_id} = ${stock_takes.id}
+            )`,
+            counted_lines_count: sql<number>`(
+              SELECT COUNT(*)::int
+              FROM ${stock_take_lines}
+              WHERE ${stock_take_lines.stock_take_id} = ${stock_takes.id}
+                AND EXISTS (
+                  SELECT 1 FROM ${stock_take_counts}
+                  WHERE ${stock_take_counts.line_id} = ${stock_take_lines.id}
+                )
+            )`,
+            approved_lines_count: sql<number>`(
+              SELECT COUNT(*)::int
+              FROM ${stock_take_lines}
+              WHERE ${stock_take_lines.stock_take_id} = ${stock_takes.id}
+                AND ${stock_take_lines.approved}
+            )`,
+            posted_value_impact: sql<string>`COALESCE((
+              SELECT SUM((${stock_take_lines.approved_quantity} - ${stock_take_lines.snapshot_quantity}) * ${stock_take_lines.unit_cost})
+              FROM ${stock_take_lines}
+              WHERE ${stock_take_lines.stock_take_id} = ${stock_takes.id}
+                AND ${stock_take_lines.approved}
+            ), 0)`,
+          })
+          .from(stock_takes)
+          .leftJoin(locations, eq(stock_takes.location_id, locations.id))
+          .leftJoin(users, eq(stock_takes.created_by, users.id))
+          .leftJoin(postedByUsers, eq(stock_takes.posted_by, postedByUsers.id))
+          .where(
+            and(
+              filters.status ? eq(stock_takes.status, filters.status) : undefined,
+              filters.locationId
+                ? eq(stock_takes.location_id, filters.locationId)
+                : undefined,
+            ),
+          )
+          .orderBy(desc(stock_takes.created_at));
+
+        return rows.map(
+          ({
+            location_name_en,
+            created_by_username,
+            posted_by_username,
+            ...row
+          }) => ({
+            ...row,
+            location_name: row.location_name || location_name_en,
+            created_by_name: row.created_by_name || created_by_username,
+            posted_by_name: row.posted_by_name || posted_by_username,
+            lines_count: Number(row.lines_count) || 0,
+            counted_lines_count: Number(row.counted_lines_count) || 0,
+            approved_lines_count: Number(row.approved_lines_count) || 0,
+            posted_value_impact:
+              Math.round(parseFloat(row.posted_value_impact) * 100) / 100,
+          }),
+        );
+      },
+      "جلب عمليات الجرد",
+    );
+  }
 
-              console.log(
-                `Order ${orderId} automatically completed - all production orders finished`,
-              );
-            }
-          }
-        }
+  async getStockTake(id: number): Promise<StockTakeDetails | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [summary] = (await this.getStockTakes()).filter(
+          (stockTake) => stockTake.id === id,
+        );
+        if (!summary) return undefined;
 
-        // تحديث الكاش
-        invalidateProductionCache("all");
+        const lines = await this.loadStockTakeLines(db, id);
 
-        return cut;
-      });
-    } catch (error) {
-      console.error("Error creating cut:", error);
-      throw error;
-    }
+        return {
+          ...summary,
+          lines,
+          total_value_impact: stockTakeValueImpact(lines),
+        };
+      },
+      "جلب تفاصيل الجرد",
+    );
   }
 
-  async createWarehouseReceipt(
-    receiptData: InsertWarehouseReceipt,
-  ): Promise<WarehouseReceipt> {
-    try {
-      // Convert numeric decimal fields to strings at persistence boundary
-      const processedData = {
-        ...receiptData,
-        received_weight_kg: numberToDecimalString(
-          receiptData.received_weight_kg,
-          3,
+  // بنود الجرد مع العدّات والفروقات - عند الترحيل تُقرأ عبر المعاملة مع قفل البنود
+  private async loadStockTakeLines(
+    executor: typeof db | DbTransaction,
+    id: number,
+    lockLines = false,
+  ): Promise<StockTakeLineDetails[]> {
+    const lineQuery = executor
+      .select({
+        ...getTableColumns(stock_take_lines),
+        item_code: items.code,
+        item_name: items.name,
+        item_name_ar: items.name_ar,
+      })
+      .from(stock_take_lines)
+      .leftJoin(items, eq(stock_take_lines.item_id, items.id))
+      .where(eq(stock_take_lines.stock_take_id, id))
+      .orderBy(items.code, stock_take_lines.id);
+    const lineRows = await (lockLines
+      ? lineQuery.for("update", { of: stock_take_lines })
+      : lineQuery);
+
+    const countRows =
+      lineRows.length === 0
+        ? []
+        : await executor
+            .select({
+              id: stock_take_counts.id,
+              line_id: stock_take_counts.line_id,
+              counted_by: stock_take_counts.counted_by,
+              counted_by_name: users.display_name_ar,
+              counted_by_username: users.username,
+              quantity: stock_take_counts.quantity,
+              scanned: stock_take_counts.scanned,
+              counted_at: stock_take_counts.counted_at,
+            })
+            .from(stock_take_counts)
+            .leftJoin(users, eq(stock_take_counts.counted_by, users.id))
+            .where(
+              inArray(
+                stock_take_counts.line_id,
+                lineRows.map((line) => line.id),
+              ),
+            )
+            .orderBy(stock_take_counts.counted_at);
+
+    return lineRows.map((line) => {
+      const counts = countRows
+        .filter((countRow) => countRow.line_id === line.id)
+        .map(({ line_id: _lineId, counted_by_username, ...countRow }) => ({
+          ...countRow,
+          counted_by_name: countRow.counted_by_name || counted_by_username,
+          quantity: parseFloat(countRow.quantity),
+        }));
+      const resolution = resolveCountedQuantity(
+        counts.map((countRow) => countRow.quantity),
+      );
+      const countedQuantity =
+        line.approved && line.approved_quantity !== null
+          ? parseFloat(line.approved_quantity)
+          : resolution.counted_quantity;
+      return {
+        ...line,
+        barcode: line.item_code || line.item_id,
+        counts,
+        counted_quantity: countedQuantity,
+        has_conflict: !line.approved && resolution.has_conflict,
+        ...stockTakeVariance(
+          parseFloat(line.snapshot_quantity),
+          countedQuantity,
+          line.unit_cost === null ? null : parseFloat(line.unit_cost),
         ),
       };
-
-      const [receipt] = await db
-        .insert(warehouse_receipts)
-        .values(processedData)
-        .returning();
-      return receipt;
-    } catch (error) {
-      console.error("Error creating warehouse receipt:", error);
-      throw new Error("فشل في إنشاء إيصال المستودع");
-    }
+    });
   }
 
-  // Get warehouse receipts with detailed information grouped by order number
-  async getWarehouseReceiptsDetailed(): Promise<any[]> {
-    try {
-      const receipts = await db
-        .select({
-          // Receipt information
-          receipt_id: warehouse_receipts.id,
-          receipt_date: warehouse_receipts.created_at,
-          received_weight_kg: warehouse_receipts.received_weight_kg,
-          received_by_id: warehouse_receipts.received_by,
-
-          // Order information
-          order_id: orders.id,
-          order_number: orders.order_number,
+  async createStockTake(
+    data: InsertStockTake,
+    userId: number,
+  ): Promise<StockTakeDetails> {
+    const stockTakeId = await db.transaction(async (tx) => {
+      const [location] = await tx
+        .select({ id: locations.id })
+        .from(locations)
+        .where(eq(locations.id, data.location_id));
+      if (!location) {
+        throw new StockTakeError("موقع الجرد غير موجود");
+      }
 
-          // Customer information
-          customer_id: customers.id,
-          customer_name: customers.name,
-          customer_name_ar: customers.name_ar,
+      // تسلسل إنشاء عمليات الجرد: رقم الجرد وشرط الجرد المفتوح الواحد لكل موقع
+      await tx.execute(
+        sql`SELECT pg_advisory_xact_lock(hashtext('stock_takes'))`,
+      );
 
-          // Product information
-          item_name: items.name,
-          item_name_ar: items.name_ar,
-          size_caption: customer_products.size_caption,
-          width: customer_products.width,
-          thickness: customer_products.thickness,
-          raw_material: customer_products.raw_material,
+      const [openStockTake] = await tx
+        .select({ stock_take_number: stock_takes.stock_take_number })
+        .from(stock_takes)
+        .where(
+          and(
+            eq(stock_takes.location_id, data.location_id),
+            eq(stock_takes.status, "counting"),
+          ),
+        );
+      if (openStockTake) {
+        throw new StockTakeError(
+          `يوجد جرد مفتوح لهذا الموقع (${openStockTake.stock_take_number}) - يجب ترحيله أو إلغاؤه أولاً`,
+        );
+      }
 
-          // Production order information
-          production_order_id: production_orders.id,
-          production_order_number: production_orders.production_order_number,
+      // تجميد الأرصدة: القفل يمنع تسجيل حركات أثناء أخذ اللقطة
+      const stockRows = await tx
+        .select()
+        .from(inventory)
+        .where(eq(inventory.location_id, data.location_id))
+        .for("update");
+      if (stockRows.length === 0) {
+        throw new StockTakeError("لا توجد أصناف مخزون في هذا الموقع");
+      }
 
-          // Received by user information
-          received_by_name: users.username,
+      const [{ count: stockTakeCount }] = await tx
+        .select({ count: count() })
+        .from(stock_takes);
+      const [stockTake] = await tx
+        .insert(stock_takes)
+        .values({
+          stock_take_number: `ST${(Number(stockTakeCount) + 1).toString().padStart(3, "0")}`,
+          location_id: data.location_id,
+          notes: data.notes || null,
+          created_by: userId,
         })
-        .from(warehouse_receipts)
-        .leftJoin(
-          production_orders,
-          eq(warehouse_receipts.production_order_id, production_orders.id),
-        )
-        .leftJoin(orders, eq(production_orders.order_id, orders.id))
-        .leftJoin(customers, eq(orders.customer_id, customers.id))
-        .leftJoin(
-          customer_products,
-          eq(production_orders.customer_product_id, customer_products.id),
-        )
-        .leftJoin(items, eq(customer_products.item_id, items.id))
-        .leftJoin(users, eq(warehouse_receipts.received_by, users.id))
-        .orderBy(desc(warehouse_receipts.created_at));
+        .returning();
 
-      // Group receipts by order number
-      const groupedReceipts: { [key: string]: any } = {};
+      await tx.insert(stock_take_lines).values(
+        stockRows.map((stock) => ({
+          stock_take_id: stockTake.id,
+          inventory_id: stock.id,
+          item_id: stock.item_id,
+          unit: stock.unit,
+          snapshot_quantity: stock.current_stock,
+          unit_cost: stock.cost_per_unit,
+        })),
+      );
 
-      receipts.forEach((receipt: any) => {
-        const orderNumber = receipt.order_number;
+      return stockTake.id;
+    });
 
-        if (!groupedReceipts[orderNumber]) {
-          groupedReceipts[orderNumber] = {
-            order_number: orderNumber,
-            customer_name: receipt.customer_name,
-            customer_name_ar: receipt.customer_name_ar,
-            item_name: receipt.item_name,
-            item_name_ar: receipt.item_name_ar,
-            size_caption: receipt.size_caption,
-            width: receipt.width,
-            thickness: receipt.thickness,
-            raw_material: receipt.raw_material,
-            receipts: [],
-            total_received_weight: 0,
-          };
-        }
+    return (await this.getStockTake(stockTakeId))!;
+  }
 
-        // Add receipt to the group
-        groupedReceipts[orderNumber].receipts.push({
-          receipt_id: receipt.receipt_id,
-          receipt_date: receipt.receipt_date,
-          received_weight_kg: receipt.received_weight_kg,
-          received_by_name: receipt.received_by_name,
-          production_order_number: receipt.production_order_number,
-        });
+  async recordStockTakeCount(
+    id: number,
+    data: StockTakeCountInput,
+    userId: number,
+  ): Promise<StockTakeLineDetails> {
+    const lineId = await db.transaction(async (tx) => {
+      // قفل مشترك: عدّة عدّادين معاً مسموحة، لكن ليس أثناء الترحيل
+      const [stockTake] = await tx
+        .select()
+        .from(stock_takes)
+        .where(eq(stock_takes.id, id))
+        .for("share");
+      if (!stockTake) {
+        throw new StockTakeError("الجرد غير موجود");
+      }
+      assertStockTakeCounting(stockTake.status, "تسجيل عدّ على");
 
-        // Add to total received weight
-        groupedReceipts[orderNumber].total_received_weight += parseFloat(
-          receipt.received_weight_kg || 0,
+      const [line] = await tx
+        .select({ id: stock_take_lines.id })
+        .from(stock_take_lines)
+        .innerJoin(items, eq(stock_take_lines.item_id, items.id))
+        .where(
+          and(
+            eq(stock_take_lines.stock_take_id, id),
+            data.line_id !== undefined
+              ? eq(stock_take_lines.id, data.line_id)
+              : or(eq(items.code, data.barcode!), eq(items.id, data.barcode!)),
+          ),
         );
-      });
-
-      return Object.values(groupedReceipts);
-    } catch (error) {
-      console.error("Error fetching detailed warehouse receipts:", error);
-      throw new Error("فشل في جلب تفاصيل إيصالات المستودع");
-    }
-  }
+      if (!line) {
+        throw new StockTakeError(
+          data.line_id !== undefined
+            ? "البند لا يتبع هذا الجرد"
+            : `الباركود ${data.barcode} لا يطابق أي صنف في هذا الجرد`,
+        );
+      }
 
-  // Get production orders ready for warehouse receipt (with cut quantities)
-  async getProductionOrdersForReceipt(): Promise<any[]> {
-    try {
-      // Get production orders that have cuts but haven't been fully received
-      const result = await db
-        .select({
-          order_id: production_orders.order_id,
-          order_number: orders.order_number,
-          production_order_id: production_orders.id,
-          production_order_number: production_orders.production_order_number,
-          customer_id: orders.customer_id,
-          customer_name: customers.name,
-          customer_name_ar: customers.name_ar,
-          quantity_required: production_orders.quantity_kg,
-          item_name: items.name,
-          item_name_ar: items.name_ar,
-          size_caption: customer_products.size_caption,
-          raw_material: customer_products.raw_material,
-          master_batch_id: customer_products.master_batch_id,
-          // Calculate total film production (sum of all roll weights for this production order)
-          total_film_weight: sql<string>`
-            COALESCE((
-              SELECT SUM(weight_kg)::decimal(12,3)
-              FROM rolls 
-              WHERE production_order_id = ${production_orders.id}
-            ), 0)
-          `,
-          // Calculate total cut weight (sum of cut weights from rolls table)
-          total_cut_weight: sql<string>`
-            COALESCE((
-              SELECT SUM(cut_weight_total_kg)::decimal(12,3)
-              FROM rolls 
-              WHERE production_order_id = ${production_orders.id}
-                AND cut_weight_total_kg > 0
-            ), 0)
-          `,
-          // Calculate total received weight (sum of all warehouse receipts for this production order)
-          total_received_weight: sql<string>`
-            COALESCE((
-              SELECT SUM(received_weight_kg)::decimal(12,3)
-              FROM warehouse_receipts
-              WHERE production_order_id = ${production_orders.id}
-            ), 0)
-          `,
-          // Calculate waste (film production - cut weight)
-          waste_weight: sql<string>`
-            COALESCE((
-              SELECT SUM(weight_kg)::decimal(12,3)
-              FROM rolls 
-              WHERE production_order_id = ${production_orders.id}
-            ), 0) - COALESCE((
-              SELECT SUM(cut_weight_total_kg)::decimal(12,3)
-              FROM rolls 
-              WHERE production_order_id = ${production_orders.id}
-                AND cut_weight_total_kg > 0
-            ), 0)
-          `,
-        })
-        .from(production_orders)
-        .leftJoin(orders, eq(production_orders.order_id, orders.id))
-        .leftJoin(customers, eq(orders.customer_id, customers.id))
-        .leftJoin(
-          customer_products,
-          eq(production_orders.customer_product_id, customer_products.id),
-        )
-        .leftJoin(items, eq(customer_products.item_id, items.id))
-        .where(
-          // Only include production orders that have cuts but haven't been fully received
-          sql`EXISTS (
-            SELECT 1 FROM rolls
-            WHERE production_order_id = ${production_orders.id}
-              AND cut_weight_total_kg > 0
-          ) AND COALESCE((
-            SELECT SUM(cut_weight_total_kg)
-            FROM rolls
-            WHERE production_order_id = ${production_orders.id}
-              AND cut_weight_total_kg > 0
-          ), 0) > COALESCE((
-            SELECT SUM(received_weight_kg)
-            FROM warehouse_receipts
-            WHERE production_order_id = ${production_orders.id}
-          ), 0)`,
-        )
-        .orderBy(desc(orders.created_at));
+      const quantity = numberToDecimalString(data.quantity, 2);
+      await tx
+        .insert(stock_take_counts)
+        .values({
+          line_id: line.id,
+          counted_by: userId,
+          quantity,
+          scanned: data.barcode !== undefined,
+        })
+        .onConflictDoUpdate({
+          target: [stock_take_counts.line_id, stock_take_counts.counted_by],
+          set: {
+            quantity:
+              data.mode === "add"
+                ? sql`${stock_take_counts.quantity} + ${quantity}::decimal`
+                : quantity,
+            scanned: data.barcode !== undefined,
+            counted_at: new Date(),
+          },
+        });
 
-      return result;
-    } catch (error) {
-      console.error("Error fetching production orders for receipt:", error);
-      throw new Error("فشل في جلب أوامر الإنتاج القابلة للاستلام");
+      return line.id;
+    });
+
+    const stockTake = await this.getStockTake(id);
+    return stockTake!.lines.find((line) => line.id === lineId)!;
+  }
+
+  async postStockTake(
+    id: number,
+    data: StockTakePosting,
+    userId: number,
+  ): Promise<StockTakeDetails> {
+    const round2 = (value: number) => Math.round(value * 100) / 100;
+    const lineIds = data.lines.map((line) => line.line_id);
+    if (new Set(lineIds).size !== lineIds.length) {
+      throw new StockTakeError("بند الجرد مكرر في طلب الاعتماد");
     }
+
+    await db.transaction(async (tx) => {
+      // القفل الحصري ينتظر انتهاء العدّات الجارية ويمنع ترحيلين متزامنين
+      const [stockTake] = await tx
+        .select()
+        .from(stock_takes)
+        .where(eq(stock_takes.id, id))
+        .for("update");
+      if (!stockTake) {
+        throw new StockTakeError("الجرد غير موجود");
+      }
+      assertStockTakeCounting(stockTake.status, "ترحيل");
+
+      // إعادة القراءة داخل المعاملة بعد القفل لتشمل آخر العدّات
+      const lines = await this.loadStockTakeLines(tx, id, true);
+
+      for (const input of data.lines) {
+        const line = lines.find((l) => l.id === input.line_id);
+        if (!line) {
+          throw new StockTakeError("البند لا يتبع هذا الجرد");
+        }
+        const itemName = line.item_name_ar || line.item_name || line.item_id;
+        const approvedQuantity =
+          input.quantity !== undefined
+            ? round2(input.quantity)
+            : line.counted_quantity;
+        if (approvedQuantity === null) {
+          throw new StockTakeError(
+            line.has_conflict
+              ? `اختلف العدّادون في الصنف ${itemName} - حدد الكمية المعتمدة`
+              : `الصنف ${itemName} لم يُعد بعد`,
+          );
+        }
+
+        const variance = round2(
+          approvedQuantity - parseFloat(line.snapshot_quantity),
+        );
+        let movementId: number | null = null;
+        if (variance !== 0) {
+          const [stock] = await tx
+            .select()
+            .from(inventory)
+            .where(eq(inventory.id, line.inventory_id))
+            .for("update");
+          const adjustment = stockTakeAdjustment(
+            parseFloat(stock.current_stock),
+            variance,
+            itemName,
+          );
+
+          const [movement] = await tx
+            .insert(inventory_movements)
+            .values({
+              inventory_id: stock.id,
+              movement_type: adjustment.movement_type,
+              quantity: numberToDecimalString(adjustment.quantity, 2),
+              unit_cost: line.unit_cost,
+              reference_number: stockTake.stock_take_number,
+              reference_type: "adjustment",
+              notes: `تسوية جرد ${stockTake.stock_take_number}: رصيد النظام ${parseFloat(line.snapshot_quantity).toFixed(2)} - الفعلي ${approvedQuantity.toFixed(2)} ${line.unit}`,
+              created_by: userId,
+            })
+            .returning();
+          movementId = movement.id;
+
+          await tx
+            .update(inventory)
+            .set({
+              current_stock: numberToDecimalString(adjustment.new_stock, 2),
+              last_updated: new Date(),
+            })
+            .where(eq(inventory.id, stock.id));
+        }
+
+        await tx
+          .update(stock_take_lines)
+          .set({
+            approved: true,
+            approved_quantity: numberToDecimalString(approvedQuantity, 2),
+            adjustment_movement_id: movementId,
+          })
+          .where(eq(stock_take_lines.id, line.id));
+      }
+
+      await tx
+        .update(stock_takes)
+        .set({ status: "posted", posted_by: userId, posted_at: new Date() })
+        .where(eq(stock_takes.id, id));
+    });
+
+    return (await this.getStockTake(id))!;
+  }
+
+  async cancelStockTake(id: number, userId: number): Promise<StockTake> {
+    return await db.transaction(async (tx) => {
+      const [stockTake] = await tx
+        .select()
+        .from(stock_takes)
+        .where(eq(stock_takes.id, id))
+        .for("update");
+      if (!stockTake) {
+        throw new StockTakeError("الجرد غير موجود");
+      }
+      assertStockTakeCounting(stockTake.status, "إلغاء");
+
+      const [cancelled] = await tx
+        .update(stock_takes)
+        .set({
+          status: "cancelled",
+          cancelled_by: userId,
+          cancelled_at: new Date(),
+        })
+        .where(eq(stock_takes.id, id))
+        .returning();
+      return cancelled;
+    });
   }
 
   async getFilmQueue(): Promise<ProductionOrder[]> {
@@ -6497,6 +10250,7 @@ export class DatabaseStorage implements IStorage {
           weight_kg: rolls.weight_kg,
           machine_id: rolls.machine_id,
           stage: rolls.stage,
+          qa_status: rolls.qa_status,
           created_at: rolls.created_at,
           created_by: rolls.created_by,
           printed_at: rolls.printed_at,
@@ -6599,7 +10353,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getCuttingQueue(): Promise<Roll[]> {
+  async getCuttingQueue(): Promise<(Roll & { remaining_kg: string })[]> {
     try {
       const cacheKey = "cutting_queue";
       const cached = getCachedData(cacheKey);
@@ -6608,7 +10362,7 @@ export class DatabaseStorage implements IStorage {
       }
 
       // محسن: استخدام فهرس stage مع تحديد الأعمدة المطلوبة فقط
-      // جلب الرولات في مرحلة printing فقط (التي تم طباعتها ولم تقطع بعد)
+      // جلب الرولات المطبوعة التي لم تُقص بعد أو المقطوعة جزئياً مع الوزن المتبقي
       const rollsData = await db
         .select({
           id: rolls.id,
@@ -6617,19 +10371,15 @@ export class DatabaseStorage implements IStorage {
           production_order_id: rolls.production_order_id,
           weight_kg: rolls.weight_kg,
           stage: rolls.stage,
+          qa_status: rolls.qa_status,
+          cut_weight_total_kg: rolls.cut_weight_total_kg,
+          waste_kg: rolls.waste_kg,
+          cutting_machine_id: rolls.cutting_machine_id,
           printed_at: rolls.printed_at,
           created_at: rolls.created_at,
         })
         .from(rolls)
-        .where(
-          and(
-            eq(rolls.stage, "printing"), // فقط الرولات في مرحلة الطباعة
-            sql`${rolls.production_order_id} IN (
-              SELECT DISTINCT production_order_id FROM rolls
-              WHERE stage = 'printing'
-            )`
-          )
-        )
+        .where(inArray(rolls.stage, ["printing", "cutting"]))
         .orderBy(desc(rolls.printed_at))
         .limit(200);
 
@@ -6639,8 +10389,15 @@ export class DatabaseStorage implements IStorage {
         // Note: created_by is not part of Roll schema, removing hardcoded value
         qr_code_text: "",
         qr_png_base64: null,
-        cut_weight_total_kg: "0",
-        waste_kg: "0",
+        remaining_kg: numberToDecimalString(
+          Math.max(
+            normalizeDecimal(roll.weight_kg) -
+              normalizeDecimal(roll.cut_weight_total_kg) -
+              normalizeDecimal(roll.waste_kg),
+            0,
+          ),
+          3,
+        ),
         cut_completed_at: null,
         performed_by: null,
         machine_id: "",
@@ -6648,7 +10405,7 @@ export class DatabaseStorage implements IStorage {
         printed_by: null,
         cut_by: null,
         completed_at: null,
-      })) as Roll[];
+      })) as (Roll & { remaining_kg: string })[];
 
       // تخزين مؤقت لمدة 5 ثواني للبيانات النشطة
       setCachedData(cacheKey, result, CACHE_TTL.REALTIME);
@@ -6682,7 +10439,7 @@ export class DatabaseStorage implements IStorage {
             AND EXISTS (
               SELECT 1 FROM rolls r 
               WHERE r.production_order_id = po.id 
-              AND r.stage = 'printing'
+              AND r.stage IN ('printing', 'cutting')
             )
             AND EXISTS (
               SELECT 1 FROM rolls r2 
@@ -6752,6 +10509,7 @@ export class DatabaseStorage implements IStorage {
             roll_number: rolls.roll_number,
             production_order_id: rolls.production_order_id,
             stage: rolls.stage,
+            qa_status: rolls.qa_status,
             weight_kg: rolls.weight_kg,
             cut_weight_total_kg: rolls.cut_weight_total_kg,
             waste_kg: rolls.waste_kg,
@@ -6761,6 +10519,7 @@ export class DatabaseStorage implements IStorage {
             printed_by: rolls.printed_by,
             cut_by: rolls.cut_by,
             cut_at: rolls.cut_completed_at,
+            cutting_machine_id: rolls.cutting_machine_id,
             machine_id: rolls.machine_id,
             qr_code_text: rolls.qr_code_text,
           })
@@ -6798,6 +10557,16 @@ export class DatabaseStorage implements IStorage {
       // إضافة أسماء المستخدمين للرولات
       const rollsWithNames = rollsData.map(roll => ({
         ...roll,
+        // الوزن المتبقي للقص في الرولات المقطوعة جزئياً
+        remaining_kg: numberToDecimalString(
+          Math.max(
+            normalizeDecimal(roll.weight_kg) -
+              normalizeDecimal(roll.cut_weight_total_kg) -
+              normalizeDecimal(roll.waste_kg),
+            0,
+          ),
+          3,
+        ),
         created_by_name: roll.created_by ? userNames.get(roll.created_by) || null : null,
         printed_by_name: roll.printed_by ? userNames.get(roll.printed_by) || null : null,
         cut_by_name: roll.cut_by ? userNames.get(roll.cut_by) || null : null,
@@ -6985,31 +10754,731 @@ export class DatabaseStorage implements IStorage {
         .leftJoin(customers, eq(orders.customer_id, customers.id))
         .where(eq(rolls.id, rollId));
 
-      if (!rollData) {
-        throw new Error("الرول غير موجود");
-      }
+      if (!rollData) {
+        throw new Error("الرول غير موجود");
+      }
+
+      return {
+        roll_number: rollData.roll_number || "",
+        production_order_number: rollData.production_order_number || "",
+        customer_name: rollData.customer_name || "غير محدد",
+        weight_kg: `${rollData.weight_kg} كغ`,
+        stage: this.getStageArabicName(rollData.stage || ""),
+        created_at: rollData.created_at
+          ? new Date(rollData.created_at).toLocaleDateString("ar")
+          : "",
+        machine_name:
+          rollData.machine_name_ar || rollData.machine_name || "غير محدد",
+        qr_png_base64: rollData.qr_png_base64 || "",
+        label_dimensions: {
+          width: "4 بوصة",
+          height: "5 بوصة",
+        },
+      };
+    } catch (error) {
+      console.error("Error fetching roll label data:", error);
+      throw new Error("فشل في جلب بيانات ليبل الرول");
+    }
+  }
+
+  async getProductionSchedule(): Promise<ProductionSchedule> {
+    return withDatabaseErrorHandling(
+      async () => {
+        // الخطة تُحذف من الذاكرة المؤقتة مع أي تحديث للإنتاج أو للمكائن
+        const cacheKey = "production_schedule";
+        const cached = getCachedData(cacheKey);
+        if (cached) {
+          return cached;
+        }
+
+        const allMachines = await db.select().from(machines);
+        const openOrders = await this.getSchedulingOrders();
+        const schedule = buildProductionSchedule(allMachines, openOrders);
+        setCachedData(cacheKey, schedule, CACHE_TTL.SHORT);
+        return schedule;
+      },
+      "جلب خطة جدولة الإنتاج",
+    );
+  }
+
+  async getDeliveryPromise(
+    items: Array<{ customer_product_id: number; quantity_kg: number }>,
+    excludeOrderId?: number,
+  ): Promise<DeliveryPromise> {
+    const productIds = Array.from(
+      new Set(items.map((item) => item.customer_product_id)),
+    );
+    const products = await db
+      .select({
+        id: customer_products.id,
+        size_caption: customer_products.size_caption,
+        width: customer_products.width,
+        is_printed: customer_products.is_printed,
+        punching: customer_products.punching,
+      })
+      .from(customer_products)
+      .where(inArray(customer_products.id, productIds));
+
+    const lines: PromiseLine[] = items.map((item) => {
+      const product = products.find((p) => p.id === item.customer_product_id);
+      if (!product) {
+        throw new Error(`منتج العميل رقم ${item.customer_product_id} غير موجود`);
+      }
+      // نفس حساب الكمية النهائية المستخدم عند إنشاء أمر الإنتاج
+      const { finalQuantityKg } = calculateProductionQuantities(
+        item.quantity_kg,
+        product.punching,
+      );
+      return {
+        customer_product_id: product.id,
+        size_caption: product.size_caption,
+        width: product.width,
+        is_printed: product.is_printed,
+        final_quantity_kg: finalQuantityKg,
+      };
+    });
+
+    const allMachines = await db.select().from(machines);
+    const openOrders = await this.getSchedulingOrders(excludeOrderId);
+    const openRequests = await db
+      .select({ machine_id: maintenance_requests.machine_id })
+      .from(maintenance_requests)
+      .where(inArray(maintenance_requests.status, ["open", "in_progress"]));
+
+    return buildDeliveryPromise(
+      allMachines,
+      openOrders,
+      lines,
+      openRequests
+        .map((request) => request.machine_id)
+        .filter((id): id is string => !!id),
+    );
+  }
+
+  // أوامر الإنتاج المفتوحة مع المتبقي لكل مرحلة من أوزان الرولات، بنفس منطق
+  // قوائم الفيلم والطباعة والتقطيع
+  private async getSchedulingOrders(
+    excludeOrderId?: number,
+  ): Promise<SchedulerOrder[]> {
+    const rollTotals = db
+      .select({
+        production_order_id: rolls.production_order_id,
+        produced_kg: sql<string>`COALESCE(SUM(${rolls.weight_kg}), 0)`.as(
+          "produced_kg",
+        ),
+        printed_kg:
+          sql<string>`COALESCE(SUM(${rolls.weight_kg}) FILTER (WHERE ${rolls.stage} <> 'film'), 0)`.as(
+            "printed_kg",
+          ),
+        cut_kg:
+          sql<string>`COALESCE(SUM(CASE WHEN ${rolls.stage} = 'done' THEN ${rolls.weight_kg} ELSE ${rolls.cut_weight_total_kg} + ${rolls.waste_kg} END), 0)`.as(
+            "cut_kg",
+          ),
+      })
+      .from(rolls)
+      .groupBy(rolls.production_order_id)
+      .as("roll_totals");
+
+    const rows = await db
+      .select({
+        production_order_id: production_orders.id,
+        production_order_number: production_orders.production_order_number,
+        order_number: orders.order_number,
+        customer_name: customers.name,
+        customer_name_ar: customers.name_ar,
+        size_caption: customer_products.size_caption,
+        width: customer_products.width,
+        is_printed: customer_products.is_printed,
+        final_quantity_kg: production_orders.final_quantity_kg,
+        produced_kg: rollTotals.produced_kg,
+        printed_kg: rollTotals.printed_kg,
+        cut_kg: rollTotals.cut_kg,
+        delivery_date: orders.delivery_date,
+        status: production_orders.status,
+        created_at: production_orders.created_at,
+      })
+      .from(production_orders)
+      .innerJoin(orders, eq(production_orders.order_id, orders.id))
+      .leftJoin(customers, eq(orders.customer_id, customers.id))
+      .leftJoin(
+        customer_products,
+        eq(production_orders.customer_product_id, customer_products.id),
+      )
+      .leftJoin(
+        rollTotals,
+        eq(rollTotals.production_order_id, production_orders.id),
+      )
+      .where(
+        and(
+          inArray(production_orders.status, ["pending", "active"]),
+          inArray(orders.status, ["waiting", "in_production"]),
+          excludeOrderId ? sql`${orders.id} <> ${excludeOrderId}` : undefined,
+        ),
+      );
+
+    return rows.map(
+      ({ final_quantity_kg, produced_kg, printed_kg, cut_kg, ...row }) => {
+        const finalKg = parseFloat(final_quantity_kg) || 0;
+        return {
+          ...row,
+          film_remaining_kg: finalKg - (parseFloat(produced_kg ?? "0") || 0),
+          printing_remaining_kg: finalKg - (parseFloat(printed_kg ?? "0") || 0),
+          cutting_remaining_kg: finalKg - (parseFloat(cut_kg ?? "0") || 0),
+        };
+      },
+    );
+  }
+
+  async getRollTrace(rollRef: number | string): Promise<RollTrace | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [roll] = await db
+          .select()
+          .from(rolls)
+          .where(
+            typeof rollRef === "number"
+              ? eq(rolls.id, rollRef)
+              : eq(rolls.roll_number, rollRef),
+          )
+          .limit(1);
+        if (!roll) return undefined;
+
+        const [chain] = await db
+          .select({
+            production_order: production_orders,
+            order: {
+              id: orders.id,
+              order_number: orders.order_number,
+              status: orders.status,
+              delivery_date: orders.delivery_date,
+              created_at: orders.created_at,
+            },
+            customer: {
+              id: customers.id,
+              name: customers.name,
+              name_ar: customers.name_ar,
+            },
+            customer_product: {
+              id: customer_products.id,
+              size_caption: customer_products.size_caption,
+              raw_material: customer_products.raw_material,
+              thickness: customer_products.thickness,
+              width: customer_products.width,
+            },
+          })
+          .from(production_orders)
+          .leftJoin(orders, eq(production_orders.order_id, orders.id))
+          .leftJoin(customers, eq(orders.customer_id, customers.id))
+          .leftJoin(
+            customer_products,
+            eq(production_orders.customer_product_id, customer_products.id),
+          )
+          .where(eq(production_orders.id, roll.production_order_id));
+
+        const rollCuts = await db
+          .select()
+          .from(cuts)
+          .where(eq(cuts.roll_id, roll.id))
+          .orderBy(cuts.created_at);
+
+        const cutIds = rollCuts.map((cut) => cut.id);
+        const receipts =
+          cutIds.length > 0
+            ? await db
+                .select()
+                .from(warehouse_receipts)
+                .where(inArray(warehouse_receipts.cut_id, cutIds))
+                .orderBy(warehouse_receipts.created_at)
+            : [];
+
+        const rollWaste = await db
+          .select()
+          .from(waste)
+          .where(eq(waste.roll_id, roll.id))
+          .orderBy(waste.created_at);
+
+        const checks = await db
+          .select()
+          .from(quality_checks)
+          .where(
+            and(
+              eq(quality_checks.target_type, "roll"),
+              eq(quality_checks.target_id, roll.id),
+            ),
+          )
+          .orderBy(quality_checks.created_at);
+
+        // أسماء المكائن والمشغلين المشاركين في السلسلة
+        const machineIds = [
+          roll.film_machine_id,
+          roll.printing_machine_id,
+          roll.cutting_machine_id,
+          ...rollCuts.map((cut) => cut.cutting_machine_id),
+        ].filter((id): id is string => !!id);
+        const userIds = [
+          roll.created_by,
+          roll.printed_by,
+          roll.cut_by,
+          ...rollCuts.map((cut) => cut.performed_by),
+          ...receipts.map((receipt) => receipt.received_by),
+          ...checks.map((check) => check.checked_by),
+        ].filter((id): id is number => !!id);
+
+        const machineRows =
+          machineIds.length > 0
+            ? await db
+                .select({
+                  id: machines.id,
+                  name: machines.name,
+                  name_ar: machines.name_ar,
+                })
+                .from(machines)
+                .where(inArray(machines.id, Array.from(new Set(machineIds))))
+            : [];
+        const userRows =
+          userIds.length > 0
+            ? await db
+                .select({
+                  id: users.id,
+                  username: users.username,
+                  display_name: users.display_name,
+                  display_name_ar: users.display_name_ar,
+                })
+                .from(users)
+                .where(inArray(users.id, Array.from(new Set(userIds))))
+            : [];
+
+        const machineName = (id?: string | null) => {
+          const machine = machineRows.find((row) => row.id === id);
+          return machine ? machine.name_ar || machine.name : null;
+        };
+        const userName = (id?: number | null) => {
+          const user = userRows.find((row) => row.id === id);
+          return user
+            ? user.display_name_ar || user.display_name || user.username
+            : null;
+        };
+
+        const traceCuts = rollCuts.map((cut) => ({
+          ...cut,
+          cutting_machine_name: machineName(
+            cut.cutting_machine_id ?? roll.cutting_machine_id,
+          ),
+          performed_by_name: userName(cut.performed_by),
+          receipts: receipts
+            .filter((receipt) => receipt.cut_id === cut.id)
+            .map((receipt) => ({
+              ...receipt,
+              received_by_name: userName(receipt.received_by),
+            })),
+        }));
+        const traceChecks = checks.map((check) => ({
+          ...check,
+          checked_by_name: userName(check.checked_by),
+        }));
+
+        const timeline: RollTraceEvent[] = [
+          {
+            at: roll.created_at,
+            type: "roll_created",
+            description: "إنتاج الرول (فيلم)",
+            machine: machineName(roll.film_machine_id),
+            operator: userName(roll.created_by),
+            weight_kg: roll.weight_kg,
+          },
+        ];
+        if (roll.printed_at) {
+          timeline.push({
+            at: roll.printed_at,
+            type: "printed",
+            description: "طباعة الرول",
+            machine: machineName(roll.printing_machine_id),
+            operator: userName(roll.printed_by),
+          });
+        }
+        for (const cut of traceCuts) {
+          if (cut.created_at) {
+            timeline.push({
+              at: cut.created_at,
+              type: "cut",
+              description: cut.pieces_count
+                ? `قص ${cut.pieces_count} قطعة`
+                : "قص",
+              machine: cut.cutting_machine_name,
+              operator: cut.performed_by_name,
+              weight_kg: cut.cut_weight_kg,
+            });
+          }
+          for (const receipt of cut.receipts) {
+            if (!receipt.created_at) continue;
+            timeline.push({
+              at: receipt.created_at,
+              type: "received",
+              description: "استلام في المستودع",
+              operator: receipt.received_by_name,
+              weight_kg: receipt.received_weight_kg,
+            });
+          }
+        }
+        if (roll.cut_completed_at) {
+          timeline.push({
+            at: roll.cut_completed_at,
+            type: "cut_completed",
+            description: "اكتمال القص",
+            machine: machineName(roll.cutting_machine_id),
+            operator: userName(roll.cut_by),
+          });
+        }
+        for (const entry of rollWaste) {
+          if (!entry.created_at) continue;
+          timeline.push({
+            at: entry.created_at,
+            type: "waste",
+            description: `هدر${entry.reason ? ` - ${entry.reason}` : ""}`,
+            weight_kg: entry.quantity_wasted,
+          });
+        }
+        for (const check of traceChecks) {
+          if (!check.created_at) continue;
+          timeline.push({
+            at: check.created_at,
+            type: "quality_check",
+            description: `فحص جودة - ${check.result === "pass" ? "مُجتاز" : check.result === "fail" ? "راسب" : check.result || "غير محدد"}`,
+            operator: check.checked_by_name,
+          });
+        }
+        if (roll.completed_at) {
+          timeline.push({
+            at: roll.completed_at,
+            type: "completed",
+            description: "اكتمال الرول",
+          });
+        }
+        timeline.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+        return {
+          customer: chain.customer,
+          order: chain.order,
+          production_order: chain.production_order,
+          customer_product: chain.customer_product,
+          roll: {
+            ...roll,
+            film_machine_name: machineName(roll.film_machine_id),
+            printing_machine_name: machineName(roll.printing_machine_id),
+            cutting_machine_name: machineName(roll.cutting_machine_id),
+            created_by_name: userName(roll.created_by),
+            printed_by_name: userName(roll.printed_by),
+            cut_by_name: userName(roll.cut_by),
+          },
+          cuts: traceCuts,
+          waste: rollWaste,
+          quality_checks: traceChecks,
+          timeline,
+        };
+      },
+      "تتبع الرول",
+      `الرول ${rollRef}`,
+    );
+  }
+
+  async getRollsByMachineWindow(
+    machineId: string,
+    from: Date,
+    to: Date,
+  ): Promise<AffectedRoll[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        // الرول متأثر إذا عملت عليه الماكينة في أي مرحلة ضمن الفترة المحددة
+        const fromValue = from.toISOString();
+        const toValue = to.toISOString();
+        const filmMatch = sql`(${rolls.film_machine_id} = ${machineId}
+          AND ${rolls.created_at} BETWEEN ${fromValue} AND ${toValue})`;
+        const printingMatch = sql`(${rolls.printing_machine_id} = ${machineId}
+          AND ${rolls.printed_at} BETWEEN ${fromValue} AND ${toValue})`;
+        // القص قد يتم على عدة مكائن - ماكينة كل قطعة مسجلة في جدول القطع
+        const cuttingMatch = sql`((${rolls.cutting_machine_id} = ${machineId}
+            AND ${rolls.cut_completed_at} BETWEEN ${fromValue} AND ${toValue})
+          OR EXISTS (SELECT 1 FROM ${cuts} WHERE ${cuts.roll_id} = ${rolls.id}
+            AND COALESCE(${cuts.cutting_machine_id}, ${rolls.cutting_machine_id}) = ${machineId}
+            AND ${cuts.created_at} BETWEEN ${fromValue} AND ${toValue}))`;
+
+        const rows = await db
+          .select({
+            id: rolls.id,
+            roll_number: rolls.roll_number,
+            stage: rolls.stage,
+            weight_kg: rolls.weight_kg,
+            production_order_id: rolls.production_order_id,
+            production_order_number: production_orders.production_order_number,
+            order_number: orders.order_number,
+            customer_name: sql<
+              string | null
+            >`COALESCE(${customers.name_ar}, ${customers.name})`,
+            film_match: sql<boolean>`COALESCE(${filmMatch}, false)`,
+            printing_match: sql<boolean>`COALESCE(${printingMatch}, false)`,
+            cutting_match: sql<boolean>`COALESCE(${cuttingMatch}, false)`,
+            created_at: rolls.created_at,
+            printed_at: rolls.printed_at,
+            cut_completed_at: rolls.cut_completed_at,
+          })
+          .from(rolls)
+          .leftJoin(
+            production_orders,
+            eq(rolls.production_order_id, production_orders.id),
+          )
+          .leftJoin(orders, eq(production_orders.order_id, orders.id))
+          .leftJoin(customers, eq(orders.customer_id, customers.id))
+          .where(or(filmMatch, printingMatch, cuttingMatch))
+          .orderBy(rolls.created_at);
+
+        return rows.map((row) => {
+          const matched_stages: AffectedRoll["matched_stages"] = [];
+          if (row.film_match) matched_stages.push("film");
+          if (row.printing_match) matched_stages.push("printing");
+          if (row.cutting_match) matched_stages.push("cutting");
+
+          const stage_at = row.film_match
+            ? row.created_at
+            : row.printing_match
+              ? row.printed_at
+              : row.cut_completed_at;
+
+          return {
+            id: row.id,
+            roll_number: row.roll_number,
+            stage: row.stage,
+            weight_kg: row.weight_kg,
+            production_order_id: row.production_order_id,
+            production_order_number: row.production_order_number,
+            order_number: row.order_number,
+            customer_name: row.customer_name,
+            matched_stages,
+            stage_at,
+          };
+        });
+      },
+      "البحث عن الرولات المتأثرة",
+      `الماكينة ${machineId}`,
+    );
+  }
+
+  // ============ أسباب الهدر وتحليله ============
+
+  async getWasteReasons(filters?: {
+    stage?: string;
+    activeOnly?: boolean;
+  }): Promise<WasteReason[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const conditions = [];
+        if (filters?.stage) conditions.push(eq(waste_reasons.stage, filters.stage));
+        if (filters?.activeOnly) conditions.push(eq(waste_reasons.is_active, true));
+
+        return await db
+          .select()
+          .from(waste_reasons)
+          .where(conditions.length > 0 ? and(...conditions) : undefined)
+          .orderBy(waste_reasons.stage, waste_reasons.sort_order, waste_reasons.name_ar);
+      },
+      "جلب أسباب الهدر",
+    );
+  }
+
+  async createWasteReason(reason: InsertWasteReason): Promise<WasteReason> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [created] = await db
+          .insert(waste_reasons)
+          .values(reason)
+          .returning();
+        return created;
+      },
+      "إنشاء سبب هدر",
+      reason.code,
+    );
+  }
 
-      return {
-        roll_number: rollData.roll_number || "",
-        production_order_number: rollData.production_order_number || "",
-        customer_name: rollData.customer_name || "غير محدد",
-        weight_kg: `${rollData.weight_kg} كغ`,
-        stage: this.getStageArabicName(rollData.stage || ""),
-        created_at: rollData.created_at
-          ? new Date(rollData.created_at).toLocaleDateString("ar")
-          : "",
-        machine_name:
-          rollData.machine_name_ar || rollData.machine_name || "غير محدد",
-        qr_png_base64: rollData.qr_png_base64 || "",
-        label_dimensions: {
-          width: "4 بوصة",
-          height: "5 بوصة",
-        },
-      };
-    } catch (error) {
-      console.error("Error fetching roll label data:", error);
-      throw new Error("فشل في جلب بيانات ليبل الرول");
-    }
+  async updateWasteReason(
+    id: number,
+    updates: Partial<InsertWasteReason>,
+  ): Promise<WasteReason | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [updated] = await db
+          .update(waste_reasons)
+          .set(updates)
+          .where(eq(waste_reasons.id, id))
+          .returning();
+        return updated;
+      },
+      "تحديث سبب الهدر",
+      `السبب ${id}`,
+    );
+  }
+
+  async deleteWasteReason(id: number): Promise<void> {
+    return withDatabaseErrorHandling(
+      async () => {
+        // سجلات الهدر السابقة تحتفظ بنص السبب
+        await db.delete(waste_reasons).where(eq(waste_reasons.id, id));
+      },
+      "حذف سبب الهدر",
+      `السبب ${id}`,
+    );
+  }
+
+  async getWasteAnalysis(filters: {
+    dateFrom?: string;
+    dateTo?: string;
+    stage?: string;
+  }): Promise<WasteAnalysis> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const today = new Date().toISOString().slice(0, 10);
+        const dateTo = filters.dateTo || today;
+        const dateFrom =
+          filters.dateFrom ||
+          new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+            .toISOString()
+            .slice(0, 10);
+        const stageFilter = filters.stage
+          ? sql`AND events.stage = ${filters.stage}`
+          : sql``;
+
+        // أحداث الهدر: سجلات جدول الهدر + هدر الرولات المحسوب قبل تسجيل الأسباب (غير مصنف)
+        const result = await db.execute(sql`
+          WITH logged AS (
+            SELECT roll_id, SUM(quantity_wasted) AS total
+            FROM waste WHERE roll_id IS NOT NULL
+            GROUP BY roll_id
+          ),
+          events AS (
+            SELECT
+              w.quantity_wasted::decimal AS qty,
+              w.reason_id,
+              COALESCE(wr.name_ar, NULLIF(w.reason, '')) AS reason,
+              COALESCE(w.stage, wr.stage, 'cutting') AS stage,
+              COALESCE(w.machine_id, CASE COALESCE(w.stage, wr.stage)
+                WHEN 'film' THEN r.film_machine_id
+                WHEN 'printing' THEN r.printing_machine_id
+                ELSE r.cutting_machine_id END) AS machine_id,
+              COALESCE(w.recorded_by, r.cut_by) AS operator_id,
+              po.customer_product_id,
+              w.created_at AS at
+            FROM waste w
+            LEFT JOIN waste_reasons wr ON wr.id = w.reason_id
+            LEFT JOIN rolls r ON r.id = w.roll_id
+            LEFT JOIN production_orders po
+              ON po.id = COALESCE(w.production_order_id, r.production_order_id)
+            WHERE w.created_at IS NOT NULL
+            UNION ALL
+            SELECT
+              r.waste_kg - COALESCE(logged.total, 0),
+              NULL,
+              NULL,
+              'cutting',
+              r.cutting_machine_id,
+              r.cut_by,
+              po.customer_product_id,
+              COALESCE(r.cut_completed_at, r.completed_at, r.created_at)
+            FROM rolls r
+            JOIN production_orders po ON po.id = r.production_order_id
+            LEFT JOIN logged ON logged.roll_id = r.id
+            WHERE r.waste_kg > COALESCE(logged.total, 0) + 0.005
+          )
+          SELECT
+            events.reason_id,
+            events.reason,
+            events.stage,
+            events.machine_id,
+            COALESCE(m.name_ar, m.name) AS machine_name,
+            events.operator_id,
+            COALESCE(u.display_name_ar, u.display_name, u.username) AS operator_name,
+            events.customer_product_id,
+            CONCAT_WS(' - ', COALESCE(c.name_ar, c.name), cp.size_caption) AS customer_product_name,
+            EXTRACT(HOUR FROM events.at)::int AS hour,
+            SUM(events.qty)::float AS waste_kg
+          FROM events
+          LEFT JOIN machines m ON m.id = events.machine_id
+          LEFT JOIN users u ON u.id = events.operator_id
+          LEFT JOIN customer_products cp ON cp.id = events.customer_product_id
+          LEFT JOIN customers c ON c.id = cp.customer_id
+          WHERE DATE(events.at) BETWEEN ${dateFrom} AND ${dateTo}
+          ${stageFilter}
+          GROUP BY 1, 2, 3, 4, 5, 6, 7, 8, 9, 10
+        `);
+
+        const rows = (result.rows as any[]).map((row) => ({
+          ...row,
+          waste_kg: Number(row.waste_kg) || 0,
+        }));
+
+        const [produced] = await db
+          .select({
+            total: sql<number>`COALESCE(SUM(${rolls.weight_kg}::decimal), 0)`,
+          })
+          .from(rolls)
+          .where(
+            sql`DATE(${rolls.created_at}) BETWEEN ${dateFrom} AND ${dateTo}`,
+          );
+
+        const totalWaste = rows.reduce((sum, row) => sum + row.waste_kg, 0);
+        const producedKg = Number(produced?.total || 0);
+        const shiftOf = (hour: number) =>
+          WASTE_SHIFTS.find((shift) =>
+            shift.from < shift.to
+              ? hour >= shift.from && hour < shift.to
+              : hour >= shift.from || hour < shift.to,
+          ) || WASTE_SHIFTS[0];
+
+        return {
+          period: { from: dateFrom, to: dateTo },
+          total_waste_kg: Number(totalWaste.toFixed(2)),
+          unclassified_waste_kg: Number(
+            rows
+              .filter((row) => !row.reason)
+              .reduce((sum, row) => sum + row.waste_kg, 0)
+              .toFixed(2),
+          ),
+          produced_kg: Number(producedKg.toFixed(2)),
+          waste_percentage:
+            producedKg > 0
+              ? Number(((totalWaste / producedKg) * 100).toFixed(2))
+              : 0,
+          by_stage: buildWastePareto(
+            rows,
+            (row) => row.stage,
+            (row) => WASTE_STAGE_LABELS[row.stage] || row.stage,
+          ),
+          by_reason: buildWastePareto(
+            rows,
+            (row) => row.reason || "unclassified",
+            (row) => row.reason || "غير مصنف",
+          ),
+          by_machine: buildWastePareto(
+            rows,
+            (row) => row.machine_id || "unknown",
+            (row) => row.machine_name || "غير محدد",
+          ),
+          by_operator: buildWastePareto(
+            rows,
+            (row) => String(row.operator_id ?? "unknown"),
+            (row) => row.operator_name || "غير محدد",
+          ),
+          by_customer_product: buildWastePareto(
+            rows,
+            (row) => String(row.customer_product_id ?? "unknown"),
+            (row) => row.customer_product_name || "غير محدد",
+          ),
+          by_shift: buildWastePareto(
+            rows,
+            (row) => shiftOf(row.hour).key,
+            (row) => shiftOf(row.hour).label,
+          ),
+        };
+      },
+      "تحليل الهدر",
+    );
   }
 
   private getStageArabicName(stage: string): string {
@@ -7022,8 +11491,25 @@ export class DatabaseStorage implements IStorage {
     return stageNames[stage] || stage;
   }
 
+  /**
+   * هل يقع سجل هذا المستخدم/الموظف ضمن نطاق بيانات المستخدم الحالي
+   */
+  async isUserInScope(
+    userId: number | string,
+    scope?: DataScope,
+  ): Promise<boolean> {
+    const condition = scopedUserCondition(users.id, scope);
+    if (!condition) return true;
+
+    const [match] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(sql`${users.id}::text = ${String(userId)}`, condition));
+    return !!match;
+  }
+
   // ============ User Attendance Management ============
-  async getAttendance(): Promise<any[]> {
+  async getAttendance(scope?: DataScope): Promise<any[]> {
     try {
       const result = await db
         .select({
@@ -7035,6 +11521,14 @@ export class DatabaseStorage implements IStorage {
           lunch_start_time: attendance.lunch_start_time,
           lunch_end_time: attendance.lunch_end_time,
           notes: attendance.notes,
+          latitude: attendance.latitude,
+          longitude: attendance.longitude,
+          location_id: attendance.location_id,
+          location_distance_m: attendance.location_distance_m,
+          location_status: attendance.location_status,
+          location_review_status: attendance.location_review_status,
+          location_reviewed_by: attendance.location_reviewed_by,
+          location_reviewed_at: attendance.location_reviewed_at,
           created_by: attendance.created_by,
           updated_by: attendance.updated_by,
           date: attendance.date,
@@ -7044,6 +11538,7 @@ export class DatabaseStorage implements IStorage {
         })
         .from(attendance)
         .innerJoin(users, eq(attendance.user_id, users.id))
+        .where(scopedUserCondition(attendance.user_id, scope))
         .orderBy(desc(attendance.date), desc(attendance.created_at));
       return result;
     } catch (error) {
@@ -7118,8 +11613,7 @@ export class DatabaseStorage implements IStorage {
     try {
       console.log("Creating attendance with data:", attendanceData);
 
-      const currentDate =
-        attendanceData.date || new Date().toISOString().split("T")[0];
+      const currentDate = attendanceData.date || localDate();
       const userId = attendanceData.user_id;
 
       // Check current daily attendance status
@@ -7174,6 +11668,17 @@ export class DatabaseStorage implements IStorage {
         date: currentDate,
       };
 
+      // نتيجة التحقق من النطاق الجغرافي (تُحسب في مسار الطلب قبل الحفظ)
+      const geo = {
+        latitude: attendanceData.latitude ?? null,
+        longitude: attendanceData.longitude ?? null,
+        location_accuracy_m: attendanceData.location_accuracy_m ?? null,
+        location_id: attendanceData.location_id ?? null,
+        location_distance_m: attendanceData.location_distance_m ?? null,
+        location_status: attendanceData.location_status ?? null,
+        location_review_status: attendanceData.location_review_status ?? null,
+      };
+
       // Set the appropriate timestamp based on action
       if (status === "حاضر" && !action) {
         recordData.check_in_time =
@@ -7191,8 +11696,9 @@ export class DatabaseStorage implements IStorage {
       }
 
       const query = `
-        INSERT INTO attendance (user_id, status, check_in_time, check_out_time, lunch_start_time, lunch_end_time, notes, date)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        INSERT INTO attendance (user_id, status, check_in_time, check_out_time, lunch_start_time, lunch_end_time, notes, date,
+          latitude, longitude, location_accuracy_m, location_id, location_distance_m, location_status, location_review_status)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
         RETURNING *
       `;
 
@@ -7205,6 +11711,13 @@ export class DatabaseStorage implements IStorage {
         recordData.lunch_end_time,
         recordData.notes,
         recordData.date,
+        geo.latitude,
+        geo.longitude,
+        geo.location_accuracy_m,
+        geo.location_id,
+        geo.location_distance_m,
+        geo.location_status,
+        geo.location_review_status,
       ];
 
       console.log("Executing query:", query, "with values:", values);
@@ -7245,6 +11758,55 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * قرار المشرف على تسجيل خارج نطاق الموقع - يُرجع undefined إذا لم يكن السجل بانتظار المراجعة
+   */
+  async reviewAttendanceLocation(
+    id: number,
+    decision: "approved" | "rejected",
+    reviewedBy: number,
+    scope?: DataScope,
+  ): Promise<Attendance | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [updated] = await db
+          .update(attendance)
+          .set({
+            location_review_status: decision,
+            location_reviewed_by: reviewedBy,
+            location_reviewed_at: new Date(),
+            updated_by: reviewedBy,
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(attendance.id, id),
+              eq(attendance.location_review_status, "pending"),
+              scopedUserCondition(attendance.user_id, scope),
+            ),
+          )
+          .returning();
+        return updated;
+      },
+      "مراجعة موقع تسجيل الحضور",
+      `السجل ${id}`,
+    );
+  }
+
+  async getAttendanceById(id: number): Promise<Attendance | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [record] = await db
+          .select()
+          .from(attendance)
+          .where(eq(attendance.id, id));
+        return record;
+      },
+      "جلب سجل الحضور",
+      `السجل ${id}`,
+    );
+  }
+
   async deleteAttendance(id: number): Promise<void> {
     try {
       await pool.query("DELETE FROM attendance WHERE id = $1", [id]);
@@ -7254,6 +11816,328 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getAttendanceBetween(
+    from: string,
+    to: string,
+    filters: { userId?: number; scope?: DataScope } = {},
+  ): Promise<Attendance[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db
+          .select()
+          .from(attendance)
+          .where(
+            and(
+              gte(attendance.date, from),
+              lte(attendance.date, to),
+              filters.userId ? eq(attendance.user_id, filters.userId) : undefined,
+              scopedUserCondition(attendance.user_id, filters.scope),
+            ),
+          )
+          .orderBy(attendance.date, attendance.created_at);
+      },
+      "جلب سجلات الحضور للفترة",
+      `${from} - ${to}`,
+    );
+  }
+
+  async getCompanyProfile(): Promise<CompanyProfile | undefined> {
+    const [profile] = await db.select().from(company_profile).limit(1);
+    return profile || undefined;
+  }
+
+  // ============ Shift Templates & Rosters ============
+  async getShiftTemplates(
+    filters: { activeOnly?: boolean } = {},
+  ): Promise<ShiftTemplate[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db
+          .select()
+          .from(shift_templates)
+          .where(
+            filters.activeOnly ? eq(shift_templates.is_active, true) : undefined,
+          )
+          .orderBy(shift_templates.start_time);
+      },
+      "جلب قوالب الورديات",
+    );
+  }
+
+  async createShiftTemplate(
+    template: InsertShiftTemplate,
+  ): Promise<ShiftTemplate> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [created] = await db
+          .insert(shift_templates)
+          .values(template)
+          .returning();
+        return created;
+      },
+      "إنشاء قالب وردية",
+      template.name,
+    );
+  }
+
+  async updateShiftTemplate(
+    id: number,
+    updates: Partial<InsertShiftTemplate>,
+  ): Promise<ShiftTemplate | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [updated] = await db
+          .update(shift_templates)
+          .set(updates)
+          .where(eq(shift_templates.id, id))
+          .returning();
+        return updated;
+      },
+      "تحديث قالب الوردية",
+      `الوردية ${id}`,
+    );
+  }
+
+  async deleteShiftTemplate(id: number): Promise<void> {
+    return withDatabaseErrorHandling(
+      async () => {
+        await db.delete(shift_templates).where(eq(shift_templates.id, id));
+      },
+      "حذف قالب الوردية",
+      `الوردية ${id}`,
+    );
+  }
+
+  async getUserShifts(
+    filters: {
+      userId?: number;
+      from?: string;
+      to?: string;
+      scope?: DataScope;
+    } = {},
+  ): Promise<UserShiftListItem[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db
+          .select({
+            ...getTableColumns(user_shifts),
+            user_name: sql<
+              string | null
+            >`COALESCE(${users.display_name_ar}, ${users.display_name}, ${users.username})`,
+            section_id: users.section_id,
+            shift_name: sql<string>`COALESCE(${shift_templates.name_ar}, ${shift_templates.name})`,
+          })
+          .from(user_shifts)
+          .innerJoin(users, eq(user_shifts.user_id, users.id))
+          .innerJoin(
+            shift_templates,
+            eq(user_shifts.shift_template_id, shift_templates.id),
+          )
+          .where(
+            and(
+              filters.userId ? eq(user_shifts.user_id, filters.userId) : undefined,
+              // الجدولة السارية خلال الفترة المطلوبة
+              filters.to ? lte(user_shifts.effective_from, filters.to) : undefined,
+              filters.from
+                ? or(
+                    isNull(user_shifts.effective_to),
+                    gte(user_shifts.effective_to, filters.from),
+                  )
+                : undefined,
+              scopedUserCondition(user_shifts.user_id, filters.scope),
+            ),
+          )
+          .orderBy(users.username, desc(user_shifts.effective_from));
+      },
+      "جلب جدولة الورديات",
+    );
+  }
+
+  async createUserShift(
+    shift: InsertUserShift,
+    createdBy: number,
+  ): Promise<UserShift> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [created] = await db
+          .insert(user_shifts)
+          .values({ ...shift, created_by: createdBy })
+          .returning();
+        return created;
+      },
+      "إنشاء جدولة وردية",
+      `للموظف ${shift.user_id}`,
+    );
+  }
+
+  async updateUserShift(
+    id: number,
+    updates: Partial<InsertUserShift>,
+  ): Promise<UserShift | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [updated] = await db
+          .update(user_shifts)
+          .set(updates)
+          .where(eq(user_shifts.id, id))
+          .returning();
+        return updated;
+      },
+      "تحديث جدولة الوردية",
+      `الجدولة ${id}`,
+    );
+  }
+
+  async deleteUserShift(id: number): Promise<void> {
+    return withDatabaseErrorHandling(
+      async () => {
+        await db.delete(user_shifts).where(eq(user_shifts.id, id));
+      },
+      "حذف جدولة الوردية",
+      `الجدولة ${id}`,
+    );
+  }
+
+  // ============ Payroll Periods ============
+  async getEmployeeViolationsBetween(
+    from: string,
+    to: string,
+  ): Promise<Violation[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db
+          .select()
+          .from(violations)
+          .where(and(gte(violations.date, from), lte(violations.date, to)))
+          .orderBy(violations.date);
+      },
+      "جلب مخالفات الموظفين للفترة",
+      `${from} - ${to}`,
+    );
+  }
+
+  async getPayrollPeriods(): Promise<PayrollPeriod[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db
+          .select()
+          .from(payroll_periods)
+          .orderBy(desc(payroll_periods.month));
+      },
+      "جلب فترات الرواتب",
+    );
+  }
+
+  async getPayrollPeriod(month: string): Promise<PayrollPeriod | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [period] = await db
+          .select()
+          .from(payroll_periods)
+          .where(eq(payroll_periods.month, month));
+        return period;
+      },
+      "جلب فترة الرواتب",
+      month,
+    );
+  }
+
+  async getPayrollPeriodLines(
+    periodId: number,
+    scope?: DataScope,
+  ): Promise<PayrollPeriodLine[]> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db
+          .select()
+          .from(payroll_period_lines)
+          .where(
+            and(
+              eq(payroll_period_lines.period_id, periodId),
+              scopedUserCondition(payroll_period_lines.user_id, scope),
+            ),
+          )
+          .orderBy(payroll_period_lines.section_name, payroll_period_lines.user_name);
+      },
+      "جلب ملخص رواتب الفترة",
+      `الفترة ${periodId}`,
+    );
+  }
+
+  /**
+   * إقفال فترة الرواتب وحفظ ملخص كل موظف - إعادة الإقفال بعد الفتح تستبدل الملخص السابق
+   * يُرجع undefined إذا كانت الفترة مقفلة بالفعل
+   */
+  async closePayrollPeriod(
+    period: InsertPayrollPeriod,
+    lines: Omit<InsertPayrollPeriodLine, "period_id">[],
+  ): Promise<PayrollPeriod | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        return await db.transaction(async (tx) => {
+          const values = {
+            ...period,
+            status: "closed",
+            employee_count: lines.length,
+            closed_at: new Date(),
+            reopened_by: null,
+            reopened_at: null,
+          };
+          const [closed] = await tx
+            .insert(payroll_periods)
+            .values(values)
+            .onConflictDoUpdate({
+              target: payroll_periods.month,
+              set: values,
+              where: sql`${payroll_periods.status} <> 'closed'`,
+            })
+            .returning();
+          // الفترة مقفلة بالفعل
+          if (!closed) return undefined;
+
+          await tx
+            .delete(payroll_period_lines)
+            .where(eq(payroll_period_lines.period_id, closed.id));
+          if (lines.length > 0) {
+            await tx
+              .insert(payroll_period_lines)
+              .values(lines.map((line) => ({ ...line, period_id: closed.id })));
+          }
+          return closed;
+        });
+      },
+      "إقفال فترة الرواتب",
+      period.month,
+    );
+  }
+
+  async reopenPayrollPeriod(
+    month: string,
+    reopenedBy: number,
+  ): Promise<PayrollPeriod | undefined> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const [reopened] = await db
+          .update(payroll_periods)
+          .set({
+            status: "reopened",
+            reopened_by: reopenedBy,
+            reopened_at: new Date(),
+          })
+          .where(
+            and(
+              eq(payroll_periods.month, month),
+              eq(payroll_periods.status, "closed"),
+            ),
+          )
+          .returning();
+        return reopened;
+      },
+      "إعادة فتح فترة الرواتب",
+      month,
+    );
+  }
+
   // User Management
   async getUserById(id: number): Promise<User | undefined> {
     // DEPRECATED: This method returns sensitive data including passwords
@@ -9000,9 +13884,58 @@ export class DatabaseStorage implements IStorage {
       `رقم ${id}`,
     );
   }
+
+  // ============ Audit Trail ============
+
+  async getAuditLogs(
+    filters: AuditLogFilters = {},
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    return withDatabaseErrorHandling(
+      async () => {
+        const conditions = and(
+          filters.userId !== undefined
+            ? eq(audit_logs.user_id, filters.userId)
+            : undefined,
+          filters.tableName
+            ? eq(audit_logs.table_name, filters.tableName)
+            : undefined,
+          filters.recordId
+            ? eq(audit_logs.record_id, filters.recordId)
+            : undefined,
+          filters.action ? eq(audit_logs.action, filters.action) : undefined,
+          filters.dateFrom
+            ? sql`${audit_logs.created_at} >= ${filters.dateFrom}::date`
+            : undefined,
+          // تاريخ النهاية شامل لليوم كاملاً
+          filters.dateTo
+            ? sql`${audit_logs.created_at} < ${filters.dateTo}::date + interval '1 day'`
+            : undefined,
+        );
+
+        const [entries, [{ total }]] = await Promise.all([
+          db
+            .select({
+              ...getTableColumns(audit_logs),
+              user_name: sql<string | null>`COALESCE(${users.display_name_ar}, ${users.display_name}, ${users.username})`,
+            })
+            .from(audit_logs)
+            .leftJoin(users, eq(audit_logs.user_id, users.id))
+            .where(conditions)
+            .orderBy(desc(audit_logs.created_at), desc(audit_logs.id))
+            .limit(Math.min(filters.limit || 100, 500))
+            .offset(filters.offset || 0),
+          db.select({ total: count() }).from(audit_logs).where(conditions),
+        ]);
+
+        return { entries, total: Number(total) };
+      },
+      "جلب سجل التدقيق",
+      "سجل التدقيق",
+    );
+  }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = withAuditTrail(new DatabaseStorage());
 
 // Export function to set notification manager from external modules
 export { setNotificationManager };
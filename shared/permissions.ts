@@ -10,6 +10,29 @@ export type PermissionKey =
   | 'view_home'
   | 'view_dashboard'
   | 'view_user_dashboard'
+  | 'view_reports'
+  | 'export_reports'
+  | 'view_audit_log'
+  | 'view_notifications'
+  | 'view_system_health'
+  | 'manage_analytics'
+  | 'view_production_monitoring'
+  | 'manage_whatsapp'
+  // Per-resource CRUD keys (see PERMISSION_RESOURCES)
+  | 'view_orders' | 'create_orders' | 'update_orders' | 'delete_orders' | 'approve_orders' | 'export_orders'
+  | 'view_production' | 'create_production' | 'update_production' | 'delete_production' | 'approve_production' | 'export_production'
+  | 'view_maintenance' | 'create_maintenance' | 'update_maintenance' | 'delete_maintenance' | 'approve_maintenance' | 'export_maintenance'
+  | 'view_quality' | 'create_quality' | 'update_quality' | 'delete_quality' | 'approve_quality' | 'export_quality'
+  | 'view_inventory' | 'create_inventory' | 'update_inventory' | 'delete_inventory' | 'approve_inventory' | 'export_inventory'
+  | 'view_warehouse' | 'create_warehouse' | 'update_warehouse' | 'delete_warehouse' | 'export_warehouse'
+  | 'view_purchasing' | 'create_purchasing' | 'update_purchasing' | 'delete_purchasing' | 'approve_purchasing' | 'export_purchasing'
+  | 'view_hr' | 'create_hr' | 'update_hr' | 'delete_hr' | 'approve_hr' | 'export_hr'
+  | 'view_users' | 'create_users' | 'update_users' | 'delete_users'
+  | 'view_definitions' | 'create_definitions' | 'update_definitions' | 'delete_definitions' | 'export_definitions'
+  | 'view_roles' | 'create_roles' | 'update_roles' | 'delete_roles'
+  | 'view_settings' | 'update_settings'
+  | 'view_alerts' | 'create_alerts' | 'update_alerts' | 'delete_alerts'
+  // Legacy single keys, kept so un-migrated roles keep working (see LEGACY_PERMISSION_EXPANSION)
   | 'manage_orders'
   | 'manage_production'
   | 'manage_maintenance'
@@ -18,25 +41,43 @@ export type PermissionKey =
   | 'manage_warehouse'
   | 'manage_users'
   | 'manage_hr'
-  | 'view_reports'
   | 'manage_settings'
   | 'manage_definitions'
   | 'manage_roles'
-  | 'view_production'
-  | 'view_hr'
-  | 'view_quality'
-  | 'view_maintenance'
-  | 'view_inventory'
-  | 'view_warehouse'
-  | 'view_notifications'
-  | 'view_alerts'
   | 'manage_alerts'
-  | 'view_system_health'
-  | 'manage_analytics'
-  | 'view_production_monitoring'
-  | 'manage_whatsapp'
   | 'admin'; // Super admin permission
 
+export type PermissionAction =
+  | 'view'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'approve'
+  | 'export';
+
+export type PermissionResourceId =
+  | 'orders'
+  | 'production'
+  | 'maintenance'
+  | 'quality'
+  | 'inventory'
+  | 'warehouse'
+  | 'purchasing'
+  | 'hr'
+  | 'users'
+  | 'definitions'
+  | 'roles'
+  | 'settings'
+  | 'alerts';
+
+export interface PermissionResource {
+  id: PermissionResourceId;
+  name: string;
+  name_ar: string;
+  category: string;
+  actions: PermissionAction[];
+}
+
 export interface Permission {
   id: PermissionKey;
   name: string;
@@ -45,6 +86,77 @@ export interface Permission {
   description?: string;
 }
 
+// Actions shown as columns of the permission matrix
+export const PERMISSION_ACTIONS: Record<
+  PermissionAction,
+  { name: string; name_ar: string }
+> = {
+  view: { name: 'View', name_ar: 'عرض' },
+  create: { name: 'Create', name_ar: 'إضافة' },
+  update: { name: 'Update', name_ar: 'تعديل' },
+  delete: { name: 'Delete', name_ar: 'حذف' },
+  approve: { name: 'Approve', name_ar: 'اعتماد' },
+  export: { name: 'Export', name_ar: 'تصدير' },
+};
+
+const ALL_ACTIONS: PermissionAction[] = ['view', 'create', 'update', 'delete', 'approve', 'export'];
+const CRUD_ACTIONS: PermissionAction[] = ['view', 'create', 'update', 'delete'];
+
+// Resources shown as rows of the permission matrix, with the actions each supports
+// الموارد التي تظهر كصفوف في مصفوفة الصلاحيات مع الإجراءات المتاحة لكل منها
+export const PERMISSION_RESOURCES: PermissionResource[] = [
+  { id: 'orders', name: 'Orders', name_ar: 'الطلبات', category: 'الطلبات', actions: ALL_ACTIONS },
+  { id: 'production', name: 'Production', name_ar: 'الإنتاج', category: 'الإنتاج', actions: ALL_ACTIONS },
+  { id: 'maintenance', name: 'Maintenance', name_ar: 'الصيانة', category: 'الصيانة', actions: ALL_ACTIONS },
+  { id: 'quality', name: 'Quality', name_ar: 'الجودة', category: 'الجودة', actions: ALL_ACTIONS },
+  { id: 'inventory', name: 'Inventory', name_ar: 'المخزون', category: 'المخزون', actions: [...CRUD_ACTIONS, 'approve', 'export'] },
+  { id: 'warehouse', name: 'Warehouse', name_ar: 'المستودع', category: 'المخزون', actions: [...CRUD_ACTIONS, 'export'] },
+  { id: 'purchasing', name: 'Purchasing', name_ar: 'المشتريات', category: 'المخزون', actions: ALL_ACTIONS },
+  { id: 'hr', name: 'HR', name_ar: 'الموارد البشرية', category: 'الموارد البشرية', actions: ALL_ACTIONS },
+  { id: 'users', name: 'Users', name_ar: 'المستخدمين', category: 'المستخدمين', actions: CRUD_ACTIONS },
+  { id: 'definitions', name: 'Definitions', name_ar: 'التعريفات', category: 'النظام', actions: [...CRUD_ACTIONS, 'export'] },
+  { id: 'roles', name: 'Roles', name_ar: 'الأدوار', category: 'النظام', actions: CRUD_ACTIONS },
+  { id: 'settings', name: 'Settings', name_ar: 'الإعدادات', category: 'النظام', actions: ['view', 'update'] },
+  { id: 'alerts', name: 'Alerts', name_ar: 'التنبيهات', category: 'المراقبة', actions: CRUD_ACTIONS },
+];
+
+export function permissionKeyFor(
+  action: PermissionAction,
+  resource: PermissionResourceId
+): PermissionKey {
+  return `${action}_${resource}` as PermissionKey;
+}
+
+export function resourcePermissionKeys(resource: PermissionResourceId): PermissionKey[] {
+  const definition = PERMISSION_RESOURCES.find(r => r.id === resource);
+  return (definition?.actions || []).map(action => permissionKeyFor(action, resource));
+}
+
+// Legacy manage_* keys and the granular keys they stand for.
+// Used by the role migration and to keep roles saved with the old keys working
+export const LEGACY_PERMISSION_EXPANSION: Partial<Record<PermissionKey, PermissionKey[]>> = {
+  manage_orders: resourcePermissionKeys('orders'),
+  manage_production: resourcePermissionKeys('production'),
+  manage_maintenance: resourcePermissionKeys('maintenance'),
+  manage_quality: resourcePermissionKeys('quality'),
+  manage_inventory: resourcePermissionKeys('inventory'),
+  manage_warehouse: resourcePermissionKeys('warehouse'),
+  manage_hr: resourcePermissionKeys('hr'),
+  manage_users: resourcePermissionKeys('users'),
+  manage_definitions: resourcePermissionKeys('definitions'),
+  manage_roles: resourcePermissionKeys('roles'),
+  manage_settings: resourcePermissionKeys('settings'),
+  manage_alerts: resourcePermissionKeys('alerts'),
+};
+
+// Replace legacy keys with their granular equivalents (duplicates removed)
+export function expandPermissions(permissions: string[]): string[] {
+  const expanded = permissions.flatMap(
+    p => LEGACY_PERMISSION_EXPANSION[p as PermissionKey] || [p]
+  );
+  return Array.from(new Set(expanded));
+}
+
 // Define all available permissions
 export const PERMISSIONS: Permission[] = [
   // General
@@ -77,118 +189,6 @@ export const PERMISSIONS: Permission[] = [
     description: 'View system notifications'
   },
   
-  // Orders
-  { 
-    id: 'manage_orders', 
-    name: 'Manage Orders', 
-    name_ar: 'إدارة الطلبات', 
-    category: 'الطلبات',
-    description: 'Create, edit, delete orders'
-  },
-  
-  // Production
-  { 
-    id: 'view_production', 
-    name: 'View Production', 
-    name_ar: 'عرض الإنتاج', 
-    category: 'الإنتاج',
-    description: 'View production data and queues'
-  },
-  { 
-    id: 'manage_production', 
-    name: 'Manage Production', 
-    name_ar: 'إدارة الإنتاج', 
-    category: 'الإنتاج',
-    description: 'Create and manage production orders'
-  },
-  
-  // Maintenance
-  { 
-    id: 'view_maintenance', 
-    name: 'View Maintenance', 
-    name_ar: 'عرض الصيانة', 
-    category: 'الصيانة',
-    description: 'View maintenance reports'
-  },
-  { 
-    id: 'manage_maintenance', 
-    name: 'Manage Maintenance', 
-    name_ar: 'إدارة الصيانة', 
-    category: 'الصيانة',
-    description: 'Create and manage maintenance requests'
-  },
-  
-  // Quality
-  { 
-    id: 'view_quality', 
-    name: 'View Quality', 
-    name_ar: 'عرض الجودة', 
-    category: 'الجودة',
-    description: 'View quality reports'
-  },
-  { 
-    id: 'manage_quality', 
-    name: 'Manage Quality', 
-    name_ar: 'إدارة الجودة', 
-    category: 'الجودة',
-    description: 'Manage quality control and reports'
-  },
-  
-  // Inventory & Warehouse
-  { 
-    id: 'view_inventory', 
-    name: 'View Inventory', 
-    name_ar: 'عرض المخزون', 
-    category: 'المخزون',
-    description: 'View inventory levels'
-  },
-  { 
-    id: 'manage_inventory', 
-    name: 'Manage Inventory', 
-    name_ar: 'إدارة المخزون', 
-    category: 'المخزون',
-    description: 'Manage inventory and warehouse'
-  },
-  { 
-    id: 'view_warehouse', 
-    name: 'View Warehouse', 
-    name_ar: 'عرض المستودع', 
-    category: 'المخزون',
-    description: 'View warehouse data'
-  },
-  { 
-    id: 'manage_warehouse', 
-    name: 'Manage Warehouse', 
-    name_ar: 'إدارة المستودع', 
-    category: 'المخزون',
-    description: 'Manage warehouse operations'
-  },
-  
-  // Users
-  { 
-    id: 'manage_users', 
-    name: 'Manage Users', 
-    name_ar: 'إدارة المستخدمين', 
-    category: 'المستخدمين',
-    description: 'Create, edit, delete users'
-  },
-  
-  // HR
-  { 
-    id: 'view_hr', 
-    name: 'View HR', 
-    name_ar: 'عرض الموارد البشرية', 
-    category: 'الموارد البشرية',
-    description: 'View HR data and attendance'
-  },
-  { 
-    id: 'manage_hr', 
-    name: 'Manage HR', 
-    name_ar: 'إدارة الموارد البشرية', 
-    category: 'الموارد البشرية',
-    description: 'Manage HR, attendance, and training'
-  },
-  
   // Reports & Analytics
   { 
     id: 'view_reports', 
@@ -197,6 +197,13 @@ export const PERMISSIONS: Permission[] = [
     category: 'التقارير',
     description: 'View system reports and analytics'
   },
+  { 
+    id: 'export_reports', 
+    name: 'Export Reports', 
+    name_ar: 'تصدير التقارير', 
+    category: 'التقارير',
+    description: 'Export reports to Excel and PDF'
+  },
   { 
     id: 'manage_analytics', 
     name: 'Manage Analytics', 
@@ -212,21 +219,7 @@ export const PERMISSIONS: Permission[] = [
     description: 'View real-time production monitoring'
   },
   
-  // Alerts & Monitoring
-  { 
-    id: 'view_alerts', 
-    name: 'View Alerts', 
-    name_ar: 'عرض التنبيهات', 
-    category: 'المراقبة',
-    description: 'View system alerts'
-  },
-  { 
-    id: 'manage_alerts', 
-    name: 'Manage Alerts', 
-    name_ar: 'إدارة التنبيهات', 
-    category: 'المراقبة',
-    description: 'Manage system alerts and rules'
-  },
+  // Monitoring
   { 
     id: 'view_system_health', 
     name: 'View System Health', 
@@ -237,25 +230,11 @@ export const PERMISSIONS: Permission[] = [
   
   // System
   { 
-    id: 'manage_settings', 
-    name: 'Manage Settings', 
-    name_ar: 'إدارة الإعدادات', 
-    category: 'النظام',
-    description: 'Modify system settings'
-  },
-  { 
-    id: 'manage_definitions', 
-    name: 'Manage Definitions', 
-    name_ar: 'إدارة التعريفات', 
+    id: 'view_audit_log', 
+    name: 'View Audit Log', 
+    name_ar: 'عرض سجل التدقيق', 
     category: 'النظام',
-    description: 'Manage system definitions and master data'
-  },
-  { 
-    id: 'manage_roles', 
-    name: 'Manage Roles', 
-    name_ar: 'إدارة الأدوار', 
-    category: 'النظام',
-    description: 'Create and modify user roles'
+    description: 'View the history of changes made to records'
   },
   
   // WhatsApp Integration
@@ -267,6 +246,16 @@ export const PERMISSIONS: Permission[] = [
     description: 'Manage WhatsApp integration and settings'
   },
   
+  // Per-resource CRUD keys
+  ...PERMISSION_RESOURCES.flatMap((resource) =>
+    resource.actions.map((action) => ({
+      id: permissionKeyFor(action, resource.id),
+      name: `${PERMISSION_ACTIONS[action].name} ${resource.name}`,
+      name_ar: `${PERMISSION_ACTIONS[action].name_ar} ${resource.name_ar}`,
+      category: resource.category,
+    }))
+  ),
+  
   // Admin
   { 
     id: 'admin', 
@@ -281,20 +270,22 @@ export const PERMISSIONS: Permission[] = [
 export const ROUTE_PERMISSIONS: Record<string, PermissionKey[]> = {
   '/': ['view_home', 'view_dashboard'],
   '/dashboard': ['view_dashboard'],
-  '/orders': ['manage_orders'],
-  '/production': ['view_production', 'manage_production'],
-  '/maintenance': ['view_maintenance', 'manage_maintenance'],
-  '/quality': ['view_quality', 'manage_quality'],
-  '/warehouse': ['view_warehouse', 'manage_warehouse'],
-  '/inventory': ['view_inventory', 'manage_inventory'],
-  '/hr': ['view_hr', 'manage_hr'],
+  '/orders': ['view_orders'],
+  '/production': ['view_production'],
+  '/maintenance': ['view_maintenance'],
+  '/quality': ['view_quality'],
+  '/production-schedule': ['view_production'],
+  '/trace': ['view_production', 'view_quality'],
+  '/warehouse': ['view_warehouse'],
+  '/inventory': ['view_inventory'],
+  '/hr': ['view_hr'],
   '/reports': ['view_reports'],
-  '/settings': ['manage_settings', 'admin'],
-  '/definitions': ['manage_definitions'],
-  '/users': ['manage_users'],
+  '/settings': ['view_settings', 'admin'],
+  '/definitions': ['view_definitions'],
+  '/users': ['view_users'],
   '/user-dashboard': ['view_user_dashboard'],
   '/notifications': ['view_notifications'],
-  '/alerts': ['view_alerts', 'manage_alerts'],
+  '/alerts': ['view_alerts'],
   '/system-health': ['view_system_health'],
   '/ml-analytics': ['manage_analytics'],
   '/production-monitoring': ['view_production_monitoring'],
@@ -307,15 +298,15 @@ export const ROUTE_PERMISSIONS: Record<string, PermissionKey[]> = {
   '/twilio-content': ['manage_whatsapp'],
   '/whatsapp-template-test': ['manage_whatsapp'],
   '/whatsapp-webhooks': ['manage_whatsapp'],
-   '/tools': ['view_production', 'manage_production'],
+   '/tools': ['view_production'],
 };
 
 // Settings tabs permissions
 export const SETTINGS_TAB_PERMISSIONS: Record<string, PermissionKey[]> = {
-  'general': ['manage_settings', 'admin'],
-  'system': ['manage_settings', 'admin'],
+  'general': ['view_settings', 'admin'],
+  'system': ['view_settings', 'admin'],
   'database': ['admin'],
-  'roles': ['manage_roles', 'admin'],
+  'roles': ['view_roles', 'admin'],
   'user': [], // All users can access their own settings
 };
 
@@ -330,16 +321,17 @@ export function hasPermission(
   // Admin has all permissions
   if (userPermissions.includes('admin')) return true;
   
+  const granted = expandPermissions(userPermissions);
   const required = Array.isArray(requiredPermissions) 
     ? requiredPermissions 
     : [requiredPermissions];
   
   if (requireAll) {
     // User must have ALL required permissions
-    return required.every(perm => userPermissions.includes(perm));
+    return required.every(perm => granted.includes(perm));
   } else {
     // User needs at least ONE of the required permissions
-    return required.some(perm => userPermissions.includes(perm));
+    return required.some(perm => granted.includes(perm));
   }
 }
 
@@ -373,4 +365,38 @@ export const PERMISSION_CATEGORIES = [
   'المراقبة',
   'التكامل',
   'النظام'
-];
\ No newline at end of file
+];
+// Data scoping - which records a role sees on top of its permission keys
+// نطاق البيانات: السجلات التي يراها الدور بالإضافة إلى مفاتيح الصلاحيات
+export type DataScopeLevel = 'all' | 'section' | 'own';
+
+export const DATA_SCOPE_LEVELS: {
+  id: DataScopeLevel;
+  name_ar: string;
+  description: string;
+}[] = [
+  {
+    id: 'all',
+    name_ar: 'جميع السجلات',
+    description: 'No record restriction beyond the permission keys',
+  },
+  {
+    id: 'section',
+    name_ar: 'القسم فقط',
+    description:
+      'HR and attendance of users in the same section; customers and orders of sales reps in the same section',
+  },
+  {
+    id: 'own',
+    name_ar: 'السجلات الخاصة فقط',
+    description:
+      'Own HR and attendance records; customers and orders where the user is the sales rep',
+  },
+];
+
+// Resolved scope of a signed-in user (absent = unrestricted)
+export interface DataScope {
+  level: Exclude<DataScopeLevel, 'all'>;
+  userId: number;
+  sectionId: number | null;
+}
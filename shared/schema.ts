@@ -11,6 +11,7 @@ import {
   text,
   decimal,
   check,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -94,6 +95,8 @@ export const roles = pgTable("roles", {
   name: varchar("name", { length: 50 }).notNull(),
   name_ar: varchar("name_ar", { length: 100 }),
   permissions: json("permissions").$type<string[]>(),
+  require_two_factor: boolean("require_two_factor").notNull().default(false), // التحقق بخطوتين إلزامي لمستخدمي هذا الدور
+  data_scope: varchar("data_scope", { length: 20 }).notNull().default("all"), // all / section / own - نطاق السجلات المرئية
 });
 
 // 📁 جدول الأقسام
@@ -116,10 +119,53 @@ export const users = pgTable("users", {
   email: varchar("email", { length: 100 }),
   role_id: integer("role_id").references(() => roles.id),
   section_id: integer("section_id"),
+  attendance_location_id: varchar("attendance_location_id", {
+    length: 20,
+  }).references(() => locations.id, { onDelete: "set null" }), // موقع العمل المعتمد لتسجيل الحضور (النطاق الجغرافي)
   status: varchar("status", { length: 20 }).default("active"), // active / suspended / deleted
+  must_change_password: boolean("must_change_password")
+    .notNull()
+    .default(false), // يُجبر المستخدم على تغيير كلمة المرور عند الدخول التالي
+  password_changed_at: timestamp("password_changed_at"),
+  two_factor_enabled: boolean("two_factor_enabled").notNull().default(false),
+  two_factor_secret: varchar("two_factor_secret", { length: 64 }), // مفتاح TOTP بترميز Base32
+  two_factor_recovery_codes: json("two_factor_recovery_codes").$type<string[]>(), // تجزئات SHA-256 لرموز الاسترداد غير المستخدمة
   created_at: timestamp("created_at").defaultNow(),
 });
 
+// 🔐 جدول محاولات تسجيل الدخول - لإيقاف الحساب / العنوان مؤقتاً بعد محاولات فاشلة متكررة
+export const login_attempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: varchar("username", { length: 50 }).notNull(), // بأحرف صغيرة
+  ip_address: varchar("ip_address", { length: 64 }).notNull(),
+  user_id: integer("user_id").references(() => users.id, {
+    onDelete: "set null",
+  }), // NULL إذا كان اسم المستخدم غير موجود
+  success: boolean("success").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+// 🔑 جدول مفاتيح الوصول البرمجي - للموازين وطابعات الملصقات وأنظمة ERP الخارجية
+export const api_tokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }), // المستخدم الذي يعمل المفتاح باسمه
+  name: varchar("name", { length: 100 }).notNull(),
+  token_type: varchar("token_type", { length: 20 }).notNull().default("personal"), // personal / service
+  token_prefix: varchar("token_prefix", { length: 16 }).notNull(), // أول أحرف المفتاح للتعرف عليه في القائمة
+  token_hash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 - المفتاح نفسه لا يُحفظ
+  scopes: json("scopes").$type<string[]>().notNull(), // مفاتيح PermissionKey المسموحة
+  expires_at: timestamp("expires_at"), // NULL = بدون انتهاء
+  last_used_at: timestamp("last_used_at"),
+  last_used_ip: varchar("last_used_ip", { length: 64 }),
+  revoked_at: timestamp("revoked_at"),
+  created_by: integer("created_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
 // 📋 جدول طلبات المستخدمين
 export const user_requests = pgTable("user_requests", {
   id: serial("id").primaryKey(),
@@ -151,6 +197,21 @@ export const attendance = pgTable("attendance", {
   lunch_start_time: timestamp("lunch_start_time"),
   lunch_end_time: timestamp("lunch_end_time"),
   notes: text("notes"),
+  // 📍 موقع الجهاز عند تسجيل الحضور / الانصراف
+  latitude: decimal("latitude", { precision: 10, scale: 7 }),
+  longitude: decimal("longitude", { precision: 10, scale: 7 }),
+  location_accuracy_m: integer("location_accuracy_m"),
+  location_id: varchar("location_id", { length: 20 }).references(
+    () => locations.id,
+    { onDelete: "set null" },
+  ), // موقع العمل الذي تم التحقق منه
+  location_distance_m: integer("location_distance_m"),
+  location_status: varchar("location_status", { length: 20 }), // inside / outside / unavailable - NULL = بدون تحقق
+  location_review_status: varchar("location_review_status", { length: 20 }), // pending / approved / rejected - NULL = لا يحتاج مراجعة
+  location_reviewed_by: integer("location_reviewed_by").references(
+    () => users.id,
+  ),
+  location_reviewed_at: timestamp("location_reviewed_at"),
   created_by: integer("created_by").references(() => users.id),
   updated_by: integer("updated_by").references(() => users.id),
   date: date("date")
@@ -160,6 +221,89 @@ export const attendance = pgTable("attendance", {
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// 🕘 جدول قوالب الورديات - أوقات الدوام وقواعد التأخير والاستراحة والعمل الإضافي
+export const shift_templates = pgTable("shift_templates", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  name_ar: varchar("name_ar", { length: 100 }),
+  start_time: varchar("start_time", { length: 5 }).notNull(), // HH:MM
+  end_time: varchar("end_time", { length: 5 }).notNull(), // HH:MM - أقل من وقت البداية = وردية ليلية تنتهي في اليوم التالي
+  break_minutes: integer("break_minutes").notNull().default(60), // مدة الاستراحة غير المدفوعة
+  late_grace_minutes: integer("late_grace_minutes").notNull().default(10), // سماحية التأخير قبل احتسابه
+  early_leave_grace_minutes: integer("early_leave_grace_minutes")
+    .notNull()
+    .default(10), // سماحية الخروج المبكر قبل احتسابه
+  overtime_min_minutes: integer("overtime_min_minutes").notNull().default(30), // أقل عمل إضافي يُحتسب
+  color: varchar("color", { length: 20 }).default("#3b82f6"),
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// 📅 جدول جدولة الورديات للموظفين
+export const user_shifts = pgTable("user_shifts", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  shift_template_id: integer("shift_template_id")
+    .notNull()
+    .references(() => shift_templates.id),
+  effective_from: date("effective_from").notNull(),
+  effective_to: date("effective_to"), // NULL = مستمرة
+  days_of_week: json("days_of_week").$type<number[]>().notNull(), // 0 = الأحد ... 6 = السبت
+  notes: text("notes"),
+  created_by: integer("created_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// 💵 جدول فترات الرواتب - إقفال الشهر يمنع تعديل الحضور ويحفظ ملخص الرواتب
+export const payroll_periods = pgTable("payroll_periods", {
+  id: serial("id").primaryKey(),
+  month: varchar("month", { length: 7 }).notNull().unique(), // YYYY-MM
+  period_start: date("period_start").notNull(),
+  period_end: date("period_end").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("closed"), // closed / reopened
+  employee_count: integer("employee_count").notNull().default(0),
+  notes: text("notes"),
+  closed_by: integer("closed_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  closed_at: timestamp("closed_at").notNull().defaultNow(),
+  reopened_by: integer("reopened_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  reopened_at: timestamp("reopened_at"),
+});
+
+// 📑 جدول ملخص الرواتب لكل موظف - لقطة وقت إقفال الفترة (لا تتغير بتعديل الحضور لاحقاً)
+export const payroll_period_lines = pgTable("payroll_period_lines", {
+  id: serial("id").primaryKey(),
+  period_id: integer("period_id")
+    .notNull()
+    .references(() => payroll_periods.id, { onDelete: "cascade" }),
+  user_id: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  user_name: varchar("user_name", { length: 100 }).notNull(),
+  section_name: varchar("section_name", { length: 100 }),
+  scheduled_days: integer("scheduled_days").notNull().default(0),
+  worked_days: integer("worked_days").notNull().default(0),
+  absent_days: integer("absent_days").notNull().default(0),
+  incomplete_days: integer("incomplete_days").notNull().default(0), // حضور بدون انصراف
+  paid_leave_days: integer("paid_leave_days").notNull().default(0),
+  unpaid_leave_days: integer("unpaid_leave_days").notNull().default(0),
+  late_days: integer("late_days").notNull().default(0),
+  late_minutes: integer("late_minutes").notNull().default(0),
+  early_leave_minutes: integer("early_leave_minutes").notNull().default(0),
+  worked_minutes: integer("worked_minutes").notNull().default(0),
+  overtime_minutes: integer("overtime_minutes").notNull().default(0),
+  violation_count: integer("violation_count").notNull().default(0),
+  deduction_count: integer("deduction_count").notNull().default(0), // مخالفات وتقارير إهمال بإجراء خصم
+  deduction_notes: text("deduction_notes"),
+});
+
 // 🧾 جدول العملاء
 export const customers = pgTable("customers", {
   id: varchar("id", { length: 20 }).primaryKey(), // Changed to varchar to match CID001 format
@@ -321,6 +465,16 @@ export const production_orders = pgTable(
     customer_product_id: integer("customer_product_id")
       .notNull()
       .references(() => customer_products.id, { onDelete: "restrict" }),
+    // وصفة الخلط المستخدمة لاستهلاك المواد الخام عند إنتاج الرولات
+    mixing_recipe_id: integer("mixing_recipe_id").references(
+      () => mixing_recipes.id,
+      { onDelete: "set null" },
+    ),
+    // إصدار الوصفة المثبت عند إنشاء أمر الإنتاج
+    mixing_recipe_version_id: integer("mixing_recipe_version_id").references(
+      () => mixing_recipe_versions.id,
+      { onDelete: "restrict" },
+    ),
 
     // كمية الإنتاج الأساسية
     quantity_kg: decimal("quantity_kg", { precision: 10, scale: 2 }).notNull(), // الكمية المطلوبة من الطلب
@@ -487,6 +641,7 @@ export const rolls = pgTable(
       onDelete: "set null",
     }), // ON DELETE SET NULL - user who cut the roll
     qr_code: varchar("qr_code", { length: 255 }), // Legacy field
+    qa_status: varchar("qa_status", { length: 20 }).notNull().default("ok"), // ENUM: ok / hold / rework / scrapped - hold blocks processing until QA disposition
     created_at: timestamp("created_at").notNull().defaultNow(),
     completed_at: timestamp("completed_at"), // Set when stage = 'done'
   },
@@ -510,6 +665,10 @@ export const rolls = pgTable(
       "stage_valid",
       sql`${table.stage} IN ('film', 'printing', 'cutting', 'done')`,
     ),
+    qaStatusValid: check(
+      "qa_status_valid",
+      sql`${table.qa_status} IN ('ok', 'hold', 'rework', 'scrapped')`,
+    ),
     // Temporal constraints: timestamps must be in logical order
     printedAtValid: check(
       "printed_at_valid",
@@ -539,6 +698,10 @@ export const cuts = pgTable("cuts", {
     scale: 3,
   }).notNull(),
   pieces_count: integer("pieces_count"),
+  cutting_machine_id: varchar("cutting_machine_id", { length: 20 }).references(
+    () => machines.id,
+    { onDelete: "restrict" },
+  ), // الرول قد يُقص على أكثر من ماكينة
   performed_by: integer("performed_by").references(() => users.id),
   created_at: timestamp("created_at").defaultNow(),
 });
@@ -558,6 +721,63 @@ export const warehouse_receipts = pgTable("warehouse_receipts", {
   created_at: timestamp("created_at").defaultNow(),
 });
 
+// 🚚 جدول الشحنات (إشعارات التسليم) - صرف البضاعة الجاهزة من المستودع للعميل
+export const shipments = pgTable(
+  "shipments",
+  {
+    id: serial("id").primaryKey(),
+    shipment_number: varchar("shipment_number", { length: 50 })
+      .notNull()
+      .unique(), // DN001, DN002, etc.
+    order_id: integer("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "restrict" }),
+    status: varchar("status", { length: 20 }).notNull().default("delivered"), // ENUM: delivered / cancelled
+    driver_name: varchar("driver_name", { length: 100 }).notNull(),
+    driver_phone: varchar("driver_phone", { length: 20 }),
+    vehicle_number: varchar("vehicle_number", { length: 30 }).notNull(),
+    delivery_address: text("delivery_address"),
+    notes: text("notes"),
+    shipped_at: timestamp("shipped_at").notNull().defaultNow(),
+    created_by: integer("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    cancelled_by: integer("cancelled_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    cancelled_at: timestamp("cancelled_at"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    statusValid: check(
+      "shipment_status_valid",
+      sql`${table.status} IN ('delivered', 'cancelled')`,
+    ),
+  }),
+);
+
+// 📦 بنود الشحنة - الكمية المسلمة من كل أمر إنتاج
+export const shipment_items = pgTable(
+  "shipment_items",
+  {
+    id: serial("id").primaryKey(),
+    shipment_id: integer("shipment_id")
+      .notNull()
+      .references(() => shipments.id, { onDelete: "cascade" }),
+    production_order_id: integer("production_order_id")
+      .notNull()
+      .references(() => production_orders.id, { onDelete: "restrict" }),
+    quantity_kg: decimal("quantity_kg", { precision: 12, scale: 3 }).notNull(), // CHECK: > 0, <= الكمية المستلمة غير المسلمة
+    notes: text("notes"),
+  },
+  (table) => ({
+    quantityPositive: check(
+      "shipment_item_quantity_positive",
+      sql`${table.quantity_kg} > 0`,
+    ),
+  }),
+);
+
 // ⚙️ جدول إعدادات الإنتاج (Production Settings)
 export const production_settings = pgTable("production_settings", {
   id: serial("id").primaryKey(),
@@ -571,8 +791,36 @@ export const production_settings = pgTable("production_settings", {
     .notNull()
     .default(true),
   qr_prefix: varchar("qr_prefix", { length: 32 }).notNull().default("ROLL"),
+  // نسبة الفاقد المضافة على استهلاك المواد الخام لكل رول
+  material_scrap_percent: decimal("material_scrap_percent", {
+    precision: 5,
+    scale: 2,
+  })
+    .notNull()
+    .default("0"),
 });
 
+// 🏷️ جدول أسباب الهدر (كتالوج قابل للتعديل لكل مرحلة)
+export const waste_reasons = pgTable(
+  "waste_reasons",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 30 }).notNull().unique(),
+    name: varchar("name", { length: 100 }).notNull(),
+    name_ar: varchar("name_ar", { length: 100 }).notNull(),
+    stage: varchar("stage", { length: 20 }).notNull(), // film / printing / cutting
+    is_active: boolean("is_active").notNull().default(true),
+    sort_order: integer("sort_order").notNull().default(0),
+    created_at: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    stageValid: check(
+      "waste_reason_stage_valid",
+      sql`${table.stage} IN ('film', 'printing', 'cutting')`,
+    ),
+  }),
+);
+
 // 🗑️ جدول الهدر
 export const waste = pgTable("waste", {
   id: serial("id").primaryKey(),
@@ -587,20 +835,162 @@ export const waste = pgTable("waste", {
     precision: 8,
     scale: 2,
   }).notNull(),
-  reason: varchar("reason", { length: 100 }),
-  stage: varchar("stage", { length: 50 }), // extruder / cutting / printing
+  reason_id: integer("reason_id").references(() => waste_reasons.id, {
+    onDelete: "set null",
+  }),
+  reason: varchar("reason", { length: 100 }), // نص السبب وقت التسجيل - يبقى عند حذف السبب من الكتالوج
+  stage: varchar("stage", { length: 50 }), // film / printing / cutting
+  machine_id: varchar("machine_id", { length: 20 }).references(
+    () => machines.id,
+    { onDelete: "set null" },
+  ),
+  recorded_by: integer("recorded_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
   created_at: timestamp("created_at").defaultNow(),
 });
 
+export const insertWasteReasonSchema = createInsertSchema(waste_reasons)
+  .omit({
+    id: true,
+    created_at: true,
+  })
+  .extend({
+    code: z
+      .string()
+      .trim()
+      .min(1, "رمز السبب مطلوب")
+      .max(30, "رمز السبب طويل جداً"),
+    name: z.string().trim().min(1, "الاسم الإنجليزي مطلوب"),
+    name_ar: z.string().trim().min(1, "الاسم العربي مطلوب"),
+    stage: z.enum(["film", "printing", "cutting"], {
+      errorMap: () => ({ message: "المرحلة يجب أن تكون فيلم أو طباعة أو تقطيع" }),
+    }),
+  });
+
+export type WasteReason = typeof waste_reasons.$inferSelect;
+export type InsertWasteReason = z.infer<typeof insertWasteReasonSchema>;
+export type Waste = typeof waste.$inferSelect;
+
+// 📐 خطط الفحص لكل منتج عميل ومرحلة
+export const quality_inspection_plans = pgTable(
+  "quality_inspection_plans",
+  {
+    id: serial("id").primaryKey(),
+    customer_product_id: integer("customer_product_id")
+      .notNull()
+      .references(() => customer_products.id, { onDelete: "cascade" }),
+    stage: varchar("stage", { length: 20 }).notNull(), // film / printing / cutting
+    name: varchar("name", { length: 100 }).notNull(),
+    is_active: boolean("is_active").notNull().default(true),
+    notes: text("notes"),
+    created_by: integer("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    created_at: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    stageValid: check(
+      "inspection_plan_stage_valid",
+      sql`${table.stage} IN ('film', 'printing', 'cutting')`,
+    ),
+  }),
+);
+
+// 📏 بنود خطة الفحص - القيمة الاسمية تؤخذ من منتج العميل عند عدم تحديدها
+export const quality_plan_items = pgTable("quality_plan_items", {
+  id: serial("id").primaryKey(),
+  plan_id: integer("plan_id")
+    .notNull()
+    .references(() => quality_inspection_plans.id, { onDelete: "cascade" }),
+  characteristic: varchar("characteristic", { length: 30 }).notNull(), // thickness / width / cutting_length / unit_weight / print_registration / seal_strength / other
+  name_ar: varchar("name_ar", { length: 100 }).notNull(),
+  unit: varchar("unit", { length: 20 }),
+  nominal_value: decimal("nominal_value", { precision: 12, scale: 3 }), // NULL = من منتج العميل
+  tolerance_minus: decimal("tolerance_minus", { precision: 12, scale: 3 }), // NULL = بدون حد أدنى
+  tolerance_plus: decimal("tolerance_plus", { precision: 12, scale: 3 }), // NULL = بدون حد أعلى
+  is_required: boolean("is_required").notNull().default(true),
+  sort_order: integer("sort_order").notNull().default(0),
+});
+
+// 🚫 أنواع العيوب
+export const quality_defect_types = pgTable(
+  "quality_defect_types",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 30 }).notNull().unique(),
+    name: varchar("name", { length: 100 }).notNull(),
+    name_ar: varchar("name_ar", { length: 100 }).notNull(),
+    severity: varchar("severity", { length: 20 }).notNull().default("major"), // minor / major / critical
+    is_active: boolean("is_active").notNull().default(true),
+    created_at: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    severityValid: check(
+      "defect_severity_valid",
+      sql`${table.severity} IN ('minor', 'major', 'critical')`,
+    ),
+  }),
+);
+
 // 🧪 جدول فحص الجودة
 export const quality_checks = pgTable("quality_checks", {
   id: serial("id").primaryKey(),
   target_type: varchar("target_type", { length: 20 }), // roll / material
   target_id: integer("target_id"),
-  result: varchar("result", { length: 10 }), // pass / fail
+  plan_id: integer("plan_id").references(() => quality_inspection_plans.id, {
+    onDelete: "set null",
+  }),
+  stage: varchar("stage", { length: 20 }), // film / printing / cutting
+  result: varchar("result", { length: 10 }), // pass / warning / fail
   score: integer("score"), // 1-5 stars
   notes: text("notes"),
   checked_by: integer("checked_by").references(() => users.id),
+  disposition: varchar("disposition", { length: 20 }), // release / rework / scrap - قرار الجودة على الفحص الراسب
+  disposition_notes: text("disposition_notes"),
+  disposed_by: integer("disposed_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  disposed_at: timestamp("disposed_at"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// 📊 القياسات المسجلة في الفحص مع حدود التفاوت وقت الفحص
+export const quality_check_measurements = pgTable(
+  "quality_check_measurements",
+  {
+    id: serial("id").primaryKey(),
+    check_id: integer("check_id")
+      .notNull()
+      .references(() => quality_checks.id, { onDelete: "cascade" }),
+    plan_item_id: integer("plan_item_id").references(
+      () => quality_plan_items.id,
+      { onDelete: "set null" },
+    ),
+    name_ar: varchar("name_ar", { length: 100 }).notNull(),
+    unit: varchar("unit", { length: 20 }),
+    measured_value: decimal("measured_value", {
+      precision: 12,
+      scale: 3,
+    }).notNull(),
+    min_value: decimal("min_value", { precision: 12, scale: 3 }),
+    max_value: decimal("max_value", { precision: 12, scale: 3 }),
+    is_required: boolean("is_required").notNull().default(true),
+    is_within_tolerance: boolean("is_within_tolerance").notNull(),
+  },
+);
+
+// 📷 العيوب المسجلة في الفحص مع الصور
+export const quality_check_defects = pgTable("quality_check_defects", {
+  id: serial("id").primaryKey(),
+  check_id: integer("check_id")
+    .notNull()
+    .references(() => quality_checks.id, { onDelete: "cascade" }),
+  defect_type_id: integer("defect_type_id")
+    .notNull()
+    .references(() => quality_defect_types.id, { onDelete: "restrict" }),
+  notes: text("notes"),
+  photos: json("photos").$type<string[]>(), // Base64 encoded image data
   created_at: timestamp("created_at").defaultNow(),
 });
 
@@ -840,9 +1230,132 @@ export const suppliers = pgTable("suppliers", {
   contact: varchar("contact", { length: 100 }),
   phone: varchar("phone", { length: 20 }),
   address: text("address"),
-  materials_supplied: json("materials_supplied").$type<number[]>(),
+  materials_supplied: json("materials_supplied").$type<string[]>(), // معرفات الأصناف (items.id)
+  email: varchar("email", { length: 100 }),
+  lead_time_days: integer("lead_time_days"), // مدة التوريد المتفق عليها بالأيام
+  is_active: boolean("is_active").notNull().default(true),
+});
+
+// 🧾 أوامر الشراء - PUR001, PUR002, etc.
+// دورة الحالة: draft → approved → partially_received → received (أو cancelled قبل أي استلام)
+export const purchase_orders = pgTable(
+  "purchase_orders",
+  {
+    id: serial("id").primaryKey(),
+    po_number: varchar("po_number", { length: 50 }).notNull().unique(),
+    supplier_id: integer("supplier_id")
+      .notNull()
+      .references(() => suppliers.id, { onDelete: "restrict" }),
+    status: varchar("status", { length: 30 }).notNull().default("draft"),
+    order_date: date("order_date").notNull().defaultNow(),
+    expected_delivery_date: date("expected_delivery_date"),
+    notes: text("notes"),
+    created_by: integer("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    approved_by: integer("approved_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    approved_at: timestamp("approved_at"),
+    cancelled_by: integer("cancelled_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    cancelled_at: timestamp("cancelled_at"),
+    received_at: timestamp("received_at"), // تاريخ اكتمال الاستلام - أساس إحصائيات مدة التوريد
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    statusValid: check(
+      "purchase_order_status_valid",
+      sql`${table.status} IN ('draft', 'approved', 'partially_received', 'received', 'cancelled')`,
+    ),
+  }),
+);
+
+// 📋 بنود أمر الشراء
+export const purchase_order_lines = pgTable(
+  "purchase_order_lines",
+  {
+    id: serial("id").primaryKey(),
+    purchase_order_id: integer("purchase_order_id")
+      .notNull()
+      .references(() => purchase_orders.id, { onDelete: "cascade" }),
+    item_id: varchar("item_id", { length: 20 })
+      .notNull()
+      .references(() => items.id, { onDelete: "restrict" }),
+    quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+    received_quantity: decimal("received_quantity", {
+      precision: 10,
+      scale: 2,
+    })
+      .notNull()
+      .default("0"),
+    unit: varchar("unit", { length: 20 }).notNull().default("كيلو"),
+    unit_price: decimal("unit_price", { precision: 10, scale: 4 }).notNull(),
+    notes: text("notes"),
+  },
+  (table) => ({
+    quantityPositive: check(
+      "purchase_order_line_quantity_positive",
+      sql`${table.quantity} > 0`,
+    ),
+    receivedValid: check(
+      "purchase_order_line_received_valid",
+      sql`${table.received_quantity} >= 0 AND ${table.received_quantity} <= ${table.quantity}`,
+    ),
+    unitPriceNonNegative: check(
+      "purchase_order_line_unit_price_non_negative",
+      sql`${table.unit_price} >= 0`,
+    ),
+  }),
+);
+
+// 📥 سندات استلام البضاعة - GRN001, GRN002, etc.
+export const goods_receipts = pgTable("goods_receipts", {
+  id: serial("id").primaryKey(),
+  receipt_number: varchar("receipt_number", { length: 50 }).notNull().unique(),
+  purchase_order_id: integer("purchase_order_id")
+    .notNull()
+    .references(() => purchase_orders.id, { onDelete: "restrict" }),
+  location_id: varchar("location_id", { length: 20 })
+    .notNull()
+    .references(() => locations.id, { onDelete: "restrict" }),
+  supplier_reference: varchar("supplier_reference", { length: 50 }), // رقم فاتورة / إشعار تسليم المورد
+  notes: text("notes"),
+  received_by: integer("received_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  received_at: timestamp("received_at").notNull().defaultNow(),
 });
 
+export const goods_receipt_lines = pgTable(
+  "goods_receipt_lines",
+  {
+    id: serial("id").primaryKey(),
+    receipt_id: integer("receipt_id")
+      .notNull()
+      .references(() => goods_receipts.id, { onDelete: "cascade" }),
+    purchase_order_line_id: integer("purchase_order_line_id")
+      .notNull()
+      .references(() => purchase_order_lines.id, { onDelete: "restrict" }),
+    item_id: varchar("item_id", { length: 20 })
+      .notNull()
+      .references(() => items.id, { onDelete: "restrict" }),
+    quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+    unit_cost: decimal("unit_cost", { precision: 10, scale: 4 }).notNull(),
+    inventory_movement_id: integer("inventory_movement_id").references(
+      () => inventory_movements.id,
+      { onDelete: "set null" },
+    ),
+  },
+  (table) => ({
+    quantityPositive: check(
+      "goods_receipt_line_quantity_positive",
+      sql`${table.quantity} > 0`,
+    ),
+  }),
+);
+
 // 📦 جدول المخزون الحالي - Inventory Management with Stock Constraints
 // INVARIANT C: Inventory.current_stock ≥ 0 AT ALL TIMES
 // CONSTRAINT: current_stock must never go negative during any operation
@@ -955,6 +1468,108 @@ export const inventory_movements = pgTable(
   }),
 );
 
+// 🧮 الجرد الفعلي - ST001, ST002, etc.
+// عند الإنشاء تُجمد أرصدة جميع أصناف الموقع، والفروقات المعتمدة تُرحل كحركات تسوية (adjustment)
+export const stock_takes = pgTable(
+  "stock_takes",
+  {
+    id: serial("id").primaryKey(),
+    stock_take_number: varchar("stock_take_number", { length: 50 })
+      .notNull()
+      .unique(),
+    location_id: varchar("location_id", { length: 20 })
+      .notNull()
+      .references(() => locations.id, { onDelete: "restrict" }),
+    status: varchar("status", { length: 20 }).notNull().default("counting"), // counting / posted / cancelled
+    notes: text("notes"),
+    created_by: integer("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    created_at: timestamp("created_at").notNull().defaultNow(), // وقت تجميد الأرصدة
+    posted_by: integer("posted_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    posted_at: timestamp("posted_at"),
+    cancelled_by: integer("cancelled_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    cancelled_at: timestamp("cancelled_at"),
+  },
+  (table) => ({
+    statusValid: check(
+      "stock_take_status_valid",
+      sql`${table.status} IN ('counting', 'posted', 'cancelled')`,
+    ),
+  }),
+);
+
+// 📋 بنود الجرد - رصيد النظام وتكلفة الوحدة كما كانا لحظة التجميد
+export const stock_take_lines = pgTable(
+  "stock_take_lines",
+  {
+    id: serial("id").primaryKey(),
+    stock_take_id: integer("stock_take_id")
+      .notNull()
+      .references(() => stock_takes.id, { onDelete: "cascade" }),
+    inventory_id: integer("inventory_id")
+      .notNull()
+      .references(() => inventory.id, { onDelete: "restrict" }),
+    item_id: varchar("item_id", { length: 20 })
+      .notNull()
+      .references(() => items.id, { onDelete: "restrict" }),
+    unit: varchar("unit", { length: 20 }).notNull(),
+    snapshot_quantity: decimal("snapshot_quantity", {
+      precision: 10,
+      scale: 2,
+    }).notNull(),
+    unit_cost: decimal("unit_cost", { precision: 10, scale: 4 }),
+    // الكمية المعتمدة عند الترحيل (من العد أو تعديل المراجع)
+    approved_quantity: decimal("approved_quantity", { precision: 10, scale: 2 }),
+    approved: boolean("approved").notNull().default(false),
+    adjustment_movement_id: integer("adjustment_movement_id").references(
+      () => inventory_movements.id,
+      { onDelete: "set null" },
+    ),
+  },
+  (table) => ({
+    snapshotNonNegative: check(
+      "stock_take_line_snapshot_non_negative",
+      sql`${table.snapshot_quantity} >= 0`,
+    ),
+    approvedNonNegative: check(
+      "stock_take_line_approved_non_negative",
+      sql`${table.approved_quantity} IS NULL OR ${table.approved_quantity} >= 0`,
+    ),
+  }),
+);
+
+// ✍️ عدّات الجرد - عدّة واحدة لكل عدّاد في كل بند، وإعادة العد تستبدلها
+export const stock_take_counts = pgTable(
+  "stock_take_counts",
+  {
+    id: serial("id").primaryKey(),
+    line_id: integer("line_id")
+      .notNull()
+      .references(() => stock_take_lines.id, { onDelete: "cascade" }),
+    counted_by: integer("counted_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "restrict" }),
+    quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+    scanned: boolean("scanned").notNull().default(false), // بمسح الباركود أو إدخال يدوي
+    counted_at: timestamp("counted_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    quantityNonNegative: check(
+      "stock_take_count_quantity_non_negative",
+      sql`${table.quantity} >= 0`,
+    ),
+    lineCounterUnique: unique("stock_take_count_line_counter_unique").on(
+      table.line_id,
+      table.counted_by,
+    ),
+  }),
+);
+
 // 🏬 جدول حركات المستودع
 export const warehouse_transactions = pgTable("warehouse_transactions", {
   id: serial("id").primaryKey(),
@@ -969,6 +1584,7 @@ export const warehouse_transactions = pgTable("warehouse_transactions", {
 });
 
 // 🧱 جدول خلطات المواد
+// الحقول machine_type / formula_layers / material_items تعكس آخر إصدار للوصفة
 export const mixing_recipes = pgTable("mixing_recipes", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 100 }).notNull(),
@@ -976,10 +1592,53 @@ export const mixing_recipes = pgTable("mixing_recipes", {
   machine_type: varchar("machine_type", { length: 20 }), // A / ABA
   formula_layers: integer("formula_layers"),
   material_items:
-    json("material_items").$type<{ item_id: number; percentage: number }[]>(),
+    json("material_items").$type<{ item_id: string; percentage: number }[]>(),
+  master_batch_id: varchar("master_batch_id", { length: 20 }), // لون الماستر باتش كما في customer_products.master_batch_id
+  current_version: integer("current_version").notNull().default(1),
+  is_active: boolean("is_active").notNull().default(true),
   created_at: timestamp("created_at").defaultNow(),
 });
 
+// طبقة في وصفة الخلط: ratio نسبة الطبقة من سماكة الفيلم، ونسب المواد داخل الطبقة مجموعها 100%
+// في ماكينات ABA نسبة الطبقة A تشمل الطبقتين الخارجيتين معاً
+export type MixingRecipeLayer = {
+  layer: "A" | "B";
+  ratio: number;
+  materials: { item_id: string; percentage: number }[];
+};
+
+// 🧾 إصدارات وصفات الخلط - لا تُعدل بعد إنشائها، وأوامر الإنتاج ترتبط بالإصدار الذي استخدمته
+export const mixing_recipe_versions = pgTable(
+  "mixing_recipe_versions",
+  {
+    id: serial("id").primaryKey(),
+    recipe_id: integer("recipe_id")
+      .notNull()
+      .references(() => mixing_recipes.id, { onDelete: "restrict" }),
+    version: integer("version").notNull(),
+    machine_type: varchar("machine_type", { length: 20 }).notNull(), // A / ABA
+    layers: json("layers").$type<MixingRecipeLayer[]>().notNull(),
+    // نسبة كل مادة من وزن الفيلم الكلي (محسوبة من نسب الطبقات)
+    material_items: json("material_items")
+      .$type<{ item_id: string; percentage: number }[]>()
+      .notNull(),
+    master_batch_id: varchar("master_batch_id", { length: 20 }),
+    notes: text("notes"),
+    created_by: integer("created_by").references(() => users.id),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    versionPositive: check(
+      "mixing_recipe_version_positive",
+      sql`${table.version} > 0`,
+    ),
+    machineTypeValid: check(
+      "mixing_recipe_version_machine_type_valid",
+      sql`${table.machine_type} IN ('A', 'ABA')`,
+    ),
+  }),
+);
+
 // 🧍‍♂️ جدول التدريب
 export const training_records = pgTable("training_records", {
   id: serial("id").primaryKey(),
@@ -1562,6 +2221,29 @@ export const warehouseReceiptsRelations = relations(
   }),
 );
 
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [shipments.order_id],
+    references: [orders.id],
+  }),
+  createdBy: one(users, {
+    fields: [shipments.created_by],
+    references: [users.id],
+  }),
+  items: many(shipment_items),
+}));
+
+export const shipmentItemsRelations = relations(shipment_items, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipment_items.shipment_id],
+    references: [shipments.id],
+  }),
+  productionOrder: one(production_orders, {
+    fields: [shipment_items.production_order_id],
+    references: [production_orders.id],
+  }),
+}));
+
 export const adminDecisionsRelations = relations(
   admin_decisions,
   ({ one }) => ({
@@ -1576,6 +2258,10 @@ export const adminDecisionsRelations = relations(
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   created_at: true,
+  password_changed_at: true,
+  two_factor_enabled: true,
+  two_factor_secret: true,
+  two_factor_recovery_codes: true,
 });
 
 // Order schema (legacy - will be phased out)
@@ -1644,6 +2330,40 @@ export const insertWarehouseReceiptSchema = createInsertSchema(
     received_weight_kg: z.number().positive("الوزن يجب أن يكون أكبر من صفر"),
   });
 
+export const insertShipmentSchema = createInsertSchema(shipments)
+  .omit({
+    id: true,
+    shipment_number: true,
+    status: true,
+    shipped_at: true,
+    created_by: true,
+    cancelled_by: true,
+    cancelled_at: true,
+    created_at: true,
+  })
+  .extend({
+    order_id: z.coerce.number().int().positive("الطلب مطلوب"),
+    driver_name: z.string().trim().min(1, "اسم السائق مطلوب"),
+    vehicle_number: z.string().trim().min(1, "رقم المركبة مطلوب"),
+    driver_phone: z.string().trim().nullable().optional(),
+    delivery_address: z.string().nullable().optional(),
+    notes: z.string().nullable().optional(),
+    items: z
+      .array(
+        z.object({
+          production_order_id: z.coerce
+            .number()
+            .int()
+            .positive("أمر الإنتاج مطلوب"),
+          quantity_kg: z.coerce
+            .number()
+            .positive("الكمية المسلمة يجب أن تكون أكبر من صفر"),
+          notes: z.string().nullable().optional(),
+        }),
+      )
+      .min(1, "يجب تحديد بند واحد على الأقل في إشعار التسليم"),
+  });
+
 export const insertProductionSettingsSchema = createInsertSchema(
   production_settings,
 )
@@ -1655,6 +2375,11 @@ export const insertProductionSettingsSchema = createInsertSchema(
       .number()
       .min(0)
       .max(10, "النسبة يجب أن تكون بين 0 و 10"),
+    material_scrap_percent: z
+      .number()
+      .min(0)
+      .max(50, "نسبة فاقد المواد يجب أن تكون بين 0 و 50")
+      .optional(),
   });
 
 export const insertMaintenanceRequestSchema = createInsertSchema(
@@ -1666,12 +2391,282 @@ export const insertMaintenanceRequestSchema = createInsertSchema(
   date_resolved: true,
 });
 
+// قيم عشرية اختيارية في خطط الفحص: القيمة الفارغة تعني عدم التحديد
+const optionalPlanDecimal = z.preprocess(
+  (val): number | null => {
+    if (val === null || val === undefined || val === "") return null;
+    const num = typeof val === "string" ? parseFloat(val) : (val as number);
+    return isNaN(num) ? null : num;
+  },
+  z.number().min(0, "القيمة يجب ألا تكون سالبة").nullable(),
+);
+
+export const QUALITY_CHARACTERISTICS = [
+  "thickness",
+  "width",
+  "cutting_length",
+  "unit_weight",
+  "print_registration",
+  "seal_strength",
+  "other",
+] as const;
+
+export const insertQualityPlanItemSchema = createInsertSchema(
+  quality_plan_items,
+)
+  .omit({
+    id: true,
+    plan_id: true,
+    nominal_value: true,
+    tolerance_minus: true,
+    tolerance_plus: true,
+  })
+  .extend({
+    characteristic: z.enum(QUALITY_CHARACTERISTICS, {
+      errorMap: () => ({ message: "نوع القياس غير صحيح" }),
+    }),
+    name_ar: z.string().trim().min(1, "اسم القياس مطلوب"),
+    nominal_value: optionalPlanDecimal,
+    tolerance_minus: optionalPlanDecimal,
+    tolerance_plus: optionalPlanDecimal,
+  });
+
+export const insertQualityInspectionPlanSchema = createInsertSchema(
+  quality_inspection_plans,
+)
+  .omit({
+    id: true,
+    created_by: true,
+    created_at: true,
+  })
+  .extend({
+    customer_product_id: z.coerce
+      .number()
+      .int()
+      .positive("منتج العميل مطلوب"),
+    stage: z.enum(["film", "printing", "cutting"], {
+      errorMap: () => ({ message: "المرحلة يجب أن تكون فيلم أو طباعة أو تقطيع" }),
+    }),
+    name: z.string().trim().min(1, "اسم الخطة مطلوب"),
+    items: z
+      .array(insertQualityPlanItemSchema)
+      .min(1, "يجب إضافة بند قياس واحد على الأقل"),
+  });
+
+export const insertQualityDefectTypeSchema = createInsertSchema(
+  quality_defect_types,
+)
+  .omit({
+    id: true,
+    created_at: true,
+  })
+  .extend({
+    code: z
+      .string()
+      .trim()
+      .min(1, "رمز العيب مطلوب")
+      .max(30, "رمز العيب طويل جداً"),
+    name: z.string().trim().min(1, "الاسم الإنجليزي مطلوب"),
+    name_ar: z.string().trim().min(1, "الاسم العربي مطلوب"),
+    severity: z.enum(["minor", "major", "critical"], {
+      errorMap: () => ({ message: "درجة الخطورة غير صحيحة" }),
+    }),
+  });
+
+export const insertQualityCheckSchema = z.object({
+  roll_id: z.coerce.number().int().positive("الرول مطلوب"),
+  stage: z.enum(["film", "printing", "cutting"], {
+    errorMap: () => ({ message: "المرحلة يجب أن تكون فيلم أو طباعة أو تقطيع" }),
+  }),
+  plan_id: z.coerce.number().int().positive().nullable().optional(),
+  score: z.coerce.number().int().min(1).max(5).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  // رسوب يدوي من المفتش حتى لو كانت القياسات ضمن التفاوت
+  force_fail: z.boolean().optional(),
+  measurements: z
+    .array(
+      z.object({
+        plan_item_id: z.coerce.number().int().positive().nullable().optional(),
+        name_ar: z.string().trim().min(1, "اسم القياس مطلوب"),
+        unit: z.string().nullable().optional(),
+        measured_value: z.coerce.number({
+          invalid_type_error: "القيمة المقاسة يجب أن تكون رقماً",
+        }),
+      }),
+    )
+    .default([]),
+  defects: z
+    .array(
+      z.object({
+        defect_type_id: z.coerce.number().int().positive("نوع العيب مطلوب"),
+        notes: z.string().nullable().optional(),
+        photos: z.array(z.string()).max(5, "الحد الأقصى 5 صور لكل عيب").default([]),
+      }),
+    )
+    .default([]),
+});
+
+export const qualityDispositionSchema = z.object({
+  disposition: z.enum(["release", "rework", "scrap"], {
+    errorMap: () => ({ message: "قرار الجودة يجب أن يكون إفراج أو إعادة تشغيل أو إتلاف" }),
+  }),
+  notes: z.string().nullable().optional(),
+  // سبب الهدر المستخدم عند الإتلاف
+  waste_reason_id: z.coerce.number().int().positive().nullable().optional(),
+});
+
 export const insertItemSchema = createInsertSchema(items).omit({
   id: true,
 });
 
-export const insertSupplierSchema = createInsertSchema(suppliers).omit({
-  id: true,
+export const insertSupplierSchema = createInsertSchema(suppliers)
+  .omit({
+    id: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "اسم المورد مطلوب"),
+    email: z
+      .string()
+      .trim()
+      .email("البريد الإلكتروني غير صحيح")
+      .nullable()
+      .optional()
+      .or(z.literal("").transform(() => null)),
+    lead_time_days: z.coerce
+      .number()
+      .int()
+      .min(0, "مدة التوريد لا يمكن أن تكون سالبة")
+      .max(365, "مدة التوريد لا يمكن أن تتجاوز 365 يوم")
+      .nullable()
+      .optional(),
+    materials_supplied: z.array(z.string()).nullable().optional(),
+  });
+
+// وحدات المخزون المسموحة (نفس قيد unit_valid في جدول المخزون)
+export const INVENTORY_UNITS = [
+  "كيلو",
+  "قطعة",
+  "رول",
+  "علبة",
+  "kg",
+  "piece",
+  "roll",
+  "package",
+] as const;
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchase_orders)
+  .omit({
+    id: true,
+    po_number: true,
+    status: true,
+    created_by: true,
+    approved_by: true,
+    approved_at: true,
+    cancelled_by: true,
+    cancelled_at: true,
+    received_at: true,
+    created_at: true,
+  })
+  .extend({
+    supplier_id: z.coerce.number().int().positive("المورد مطلوب"),
+    order_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "تاريخ الطلب غير صحيح")
+      .optional(),
+    expected_delivery_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "تاريخ التسليم المتوقع غير صحيح")
+      .nullable()
+      .optional(),
+    notes: z.string().nullable().optional(),
+    lines: z
+      .array(
+        z.object({
+          item_id: z.string().trim().min(1, "الصنف مطلوب"),
+          quantity: z.coerce
+            .number()
+            .positive("الكمية يجب أن تكون أكبر من صفر"),
+          unit: z.enum(INVENTORY_UNITS).default("كيلو"),
+          unit_price: z.coerce
+            .number()
+            .min(0, "سعر الوحدة لا يمكن أن يكون سالباً"),
+          notes: z.string().nullable().optional(),
+        }),
+      )
+      .min(1, "يجب إضافة بند واحد على الأقل لأمر الشراء"),
+  });
+
+export const insertGoodsReceiptSchema = z.object({
+  location_id: z.string().trim().min(1, "موقع الاستلام مطلوب"),
+  supplier_reference: z.string().trim().max(50).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  lines: z
+    .array(
+      z.object({
+        purchase_order_line_id: z.coerce.number().int().positive(),
+        quantity: z.coerce
+          .number()
+          .positive("الكمية المستلمة يجب أن تكون أكبر من صفر"),
+        // سعر الوحدة الفعلي إذا اختلف عن سعر أمر الشراء
+        unit_cost: z.coerce
+          .number()
+          .min(0, "تكلفة الوحدة لا يمكن أن تكون سالبة")
+          .optional(),
+      }),
+    )
+    .min(1, "يجب تحديد بند واحد على الأقل للاستلام"),
+});
+
+// تحويل بنود قائمة إعادة الطلب المعتمدة إلى أوامر شراء (أمر مسودة لكل مورد)
+export const reorderConversionSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        item_id: z.string().trim().min(1, "الصنف مطلوب"),
+        supplier_id: z.coerce
+          .number({ invalid_type_error: "يجب تحديد المورد لكل صنف" })
+          .int()
+          .positive("يجب تحديد المورد لكل صنف"),
+        quantity: z.coerce.number().positive("الكمية يجب أن تكون أكبر من صفر"),
+        unit: z.enum(INVENTORY_UNITS),
+        unit_price: z.coerce
+          .number()
+          .min(0, "سعر الوحدة لا يمكن أن يكون سالباً"),
+      }),
+    )
+    .min(1, "يجب اختيار صنف واحد على الأقل"),
+});
+
+export const insertStockTakeSchema = z.object({
+  location_id: z.string().trim().min(1, "موقع الجرد مطلوب"),
+  notes: z.string().nullable().optional(),
+});
+
+// عدّة بند جرد - بتحديد البند مباشرة أو بمسح باركود الصنف (كود الصنف أو معرفه)
+export const stockTakeCountSchema = z
+  .object({
+    line_id: z.coerce.number().int().positive().optional(),
+    barcode: z.string().trim().min(1).optional(),
+    quantity: z.coerce.number().min(0, "الكمية المعدودة لا يمكن أن تكون سالبة"),
+    // add: إضافة الكمية لعدّة العدّاد السابقة (نفس الصنف في أكثر من رف)
+    mode: z.enum(["set", "add"]).default("set"),
+  })
+  .refine((data) => data.line_id !== undefined || data.barcode, {
+    message: "يجب تحديد البند أو مسح الباركود",
+  });
+
+// اعتماد فروقات الجرد وترحيلها - البنود غير المذكورة لا تُسوّى
+export const stockTakePostingSchema = z.object({
+  lines: z.array(
+    z.object({
+      line_id: z.coerce.number().int().positive(),
+      // الكمية المعتمدة عند اختلاف العدّادين أو تصحيح المراجع
+      quantity: z.coerce
+        .number()
+        .min(0, "الكمية المعتمدة لا يمكن أن تكون سالبة")
+        .optional(),
+    }),
+  ),
 });
 
 export const insertWarehouseTransactionSchema = createInsertSchema(
@@ -1738,12 +2733,91 @@ export const insertInventoryMovementSchema = createInsertSchema(
   created_at: true,
 });
 
-export const insertMixingRecipeSchema = createInsertSchema(mixing_recipes).omit(
-  {
+const mixingRecipeMaterialSchema = z.object({
+  item_id: z.string().trim().min(1, "يجب اختيار المادة الخام"),
+  percentage: z.coerce
+    .number()
+    .gt(0, "نسبة المادة يجب أن تكون أكبر من صفر")
+    .max(100, "نسبة المادة لا يمكن أن تتجاوز 100%"),
+});
+
+export const mixingRecipeLayerSchema = z.object({
+  layer: z.enum(["A", "B"]),
+  ratio: z.coerce
+    .number()
+    .gt(0, "نسبة الطبقة يجب أن تكون أكبر من صفر")
+    .max(100, "نسبة الطبقة لا يمكن أن تتجاوز 100%"),
+  materials: z
+    .array(mixingRecipeMaterialSchema)
+    .min(1, "يجب إضافة مادة واحدة على الأقل لكل طبقة"),
+});
+
+// مقارنة المجاميع بسماحية صغيرة لتفادي أخطاء الكسور العشرية
+const sumsTo100 = (values: number[]) =>
+  Math.abs(values.reduce((total, value) => total + value, 0) - 100) < 0.01;
+
+export const insertMixingRecipeSchema = createInsertSchema(mixing_recipes)
+  .omit({
     id: true,
     created_at: true,
-  },
-);
+    formula_layers: true,
+    material_items: true,
+    current_version: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "اسم الوصفة مطلوب"),
+    machine_type: z.enum(["A", "ABA"], {
+      errorMap: () => ({ message: "نوع الماكينة يجب أن يكون A أو ABA" }),
+    }),
+    master_batch_id: z.string().trim().max(20).nullable().optional(),
+    layers: z.array(mixingRecipeLayerSchema),
+    notes: z.string().nullable().optional(),
+  })
+  .superRefine((recipe, ctx) => {
+    const expectedLayers: MixingRecipeLayer["layer"][] =
+      recipe.machine_type === "ABA" ? ["A", "B"] : ["A"];
+    const layerNames = recipe.layers.map((layer) => layer.layer);
+    if (
+      layerNames.length !== expectedLayers.length ||
+      expectedLayers.some((name) => !layerNames.includes(name))
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["layers"],
+        message:
+          recipe.machine_type === "ABA"
+            ? "وصفة ABA يجب أن تحتوي على الطبقتين A و B"
+            : "وصفة A يجب أن تحتوي على طبقة واحدة A",
+      });
+      return;
+    }
+
+    if (!sumsTo100(recipe.layers.map((layer) => layer.ratio))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["layers"],
+        message: "مجموع نسب الطبقات يجب أن يساوي 100%",
+      });
+    }
+
+    recipe.layers.forEach((layer, index) => {
+      if (!sumsTo100(layer.materials.map((material) => material.percentage))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["layers", index, "materials"],
+          message: `مجموع نسب المواد في الطبقة ${layer.layer} يجب أن يساوي 100%`,
+        });
+      }
+      const itemIds = layer.materials.map((material) => material.item_id);
+      if (new Set(itemIds).size !== itemIds.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["layers", index, "materials"],
+          message: `المادة مكررة في الطبقة ${layer.layer}`,
+        });
+      }
+    });
+  });
 
 export const insertTrainingRecordSchema = createInsertSchema(
   training_records,
@@ -1816,6 +2890,8 @@ export const insertProductionOrderSchema = createInsertSchema(production_orders)
     id: true,
     created_at: true,
     production_order_number: true,
+    // يُثبت على الخادم من الإصدار الحالي للوصفة
+    mixing_recipe_version_id: true,
     // SECURITY: final_quantity_kg calculated server-side only - never trust client values
     final_quantity_kg: true,
     // NEW: حقول التتبع تحسب تلقائياً - لا نحتاجها في الإدخال
@@ -1831,6 +2907,7 @@ export const insertProductionOrderSchema = createInsertSchema(production_orders)
     // INVARIANT A & F: Order must exist and be valid
     order_id: z.number().int().positive("معرف الطلب مطلوب"),
     customer_product_id: z.number().int().positive("معرف منتج العميل مطلوب"),
+    mixing_recipe_id: z.number().int().positive().nullable().optional(),
     // Quantity validation with business rules
     quantity_kg: z
       .union([z.string(), z.number()])
@@ -1870,6 +2947,9 @@ export const insertProductionOrderSchema = createInsertSchema(production_orders)
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type LoginAttempt = typeof login_attempts.$inferSelect;
+export type ApiToken = typeof api_tokens.$inferSelect;
+export type InsertApiToken = typeof api_tokens.$inferInsert;
 export type SparePart = typeof spare_parts.$inferSelect;
 export type InsertSparePart = typeof spare_parts.$inferInsert;
 // Legacy order types - will be phased out
@@ -1882,18 +2962,47 @@ export type InsertMaintenanceRequest = z.infer<
   typeof insertMaintenanceRequestSchema
 >;
 export type QualityCheck = typeof quality_checks.$inferSelect;
+export type QualityInspectionPlan =
+  typeof quality_inspection_plans.$inferSelect;
+export type QualityPlanItem = typeof quality_plan_items.$inferSelect;
+export type QualityDefectType = typeof quality_defect_types.$inferSelect;
+export type InsertQualityDefectType = z.infer<
+  typeof insertQualityDefectTypeSchema
+>;
+export type QualityCheckMeasurement =
+  typeof quality_check_measurements.$inferSelect;
+export type QualityCheckDefect = typeof quality_check_defects.$inferSelect;
+export type InsertQualityInspectionPlan = z.infer<
+  typeof insertQualityInspectionPlanSchema
+>;
+export type InsertQualityCheck = z.infer<typeof insertQualityCheckSchema>;
+export type QualityDisposition = z.infer<typeof qualityDispositionSchema>;
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Item = typeof items.$inferSelect;
 export type InsertItem = z.infer<typeof insertItemSchema>;
 export type Supplier = typeof suppliers.$inferSelect;
 export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type PurchaseOrder = typeof purchase_orders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrderLine = typeof purchase_order_lines.$inferSelect;
+export type GoodsReceipt = typeof goods_receipts.$inferSelect;
+export type GoodsReceiptLine = typeof goods_receipt_lines.$inferSelect;
+export type InsertGoodsReceipt = z.infer<typeof insertGoodsReceiptSchema>;
+export type ReorderConversion = z.infer<typeof reorderConversionSchema>;
+export type StockTake = typeof stock_takes.$inferSelect;
+export type StockTakeLine = typeof stock_take_lines.$inferSelect;
+export type StockTakeCount = typeof stock_take_counts.$inferSelect;
+export type InsertStockTake = z.infer<typeof insertStockTakeSchema>;
+export type StockTakeCountInput = z.infer<typeof stockTakeCountSchema>;
+export type StockTakePosting = z.infer<typeof stockTakePostingSchema>;
 export type WarehouseTransaction = typeof warehouse_transactions.$inferSelect;
 export type InsertWarehouseTransaction = z.infer<
   typeof insertWarehouseTransactionSchema
 >;
 export type MixingRecipe = typeof mixing_recipes.$inferSelect;
 export type InsertMixingRecipe = z.infer<typeof insertMixingRecipeSchema>;
+export type MixingRecipeVersion = typeof mixing_recipe_versions.$inferSelect;
 export type TrainingRecord = typeof training_records.$inferSelect;
 export type InsertTrainingRecord = z.infer<typeof insertTrainingRecordSchema>;
 export type AdminDecision = typeof admin_decisions.$inferSelect;
@@ -1939,6 +3048,36 @@ export const user_settings = pgTable("user_settings", {
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// 🕵️ سجل التدقيق - كل عملية إنشاء / تعديل / حذف مع المستخدم والقيم قبل وبعد
+export const audit_logs = pgTable(
+  "audit_logs",
+  {
+    id: serial("id").primaryKey(),
+    user_id: integer("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }), // NULL: عملية نظام بدون مستخدم (مهام مجدولة / تسجيل دخول)
+    table_name: varchar("table_name", { length: 100 }).notNull(),
+    record_id: varchar("record_id", { length: 50 }).notNull(), // نصي لأن بعض الجداول مفتاحها نصي (CID001)
+    action: varchar("action", { length: 10 }).notNull(), // ENUM: create / update / delete
+    before_data: json("before_data"), // NULL عند الإنشاء
+    after_data: json("after_data"), // NULL عند الحذف
+    changes: json("changes"), // { الحقل: { from, to } } للحقول المتغيرة فقط
+    request_method: varchar("request_method", { length: 10 }),
+    request_path: varchar("request_path", { length: 255 }),
+    ip_address: varchar("ip_address", { length: 64 }),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    actionValid: check(
+      "audit_action_valid",
+      sql`${table.action} IN ('create', 'update', 'delete')`,
+    ),
+  }),
+);
+
+export type AuditLog = typeof audit_logs.$inferSelect;
+export type InsertAuditLog = typeof audit_logs.$inferInsert;
+
 // Insert schemas for settings
 export const insertSystemSettingSchema = createInsertSchema(
   system_settings,
@@ -2145,6 +3284,45 @@ export const insertAttendanceSchema = createInsertSchema(attendance).omit({
   updated_at: true,
 });
 
+const shiftTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "الوقت يجب أن يكون بصيغة HH:MM");
+
+export const insertShiftTemplateSchema = createInsertSchema(shift_templates)
+  .omit({
+    id: true,
+    created_at: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "اسم الوردية مطلوب").max(100),
+    start_time: shiftTimeSchema,
+    end_time: shiftTimeSchema,
+    break_minutes: z.coerce.number().int().min(0).max(240),
+    late_grace_minutes: z.coerce.number().int().min(0).max(120),
+    early_leave_grace_minutes: z.coerce.number().int().min(0).max(120),
+    overtime_min_minutes: z.coerce.number().int().min(0).max(240),
+  });
+
+export const insertUserShiftSchema = createInsertSchema(user_shifts)
+  .omit({
+    id: true,
+    created_by: true,
+    created_at: true,
+  })
+  .extend({
+    user_id: z.coerce.number().int().positive("الموظف مطلوب"),
+    shift_template_id: z.coerce.number().int().positive("الوردية مطلوبة"),
+    effective_from: z.string().date("تاريخ بداية الجدولة غير صحيح"),
+    effective_to: z
+      .string()
+      .date("تاريخ نهاية الجدولة غير صحيح")
+      .nullable()
+      .optional(),
+    days_of_week: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, "يجب اختيار يوم عمل واحد على الأقل"),
+  });
+
 // Maintenance Actions Schemas
 export const insertMaintenanceActionSchema = createInsertSchema(
   maintenance_actions,
@@ -2195,6 +3373,14 @@ export const insertConsumablePartTransactionSchema = createInsertSchema(
 // HR System Types
 export type Attendance = typeof attendance.$inferSelect;
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
+export type ShiftTemplate = typeof shift_templates.$inferSelect;
+export type InsertShiftTemplate = z.infer<typeof insertShiftTemplateSchema>;
+export type UserShift = typeof user_shifts.$inferSelect;
+export type InsertUserShift = z.infer<typeof insertUserShiftSchema>;
+export type PayrollPeriod = typeof payroll_periods.$inferSelect;
+export type InsertPayrollPeriod = typeof payroll_periods.$inferInsert;
+export type PayrollPeriodLine = typeof payroll_period_lines.$inferSelect;
+export type InsertPayrollPeriodLine = typeof payroll_period_lines.$inferInsert;
 export type TrainingProgram = typeof training_programs.$inferSelect;
 export type InsertTrainingProgram = z.infer<typeof insertTrainingProgramSchema>;
 export type TrainingMaterial = typeof training_materials.$inferSelect;
@@ -2263,6 +3449,9 @@ export type WarehouseReceipt = typeof warehouse_receipts.$inferSelect;
 export type InsertWarehouseReceipt = z.infer<
   typeof insertWarehouseReceiptSchema
 >;
+export type Shipment = typeof shipments.$inferSelect;
+export type ShipmentItem = typeof shipment_items.$inferSelect;
+export type InsertShipment = z.infer<typeof insertShipmentSchema>;
 export type ProductionSettings = typeof production_settings.$inferSelect;
 export type InsertProductionSettings = z.infer<
   typeof insertProductionSettingsSchema
@@ -2623,6 +3812,34 @@ export const insertCorrectiveActionSchema =
   createInsertSchema(corrective_actions);
 export const insertSystemAnalyticsSchema = createInsertSchema(system_analytics);
 
+// 💾 جدول سجل النسخ الاحتياطية
+export const backup_history = pgTable("backup_history", {
+  id: serial("id").primaryKey(),
+  backup_id: varchar("backup_id", { length: 50 }), // معرف مجلد النسخة على القرص
+  trigger: varchar("trigger", { length: 20 }).notNull(), // manual, daily, weekly, monthly
+  status: varchar("status", { length: 20 }).notNull().default("running"), // running, success, failed, pruned
+  size_bytes: integer("size_bytes"),
+  duration_ms: integer("duration_ms"),
+  total_records: integer("total_records"),
+  table_count: integer("table_count"),
+  schema_version: varchar("schema_version", { length: 32 }),
+  error_message: text("error_message"),
+  created_by: integer("created_by").references(() => users.id),
+  started_at: timestamp("started_at").defaultNow(),
+  completed_at: timestamp("completed_at"),
+  pruned_at: timestamp("pruned_at"),
+});
+
+export const insertBackupHistorySchema = createInsertSchema(
+  backup_history,
+).omit({
+  id: true,
+  started_at: true,
+});
+
+export type BackupHistory = typeof backup_history.$inferSelect;
+export type InsertBackupHistory = z.infer<typeof insertBackupHistorySchema>;
+
 // 📝 جدول الملاحظات السريعة
 export const quick_notes = pgTable("quick_notes", {
   id: serial("id").primaryKey(),
@@ -2692,5 +3909,11 @@ export const insertNoteAttachmentSchema = createInsertSchema(note_attachments).o
   uploaded_at: true,
 });
 
+// API token without its hash (the raw token is shown only once on creation)
+export type SafeApiToken = Omit<ApiToken, "token_hash">;
+
 // Sanitized user type that excludes sensitive fields like password
-export type SafeUser = Omit<User, "password">;
+export type SafeUser = Omit<
+  User,
+  "password" | "two_factor_secret" | "two_factor_recovery_codes"
+>;
@@ -0,0 +1,436 @@
+/**
+ * Shift rules (late / early leave / overtime per attendance day, night shifts,
+ * roster lookup) and the attendance geofence check.
+ * Runs in Europe/Berlin so that clock changes are covered.
+ *
+ * @jest-environment ./tests/timezone-environment.js
+ * @timezone Europe/Berlin
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  computeAttendanceDay,
+  crossesMidnight,
+  findRosterEntry,
+  localDate,
+  shiftWindow,
+} from "../server/services/shift-rules";
+import {
+  AttendanceGeofenceService,
+  GEOFENCE_MODE_SETTING_KEY,
+  distanceInMeters,
+  parseCoordinates,
+} from "../server/services/attendance-geofence";
+import type { Attendance, ShiftTemplate } from "../shared/schema";
+import type { IStorage, UserShiftListItem } from "../server/storage";
+
+const dayShift = (overrides: Partial<ShiftTemplate> = {}): ShiftTemplate =>
+  ({
+    id: 1,
+    name: "Day",
+    name_ar: "صباحية",
+    start_time: "08:00",
+    end_time: "16:00",
+    break_minutes: 60,
+    late_grace_minutes: 10,
+    early_leave_grace_minutes: 10,
+    overtime_min_minutes: 30,
+    ...overrides,
+  }) as ShiftTemplate;
+
+const nightShift = dayShift({
+  id: 2,
+  name: "Night",
+  name_ar: "ليلية",
+  start_time: "22:00",
+  end_time: "06:00",
+});
+
+const punch = (
+  checkIn: Date | null,
+  checkOut: Date | null = null,
+  lunch?: [Date, Date],
+): Attendance =>
+  ({
+    check_in_time: checkIn,
+    check_out_time: checkOut,
+    lunch_start_time: lunch?.[0] ?? null,
+    lunch_end_time: lunch?.[1] ?? null,
+  }) as Attendance;
+
+// 14 May 2026, local factory time
+const at = (hours: number, minutes = 0, day = 14) =>
+  new Date(2026, 4, day, hours, minutes);
+
+const options = { workingHoursPerDay: 8, now: new Date(2026, 4, 20) };
+
+describe("computeAttendanceDay", () => {
+  it("counts a full on-time day without late, early leave or overtime", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8), at(16))],
+      dayShift(),
+      options,
+    );
+    expect(day).toMatchObject({
+      status: "present",
+      scheduled_minutes: 420,
+      worked_minutes: 420,
+      break_minutes: 60,
+      late_minutes: 0,
+      early_leave_minutes: 0,
+      overtime_minutes: 0,
+    });
+  });
+
+  it("ignores lateness within the grace period and counts it in full beyond", () => {
+    const withinGrace = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8, 10), at(16))],
+      dayShift(),
+      options,
+    );
+    expect(withinGrace.late_minutes).toBe(0);
+
+    const late = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8, 11), at(16))],
+      dayShift(),
+      options,
+    );
+    expect(late.late_minutes).toBe(11);
+    expect(late.worked_minutes).toBe(409);
+  });
+
+  it("records early leave beyond the grace period", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8), at(15, 30))],
+      dayShift(),
+      options,
+    );
+    expect(day.early_leave_minutes).toBe(30);
+    expect(day.overtime_minutes).toBe(0);
+  });
+
+  it("counts overtime only from the shift's minimum", () => {
+    const short = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8), at(16, 29))],
+      dayShift(),
+      options,
+    );
+    expect(short.overtime_minutes).toBe(0);
+
+    const long = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8), at(16, 30))],
+      dayShift(),
+      options,
+    );
+    expect(long.overtime_minutes).toBe(30);
+  });
+
+  it("deducts the longer of the recorded lunch and the shift break", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8), at(17), [at(12), at(13, 30)])],
+      dayShift(),
+      options,
+    );
+    expect(day.break_minutes).toBe(90);
+    expect(day.worked_minutes).toBe(450);
+    expect(day.overtime_minutes).toBe(30);
+  });
+
+  it("combines the separate punch records of one day", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8, 5)), punch(null, at(16)), punch(at(9), at(12))],
+      dayShift(),
+      options,
+    );
+    expect(day.check_in).toEqual(at(8, 5));
+    expect(day.check_out).toEqual(at(16));
+    expect(day.status).toBe("present");
+  });
+
+  it("marks a check-in without check-out as incomplete", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8, 30))],
+      dayShift(),
+      options,
+    );
+    expect(day.status).toBe("incomplete");
+    expect(day.late_minutes).toBe(30);
+    expect(day.worked_minutes).toBe(0);
+  });
+
+  it("marks a scheduled day without attendance as absent once the shift started", () => {
+    const absent = computeAttendanceDay("2026-05-14", [], dayShift(), options);
+    expect(absent.status).toBe("absent");
+    expect(absent.scheduled_minutes).toBe(420);
+
+    const upcoming = computeAttendanceDay("2026-05-14", [], dayShift(), {
+      ...options,
+      now: at(7),
+    });
+    expect(upcoming.status).toBe("off");
+    expect(upcoming.scheduled_minutes).toBe(0);
+  });
+
+  it("treats approved leave as leave, not absence", () => {
+    const day = computeAttendanceDay("2026-05-14", [], dayShift(), {
+      ...options,
+      onLeave: true,
+    });
+    expect(day.status).toBe("on_leave");
+    expect(day.scheduled_minutes).toBe(0);
+  });
+
+  it("counts all work on a rest day as overtime", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(9), at(13))],
+      null,
+      options,
+    );
+    expect(day.status).toBe("rest_day_work");
+    expect(day.worked_minutes).toBe(240);
+    expect(day.overtime_minutes).toBe(240);
+  });
+
+  it("uses the factory's daily hours for employees without a roster", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(8), at(17, 30))],
+      undefined,
+      options,
+    );
+    expect(day.scheduled_minutes).toBe(480);
+    expect(day.worked_minutes).toBe(570);
+    expect(day.overtime_minutes).toBe(90);
+    expect(day.late_minutes).toBe(0);
+  });
+
+  it("closes a night shift on the next morning", () => {
+    const day = computeAttendanceDay(
+      "2026-05-14",
+      [punch(at(22), at(6, 0, 15))],
+      nightShift,
+      options,
+    );
+    expect(day).toMatchObject({
+      status: "present",
+      scheduled_minutes: 420,
+      worked_minutes: 420,
+      early_leave_minutes: 0,
+    });
+  });
+
+  it("schedules a night shift by elapsed time when the clocks change", () => {
+    // Clocks go forward at 02:00 on 29 March 2026: the shift is an hour shorter
+    const spring = computeAttendanceDay(
+      "2026-03-28",
+      [punch(new Date(2026, 2, 28, 22), new Date(2026, 2, 29, 6))],
+      nightShift,
+      options,
+    );
+    expect(spring.scheduled_minutes).toBe(360);
+    expect(spring.worked_minutes).toBe(360);
+    expect(spring.early_leave_minutes).toBe(0);
+
+    // Clocks go back at 03:00 on 25 October 2026: the shift is an hour longer
+    const autumn = computeAttendanceDay(
+      "2026-10-24",
+      [punch(new Date(2026, 9, 24, 22), new Date(2026, 9, 25, 6))],
+      nightShift,
+      { ...options, now: new Date(2026, 9, 30) },
+    );
+    expect(autumn.scheduled_minutes).toBe(480);
+    expect(autumn.overtime_minutes).toBe(0);
+  });
+});
+
+describe("shiftWindow", () => {
+  it("ends a night shift on the following day, across a month boundary", () => {
+    expect(crossesMidnight(nightShift)).toBe(true);
+    expect(crossesMidnight(dayShift())).toBe(false);
+
+    const window = shiftWindow("2026-05-31", nightShift);
+    expect(window.start).toEqual(new Date(2026, 4, 31, 22));
+    expect(window.end).toEqual(new Date(2026, 5, 1, 6));
+  });
+
+  it("treats an end time equal to the start time as a 24 hour shift", () => {
+    const window = shiftWindow(
+      "2026-12-31",
+      dayShift({ start_time: "07:00", end_time: "07:00" }),
+    );
+    expect(window.end).toEqual(new Date(2027, 0, 1, 7));
+  });
+});
+
+describe("localDate", () => {
+  it("uses the server's calendar day, not the UTC one", () => {
+    expect(localDate(new Date(2026, 2, 1, 0, 30))).toBe("2026-03-01");
+    expect(localDate(new Date(2026, 11, 31, 23, 59))).toBe("2026-12-31");
+  });
+});
+
+describe("findRosterEntry", () => {
+  const entry = (
+    overrides: Partial<UserShiftListItem>,
+  ): UserShiftListItem =>
+    ({
+      id: 1,
+      user_id: 7,
+      shift_template_id: 1,
+      effective_from: "2026-01-01",
+      effective_to: null,
+      days_of_week: [0, 1, 2, 3, 4],
+      ...overrides,
+    }) as UserShiftListItem;
+
+  it("matches the weekday and the effective period", () => {
+    const roster = [entry({ effective_to: "2026-05-31" })];
+    // 14 May 2026 is a Thursday, 15 May a Friday
+    expect(findRosterEntry(roster, 7, "2026-05-14")).toBe(roster[0]);
+    expect(findRosterEntry(roster, 7, "2026-05-15")).toBeUndefined();
+    expect(findRosterEntry(roster, 7, "2026-06-01")).toBeUndefined();
+    expect(findRosterEntry(roster, 8, "2026-05-14")).toBeUndefined();
+  });
+
+  it("prefers the most recent schedule when entries overlap", () => {
+    const roster = [
+      entry({ id: 1, shift_template_id: 1 }),
+      entry({ id: 2, shift_template_id: 2, effective_from: "2026-05-01" }),
+    ];
+    expect(findRosterEntry(roster, 7, "2026-04-30")?.id).toBe(1);
+    expect(findRosterEntry(roster, 7, "2026-05-14")?.id).toBe(2);
+  });
+});
+
+describe("attendance geofence", () => {
+  const FACTORY = { latitude: 24.7136, longitude: 46.6753 };
+  // ~111 m per 0.001 degree of latitude
+  const north = (meters: number) => ({
+    latitude: FACTORY.latitude + meters / 111195,
+    longitude: FACTORY.longitude,
+  });
+
+  const geofence = (
+    options: {
+      mode?: string;
+      locationId?: string | null;
+      coordinates?: string | null;
+      toleranceRange?: number | null;
+    } = {},
+  ) => {
+    const storage = {
+      getUser: async () => ({
+        id: 7,
+        attendance_location_id:
+          options.locationId === undefined ? "LOC01" : options.locationId,
+      }),
+      getLocations: async () => [
+        {
+          id: "LOC01",
+          name: "Factory",
+          name_ar: "المصنع",
+          coordinates:
+            options.coordinates === undefined
+              ? `${FACTORY.latitude},${FACTORY.longitude}`
+              : options.coordinates,
+          tolerance_range:
+            options.toleranceRange === undefined ? 100 : options.toleranceRange,
+        },
+      ],
+      getSystemSettings: async () =>
+        options.mode
+          ? [{ setting_key: GEOFENCE_MODE_SETTING_KEY, setting_value: options.mode }]
+          : [],
+    };
+    return new AttendanceGeofenceService(storage as unknown as IStorage);
+  };
+
+  it("parses only valid 'lat,lng' coordinates", () => {
+    expect(parseCoordinates("24.7136, 46.6753")).toEqual(FACTORY);
+    expect(parseCoordinates("24.7136")).toBeNull();
+    expect(parseCoordinates("abc,46")).toBeNull();
+    expect(parseCoordinates("91,46")).toBeNull();
+    expect(parseCoordinates(null)).toBeNull();
+  });
+
+  it("measures distances with the haversine formula", () => {
+    expect(distanceInMeters(FACTORY, FACTORY)).toBe(0);
+    expect(distanceInMeters(FACTORY, north(100))).toBeCloseTo(100, 0);
+    expect(
+      distanceInMeters({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 }),
+    ).toBeCloseTo(111195, -1);
+  });
+
+  it("skips the check for employees without an assigned location", async () => {
+    const result = await geofence({ locationId: null }).evaluate(7, north(5000));
+    expect(result.location_status).toBeNull();
+    expect(result.rejected).toBe(false);
+  });
+
+  it("skips the check for locations without valid coordinates", async () => {
+    const result = await geofence({ coordinates: "" }).evaluate(7, north(5000));
+    expect(result.location_status).toBeNull();
+    expect(result.location_id).toBeNull();
+  });
+
+  it("accepts positions inside the location radius", async () => {
+    const result = await geofence().evaluate(7, north(90));
+    expect(result).toMatchObject({
+      location_id: "LOC01",
+      location_status: "inside",
+      location_distance_m: 90,
+      location_review_status: null,
+      rejected: false,
+      message: null,
+    });
+  });
+
+  it("flags positions outside the radius for review by default", async () => {
+    const result = await geofence().evaluate(7, north(120));
+    expect(result.location_status).toBe("outside");
+    expect(result.location_review_status).toBe("pending");
+    expect(result.rejected).toBe(false);
+    expect(result.message).toContain("120");
+  });
+
+  it("rejects positions outside the radius in reject mode", async () => {
+    const result = await geofence({ mode: "reject" }).evaluate(7, north(120));
+    expect(result.rejected).toBe(true);
+    expect(result.location_review_status).toBeNull();
+  });
+
+  it("widens the radius by the reported accuracy, up to 50 m", async () => {
+    const service = geofence();
+    expect(
+      (await service.evaluate(7, { ...north(120), accuracy: 25 })).location_status,
+    ).toBe("inside");
+    expect(
+      (await service.evaluate(7, { ...north(160), accuracy: 500 })).location_status,
+    ).toBe("outside");
+  });
+
+  it("uses a 100 m radius when the location has no tolerance range", async () => {
+    const service = geofence({ toleranceRange: null });
+    expect((await service.evaluate(7, north(99))).location_status).toBe("inside");
+    expect((await service.evaluate(7, north(101))).location_status).toBe("outside");
+  });
+
+  it("treats a missing position as unavailable", async () => {
+    const flagged = await geofence().evaluate(7, null);
+    expect(flagged.location_status).toBe("unavailable");
+    expect(flagged.location_review_status).toBe("pending");
+
+    const rejected = await geofence({ mode: "reject" }).evaluate(7, null);
+    expect(rejected.rejected).toBe(true);
+  });
+});
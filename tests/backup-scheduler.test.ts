@@ -0,0 +1,184 @@
+/**
+ * Backup scheduler: due-time calculation and retention pruning.
+ * Runs in Europe/Berlin so that clock changes are covered.
+ *
+ * @jest-environment ./tests/timezone-environment.js
+ * @timezone Europe/Berlin
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  BackupScheduler,
+  type BackupScheduleSettings,
+} from "../server/services/backup-scheduler";
+import type { IStorage } from "../server/storage";
+
+const schedule = (
+  overrides: Partial<BackupScheduleSettings> = {},
+): BackupScheduleSettings => ({
+  time: "02:00",
+  daily: { enabled: true, retention: 7 },
+  weekly: { enabled: true, retention: 4, day: 5 },
+  monthly: { enabled: true, retention: 12, day: 1 },
+  ...overrides,
+});
+
+const scheduler = (storage: Partial<IStorage> = {}) =>
+  new BackupScheduler(storage as unknown as IStorage);
+
+describe("BackupScheduler.getLastScheduledTime", () => {
+  const last = (
+    trigger: "daily" | "weekly" | "monthly",
+    now: Date,
+    settings = schedule(),
+  ) => scheduler().getLastScheduledTime(trigger, settings, now);
+
+  it("uses today's slot once the scheduled time has passed", () => {
+    expect(last("daily", new Date(2026, 4, 14, 9, 0))).toEqual(
+      new Date(2026, 4, 14, 2, 0),
+    );
+  });
+
+  it("falls back to yesterday's slot before the scheduled time", () => {
+    expect(last("daily", new Date(2026, 4, 14, 1, 59))).toEqual(
+      new Date(2026, 4, 13, 2, 0),
+    );
+  });
+
+  it("treats the exact scheduled minute as due", () => {
+    expect(last("daily", new Date(2026, 4, 14, 2, 0))).toEqual(
+      new Date(2026, 4, 14, 2, 0),
+    );
+  });
+
+  it("crosses month and year boundaries for the daily slot", () => {
+    expect(last("daily", new Date(2026, 2, 1, 0, 30))).toEqual(
+      new Date(2026, 1, 28, 2, 0),
+    );
+    expect(last("daily", new Date(2027, 0, 1, 0, 30))).toEqual(
+      new Date(2026, 11, 31, 2, 0),
+    );
+  });
+
+  it("keeps the wall-clock time across a DST change", () => {
+    // 29 March 2026: clocks go forward in Europe/Berlin
+    expect(new Date(2026, 2, 28).getTimezoneOffset()).toBe(-60);
+    expect(new Date(2026, 2, 30).getTimezoneOffset()).toBe(-120);
+    const settings = schedule({ time: "01:00" });
+    const slot = last("daily", new Date(2026, 2, 30, 0, 30), settings);
+    expect(slot).toEqual(new Date(2026, 2, 29, 1, 0));
+    expect(slot.getHours()).toBe(1);
+
+    // 25 October 2026: clocks go back
+    const autumn = last("daily", new Date(2026, 9, 26, 0, 30), settings);
+    expect(autumn).toEqual(new Date(2026, 9, 25, 1, 0));
+  });
+
+  it("returns the most recent scheduled weekday", () => {
+    // 14 May 2026 is a Thursday, the schedule runs on Fridays
+    expect(last("weekly", new Date(2026, 4, 14, 9, 0))).toEqual(
+      new Date(2026, 4, 8, 2, 0),
+    );
+    expect(last("weekly", new Date(2026, 4, 15, 9, 0))).toEqual(
+      new Date(2026, 4, 15, 2, 0),
+    );
+  });
+
+  it("goes back a full week on the scheduled day before the scheduled time", () => {
+    expect(last("weekly", new Date(2026, 4, 15, 1, 0))).toEqual(
+      new Date(2026, 4, 8, 2, 0),
+    );
+  });
+
+  it("finds the weekly slot in the previous month", () => {
+    // Sunday 1 March 2026 with a Friday schedule
+    expect(last("weekly", new Date(2026, 2, 1, 9, 0))).toEqual(
+      new Date(2026, 1, 27, 2, 0),
+    );
+  });
+
+  it("uses this month's day once it has passed", () => {
+    expect(last("monthly", new Date(2026, 4, 14, 9, 0))).toEqual(
+      new Date(2026, 4, 1, 2, 0),
+    );
+  });
+
+  it("falls back to the previous month, across the year boundary", () => {
+    const settings = schedule({
+      monthly: { enabled: true, retention: 12, day: 28 },
+    });
+    expect(last("monthly", new Date(2026, 2, 10, 9, 0), settings)).toEqual(
+      new Date(2026, 1, 28, 2, 0),
+    );
+    expect(last("monthly", new Date(2027, 0, 5, 9, 0), settings)).toEqual(
+      new Date(2026, 11, 28, 2, 0),
+    );
+  });
+});
+
+describe("BackupScheduler.applyRetention", () => {
+  const history = (count: number) =>
+    Array.from({ length: count }, (_, index) => ({
+      id: index + 1,
+      backup_id: `backup-${index + 1}`,
+    }));
+
+  const fakeStorage = (entries: Array<{ id: number; backup_id: string | null }>) => {
+    const deleted: string[] = [];
+    const pruned: number[] = [];
+    const storage = {
+      getBackupHistory: async () => entries,
+      deleteDatabaseBackup: async (backupId: string) => {
+        if (backupId === "broken") throw new Error("disk error");
+        deleted.push(backupId);
+      },
+      updateBackupHistory: async (id: number, data: { status: string }) => {
+        expect(data.status).toBe("pruned");
+        pruned.push(id);
+        return { id, ...data };
+      },
+    };
+    return { storage, deleted, pruned };
+  };
+
+  it("prunes only the backups beyond the retention count", async () => {
+    const { storage, deleted, pruned } = fakeStorage(history(5));
+    await scheduler(storage as any).applyRetention("daily", 3);
+    expect(deleted).toEqual(["backup-4", "backup-5"]);
+    expect(pruned).toEqual([4, 5]);
+  });
+
+  it("keeps everything when there are fewer backups than the retention count", async () => {
+    const { storage, deleted, pruned } = fakeStorage(history(2));
+    await scheduler(storage as any).applyRetention("weekly", 4);
+    expect(deleted).toEqual([]);
+    expect(pruned).toEqual([]);
+  });
+
+  it("prunes all backups with a retention of zero", async () => {
+    const { storage, pruned } = fakeStorage(history(3));
+    await scheduler(storage as any).applyRetention("monthly", 0);
+    expect(pruned).toEqual([1, 2, 3]);
+  });
+
+  it("marks entries without a backup file as pruned", async () => {
+    const { storage, deleted, pruned } = fakeStorage([
+      { id: 1, backup_id: "backup-1" },
+      { id: 2, backup_id: null },
+    ]);
+    await scheduler(storage as any).applyRetention("daily", 1);
+    expect(deleted).toEqual([]);
+    expect(pruned).toEqual([2]);
+  });
+
+  it("continues with older backups when one deletion fails", async () => {
+    const { storage, deleted, pruned } = fakeStorage([
+      { id: 1, backup_id: "backup-1" },
+      { id: 2, backup_id: "broken" },
+      { id: 3, backup_id: "backup-3" },
+    ]);
+    await scheduler(storage as any).applyRetention("daily", 1);
+    expect(deleted).toEqual(["backup-3"]);
+    expect(pruned).toEqual([3]);
+  });
+});
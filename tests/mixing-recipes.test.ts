@@ -0,0 +1,274 @@
+/**
+ * Mixing recipes: layer rules per machine type, ratio and material sums,
+ * per-film material percentages, recipe cost and the raw material drawn per roll.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  insertMixingRecipeSchema,
+  type MixingRecipeLayer,
+} from "../shared/schema";
+import {
+  buildRecipeCost,
+  flattenRecipeLayers,
+  recipeMaterialRequirements,
+} from "../server/services/mixing-recipes";
+
+const layer = (
+  name: MixingRecipeLayer["layer"],
+  ratio: number,
+  materials: [string, number][],
+): MixingRecipeLayer => ({
+  layer: name,
+  ratio,
+  materials: materials.map(([item_id, percentage]) => ({
+    item_id,
+    percentage,
+  })),
+});
+
+const abaLayers = [
+  layer("A", 40, [
+    ["LLDPE", 70],
+    ["LDPE", 30],
+  ]),
+  layer("B", 60, [
+    ["HDPE", 80],
+    ["LLDPE", 20],
+  ]),
+];
+
+const validate = (machineType: string, layers: unknown[]) =>
+  insertMixingRecipeSchema.safeParse({
+    name: "Shopping bag",
+    machine_type: machineType,
+    layers,
+  });
+
+const messages = (result: ReturnType<typeof validate>) =>
+  result.success ? [] : result.error.issues.map((issue) => issue.message);
+
+describe("insertMixingRecipeSchema", () => {
+  it("accepts a single layer A recipe and an ABA recipe", () => {
+    expect(
+      validate("A", [
+        layer("A", 100, [
+          ["LLDPE", 60],
+          ["LDPE", 40],
+        ]),
+      ]).success,
+    ).toBe(true);
+    expect(validate("ABA", abaLayers).success).toBe(true);
+  });
+
+  it("requires exactly the layers of the machine type", () => {
+    expect(messages(validate("A", abaLayers))).toEqual([
+      "وصفة A يجب أن تحتوي على طبقة واحدة A",
+    ]);
+    expect(
+      messages(validate("ABA", [layer("A", 100, [["LLDPE", 100]])])),
+    ).toEqual(["وصفة ABA يجب أن تحتوي على الطبقتين A و B"]);
+    expect(
+      messages(
+        validate("ABA", [
+          layer("A", 50, [["LLDPE", 100]]),
+          layer("A", 50, [["LDPE", 100]]),
+        ]),
+      ),
+    ).toEqual(["وصفة ABA يجب أن تحتوي على الطبقتين A و B"]);
+  });
+
+  it("rejects unknown machine types", () => {
+    expect(messages(validate("AB", abaLayers))).toContain(
+      "نوع الماكينة يجب أن يكون A أو ABA",
+    );
+  });
+
+  it("requires the layer ratios to add up to 100%", () => {
+    expect(
+      messages(
+        validate("ABA", [
+          layer("A", 40, [["LLDPE", 100]]),
+          layer("B", 50, [["HDPE", 100]]),
+        ]),
+      ),
+    ).toEqual(["مجموع نسب الطبقات يجب أن يساوي 100%"]);
+  });
+
+  it("requires the materials of each layer to add up to 100%", () => {
+    const result = validate("ABA", [
+      layer("A", 40, [
+        ["LLDPE", 70],
+        ["LDPE", 20],
+      ]),
+      layer("B", 60, [["HDPE", 100]]),
+    ]);
+    expect(messages(result)).toEqual([
+      "مجموع نسب المواد في الطبقة A يجب أن يساوي 100%",
+    ]);
+    expect(result.success ? null : result.error.issues[0].path).toEqual([
+      "layers",
+      0,
+      "materials",
+    ]);
+  });
+
+  it("tolerates decimal rounding in the sums", () => {
+    expect(
+      validate("ABA", [
+        layer("A", 33.333, [
+          ["LLDPE", 33.333],
+          ["LDPE", 33.333],
+          ["HDPE", 33.334],
+        ]),
+        layer("B", 66.667, [["HDPE", 100]]),
+      ]).success,
+    ).toBe(true);
+    expect(
+      validate("A", [
+        layer("A", 100, [
+          ["LLDPE", 50],
+          ["LDPE", 49.98],
+        ]),
+      ]).success,
+    ).toBe(false);
+  });
+
+  it("rejects a material repeated within a layer", () => {
+    expect(
+      messages(
+        validate("A", [
+          layer("A", 100, [
+            ["LLDPE", 50],
+            ["LLDPE", 50],
+          ]),
+        ]),
+      ),
+    ).toEqual(["المادة مكررة في الطبقة A"]);
+  });
+
+  it("rejects layers without materials and zero percentages", () => {
+    expect(messages(validate("A", [layer("A", 100, [])]))).toContain(
+      "يجب إضافة مادة واحدة على الأقل لكل طبقة",
+    );
+    expect(
+      messages(
+        validate("A", [
+          layer("A", 100, [
+            ["LLDPE", 100],
+            ["LDPE", 0],
+          ]),
+        ]),
+      ),
+    ).toContain("نسبة المادة يجب أن تكون أكبر من صفر");
+  });
+});
+
+describe("flattenRecipeLayers", () => {
+  it("weights each material by the ratio of its layer", () => {
+    expect(flattenRecipeLayers(abaLayers)).toEqual([
+      { item_id: "LLDPE", percentage: 40 }, // 40% x 70% + 60% x 20%
+      { item_id: "LDPE", percentage: 12 },
+      { item_id: "HDPE", percentage: 48 },
+    ]);
+  });
+
+  it("keeps a single layer recipe as is", () => {
+    expect(
+      flattenRecipeLayers([
+        layer("A", 100, [
+          ["LLDPE", 60],
+          ["LDPE", 40],
+        ]),
+      ]),
+    ).toEqual([
+      { item_id: "LLDPE", percentage: 60 },
+      { item_id: "LDPE", percentage: 40 },
+    ]);
+  });
+
+  it("rounds the film percentages to four decimals", () => {
+    const [material] = flattenRecipeLayers([
+      layer("A", 33.333, [["LLDPE", 33.333]]),
+    ]);
+    expect(material.percentage).toBe(11.1109);
+  });
+});
+
+describe("buildRecipeCost", () => {
+  const unitCosts = new Map([
+    ["LLDPE", { name: "LLDPE", unit_cost: 5 }],
+    ["LDPE", { name: "LDPE", unit_cost: 4 }],
+    ["HDPE", { name: "HDPE", unit_cost: null }],
+  ]);
+
+  it("costs a kilogram of film from the film percentages", () => {
+    const cost = buildRecipeCost(flattenRecipeLayers(abaLayers), unitCosts, 5);
+    // 40% x 5 + 12% x 4; HDPE has no cost
+    expect(cost.cost_per_kg).toBe(2.48);
+    expect(cost.cost_per_kg_with_scrap).toBe(2.604);
+    expect(cost.missing_cost_items).toEqual(["HDPE"]);
+  });
+
+  it("costs free materials at zero without reporting them as missing", () => {
+    const cost = buildRecipeCost(
+      [{ item_id: "REGRIND", percentage: 100 }],
+      new Map([["REGRIND", { name: "Regrind", unit_cost: 0 }]]),
+      0,
+    );
+    expect(cost.cost_per_kg).toBe(0);
+    expect(cost.missing_cost_items).toEqual([]);
+  });
+});
+
+describe("recipeMaterialRequirements", () => {
+  it("splits the roll weight by the film percentages with scrap", () => {
+    const requirements = recipeMaterialRequirements(
+      flattenRecipeLayers(abaLayers),
+      50,
+      2,
+    );
+    expect(Object.fromEntries(requirements)).toEqual({
+      LLDPE: 20.4,
+      LDPE: 6.12,
+      HDPE: 24.48,
+    });
+  });
+
+  it("rebalances percentages that do not add up to 100%", () => {
+    const requirements = recipeMaterialRequirements(
+      [
+        { item_id: "LLDPE", percentage: 30 },
+        { item_id: "LDPE", percentage: 10 },
+      ],
+      20,
+      0,
+    );
+    expect(Object.fromEntries(requirements)).toEqual({ LLDPE: 15, LDPE: 5 });
+  });
+
+  it("adds up a material listed twice", () => {
+    const requirements = recipeMaterialRequirements(
+      [
+        { item_id: "LLDPE", percentage: 50 },
+        { item_id: "LLDPE", percentage: 25 },
+        { item_id: "LDPE", percentage: 25 },
+      ],
+      10,
+      0,
+    );
+    expect(requirements.get("LLDPE")).toBe(7.5);
+  });
+
+  it("draws nothing without materials or roll weight", () => {
+    expect(recipeMaterialRequirements([], 50, 2).size).toBe(0);
+    expect(
+      recipeMaterialRequirements([{ item_id: "LLDPE", percentage: 0 }], 50, 2)
+        .size,
+    ).toBe(0);
+    expect(
+      recipeMaterialRequirements([{ item_id: "LLDPE", percentage: 100 }], 0, 2)
+        .size,
+    ).toBe(0);
+  });
+});
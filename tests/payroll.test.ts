@@ -0,0 +1,275 @@
+/**
+ * Monthly payroll: days, leave, lateness, overtime and deductions per employee,
+ * computed from the shift roster, attendance, approved leave and violations.
+ * Runs in Asia/Riyadh (UTC+3) so that local and UTC dates differ around midnight.
+ *
+ * @jest-environment ./tests/timezone-environment.js
+ * @timezone Asia/Riyadh
+ */
+
+import { describe, it, expect, jest } from "@jest/globals";
+import {
+  PAYROLL_COLUMNS,
+  PayrollError,
+  PayrollService,
+  resolvePayrollColumns,
+} from "../server/services/payroll";
+import type { IStorage } from "../server/storage";
+
+// February 2026 starts on a Sunday: 20 scheduled days on a Sunday-Thursday roster
+const feb = (day: number, hours: number, minutes = 0) =>
+  new Date(2026, 1, day, hours, minutes);
+
+const record = (
+  userId: number,
+  day: number,
+  checkIn: Date | null,
+  checkOut: Date | null,
+) => ({
+  user_id: userId,
+  date: `2026-02-${String(day).padStart(2, "0")}`,
+  check_in_time: checkIn,
+  check_out_time: checkOut,
+  lunch_start_time: null,
+  lunch_end_time: null,
+});
+
+const leave = (
+  id: number,
+  leaveTypeId: number,
+  startDate: string,
+  endDate: string,
+  finalStatus = "approved",
+) => ({
+  id,
+  employee_id: "1",
+  leave_type_id: leaveTypeId,
+  start_date: startDate,
+  end_date: endDate,
+  final_status: finalStatus,
+});
+
+let period: Record<string, any> | undefined;
+
+const storage = {
+  getSafeUsers: async () => [
+    { id: 1, username: "ahmad", display_name_ar: "أحمد", section_id: 2 },
+    { id: 3, username: "sara", display_name: "Sara", section_id: null },
+    { id: 4, username: "idle", section_id: 2 },
+  ],
+  getSections: async () => [{ id: "SEC02", name: "Production", name_ar: "الإنتاج" }],
+  getShiftTemplates: async () => [
+    {
+      id: 1,
+      name: "Day",
+      name_ar: "صباحية",
+      start_time: "08:00",
+      end_time: "16:00",
+      break_minutes: 60,
+      late_grace_minutes: 10,
+      early_leave_grace_minutes: 10,
+      overtime_min_minutes: 30,
+    },
+  ],
+  getUserShifts: async () => [
+    {
+      id: 1,
+      user_id: 1,
+      shift_template_id: 1,
+      effective_from: "2026-01-01",
+      effective_to: null,
+      days_of_week: [0, 1, 2, 3, 4],
+    },
+  ],
+  getAttendanceBetween: async () => [
+    record(1, 1, feb(1, 8), feb(1, 16)), // on time
+    record(1, 2, feb(2, 8, 25), feb(2, 16)), // 25 minutes late
+    record(1, 3, feb(3, 8), feb(3, 18)), // two hours overtime
+    record(1, 4, feb(4, 8), null), // no check-out
+    record(1, 6, feb(6, 9), feb(6, 13)), // Friday: rest day work
+  ],
+  getLeaveRequests: async () => [
+    leave(1, 2, "2026-02-08", "2026-02-09"), // unpaid
+    leave(2, 1, "2026-02-10", "2026-02-10"), // paid
+    leave(3, 1, "2026-02-11", "2026-02-12", "rejected"),
+  ],
+  getLeaveTypes: async () => [
+    { id: 1, is_paid: true },
+    { id: 2, is_paid: false },
+  ],
+  getCompanyProfile: async () => ({ working_hours_per_day: 8 }),
+  getEmployeeViolationsBetween: async () => [
+    {
+      employee_id: 1,
+      date: "2026-02-02",
+      violation_type: "تأخير",
+      action_taken: "خصم نصف يوم",
+    },
+    {
+      employee_id: 1,
+      date: "2026-02-16",
+      violation_type: "غياب",
+      action_taken: "إنذار",
+    },
+  ],
+  getAllOperatorNegligenceReports: async () => [
+    {
+      operator_id: 3,
+      report_date: "2026-02-20",
+      report_number: "NR-001",
+      negligence_type: "هدر",
+      disciplinary_action: "Deduction",
+    },
+    {
+      operator_id: 3,
+      report_date: "2026-03-01",
+      report_number: "NR-002",
+      negligence_type: "هدر",
+      disciplinary_action: "Deduction",
+    },
+  ],
+  isUserInScope: async () => true,
+  getPayrollPeriod: async () => period,
+  closePayrollPeriod: async (data: Record<string, any>) => ({
+    id: 6,
+    status: "closed",
+    ...data,
+  }),
+  getPayrollPeriodLines: async () => [
+    { id: 10, period_id: 5, user_id: 1, user_name: "أحمد", worked_days: 18 },
+  ],
+};
+
+const payroll = new PayrollService(storage as unknown as IStorage);
+
+describe("PayrollService.computeLines", () => {
+  it("summarises days, leave, lateness and overtime for a rostered employee", async () => {
+    const lines = await payroll.computeLines("2026-02");
+    const ahmad = lines.find((line) => line.user_id === 1);
+
+    expect(ahmad).toMatchObject({
+      user_name: "أحمد",
+      section_name: "الإنتاج",
+      scheduled_days: 20,
+      worked_days: 4, // three shift days and the rest day
+      absent_days: 13,
+      incomplete_days: 1,
+      paid_leave_days: 1,
+      unpaid_leave_days: 2,
+      late_days: 1,
+      late_minutes: 25,
+      early_leave_minutes: 0,
+      worked_minutes: 420 + 395 + 540 + 240,
+      overtime_minutes: 120 + 240,
+    });
+  });
+
+  it("counts violations and collects deduction notes", async () => {
+    const lines = await payroll.computeLines("2026-02");
+    const ahmad = lines.find((line) => line.user_id === 1);
+
+    expect(ahmad?.violation_count).toBe(2);
+    expect(ahmad?.deduction_count).toBe(1);
+    expect(ahmad?.deduction_notes).toContain("خصم نصف يوم");
+    expect(ahmad?.deduction_notes).not.toContain("إنذار");
+  });
+
+  it("adds employees with deductions in the month but no attendance", async () => {
+    const lines = await payroll.computeLines("2026-02");
+    const sara = lines.find((line) => line.user_id === 3);
+
+    expect(sara).toMatchObject({
+      user_name: "Sara",
+      section_name: null,
+      deduction_count: 1,
+    });
+    expect(sara?.violation_count ?? 0).toBe(0);
+    // The March report falls outside the period
+    expect(sara?.deduction_notes).toContain("NR-001");
+    expect(sara?.deduction_notes).not.toContain("NR-002");
+    expect(lines.some((line) => line.user_id === 4)).toBe(false);
+  });
+});
+
+describe("PayrollService.getMonthlyPayroll", () => {
+  it("spans the whole month, including 29 February in a leap year", async () => {
+    period = undefined;
+    const result = await payroll.getMonthlyPayroll("2024-02");
+    expect(result).toMatchObject({
+      from: "2024-02-01",
+      to: "2024-02-29",
+      status: "open",
+      period: null,
+    });
+  });
+
+  it("serves a closed month from its saved snapshot", async () => {
+    period = { id: 5, month: "2026-02", status: "closed" };
+    const result = await payroll.getMonthlyPayroll("2026-02");
+    expect(result.status).toBe("closed");
+    expect(result.lines).toEqual([
+      { user_id: 1, user_name: "أحمد", worked_days: 18 },
+    ]);
+  });
+
+  it("recomputes a reopened month", async () => {
+    period = { id: 5, month: "2026-02", status: "reopened" };
+    const result = await payroll.getMonthlyPayroll("2026-02");
+    expect(result.status).toBe("reopened");
+    expect(result.lines.find((line) => line.user_id === 1)?.worked_days).toBe(4);
+  });
+});
+
+describe("payroll period locking", () => {
+  it("rejects attendance edits in a closed month only", async () => {
+    period = { id: 5, month: "2026-02", status: "closed" };
+    await expect(payroll.assertAttendanceEditable("2026-02-28")).rejects.toThrow(
+      PayrollError,
+    );
+
+    period = { id: 5, month: "2026-02", status: "reopened" };
+    await expect(
+      payroll.assertAttendanceEditable("2026-02-28"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("refuses to close a month that has not ended", async () => {
+    await expect(payroll.closePeriod("2099-01", 1)).rejects.toThrow(
+      PayrollError,
+    );
+  });
+
+  it("decides the end of the month by the local date", async () => {
+    expect(new Date(2026, 2, 1).getTimezoneOffset()).toBe(-180);
+    try {
+      jest.useFakeTimers({ now: new Date(2026, 1, 28, 23, 30) });
+      await expect(payroll.closePeriod("2026-02", 1)).rejects.toThrow(
+        "لم ينتهِ",
+      );
+
+      // Just after local midnight on the 1st, whatever the UTC date is
+      jest.setSystemTime(new Date(2026, 2, 1, 0, 30));
+      await expect(payroll.closePeriod("2026-02", 1)).resolves.toMatchObject({
+        month: "2026-02",
+        period_end: "2026-02-28",
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("resolvePayrollColumns", () => {
+  it("keeps the requested order and drops unknown keys", () => {
+    expect(
+      resolvePayrollColumns(["user_name", "unknown", " absent_days"]).map(
+        (column) => column.key,
+      ),
+    ).toEqual(["user_name", "absent_days"]);
+  });
+
+  it("falls back to every column without valid keys", () => {
+    expect(resolvePayrollColumns(["unknown"])).toBe(PAYROLL_COLUMNS);
+    expect(resolvePayrollColumns()).toBe(PAYROLL_COLUMNS);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Legacy permission expansion: the SQL migration that converts stored roles
+ * must expand manage_* keys exactly like expandPermissions does at runtime.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  LEGACY_PERMISSION_EXPANSION,
+  expandPermissions,
+} from "../shared/permissions";
+
+const migration = readFileSync(
+  join(process.cwd(), "migrations", "granular_permissions_migration.sql"),
+  "utf8",
+);
+
+// ('legacy_key', 'granular_key') rows of the expansion(...) VALUES list
+function sqlExpansion(): Record<string, string[]> {
+  const values = migration.match(/WITH expansion[\s\S]*?VALUES([\s\S]*?)\n\)/);
+  expect(values).not.toBeNull();
+
+  const expansion: Record<string, string[]> = {};
+  for (const [, legacy, granular] of values![1].matchAll(
+    /\('(\w+)',\s*'(\w+)'\)/g,
+  )) {
+    (expansion[legacy] ||= []).push(granular);
+  }
+  return expansion;
+}
+
+describe("granular permissions migration", () => {
+  it("expands every legacy key to the same keys as LEGACY_PERMISSION_EXPANSION", () => {
+    const expected = Object.fromEntries(
+      Object.entries(LEGACY_PERMISSION_EXPANSION).map(([legacy, keys]) => [
+        legacy,
+        [...(keys || [])].sort(),
+      ]),
+    );
+    const actual = Object.fromEntries(
+      Object.entries(sqlExpansion()).map(([legacy, keys]) => [
+        legacy,
+        [...keys].sort(),
+      ]),
+    );
+
+    expect(actual).toEqual(expected);
+  });
+
+  it("lets converted inventory managers post stock takes", () => {
+    expect(sqlExpansion().manage_inventory).toContain("approve_inventory");
+    expect(expandPermissions(["manage_inventory"])).toContain(
+      "approve_inventory",
+    );
+  });
+});
+
+describe("expandPermissions", () => {
+  it("replaces legacy keys and keeps granular keys once", () => {
+    expect(
+      expandPermissions(["manage_settings", "view_settings", "view_home"]),
+    ).toEqual(["view_settings", "update_settings", "view_home"]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Purchasing: weighted average cost on receipt, receipt quantity checks,
+ * purchase order status after partial and full receipts, delivery dates.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  PurchasingError,
+  OPEN_PURCHASE_ORDER_STATUSES,
+  assertPurchaseOrderStatus,
+  expectedDeliveryDate,
+  receiptStatus,
+  receivableQuantity,
+  weightedAverageCost,
+} from "../server/services/purchasing";
+
+describe("weightedAverageCost", () => {
+  it("weights the current stock and the received quantity", () => {
+    expect(weightedAverageCost(10, 5, 10, 7)).toBe(6);
+    expect(weightedAverageCost(30, 4, 10, 8)).toBe(5);
+  });
+
+  it("rounds to four decimals", () => {
+    expect(weightedAverageCost(1, 1, 2, 2)).toBe(1.6667);
+  });
+
+  it("takes the received cost when the current stock has no recorded cost", () => {
+    expect(weightedAverageCost(25, null, 10, 3.5)).toBe(3.5);
+  });
+
+  it("takes the received cost when there is no stock", () => {
+    expect(weightedAverageCost(0, 5, 5, 8)).toBe(8);
+  });
+
+  it("ignores the old cost of negative stock", () => {
+    expect(weightedAverageCost(-3, 5, 10, 8)).toBe(8);
+  });
+
+  it("averages in free goods and zero-cost stock", () => {
+    expect(weightedAverageCost(10, 5, 10, 0)).toBe(2.5);
+    expect(weightedAverageCost(10, 0, 10, 4)).toBe(2);
+  });
+
+  it("accumulates across partial receipts of one order", () => {
+    const afterFirst = weightedAverageCost(10, 5, 4, 6);
+    expect(afterFirst).toBe(5.2857);
+    expect(weightedAverageCost(14, afterFirst, 6, 7)).toBe(5.8);
+  });
+});
+
+describe("receivableQuantity", () => {
+  it("accepts partial receipts and the exact remaining quantity", () => {
+    expect(receivableQuantity(4, 10, 0, "PVC")).toBe(4);
+    expect(receivableQuantity(6, 10, 4, "PVC")).toBe(6);
+  });
+
+  it("rounds the received quantity to two decimals", () => {
+    expect(receivableQuantity(2.004, 10, 0, "PVC")).toBe(2);
+    expect(receivableQuantity(3.334, 10, 6.67, "PVC")).toBe(3.33);
+  });
+
+  it("rejects more than the remaining quantity", () => {
+    expect(() => receivableQuantity(6.01, 10, 4, "PVC")).toThrow(
+      PurchasingError,
+    );
+    expect(() => receivableQuantity(6.01, 10, 4, "PVC")).toThrow("6.00");
+  });
+
+  it("rejects any receipt on a fully received line", () => {
+    expect(() => receivableQuantity(0.01, 10, 10, "PVC")).toThrow(
+      PurchasingError,
+    );
+  });
+});
+
+describe("receiptStatus", () => {
+  it("is partially received while any line is short", () => {
+    expect(
+      receiptStatus([
+        { quantity: 10, received_quantity: 10 },
+        { quantity: 5, received_quantity: 2 },
+      ]),
+    ).toBe("partially_received");
+    expect(receiptStatus([{ quantity: 10, received_quantity: 0 }])).toBe(
+      "partially_received",
+    );
+  });
+
+  it("is received once every line is received", () => {
+    expect(
+      receiptStatus([
+        { quantity: 10, received_quantity: 10 },
+        { quantity: 5, received_quantity: 5 },
+      ]),
+    ).toBe("received");
+  });
+
+  it("tolerates decimal rounding in the received quantity", () => {
+    expect(
+      receiptStatus([{ quantity: 0.3, received_quantity: 0.1 + 0.2 - 0.0005 }]),
+    ).toBe("received");
+    expect(receiptStatus([{ quantity: 10, received_quantity: 9.99 }])).toBe(
+      "partially_received",
+    );
+  });
+});
+
+describe("assertPurchaseOrderStatus", () => {
+  it("allows receipts only on open orders", () => {
+    for (const status of OPEN_PURCHASE_ORDER_STATUSES) {
+      expect(() =>
+        assertPurchaseOrderStatus(status, OPEN_PURCHASE_ORDER_STATUSES, "استلام"),
+      ).not.toThrow();
+    }
+    expect(() =>
+      assertPurchaseOrderStatus("received", OPEN_PURCHASE_ORDER_STATUSES, "استلام"),
+    ).toThrow('لا يمكن استلام أمر شراء حالته "مستلم بالكامل"');
+    expect(() =>
+      assertPurchaseOrderStatus("draft", OPEN_PURCHASE_ORDER_STATUSES, "استلام"),
+    ).toThrow(PurchasingError);
+  });
+});
+
+describe("expectedDeliveryDate", () => {
+  it("adds the supplier lead time to the order date", () => {
+    expect(expectedDeliveryDate("2026-05-14", 7)).toBe("2026-05-21");
+    expect(expectedDeliveryDate("2026-05-14", 0)).toBe("2026-05-14");
+  });
+
+  it("crosses month, leap day and year boundaries", () => {
+    expect(expectedDeliveryDate("2026-01-30", 3)).toBe("2026-02-02");
+    expect(expectedDeliveryDate("2028-02-27", 2)).toBe("2028-02-29");
+    expect(expectedDeliveryDate("2026-12-30", 5)).toBe("2027-01-04");
+  });
+
+  it("is unaffected by daylight saving changes", () => {
+    expect(expectedDeliveryDate("2026-03-28", 1)).toBe("2026-03-29");
+    expect(expectedDeliveryDate("2026-10-24", 2)).toBe("2026-10-26");
+  });
+
+  it("has no expected date without a lead time", () => {
+    expect(expectedDeliveryDate("2026-05-14", null)).toBeNull();
+  });
+});
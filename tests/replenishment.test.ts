@@ -0,0 +1,258 @@
+/**
+ * Min/max reorder suggestions: projected stock at delivery, suggested quantity,
+ * supplier and lead time choice, urgency, pricing and the CSV export.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  buildReorderSuggestions,
+  reorderListToCSV,
+  type LastPurchase,
+  type ReplenishmentStockInput,
+  type ReplenishmentSupplierInput,
+} from "../server/services/replenishment";
+
+// 90 days consumed over the default 90 day lookback: one unit a day
+const stockLine = (
+  overrides: Partial<ReplenishmentStockInput> = {},
+): ReplenishmentStockInput => ({
+  source: "inventory",
+  item_id: "ITM01",
+  consumable_part_id: null,
+  code: "ITM01",
+  name: "حبيبات بولي إيثيلين",
+  unit: "كيلو",
+  current_stock: 50,
+  min_stock: 10,
+  max_stock: 100,
+  consumed_quantity: 90,
+  open_purchase_quantity: 0,
+  unit_cost: 4,
+  ...overrides,
+});
+
+const supplier = (
+  overrides: Partial<ReplenishmentSupplierInput> = {},
+): ReplenishmentSupplierInput => ({
+  id: 1,
+  name: "Supplier",
+  name_ar: "المورد",
+  is_active: true,
+  lead_time_days: 5,
+  avg_lead_time_days: null,
+  materials_supplied: ["ITM01"],
+  ...overrides,
+});
+
+const suggest = (
+  stock: ReplenishmentStockInput[],
+  suppliers: ReplenishmentSupplierInput[] = [],
+  lastPurchases = new Map<string, LastPurchase>(),
+) => buildReorderSuggestions(stock, suppliers, lastPurchases).suggestions;
+
+describe("buildReorderSuggestions", () => {
+  it("ignores items without stock limits", () => {
+    expect(
+      suggest([stockLine({ current_stock: 0, min_stock: 0, max_stock: 0 })]),
+    ).toEqual([]);
+  });
+
+  it("does not suggest while the projected stock stays above the minimum", () => {
+    // 50 - 1/day x 7 days = 43
+    expect(suggest([stockLine()])).toEqual([]);
+  });
+
+  it("suggests topping up to the maximum at the reorder point", () => {
+    const [suggestion] = suggest([stockLine({ current_stock: 17 })]);
+    expect(suggestion).toMatchObject({
+      lead_time_days: DEFAULT_LEAD_TIME_DAYS,
+      avg_daily_consumption: 1,
+      days_of_cover: 17,
+      projected_stock: 10,
+      suggested_quantity: 90,
+      urgency: "normal",
+    });
+  });
+
+  it("treats zero stock without consumption as critical", () => {
+    const [suggestion] = suggest([
+      stockLine({ current_stock: 0, consumed_quantity: 0, max_stock: 50 }),
+    ]);
+    expect(suggestion).toMatchObject({
+      days_of_cover: null,
+      projected_stock: 0,
+      suggested_quantity: 50,
+      urgency: "critical",
+    });
+  });
+
+  it("counts open purchase orders towards the projected stock", () => {
+    const covered = stockLine({
+      current_stock: 5,
+      open_purchase_quantity: 20,
+      consumed_quantity: 0,
+      max_stock: 40,
+    });
+    expect(suggest([covered])).toEqual([]);
+
+    const [short] = suggest([{ ...covered, open_purchase_quantity: 3 }]);
+    expect(short).toMatchObject({
+      projected_stock: 8,
+      suggested_quantity: 32,
+      urgency: "high",
+    });
+  });
+
+  it("treats a missing maximum as the minimum", () => {
+    const [suggestion] = suggest([
+      stockLine({ current_stock: 4, consumed_quantity: 0, max_stock: 0 }),
+    ]);
+    expect(suggestion.suggested_quantity).toBe(6);
+  });
+
+  it("rounds up to whole units for discrete units only", () => {
+    const line = stockLine({
+      current_stock: 10.4,
+      min_stock: 12,
+      max_stock: 20,
+      consumed_quantity: 0,
+    });
+    expect(suggest([{ ...line, unit: "قطعة" }])[0].suggested_quantity).toBe(10);
+    expect(suggest([line])[0].suggested_quantity).toBe(9.6);
+    // 20.005 - 10.4 = 9.605, rounded up to the cent
+    expect(
+      suggest([{ ...line, max_stock: 20.005 }])[0].suggested_quantity,
+    ).toBe(9.61);
+  });
+
+  it("uses the actual lead time, rounded up, over the agreed one", () => {
+    const [suggestion] = suggest(
+      [stockLine({ current_stock: 12 })],
+      [supplier({ lead_time_days: 10, avg_lead_time_days: 2.2 })],
+    );
+    expect(suggestion.lead_time_days).toBe(3);
+    expect(suggestion.projected_stock).toBe(9);
+  });
+
+  it("marks stock that runs out before delivery as critical", () => {
+    // 12 days of cover with a 14 day lead time
+    const [suggestion] = suggest(
+      [stockLine({ current_stock: 12 })],
+      [supplier({ lead_time_days: 14 })],
+    );
+    expect(suggestion.days_of_cover).toBe(12);
+    expect(suggestion.urgency).toBe("critical");
+  });
+
+  it("prefers the last supplier, then the fastest active supplier of the item", () => {
+    const suppliers = [
+      supplier({ id: 1, name_ar: "البطيء", lead_time_days: 20 }),
+      supplier({ id: 2, name_ar: "السريع", lead_time_days: 3 }),
+      supplier({
+        id: 3,
+        name_ar: "المتوقف",
+        lead_time_days: 1,
+        is_active: false,
+      }),
+      supplier({
+        id: 4,
+        name_ar: "آخر",
+        lead_time_days: 1,
+        materials_supplied: [],
+      }),
+    ];
+    const line = stockLine({ current_stock: 5 });
+
+    expect(suggest([line], suppliers)[0].supplier_name).toBe("السريع");
+    expect(
+      suggest(
+        [line],
+        suppliers,
+        new Map([["ITM01", { supplier_id: 1, unit_price: 3.5 }]]),
+      )[0].supplier_name,
+    ).toBe("البطيء");
+  });
+
+  it("prices from the last purchase at the same supplier, else the stock cost", () => {
+    const line = stockLine({ current_stock: 0, consumed_quantity: 0 });
+    const suppliers = [supplier()];
+
+    const [lastPrice] = suggest(
+      [line],
+      suppliers,
+      new Map([["ITM01", { supplier_id: 1, unit_price: 3.5 }]]),
+    );
+    expect(lastPrice.unit_price).toBe(3.5);
+    expect(lastPrice.estimated_cost).toBe(350);
+
+    const [stockCost] = suggest([line], suppliers);
+    expect(stockCost.unit_price).toBe(4);
+  });
+
+  it("leaves the cost empty for items without a cost and excludes it from the total", () => {
+    const list = buildReorderSuggestions(
+      [
+        stockLine({ item_id: "ITM01", current_stock: 0, unit_cost: null }),
+        stockLine({
+          item_id: "ITM02",
+          current_stock: 0,
+          consumed_quantity: 0,
+          max_stock: 10,
+        }),
+      ],
+      [],
+      new Map(),
+    );
+    const withoutCost = list.suggestions.find((s) => s.item_id === "ITM01");
+    expect(withoutCost?.estimated_cost).toBeNull();
+    expect(list.total_estimated_cost).toBe(40);
+  });
+
+  it("exports consumable parts without a supplier or conversion", () => {
+    const [part] = suggest([
+      stockLine({
+        source: "consumable",
+        item_id: null,
+        consumable_part_id: 12,
+        current_stock: 0,
+      }),
+    ]);
+    expect(part).toMatchObject({
+      key: "part:12",
+      supplier_id: null,
+      lead_time_days: DEFAULT_LEAD_TIME_DAYS,
+      can_convert: false,
+    });
+  });
+
+  it("lists critical items first, then by days of cover", () => {
+    const suggestions = suggest([
+      stockLine({ item_id: "NORMAL", current_stock: 17 }),
+      stockLine({ item_id: "HIGH", current_stock: 9, consumed_quantity: 0 }),
+      stockLine({ item_id: "CRIT_B", current_stock: 6 }),
+      stockLine({ item_id: "CRIT_A", current_stock: 2 }),
+    ]);
+    expect(suggestions.map((s) => s.item_id)).toEqual([
+      "CRIT_A",
+      "CRIT_B",
+      "HIGH",
+      "NORMAL",
+    ]);
+  });
+});
+
+describe("reorderListToCSV", () => {
+  it("writes a BOM, the Arabic header and escaped values", () => {
+    const list = buildReorderSuggestions(
+      [stockLine({ name: 'رول "شفاف", 40 مم', current_stock: 0 })],
+      [],
+      new Map(),
+    );
+    const [header, row] = reorderListToCSV(list).toString("utf8").split("\n");
+
+    expect(header.startsWith("\uFEFFالكود,الصنف")).toBe(true);
+    expect(row).toContain('"رول ""شفاف"", 40 مم"');
+    expect(row.endsWith(",حرج")).toBe(true);
+  });
+});
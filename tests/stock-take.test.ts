@@ -0,0 +1,170 @@
+/**
+ * Stock take: resolving multi-counter counts, variance against the frozen
+ * snapshot and its valuation, and the stock adjustment applied on posting.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  StockTakeError,
+  assertStockTakeCounting,
+  resolveCountedQuantity,
+  stockTakeAdjustment,
+  stockTakeValueImpact,
+  stockTakeVariance,
+} from "../server/services/stock-take";
+
+describe("resolveCountedQuantity", () => {
+  it("leaves an uncounted line open", () => {
+    expect(resolveCountedQuantity([])).toEqual({
+      counted_quantity: null,
+      counters: 0,
+      has_conflict: false,
+    });
+  });
+
+  it("accepts a single count, including a count of zero", () => {
+    expect(resolveCountedQuantity([12.5]).counted_quantity).toBe(12.5);
+    expect(resolveCountedQuantity([0])).toEqual({
+      counted_quantity: 0,
+      counters: 1,
+      has_conflict: false,
+    });
+  });
+
+  it("accepts counters that agree to the cent", () => {
+    expect(resolveCountedQuantity([10, 10.001, 9.999])).toEqual({
+      counted_quantity: 10,
+      counters: 3,
+      has_conflict: false,
+    });
+  });
+
+  it("flags a conflict when counters disagree", () => {
+    expect(resolveCountedQuantity([10, 10.5])).toEqual({
+      counted_quantity: null,
+      counters: 2,
+      has_conflict: true,
+    });
+  });
+});
+
+describe("stockTakeVariance", () => {
+  it("values a shortage and a surplus at the snapshot unit cost", () => {
+    expect(stockTakeVariance(100, 95, 2.5)).toEqual({
+      variance: -5,
+      value_impact: -12.5,
+    });
+    expect(stockTakeVariance(100, 104.5, 2)).toEqual({
+      variance: 4.5,
+      value_impact: 9,
+    });
+  });
+
+  it("has no variance when the count matches", () => {
+    expect(stockTakeVariance(40, 40, 3)).toEqual({
+      variance: 0,
+      value_impact: 0,
+    });
+  });
+
+  it("values items found with zero system stock", () => {
+    expect(stockTakeVariance(0, 8, 1.25)).toEqual({
+      variance: 8,
+      value_impact: 10,
+    });
+  });
+
+  it("writes off the whole snapshot when nothing is found", () => {
+    expect(stockTakeVariance(12, 0, 4)).toEqual({
+      variance: -12,
+      value_impact: -48,
+    });
+  });
+
+  it("shows the quantity without a value for items without a cost", () => {
+    expect(stockTakeVariance(10, 7, null)).toEqual({
+      variance: -3,
+      value_impact: null,
+    });
+  });
+
+  it("values items with a zero cost at zero", () => {
+    const { variance, value_impact } = stockTakeVariance(10, 7, 0);
+    expect(variance).toBe(-3);
+    expect(value_impact).toBeCloseTo(0);
+  });
+
+  it("has no variance before the line is counted", () => {
+    expect(stockTakeVariance(10, null, 4)).toEqual({
+      variance: null,
+      value_impact: null,
+    });
+  });
+
+  it("rounds the variance and its value to two decimals", () => {
+    expect(stockTakeVariance(10.1, 10.3, 3.3333)).toEqual({
+      variance: 0.2,
+      value_impact: 0.67,
+    });
+  });
+});
+
+describe("stockTakeValueImpact", () => {
+  it("sums the valued lines and skips uncounted or uncosted ones", () => {
+    expect(
+      stockTakeValueImpact([
+        { value_impact: -12.5 },
+        { value_impact: 9 },
+        { value_impact: null },
+        { value_impact: 0.1 },
+        { value_impact: 0.2 },
+      ]),
+    ).toBe(-3.2);
+  });
+
+  it("is zero for a stock take without valued lines", () => {
+    expect(stockTakeValueImpact([])).toBe(0);
+    expect(stockTakeValueImpact([{ value_impact: null }])).toBe(0);
+  });
+});
+
+describe("stockTakeAdjustment", () => {
+  it("applies the variance to the current stock, not the snapshot", () => {
+    // 20 issued while counting: snapshot 100, counted 95, current 80
+    expect(stockTakeAdjustment(80, -5, "PVC")).toEqual({
+      new_stock: 75,
+      movement_type: "adjustment",
+      quantity: 75,
+    });
+    expect(stockTakeAdjustment(0, 8, "PVC")).toEqual({
+      new_stock: 8,
+      movement_type: "adjustment",
+      quantity: 8,
+    });
+  });
+
+  it("records a stock-out as an issue of the whole current stock", () => {
+    expect(stockTakeAdjustment(12, -12, "PVC")).toEqual({
+      new_stock: 0,
+      movement_type: "out",
+      quantity: 12,
+    });
+  });
+
+  it("rejects a shortage larger than the current stock", () => {
+    expect(() => stockTakeAdjustment(3, -5, "PVC")).toThrow(StockTakeError);
+    expect(() => stockTakeAdjustment(3, -5, "PVC")).toThrow("5.00");
+  });
+});
+
+describe("assertStockTakeCounting", () => {
+  it("allows changes only while counting", () => {
+    expect(() => assertStockTakeCounting("counting", "ترحيل")).not.toThrow();
+    expect(() => assertStockTakeCounting("posted", "ترحيل")).toThrow(
+      'لا يمكن ترحيل جرد حالته "مرحّل"',
+    );
+    expect(() => assertStockTakeCounting("cancelled", "ترحيل")).toThrow(
+      StockTakeError,
+    );
+  });
+});
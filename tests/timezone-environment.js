@@ -0,0 +1,29 @@
+import { TestEnvironment } from "jest-environment-node";
+
+/**
+ * Node test environment that runs one test file in the time zone named by its
+ * `@timezone` docblock pragma, e.g. to cover daylight saving changes, and
+ * restores the worker's zone afterwards so other files are unaffected.
+ */
+export default class TimeZoneEnvironment extends TestEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    this.timeZone = context.docblockPragmas.timezone;
+  }
+
+  async setup() {
+    await super.setup();
+    if (this.timeZone) {
+      this.previousTimeZone = process.env.TZ;
+      process.env.TZ = this.timeZone;
+    }
+  }
+
+  async teardown() {
+    if (this.timeZone) {
+      if (this.previousTimeZone === undefined) delete process.env.TZ;
+      else process.env.TZ = this.previousTimeZone;
+    }
+    await super.teardown();
+  }
+}